@@ -0,0 +1,200 @@
+/**
+ * Tests for alert source normalization
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('../../tools/observability/prometheus', () => ({ getFiringAlerts: vi.fn() }));
+vi.mock('../../tools/observability/datadog', () => ({ getTriggeredMonitors: vi.fn() }));
+vi.mock('../../tools/incident/opsgenie', () => ({ getAlert: vi.fn() }));
+vi.mock('../../tools/incident/pagerduty', () => ({ getIncident: vi.fn() }));
+
+import { getFiringAlerts } from '../../tools/observability/prometheus';
+import { getTriggeredMonitors } from '../../tools/observability/datadog';
+import { getAlert } from '../../tools/incident/opsgenie';
+import {
+  formatTriageInput,
+  fromAlertPayload,
+  fromDatadogMonitor,
+  fromOpsGenieAlert,
+  loadTriageInput,
+} from '../alert-sources';
+
+describe('alert normalizers', () => {
+  it('should map OpsGenie priority, tags and details', () => {
+    const input = fromOpsGenieAlert({
+      id: 'og-1',
+      tinyId: '1',
+      message: 'Checkout error rate above 5%',
+      status: 'open',
+      acknowledged: false,
+      isSeen: false,
+      priority: 'P1',
+      createdAt: '2026-10-01T10:00:00Z',
+      updatedAt: '2026-10-01T10:00:00Z',
+      source: 'grafana',
+      tags: ['service:checkout', 'prod'],
+      teams: [],
+      responders: [],
+      details: { region: 'eu-west-1' },
+    });
+
+    expect(input).toMatchObject({
+      source: 'opsgenie',
+      id: 'og-1',
+      severity: 'critical',
+      services: ['checkout'],
+      labels: { service: 'checkout', prod: 'prod', region: 'eu-west-1' },
+    });
+  });
+
+  it('should map Datadog monitor tags and priority', () => {
+    const input = fromDatadogMonitor({
+      id: 42,
+      name: 'High p99 latency on payments',
+      type: 'metric alert',
+      query: 'avg(last_5m):p99:trace.http.request{service:payments} > 2',
+      message: 'Latency is high',
+      overallState: 'Alert',
+      tags: ['service:payments', 'team:core'],
+      priority: 2,
+      created: '2026-01-01T00:00:00Z',
+      modified: '2026-10-01T10:00:00Z',
+    });
+
+    expect(input).toMatchObject({ id: '42', severity: 'high', services: ['payments'] });
+  });
+
+  it('should read the first firing alert from an Alertmanager webhook payload', () => {
+    const input = fromAlertPayload({
+      status: 'firing',
+      commonLabels: { severity: 'critical' },
+      alerts: [
+        { status: 'resolved', labels: { alertname: 'Old' } },
+        {
+          status: 'firing',
+          labels: { alertname: 'KubePodCrashLooping', namespace: 'shop', app: 'cart' },
+          annotations: { summary: 'cart is crash looping' },
+          startsAt: '2026-10-01T10:00:00Z',
+          generatorURL: 'http://prometheus/graph',
+        },
+      ],
+    });
+
+    expect(input).toMatchObject({
+      source: 'file',
+      id: 'KubePodCrashLooping',
+      title: 'cart is crash looping',
+      severity: 'critical',
+      services: ['cart'],
+      url: 'http://prometheus/graph',
+    });
+  });
+
+  it('should read PagerDuty webhook envelopes and flat payloads', () => {
+    expect(
+      fromAlertPayload({
+        event: {
+          data: {
+            id: 'PD1',
+            title: 'Orders API down',
+            urgency: 'high',
+            service: { summary: 'orders-api' },
+          },
+        },
+      })
+    ).toMatchObject({
+      id: 'PD1',
+      title: 'Orders API down',
+      severity: 'high',
+      services: ['orders-api'],
+    });
+
+    expect(
+      fromAlertPayload({ title: 'Disk full', severity: 'warning', labels: { service: 'db' } })
+    ).toMatchObject({ id: 'alert', severity: 'medium', services: ['db'] });
+
+    expect(() => fromAlertPayload({ foo: 'bar' })).toThrow('no title');
+  });
+
+  it('should format inputs for the triage prompt', () => {
+    const text = formatTriageInput(
+      fromAlertPayload({ title: 'Disk full', severity: 'critical', service: 'db' })
+    );
+
+    expect(text).toContain('Title: Disk full');
+    expect(text).toContain('Severity: critical');
+    expect(text).toContain('Services: db');
+  });
+});
+
+describe('loadTriageInput', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await mkdtemp(join(tmpdir(), 'runbook-alerts-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should pick firing Alertmanager alerts by name', async () => {
+    vi.mocked(getFiringAlerts).mockResolvedValue([
+      { alertname: 'HighErrorRate', job: 'api', state: 'pending', activeAt: 't0' },
+      { alertname: 'HighErrorRate', job: 'api', instance: 'a', state: 'firing', activeAt: 't1' },
+      { alertname: 'HighErrorRate', job: 'api', instance: 'b', state: 'firing', activeAt: 't2' },
+    ]);
+
+    const input = await loadTriageInput('alertmanager', 'HighErrorRate');
+
+    expect(input).toMatchObject({ source: 'alertmanager', services: ['api'], startedAt: 't1' });
+    expect(input.labels.instances).toBe('a, b');
+    await expect(loadTriageInput('alertmanager', 'Missing')).rejects.toThrow('No firing');
+  });
+
+  it('should find triggered Datadog monitors by ID or name', async () => {
+    vi.mocked(getTriggeredMonitors).mockResolvedValue([
+      {
+        id: 7,
+        name: 'Queue depth',
+        type: 'metric alert',
+        query: 'q',
+        message: '',
+        overallState: 'Warn',
+        tags: [],
+        created: '',
+        modified: '',
+      },
+    ]);
+
+    expect((await loadTriageInput('datadog', '7')).title).toBe('Queue depth');
+    expect((await loadTriageInput('datadog', 'Queue depth')).id).toBe('7');
+    await expect(loadTriageInput('datadog', '8')).rejects.toThrow('No triggered Datadog monitor');
+  });
+
+  it('should load OpsGenie alerts and payload files', async () => {
+    vi.mocked(getAlert).mockResolvedValue({
+      id: 'og-2',
+      message: 'Latency',
+      priority: 'P3',
+      tags: [],
+    } as unknown as Awaited<ReturnType<typeof getAlert>>);
+    expect((await loadTriageInput('opsgenie', 'og-2')).severity).toBe('medium');
+    expect(getAlert).toHaveBeenCalledWith('og-2');
+
+    const file = join(dir, 'alert.json');
+    await writeFile(file, JSON.stringify({ message: 'Cache miss storm', priority: 'P2' }));
+    expect(await loadTriageInput('file', file)).toMatchObject({
+      title: 'Cache miss storm',
+      severity: 'high',
+    });
+    await expect(loadTriageInput('file', join(dir, 'missing.json'))).rejects.toThrow(
+      'Failed to read alert payload'
+    );
+  });
+});
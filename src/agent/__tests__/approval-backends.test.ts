@@ -0,0 +1,265 @@
+/**
+ * Tests for approval backends and the multi-approver flow
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileApprovalBackend,
+  HttpApprovalBackend,
+  writeFileApprovalDecision,
+  type ApprovalBackend,
+  type ApprovalDecision,
+  type ApprovalSessionContext,
+} from '../approval-backends';
+import { requestApprovalWithOptions, type MutationRequest } from '../approval';
+
+const request: MutationRequest = {
+  id: 'mut_test_1',
+  operation: 'ecs:UpdateService',
+  resource: 'prod-checkout',
+  description: 'Roll back checkout',
+  riskLevel: 'critical',
+  parameters: {},
+};
+
+const context: ApprovalSessionContext = {
+  requester: 'alice',
+  requirements: 'default: 1 approval',
+  approvalsNeeded: 1,
+  timeoutMs: 2000,
+};
+
+/**
+ * Backend that replays scripted decisions
+ */
+function scriptedBackend(decisions: Array<Omit<ApprovalDecision, 'decidedAt'>>) {
+  const queue = [...decisions];
+  const progress = vi.fn(async () => {});
+  const close = vi.fn(async () => {});
+  const backend: ApprovalBackend = {
+    name: 'file',
+    distinctApprovers: true,
+    open: vi.fn(async () => ({
+      next: async () => {
+        const decision = queue.shift();
+        return decision ? { ...decision, decidedAt: new Date() } : null;
+      },
+      progress,
+      close,
+    })),
+  };
+  return { backend, progress, close };
+}
+
+describe('FileApprovalBackend', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'runbook-approvals-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write the request and read appended decisions in order', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const backend = new FileApprovalBackend({ dir, pollIntervalMs: 10 });
+    const session = await backend.open(request, context);
+
+    const requestFile = join(dir, `${request.id}.request.json`);
+    expect(JSON.parse(readFileSync(requestFile, 'utf-8'))).toMatchObject({
+      request: { id: request.id },
+      requester: 'alice',
+    });
+
+    writeFileApprovalDecision(dir, request.id, { approved: true, approver: 'bob' });
+    writeFileApprovalDecision(dir, request.id, {
+      approved: false,
+      approver: 'carol',
+      reason: 'no',
+    });
+
+    expect(await session.next()).toMatchObject({ approved: true, approver: 'bob' });
+    expect(await session.next()).toMatchObject({
+      approved: false,
+      approver: 'carol',
+      reason: 'no',
+    });
+
+    await session.close();
+    expect(existsSync(requestFile)).toBe(false);
+    vi.restoreAllMocks();
+  });
+
+  it('should time out without decisions', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const backend = new FileApprovalBackend({ dir, pollIntervalMs: 10 });
+    const session = await backend.open(request, { ...context, timeoutMs: 30 });
+
+    expect(await session.next()).toBeNull();
+    await session.close();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('HttpApprovalBackend', () => {
+  it('should only accept decisions with the link token and an approver name', async () => {
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message: string) => logs.push(message));
+    const backend = new HttpApprovalBackend({ port: 0 });
+    const session = await backend.open(request, context);
+
+    try {
+      const link = logs
+        .join('\n')
+        .match(/http:\/\/localhost:\d+\/approvals\/\w+\?token=[a-f0-9]+/)![0];
+      const url = new URL(link);
+      const token = url.searchParams.get('token')!;
+      const post = (form: Record<string, string>) =>
+        fetch(`${url.origin}${url.pathname}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams(form).toString(),
+        });
+
+      const page = await fetch(link);
+      expect(page.status).toBe(200);
+      expect(await page.text()).toContain('prod-checkout');
+      expect((await fetch(`${url.origin}${url.pathname}?token=wrong`)).status).toBe(403);
+
+      expect((await post({ token: 'wrong', approver: 'bob', decision: 'approve' })).status).toBe(
+        403
+      );
+      expect((await post({ token, approver: ' ', decision: 'approve' })).status).toBe(400);
+      expect((await post({ token, approver: 'x'.repeat(100_000) })).status).toBe(413);
+      expect((await post({ token, approver: 'bob', decision: 'approve' })).status).toBe(200);
+
+      expect(await session.next()).toMatchObject({ approved: true, approver: 'http:bob' });
+    } finally {
+      await session.close();
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+describe('requestApprovalWithOptions', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const policy = {
+    groups: { sre: ['slack:bob', 'slack:carol', 'slack:alice'] },
+    rules: [
+      {
+        name: 'critical-two-sre',
+        riskLevels: ['critical' as const],
+        minApprovals: 2,
+        approverGroups: ['sre'],
+        excludeRequester: true,
+      },
+    ],
+  };
+
+  it('should collect distinct eligible approvers until the policy is satisfied', async () => {
+    const { backend, progress, close } = scriptedBackend([
+      { approved: true, approver: 'slack:bob' },
+      { approved: true, approver: 'slack:bob' },
+      { approved: true, approver: 'alice' },
+      { approved: true, approver: 'http:carol' },
+      { approved: true, approver: 'slack:dave' },
+      { approved: true, approver: 'slack:carol' },
+    ]);
+
+    const result = await requestApprovalWithOptions(request, {
+      backend,
+      policy,
+      requester: 'alice',
+    });
+
+    expect(result).toMatchObject({
+      approved: true,
+      approvers: ['slack:bob', 'slack:carol'],
+      approvedBy: 'slack:bob, slack:carol',
+    });
+    expect(progress).toHaveBeenCalledWith(1, ['slack:bob']);
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should stop at the first rejection or timeout', async () => {
+    const rejected = scriptedBackend([
+      { approved: true, approver: 'slack:bob' },
+      { approved: false, approver: 'slack:carol', reason: 'Not during peak' },
+    ]);
+    expect(
+      await requestApprovalWithOptions(request, { backend: rejected.backend, policy })
+    ).toMatchObject({ approved: false, approvedBy: 'slack:carol', reason: 'Not during peak' });
+
+    const timedOut = scriptedBackend([{ approved: true, approver: 'slack:bob' }]);
+    const result = await requestApprovalWithOptions(request, {
+      backend: timedOut.backend,
+      policy,
+      timeoutMs: 1000,
+    });
+    expect(result.approved).toBe(false);
+    expect(result.reason).toContain('timed out');
+  });
+
+  it('should refuse backends that only see the local user for four-eyes rules', async () => {
+    const { backend } = scriptedBackend([{ approved: true, approver: 'cli:alice' }]);
+    const cliOnly = { ...backend, name: 'cli' as const, distinctApprovers: false };
+
+    const result = await requestApprovalWithOptions(request, { backend: cliOnly, policy });
+
+    expect(result.approved).toBe(false);
+    expect(result.reason).toContain('requires specific or other approvers');
+    expect(cliOnly.open).not.toHaveBeenCalled();
+
+    // Approver names typed into a form or a file could all be the requester
+    expect(new HttpApprovalBackend().distinctApprovers).toBe(false);
+    expect(new FileApprovalBackend().distinctApprovers).toBe(false);
+  });
+
+  it('should refuse group-restricted rules on backends that cannot tell who approved', async () => {
+    const { backend } = scriptedBackend([{ approved: true, approver: 'slack:bob' }]);
+    const typedNames = { ...backend, name: 'http' as const, distinctApprovers: false };
+    const groupOnly = {
+      groups: policy.groups,
+      rules: [{ name: 'sre-only', minApprovals: 1, approverGroups: ['sre'] }],
+    };
+
+    const result = await requestApprovalWithOptions(request, {
+      backend: typedNames,
+      policy: groupOnly,
+    });
+
+    expect(result.approved).toBe(false);
+    expect(result.reason).toContain('cannot tell who approved');
+    expect(typedNames.open).not.toHaveBeenCalled();
+  });
+
+  it('should let policy rules override risk-level auto-approval', async () => {
+    const { backend } = scriptedBackend([]);
+
+    const autoApproved = await requestApprovalWithOptions(
+      { ...request, riskLevel: 'low', resource: 'staging' },
+      { backend, policy, autoApprove: ['low', 'critical'] }
+    );
+    expect(autoApproved.approvedBy).toBe('auto-approval');
+
+    const required = await requestApprovalWithOptions(request, {
+      backend,
+      policy,
+      autoApprove: ['critical'],
+    });
+    expect(required.approved).toBe(false);
+    expect(backend.open).toHaveBeenCalledTimes(1);
+  });
+});
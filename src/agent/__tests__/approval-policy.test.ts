@@ -0,0 +1,133 @@
+/**
+ * Tests for approval policy evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MutationRequest } from '../approval';
+import {
+  describeApprovalRequirements,
+  evaluateApprovals,
+  hasPolicyRequirements,
+  normalizeApprover,
+  requiresOtherApprovers,
+  resolveApprovalRequirements,
+  type ApprovalPolicy,
+} from '../approval-policy';
+
+function mutation(overrides: Partial<MutationRequest> = {}): MutationRequest {
+  return {
+    id: 'mut_1',
+    operation: 'ecs:UpdateService',
+    resource: 'prod-checkout',
+    description: 'Scale checkout',
+    riskLevel: 'high',
+    parameters: {},
+    ...overrides,
+  };
+}
+
+const policy: ApprovalPolicy = {
+  groups: { sre: ['alice', 'slack:bob', 'carol'] },
+  rules: [
+    {
+      name: 'critical-two-sre',
+      riskLevels: ['critical'],
+      minApprovals: 2,
+      approverGroups: ['sre'],
+    },
+    { name: 'prod-four-eyes', resources: ['prod-*', '*production*'], excludeRequester: true },
+  ],
+};
+
+describe('resolveApprovalRequirements', () => {
+  it('should fall back to a single approval when no rule matches', () => {
+    const requirements = resolveApprovalRequirements(mutation({ resource: 'staging-api' }), policy);
+
+    expect(requirements).toHaveLength(1);
+    expect(hasPolicyRequirements(requirements)).toBe(false);
+    expect(requiresOtherApprovers(requirements)).toBe(false);
+  });
+
+  it('should combine every matching rule', () => {
+    const requirements = resolveApprovalRequirements(mutation({ riskLevel: 'critical' }), policy);
+
+    expect(requirements.map((r) => r.rule)).toEqual(['critical-two-sre', 'prod-four-eyes']);
+    expect(requiresOtherApprovers(requirements)).toBe(true);
+    expect(describeApprovalRequirements(requirements)).toBe(
+      'critical-two-sre: 2 approvals from sre; prod-four-eyes: 1 approval other than the requester'
+    );
+  });
+
+  it('should match resource and operation patterns case-insensitively', () => {
+    const rules: ApprovalPolicy = {
+      rules: [{ operations: ['kubernetes:*'], resources: ['*/PAYMENTS'] }],
+    };
+
+    expect(
+      resolveApprovalRequirements(
+        mutation({ operation: 'kubernetes:Scale', resource: 'deployment/payments' }),
+        rules
+      )[0].rule
+    ).toBe('rule 1');
+    expect(
+      hasPolicyRequirements(
+        resolveApprovalRequirements(mutation({ operation: 'ecs:UpdateService' }), rules)
+      )
+    ).toBe(false);
+  });
+});
+
+describe('evaluateApprovals', () => {
+  const context = { requester: 'alice', groups: policy.groups };
+
+  it('should require distinct group members for multi-approver rules', () => {
+    const requirements = resolveApprovalRequirements(
+      mutation({ riskLevel: 'critical', resource: 'staging-db' }),
+      policy
+    );
+
+    expect(evaluateApprovals(requirements, ['cli:alice'], context)).toMatchObject({
+      satisfied: false,
+      remaining: 1,
+      unmet: ['critical-two-sre'],
+    });
+    expect(evaluateApprovals(requirements, ['alice', 'slack:alice'], context).satisfied).toBe(
+      false
+    );
+    expect(evaluateApprovals(requirements, ['alice', 'dave'], context)).toMatchObject({
+      satisfied: false,
+      approvers: ['alice'],
+    });
+    expect(evaluateApprovals(requirements, ['alice', 'slack:bob'], context).satisfied).toBe(true);
+  });
+
+  it('should not match identities from different backends', () => {
+    const requirements = resolveApprovalRequirements(
+      mutation({ riskLevel: 'critical', resource: 'staging-db' }),
+      policy
+    );
+
+    // `bob` is only a group member as the Slack user `slack:bob`
+    expect(evaluateApprovals(requirements, ['alice', 'http:bob'], context)).toMatchObject({
+      satisfied: false,
+      approvers: ['alice'],
+    });
+    expect(evaluateApprovals(requirements, ['alice', 'bob'], context).satisfied).toBe(false);
+  });
+
+  it('should not count the requester for four-eyes rules', () => {
+    const requirements = resolveApprovalRequirements(mutation(), policy);
+
+    expect(evaluateApprovals(requirements, ['cli:Alice'], context)).toMatchObject({
+      satisfied: false,
+      approvers: [],
+    });
+    expect(evaluateApprovals(requirements, ['dave'], context).satisfied).toBe(true);
+  });
+
+  it('should keep the backend prefix and treat bare names as CLI users', () => {
+    expect(normalizeApprover('slack:U024BE7LH ')).toBe('slack:u024be7lh');
+    expect(normalizeApprover('Bob')).toBe('cli:bob');
+    expect(normalizeApprover('cli:bob')).toBe(normalizeApprover('bob'));
+  });
+});
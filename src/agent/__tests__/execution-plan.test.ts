@@ -0,0 +1,145 @@
+/**
+ * Tests for dry-run execution plans
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  PlanRecorder,
+  applyExecutionPlan,
+  createExecutionPlan,
+  formatExecutionPlan,
+  getPlanRecorder,
+  loadExecutionPlan,
+  recordPlannedAction,
+  saveExecutionPlan,
+  withPlanRecorder,
+  withPlanStep,
+  type PlannedAction,
+} from '../execution-plan';
+
+function action(overrides: Partial<Omit<PlannedAction, 'id'>> = {}): Omit<PlannedAction, 'id'> {
+  return {
+    tool: 'kubernetes_mutate',
+    args: { action: 'scale', name: 'checkout', replicas: 6, description: 'Scale checkout' },
+    operation: 'kubernetes:ScaleDeployment',
+    resource: 'deployment/checkout',
+    description: 'Scale checkout',
+    riskLevel: 'high',
+    rollbackCommand: 'kubectl scale deployment checkout --replicas=3',
+    call: 'kubectl scale deployment checkout --replicas=6',
+    ...overrides,
+  };
+}
+
+describe('execution plans', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'runbook-plan-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('records actions only inside a dry run and attributes them to skill steps', async () => {
+    expect(recordPlannedAction(action())).toBeNull();
+
+    const recorder = new PlanRecorder();
+    await withPlanRecorder(recorder, async () => {
+      expect(getPlanRecorder()).toBe(recorder);
+      recordPlannedAction(action());
+      await withPlanStep({ skillId: 'scale-service', skillStepId: 'scale' }, async () => {
+        recordPlannedAction(action({ description: 'Scale again' }));
+      });
+    });
+
+    expect(getPlanRecorder()).toBeUndefined();
+    expect(recorder.actions.map((a) => [a.id, a.skillId, a.skillStepId])).toEqual([
+      ['action_1', undefined, undefined],
+      ['action_2', 'scale-service', 'scale'],
+    ]);
+  });
+
+  it('saves and loads a plan', async () => {
+    const plan = createExecutionPlan('investigate PD-1', [{ id: 'action_1', ...action() }]);
+    const path = await saveExecutionPlan(plan, join(dir, 'nested', 'plan.json'));
+
+    expect(await loadExecutionPlan(path)).toEqual(plan);
+  });
+
+  it('rejects files that are not plans', async () => {
+    const bad = join(dir, 'bad.json');
+    await writeFile(bad, JSON.stringify({ version: 1, actions: [{ args: {} }] }));
+    await expect(loadExecutionPlan(bad)).rejects.toThrow('without a tool');
+
+    await writeFile(bad, JSON.stringify({ version: 2, actions: [] }));
+    await expect(loadExecutionPlan(bad)).rejects.toThrow('Unsupported plan version');
+
+    await expect(loadExecutionPlan(join(dir, 'missing.json'))).rejects.toThrow('Cannot read plan');
+  });
+
+  it('applies actions in order and stops at the first rejection', async () => {
+    const plan = createExecutionPlan('deploy checkout', [
+      { id: 'action_1', ...action() },
+      {
+        id: 'action_2',
+        ...action({ tool: 'aws_mutate', args: { operation: 'ecs:UpdateService' } }),
+      },
+      { id: 'action_3', ...action() },
+    ]);
+    const execute = vi
+      .fn()
+      .mockResolvedValueOnce({ status: 'success' })
+      .mockResolvedValueOnce({ status: 'rejected', reason: 'Operation rejected by user' });
+    const seen: string[] = [];
+
+    const results = await applyExecutionPlan(plan, execute, (result) =>
+      seen.push(`${result.action.id}:${result.status}`)
+    );
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(execute).toHaveBeenNthCalledWith(2, 'aws_mutate', { operation: 'ecs:UpdateService' });
+    expect(seen).toEqual(['action_1:applied', 'action_2:rejected']);
+    expect(results[1].error).toBe('Operation rejected by user');
+  });
+
+  it('treats errors and thrown exceptions as failures', async () => {
+    const plan = createExecutionPlan('x', [{ id: 'action_1', ...action() }]);
+
+    const [errored] = await applyExecutionPlan(plan, async () => ({ error: 'kubectl missing' }));
+    expect(errored).toMatchObject({ status: 'failed', error: 'kubectl missing' });
+
+    const [thrown] = await applyExecutionPlan(plan, async () => {
+      throw new Error('boom');
+    });
+    expect(thrown).toMatchObject({ status: 'failed', error: 'boom' });
+  });
+
+  it('formats the exact calls, risk and rollback for review', () => {
+    const plan = createExecutionPlan('deploy checkout', [
+      { id: 'action_1', ...action() },
+      {
+        id: 'action_2',
+        ...action({
+          tool: 'aws_mutate',
+          rollbackCommand: undefined,
+          call: { operation: 'ecs:UpdateService', input: { service: 'checkout' } },
+        }),
+      },
+    ]);
+
+    const text = formatExecutionPlan(plan);
+    expect(text).toContain('2 change(s) would be made');
+    expect(text).toContain('kubectl scale deployment checkout --replicas=6');
+    expect(text).toContain('**Risk:** high');
+    expect(text).toContain('**Rollback:** kubectl scale deployment checkout --replicas=3');
+    expect(text).toContain('**Rollback:** none recorded');
+    expect(text).toContain('"service": "checkout"');
+
+    expect(formatExecutionPlan(createExecutionPlan('x', []))).toContain('No changes would be made');
+  });
+});
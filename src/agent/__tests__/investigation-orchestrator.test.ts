@@ -2,7 +2,11 @@
  * Tests for Investigation Orchestrator
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createCheckpoint, createCheckpointStore, forkCheckpoint } from '../../session/checkpoint';
 import {
   InvestigationOrchestrator,
   createOrchestrator,
@@ -115,6 +119,21 @@ const mockRemediationCommandOnlyResponse = JSON.stringify({
   monitoring: ['Watch service stability'],
 });
 
+const mockRemediationWithRollbackResponse = JSON.stringify({
+  steps: [
+    {
+      action: 'Redeploy user-service',
+      description: 'Redeploy to clear stale DB connection state',
+      rollbackCommand: 'kubectl rollout undo deployment user-service -n prod',
+      riskLevel: 'medium',
+      requiresApproval: false,
+      matchingSkill: 'deploy-service',
+    },
+  ],
+  estimatedRecoveryTime: '7 minutes',
+  monitoring: ['Watch p99 latency'],
+});
+
 describe('InvestigationOrchestrator', () => {
   let mockLLM: LLMClient;
   let mockToolExecutor: ToolExecutor;
@@ -457,7 +476,163 @@ describe('InvestigationOrchestrator', () => {
     });
   });
 
+  describe('remediation verification', () => {
+    function createRollbackScenario(healthAfter: number) {
+      let callIndex = 0;
+      const llm: LLMClient = {
+        complete: vi.fn().mockImplementation(async () => {
+          callIndex++;
+          if (callIndex === 1) return mockTriageResponse;
+          if (callIndex === 2) return mockHypothesisResponse;
+          if (callIndex === 3) return mockEvidenceEvaluationConfirm;
+          if (callIndex === 4) return mockConclusionResponse;
+          if (callIndex === 5) return mockRemediationWithRollbackResponse;
+          return mockEvidenceEvaluationPrune;
+        }),
+      };
+
+      let deployed = false;
+      const execute = vi.fn().mockImplementation(async (tool: string) => {
+        if (tool === 'skill') {
+          deployed = true;
+          return { ok: true };
+        }
+        if (tool === 'kubernetes_query') {
+          const available = deployed ? healthAfter : 3;
+          return {
+            deployments: [{ name: 'user-service', replicas: { desired: 3, available } }],
+          };
+        }
+        if (tool === 'kubernetes_mutate') return { status: 'success' };
+        return { success: true };
+      });
+
+      return { llm, execute };
+    }
+
+    const verification = {
+      enabled: true,
+      windowMs: 0,
+      intervalMs: 0,
+      checks: ['kubernetes' as const],
+    };
+
+    it('rolls back a step that made health worse', async () => {
+      const { llm, execute } = createRollbackScenario(1);
+      const events: InvestigationEvent[] = [];
+      const orchestrator = createOrchestrator(
+        llm,
+        { execute },
+        {
+          autoApproveRemediation: true,
+          verification: { ...verification, rollback: 'auto' },
+        }
+      );
+      orchestrator.on((event) => events.push(event));
+
+      const result = await orchestrator.investigate('Why is the API slow?');
+      const step = result.remediationPlan?.steps[0];
+
+      expect(step?.verification?.outcome).toBe('degraded');
+      expect(execute).toHaveBeenCalledWith('kubernetes_mutate', {
+        action: 'rollback',
+        name: 'user-service',
+        namespace: 'prod',
+        description: 'Rollback: kubectl rollout undo deployment user-service -n prod',
+      });
+      expect(step?.rollback?.status).toBe('executed');
+      expect(events.map((event) => event.type)).toEqual(
+        expect.arrayContaining(['remediation_verified', 'remediation_rollback'])
+      );
+    });
+
+    it('only offers the rollback in prompt mode', async () => {
+      const { llm, execute } = createRollbackScenario(1);
+      const approveRollback = vi.fn().mockResolvedValue(false);
+      const orchestrator = createOrchestrator(
+        llm,
+        { execute },
+        {
+          autoApproveRemediation: true,
+          verification: { ...verification, rollback: 'prompt' },
+          approveRollback,
+        }
+      );
+
+      const result = await orchestrator.investigate('Why is the API slow?');
+
+      expect(approveRollback).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'Redeploy user-service' }),
+        expect.objectContaining({ outcome: 'degraded' })
+      );
+      expect(execute).not.toHaveBeenCalledWith('kubernetes_mutate', expect.anything());
+      expect(result.remediationPlan?.steps[0]?.rollback?.status).toBe('declined');
+    });
+
+    it('does not roll back when health holds', async () => {
+      const { llm, execute } = createRollbackScenario(3);
+      const orchestrator = createOrchestrator(
+        llm,
+        { execute },
+        {
+          autoApproveRemediation: true,
+          verification: { ...verification, rollback: 'auto' },
+        }
+      );
+
+      const result = await orchestrator.investigate('Why is the API slow?');
+      const step = result.remediationPlan?.steps[0];
+
+      expect(step?.verification?.outcome).toBe('unchanged');
+      expect(step?.rollback).toBeUndefined();
+      expect(execute).not.toHaveBeenCalledWith('kubernetes_mutate', expect.anything());
+    });
+
+    it('runs skills as a dry run without approval or verification', async () => {
+      const { llm, execute } = createRollbackScenario(1);
+      const approveRemediationStep = vi.fn().mockResolvedValue(false);
+      const orchestrator = createOrchestrator(
+        llm,
+        { execute },
+        {
+          dryRun: true,
+          approveRemediationStep,
+          verification: { ...verification, rollback: 'auto' },
+        }
+      );
+
+      const result = await orchestrator.investigate('Why is the API slow?');
+      const step = result.remediationPlan?.steps[0];
+
+      expect(approveRemediationStep).not.toHaveBeenCalled();
+      expect(execute).toHaveBeenCalledWith(
+        'skill',
+        expect.objectContaining({ name: step?.matchingSkill, dry_run: true })
+      );
+      expect(execute).not.toHaveBeenCalledWith('kubernetes_query', expect.anything());
+      expect(step?.status).toBe('skipped');
+      expect(step?.error).toContain('Dry run');
+      expect(step?.verification).toBeUndefined();
+    });
+  });
+
   describe('options', () => {
+    it('should include service graph context when generating hypotheses', async () => {
+      const fetchServiceContext = vi
+        .fn()
+        .mockResolvedValue('Blast radius: 2 service(s) affected (checkout, mobile-bff)');
+      const orchestrator = createOrchestrator(mockLLM, mockToolExecutor, {
+        fetchServiceContext,
+      });
+
+      await orchestrator.investigate('Investigate latency');
+
+      expect(fetchServiceContext).toHaveBeenCalledWith(['api-gateway', 'user-service']);
+      const hypothesisPrompt = vi.mocked(mockLLM.complete).mock.calls[1][0];
+      expect(hypothesisPrompt).toContain('Service Dependencies and Blast Radius:');
+      expect(hypothesisPrompt).toContain('(checkout, mobile-bff)');
+    });
+
     it('should use incident ID from options', async () => {
       const orchestrator = createOrchestrator(mockLLM, mockToolExecutor, {
         incidentId: 'INC-456',
@@ -569,6 +744,32 @@ describe('InvestigationOrchestrator', () => {
       expect(execute).toHaveBeenCalledWith('cloudwatch_alarms', { state: 'ALARM' });
     });
 
+    it('should seed triage from a normalized alert instead of looking up the incident', async () => {
+      const complete = vi.fn().mockImplementation(mockLLM.complete);
+      const execute = vi.fn().mockImplementation(mockToolExecutor.execute);
+      const orchestrator = createOrchestrator(
+        { complete },
+        { execute },
+        {
+          incidentId: 'HighErrorRate',
+          triageInput: {
+            source: 'alertmanager',
+            id: 'HighErrorRate',
+            title: 'Error rate above 5% on checkout',
+            severity: 'high',
+            services: ['checkout'],
+            labels: { alertname: 'HighErrorRate', job: 'checkout' },
+          },
+        }
+      );
+
+      await orchestrator.investigate('Investigate alertmanager alert HighErrorRate');
+
+      expect(execute).not.toHaveBeenCalledWith('pagerduty_get_incident', expect.anything());
+      expect(complete.mock.calls[0][0]).toContain('Alert Context (alertmanager)');
+      expect(complete.mock.calls[0][0]).toContain('Title: Error rate above 5% on checkout');
+    });
+
     it('should respect max iterations', async () => {
       const orchestrator = createOrchestrator(mockLLM, mockToolExecutor, {
         maxIterations: 2,
@@ -731,4 +932,123 @@ describe('InvestigationOrchestrator', () => {
       expect(errorEvent).toBeDefined();
     });
   });
+
+  describe('checkpoints', () => {
+    let baseDir: string;
+
+    beforeEach(async () => {
+      baseDir = await mkdtemp(join(tmpdir(), 'runbook-orchestrator-'));
+    });
+
+    afterEach(async () => {
+      await rm(baseDir, { recursive: true, force: true });
+    });
+
+    it('should save a checkpoint at every phase transition', async () => {
+      const checkpointStore = createCheckpointStore({ baseDir });
+      const orchestrator = createOrchestrator(mockLLM, mockToolExecutor, { checkpointStore });
+
+      const result = await orchestrator.investigate('Why is the API slow?');
+
+      // Checkpoints written within the same millisecond have no defined order
+      const phases = (await checkpointStore.list(result.id)).map((c) => c.phase).sort();
+      expect(phases).toEqual(
+        [
+          'triage',
+          'hypothesize',
+          'investigate',
+          'evaluate',
+          'conclude',
+          'remediate',
+          'complete',
+        ].sort()
+      );
+      expect((await checkpointStore.loadLatest(result.id))?.phase).toBe('complete');
+    });
+
+    it('should resume an interrupted investigation without repeating earlier phases', async () => {
+      const checkpointStore = createCheckpointStore({ baseDir });
+      let callIndex = 0;
+      const failing: LLMClient = {
+        complete: vi.fn().mockImplementation(async () => {
+          callIndex++;
+          if (callIndex === 1) return mockTriageResponse;
+          if (callIndex === 2) return mockHypothesisResponse;
+          throw new Error('Rate limit exceeded');
+        }),
+      };
+
+      const events: InvestigationEvent[] = [];
+      const first = createOrchestrator(failing, mockToolExecutor, { checkpointStore });
+      first.on((event) => events.push(event));
+      await expect(first.investigate('Why is the API slow?')).rejects.toThrow('Rate limit');
+
+      const saved = events.find((e) => e.type === 'checkpoint_saved');
+      const investigationId = saved?.type === 'checkpoint_saved' ? saved.investigationId : '';
+      const checkpoint = await checkpointStore.resolve(investigationId);
+      expect(checkpoint?.phase).toBe('evaluate');
+      expect(checkpoint?.hypotheses).toHaveLength(2);
+
+      const responses = [
+        mockEvidenceEvaluationConfirm,
+        mockConclusionResponse,
+        mockRemediationResponse,
+      ];
+      const complete = vi.fn().mockImplementation(async () => responses.shift());
+      const execute = vi.fn().mockResolvedValue({ success: true });
+      const second = createOrchestrator({ complete }, { execute }, { checkpointStore });
+
+      const result = await second.resume(checkpoint!);
+
+      expect(result.id).toBe(investigationId);
+      expect(result.rootCause).toBe('Database connection pool exhausted due to connection leak');
+      expect(complete).toHaveBeenCalledTimes(3);
+      expect(complete.mock.calls[0][0]).toContain('Database connection pool exhausted');
+      expect(execute).not.toHaveBeenCalledWith('cloudwatch_alarms', expect.anything());
+      expect((await checkpointStore.resolve(investigationId))?.phase).toBe('complete');
+    });
+
+    it('should follow the chosen hypothesis when resuming a fork', async () => {
+      const checkpointStore = createCheckpointStore({ baseDir });
+      const original = createOrchestrator(mockLLM, mockToolExecutor, { checkpointStore });
+      const result = await original.investigate('Why is the API slow?');
+      const concluded = (await checkpointStore.list(result.id)).find(
+        (entry) => entry.phase === 'conclude'
+      );
+      const source = await checkpointStore.load(result.id, concluded!.id);
+
+      const prompts: string[] = [];
+      const responses = [
+        mockEvidenceEvaluationConfirm.replace('h_1', 'h_2'),
+        mockConclusionResponse,
+        mockRemediationResponse,
+      ];
+      const fork = createOrchestrator(
+        {
+          complete: async (prompt: string) => {
+            prompts.push(prompt);
+            return responses.shift() || mockEvidenceEvaluationPrune;
+          },
+        },
+        mockToolExecutor
+      );
+
+      const forked = await fork.resume(forkCheckpoint(source!, { hypothesisId: 'h_2' }));
+
+      expect(forked.id).not.toBe(result.id);
+      expect(prompts[0]).toContain('Network latency between services');
+      expect(forked.rootCause).toBeDefined();
+    });
+
+    it('should refuse checkpoints without saved state', async () => {
+      const orchestrator = createOrchestrator(mockLLM, mockToolExecutor);
+      const checkpoint = createCheckpoint('inv-legacy', {
+        query: 'Q',
+        phase: 'evaluate',
+        hypotheses: [],
+      });
+
+      await expect(orchestrator.resume(checkpoint)).rejects.toThrow('cannot be resumed');
+    });
+  });
 });
@@ -0,0 +1,223 @@
+/**
+ * Tests for change freezes and environment protection rules
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { MutationRequest } from '../approval';
+import {
+  enforceProtectionRules,
+  evaluateProtectionRules,
+  parseCron,
+  setBreakGlass,
+  windowEnd,
+  type ProtectionConfig,
+} from '../protection-rules';
+import { AuditLog, setAuditLog, withAuditContext } from '../../audit';
+
+function request(overrides: Partial<MutationRequest> = {}): MutationRequest {
+  return {
+    id: 'mut_1',
+    operation: 'kubernetes:Scale',
+    resource: 'prod/payments/deployment/checkout',
+    description: 'Scale down checkout',
+    riskLevel: 'high',
+    parameters: { replicas: 2 },
+    ...overrides,
+  };
+}
+
+const freeze: ProtectionConfig = {
+  rules: [
+    {
+      name: 'release-freeze',
+      effect: 'deny',
+      tags: { env: 'prod' },
+      windows: [{ start: '2026-12-18T00:00:00Z', end: '2027-01-04T00:00:00Z' }],
+    },
+  ],
+};
+
+describe('protection rules', () => {
+  it('denies mutations to tagged resources during a freeze window', () => {
+    const now = new Date('2026-12-24T12:00:00Z');
+
+    const [denial] = evaluateProtectionRules(request(), freeze, { tags: { env: 'prod' }, now });
+    expect(denial).toMatchObject({ rule: 'release-freeze', effect: 'deny', breakGlass: true });
+    expect(denial.message).toBe(
+      'Changes to env=prod resources are frozen until 2027-01-04T00:00:00.000Z.'
+    );
+
+    expect(evaluateProtectionRules(request(), freeze, { tags: { env: 'staging' }, now })).toEqual(
+      []
+    );
+    expect(
+      evaluateProtectionRules(request(), freeze, {
+        tags: { env: 'prod' },
+        now: new Date('2027-01-05T00:00:00Z'),
+      })
+    ).toEqual([]);
+  });
+
+  it('uses configured resource tags when none are looked up', () => {
+    const config: ProtectionConfig = {
+      ...freeze,
+      resourceTags: [{ resources: ['prod/*'], tags: { env: 'prod' } }],
+    };
+
+    const denials = evaluateProtectionRules(request(), config, {
+      now: new Date('2026-12-24T12:00:00Z'),
+    });
+    expect(denials.map((denial) => denial.rule)).toEqual(['release-freeze']);
+  });
+
+  it('opens cron windows in the configured time zone', () => {
+    // Friday 18:00 New York until Monday 08:00
+    const window = { cron: '0 18 * * fri', durationMinutes: 62 * 60 };
+    const zone = 'America/New_York';
+
+    expect(windowEnd(window, new Date('2026-10-24T15:00:00Z'), zone)?.toISOString()).toBe(
+      '2026-10-26T12:00:00.000Z'
+    );
+    // Friday 17:59 New York, before the window opens
+    expect(windowEnd(window, new Date('2026-10-23T21:59:00Z'), zone)).toBeNull();
+    // Monday 08:00 New York, when it closes
+    expect(windowEnd(window, new Date('2026-10-26T12:00:00Z'), zone)).toBeNull();
+  });
+
+  it('parses cron ranges, steps, lists and names', () => {
+    const schedule = parseCron('*/15 9-17 1,15 jan-mar 7');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours.has(9) && schedule.hours.has(17) && !schedule.hours.has(18)).toBe(true);
+    expect([...schedule.days]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.weekdays]).toEqual([0]);
+
+    expect(() => parseCron('0 25 * * *')).toThrow('Invalid cron value');
+    expect(() => parseCron('0 18 * *')).toThrow('5 fields');
+  });
+
+  it('allows only named skills on listed days', () => {
+    const config: ProtectionConfig = {
+      timezone: 'UTC',
+      rules: [
+        {
+          name: 'weekend',
+          effect: 'skills_only',
+          days: ['sat', 'sun'],
+          skills: ['rollback-deployment'],
+        },
+      ],
+    };
+    const saturday = new Date('2026-10-24T10:00:00Z');
+
+    expect(evaluateProtectionRules(request(), config, { now: saturday })[0].message).toBe(
+      'Only these skills may make changes now: rollback-deployment.'
+    );
+    expect(
+      evaluateProtectionRules(request(), config, { now: saturday, skillId: 'scale-service' })
+    ).toHaveLength(1);
+    expect(
+      evaluateProtectionRules(request(), config, { now: saturday, skillId: 'rollback-deployment' })
+    ).toEqual([]);
+    expect(
+      evaluateProtectionRules(request(), config, { now: new Date('2026-10-26T10:00:00Z') })
+    ).toEqual([]);
+  });
+
+  it('requires an incident for matching risk levels', () => {
+    const config: ProtectionConfig = {
+      rules: [{ name: 'incident-required', effect: 'require_incident', riskLevels: ['high'] }],
+    };
+
+    expect(evaluateProtectionRules(request(), config)[0].message).toContain(
+      'An incident ID is required for high-risk changes'
+    );
+    expect(evaluateProtectionRules(request(), config, { incidentId: 'PD-1' })).toEqual([]);
+    expect(evaluateProtectionRules(request({ riskLevel: 'low' }), config)).toEqual([]);
+  });
+
+  describe('enforcement', () => {
+    let dir: string;
+    let log: AuditLog;
+    const now = new Date('2026-12-24T12:00:00Z');
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'runbook-protection-'));
+      log = new AuditLog(join(dir, 'audit.jsonl'));
+      setAuditLog(log);
+    });
+
+    afterEach(async () => {
+      setBreakGlass(null);
+      setAuditLog(null);
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('records denials with a clear reason', async () => {
+      const decision = await enforceProtectionRules(request(), freeze, {
+        tags: { env: 'prod' },
+        now,
+      });
+
+      expect(decision.allowed).toBe(false);
+      expect(!decision.allowed && decision.reason).toContain(
+        'Blocked by protection rule "release-freeze"'
+      );
+      expect(!decision.allowed && decision.reason).toContain('--break-glass');
+      const [entry] = await log.readAll();
+      expect(entry).toMatchObject({ type: 'mutation', outcome: 'rejected' });
+      expect(entry.details?.deniedBy).toEqual(['release-freeze']);
+    });
+
+    it('lets break-glass through and audits the override', async () => {
+      setBreakGlass({ reason: 'SEV1 checkout outage', user: 'alice' });
+
+      const decision = await withAuditContext({ investigationId: 'inv-1' }, () =>
+        enforceProtectionRules(request(), freeze, { tags: { env: 'prod' }, now })
+      );
+
+      expect(decision).toMatchObject({ allowed: true });
+      const [entry] = await log.readAll();
+      expect(entry).toMatchObject({
+        type: 'break_glass',
+        outcome: 'approved',
+        user: 'alice',
+        investigationId: 'inv-1',
+        resource: 'prod/payments/deployment/checkout',
+      });
+      expect(entry.details).toMatchObject({
+        reason: 'SEV1 checkout outage',
+        rules: ['release-freeze'],
+      });
+    });
+
+    it('refuses break-glass for rules that do not allow it', async () => {
+      setBreakGlass({ reason: 'please' });
+      const config: ProtectionConfig = {
+        rules: [{ ...freeze.rules![0], breakGlass: false }],
+      };
+
+      const decision = await enforceProtectionRules(request(), config, {
+        tags: { env: 'prod' },
+        now,
+      });
+
+      expect(decision.allowed).toBe(false);
+      expect(!decision.allowed && decision.reason).toContain('cannot be overridden');
+    });
+
+    it('takes the incident and skill from the audit context', async () => {
+      const config: ProtectionConfig = {
+        rules: [{ name: 'incident-required', effect: 'require_incident' }],
+      };
+
+      const decision = await withAuditContext({ incidentId: 'PD-42' }, () =>
+        enforceProtectionRules(request(), config)
+      );
+      expect(decision.allowed).toBe(true);
+    });
+  });
+});
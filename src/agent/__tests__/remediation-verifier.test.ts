@@ -0,0 +1,159 @@
+/**
+ * Tests for remediation verification
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildHealthQueries,
+  captureHealth,
+  compareHealth,
+  interpretHealthResult,
+  parseRollbackCommand,
+  verifyRemediation,
+  type HealthSnapshot,
+} from '../remediation-verifier';
+
+function snapshot(problems: Record<string, number>): HealthSnapshot {
+  return {
+    checkedAt: new Date().toISOString(),
+    signals: Object.entries(problems).map(([kind, count]) => ({
+      kind: kind as 'cloudwatch' | 'prometheus' | 'kubernetes',
+      problems: count,
+      detail: '',
+    })),
+  };
+}
+
+describe('interpretHealthResult', () => {
+  it('counts firing CloudWatch alarms for the affected services', () => {
+    const signal = interpretHealthResult(
+      'cloudwatch',
+      {
+        alarms: [
+          { alarmName: 'checkout-5xx', stateValue: 'ALARM', dimensions: [] },
+          {
+            alarmName: 'HighLatency',
+            stateValue: 'ALARM',
+            dimensions: [{ name: 'ServiceName', value: 'checkout' }],
+          },
+          { alarmName: 'billing-5xx', stateValue: 'ALARM', dimensions: [] },
+        ],
+      },
+      ['checkout']
+    );
+
+    expect(signal?.problems).toBe(2);
+    expect(signal?.detail).toContain('checkout-5xx');
+  });
+
+  it('counts Prometheus alerts and unavailable Kubernetes replicas', () => {
+    expect(
+      interpretHealthResult('prometheus', {
+        firingAlerts: [{ name: 'HighErrorRate', job: 'checkout' }],
+      })?.problems
+    ).toBe(1);
+
+    const signal = interpretHealthResult('kubernetes', {
+      deployments: [
+        { name: 'checkout', replicas: { desired: 4, available: 1 } },
+        { name: 'billing', replicas: { desired: 2, available: 2 } },
+      ],
+    });
+    expect(signal?.problems).toBe(3);
+    expect(signal?.detail).toBe('unavailable replicas: checkout (3)');
+  });
+
+  it('ignores failed queries', () => {
+    expect(interpretHealthResult('prometheus', { error: 'Prometheus not configured' })).toBeNull();
+  });
+});
+
+describe('compareHealth', () => {
+  it('reports degraded when any signal gets worse', () => {
+    expect(
+      compareHealth(
+        snapshot({ cloudwatch: 3, kubernetes: 0 }),
+        snapshot({ cloudwatch: 0, kubernetes: 1 })
+      )
+    ).toBe('degraded');
+  });
+
+  it('reports improved or unchanged otherwise', () => {
+    expect(compareHealth(snapshot({ cloudwatch: 3 }), snapshot({ cloudwatch: 1 }))).toBe(
+      'improved'
+    );
+    expect(compareHealth(snapshot({ cloudwatch: 1 }), snapshot({ cloudwatch: 1 }))).toBe(
+      'unchanged'
+    );
+  });
+
+  it('is inconclusive without a signal present in both snapshots', () => {
+    expect(compareHealth(snapshot({ cloudwatch: 1 }), snapshot({ prometheus: 0 }))).toBe(
+      'inconclusive'
+    );
+  });
+});
+
+describe('verifyRemediation', () => {
+  it('stops at the first degraded sample', async () => {
+    const results = [{ firingAlerts: [] }, { firingAlerts: [{ name: 'A' }, { name: 'B' }] }];
+    const execute = vi.fn().mockImplementation(async () => results.shift() ?? { firingAlerts: [] });
+    const queries = buildHealthQueries(['prometheus']);
+    const baseline = await captureHealth(queries, execute);
+
+    const verification = await verifyRemediation({
+      queries,
+      execute,
+      baseline,
+      windowMs: 5,
+      intervalMs: 1,
+    });
+
+    expect(verification.outcome).toBe('degraded');
+    expect(verification.samples).toHaveLength(1);
+    expect(verification.summary).toContain('prometheus: 0 → 2');
+  });
+
+  it('skips checks whose tool throws', async () => {
+    const execute = vi.fn().mockRejectedValue(new Error('kubectl missing'));
+    const health = await captureHealth(buildHealthQueries(['kubernetes']), execute);
+    expect(health.signals).toEqual([]);
+  });
+});
+
+describe('parseRollbackCommand', () => {
+  it('maps kubectl rollout undo and scale', () => {
+    expect(parseRollbackCommand('kubectl rollout undo deployment/checkout -n prod')).toEqual({
+      tool: 'kubernetes_mutate',
+      parameters: {
+        action: 'rollback',
+        name: 'checkout',
+        namespace: 'prod',
+        description: 'Rollback: kubectl rollout undo deployment/checkout -n prod',
+      },
+    });
+    expect(
+      parseRollbackCommand('kubectl scale deployment checkout --replicas=3')?.parameters
+    ).toMatchObject({ action: 'scale', name: 'checkout', replicas: 3 });
+  });
+
+  it('maps aws ecs update-service with a desired count', () => {
+    expect(
+      parseRollbackCommand(
+        'aws ecs update-service --cluster prod --service checkout --desired-count 4'
+      )
+    ).toMatchObject({
+      tool: 'aws_mutate',
+      parameters: {
+        operation: 'ecs:UpdateService',
+        resource: 'checkout',
+        parameters: { cluster: 'prod', desiredCount: 4 },
+      },
+    });
+  });
+
+  it('leaves free-text rollbacks to a human', () => {
+    expect(parseRollbackCommand('Scale back to 3 instances')).toBeNull();
+    expect(parseRollbackCommand('kubectl scale deployment checkout')).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for resource-aware risk classification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRunbookCommand } from '../../knowledge/indexer/commands';
+import { ServiceGraph } from '../../knowledge/store/graph-store';
+import { formatMutationRequest } from '../approval';
+import {
+  assessRisk,
+  operationRisk,
+  resolveEnvironment,
+  runbookCommandRisk,
+} from '../risk-classifier';
+
+function graphWith(tier: 'critical' | 'high' | 'medium' | 'low'): ServiceGraph {
+  const graph = new ServiceGraph();
+  graph.addService({
+    id: 'checkout',
+    name: 'checkout',
+    type: 'service',
+    tier,
+    tags: [],
+    metadata: {},
+  });
+  return graph;
+}
+
+describe('risk classifier', () => {
+  it('rates the same update by environment, tier and capacity change', () => {
+    const staging = assessRisk({
+      operation: 'ecs:UpdateService',
+      resource: 'checkout',
+      tags: { env: 'staging' },
+      currentCount: 1,
+      desiredCount: 2,
+    });
+    expect(staging.level).toBe('low');
+
+    const production = assessRisk(
+      {
+        operation: 'ecs:UpdateService',
+        resource: 'checkout',
+        tags: { env: 'prod' },
+        currentCount: 12,
+        desiredCount: 12,
+      },
+      { graph: graphWith('critical') }
+    );
+    expect(production.level).toBe('high');
+    expect(production.reasons).toEqual([
+      'ecs:UpdateService is low risk on its own',
+      'Environment prod (from tag env=prod): raised one level',
+      'Service checkout is tier critical: at least high',
+    ]);
+  });
+
+  it('uses the operation name when nothing else is known', () => {
+    expect(operationRisk('rds:DeleteDBInstance')).toBe('critical');
+    expect(operationRisk('organizations:LeaveOrganization')).toBe('critical');
+    expect(operationRisk('kubernetes:Scale')).toBe('medium');
+    expect(assessRisk({ operation: 'kubernetes:Restart', resource: 'web' })).toEqual({
+      level: 'high',
+      reasons: ['kubernetes:Restart is high risk on its own'],
+    });
+  });
+
+  it('raises risk for large scale-downs and scaling to zero', () => {
+    const halved = assessRisk({
+      operation: 'kubernetes:Scale',
+      resource: 'default/deployment/web',
+      currentCount: 4,
+      desiredCount: 2,
+    });
+    expect(halved.level).toBe('high');
+    expect(halved.reasons[1]).toBe('Removes half or more of capacity (4 to 2): raised one level');
+
+    const offline = assessRisk({
+      operation: 'kubernetes:Scale',
+      resource: 'dev/deployment/web',
+      currentCount: 1,
+      desiredCount: 0,
+    });
+    expect(offline.level).toBe('high');
+    expect(offline.reasons).toContain('Scales from 1 to 0, taking it offline: at least high');
+  });
+
+  it('resolves environments from tags, configured patterns and resource names', () => {
+    const config = {
+      environmentTags: ['env'],
+      environments: { production: { resources: ['payments-*'], minimum: 'medium' as const } },
+    };
+
+    expect(resolveEnvironment('payments-api', { Env: 'Production' }, config)).toEqual({
+      name: 'production',
+      source: 'tag Env=Production',
+    });
+    expect(resolveEnvironment('payments-api', {}, config)).toEqual({
+      name: 'production',
+      source: 'resource pattern payments-*',
+    });
+    expect(resolveEnvironment('prod/payments/deployment/api')).toEqual({
+      name: 'prod',
+      source: 'resource name',
+    });
+    expect(resolveEnvironment('product-catalog')).toBeNull();
+
+    const assessment = assessRisk(
+      { operation: 'lambda:UpdateFunctionConfiguration', resource: 'payments-api' },
+      { config }
+    );
+    expect(assessment.level).toBe('medium');
+    expect(assessment.reasons[1]).toBe(
+      'Environment production (from resource pattern payments-*): at least medium'
+    );
+  });
+
+  it('finds the service from Kubernetes labels', () => {
+    const assessment = assessRisk(
+      {
+        operation: 'kubernetes:Restart',
+        resource: 'default/deployment/checkout-v2',
+        tags: { app: 'checkout', env: 'staging' },
+      },
+      { graph: graphWith('critical') }
+    );
+
+    expect(assessment.level).toBe('high');
+    expect(assessment.reasons).toContain('Service checkout is tier critical: at least high');
+  });
+
+  it('explains the rating in the approval prompt', () => {
+    const output = formatMutationRequest({
+      id: 'mut_1',
+      operation: 'ecs:UpdateService',
+      resource: 'checkout',
+      description: 'Scale checkout',
+      riskLevel: 'high',
+      riskReasons: ['Service checkout is tier critical: at least high'],
+      parameters: {},
+    });
+
+    expect(output).toContain('- Service checkout is tier critical: at least high');
+  });
+
+  it('rates runbook commands by the operation they run', () => {
+    const read = parseRunbookCommand('kubectl get pods -n checkout');
+    const restart = parseRunbookCommand('kubectl rollout restart deployment/checkout');
+    const deleteDb = parseRunbookCommand('aws rds delete-db-instance --db-instance-identifier db1');
+
+    expect(runbookCommandRisk(read!)).toBe('low');
+    expect(runbookCommandRisk(restart!)).toBe('high');
+    expect(runbookCommandRisk(deleteDb!)).toBe('critical');
+  });
+});
@@ -758,4 +758,55 @@ describe('InvestigationStateMachine', () => {
       );
     });
   });
+
+  describe('snapshots', () => {
+    it('should restore state from a JSON round-trip of its snapshot', () => {
+      machine.start();
+      machine.transitionTo('hypothesize', 'Triage complete');
+      const parent = machine.addHypothesis({
+        statement: 'Database overloaded',
+        category: 'infrastructure',
+        priority: 1,
+        confirmingEvidence: 'High CPU',
+        refutingEvidence: 'Normal CPU',
+        queries: [],
+      });
+      machine.addHypothesis({
+        statement: 'Slow query from new release',
+        category: 'application',
+        priority: 1,
+        confirmingEvidence: 'Slow query log',
+        refutingEvidence: 'No slow queries',
+        queries: [],
+        parentId: parent.id,
+      });
+      machine.transitionTo('investigate', 'Investigating');
+      machine.setCurrentHypothesis(parent.id);
+      machine.recordQueryResult(parent.id, 'q_1', { cpu: 97 });
+      machine.transitionTo('evaluate', 'Evidence gathered');
+
+      const restored = InvestigationStateMachine.fromSnapshot(
+        JSON.parse(JSON.stringify(machine.toSnapshot()))
+      );
+      const state = restored.getState();
+
+      expect(state.id).toBe(machine.getState().id);
+      expect(restored.getPhase()).toBe('evaluate');
+      expect(state.startedAt).toBeInstanceOf(Date);
+      expect(restored.findHypothesis(parent.id)?.queryResults.get('q_1')).toEqual({ cpu: 97 });
+      expect(restored.findHypothesis(parent.id)?.children.map((h) => h.id)).toEqual(['h_2']);
+      expect(restored.hasPendingEvaluation()).toBe(true);
+
+      restored.applyEvaluation({
+        hypothesisId: parent.id,
+        evidenceStrength: 'strong',
+        confidence: 85,
+        reasoning: 'CPU pinned',
+        action: 'confirm',
+        findings: [],
+      });
+      expect(restored.hasPendingEvaluation()).toBe(false);
+      restored.transitionTo('conclude', 'Root cause confirmed');
+    });
+  });
 });
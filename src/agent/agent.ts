@@ -36,6 +36,7 @@ import { KnowledgeContextManager } from './knowledge-context';
 import { ServiceContextManager } from './service-context';
 import { InfraContextManager, createInfraContextManager } from './infra-context';
 import { setActiveScratchpad } from '../tools/registry';
+import { withAuditedExecute } from '../audit';
 import { LRUToolCache, createToolCache, type CacheConfig } from './tool-cache';
 import {
   ParallelToolExecutor,
@@ -600,7 +601,10 @@ export class Agent {
             continue;
           }
         }
-        toolsToExecute.push({ call, tool });
+        toolsToExecute.push({
+          call,
+          tool: withAuditedExecute(tool, { investigationId: sessionId, incidentId }),
+        });
       }
 
       // Emit events for cached results
@@ -0,0 +1,336 @@
+/**
+ * Alert Sources
+ *
+ * Normalizes incidents and alerts from different paging and monitoring tools
+ * into a common triage input, so investigations can start from an OpsGenie
+ * alert, a firing Alertmanager alert, a triggered Datadog monitor or a raw
+ * alert payload as well as a PagerDuty incident.
+ */
+
+import { readFile } from 'fs/promises';
+import type { TriageResult } from './state-machine';
+import {
+  getIncident as getPagerDutyIncident,
+  type PagerDutyIncident,
+} from '../tools/incident/pagerduty';
+import { getAlert as getOpsGenieAlert, type OpsGenieAlert } from '../tools/incident/opsgenie';
+import { getFiringAlerts } from '../tools/observability/prometheus';
+import { getTriggeredMonitors, type DatadogMonitor } from '../tools/observability/datadog';
+
+export const INCIDENT_SOURCES = [
+  'pagerduty',
+  'opsgenie',
+  'alertmanager',
+  'datadog',
+  'file',
+] as const;
+
+export type IncidentSource = (typeof INCIDENT_SOURCES)[number];
+
+type Severity = TriageResult['severity'];
+
+/**
+ * Source-independent description of what paged, used to seed triage
+ */
+export interface TriageInput {
+  source: IncidentSource;
+  /** Identifier in the source system (incident ID, alert ID, alert name, monitor ID) */
+  id: string;
+  title: string;
+  description?: string;
+  severity: Severity;
+  services: string[];
+  startedAt?: string;
+  status?: string;
+  url?: string;
+  /** Labels, tags and custom fields from the source */
+  labels: Record<string, string>;
+}
+
+/**
+ * Alert as returned by getFiringAlerts
+ */
+export type FiringAlert = Awaited<ReturnType<typeof getFiringAlerts>>[number];
+
+const SERVICE_LABELS = ['service', 'app', 'application', 'app.kubernetes.io/name', 'job'];
+
+function serviceFromLabels(labels: Record<string, string | undefined>): string[] {
+  for (const key of SERVICE_LABELS) {
+    const value = labels[key]?.trim();
+    if (value) return [value];
+  }
+  return [];
+}
+
+/**
+ * Split `key:value` tags into labels; bare tags map to themselves
+ */
+function tagsToLabels(tags: string[] = []): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const tag of tags) {
+    const index = tag.indexOf(':');
+    if (index > 0) {
+      labels[tag.slice(0, index)] = tag.slice(index + 1);
+    } else {
+      labels[tag] = tag;
+    }
+  }
+  return labels;
+}
+
+function severityFromLabel(value: string | undefined): Severity {
+  switch ((value || '').toLowerCase()) {
+    case 'critical':
+    case 'p1':
+    case 'sev1':
+    case 'emergency':
+      return 'critical';
+    case 'high':
+    case 'error':
+    case 'page':
+    case 'p2':
+    case 'sev2':
+      return 'high';
+    case 'low':
+    case 'info':
+    case 'p4':
+    case 'p5':
+    case 'sev4':
+      return 'low';
+    default:
+      return 'medium';
+  }
+}
+
+export function fromPagerDutyIncident(incident: PagerDutyIncident): TriageInput {
+  return {
+    source: 'pagerduty',
+    id: incident.id,
+    title: incident.title,
+    severity: incident.urgency === 'high' ? 'high' : 'low',
+    services: incident.service?.name ? [incident.service.name] : [],
+    startedAt: incident.createdAt,
+    status: incident.status,
+    labels: {},
+  };
+}
+
+export function fromOpsGenieAlert(alert: OpsGenieAlert): TriageInput {
+  const labels = { ...tagsToLabels(alert.tags), ...alert.details };
+  return {
+    source: 'opsgenie',
+    id: alert.id,
+    title: alert.message,
+    description: alert.description,
+    severity: severityFromLabel(alert.priority),
+    services: serviceFromLabels(labels),
+    startedAt: alert.createdAt,
+    status: alert.status,
+    labels,
+  };
+}
+
+export function fromAlertmanagerAlert(alert: FiringAlert): TriageInput {
+  const labels: Record<string, string> = { alertname: alert.alertname };
+  if (alert.instance) labels.instance = alert.instance;
+  if (alert.job) labels.job = alert.job;
+  if (alert.severity) labels.severity = alert.severity;
+
+  return {
+    source: 'alertmanager',
+    id: alert.alertname,
+    title: alert.summary || alert.alertname,
+    description: alert.description,
+    severity: severityFromLabel(alert.severity),
+    services: serviceFromLabels(labels),
+    startedAt: alert.activeAt,
+    status: alert.state,
+    labels,
+  };
+}
+
+export function fromDatadogMonitor(monitor: DatadogMonitor): TriageInput {
+  const labels = tagsToLabels(monitor.tags);
+  return {
+    source: 'datadog',
+    id: String(monitor.id),
+    title: monitor.name,
+    description: monitor.message,
+    severity: monitor.priority
+      ? severityFromLabel(`p${monitor.priority}`)
+      : monitor.overallState === 'Alert'
+        ? 'high'
+        : 'medium',
+    services: serviceFromLabels(labels),
+    startedAt: monitor.modified,
+    status: monitor.overallState,
+    labels: { ...labels, query: monitor.query },
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asStringRecord(value: unknown): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(asRecord(value))) {
+    if (typeof entry === 'string' || typeof entry === 'number' || typeof entry === 'boolean') {
+      labels[key] = String(entry);
+    }
+  }
+  return labels;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a raw alert payload. Recognizes Alertmanager webhook bodies
+ * (the first firing alert is used), OpsGenie and PagerDuty webhook
+ * envelopes, and flat `{ title, severity, service, labels }` objects.
+ */
+export function fromAlertPayload(payload: unknown, fallbackId = 'alert'): TriageInput {
+  const body = asRecord(payload);
+
+  // Alertmanager webhook: { alerts: [{ status, labels, annotations, startsAt }] }
+  if (Array.isArray(body.alerts)) {
+    const alerts = body.alerts.map(asRecord);
+    const alert = alerts.find((a) => a.status !== 'resolved') || alerts[0];
+    if (!alert) {
+      throw new Error('Alert payload contains no alerts');
+    }
+    const labels = { ...asStringRecord(body.commonLabels), ...asStringRecord(alert.labels) };
+    const annotations = {
+      ...asStringRecord(body.commonAnnotations),
+      ...asStringRecord(alert.annotations),
+    };
+    return {
+      source: 'file',
+      id: labels.alertname || firstString(alert.fingerprint) || fallbackId,
+      title: annotations.summary || labels.alertname || fallbackId,
+      description: annotations.description,
+      severity: severityFromLabel(labels.severity),
+      services: serviceFromLabels(labels),
+      startedAt: firstString(alert.startsAt),
+      status: firstString(alert.status, body.status),
+      url: firstString(alert.generatorURL, body.externalURL),
+      labels,
+    };
+  }
+
+  // OpsGenie ({ alert: {...} }) and PagerDuty ({ event: { data: {...} } }) webhooks
+  const nested = asRecord(body.alert ?? asRecord(body.event).data ?? body.incident);
+  const source = Object.keys(nested).length > 0 ? nested : body;
+  const labels = {
+    ...tagsToLabels(
+      Array.isArray(source.tags) ? source.tags.filter((t) => typeof t === 'string') : []
+    ),
+    ...asStringRecord(source.details),
+    ...asStringRecord(source.labels),
+  };
+  const serviceRecord = asRecord(source.service);
+  const service = firstString(
+    source.service,
+    serviceRecord.summary,
+    serviceRecord.name,
+    labels.service
+  );
+
+  const title = firstString(source.title, source.message, source.summary, source.name);
+  if (!title) {
+    throw new Error('Alert payload has no title, message, summary or alerts');
+  }
+
+  return {
+    source: 'file',
+    id: firstString(source.id, source.alertId, source.incident_key, source.alias) || fallbackId,
+    title,
+    description: firstString(source.description, source.text),
+    severity: severityFromLabel(
+      firstString(source.severity, source.priority, source.urgency, labels.severity)
+    ),
+    services: service ? [service] : serviceFromLabels(labels),
+    startedAt: firstString(source.startsAt, source.createdAt, source.created_at),
+    status: firstString(source.status),
+    url: firstString(source.html_url, source.url),
+    labels,
+  };
+}
+
+/**
+ * Fetch an incident or alert from a source and normalize it. For
+ * `alertmanager` the reference is an alert name, for `datadog` a monitor ID
+ * or name, and for `file` a path to a JSON payload.
+ */
+export async function loadTriageInput(
+  source: IncidentSource,
+  reference: string
+): Promise<TriageInput> {
+  switch (source) {
+    case 'pagerduty':
+      return fromPagerDutyIncident(await getPagerDutyIncident(reference));
+    case 'opsgenie':
+      return fromOpsGenieAlert(await getOpsGenieAlert(reference));
+    case 'alertmanager': {
+      const alerts = (await getFiringAlerts()).filter(
+        (alert) => alert.alertname === reference && alert.state === 'firing'
+      );
+      if (alerts.length === 0) {
+        throw new Error(`No firing Alertmanager alert named ${reference}`);
+      }
+      const input = fromAlertmanagerAlert(alerts[0]);
+      if (alerts.length > 1) {
+        input.labels.instances = alerts
+          .map((alert) => alert.instance)
+          .filter(Boolean)
+          .join(', ');
+      }
+      return input;
+    }
+    case 'datadog': {
+      const monitor = (await getTriggeredMonitors()).find(
+        (m) => String(m.id) === reference || m.name === reference
+      );
+      if (!monitor) {
+        throw new Error(`No triggered Datadog monitor matching ${reference}`);
+      }
+      return fromDatadogMonitor(monitor);
+    }
+    case 'file': {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(await readFile(reference, 'utf-8'));
+      } catch (error) {
+        throw new Error(
+          `Failed to read alert payload ${reference}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      return fromAlertPayload(payload);
+    }
+  }
+}
+
+/**
+ * Render a triage input for the triage prompt
+ */
+export function formatTriageInput(input: TriageInput): string {
+  const lines = [`Source: ${input.source}`, `ID: ${input.id}`, `Title: ${input.title}`];
+  lines.push(`Severity: ${input.severity}`);
+  if (input.status) lines.push(`Status: ${input.status}`);
+  if (input.services.length > 0) lines.push(`Services: ${input.services.join(', ')}`);
+  if (input.startedAt) lines.push(`Started: ${input.startedAt}`);
+  if (input.description) lines.push(`Description: ${input.description}`);
+  if (input.url) lines.push(`URL: ${input.url}`);
+  const labels = Object.entries(input.labels);
+  if (labels.length > 0) {
+    lines.push(`Labels: ${labels.map(([key, value]) => `${key}=${value}`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,492 @@
+/**
+ * Approval Backends
+ *
+ * Where approval decisions come from. Each backend opens a session for one
+ * mutation and yields decisions one at a time, so the approval flow can keep
+ * collecting them until the approval policy is satisfied.
+ */
+
+import { createServer, type Server } from 'http';
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { MutationRequest } from './approval';
+import {
+  getConfiguredDefaultChannel,
+  requestSlackApproval as sendSlackApproval,
+} from '../tools/incident/slack';
+
+export const APPROVAL_BACKENDS = ['cli', 'slack', 'http', 'file'] as const;
+
+export type ApprovalBackendName = (typeof APPROVAL_BACKENDS)[number];
+
+export interface ApprovalDecision {
+  approved: boolean;
+  approver: string;
+  decidedAt: Date;
+  reason?: string;
+}
+
+export interface ApprovalSessionContext {
+  /** Who asked for the mutation */
+  requester: string;
+  /** Human-readable approval requirements */
+  requirements: string;
+  /** Policy rules that apply, when stricter than a single approval */
+  policy?: string[];
+  /** Approvals still needed when the session opens */
+  approvalsNeeded: number;
+  timeoutMs: number;
+}
+
+export interface ApprovalSession {
+  /** Wait for the next decision; resolves null when the session times out */
+  next(): Promise<ApprovalDecision | null>;
+  /** Report how many approvals are still needed after a decision */
+  progress?(remaining: number, approvers: string[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface ApprovalBackend {
+  readonly name: ApprovalBackendName;
+  /**
+   * Whether the backend authenticates who approves, so different people can
+   * be told apart. The CLI only sees the local user, and the HTTP and file
+   * backends take the approver's name on trust, so none of them can satisfy
+   * four-eyes rules.
+   */
+  readonly distinctApprovers: boolean;
+  open(request: MutationRequest, context: ApprovalSessionContext): Promise<ApprovalSession>;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Poll until `read` returns a value or the deadline passes
+ */
+async function pollUntil<T>(
+  read: () => T | null,
+  deadline: number,
+  intervalMs: number
+): Promise<T | null> {
+  while (Date.now() < deadline) {
+    const value = read();
+    if (value !== null) {
+      return value;
+    }
+    await sleep(Math.min(intervalMs, Math.max(0, deadline - Date.now())));
+  }
+  return read();
+}
+
+export interface SlackApprovalBackendOptions {
+  channel?: string;
+  /** Directory shared with the webhook server (default: .runbook/pending) */
+  pendingDir?: string;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Posts approval buttons to Slack and reads decisions the webhook server
+ * writes to the pending directory
+ */
+export class SlackApprovalBackend implements ApprovalBackend {
+  readonly name = 'slack' as const;
+  readonly distinctApprovers = true;
+
+  constructor(private readonly options: SlackApprovalBackendOptions = {}) {}
+
+  async open(request: MutationRequest, context: ApprovalSessionContext): Promise<ApprovalSession> {
+    const channel = this.options.channel || getConfiguredDefaultChannel();
+    if (!channel) {
+      throw new Error('No Slack channel configured');
+    }
+
+    const pendingDir = this.options.pendingDir || join(process.cwd(), '.runbook', 'pending');
+    const pollIntervalMs = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const responseFile = join(pendingDir, `${request.id}.json`);
+    const pendingFile = join(pendingDir, `${request.id}_pending.json`);
+    const deadline = Date.now() + context.timeoutMs;
+
+    if (!existsSync(pendingDir)) {
+      mkdirSync(pendingDir, { recursive: true });
+    }
+
+    const writePending = (approvalsRemaining: number) =>
+      writeFileSync(
+        pendingFile,
+        JSON.stringify({
+          mutationId: request.id,
+          createdAt: new Date().toISOString(),
+          approvalsRemaining,
+        })
+      );
+
+    const message = await sendSlackApproval(channel, {
+      id: request.id,
+      operation: request.operation,
+      resource: request.resource,
+      description: request.description,
+      riskLevel: request.riskLevel,
+      riskReasons: request.riskReasons,
+      estimatedImpact: request.estimatedImpact,
+      rollbackCommand: request.rollbackCommand,
+      approvalPolicy: context.approvalsNeeded > 1 ? context.requirements : undefined,
+    });
+    writePending(context.approvalsNeeded);
+
+    console.log(`\n\x1b[36m📱 Approval request sent to Slack channel ${channel}\x1b[0m`);
+    console.log(`\x1b[36m   Message: ${message.ts}\x1b[0m`);
+    console.log(
+      `\x1b[33m   Waiting for approval... (timeout: ${context.timeoutMs / 1000}s)\x1b[0m`
+    );
+
+    return {
+      next: () =>
+        pollUntil(
+          () => {
+            if (!existsSync(responseFile)) {
+              return null;
+            }
+            try {
+              const response = JSON.parse(readFileSync(responseFile, 'utf-8'));
+              unlinkSync(responseFile);
+              return {
+                approved: response.approved === true,
+                approver: response.approvedBy || 'slack:unknown',
+                decidedAt: response.approvedAt ? new Date(response.approvedAt) : new Date(),
+                reason: response.reason,
+              };
+            } catch {
+              // Partially written file, read it on the next poll
+              return null;
+            }
+          },
+          deadline,
+          pollIntervalMs
+        ),
+      progress: async (remaining) => {
+        if (remaining > 0) {
+          writePending(remaining);
+        }
+      },
+      close: async () => {
+        for (const file of [pendingFile, responseFile]) {
+          try {
+            unlinkSync(file);
+          } catch {
+            // Already cleaned up by the webhook server
+          }
+        }
+      },
+    };
+  }
+}
+
+export interface HttpApprovalBackendOptions {
+  port?: number;
+  host?: string;
+  /** Public base URL printed in the approval link (default: http://localhost:<port>) */
+  baseUrl?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderApprovalPage(
+  request: MutationRequest,
+  context: ApprovalSessionContext,
+  token: string,
+  notice?: string
+): string {
+  const rows: Array<[string, string | undefined]> = [
+    ['Operation', request.operation],
+    ['Resource', request.resource],
+    ['Risk level', request.riskLevel.toUpperCase()],
+    ['Why', request.riskReasons?.join('; ')],
+    ['Description', request.description],
+    ['Estimated impact', request.estimatedImpact],
+    ['Rollback command', request.rollbackCommand],
+    ['Requested by', context.requester],
+    ['Policy', context.requirements],
+  ];
+
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Approve ${escapeHtml(request.id)}</title></head>
+<body style="font-family: sans-serif; max-width: 720px; margin: 2em auto;">
+<h1>Mutation approval required</h1>
+${notice ? `<p><strong>${escapeHtml(notice)}</strong></p>` : ''}
+<table>
+${rows
+  .filter(([, value]) => value)
+  .map(
+    ([label, value]) =>
+      `<tr><th align="left">${label}</th><td>${escapeHtml(value as string)}</td></tr>`
+  )
+  .join('\n')}
+</table>
+<form method="post">
+<input type="hidden" name="token" value="${token}">
+<p><label>Your name <input name="approver" required></label></p>
+<p><label>Reason <input name="reason"></label></p>
+<button name="decision" value="approve">Approve</button>
+<button name="decision" value="reject">Reject</button>
+</form>
+</body>
+</html>`;
+}
+
+/** Largest approval form accepted */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Serves a local approval page. The link includes a random token, so only
+ * people it is shared with can decide. Everyone shares that token and types
+ * their own name, so approvers are not authenticated.
+ */
+export class HttpApprovalBackend implements ApprovalBackend {
+  readonly name = 'http' as const;
+  readonly distinctApprovers = false;
+
+  constructor(private readonly options: HttpApprovalBackendOptions = {}) {}
+
+  async open(request: MutationRequest, context: ApprovalSessionContext): Promise<ApprovalSession> {
+    const token = randomBytes(16).toString('hex');
+    const path = `/approvals/${request.id}`;
+    const decisions: ApprovalDecision[] = [];
+    let waiting: ((decision: ApprovalDecision | null) => void) | null = null;
+
+    const server: Server = createServer(async (req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname !== path) {
+        res.writeHead(404);
+        res.end('Not found');
+        return;
+      }
+
+      if (req.method === 'GET') {
+        if (url.searchParams.get('token') !== token) {
+          res.writeHead(403);
+          res.end('Invalid approval link');
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(renderApprovalPage(request, context, token));
+        return;
+      }
+
+      if (req.method !== 'POST') {
+        res.writeHead(405);
+        res.end('Method not allowed');
+        return;
+      }
+
+      let body = '';
+      for await (const chunk of req) {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) {
+          res.writeHead(413);
+          res.end('Request body too large');
+          return;
+        }
+      }
+      const form = new URLSearchParams(body);
+      const approver = form.get('approver')?.trim();
+      if (form.get('token') !== token || !approver) {
+        res.writeHead(form.get('token') !== token ? 403 : 400);
+        res.end(
+          form.get('token') !== token ? 'Invalid approval link' : 'Approver name is required'
+        );
+        return;
+      }
+
+      const decision: ApprovalDecision = {
+        approved: form.get('decision') === 'approve',
+        approver: `http:${approver}`,
+        decidedAt: new Date(),
+        reason: form.get('reason')?.trim() || undefined,
+      };
+      if (waiting) {
+        waiting(decision);
+        waiting = null;
+      } else {
+        decisions.push(decision);
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(
+        renderApprovalPage(
+          request,
+          context,
+          token,
+          `${decision.approved ? 'Approval' : 'Rejection'} from ${approver} recorded.`
+        )
+      );
+    });
+
+    const port = this.options.port ?? 3002;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, this.options.host || '127.0.0.1', () => resolve());
+    });
+
+    const address = server.address();
+    const actualPort = typeof address === 'object' && address ? address.port : port;
+    const baseUrl = this.options.baseUrl || `http://localhost:${actualPort}`;
+    const link = `${baseUrl}${path}?token=${token}`;
+    console.log(`\n\x1b[36m🔗 Approval page: ${link}\x1b[0m`);
+    console.log(`\x1b[33m   ${context.requirements}\x1b[0m`);
+
+    const deadline = Date.now() + context.timeoutMs;
+
+    return {
+      next: () => {
+        const queued = decisions.shift();
+        if (queued) {
+          return Promise.resolve(queued);
+        }
+        return new Promise((resolve) => {
+          const timer = setTimeout(
+            () => {
+              waiting = null;
+              resolve(null);
+            },
+            Math.max(0, deadline - Date.now())
+          );
+          waiting = (decision) => {
+            clearTimeout(timer);
+            resolve(decision);
+          };
+        });
+      },
+      close: () =>
+        new Promise<void>((resolve) => {
+          server.close(() => resolve());
+          server.closeAllConnections?.();
+        }),
+    };
+  }
+}
+
+export interface FileApprovalBackendOptions {
+  /** Queue directory (default: .runbook/approvals) */
+  dir?: string;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Decision line appended to `<dir>/<mutation-id>.decisions.jsonl`
+ */
+export interface FileApprovalDecision {
+  approved: boolean;
+  approver: string;
+  reason?: string;
+  decidedAt?: string;
+}
+
+/**
+ * File queue for CI and external change-management systems. The request is
+ * written to `<dir>/<mutation-id>.request.json` and decisions are read as
+ * JSON lines from `<dir>/<mutation-id>.decisions.jsonl`. Anyone who can
+ * write the file can name any approver, so approvers are not authenticated.
+ */
+export class FileApprovalBackend implements ApprovalBackend {
+  readonly name = 'file' as const;
+  readonly distinctApprovers = false;
+
+  constructor(private readonly options: FileApprovalBackendOptions = {}) {}
+
+  async open(request: MutationRequest, context: ApprovalSessionContext): Promise<ApprovalSession> {
+    const dir = this.options.dir || join(process.cwd(), '.runbook', 'approvals');
+    const pollIntervalMs = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const requestFile = join(dir, `${request.id}.request.json`);
+    const decisionsFile = join(dir, `${request.id}.decisions.jsonl`);
+    const deadline = Date.now() + context.timeoutMs;
+    let consumed = 0;
+
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(
+      requestFile,
+      JSON.stringify(
+        {
+          request,
+          requester: context.requester,
+          requirements: context.requirements,
+          createdAt: new Date().toISOString(),
+          expiresAt: new Date(deadline).toISOString(),
+          decisionsFile,
+        },
+        null,
+        2
+      )
+    );
+
+    console.log(`\n\x1b[36m📄 Approval request written to ${requestFile}\x1b[0m`);
+    console.log(`\x1b[33m   Append decisions to ${decisionsFile}\x1b[0m`);
+
+    const readNext = (): ApprovalDecision | null => {
+      if (!existsSync(decisionsFile)) {
+        return null;
+      }
+      const lines = readFileSync(decisionsFile, 'utf-8').split('\n');
+      // The last line may still be being written unless it is newline-terminated
+      while (consumed < lines.length - 1) {
+        const line = lines[consumed++].trim();
+        if (!line) continue;
+        try {
+          const entry = JSON.parse(line) as Partial<FileApprovalDecision>;
+          if (typeof entry.approver !== 'string' || !entry.approver.trim()) continue;
+          return {
+            approved: entry.approved === true,
+            approver: entry.approver.trim(),
+            decidedAt: entry.decidedAt ? new Date(entry.decidedAt) : new Date(),
+            reason: entry.reason,
+          };
+        } catch {
+          console.error(`Ignoring malformed approval decision in ${decisionsFile}`);
+        }
+      }
+      return null;
+    };
+
+    return {
+      next: () => pollUntil(readNext, deadline, pollIntervalMs),
+      close: async () => {
+        try {
+          unlinkSync(requestFile);
+        } catch {
+          // Removed by the approver
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Append a decision for a file-queue approval request
+ */
+export function writeFileApprovalDecision(
+  dir: string,
+  mutationId: string,
+  decision: FileApprovalDecision
+): void {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  const entry = { ...decision, decidedAt: decision.decidedAt || new Date().toISOString() };
+  writeFileSync(join(dir, `${mutationId}.decisions.jsonl`), JSON.stringify(entry) + '\n', {
+    flag: 'a',
+  });
+}
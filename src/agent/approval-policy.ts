@@ -0,0 +1,215 @@
+/**
+ * Approval Policy
+ *
+ * Decides how many approvals a mutation needs and who may give them. Rules
+ * match on risk level, resource and operation; every matching rule must be
+ * satisfied. Without a matching rule a single approval from anyone is enough.
+ */
+
+import type { MutationRequest, RiskLevel } from './approval';
+
+export interface ApprovalRule {
+  name?: string;
+  /** Risk levels the rule applies to; empty matches all */
+  riskLevels?: RiskLevel[];
+  /** Resource patterns (`*` wildcard, case-insensitive); empty matches all */
+  resources?: string[];
+  /** Operation patterns (`*` wildcard, case-insensitive); empty matches all */
+  operations?: string[];
+  /** Distinct approvers required */
+  minApprovals?: number;
+  /** Approvers must belong to one of these groups; empty allows anyone */
+  approverGroups?: string[];
+  /** The requester's own approval does not count */
+  excludeRequester?: boolean;
+}
+
+export interface ApprovalPolicy {
+  /** Group name to member identities, e.g. `slack:U024BE7LH`; bare names are local CLI users */
+  groups?: Record<string, string[]>;
+  rules?: ApprovalRule[];
+}
+
+/**
+ * A rule resolved for one mutation
+ */
+export interface ApprovalRequirement {
+  rule: string;
+  minApprovals: number;
+  approverGroups: string[];
+  excludeRequester: boolean;
+}
+
+export interface ApprovalProgress {
+  satisfied: boolean;
+  /** Approvers that count towards at least one requirement */
+  approvers: string[];
+  /** Fewest further approvals that could satisfy every requirement */
+  remaining: number;
+  unmet: string[];
+}
+
+export const DEFAULT_APPROVAL_REQUIREMENT: ApprovalRequirement = {
+  rule: 'default',
+  minApprovals: 1,
+  approverGroups: [],
+  excludeRequester: false,
+};
+
+/**
+ * Normalize an approver identity to `backend:id`. Identities from different
+ * backends never compare equal, since a Slack `alice` need not be the local
+ * user `alice`; a bare name is a local CLI user.
+ */
+export function normalizeApprover(identity: string): string {
+  const normalized = identity.trim().toLowerCase();
+  return /^[a-z]+:/.test(normalized) ? normalized : `cli:${normalized}`;
+}
+
+/**
+ * Match a `*` wildcard pattern, case-insensitively
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i').test(value);
+}
+
+function matchesAny(value: string, patterns: string[] | undefined): boolean {
+  return !patterns || patterns.length === 0 || patterns.some((p) => matchesPattern(value, p));
+}
+
+/**
+ * Check whether a rule applies to a mutation
+ */
+export function ruleMatches(rule: ApprovalRule, request: MutationRequest): boolean {
+  if (
+    rule.riskLevels &&
+    rule.riskLevels.length > 0 &&
+    !rule.riskLevels.includes(request.riskLevel)
+  ) {
+    return false;
+  }
+  return (
+    matchesAny(request.resource, rule.resources) && matchesAny(request.operation, rule.operations)
+  );
+}
+
+/**
+ * Requirements from every matching rule, or the default single approval
+ */
+export function resolveApprovalRequirements(
+  request: MutationRequest,
+  policy: ApprovalPolicy = {}
+): ApprovalRequirement[] {
+  const requirements = (policy.rules || [])
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => ruleMatches(rule, request))
+    .map(({ rule, index }) => ({
+      rule: rule.name || `rule ${index + 1}`,
+      minApprovals: Math.max(1, rule.minApprovals ?? 1),
+      approverGroups: rule.approverGroups || [],
+      excludeRequester: rule.excludeRequester ?? false,
+    }));
+
+  return requirements.length > 0 ? requirements : [DEFAULT_APPROVAL_REQUIREMENT];
+}
+
+/**
+ * Whether the requirements are stricter than one approval from anyone
+ */
+export function hasPolicyRequirements(requirements: ApprovalRequirement[]): boolean {
+  return requirements.some((requirement) => requirement !== DEFAULT_APPROVAL_REQUIREMENT);
+}
+
+/**
+ * Whether the requirements can only be met by someone other than the requester
+ */
+export function requiresOtherApprovers(requirements: ApprovalRequirement[]): boolean {
+  return requirements.some((r) => r.minApprovals > 1 || r.excludeRequester);
+}
+
+/**
+ * Whether the requirements depend on who approves, which only a backend
+ * that authenticates approvers can tell
+ */
+export function requiresKnownApprovers(requirements: ApprovalRequirement[]): boolean {
+  return (
+    requiresOtherApprovers(requirements) || requirements.some((r) => r.approverGroups.length > 0)
+  );
+}
+
+/**
+ * Check whether an approver counts towards a requirement
+ */
+export function isEligibleApprover(
+  approver: string,
+  requirement: ApprovalRequirement,
+  context: { requester: string; groups?: Record<string, string[]> }
+): boolean {
+  const identity = normalizeApprover(approver);
+  if (requirement.excludeRequester && identity === normalizeApprover(context.requester)) {
+    return false;
+  }
+  if (requirement.approverGroups.length === 0) {
+    return true;
+  }
+  return requirement.approverGroups.some((group) =>
+    (context.groups?.[group] || []).some((member) => normalizeApprover(member) === identity)
+  );
+}
+
+/**
+ * Evaluate the approvals received so far against the requirements
+ */
+export function evaluateApprovals(
+  requirements: ApprovalRequirement[],
+  approvers: string[],
+  context: { requester: string; groups?: Record<string, string[]> }
+): ApprovalProgress {
+  const distinct = Array.from(new Map(approvers.map((a) => [normalizeApprover(a), a])).values());
+  const counted = new Set<string>();
+  const unmet: string[] = [];
+  let remaining = 0;
+
+  for (const requirement of requirements) {
+    const eligible = distinct.filter((approver) =>
+      isEligibleApprover(approver, requirement, context)
+    );
+    eligible.forEach((approver) => counted.add(approver));
+    const shortfall = Math.max(0, requirement.minApprovals - eligible.length);
+    if (shortfall > 0) {
+      unmet.push(requirement.rule);
+      remaining = Math.max(remaining, shortfall);
+    }
+  }
+
+  return {
+    satisfied: unmet.length === 0,
+    approvers: Array.from(counted),
+    remaining,
+    unmet,
+  };
+}
+
+/**
+ * Describe requirements for prompts and approval messages
+ */
+export function describeApprovalRequirements(requirements: ApprovalRequirement[]): string {
+  return requirements
+    .map((requirement) => {
+      const parts = [
+        `${requirement.minApprovals} approval${requirement.minApprovals === 1 ? '' : 's'}`,
+      ];
+      if (requirement.approverGroups.length > 0) {
+        parts.push(`from ${requirement.approverGroups.join(' or ')}`);
+      }
+      if (requirement.excludeRequester) {
+        parts.push('other than the requester');
+      }
+      return `${requirement.rule}: ${parts.join(' ')}`;
+    })
+    .join('; ');
+}
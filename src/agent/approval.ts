@@ -2,18 +2,34 @@
  * Approval Flow
  *
  * Handles user confirmation for state-changing operations (mutations).
- * Provides CLI prompts for approval and maintains an audit trail.
- * Supports Slack integration for remote approval.
+ * Collects decisions from a pluggable backend (CLI, Slack, local HTTP page or
+ * file queue) until the approval policy is satisfied, and maintains an audit
+ * trail.
  */
 
 import { createInterface } from 'readline';
-import { appendFileSync, existsSync, mkdirSync } from 'fs';
-import { join } from 'path';
+import { getLocalUser, recordAuditEvent } from '../audit';
+import { isSlackConfigured, getConfiguredDefaultChannel } from '../tools/incident/slack';
 import {
-  isSlackConfigured,
-  requestSlackApproval as sendSlackApproval,
-  getConfiguredDefaultChannel,
-} from '../tools/incident/slack';
+  FileApprovalBackend,
+  HttpApprovalBackend,
+  SlackApprovalBackend,
+  type ApprovalBackend,
+  type ApprovalBackendName,
+  type ApprovalDecision,
+  type ApprovalSession,
+  type ApprovalSessionContext,
+  type HttpApprovalBackendOptions,
+} from './approval-backends';
+import {
+  describeApprovalRequirements,
+  evaluateApprovals,
+  hasPolicyRequirements,
+  normalizeApprover,
+  requiresKnownApprovers,
+  resolveApprovalRequirements,
+  type ApprovalPolicy,
+} from './approval-policy';
 
 export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
 export type ApprovalPolicyRisk = RiskLevel | 'low_risk' | 'high_risk';
@@ -24,6 +40,8 @@ export interface MutationRequest {
   resource: string;
   description: string;
   riskLevel: RiskLevel;
+  /** Why the risk level was assigned */
+  riskReasons?: string[];
   parameters: Record<string, unknown>;
   rollbackCommand?: string;
   estimatedImpact?: string;
@@ -33,16 +51,21 @@ export interface ApprovalResult {
   approved: boolean;
   approvedAt?: Date;
   approvedBy?: string;
+  /** Every approver that counted towards the policy */
+  approvers?: string[];
   reason?: string;
 }
 
-export interface ApprovalAuditEntry {
-  timestamp: string;
-  mutationId: string;
-  operation: string;
-  resource: string;
-  riskLevel: RiskLevel;
-  approved: boolean;
+/**
+ * Approval details recorded in the audit log
+ */
+interface ApprovalAuditDetails {
+  approvedBy?: string;
+  approvers?: string[];
+  requester?: string;
+  backend?: string;
+  /** Policy rules that applied */
+  policy?: string[];
   reason?: string;
 }
 
@@ -99,6 +122,9 @@ export function classifyRisk(operation: string, resource: string): RiskLevel {
   if (op.includes('deploy') || op.includes('update-service')) {
     return 'high';
   }
+  if (op.includes('rollback') || op.includes('undo') || op.includes('apply')) {
+    return 'high';
+  }
 
   // Medium risk operations
   if (op.includes('update') || op.includes('modify') || op.includes('change')) {
@@ -127,6 +153,7 @@ export function formatMutationRequest(request: MutationRequest): string {
     `  ${BOLD}Resource:${RESET}     ${request.resource}`,
     `  ${BOLD}Risk Level:${RESET}   ${riskColor}${request.riskLevel.toUpperCase()}${RESET}`,
     `                ${RISK_DESCRIPTIONS[request.riskLevel]}`,
+    ...(request.riskReasons || []).map((reason) => `                - ${reason}`),
     '',
     `  ${BOLD}Description:${RESET}`,
     `    ${request.description}`,
@@ -183,12 +210,12 @@ export async function requestApproval(request: MutationRequest): Promise<Approva
   }
 
   // Log to audit trail
-  await logApproval(request, approved);
+  await logApproval(request, approved, { approvedBy: getLocalUser(), backend: 'cli' });
 
   return {
     approved,
     approvedAt: approved ? new Date() : undefined,
-    approvedBy: process.env.USER || 'unknown',
+    approvedBy: getLocalUser(),
     reason: approved ? undefined : 'User rejected',
   };
 }
@@ -345,152 +372,244 @@ export function generateMutationId(): string {
  * Approval options
  */
 export interface ApprovalOptions {
-  /** Use Slack for approval instead of CLI */
+  /** Use Slack for approval instead of CLI (when no backend is given) */
   useSlack?: boolean;
   /** Slack channel for approval (defaults to configured channel) */
   slackChannel?: string;
   /** Timeout for Slack approval in milliseconds (default: 5 minutes) */
   slackTimeout?: number;
-  /** Auto-approve for certain risk levels */
+  /** Auto-approve for certain risk levels when no policy rule matches */
   autoApprove?: RiskLevel[];
+  /** Where decisions come from (defaults to Slack when useSlack is set, otherwise CLI) */
+  backend?: ApprovalBackendName | ApprovalBackend;
+  /** Multi-approver and role-based rules */
+  policy?: ApprovalPolicy;
+  /** Who is asking for the mutation (defaults to the local user) */
+  requester?: string;
+  /** Timeout for collecting approvals in milliseconds (default: 5 minutes) */
+  timeoutMs?: number;
+  http?: HttpApprovalBackendOptions;
+  /** Queue directory for the file backend */
+  fileDir?: string;
 }
 
 /**
- * Request approval with optional Slack integration
+ * Prompt on the terminal. The only identity the CLI sees is the local user,
+ * so this backend cannot satisfy rules that need someone else.
  */
-export async function requestApprovalWithOptions(
-  request: MutationRequest,
-  options: ApprovalOptions = {}
-): Promise<ApprovalResult> {
-  // Check if auto-approval is allowed
-  if (options.autoApprove && options.autoApprove.includes(request.riskLevel)) {
-    await logApproval(request, true, 'auto-approved');
+export class CliApprovalBackend implements ApprovalBackend {
+  readonly name = 'cli' as const;
+  readonly distinctApprovers = false;
+
+  async open(request: MutationRequest, context: ApprovalSessionContext): Promise<ApprovalSession> {
+    console.log(formatMutationRequest(request));
+    if (context.policy) {
+      console.log(`  Policy: ${context.requirements}\n`);
+    }
+
     return {
-      approved: true,
-      approvedAt: new Date(),
-      approvedBy: 'auto-approval',
-      reason: 'Auto-approved based on risk level',
+      next: async () => {
+        const promptMessage =
+          request.riskLevel === 'critical'
+            ? `Type 'yes' to approve, or 'no' to reject: `
+            : `Approve this operation? (y/n): `;
+        const response = (await prompt(promptMessage)).toLowerCase().trim();
+        const approved =
+          request.riskLevel === 'critical'
+            ? response === 'yes'
+            : response === 'y' || response === 'yes';
+
+        return {
+          approved,
+          approver: `cli:${getLocalUser()}`,
+          decidedAt: new Date(),
+          reason: approved ? 'Approved via CLI' : 'User rejected',
+        };
+      },
+      close: async () => {},
     };
   }
+}
 
-  // Use Slack if configured and requested
-  if (options.useSlack && isSlackConfigured()) {
-    return requestSlackApproval(request, options.slackChannel, options.slackTimeout);
+/**
+ * Create an approval backend by name
+ */
+export function createApprovalBackend(
+  name: ApprovalBackendName,
+  options: Pick<ApprovalOptions, 'slackChannel' | 'http' | 'fileDir'> = {}
+): ApprovalBackend {
+  switch (name) {
+    case 'cli':
+      return new CliApprovalBackend();
+    case 'slack':
+      return new SlackApprovalBackend({ channel: options.slackChannel });
+    case 'http':
+      return new HttpApprovalBackend(options.http);
+    case 'file':
+      return new FileApprovalBackend({ dir: options.fileDir });
   }
+}
 
-  // Fall back to CLI
-  return requestApproval(request);
+function resolveBackend(options: ApprovalOptions): ApprovalBackend {
+  if (options.backend && typeof options.backend === 'object') {
+    return options.backend;
+  }
+  if (options.backend) {
+    return createApprovalBackend(options.backend, options);
+  }
+  return createApprovalBackend(options.useSlack && isSlackConfigured() ? 'slack' : 'cli', options);
 }
 
 /**
- * Request approval via Slack
- *
- * Note: This sends a message with approval buttons. For full button interaction,
- * a webhook server is needed to handle the button clicks. This implementation
- * polls for a response file as a simple workaround.
+ * Request approval from the configured backend, collecting decisions until
+ * the approval policy is satisfied, a decision rejects, or the request times out
  */
-async function requestSlackApproval(
+export async function requestApprovalWithOptions(
   request: MutationRequest,
-  channel?: string,
-  timeout: number = 300000 // 5 minutes default
+  options: ApprovalOptions = {}
 ): Promise<ApprovalResult> {
-  const slackChannel = channel || getConfiguredDefaultChannel();
-
-  if (!slackChannel) {
-    console.log('\x1b[33mNo Slack channel configured. Falling back to CLI approval.\x1b[0m');
-    return requestApproval(request);
+  const requirements = resolveApprovalRequirements(request, options.policy);
+  const policy = hasPolicyRequirements(requirements)
+    ? requirements.map((requirement) => requirement.rule)
+    : undefined;
+  const requester = options.requester || getLocalUser();
+
+  // Policy rules take precedence over risk-level auto-approval
+  if (!policy && options.autoApprove && options.autoApprove.includes(request.riskLevel)) {
+    await logApproval(request, true, { approvedBy: 'auto-approved', requester });
+    return {
+      approved: true,
+      approvedAt: new Date(),
+      approvedBy: 'auto-approval',
+      reason: 'Auto-approved based on risk level',
+    };
   }
 
-  try {
-    // Send approval request to Slack
-    const message = await sendSlackApproval(slackChannel, {
-      id: request.id,
-      operation: request.operation,
-      resource: request.resource,
-      description: request.description,
-      riskLevel: request.riskLevel,
-      estimatedImpact: request.estimatedImpact,
-      rollbackCommand: request.rollbackCommand,
+  let backend = resolveBackend(options);
+  const description = describeApprovalRequirements(requirements);
+
+  const reject = async (reason: string, approvedBy?: string): Promise<ApprovalResult> => {
+    await logApproval(request, false, {
+      approvedBy,
+      requester,
+      backend: backend.name,
+      policy,
+      reason,
     });
+    return { approved: false, approvedBy, reason };
+  };
 
-    console.log(`\n\x1b[36m📱 Approval request sent to Slack channel ${slackChannel}\x1b[0m`);
-    console.log(`\x1b[36m   Message: ${message.ts}\x1b[0m`);
-    console.log(`\x1b[33m   Waiting for approval... (timeout: ${timeout / 1000}s)\x1b[0m`);
-    console.log(`\x1b[33m   Or press Enter to approve via CLI\x1b[0m\n`);
+  const backendCannotApprove = () =>
+    !backend.distinctApprovers && requiresKnownApprovers(requirements);
 
-    // Create a race between Slack approval and CLI input
-    const result = await Promise.race([
-      waitForSlackApproval(request.id, timeout),
-      waitForCLIApproval(request),
-    ]);
+  if (backendCannotApprove()) {
+    const reason = `Approval policy requires specific or other approvers (${description}); the ${backend.name} backend cannot tell who approved. Set safety.approval.backend to slack.`;
+    console.log(`\x1b[31m${reason}\x1b[0m`);
+    return reject(reason);
+  }
 
-    await logApproval(request, result.approved, result.approvedBy);
-    return result;
+  const timeoutMs = options.timeoutMs ?? options.slackTimeout ?? 300000;
+  const context = {
+    requester,
+    groups: options.policy?.groups,
+  };
+  const initial = evaluateApprovals(requirements, [], context);
+  const sessionContext: ApprovalSessionContext = {
+    requester,
+    requirements: description,
+    policy,
+    approvalsNeeded: initial.remaining,
+    timeoutMs,
+  };
+
+  let session: ApprovalSession;
+  try {
+    session = await backend.open(request, sessionContext);
   } catch (error) {
     console.log(
-      `\x1b[31mSlack approval failed: ${error instanceof Error ? error.message : error}\x1b[0m`
+      `\x1b[31m${backend.name} approval failed: ${error instanceof Error ? error.message : error}\x1b[0m`
     );
+    backend = new CliApprovalBackend();
+    if (backendCannotApprove()) {
+      return reject(`Approval backend unavailable and the policy requires known approvers`);
+    }
     console.log('\x1b[33mFalling back to CLI approval.\x1b[0m');
-    return requestApproval(request);
+    session = await backend.open(request, sessionContext);
   }
-}
 
-/**
- * Wait for Slack approval response
- *
- * In a full implementation, this would listen for webhook events.
- * For now, it checks a response file that could be written by a webhook handler.
- */
-async function waitForSlackApproval(mutationId: string, timeout: number): Promise<ApprovalResult> {
-  const responseFile = join(process.cwd(), '.runbook', 'pending', `${mutationId}.json`);
-  const startTime = Date.now();
-  const pollInterval = 2000; // Check every 2 seconds
-
-  // Ensure directory exists
-  const pendingDir = join(process.cwd(), '.runbook', 'pending');
-  if (!existsSync(pendingDir)) {
-    mkdirSync(pendingDir, { recursive: true });
+  // Without policy rules the local user may still answer a remote request on the terminal
+  const allowCliAnswer = backend.name !== 'cli' && !requiresKnownApprovers(requirements);
+  if (allowCliAnswer) {
+    console.log(`\x1b[33m   Or press Enter to approve via CLI\x1b[0m\n`);
   }
 
-  // Write pending request
-  const { writeFileSync } = await import('fs');
-  writeFileSync(
-    responseFile.replace('.json', '_pending.json'),
-    JSON.stringify({ mutationId, createdAt: new Date().toISOString() })
-  );
+  const approvers: string[] = [];
+  const reportProgress = () =>
+    session.progress?.(evaluateApprovals(requirements, approvers, context).remaining, [
+      ...approvers,
+    ]);
+
+  try {
+    for (;;) {
+      const decision = await (allowCliAnswer && approvers.length === 0
+        ? Promise.race([session.next(), waitForCLIApproval(request)])
+        : session.next());
+
+      if (!decision) {
+        return reject(`${backend.name} approval timed out after ${timeoutMs / 1000}s`);
+      }
+      if (!decision.approved) {
+        return reject(decision.reason || `Rejected by ${decision.approver}`, decision.approver);
+      }
+
+      const identity = normalizeApprover(decision.approver);
+      if (approvers.some((approver) => normalizeApprover(approver) === identity)) {
+        console.log(`\x1b[33m${decision.approver} has already approved this request.\x1b[0m`);
+        await reportProgress();
+        continue;
+      }
 
-  while (Date.now() - startTime < timeout) {
-    if (existsSync(responseFile)) {
-      try {
-        const { readFileSync, unlinkSync } = await import('fs');
-        const response = JSON.parse(readFileSync(responseFile, 'utf-8'));
-        unlinkSync(responseFile); // Clean up
+      const progress = evaluateApprovals(requirements, [...approvers, decision.approver], context);
+      if (!progress.approvers.some((approver) => normalizeApprover(approver) === identity)) {
+        console.log(
+          `\x1b[33mApproval from ${decision.approver} does not count towards ${description}.\x1b[0m`
+        );
+        await reportProgress();
+        continue;
+      }
 
+      approvers.push(decision.approver);
+      if (progress.satisfied) {
+        await logApproval(request, true, {
+          approvedBy: approvers.join(', '),
+          approvers,
+          requester,
+          backend: backend.name,
+          policy,
+        });
         return {
-          approved: response.approved === true,
+          approved: true,
           approvedAt: new Date(),
-          approvedBy: response.approvedBy || 'slack-user',
-          reason: response.reason,
+          approvedBy: approvers.join(', '),
+          approvers,
+          reason: decision.reason,
         };
-      } catch {
-        // Invalid file, continue waiting
       }
-    }
 
-    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      console.log(
+        `\x1b[36mApproval from ${decision.approver} recorded; ${progress.remaining} more needed (${progress.unmet.join(', ')}).\x1b[0m`
+      );
+      await reportProgress();
+    }
+  } finally {
+    await session.close();
   }
-
-  // Timeout - reject
-  return {
-    approved: false,
-    reason: 'Slack approval timed out',
-  };
 }
 
 /**
- * Wait for CLI approval (as alternative to Slack)
+ * Wait for CLI approval (as alternative to a remote backend)
  */
-async function waitForCLIApproval(request: MutationRequest): Promise<ApprovalResult> {
+async function waitForCLIApproval(request: MutationRequest): Promise<ApprovalDecision> {
   const promptMessage =
     request.riskLevel === 'critical'
       ? `Type 'yes' to approve: `
@@ -508,38 +627,28 @@ async function waitForCLIApproval(request: MutationRequest): Promise<ApprovalRes
 
   return {
     approved,
-    approvedAt: approved ? new Date() : undefined,
-    approvedBy: 'cli-user',
+    approver: `cli:${getLocalUser()}`,
+    decidedAt: new Date(),
     reason: approved ? 'Approved via CLI' : 'Rejected via CLI',
   };
 }
 
 /**
- * Log approval to audit file
+ * Record an approval decision in the audit log
  */
 async function logApproval(
   request: MutationRequest,
   approved: boolean,
-  approvedBy?: string
+  details: ApprovalAuditDetails = {}
 ): Promise<void> {
-  const auditDir = join(process.cwd(), '.runbook', 'audit');
-  const auditFile = join(auditDir, 'approvals.jsonl');
-
-  if (!existsSync(auditDir)) {
-    mkdirSync(auditDir, { recursive: true });
-  }
-
-  const entry: ApprovalAuditEntry & { approvedBy?: string } = {
-    timestamp: new Date().toISOString(),
-    mutationId: request.id,
-    operation: request.operation,
+  await recordAuditEvent({
+    type: 'approval',
+    action: request.operation,
     resource: request.resource,
-    riskLevel: request.riskLevel,
-    approved,
-    approvedBy,
-  };
-
-  appendFileSync(auditFile, JSON.stringify(entry) + '\n');
+    args: request.parameters,
+    outcome: approved ? 'approved' : 'rejected',
+    details: { mutationId: request.id, riskLevel: request.riskLevel, ...details },
+  });
 }
 
 /**
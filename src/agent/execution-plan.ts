@@ -0,0 +1,280 @@
+/**
+ * Execution Plans
+ *
+ * Dry-run support for remediation, deployments and skills. While a plan
+ * recorder is active, mutation tools still do their read-only preparation
+ * (risk classification, current replica counts, rollback commands) but record
+ * the exact call they would make instead of requesting approval and executing
+ * it. The recorded plan is saved as JSON for review and can be applied later,
+ * replaying the same tool calls through the normal approval flow.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { RiskLevel } from './approval';
+
+export const EXECUTION_PLAN_VERSION = 1;
+
+/**
+ * A mutation that would have been made
+ */
+export interface PlannedAction {
+  id: string;
+  /** Tool to call when the plan is applied */
+  tool: string;
+  /** Arguments the tool was called with */
+  args: Record<string, unknown>;
+  operation: string;
+  resource: string;
+  description: string;
+  riskLevel: RiskLevel;
+  rollbackCommand?: string;
+  estimatedImpact?: string;
+  /** The exact API request or command */
+  call: Record<string, unknown> | string;
+  skillId?: string;
+  skillStepId?: string;
+}
+
+export interface ExecutionPlan {
+  version: number;
+  id: string;
+  createdAt: string;
+  /** What produced the plan, e.g. `investigate PD-123` */
+  source: string;
+  actions: PlannedAction[];
+}
+
+export interface PlanApplyResult {
+  action: PlannedAction;
+  status: 'applied' | 'rejected' | 'failed';
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Tools that write without going through approval. A dry run records their
+ * calls instead of running them, wherever they are called from.
+ */
+export const UNAPPROVED_WRITE_TOOLS: ReadonlySet<string> = new Set([
+  'pagerduty_add_note',
+  'opsgenie_add_note',
+  'slack_post_update',
+  'slack_post_root_cause',
+  'slack_message',
+]);
+
+interface PlanContext {
+  recorder: PlanRecorder;
+  skillId?: string;
+  skillStepId?: string;
+}
+
+/**
+ * Collects planned actions during a dry run
+ */
+export class PlanRecorder {
+  readonly actions: PlannedAction[] = [];
+
+  record(action: Omit<PlannedAction, 'id'>): PlannedAction {
+    const planned = { id: `action_${this.actions.length + 1}`, ...action };
+    this.actions.push(planned);
+    return planned;
+  }
+}
+
+const planStorage = new AsyncLocalStorage<PlanContext>();
+
+/**
+ * Run a function in dry-run mode, recording mutations into the recorder
+ */
+export function withPlanRecorder<T>(recorder: PlanRecorder, fn: () => T): T {
+  return planStorage.run({ recorder }, fn);
+}
+
+/**
+ * Attribute actions recorded inside `fn` to a skill step. No-op outside a dry run.
+ */
+export function withPlanStep<T>(origin: { skillId: string; skillStepId: string }, fn: () => T): T {
+  const context = planStorage.getStore();
+  return context ? planStorage.run({ ...context, ...origin }, fn) : fn();
+}
+
+/**
+ * The active recorder, if running in dry-run mode
+ */
+export function getPlanRecorder(): PlanRecorder | undefined {
+  return planStorage.getStore()?.recorder;
+}
+
+/**
+ * Record a mutation in the active dry run. Returns null outside a dry run.
+ */
+export function recordPlannedAction(action: Omit<PlannedAction, 'id'>): PlannedAction | null {
+  const context = planStorage.getStore();
+  if (!context) {
+    return null;
+  }
+  return context.recorder.record({
+    ...action,
+    ...(context.skillId ? { skillId: context.skillId } : {}),
+    ...(context.skillStepId ? { skillStepId: context.skillStepId } : {}),
+  });
+}
+
+/**
+ * Record a call to one of the UNAPPROVED_WRITE_TOOLS instead of making it.
+ * Returns null outside a dry run.
+ */
+export function planUnapprovedWrite(
+  tool: string,
+  params: Record<string, unknown>
+): Record<string, unknown> | null {
+  const action = recordPlannedAction({
+    tool,
+    args: params,
+    operation: tool,
+    resource: String(params.channel ?? params.incident_id ?? params.alert_id ?? tool),
+    description: `Call ${tool}`,
+    riskLevel: 'low',
+    call: params,
+  });
+  return action ? { status: 'planned', planActionId: action.id } : null;
+}
+
+export function createExecutionPlan(source: string, actions: PlannedAction[]): ExecutionPlan {
+  return {
+    version: EXECUTION_PLAN_VERSION,
+    id: `plan_${Date.now()}_${randomBytes(3).toString('hex')}`,
+    createdAt: new Date().toISOString(),
+    source,
+    actions,
+  };
+}
+
+/**
+ * Write a plan, by default to `.runbook/plans/<id>.json`. Returns the path.
+ */
+export async function saveExecutionPlan(plan: ExecutionPlan, filePath?: string): Promise<string> {
+  const path = filePath || join(process.cwd(), '.runbook', 'plans', `${plan.id}.json`);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(plan, null, 2) + '\n', 'utf-8');
+  return path;
+}
+
+/**
+ * Read and validate a plan file
+ */
+export async function loadExecutionPlan(filePath: string): Promise<ExecutionPlan> {
+  let plan: ExecutionPlan;
+  try {
+    plan = JSON.parse(await readFile(filePath, 'utf-8')) as ExecutionPlan;
+  } catch (error) {
+    throw new Error(
+      `Cannot read plan ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (plan.version !== EXECUTION_PLAN_VERSION) {
+    throw new Error(`Unsupported plan version ${plan.version} in ${filePath}`);
+  }
+  if (!Array.isArray(plan.actions)) {
+    throw new Error(`Plan ${filePath} has no actions`);
+  }
+  for (const action of plan.actions) {
+    if (!action || typeof action.tool !== 'string' || typeof action.args !== 'object') {
+      throw new Error(`Plan ${filePath} has an action without a tool and arguments`);
+    }
+  }
+  return plan;
+}
+
+/**
+ * Apply a plan's actions in order, stopping at the first one that is rejected
+ * or fails
+ */
+export async function applyExecutionPlan(
+  plan: ExecutionPlan,
+  execute: (tool: string, args: Record<string, unknown>) => Promise<unknown>,
+  onResult?: (result: PlanApplyResult) => void
+): Promise<PlanApplyResult[]> {
+  const results: PlanApplyResult[] = [];
+
+  for (const action of plan.actions) {
+    let outcome: PlanApplyResult;
+    try {
+      const result = (await execute(action.tool, action.args)) as Record<string, unknown> | null;
+      if (result?.status === 'success' || result?.success === true) {
+        outcome = { action, status: 'applied', result };
+      } else if (result?.status === 'rejected') {
+        outcome = { action, status: 'rejected', result, error: String(result.reason ?? '') };
+      } else {
+        outcome = {
+          action,
+          status: 'failed',
+          result,
+          error: String(result?.error ?? result?.reason ?? 'Unexpected result'),
+        };
+      }
+    } catch (error) {
+      outcome = {
+        action,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    results.push(outcome);
+    onResult?.(outcome);
+    if (outcome.status !== 'applied') {
+      break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Format a plan for review
+ */
+export function formatExecutionPlan(plan: ExecutionPlan): string {
+  const lines = [
+    `# Execution Plan ${plan.id}`,
+    '',
+    `**Source:** ${plan.source}`,
+    `**Created:** ${new Date(plan.createdAt).toLocaleString()}`,
+    '',
+  ];
+
+  if (plan.actions.length === 0) {
+    lines.push('No changes would be made.');
+    return lines.join('\n');
+  }
+
+  lines.push(`${plan.actions.length} change(s) would be made:`);
+  plan.actions.forEach((action, index) => {
+    lines.push('', `## ${index + 1}. ${action.description}`, '');
+    lines.push(`- **Operation:** ${action.operation}`);
+    lines.push(`- **Resource:** ${action.resource}`);
+    lines.push(`- **Risk:** ${action.riskLevel}`);
+    if (action.skillId) {
+      lines.push(
+        `- **Skill step:** ${action.skillId}${action.skillStepId ? ` / ${action.skillStepId}` : ''}`
+      );
+    }
+    lines.push(`- **Rollback:** ${action.rollbackCommand || 'none recorded'}`);
+    if (action.estimatedImpact) {
+      lines.push(`- **Impact:** ${action.estimatedImpact}`);
+    }
+    lines.push(
+      '',
+      typeof action.call === 'string'
+        ? ['```bash', action.call, '```'].join('\n')
+        : ['```json', JSON.stringify(action.call, null, 2), '```'].join('\n')
+    );
+  });
+
+  return lines.join('\n');
+}
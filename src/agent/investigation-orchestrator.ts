@@ -7,6 +7,7 @@
  * - Causal query builder for targeted queries
  * - Log analyzer for pattern extraction
  * - Tool execution for data gathering
+ * - Checkpointing at phase transitions, and resuming from a checkpoint
  */
 
 import {
@@ -52,6 +53,25 @@ import {
 } from './causal-query';
 
 import type { Tool } from './types';
+import { formatTriageInput, type TriageInput } from './alert-sources';
+import {
+  createCheckpointFromSnapshot,
+  type CheckpointStore,
+  type InvestigationCheckpoint,
+} from '../session/checkpoint';
+import { auditToolCall, recordAuditEvent, withAuditContext } from '../audit';
+import {
+  DEFAULT_VERIFICATION_CONFIG,
+  buildHealthQueries,
+  captureHealth,
+  parseRollbackCommand,
+  verifyRemediation,
+  type HealthQuery,
+  type HealthSnapshot,
+  type RemediationVerification,
+  type RemediationVerificationConfig,
+  type RollbackRecord,
+} from './remediation-verifier';
 
 /**
  * LLM interface for generating structured outputs
@@ -86,6 +106,23 @@ export interface InvestigationOptions {
   slackChannel?: string;
   availableSkills?: string[];
   fetchRelevantRunbooks?: (context: RemediationContext) => Promise<string[]>;
+  fetchServiceContext?: (services: string[]) => Promise<string>;
+  /** Alert or incident that started the investigation, from any supported source */
+  triageInput?: TriageInput;
+  /** When set, a checkpoint is saved at every phase transition and on failure */
+  checkpointStore?: CheckpointStore;
+  /**
+   * Plan remediation without executing it: skills run in dry-run mode, step
+   * approval and health verification are skipped
+   */
+  dryRun?: boolean;
+  /** Check health after each remediation step; off unless `enabled` is set */
+  verification?: Partial<RemediationVerificationConfig>;
+  /** Asked before rolling back a step that made health worse (rollback mode `prompt`) */
+  approveRollback?: (
+    step: RemediationStep,
+    verification: RemediationVerification
+  ) => Promise<boolean>;
 }
 
 /**
@@ -115,7 +152,16 @@ export type InvestigationEvent =
   | { type: 'evidence_evaluated'; evaluation: EvidenceEvaluation }
   | { type: 'conclusion_reached'; conclusion: Conclusion }
   | { type: 'remediation_step'; step: RemediationStep; status: string }
+  | { type: 'remediation_verified'; step: RemediationStep; verification: RemediationVerification }
+  | { type: 'remediation_rollback'; step: RemediationStep; rollback: RollbackRecord }
   | { type: 'error'; phase: InvestigationPhase; error: Error }
+  | {
+      type: 'checkpoint_saved';
+      investigationId: string;
+      checkpointId: string;
+      phase: InvestigationPhase;
+    }
+  | { type: 'resumed'; investigationId: string; checkpointId: string; phase: InvestigationPhase }
   | { type: 'complete'; result: InvestigationResult };
 
 /**
@@ -136,10 +182,14 @@ export class InvestigationOrchestrator {
   private readonly availableTools?: Set<string>;
   private inferredLambdaFunctionName?: string;
   private inferredCloudWatchLogGroup?: string;
+  private checkpointWrites: Promise<void> = Promise.resolve();
 
   constructor(llm: LLMClient, toolExecutor: ToolExecutor, options: InvestigationOptions = {}) {
     this.llm = llm;
-    this.toolExecutor = toolExecutor;
+    this.toolExecutor = {
+      execute: (toolName, parameters) =>
+        auditToolCall(toolName, parameters, () => toolExecutor.execute(toolName, parameters)),
+    };
     this.options = options;
     this.availableTools = options.availableTools
       ? new Set(options.availableTools.map((tool) => tool.trim()).filter(Boolean))
@@ -548,6 +598,18 @@ export class InvestigationOrchestrator {
     }
   }
 
+  private async resolveServiceContext(services: string[]): Promise<string> {
+    if (!this.options.fetchServiceContext || services.length === 0) {
+      return '';
+    }
+
+    try {
+      return (await this.options.fetchServiceContext(services)).trim();
+    } catch {
+      return '';
+    }
+  }
+
   private async resolveCodeFixCandidates(
     rootCause: string,
     affectedServices: string[]
@@ -631,21 +693,86 @@ export class InvestigationOrchestrator {
    * Run a full investigation
    */
   async investigate(query: string, context?: string): Promise<InvestigationResult> {
-    const startTime = Date.now();
     const machine = createInvestigation(query, {
       incidentId: this.options.incidentId,
       maxIterations: this.options.maxIterations,
     });
 
+    return this.run(machine, context);
+  }
+
+  /**
+   * Resume an investigation from a checkpoint, continuing in the saved phase.
+   * Hypotheses, gathered evidence and evaluations are restored as they were.
+   */
+  async resume(checkpoint: InvestigationCheckpoint): Promise<InvestigationResult> {
+    if (!checkpoint.state) {
+      throw new Error(
+        `Checkpoint ${checkpoint.id} has no saved investigation state and cannot be resumed`
+      );
+    }
+
+    const machine = InvestigationStateMachine.fromSnapshot(checkpoint.state);
+    this.emit({
+      type: 'resumed',
+      investigationId: checkpoint.investigationId,
+      checkpointId: checkpoint.id,
+      phase: machine.getPhase(),
+    });
+
+    return this.run(machine);
+  }
+
+  /**
+   * Drive the state machine from its current phase to completion, with audit
+   * events attributed to the investigation
+   */
+  private run(machine: InvestigationStateMachine, context?: string): Promise<InvestigationResult> {
+    return withAuditContext(
+      {
+        investigationId: machine.getState().id,
+        incidentId: this.options.incidentId || this.options.triageInput?.id,
+      },
+      () => this.runPhases(machine, context)
+    );
+  }
+
+  private async runPhases(
+    machine: InvestigationStateMachine,
+    context?: string
+  ): Promise<InvestigationResult> {
+    const startTime = Date.now();
+    const query = machine.getState().query;
+
     // Set up event forwarding from state machine
     this.setupMachineEvents(machine);
 
     try {
       // Start the investigation
-      machine.start();
+      if (machine.getPhase() === 'idle') {
+        machine.start();
+      }
 
       // Phase 1: Triage
-      await this.runTriage(machine, query, context);
+      if (machine.getPhase() === 'triage') {
+        await this.runTriage(machine, query, context);
+      } else if (
+        machine.getPhase() === 'hypothesize' &&
+        machine.getState().hypotheses.length === 0
+      ) {
+        const triage = machine.getState().triage;
+        if (triage) {
+          await this.generateHypotheses(machine, triage);
+        }
+      }
+
+      // Evidence gathered before an interruption is evaluated, not re-queried
+      if (machine.hasPendingEvaluation()) {
+        const hypothesis = machine.findHypothesis(machine.getState().currentHypothesisId!);
+        if (hypothesis) {
+          await this.completeInvestigationCycle(machine, hypothesis, hypothesis.queryResults);
+        }
+      }
 
       // Phase 2-4: Hypothesis-Evidence Loop
       while (machine.canContinue() && machine.getPhase() !== 'conclude') {
@@ -653,7 +780,10 @@ export class InvestigationOrchestrator {
       }
 
       // Phase 5: Conclusion
-      if (machine.getPhase() === 'conclude' || machine.getPhase() === 'evaluate') {
+      if (
+        (machine.getPhase() === 'conclude' || machine.getPhase() === 'evaluate') &&
+        !machine.getState().conclusion
+      ) {
         await this.runConclusion(machine);
       }
 
@@ -666,6 +796,7 @@ export class InvestigationOrchestrator {
       if (machine.getPhase() !== 'complete') {
         machine.transitionTo('complete', 'Investigation finished');
       }
+      await this.checkpointWrites;
 
       const result: InvestigationResult = {
         id: machine.getState().id,
@@ -684,16 +815,46 @@ export class InvestigationOrchestrator {
       const err = error instanceof Error ? error : new Error(String(error));
       machine.recordError(err);
       this.emit({ type: 'error', phase: machine.getPhase(), error: err });
+      this.saveCheckpoint(machine);
+      await this.checkpointWrites;
       throw error;
     }
   }
 
+  /**
+   * Queue a checkpoint of the current state. The snapshot is taken
+   * synchronously so later mutations don't leak into it; failures to write
+   * are logged and never interrupt the investigation.
+   */
+  private saveCheckpoint(machine: InvestigationStateMachine): void {
+    const store = this.options.checkpointStore;
+    if (!store) {
+      return;
+    }
+
+    const checkpoint = createCheckpointFromSnapshot(machine.toSnapshot());
+    this.checkpointWrites = this.checkpointWrites.then(async () => {
+      try {
+        await store.save(checkpoint);
+        this.emit({
+          type: 'checkpoint_saved',
+          investigationId: checkpoint.investigationId,
+          checkpointId: checkpoint.id,
+          phase: checkpoint.phase,
+        });
+      } catch (e) {
+        console.error('Checkpoint save failed:', e);
+      }
+    });
+  }
+
   /**
    * Set up event forwarding from state machine
    */
   private setupMachineEvents(machine: InvestigationStateMachine): void {
     machine.on('phaseChange', (transition) => {
       this.emit({ type: 'phase_change', phase: transition.to, reason: transition.reason });
+      this.saveCheckpoint(machine);
     });
 
     machine.on('hypothesisCreated', (hypothesis) => {
@@ -734,6 +895,9 @@ export class InvestigationOrchestrator {
     const response = await this.llm.complete(prompt);
     const triageResponse = parseTriageResponse(response);
     const triageResult = toTriageResult(triageResponse, this.options.incidentId);
+    if (triageResult.affectedServices.length === 0 && this.options.triageInput) {
+      triageResult.affectedServices = [...this.options.triageInput.services];
+    }
 
     machine.setTriageResult(triageResult);
     this.emit({ type: 'triage_complete', result: triageResult });
@@ -758,8 +922,12 @@ export class InvestigationOrchestrator {
       contextParts.push(`Additional Context: ${additionalContext}`);
     }
 
-    // Seed triage with the explicit incident context from CLI input.
-    if (this.options.incidentId) {
+    // Seed triage with the alert that paged, or look up the incident by ID
+    if (this.options.triageInput) {
+      contextParts.push(
+        `Alert Context (${this.options.triageInput.source}):\n${formatTriageInput(this.options.triageInput)}`
+      );
+    } else if (this.options.incidentId) {
       const incidentContextSources: Array<{
         tool: string;
         params: Record<string, unknown>;
@@ -883,6 +1051,9 @@ export class InvestigationOrchestrator {
       symptoms: triage.symptoms.join('\n- ') || 'None identified',
       errorMessages: triage.errorMessages.join('\n- ') || 'None identified',
       services: triage.affectedServices.join(', ') || 'Unknown',
+      serviceContext:
+        (await this.resolveServiceContext(triage.affectedServices)) ||
+        'No dependency graph available',
     });
 
     const response = await this.llm.complete(prompt);
@@ -899,7 +1070,12 @@ export class InvestigationOrchestrator {
    * Run a single investigation cycle
    */
   private async runInvestigationCycle(machine: InvestigationStateMachine): Promise<void> {
-    const hypothesis = machine.getNextHypothesis();
+    // A resumed investigation continues with the hypothesis it was querying
+    const interrupted =
+      machine.getPhase() === 'investigate' && machine.getState().currentHypothesisId
+        ? machine.findHypothesis(machine.getState().currentHypothesisId!)
+        : undefined;
+    const hypothesis = interrupted || machine.getNextHypothesis();
 
     if (!hypothesis) {
       // No more hypotheses to investigate
@@ -921,6 +1097,17 @@ export class InvestigationOrchestrator {
     // Transition to evaluate
     machine.transitionTo('evaluate', 'Evidence gathered');
 
+    await this.completeInvestigationCycle(machine, hypothesis, queries);
+  }
+
+  /**
+   * Evaluate gathered evidence and conclude once a hypothesis is confirmed
+   */
+  private async completeInvestigationCycle(
+    machine: InvestigationStateMachine,
+    hypothesis: InvestigationHypothesis,
+    queries: Map<string, unknown>
+  ): Promise<void> {
     // Evaluate evidence
     await this.evaluateEvidence(machine, hypothesis, queries);
 
@@ -1100,8 +1287,26 @@ export class InvestigationOrchestrator {
       return;
     }
 
+    // A resumed investigation may already have a plan; finish its remaining steps
+    const existingPlan = machine.getState().remediationPlan;
+    if (machine.getPhase() === 'remediate' && existingPlan) {
+      if (
+        this.options.autoApproveRemediation ||
+        this.options.dryRun ||
+        this.options.approveRemediationStep
+      ) {
+        await this.executeRemediation(machine, {
+          ...existingPlan,
+          steps: existingPlan.steps.filter((step) => step.status !== 'completed'),
+        });
+      }
+      return;
+    }
+
     // Transition to remediate
-    machine.transitionTo('remediate', 'Starting remediation planning');
+    if (machine.getPhase() !== 'remediate') {
+      machine.transitionTo('remediate', 'Starting remediation planning');
+    }
 
     const triage = machine.getState().triage;
     const availableSkills = this.options.availableSkills || [];
@@ -1135,9 +1340,13 @@ export class InvestigationOrchestrator {
 
     machine.setRemediationPlan(plan);
 
-    // Execute remediation steps when auto-remediation is enabled
-    // or when an interactive approval callback is provided.
-    if (this.options.autoApproveRemediation || this.options.approveRemediationStep) {
+    // Execute remediation steps when auto-remediation is enabled, when
+    // planning a dry run, or when an interactive approval callback is provided.
+    if (
+      this.options.autoApproveRemediation ||
+      this.options.dryRun ||
+      this.options.approveRemediationStep
+    ) {
       await this.executeRemediation(machine, plan);
     }
   }
@@ -1159,7 +1368,7 @@ export class InvestigationOrchestrator {
         continue;
       }
 
-      if (!this.options.autoApproveRemediation) {
+      if (!this.options.autoApproveRemediation && !this.options.dryRun) {
         const approved = this.options.approveRemediationStep
           ? await this.options.approveRemediationStep(step)
           : false;
@@ -1181,6 +1390,11 @@ export class InvestigationOrchestrator {
         continue;
       }
 
+      const verification = this.options.dryRun ? null : this.getVerificationConfig();
+      const healthQueries = verification ? this.getHealthQueries(verification) : [];
+      const baseline =
+        healthQueries.length > 0 ? await this.captureServiceHealth(machine, healthQueries) : null;
+
       machine.updateRemediationStep(step.id, { status: 'executing' });
       this.emit({ type: 'remediation_step', step, status: 'executing' });
 
@@ -1193,6 +1407,7 @@ export class InvestigationOrchestrator {
             command: step.command,
             rollbackCommand: step.rollbackCommand,
           },
+          ...(this.options.dryRun && { dry_run: true }),
         });
 
         if (
@@ -1204,20 +1419,149 @@ export class InvestigationOrchestrator {
           throw new Error((result as { error: string }).error);
         }
 
-        machine.updateRemediationStep(step.id, {
-          status: 'completed',
-          result,
-        });
+        machine.updateRemediationStep(
+          step.id,
+          this.options.dryRun
+            ? { status: 'skipped', result, error: 'Dry run: changes were planned, not made' }
+            : { status: 'completed', result }
+        );
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         machine.updateRemediationStep(step.id, {
           status: 'failed',
           error: errorMessage,
         });
+        continue;
+      }
+
+      if (verification && baseline) {
+        await this.verifyRemediationStep(machine, step, verification, healthQueries, baseline);
       }
     }
   }
 
+  private getVerificationConfig(): RemediationVerificationConfig | null {
+    const config = { ...DEFAULT_VERIFICATION_CONFIG, ...this.options.verification };
+    return this.options.verification?.enabled ? config : null;
+  }
+
+  private getHealthQueries(config: RemediationVerificationConfig): HealthQuery[] {
+    return buildHealthQueries(config.checks).filter((query) => this.isToolAvailable(query.tool));
+  }
+
+  private getAffectedServices(machine: InvestigationStateMachine): string[] {
+    const state = machine.getState();
+    return state.conclusion?.affectedServices || state.triage?.affectedServices || [];
+  }
+
+  private captureServiceHealth(
+    machine: InvestigationStateMachine,
+    queries: HealthQuery[]
+  ): Promise<HealthSnapshot> {
+    return captureHealth(
+      queries,
+      (tool, parameters) => this.toolExecutor.execute(tool, parameters),
+      this.getAffectedServices(machine)
+    );
+  }
+
+  /**
+   * Watch health after a completed step and roll it back if health got worse
+   */
+  private async verifyRemediationStep(
+    machine: InvestigationStateMachine,
+    step: RemediationStep,
+    config: RemediationVerificationConfig,
+    queries: HealthQuery[],
+    baseline: HealthSnapshot
+  ): Promise<void> {
+    const verification = await verifyRemediation({
+      queries,
+      execute: (tool, parameters) => this.toolExecutor.execute(tool, parameters),
+      baseline,
+      services: this.getAffectedServices(machine),
+      windowMs: config.windowMs,
+      intervalMs: config.intervalMs,
+    });
+    machine.updateRemediationStep(step.id, { verification });
+    this.emit({ type: 'remediation_verified', step, verification });
+
+    if (verification.outcome !== 'degraded') {
+      return;
+    }
+
+    const rollback = await this.rollbackRemediationStep(step, config, verification);
+    machine.updateRemediationStep(step.id, { rollback });
+    this.emit({ type: 'remediation_rollback', step, rollback });
+  }
+
+  /**
+   * Run a step's recorded rollback through the mutation tools, so it goes
+   * through the same approval flow as any other change
+   */
+  private async rollbackRemediationStep(
+    step: RemediationStep,
+    config: RemediationVerificationConfig,
+    verification: RemediationVerification
+  ): Promise<RollbackRecord> {
+    if (!step.rollbackCommand) {
+      return { status: 'unavailable', error: 'No rollback command was recorded for this step' };
+    }
+    if (config.rollback === 'off') {
+      return { status: 'disabled' };
+    }
+
+    const call = parseRollbackCommand(step.rollbackCommand);
+    if (!call || !this.isToolAvailable(call.tool)) {
+      return { status: 'manual', error: `Run manually: ${step.rollbackCommand}` };
+    }
+
+    if (config.rollback === 'prompt') {
+      const approved = this.options.approveRollback
+        ? await this.options.approveRollback(step, verification)
+        : false;
+      if (!approved) {
+        return { status: 'declined', ...call };
+      }
+    }
+
+    let rollback: RollbackRecord;
+    try {
+      const result = (await this.toolExecutor.execute(call.tool, call.parameters)) as {
+        status?: string;
+        error?: string;
+        reason?: string;
+      } | null;
+      rollback =
+        result?.status === 'success'
+          ? { status: 'executed', ...call }
+          : result?.status === 'rejected'
+            ? { status: 'rejected', ...call, error: result.reason }
+            : { status: 'failed', ...call, error: result?.error || result?.reason };
+    } catch (error) {
+      rollback = {
+        status: 'failed',
+        ...call,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    await recordAuditEvent({
+      type: 'rollback',
+      action: step.action,
+      resource: step.rollbackCommand,
+      args: call.parameters,
+      outcome: rollback.status === 'executed' ? 'success' : 'failure',
+      details: {
+        stepId: step.id,
+        status: rollback.status,
+        verification: verification.summary,
+        ...(rollback.error ? { error: rollback.error } : {}),
+      },
+    });
+    return rollback;
+  }
+
   /**
    * Analyze logs and incorporate findings
    */
@@ -424,6 +424,9 @@ Error Messages:
 Affected Services:
 {services}
 
+Service Dependencies and Blast Radius:
+{serviceContext}
+
 Respond with a JSON object matching this schema:
 - hypotheses: Array of 3-5 hypotheses, each with:
   - statement: Clear statement of what might be causing the issue
@@ -79,6 +79,7 @@ ${toolDescriptions}
   - **ECS tasks**: \`aws ecs describe-tasks\`
   - **CloudWatch Logs**: \`aws logs get-log-events\`
 - Use \`aws_mutate\` for state changes (requires approval)
+- Use \`kubernetes_mutate\` to scale, restart, roll back, delete pods, or apply manifests (requires approval)
 - Use \`search_knowledge\` to find relevant runbooks and past incidents
 - Use \`pagerduty_*\` tools for incident management
 - Use \`skill\` to invoke specialized workflows
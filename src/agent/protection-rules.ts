@@ -0,0 +1,317 @@
+/**
+ * Protection Rules
+ *
+ * Time- and environment-aware guards checked before a mutation is sent for
+ * approval: change freezes, weekend restrictions and incident requirements.
+ * Rules match on risk level, resource, operation and resource tags, and are
+ * active during their windows (ISO ranges or cron schedules) and weekdays.
+ * A denied mutation can be let through with a break-glass override, which is
+ * recorded in the audit log.
+ */
+
+import type { MutationRequest, RiskLevel } from './approval';
+import { matchesPattern, ruleMatches } from './approval-policy';
+import { getAuditContext, getLocalUser, recordAuditEvent } from '../audit';
+import { matchesCronDay, parseCron, zonedTime } from '../utils/cron';
+
+export { parseCron } from '../utils/cron';
+
+export const PROTECTION_EFFECTS = ['deny', 'skills_only', 'require_incident'] as const;
+
+/**
+ * - `deny` blocks matching mutations
+ * - `skills_only` allows them only from the listed skills (any skill if empty)
+ * - `require_incident` allows them only while working an incident
+ */
+export type ProtectionEffect = (typeof PROTECTION_EFFECTS)[number];
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * A fixed ISO range, or a window opened by a cron schedule
+ */
+export type ProtectionWindow =
+  | { start: string; end: string }
+  | { cron: string; durationMinutes: number };
+
+export interface ProtectionRule {
+  name: string;
+  effect: ProtectionEffect;
+  /** When the rule is active; empty means always */
+  windows?: ProtectionWindow[];
+  /** Weekdays the rule is active; empty means every day */
+  days?: Weekday[];
+  /** Risk levels the rule applies to; empty matches all */
+  riskLevels?: RiskLevel[];
+  /** Resource patterns (`*` wildcard, case-insensitive); empty matches all */
+  resources?: string[];
+  /** Operation patterns (`*` wildcard, case-insensitive); empty matches all */
+  operations?: string[];
+  /** Resource tags that must all match (values may use `*`) */
+  tags?: Record<string, string>;
+  /** Skills allowed by `skills_only` */
+  skills?: string[];
+  /** Replaces the default denial message */
+  message?: string;
+  /** Whether a break-glass override may bypass the rule (default true) */
+  breakGlass?: boolean;
+}
+
+export interface ResourceTagMapping {
+  resources: string[];
+  tags: Record<string, string>;
+}
+
+export interface ProtectionConfig {
+  /** IANA time zone for cron windows and weekdays */
+  timezone?: string;
+  rules?: ProtectionRule[];
+  /** Tags for resources whose tags cannot be looked up */
+  resourceTags?: ResourceTagMapping[];
+}
+
+export interface ProtectionContext {
+  incidentId?: string;
+  skillId?: string;
+  tags?: Record<string, string>;
+  now?: Date;
+}
+
+export interface ProtectionDenial {
+  rule: string;
+  effect: ProtectionEffect;
+  message: string;
+  /** When the window that triggered the rule closes */
+  until?: Date;
+  breakGlass: boolean;
+}
+
+export interface BreakGlass {
+  reason: string;
+  user?: string;
+}
+
+export type ProtectionDecision =
+  | { allowed: true; overridden?: ProtectionDenial[] }
+  | { allowed: false; denials: ProtectionDenial[]; reason: string };
+
+const MINUTE_MS = 60_000;
+
+/**
+ * When the window containing `now` closes, or null if `now` is outside it
+ */
+export function windowEnd(window: ProtectionWindow, now: Date, timeZone = 'UTC'): Date | null {
+  if ('start' in window) {
+    const start = new Date(window.start);
+    const end = new Date(window.end);
+    return now >= start && now < end ? end : null;
+  }
+
+  // Walk back hour by hour to the most recent schedule time within the duration
+  const schedule = parseCron(window.cron);
+  const durationMs = window.durationMinutes * MINUTE_MS;
+  let cursor = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+  while (now.getTime() - cursor < durationMs) {
+    const time = zonedTime(new Date(cursor), timeZone);
+    if (schedule.hours.has(time.hour) && matchesCronDay(schedule, time)) {
+      for (let minute = time.minute; minute >= 0; minute--) {
+        const started = cursor - (time.minute - minute) * MINUTE_MS;
+        if (schedule.minutes.has(minute) && now.getTime() - started < durationMs) {
+          return new Date(started + durationMs);
+        }
+      }
+    }
+    cursor -= (time.minute + 1) * MINUTE_MS;
+  }
+  return null;
+}
+
+/**
+ * Tags configured for a resource in `resourceTags`
+ */
+export function configuredResourceTags(
+  resource: string,
+  mappings: ResourceTagMapping[] = []
+): Record<string, string> {
+  return Object.assign(
+    {},
+    ...mappings
+      .filter((mapping) => mapping.resources.some((pattern) => matchesPattern(resource, pattern)))
+      .map((mapping) => mapping.tags)
+  );
+}
+
+function tagsMatch(required: Record<string, string> = {}, tags: Record<string, string> = {}) {
+  return Object.entries(required).every(
+    ([key, pattern]) => tags[key] !== undefined && matchesPattern(tags[key], pattern)
+  );
+}
+
+function describeTags(tags: Record<string, string> = {}): string {
+  return Object.entries(tags)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
+
+function defaultMessage(
+  rule: ProtectionRule,
+  request: MutationRequest,
+  until: Date | undefined
+): string {
+  switch (rule.effect) {
+    case 'deny': {
+      const scope = rule.tags && Object.keys(rule.tags).length > 0 ? describeTags(rule.tags) : '';
+      return `Changes${scope ? ` to ${scope} resources` : ''} are frozen${until ? ` until ${until.toISOString()}` : ''}.`;
+    }
+    case 'skills_only':
+      return rule.skills && rule.skills.length > 0
+        ? `Only these skills may make changes now: ${rule.skills.join(', ')}.`
+        : 'Only skills may make changes now.';
+    case 'require_incident':
+      return `An incident ID is required for ${request.riskLevel}-risk changes. Run from \`runbook investigate <incident-id>\`.`;
+  }
+}
+
+/**
+ * Rules that deny the mutation right now
+ */
+export function evaluateProtectionRules(
+  request: MutationRequest,
+  config: ProtectionConfig | undefined,
+  context: ProtectionContext = {}
+): ProtectionDenial[] {
+  const now = context.now || new Date();
+  const timeZone = config?.timezone || 'UTC';
+  const tags = {
+    ...configuredResourceTags(request.resource, config?.resourceTags),
+    ...context.tags,
+  };
+  const denials: ProtectionDenial[] = [];
+
+  for (const rule of config?.rules || []) {
+    if (!ruleMatches(rule, request) || !tagsMatch(rule.tags, tags)) {
+      continue;
+    }
+    if (rule.days && rule.days.length > 0) {
+      const weekday = WEEKDAYS[zonedTime(now, timeZone).weekday];
+      if (!rule.days.includes(weekday)) {
+        continue;
+      }
+    }
+    let until: Date | undefined;
+    if (rule.windows && rule.windows.length > 0) {
+      const ends = rule.windows
+        .map((window) => windowEnd(window, now, timeZone))
+        .filter((end): end is Date => end !== null);
+      if (ends.length === 0) {
+        continue;
+      }
+      until = new Date(Math.max(...ends.map((end) => end.getTime())));
+    }
+
+    const satisfied =
+      (rule.effect === 'skills_only' &&
+        context.skillId !== undefined &&
+        (!rule.skills?.length || rule.skills.includes(context.skillId))) ||
+      (rule.effect === 'require_incident' && Boolean(context.incidentId));
+    if (satisfied) {
+      continue;
+    }
+
+    denials.push({
+      rule: rule.name,
+      effect: rule.effect,
+      message: rule.message || defaultMessage(rule, request, until),
+      until,
+      breakGlass: rule.breakGlass ?? true,
+    });
+  }
+
+  return denials;
+}
+
+/**
+ * Denial message shown to the user and returned to the agent
+ */
+export function formatProtectionDenial(denials: ProtectionDenial[]): string {
+  const lines = denials.map(
+    (denial) => `Blocked by protection rule "${denial.rule}": ${denial.message}`
+  );
+  if (denials.every((denial) => denial.breakGlass)) {
+    lines.push('To override in an emergency, re-run with --break-glass "<reason>".');
+  } else {
+    lines.push('This rule cannot be overridden with break-glass.');
+  }
+  return lines.join('\n');
+}
+
+let activeBreakGlass: BreakGlass | null = null;
+
+/**
+ * Enable (or clear) a break-glass override for this process
+ */
+export function setBreakGlass(breakGlass: BreakGlass | null): void {
+  activeBreakGlass = breakGlass;
+}
+
+export function getBreakGlass(): BreakGlass | null {
+  return activeBreakGlass;
+}
+
+/**
+ * Check a mutation against the protection rules. Incident and skill come from
+ * the audit context when not given. Denials and break-glass overrides are
+ * recorded in the audit log.
+ */
+export async function enforceProtectionRules(
+  request: MutationRequest,
+  config: ProtectionConfig | undefined,
+  context: ProtectionContext = {}
+): Promise<ProtectionDecision> {
+  const auditContext = getAuditContext();
+  const denials = evaluateProtectionRules(request, config, {
+    incidentId: auditContext.incidentId,
+    skillId: auditContext.skillId,
+    ...context,
+  });
+  if (denials.length === 0) {
+    return { allowed: true };
+  }
+
+  const rules = denials.map((denial) => denial.rule);
+  const breakGlass = getBreakGlass();
+  if (breakGlass && denials.every((denial) => denial.breakGlass)) {
+    await recordAuditEvent({
+      type: 'break_glass',
+      action: request.operation,
+      resource: request.resource,
+      args: request.parameters,
+      outcome: 'approved',
+      user: breakGlass.user || getLocalUser(),
+      details: {
+        mutationId: request.id,
+        riskLevel: request.riskLevel,
+        rules,
+        reason: breakGlass.reason,
+      },
+    });
+    return { allowed: true, overridden: denials };
+  }
+
+  await recordAuditEvent({
+    type: 'mutation',
+    action: request.operation,
+    resource: request.resource,
+    args: request.parameters,
+    outcome: 'rejected',
+    details: {
+      mutationId: request.id,
+      riskLevel: request.riskLevel,
+      deniedBy: rules,
+      ...(breakGlass && { breakGlassRefused: breakGlass.reason }),
+    },
+  });
+  return { allowed: false, denials, reason: formatProtectionDenial(denials) };
+}
@@ -0,0 +1,358 @@
+/**
+ * Remediation Verification
+ *
+ * Captures service health before a remediation step runs, then re-runs the
+ * same health queries (CloudWatch alarms, Prometheus alerts, Kubernetes
+ * rollout status) over a window afterwards. When health gets worse, the
+ * step's recorded rollback command can be mapped to a mutation tool so it
+ * goes through the normal approval flow.
+ */
+
+export const HEALTH_CHECK_KINDS = ['cloudwatch', 'prometheus', 'kubernetes'] as const;
+
+export type HealthCheckKind = (typeof HEALTH_CHECK_KINDS)[number];
+
+export type RollbackMode = 'auto' | 'prompt' | 'off';
+
+export interface RemediationVerificationConfig {
+  enabled: boolean;
+  /** How long to watch health after a step completes */
+  windowMs: number;
+  /** Time between health samples */
+  intervalMs: number;
+  checks: HealthCheckKind[];
+  /** `prompt` offers the rollback, `auto` runs it (still subject to approval) */
+  rollback: RollbackMode;
+}
+
+export const DEFAULT_VERIFICATION_CONFIG: RemediationVerificationConfig = {
+  enabled: true,
+  windowMs: 5 * 60 * 1000,
+  intervalMs: 60 * 1000,
+  checks: [...HEALTH_CHECK_KINDS],
+  rollback: 'prompt',
+};
+
+export interface HealthQuery {
+  kind: HealthCheckKind;
+  tool: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * One health signal. `problems` counts firing alarms, firing alerts or
+ * unavailable replicas, so lower is healthier.
+ */
+export interface HealthSignal {
+  kind: HealthCheckKind;
+  problems: number;
+  detail: string;
+}
+
+export interface HealthSnapshot {
+  checkedAt: string;
+  signals: HealthSignal[];
+}
+
+export type VerificationOutcome = 'improved' | 'unchanged' | 'degraded' | 'inconclusive';
+
+export interface RemediationVerification {
+  outcome: VerificationOutcome;
+  summary: string;
+  baseline: HealthSnapshot;
+  samples: HealthSnapshot[];
+}
+
+export interface RollbackRecord {
+  status: 'executed' | 'failed' | 'rejected' | 'declined' | 'manual' | 'unavailable' | 'disabled';
+  tool?: string;
+  parameters?: Record<string, unknown>;
+  error?: string;
+}
+
+export const HEALTH_CHECK_TOOLS: Record<HealthCheckKind, string> = {
+  cloudwatch: 'cloudwatch_alarms',
+  prometheus: 'prometheus',
+  kubernetes: 'kubernetes_query',
+};
+
+/**
+ * Health queries for the enabled checks
+ */
+export function buildHealthQueries(kinds: HealthCheckKind[]): HealthQuery[] {
+  return kinds.map((kind) => {
+    switch (kind) {
+      case 'cloudwatch':
+        return { kind, tool: HEALTH_CHECK_TOOLS[kind], parameters: { state: 'ALARM' } };
+      case 'prometheus':
+        return { kind, tool: HEALTH_CHECK_TOOLS[kind], parameters: { action: 'alerts' } };
+      case 'kubernetes':
+        return { kind, tool: HEALTH_CHECK_TOOLS[kind], parameters: { action: 'deployments' } };
+    }
+  });
+}
+
+function mentionsService(values: unknown[], services: string[]): boolean {
+  if (services.length === 0) {
+    return true;
+  }
+  const text = values
+    .filter((value) => typeof value === 'string')
+    .join(' ')
+    .toLowerCase();
+  return services.some((service) => text.includes(service.toLowerCase()));
+}
+
+function asArray(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value) ? (value as Array<Record<string, unknown>>) : [];
+}
+
+/**
+ * Turn a health tool result into a signal, scoped to the affected services.
+ * Returns null when the query failed.
+ */
+export function interpretHealthResult(
+  kind: HealthCheckKind,
+  result: unknown,
+  services: string[] = []
+): HealthSignal | null {
+  if (!result || typeof result !== 'object' || 'error' in result) {
+    return null;
+  }
+  const body = result as Record<string, unknown>;
+
+  switch (kind) {
+    case 'cloudwatch': {
+      const alarms = asArray(body.alarms).filter(
+        (alarm) =>
+          alarm.stateValue === 'ALARM' &&
+          mentionsService(
+            [alarm.alarmName, ...asArray(alarm.dimensions).map((dimension) => dimension.value)],
+            services
+          )
+      );
+      return {
+        kind,
+        problems: alarms.length,
+        detail:
+          alarms.length > 0
+            ? `${alarms.length} alarm(s) firing: ${alarms.map((a) => a.alarmName).join(', ')}`
+            : 'no alarms firing',
+      };
+    }
+    case 'prometheus': {
+      const alerts = asArray(body.firingAlerts).filter((alert) =>
+        mentionsService([alert.name, alert.job, alert.instance, alert.summary], services)
+      );
+      return {
+        kind,
+        problems: alerts.length,
+        detail:
+          alerts.length > 0
+            ? `${alerts.length} alert(s) firing: ${alerts.map((a) => a.name).join(', ')}`
+            : 'no alerts firing',
+      };
+    }
+    case 'kubernetes': {
+      const deployments = asArray(body.deployments).filter((deployment) =>
+        mentionsService([deployment.name], services)
+      );
+      const unavailable = deployments.map((deployment) => {
+        const replicas = (deployment.replicas || {}) as { desired?: number; available?: number };
+        return {
+          name: deployment.name,
+          missing: Math.max(0, (replicas.desired ?? 0) - (replicas.available ?? 0)),
+        };
+      });
+      const degraded = unavailable.filter((d) => d.missing > 0);
+      return {
+        kind,
+        problems: degraded.reduce((sum, d) => sum + d.missing, 0),
+        detail:
+          degraded.length > 0
+            ? `unavailable replicas: ${degraded.map((d) => `${d.name} (${d.missing})`).join(', ')}`
+            : `${deployments.length} deployment(s) fully available`,
+      };
+    }
+  }
+}
+
+/**
+ * Run the health queries. Failed queries are left out of the snapshot.
+ */
+export async function captureHealth(
+  queries: HealthQuery[],
+  execute: (tool: string, parameters: Record<string, unknown>) => Promise<unknown>,
+  services: string[] = []
+): Promise<HealthSnapshot> {
+  const signals: HealthSignal[] = [];
+  for (const query of queries) {
+    try {
+      const signal = interpretHealthResult(
+        query.kind,
+        await execute(query.tool, query.parameters),
+        services
+      );
+      if (signal) {
+        signals.push(signal);
+      }
+    } catch {
+      // A check that cannot run says nothing about health
+    }
+  }
+  return { checkedAt: new Date().toISOString(), signals };
+}
+
+/**
+ * Compare a sample against the baseline. Any signal with more problems than
+ * before counts as degraded, even if others improved.
+ */
+export function compareHealth(
+  baseline: HealthSnapshot,
+  sample: HealthSnapshot
+): VerificationOutcome {
+  const pairs = sample.signals
+    .map((signal) => ({
+      after: signal.problems,
+      before: baseline.signals.find((b) => b.kind === signal.kind)?.problems,
+    }))
+    .filter((pair): pair is { after: number; before: number } => pair.before !== undefined);
+
+  if (pairs.length === 0) {
+    return 'inconclusive';
+  }
+  if (pairs.some((pair) => pair.after > pair.before)) {
+    return 'degraded';
+  }
+  const before = pairs.reduce((sum, pair) => sum + pair.before, 0);
+  const after = pairs.reduce((sum, pair) => sum + pair.after, 0);
+  return after < before ? 'improved' : 'unchanged';
+}
+
+function summarize(
+  outcome: VerificationOutcome,
+  baseline: HealthSnapshot,
+  sample?: HealthSnapshot
+) {
+  if (!sample || outcome === 'inconclusive') {
+    return 'No health check could be compared with the baseline';
+  }
+  const changes = sample.signals.map((signal) => {
+    const before = baseline.signals.find((b) => b.kind === signal.kind);
+    return before && before.problems !== signal.problems
+      ? `${signal.kind}: ${before.problems} → ${signal.problems} (${signal.detail})`
+      : `${signal.kind}: ${signal.detail}`;
+  });
+  return `Health ${outcome}. ${changes.join('; ')}`;
+}
+
+/**
+ * Sample health over the window after a step. Stops at the first sample that
+ * is worse than the baseline; otherwise the last sample decides the outcome.
+ */
+export async function verifyRemediation(options: {
+  queries: HealthQuery[];
+  execute: (tool: string, parameters: Record<string, unknown>) => Promise<unknown>;
+  baseline: HealthSnapshot;
+  services?: string[];
+  windowMs: number;
+  intervalMs: number;
+}): Promise<RemediationVerification> {
+  const { queries, execute, baseline, services = [] } = options;
+  const sampleCount = Math.max(1, Math.floor(options.windowMs / Math.max(1, options.intervalMs)));
+  const samples: HealthSnapshot[] = [];
+  let outcome: VerificationOutcome = 'inconclusive';
+
+  for (let i = 0; i < sampleCount; i++) {
+    await new Promise((resolve) => setTimeout(resolve, options.intervalMs));
+    const sample = await captureHealth(queries, execute, services);
+    samples.push(sample);
+    outcome = compareHealth(baseline, sample);
+    if (outcome === 'degraded') {
+      break;
+    }
+  }
+
+  return {
+    outcome,
+    summary: summarize(outcome, baseline, samples[samples.length - 1]),
+    baseline,
+    samples,
+  };
+}
+
+/**
+ * Map a recorded rollback command to a mutation tool call. Returns null for
+ * commands that need a human (free text, unsupported CLIs).
+ */
+export function parseRollbackCommand(
+  command: string
+): { tool: string; parameters: Record<string, unknown> } | null {
+  const tokens = command.trim().split(/\s+/);
+  const flag = (name: string): string | undefined => {
+    const inline = tokens.find((token) => token.startsWith(`${name}=`));
+    if (inline) {
+      return inline.slice(name.length + 1);
+    }
+    const index = tokens.indexOf(name);
+    return index >= 0 ? tokens[index + 1] : undefined;
+  };
+  const namespace = flag('-n') || flag('--namespace');
+  const kubeContext = flag('--context');
+
+  const undo = command.match(/^kubectl\s+rollout\s+undo\s+(?:deployment\/|deployment\s+)([\w.-]+)/);
+  if (undo) {
+    const revision = flag('--to-revision');
+    return {
+      tool: 'kubernetes_mutate',
+      parameters: {
+        action: 'rollback',
+        name: undo[1],
+        description: `Rollback: ${command}`,
+        ...(namespace && { namespace }),
+        ...(kubeContext && { context: kubeContext }),
+        ...(revision && { revision: Number(revision) }),
+      },
+    };
+  }
+
+  const scale = command.match(/^kubectl\s+scale\s+(?:deployment\/|deployment\s+)([\w.-]+)/);
+  const replicas = flag('--replicas');
+  if (scale && replicas && /^\d+$/.test(replicas)) {
+    return {
+      tool: 'kubernetes_mutate',
+      parameters: {
+        action: 'scale',
+        name: scale[1],
+        replicas: Number(replicas),
+        description: `Rollback: ${command}`,
+        ...(namespace && { namespace }),
+        ...(kubeContext && { context: kubeContext }),
+      },
+    };
+  }
+
+  if (/^aws\s+ecs\s+update-service\b/.test(command)) {
+    const service = flag('--service');
+    const desiredCount = flag('--desired-count');
+    if (service && desiredCount && /^\d+$/.test(desiredCount)) {
+      const cluster = flag('--cluster');
+      const region = flag('--region');
+      return {
+        tool: 'aws_mutate',
+        parameters: {
+          operation: 'ecs:UpdateService',
+          resource: service,
+          parameters: {
+            desiredCount: Number(desiredCount),
+            ...(cluster && { cluster }),
+            ...(region && { region }),
+          },
+          description: `Rollback: ${command}`,
+        },
+      };
+    }
+  }
+
+  return null;
+}
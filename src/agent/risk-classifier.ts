@@ -0,0 +1,220 @@
+/**
+ * Resource-Aware Risk Classification
+ *
+ * Assigns a mutation's risk level from what it targets, not just the
+ * operation name. The operation sets a baseline, which is then adjusted by
+ * the resource's environment (from tags, configured resource patterns or its
+ * name), the service's tier in the service graph, and the change in desired
+ * count. Every adjustment is explained so approvers can see why a change was
+ * rated the way it was.
+ */
+
+import { classifyRisk, type RiskLevel } from './approval';
+import { matchesPattern } from './approval-policy';
+import { AWS_RISK_CLASSIFICATION, type OperationRisk } from './safety';
+import { resolveGraphService } from '../knowledge/store/graph-import';
+import type { ServiceGraph, ServiceNode } from '../knowledge/store/graph-store';
+import type { RunbookCommand } from '../knowledge/types';
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+const OPERATION_RISK_LEVELS: Record<OperationRisk, RiskLevel> = {
+  read: 'low',
+  low_risk: 'low',
+  high_risk: 'high',
+  critical: 'critical',
+};
+
+/** Lowest risk for changes to a service of each tier */
+const TIER_MINIMUM_RISK: Partial<Record<NonNullable<ServiceNode['tier']>, RiskLevel>> = {
+  critical: 'high',
+  high: 'medium',
+};
+
+/** Tags and labels that name the service a resource belongs to */
+const SERVICE_TAG_KEYS = ['service', 'app.kubernetes.io/name', 'app'];
+
+export interface RiskEnvironment {
+  /** Resource patterns in this environment, used when tags don't say */
+  resources?: string[];
+  /** Levels to raise (positive) or lower (negative) risk by */
+  adjust?: number;
+  /** Lowest risk for any change in this environment */
+  minimum?: RiskLevel;
+}
+
+export interface RiskConfig {
+  /** Tag keys that hold the environment name */
+  environmentTags?: string[];
+  /** Environments by name, as they appear in tags or resource names */
+  environments?: Record<string, RiskEnvironment>;
+}
+
+export const DEFAULT_RISK_CONFIG: Required<RiskConfig> = {
+  environmentTags: ['env', 'environment', 'stage'],
+  environments: {
+    production: { adjust: 1 },
+    prod: { adjust: 1 },
+    staging: { adjust: -1 },
+    dev: { adjust: -1 },
+  },
+};
+
+/**
+ * What a mutation targets
+ */
+export interface RiskTarget {
+  operation: string;
+  resource: string;
+  /** Resource tags or Kubernetes labels */
+  tags?: Record<string, string>;
+  /** Current desired count (tasks or replicas) */
+  currentCount?: number;
+  /** Desired count after the change */
+  desiredCount?: number;
+}
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  /** Why the level was assigned, baseline first */
+  reasons: string[];
+}
+
+export interface RiskClassifierOptions {
+  config?: RiskConfig;
+  /** Service graph used to look up the service's tier */
+  graph?: ServiceGraph;
+}
+
+/**
+ * Baseline risk of an operation, before looking at its target
+ */
+export function operationRisk(operation: string): RiskLevel {
+  const wildcard = `${operation.split(':')[0]}:*`;
+  const known = AWS_RISK_CLASSIFICATION[operation] ?? AWS_RISK_CLASSIFICATION[wildcard];
+  return known ? OPERATION_RISK_LEVELS[known] : classifyRisk(operation, '');
+}
+
+/**
+ * Risk of running a command quoted in a runbook. Commands that only read are low.
+ */
+export function runbookCommandRisk(command: RunbookCommand): RiskLevel {
+  return command.mutating ? operationRisk(command.operation) : 'low';
+}
+
+/**
+ * The environment a resource is in, and where that came from
+ */
+export function resolveEnvironment(
+  resource: string,
+  tags: Record<string, string> = {},
+  config: RiskConfig = DEFAULT_RISK_CONFIG
+): { name: string; source: string } | null {
+  const environments = config.environments ?? DEFAULT_RISK_CONFIG.environments;
+
+  for (const key of config.environmentTags ?? DEFAULT_RISK_CONFIG.environmentTags) {
+    const value = Object.entries(tags).find(([tag]) => tag.toLowerCase() === key.toLowerCase());
+    if (value?.[1]) {
+      return { name: value[1].toLowerCase(), source: `tag ${value[0]}=${value[1]}` };
+    }
+  }
+
+  for (const [name, environment] of Object.entries(environments)) {
+    const pattern = environment.resources?.find((p) => matchesPattern(resource, p));
+    if (pattern) {
+      return { name, source: `resource pattern ${pattern}` };
+    }
+  }
+
+  const words = new Set(resource.toLowerCase().split(/[^a-z0-9]+/));
+  const named = Object.keys(environments).find((name) => words.has(name.toLowerCase()));
+  return named ? { name: named, source: 'resource name' } : null;
+}
+
+/**
+ * The graph service a resource belongs to, from its tags or name
+ */
+function findService(
+  graph: ServiceGraph,
+  resource: string,
+  tags: Record<string, string>
+): ServiceNode | undefined {
+  const candidates = [
+    ...SERVICE_TAG_KEYS.map((key) => tags[key]).filter(Boolean),
+    resource.split(/[/:]/).pop() || resource,
+  ];
+  for (const candidate of candidates) {
+    const service = resolveGraphService(graph, candidate);
+    if (service) {
+      return service;
+    }
+  }
+  return undefined;
+}
+
+function describeShift(by: number): string {
+  const levels = Math.abs(by) === 1 ? 'one level' : `${Math.abs(by)} levels`;
+  return by > 0 ? `raised ${levels}` : `lowered ${levels}`;
+}
+
+/**
+ * Assess a mutation's risk from its operation and target
+ */
+export function assessRisk(
+  target: RiskTarget,
+  options: RiskClassifierOptions = {}
+): RiskAssessment {
+  const config = options.config ?? DEFAULT_RISK_CONFIG;
+  const tags = target.tags ?? {};
+  const baseline = operationRisk(target.operation);
+  const reasons = [`${target.operation} is ${baseline} risk on its own`];
+  let index = RISK_LEVELS.indexOf(baseline);
+  let minimum = 0;
+
+  const raiseMinimum = (level: RiskLevel, reason: string) => {
+    reasons.push(reason);
+    minimum = Math.max(minimum, RISK_LEVELS.indexOf(level));
+  };
+
+  const environment = resolveEnvironment(target.resource, tags, config);
+  if (environment) {
+    const settings = (config.environments ?? DEFAULT_RISK_CONFIG.environments)[environment.name];
+    const adjust = Math.trunc(settings?.adjust ?? 0);
+    const where = `Environment ${environment.name} (from ${environment.source})`;
+    if (adjust !== 0) {
+      index += adjust;
+      reasons.push(`${where}: ${describeShift(adjust)}`);
+    } else if (!settings?.minimum) {
+      reasons.push(`${where}: no adjustment`);
+    }
+    if (settings?.minimum) {
+      raiseMinimum(settings.minimum, `${where}: at least ${settings.minimum}`);
+    }
+  }
+
+  const service = options.graph ? findService(options.graph, target.resource, tags) : undefined;
+  const tierMinimum = service?.tier ? TIER_MINIMUM_RISK[service.tier] : undefined;
+  if (service && tierMinimum) {
+    raiseMinimum(
+      tierMinimum,
+      `Service ${service.name} is tier ${service.tier}: at least ${tierMinimum}`
+    );
+  }
+
+  const { currentCount: current, desiredCount: desired } = target;
+  if (current !== undefined && desired !== undefined && desired !== current) {
+    if (desired === 0 && current > 0) {
+      raiseMinimum('high', `Scales from ${current} to 0, taking it offline: at least high`);
+    } else if (desired < current && (current - desired) / current >= 0.5) {
+      index += 1;
+      reasons.push(`Removes half or more of capacity (${current} to ${desired}): raised one level`);
+    } else {
+      reasons.push(
+        `${desired < current ? 'Scales down' : 'Scales up'} from ${current} to ${desired}: no adjustment`
+      );
+    }
+  }
+
+  index = Math.min(RISK_LEVELS.length - 1, Math.max(minimum, index, 0));
+  return { level: RISK_LEVELS[index], reasons };
+}
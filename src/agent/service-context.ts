@@ -399,7 +399,13 @@ export class ServiceContextManager {
 
       // Blast radius
       if (context.blastRadius.totalAffected > 0) {
-        sections.push(`Blast radius: ${context.blastRadius.totalAffected} service(s) affected`);
+        const affected = [
+          ...context.blastRadius.directDependents,
+          ...context.blastRadius.transitiveDependents,
+        ].map((s) => s.name);
+        sections.push(
+          `Blast radius: ${context.blastRadius.totalAffected} service(s) affected (${affected.slice(0, 10).join(', ')})`
+        );
         if (context.blastRadius.criticalServicesAffected.length > 0) {
           sections.push(
             `Critical services at risk: ${context.blastRadius.criticalServicesAffected.map((s) => s.name).join(', ')}`
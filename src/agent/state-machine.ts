@@ -8,6 +8,7 @@
 import { EventEmitter } from 'events';
 import type { Hypothesis, EvidenceStrength, RetrievedKnowledge } from './types';
 import type { CausalQuery } from './causal-query';
+import type { RemediationVerification, RollbackRecord } from './remediation-verifier';
 
 /**
  * Investigation phases
@@ -123,6 +124,10 @@ export interface RemediationStep {
   matchingRunbook?: string;
   result?: unknown;
   error?: string;
+  /** Health before and after the step ran */
+  verification?: RemediationVerification;
+  /** Set when health got worse after the step */
+  rollback?: RollbackRecord;
 }
 
 /**
@@ -150,6 +155,8 @@ export interface InvestigationState {
   hypotheses: InvestigationHypothesis[];
   currentHypothesisId?: string;
   evaluations: EvidenceEvaluation[];
+  /** Evidence for the current hypothesis has been gathered but not evaluated */
+  awaitingEvaluation?: boolean;
   conclusion?: Conclusion;
   remediationPlan?: RemediationPlan;
 
@@ -161,6 +168,25 @@ export interface InvestigationState {
   errors: Array<{ phase: InvestigationPhase; error: string; timestamp: Date }>;
 }
 
+/**
+ * Converts a state type to its JSON form (dates as ISO strings, maps as records)
+ */
+type Jsonified<T> = T extends Date
+  ? string
+  : T extends Map<string, infer V>
+    ? Record<string, Jsonified<V>>
+    : T extends Array<infer U>
+      ? Jsonified<U>[]
+      : T extends object
+        ? { [K in keyof T]: Jsonified<T[K]> }
+        : T;
+
+/**
+ * JSON-safe investigation state, as persisted in checkpoints. Hypothesis
+ * children are omitted and rebuilt from parentId on restore.
+ */
+export type InvestigationSnapshot = Jsonified<InvestigationState>;
+
 /**
  * State machine events
  */
@@ -285,6 +311,7 @@ export class InvestigationStateMachine extends EventEmitter {
     this.state.phase = phase;
     this.state.updatedAt = new Date();
     this.state.phaseHistory.push(transition);
+    this.state.awaitingEvaluation = phase === 'evaluate';
 
     if (phase === 'complete') {
       this.state.completedAt = new Date();
@@ -486,6 +513,7 @@ export class InvestigationStateMachine extends EventEmitter {
     }
 
     this.state.evaluations.push(evaluation);
+    this.state.awaitingEvaluation = false;
     this.state.updatedAt = new Date();
     this.state.iterationCount++;
 
@@ -528,7 +556,9 @@ export class InvestigationStateMachine extends EventEmitter {
    */
   updateRemediationStep(
     stepId: string,
-    update: Partial<Pick<RemediationStep, 'status' | 'result' | 'error'>>
+    update: Partial<
+      Pick<RemediationStep, 'status' | 'result' | 'error' | 'verification' | 'rollback'>
+    >
   ): void {
     const step = this.state.remediationPlan?.steps.find((s) => s.id === stepId);
     if (!step) {
@@ -656,6 +686,75 @@ export class InvestigationStateMachine extends EventEmitter {
     return JSON.stringify(serializable, null, 2);
   }
 
+  /**
+   * Capture the full state in a JSON-safe form
+   */
+  toSnapshot(): InvestigationSnapshot {
+    const serializable = {
+      ...this.state,
+      hypotheses: this.state.hypotheses.map((h) => ({
+        ...h,
+        queryResults: Object.fromEntries(h.queryResults),
+        children: [],
+      })),
+    };
+    return JSON.parse(JSON.stringify(serializable)) as InvestigationSnapshot;
+  }
+
+  /**
+   * Whether evidence was gathered for the current hypothesis but not yet evaluated
+   */
+  hasPendingEvaluation(): boolean {
+    return (
+      this.state.phase === 'evaluate' &&
+      Boolean(this.state.currentHypothesisId) &&
+      Boolean(this.state.awaitingEvaluation)
+    );
+  }
+
+  /**
+   * Rebuild a state machine from a snapshot, continuing in the saved phase
+   */
+  static fromSnapshot(snapshot: InvestigationSnapshot): InvestigationStateMachine {
+    const machine = new InvestigationStateMachine(snapshot.query, {
+      maxIterations: snapshot.maxIterations,
+    });
+    const toDate = (value: string) => new Date(value);
+
+    const hypotheses: InvestigationHypothesis[] = snapshot.hypotheses.map((h) => ({
+      ...h,
+      queryResults: new Map(Object.entries(h.queryResults || {})),
+      children: [],
+      createdAt: toDate(h.createdAt),
+      updatedAt: toDate(h.updatedAt),
+    }));
+    for (const hypothesis of hypotheses) {
+      if (hypothesis.parentId) {
+        hypotheses.find((h) => h.id === hypothesis.parentId)?.children.push(hypothesis);
+      }
+    }
+
+    machine.state = {
+      ...snapshot,
+      startedAt: toDate(snapshot.startedAt),
+      updatedAt: toDate(snapshot.updatedAt),
+      completedAt: snapshot.completedAt ? toDate(snapshot.completedAt) : undefined,
+      triage: snapshot.triage && {
+        ...snapshot.triage,
+        timeWindow: {
+          start: toDate(snapshot.triage.timeWindow.start),
+          end: toDate(snapshot.triage.timeWindow.end),
+        },
+        relatedKnowledge: snapshot.triage.relatedKnowledge as TriageResult['relatedKnowledge'],
+      },
+      hypotheses,
+      phaseHistory: snapshot.phaseHistory.map((t) => ({ ...t, timestamp: toDate(t.timestamp) })),
+      errors: snapshot.errors.map((e) => ({ ...e, timestamp: toDate(e.timestamp) })),
+    };
+
+    return machine;
+  }
+
   /**
    * Generate unique ID
    */
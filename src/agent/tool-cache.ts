@@ -80,6 +80,8 @@ export class LRUToolCache {
   private readonly nonCacheableTools = new Set([
     'skill', // Skills may have side effects
     'aws_cli', // Direct CLI commands may mutate state
+    'aws_mutate', // State-changing AWS operations
+    'kubernetes_mutate', // State-changing Kubernetes operations
     'execute_remediation', // Remediation actions
     'approve_remediation', // Approval actions
     'kubectl_exec', // Container execution
@@ -0,0 +1,266 @@
+/**
+ * Tests for the hash-chained audit log
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AuditLog,
+  GENESIS_HASH,
+  auditToolCall,
+  exportAuditEntries,
+  getAuditContext,
+  hashAuditEntry,
+  recordAuditEvent,
+  redactAuditValue,
+  setAuditLog,
+  withAuditContext,
+  withAuditedExecute,
+  type AuditEntry,
+} from '../audit-log';
+
+describe('AuditLog', () => {
+  let dir: string;
+  let log: AuditLog;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'runbook-audit-'));
+    log = new AuditLog(join(dir, 'audit', 'audit.jsonl'));
+  });
+
+  afterEach(async () => {
+    setAuditLog(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function rewrite(transform: (entries: AuditEntry[]) => AuditEntry[]): Promise<void> {
+    const entries = await log.readAll();
+    await writeFile(
+      log.filePath,
+      transform(entries)
+        .map((entry) => JSON.stringify(entry))
+        .join('\n') + '\n'
+    );
+  }
+
+  it('chains entries from the genesis hash', async () => {
+    const first = await log.record({ type: 'tool_call', action: 'aws_query', outcome: 'success' });
+    const second = await log.record({
+      type: 'mutation',
+      action: 'ecs:UpdateService',
+      resource: 'checkout',
+      outcome: 'success',
+    });
+
+    expect(first.seq).toBe(1);
+    expect(first.prevHash).toBe(GENESIS_HASH);
+    expect(second.seq).toBe(2);
+    expect(second.prevHash).toBe(first.hash);
+
+    const result = await log.verify();
+    expect(result).toEqual({ valid: true, entries: 2, headHash: second.hash });
+  });
+
+  it('keeps the chain intact under concurrent writes', async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        log.record({ type: 'tool_call', action: `tool_${i}`, outcome: 'success' })
+      )
+    );
+    const entries = await log.readAll();
+    expect(entries.map((entry) => entry.seq)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect((await log.verify()).valid).toBe(true);
+  });
+
+  it('continues the chain from an existing file', async () => {
+    const first = await log.record({ type: 'approval', action: 'scale', outcome: 'approved' });
+    const reopened = new AuditLog(log.filePath);
+    const second = await reopened.record({ type: 'mutation', action: 'scale', outcome: 'success' });
+
+    expect(second.seq).toBe(2);
+    expect(second.prevHash).toBe(first.hash);
+  });
+
+  it('drops an entry torn by an interrupted write before appending', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await log.record({ type: 'tool_call', action: 'a', outcome: 'success' });
+    const second = await log.record({ type: 'tool_call', action: 'b', outcome: 'success' });
+    await appendFile(log.filePath, '{"seq":3,"timestamp":"2026-');
+
+    const third = await log.record({ type: 'tool_call', action: 'c', outcome: 'success' });
+    expect(third).toMatchObject({ seq: 3, prevHash: second.hash });
+    expect(await log.verify()).toMatchObject({ valid: true, entries: 3 });
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('discarded an incomplete entry'));
+    errors.mockRestore();
+  });
+
+  it('refuses to chain onto a corrupt last entry', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await log.record({ type: 'tool_call', action: 'a', outcome: 'success' });
+    await appendFile(log.filePath, 'not an entry\n');
+
+    await expect(
+      log.record({ type: 'tool_call', action: 'b', outcome: 'success' })
+    ).rejects.toThrow('chain is broken');
+    setAuditLog(log);
+    expect(await recordAuditEvent({ type: 'tool_call', action: 'b', outcome: 'success' })).toBe(
+      null
+    );
+    expect((await readFile(log.filePath, 'utf-8')).trim().split('\n')).toHaveLength(2);
+    errors.mockRestore();
+  });
+
+  it('detects an edited entry', async () => {
+    await log.record({ type: 'approval', action: 'scale', outcome: 'rejected' });
+    await log.record({ type: 'tool_call', action: 'aws_query', outcome: 'success' });
+    await rewrite((entries) => [{ ...entries[0], outcome: 'approved' }, entries[1]]);
+
+    const result = await log.verify();
+    expect(result.valid).toBe(false);
+    expect(result.brokenAt).toMatchObject({ line: 1, seq: 1 });
+    expect(result.brokenAt?.reason).toContain('hash does not match');
+  });
+
+  it('detects a removed entry', async () => {
+    for (const action of ['a', 'b', 'c']) {
+      await log.record({ type: 'tool_call', action, outcome: 'success' });
+    }
+    await rewrite((entries) => [entries[0], entries[2]]);
+
+    const result = await log.verify();
+    expect(result.valid).toBe(false);
+    expect(result.entries).toBe(1);
+    expect(result.brokenAt).toMatchObject({ line: 2, seq: 3 });
+  });
+
+  it('detects a re-hashed entry whose successor still points at the original', async () => {
+    await log.record({ type: 'approval', action: 'scale', outcome: 'rejected' });
+    await log.record({ type: 'mutation', action: 'scale', outcome: 'success' });
+    await rewrite((entries) => {
+      const forged = { ...entries[0], outcome: 'approved' as const };
+      return [{ ...forged, hash: hashAuditEntry(forged) }, entries[1]];
+    });
+
+    const result = await log.verify();
+    expect(result.brokenAt).toMatchObject({ line: 2, seq: 2 });
+    expect(result.brokenAt?.reason).toContain('previous hash');
+  });
+
+  it('filters entries and finds them by sequence or hash prefix', async () => {
+    await log.record({
+      type: 'tool_call',
+      action: 'aws_query',
+      outcome: 'success',
+      investigationId: 'inv-1',
+      user: 'alice',
+    });
+    const mutation = await log.record({
+      type: 'mutation',
+      action: 'scale',
+      outcome: 'success',
+      investigationId: 'inv-2',
+      user: 'bob',
+    });
+
+    expect((await log.query({ type: 'mutation' })).map((e) => e.seq)).toEqual([2]);
+    expect((await log.query({ investigationId: 'inv-1' })).map((e) => e.seq)).toEqual([1]);
+    expect((await log.query({ user: 'bob' })).map((e) => e.seq)).toEqual([2]);
+    expect((await log.query({ limit: 1 })).map((e) => e.seq)).toEqual([2]);
+    expect(await log.query({ since: new Date(Date.now() + 60_000) })).toEqual([]);
+
+    expect((await log.find('2'))?.hash).toBe(mutation.hash);
+    expect((await log.find(mutation.hash.slice(0, 10)))?.seq).toBe(2);
+    expect(await log.find('abc')).toBeNull();
+  });
+
+  it('takes the investigation and user from the audit context', async () => {
+    setAuditLog(log);
+    await withAuditContext({ investigationId: 'inv-9', user: 'webhook:pagerduty' }, async () => {
+      await withAuditContext({ investigationId: 'inv-10' }, async () => {
+        expect(getAuditContext()).toEqual({ investigationId: 'inv-10', user: 'webhook:pagerduty' });
+        await recordAuditEvent({ type: 'tool_call', action: 'search', outcome: 'success' });
+      });
+    });
+
+    const [entry] = await log.readAll();
+    expect(entry.investigationId).toBe('inv-10');
+    expect(entry.user).toBe('webhook:pagerduty');
+  });
+
+  it('redacts secrets and truncates long values', async () => {
+    const entry = await log.record({
+      type: 'tool_call',
+      action: 'http',
+      outcome: 'success',
+      args: { headers: { Authorization: 'Bearer abc' }, apiKey: 'k', body: 'x'.repeat(3000) },
+    });
+
+    const args = entry.args as { headers: Record<string, string>; apiKey: string; body: string };
+    expect(args.headers.Authorization).toBe('[REDACTED]');
+    expect(args.apiKey).toBe('[REDACTED]');
+    expect(args.body.length).toBeLessThan(2100);
+    expect(await readFile(log.filePath, 'utf-8')).not.toContain('Bearer abc');
+    expect(redactAuditValue({ token: undefined })).toEqual({ token: undefined });
+  });
+
+  it('records tool calls with their outcome and rethrows errors', async () => {
+    setAuditLog(log);
+    await auditToolCall('aws_query', { service: 'ecs' }, async () => ({ services: [] }));
+    await auditToolCall('datadog', {}, async () => ({ error: 'Datadog not configured' }));
+    await expect(
+      auditToolCall('kubernetes_query', {}, async () => {
+        throw new Error('kubectl missing');
+      })
+    ).rejects.toThrow('kubectl missing');
+
+    const entries = await log.readAll();
+    expect(entries.map((e) => [e.action, e.outcome])).toEqual([
+      ['aws_query', 'success'],
+      ['datadog', 'failure'],
+      ['kubernetes_query', 'failure'],
+    ]);
+    expect(entries[2].details?.error).toBe('kubectl missing');
+  });
+
+  it('wraps a tool so calls are attributed to an investigation', async () => {
+    setAuditLog(log);
+    const tool = withAuditedExecute(
+      {
+        name: 'search_knowledge',
+        execute: async (_args: Record<string, unknown>) => ({ results: [] }),
+      },
+      { investigationId: 'session-1' }
+    );
+    await tool.execute({ query: 'checkout latency' });
+
+    const [entry] = await log.readAll();
+    expect(entry).toMatchObject({
+      type: 'tool_call',
+      action: 'search_knowledge',
+      investigationId: 'session-1',
+      args: { query: 'checkout latency' },
+    });
+  });
+
+  it('exports CSV with quoted fields and JSON', async () => {
+    await log.record({
+      type: 'approval',
+      action: 'scale',
+      resource: 'checkout, prod',
+      outcome: 'approved',
+      details: { reason: 'said "yes"' },
+    });
+    const entries = await log.readAll();
+
+    const csv = exportAuditEntries(entries, 'csv').split('\n');
+    expect(csv[0]).toBe(
+      'seq,timestamp,type,investigationId,user,action,resource,outcome,args,details,prevHash,hash'
+    );
+    expect(csv[1]).toContain('"checkout, prod"');
+    expect(csv[1]).toContain('"{""reason"":""said \\""yes\\""""}"');
+
+    expect(JSON.parse(exportAuditEntries(entries, 'json'))).toEqual(entries);
+  });
+});
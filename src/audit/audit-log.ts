@@ -0,0 +1,629 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of what the agent did: tool calls, mutations, approvals,
+ * rollbacks and skill steps, with the investigation, user and arguments.
+ * Every entry carries the hash of the previous one, so editing, removing or
+ * reordering entries breaks the chain and is reported by `verify`.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { appendFile, mkdir, open, readFile, stat, unlink, type FileHandle } from 'fs/promises';
+import { dirname, join } from 'path';
+
+export const AUDIT_EVENT_TYPES = [
+  'tool_call',
+  'mutation',
+  'approval',
+  'rollback',
+  'skill_step',
+  'break_glass',
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export type AuditOutcome = 'success' | 'failure' | 'approved' | 'rejected' | 'skipped';
+
+/**
+ * An event as reported by the code that performed the action
+ */
+export interface AuditEvent {
+  type: AuditEventType;
+  /** Tool name, mutation operation or skill step */
+  action: string;
+  resource?: string;
+  args?: Record<string, unknown>;
+  outcome: AuditOutcome;
+  details?: Record<string, unknown>;
+  /** Defaults to the active audit context */
+  investigationId?: string;
+  /** Defaults to the active audit context, then the local OS user */
+  user?: string;
+}
+
+/**
+ * An event as stored in the log
+ */
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  timestamp: string;
+  user: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  type?: AuditEventType;
+  investigationId?: string;
+  user?: string;
+  since?: Date;
+  until?: Date;
+  /** Most recent entries only */
+  limit?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  /** Hash of the last entry; record it elsewhere to detect truncation */
+  headHash: string;
+  /** First entry that does not fit the chain */
+  brokenAt?: { line: number; seq?: number; reason: string };
+}
+
+export interface AuditContext {
+  investigationId?: string;
+  user?: string;
+  /** Incident being worked, for protection rules that require one */
+  incidentId?: string;
+  /** Skill whose step is running */
+  skillId?: string;
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_KEY =
+  /token|secret|password|passwd|api[-_]?key|authorization|credential|private[-_]?key/i;
+const MAX_STRING_LENGTH = 2000;
+const MAX_DEPTH = 6;
+const LOCK_TIMEOUT_MS = 10_000;
+const STALE_LOCK_MS = 30_000;
+const NEWLINE = 0x0a;
+
+/**
+ * Local OS user, used when no other identity is known
+ */
+export function getLocalUser(): string {
+  return process.env.USER || process.env.USERNAME || 'unknown';
+}
+
+const contextStorage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run a function with an investigation ID and user attached to every audit
+ * event it records. Fields not given are inherited from the enclosing context.
+ */
+export function withAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...stripUndefined(context) }, fn);
+}
+
+export function getAuditContext(): AuditContext {
+  return contextStorage.getStore() || {};
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Redact secrets and truncate large values before they are written
+ */
+export function redactAuditValue(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactAuditValue(item, depth + 1));
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) && item !== undefined && item !== null
+        ? REDACTED
+        : redactAuditValue(item, depth + 1),
+    ])
+  );
+}
+
+/**
+ * JSON with object keys sorted, so the hash does not depend on key order
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+}
+
+/**
+ * Hash an entry, covering every field except the hash itself
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'> | AuditEntry): string {
+  const content: Record<string, unknown> = { ...entry };
+  delete content.hash;
+  return createHash('sha256').update(canonicalJson(content)).digest('hex');
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.type && entry.type !== query.type) {
+    return false;
+  }
+  if (query.investigationId && entry.investigationId !== query.investigationId) {
+    return false;
+  }
+  if (query.user && entry.user !== query.user) {
+    return false;
+  }
+  const time = new Date(entry.timestamp).getTime();
+  if (query.since && time < query.since.getTime()) {
+    return false;
+  }
+  if (query.until && time > query.until.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Hash-chained JSONL audit log. Appends are serialized within the process
+ * and guarded by a lock file across processes (CLI, webhook server, MCP).
+ */
+export class AuditLog {
+  readonly filePath: string;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = join(process.cwd(), '.runbook', 'audit', 'audit.jsonl')) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Append an event, linking it to the current head of the chain
+   */
+  record(event: AuditEvent): Promise<AuditEntry> {
+    const context = getAuditContext();
+    const write = this.writes.then(() => this.withLock(() => this.append(event, context)));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Read every entry in order. Lines that are not valid JSON are skipped;
+   * `verify` reports them.
+   */
+  async readAll(): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    for (const line of await this.readLines()) {
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // Reported by verify()
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Entries matching the filters, oldest first
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const entries = (await this.readAll()).filter((entry) => matchesQuery(entry, query));
+    return query.limit !== undefined && query.limit > 0 ? entries.slice(-query.limit) : entries;
+  }
+
+  /**
+   * Find an entry by sequence number or hash prefix
+   */
+  async find(reference: string): Promise<AuditEntry | null> {
+    const ref = reference.trim().toLowerCase();
+    const entries = await this.readAll();
+    if (/^\d+$/.test(ref)) {
+      const seq = Number(ref);
+      const bySeq = entries.find((entry) => entry.seq === seq);
+      if (bySeq) {
+        return bySeq;
+      }
+    }
+    if (ref.length < 6) {
+      return null;
+    }
+    const matches = entries.filter((entry) => entry.hash?.startsWith(ref));
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /**
+   * Walk the chain and report the first entry that was altered, removed,
+   * inserted or reordered
+   */
+  async verify(): Promise<AuditVerification> {
+    const lines = await this.readLines();
+    let prevHash = GENESIS_HASH;
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = index + 1;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[index]) as AuditEntry;
+      } catch {
+        return {
+          valid: false,
+          entries: index,
+          headHash: prevHash,
+          brokenAt: { line, reason: 'not valid JSON' },
+        };
+      }
+
+      const broken = (reason: string): AuditVerification => ({
+        valid: false,
+        entries: index,
+        headHash: prevHash,
+        brokenAt: { line, seq: entry.seq, reason },
+      });
+
+      if (entry.seq !== line) {
+        return broken(`expected sequence ${line}, found ${entry.seq}`);
+      }
+      if (entry.prevHash !== prevHash) {
+        return broken('previous hash does not match the preceding entry');
+      }
+      if (hashAuditEntry(entry) !== entry.hash) {
+        return broken('entry hash does not match its contents');
+      }
+      prevHash = entry.hash;
+    }
+
+    return { valid: true, entries: lines.length, headHash: prevHash };
+  }
+
+  private async readLines(): Promise<string[]> {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    const content = await readFile(this.filePath, 'utf-8');
+    return content.split('\n').filter((line) => line.trim().length > 0);
+  }
+
+  private async append(event: AuditEvent, context: AuditContext): Promise<AuditEntry> {
+    const head = await this.readHead();
+    const investigationId = event.investigationId ?? context.investigationId;
+
+    const entry: Omit<AuditEntry, 'hash'> = {
+      seq: (head?.seq ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      type: event.type,
+      ...(investigationId ? { investigationId } : {}),
+      user: event.user ?? context.user ?? getLocalUser(),
+      action: event.action,
+      ...(event.resource ? { resource: event.resource } : {}),
+      ...(event.args && { args: redactAuditValue(event.args) as Record<string, unknown> }),
+      outcome: event.outcome,
+      ...(event.details && { details: redactAuditValue(event.details) as Record<string, unknown> }),
+      prevHash: head?.hash ?? GENESIS_HASH,
+    };
+    const stored = { ...entry, hash: hashAuditEntry(entry) } as AuditEntry;
+
+    await appendFile(this.filePath, JSON.stringify(stored) + '\n', 'utf-8');
+    return stored;
+  }
+
+  /**
+   * Read the last entry without loading the whole log. A last line without
+   * its newline is an append that never finished, e.g. the process died
+   * mid-write; it is cut off so the next entry starts on a line of its own.
+   * A complete last line that is not an entry means the log was damaged, and
+   * chaining onto it would hide that, so appends fail until it is repaired.
+   */
+  private async readHead(): Promise<AuditEntry | null> {
+    if (!existsSync(this.filePath)) {
+      return null;
+    }
+    const handle = await open(this.filePath, 'r+');
+    try {
+      const size = await this.dropTornLine(handle);
+      let window = Math.min(size, 16 * 1024);
+      while (window > 0) {
+        const buffer = Buffer.alloc(window);
+        await handle.read(buffer, 0, window, size - window);
+        const lines = buffer.toString('utf-8').split('\n');
+        const complete = window === size ? lines : lines.slice(1);
+        const last = complete.filter((line) => line.trim().length > 0).pop();
+        if (last) {
+          return parseHead(last, this.filePath);
+        }
+        if (window === size) {
+          return null;
+        }
+        window = Math.min(size, window * 4);
+      }
+      return null;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Truncate an unterminated last line; returns the resulting size
+   */
+  private async dropTornLine(handle: FileHandle): Promise<number> {
+    const { size } = await handle.stat();
+    if (size === 0) {
+      return size;
+    }
+    const last = Buffer.alloc(1);
+    await handle.read(last, 0, 1, size - 1);
+    if (last[0] === NEWLINE) {
+      return size;
+    }
+
+    let end = size;
+    while (end > 0) {
+      const window = Math.min(end, 16 * 1024);
+      const buffer = Buffer.alloc(window);
+      await handle.read(buffer, 0, window, end - window);
+      const newline = buffer.lastIndexOf(NEWLINE);
+      if (newline >= 0) {
+        end = end - window + newline + 1;
+        break;
+      }
+      end -= window;
+    }
+    await handle.truncate(end);
+    console.error(
+      `Audit log ${this.filePath}: discarded an incomplete entry (${size - end} bytes) left by an interrupted write`
+    );
+    return end;
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        await (await open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // A process that died while appending leaves its lock behind
+      const lockAge = await stat(lockPath).then(
+        (info) => Date.now() - info.mtimeMs,
+        () => 0
+      );
+      if (lockAge > STALE_LOCK_MS) {
+        await unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for audit log lock: ${lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await unlink(lockPath).catch(() => undefined);
+    }
+  }
+}
+
+function parseHead(line: string, filePath: string): AuditEntry {
+  let entry: AuditEntry | undefined;
+  try {
+    entry = JSON.parse(line) as AuditEntry;
+  } catch {
+    // Reported below
+  }
+  if (!entry || typeof entry.hash !== 'string' || typeof entry.seq !== 'number') {
+    throw new Error(
+      `Audit log ${filePath} ends in a corrupt entry, so the chain is broken; run "runbook audit verify" and repair the log before recording more events`
+    );
+  }
+  return entry;
+}
+
+let defaultLog: AuditLog | null = null;
+
+/**
+ * The log under `.runbook/audit` in the working directory
+ */
+export function getAuditLog(): AuditLog {
+  if (!defaultLog) {
+    defaultLog = new AuditLog();
+  }
+  return defaultLog;
+}
+
+/**
+ * Replace the default log (tests, alternate locations). Pass null to reset.
+ */
+export function setAuditLog(log: AuditLog | null): void {
+  defaultLog = log;
+}
+
+/**
+ * Record an event in the default log. Auditing never fails the action being
+ * audited; write errors are reported on stderr.
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<AuditEntry | null> {
+  try {
+    return await getAuditLog().record(event);
+  } catch (error) {
+    console.error(
+      `Failed to write audit log entry: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
+  }
+}
+
+/**
+ * Run a tool and record the call with its outcome and duration. Errors are
+ * rethrown after they are recorded.
+ */
+export async function auditToolCall<T>(
+  toolName: string,
+  args: Record<string, unknown>,
+  run: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    const error =
+      result && typeof result === 'object' && 'error' in result
+        ? (result as { error?: unknown }).error
+        : undefined;
+    await recordAuditEvent({
+      type: 'tool_call',
+      action: toolName,
+      args,
+      outcome: error ? 'failure' : 'success',
+      details: { durationMs: Date.now() - startedAt, ...(error ? { error: String(error) } : {}) },
+    });
+    return result;
+  } catch (error) {
+    await recordAuditEvent({
+      type: 'tool_call',
+      action: toolName,
+      args,
+      outcome: 'failure',
+      details: {
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Wrap a tool so each call is audited under the given context
+ */
+export function withAuditedExecute<
+  T extends { name: string; execute: (args: Record<string, unknown>) => Promise<unknown> },
+>(tool: T, context: AuditContext = {}): T {
+  return {
+    ...tool,
+    execute: (args: Record<string, unknown>) =>
+      withAuditContext(context, () => auditToolCall(tool.name, args, () => tool.execute(args))),
+  };
+}
+
+const CSV_COLUMNS = [
+  'seq',
+  'timestamp',
+  'type',
+  'investigationId',
+  'user',
+  'action',
+  'resource',
+  'outcome',
+  'args',
+  'details',
+  'prevHash',
+  'hash',
+] as const;
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export entries as CSV or as a JSON array
+ */
+export function exportAuditEntries(entries: AuditEntry[], format: 'csv' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, null, 2);
+  }
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) => csvField(entry[column])).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Format entries as a markdown table
+ */
+export function formatAuditList(entries: AuditEntry[]): string {
+  if (entries.length === 0) {
+    return 'No audit entries found.';
+  }
+
+  const lines = [
+    '| # | Time | Type | Action | Resource | Outcome | User | Investigation |',
+    '|---|------|------|--------|----------|---------|------|---------------|',
+  ];
+  for (const entry of entries) {
+    lines.push(
+      `| ${entry.seq} | ${new Date(entry.timestamp).toLocaleString()} | ${entry.type} | ${entry.action} | ${entry.resource || '-'} | ${entry.outcome} | ${entry.user} | ${entry.investigationId || '-'} |`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a single entry for display
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+  const lines = [
+    `# Audit Entry ${entry.seq}`,
+    '',
+    `**Type:** ${entry.type}`,
+    `**Action:** ${entry.action}`,
+  ];
+  if (entry.resource) {
+    lines.push(`**Resource:** ${entry.resource}`);
+  }
+  lines.push(
+    `**Outcome:** ${entry.outcome}`,
+    `**User:** ${entry.user}`,
+    `**Investigation:** ${entry.investigationId || '-'}`,
+    `**Time:** ${new Date(entry.timestamp).toLocaleString()}`,
+    `**Hash:** \`${entry.hash}\``,
+    `**Previous:** \`${entry.prevHash}\``
+  );
+  if (entry.args && Object.keys(entry.args).length > 0) {
+    lines.push('', '## Arguments', '', '```json', JSON.stringify(entry.args, null, 2), '```');
+  }
+  if (entry.details && Object.keys(entry.details).length > 0) {
+    lines.push('', '## Details', '', '```json', JSON.stringify(entry.details, null, 2), '```');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,29 @@
+/**
+ * Audit Module Exports
+ */
+
+export {
+  AuditLog,
+  AUDIT_EVENT_TYPES,
+  GENESIS_HASH,
+  auditToolCall,
+  exportAuditEntries,
+  formatAuditEntry,
+  formatAuditList,
+  getAuditContext,
+  getAuditLog,
+  getLocalUser,
+  hashAuditEntry,
+  recordAuditEvent,
+  redactAuditValue,
+  setAuditLog,
+  withAuditContext,
+  withAuditedExecute,
+  type AuditContext,
+  type AuditEntry,
+  type AuditEvent,
+  type AuditEventType,
+  type AuditOutcome,
+  type AuditQuery,
+  type AuditVerification,
+} from './audit-log';
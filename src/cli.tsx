@@ -19,6 +19,23 @@ import { SetupWizard } from './cli/setup-wizard';
 import { ChatInterface } from './cli/chat';
 import { MarkdownText } from './cli/components/markdown';
 import { createRetriever } from './knowledge/retriever';
+import { sourceKey } from './knowledge/sources';
+import { getEmbedder } from './knowledge/indexer/embedder';
+import {
+  createConfiguredVectorStore,
+  reembedVectorStore,
+  type VectorStore,
+} from './knowledge/store/vector-store';
+import { createServiceGraphStore, loadServiceGraph } from './knowledge/store/graph-sqlite';
+import {
+  exportServicesYaml,
+  importArchitectureDocs,
+  importServicesYaml,
+  resolveGraphService,
+} from './knowledge/store/graph-import';
+import { ServiceGraph } from './knowledge/store/graph-store';
+import { discoverServiceDependencies, mergeDiscoveredDependencies } from './knowledge/discovery';
+import { ServiceContextManager } from './agent/service-context';
 import type { AgentEvent } from './agent/types';
 import { skillRegistry } from './skills/registry';
 import { getRuntimeTools } from './cli/runtime-tools';
@@ -27,9 +44,29 @@ import { runLearningLoop, type LearningEvent } from './learning/loop';
 import {
   createOrchestrator,
   type InvestigationEvent,
+  type InvestigationResult,
   type RemediationContext,
 } from './agent/investigation-orchestrator';
 import type { RemediationStep } from './agent/state-machine';
+import type { RemediationVerification } from './agent/remediation-verifier';
+import {
+  PlanRecorder,
+  applyExecutionPlan,
+  createExecutionPlan,
+  formatExecutionPlan,
+  loadExecutionPlan,
+  saveExecutionPlan,
+  withPlanRecorder,
+  type PlannedAction,
+} from './agent/execution-plan';
+import { setBreakGlass } from './agent/protection-rules';
+import {
+  INCIDENT_SOURCES,
+  loadTriageInput,
+  type IncidentSource,
+  type TriageInput,
+} from './agent/alert-sources';
+import type { AlertWebhookOptions } from './webhooks/alert-webhook';
 import {
   getClaudeHookStatus,
   handleClaudeHookStdin,
@@ -39,8 +76,25 @@ import {
 import { createClaudeSessionStorageFromConfig } from './integrations/claude-session-store';
 import { runLearningLoopFromClaudeSession } from './learning/claude-session-ingestion';
 import { handleHookStdinWithResponse } from './integrations/hook-handlers';
-import { createMCPServer, runStdioServer } from './mcp';
-import { createCheckpointStore, formatCheckpoint, formatCheckpointList } from './session';
+import { createMCPServer, runHttpServer, runStdioServer } from './mcp';
+import {
+  createCheckpointStore,
+  diffCheckpoints,
+  forkCheckpoint,
+  formatCheckpoint,
+  formatCheckpointDiff,
+  formatCheckpointList,
+  type InvestigationCheckpoint,
+} from './session';
+import {
+  AUDIT_EVENT_TYPES,
+  exportAuditEntries,
+  formatAuditEntry,
+  formatAuditList,
+  getAuditLog,
+  type AuditEventType,
+  type AuditQuery,
+} from './audit';
 import {
   buildClaimFromClaudeHookPayload,
   buildSessionReferenceFromOptions,
@@ -579,6 +633,91 @@ async function approveRemediationStepInteractive(step: RemediationStep): Promise
   return promptYesNo('Execute this remediation step?', false);
 }
 
+async function approveRollbackInteractive(
+  step: RemediationStep,
+  verification: RemediationVerification
+): Promise<boolean> {
+  console.log();
+  console.log(chalk.red('Health got worse after remediation'));
+  console.log(chalk.gray('─'.repeat(40)));
+  console.log(chalk.cyan(`Step: ${step.action}`));
+  console.log(chalk.gray(verification.summary));
+  console.log(chalk.gray(`Rollback: ${step.rollbackCommand}`));
+
+  return promptYesNo('Roll back this step?', true);
+}
+
+/**
+ * Save a dry-run plan and print it for review
+ */
+async function writeExecutionPlan(
+  source: string,
+  actions: PlannedAction[],
+  command: string,
+  planOut?: string
+): Promise<void> {
+  const plan = createExecutionPlan(source, actions);
+  const path = await saveExecutionPlan(plan, planOut);
+
+  console.log();
+  printMarkdownToConsole(formatExecutionPlan(plan));
+  console.log();
+  console.log(chalk.green(`Plan saved: ${path}`));
+  if (actions.length > 0) {
+    console.log(chalk.gray(`Apply with: runbook ${command} --plan ${path}`));
+  }
+}
+
+/**
+ * Apply a saved plan. Each change still goes through the approval policy.
+ */
+async function applyPlanFile(filePath: string): Promise<void> {
+  let plan;
+  try {
+    plan = await loadExecutionPlan(filePath);
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+
+  printMarkdownToConsole(formatExecutionPlan(plan));
+  if (plan.actions.length === 0) {
+    return;
+  }
+
+  const config = await loadConfig();
+  const runtimeTools = await getRuntimeTools(config, toolRegistry.getAll());
+  const toolsByName = new Map(runtimeTools.map((tool) => [tool.name, tool]));
+
+  console.log();
+  console.log(chalk.cyan(`Applying ${plan.actions.length} change(s)...`));
+  const results = await applyExecutionPlan(
+    plan,
+    async (toolName, args) => {
+      const tool = toolsByName.get(toolName);
+      if (!tool) {
+        throw new Error(`Tool not available in runtime: ${toolName}`);
+      }
+      return tool.execute(args);
+    },
+    ({ action, status, error }) => {
+      const color = status === 'applied' ? chalk.green : chalk.red;
+      const symbol = status === 'applied' ? '✓' : '✗';
+      console.log(color(`  ${symbol} ${action.description} [${status}]`));
+      if (error) {
+        console.log(chalk.gray(`    ${error}`));
+      }
+    }
+  );
+
+  const applied = results.filter((result) => result.status === 'applied').length;
+  if (applied < plan.actions.length) {
+    console.log(chalk.yellow(`Stopped after ${applied} of ${plan.actions.length} change(s).`));
+    process.exit(1);
+  }
+  console.log(chalk.green('Plan applied.'));
+}
+
 /**
  * Structured investigation mode for incident command.
  * Uses the dedicated investigation state machine + orchestrator pipeline.
@@ -588,12 +727,27 @@ async function runStructuredInvestigation(
   verbose: boolean,
   autoRemediate: boolean,
   learn: boolean,
-  applyRunbookUpdates: boolean
+  applyRunbookUpdates: boolean,
+  resumeFrom?: InvestigationCheckpoint,
+  triageInput?: TriageInput,
+  dryRun?: { planOut?: string }
 ) {
   console.log(chalk.cyan('Runbook Investigation'));
   console.log(chalk.gray('─'.repeat(40)));
   console.log(`Incident: ${incidentId}`);
-  if (autoRemediate) {
+  if (triageInput) {
+    console.log(chalk.gray(`Source: ${triageInput.source} — ${triageInput.title}`));
+  }
+  if (resumeFrom) {
+    console.log(
+      chalk.yellow(
+        `Resuming ${resumeFrom.investigationId} from checkpoint ${resumeFrom.id} (${resumeFrom.phase})`
+      )
+    );
+  }
+  if (dryRun) {
+    console.log(chalk.yellow('Dry run: remediation is planned, no changes will be made.'));
+  } else if (autoRemediate) {
     console.log(
       chalk.yellow('Auto-remediation enabled (steps execute via skills when available).')
     );
@@ -617,7 +771,8 @@ async function runStructuredInvestigation(
   const runtimeSkills = skillRegistry.getAll().map((skill) => skill.id);
   const runtimeTools = await getRuntimeTools(config, toolRegistry.getAll());
   const toolsByName = new Map(runtimeTools.map((tool) => [tool.name, tool]));
-  const shouldPromptForRemediation = !autoRemediate && process.stdin.isTTY && process.stdout.isTTY;
+  const shouldPromptForRemediation =
+    !autoRemediate && !dryRun && process.stdin.isTTY && process.stdout.isTTY;
   const learningEvents: LearningEvent[] = [];
 
   const recordLearningEvent = (
@@ -661,9 +816,13 @@ async function runStructuredInvestigation(
       incidentId,
       maxIterations: config.agent.maxIterations,
       autoApproveRemediation: autoRemediate,
+      dryRun: Boolean(dryRun),
       approveRemediationStep: shouldPromptForRemediation
         ? (step: RemediationStep) => approveRemediationStepInteractive(step)
         : undefined,
+      verification: config.safety.verification,
+      approveRollback:
+        process.stdin.isTTY && process.stdout.isTTY ? approveRollbackInteractive : undefined,
       availableTools: runtimeTools.map((tool) => tool.name),
       availableSkills: runtimeSkills,
       fetchRelevantRunbooks: async (context: RemediationContext) => {
@@ -687,11 +846,23 @@ async function runStructuredInvestigation(
           retriever.close();
         }
       },
+      fetchServiceContext: async (services: string[]) => {
+        const graph = loadServiceGraph();
+        if (graph.getAllServices().length === 0) {
+          return '';
+        }
+        const serviceContext = new ServiceContextManager(graph);
+        await serviceContext.getContextsForServices(services);
+        return serviceContext.buildServiceContextSection();
+      },
+      triageInput,
+      checkpointStore: createCheckpointStore(),
     }
   );
 
   let phaseCounter = 0;
   let queryCounter = 0;
+  let investigationId = resumeFrom?.investigationId;
 
   orchestrator.on((event: InvestigationEvent) => {
     switch (event.type) {
@@ -843,6 +1014,15 @@ async function runStructuredInvestigation(
         recordLearningEvent('error', `${event.phase}: ${event.error.message}`, event.phase);
         console.log(chalk.red(`✗ ${event.phase}: ${event.error.message}`));
         break;
+      case 'checkpoint_saved':
+        if (!investigationId) {
+          console.log(chalk.gray(`  Investigation ID: ${event.investigationId}`));
+        }
+        investigationId = event.investigationId;
+        if (verbose) {
+          console.log(chalk.gray(`  Checkpoint ${event.checkpointId} saved (${event.phase})`));
+        }
+        break;
       case 'remediation_step':
         {
           recordLearningEvent(
@@ -874,11 +1054,53 @@ async function runStructuredInvestigation(
           }
         }
         break;
+      case 'remediation_verified': {
+        const { outcome, summary } = event.verification;
+        recordLearningEvent('remediation_step', `${event.step.action} [${outcome}]`, 'remediate', {
+          verification: summary,
+        });
+        const color =
+          outcome === 'degraded' ? chalk.red : outcome === 'improved' ? chalk.green : chalk.gray;
+        console.log(color(`    Verification: ${summary}`));
+        break;
+      }
+      case 'remediation_rollback': {
+        const { status, error } = event.rollback;
+        recordLearningEvent(
+          'remediation_step',
+          `rollback ${event.step.action} [${status}]`,
+          'remediate'
+        );
+        const color = status === 'executed' ? chalk.yellow : chalk.red;
+        console.log(color(`    Rollback ${status}${error ? `: ${error}` : ''}`));
+        break;
+      }
     }
   });
 
-  const query = `Investigate incident ${incidentId}. Identify the root cause with supporting evidence.`;
-  const result = await orchestrator.investigate(query);
+  const query =
+    resumeFrom?.query ||
+    (triageInput
+      ? `Investigate ${triageInput.source} alert ${incidentId}: ${triageInput.title}. Identify the root cause with supporting evidence.`
+      : `Investigate incident ${incidentId}. Identify the root cause with supporting evidence.`);
+  const recorder = dryRun ? new PlanRecorder() : null;
+  const runInvestigation = () =>
+    resumeFrom ? orchestrator.resume(resumeFrom) : orchestrator.investigate(query);
+  let result: InvestigationResult;
+  try {
+    result = recorder
+      ? await withPlanRecorder(recorder, runInvestigation)
+      : await runInvestigation();
+  } catch (error) {
+    if (investigationId) {
+      console.log(
+        chalk.yellow(
+          `Progress was checkpointed. Resume with: runbook investigate --resume ${investigationId}`
+        )
+      );
+    }
+    throw error;
+  }
 
   console.log();
   console.log(chalk.green('Investigation Complete'));
@@ -930,6 +1152,15 @@ async function runStructuredInvestigation(
     });
   }
 
+  if (recorder) {
+    await writeExecutionPlan(
+      `investigate ${incidentId}`,
+      recorder.actions,
+      'investigate',
+      dryRun?.planOut
+    );
+  }
+
   if (verbose) {
     console.log();
     console.log(chalk.cyan('Detailed Summary:'));
@@ -1098,7 +1329,25 @@ async function buildClaimFromCommandOptions(
 program
   .name('runbook')
   .description('AI-powered SRE assistant for incident investigation and cloud operations')
-  .version(VERSION);
+  .version(VERSION)
+  .option(
+    '--break-glass <reason>',
+    'Override protection rules (change freezes, weekend rules) for this run; recorded in the audit log'
+  )
+  .hook('preAction', () => {
+    const reason = (program.opts().breakGlass as string | undefined)?.trim();
+    if (reason === undefined) {
+      return;
+    }
+    if (!reason) {
+      console.error(chalk.red('--break-glass requires a reason'));
+      process.exit(1);
+    }
+    setBreakGlass({ reason });
+    console.log(
+      chalk.red(`Break-glass enabled: ${reason}. Overridden protection rules are audited.`)
+    );
+  });
 
 // Ask command - general queries
 program
@@ -1131,10 +1380,13 @@ program
 
 // Investigate command - incident investigation
 program
-  .command('investigate <incident-id>')
-  .description('Investigate a PagerDuty/OpsGenie incident')
+  .command('investigate [incident-id]')
+  .description('Investigate an incident or alert (PagerDuty, OpsGenie, Alertmanager, Datadog)')
   .option('-v, --verbose', 'Show detailed output')
   .option('--auto-remediate', 'Attempt to execute remediation steps through runtime skills')
+  .option('--dry-run', 'Plan remediation without making changes and write the plan to a file')
+  .option('--plan-out <file>', 'Where to write the dry-run plan (default .runbook/plans/)')
+  .option('--plan <file>', 'Apply a plan written by --dry-run')
   .option(
     '--learn',
     'Generate postmortem draft + runbook knowledge suggestions from investigation output'
@@ -1143,28 +1395,110 @@ program
     '--apply-runbook-updates',
     'Apply generated runbook updates/new runbooks into .runbook/runbooks (requires --learn)'
   )
+  .option(
+    '--source <source>',
+    `Where the incident comes from: ${INCIDENT_SOURCES.join('|')} (for file, pass a JSON alert payload path)`
+  )
+  .option(
+    '--resume <id>',
+    'Resume from a saved checkpoint (investigation ID for the latest, or checkpoint ID)'
+  )
   .action(
     async (
-      incidentId: string,
+      incidentArg: string | undefined,
       options: {
         verbose?: boolean;
         autoRemediate?: boolean;
         learn?: boolean;
         applyRunbookUpdates?: boolean;
+        resume?: string;
+        source?: string;
+        dryRun?: boolean;
+        planOut?: string;
+        plan?: string;
       }
     ) => {
+      if (options.plan) {
+        await applyPlanFile(options.plan);
+        return;
+      }
+
       if (options.applyRunbookUpdates && !options.learn) {
         console.error(chalk.red('--apply-runbook-updates requires --learn'));
         process.exit(1);
       }
 
+      let resumeFrom: InvestigationCheckpoint | undefined;
+      if (options.resume) {
+        try {
+          resumeFrom = (await createCheckpointStore().resolve(options.resume)) || undefined;
+        } catch (error) {
+          console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+          process.exit(1);
+        }
+        if (!resumeFrom) {
+          console.error(chalk.red(`No checkpoint found for: ${options.resume}`));
+          console.log(chalk.gray('Run `runbook checkpoint list` to see saved investigations.'));
+          process.exit(1);
+        }
+        if (!resumeFrom.state) {
+          console.error(
+            chalk.red(`Checkpoint ${resumeFrom.id} has no saved investigation state to resume`)
+          );
+          process.exit(1);
+        }
+      }
+
+      let triageInput: TriageInput | undefined;
+      if (options.source) {
+        if (!(INCIDENT_SOURCES as readonly string[]).includes(options.source)) {
+          console.error(
+            chalk.red(`Unknown source: ${options.source} (expected ${INCIDENT_SOURCES.join(', ')})`)
+          );
+          process.exit(1);
+        }
+        if (resumeFrom) {
+          console.error(chalk.red('--source cannot be combined with --resume'));
+          process.exit(1);
+        }
+        if (!incidentArg) {
+          console.error(
+            chalk.red(`Specify the ${options.source} incident, alert or file to investigate`)
+          );
+          process.exit(1);
+        }
+        try {
+          triageInput = await loadTriageInput(options.source as IncidentSource, incidentArg);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Failed to load ${options.source} alert: ${error instanceof Error ? error.message : error}`
+            )
+          );
+          process.exit(1);
+        }
+      }
+
+      const incidentId =
+        triageInput?.id ||
+        incidentArg ||
+        resumeFrom?.state?.triage?.incidentId ||
+        resumeFrom?.investigationId;
+      if (!incidentId) {
+        console.error(chalk.red('Specify an incident ID or --resume <id>'));
+        process.exit(1);
+      }
+
       try {
         await runStructuredInvestigation(
           incidentId,
           options.verbose || false,
           options.autoRemediate || false,
           options.learn || false,
-          options.applyRunbookUpdates || false
+          options.applyRunbookUpdates || false,
+          resumeFrom,
+          triageInput,
+          options.dryRun ? { planOut: options.planOut } : undefined
         );
       } catch (error) {
         console.error(
@@ -1172,8 +1506,13 @@ program
             `Structured investigation failed: ${error instanceof Error ? error.message : error}`
           )
         );
+        if (resumeFrom) {
+          process.exit(1);
+        }
         console.log(chalk.yellow('Falling back to standard agent investigation...'));
-        const fallbackQuery = `Investigate incident ${incidentId}. Identify the root cause using hypothesis-driven investigation.`;
+        const fallbackQuery = triageInput
+          ? `Investigate ${triageInput.source} alert ${incidentId}: ${triageInput.title}. Identify the root cause using hypothesis-driven investigation.`
+          : `Investigate incident ${incidentId}. Identify the root cause using hypothesis-driven investigation.`;
         if (process.stdout.isTTY) {
           render(
             <AgentUI
@@ -1249,19 +1588,92 @@ program
 // Knowledge commands
 const knowledge = program.command('knowledge').description('Manage knowledge base');
 
+/**
+ * Open the vector store with the embedder from config
+ */
+async function openVectorStore(): Promise<VectorStore> {
+  const config = await loadConfig();
+  return createConfiguredVectorStore(config.knowledge.store);
+}
+
 knowledge
   .command('sync')
   .description('Sync knowledge from all configured sources')
-  .action(async () => {
+  .option('--full', 'Reload every document instead of only what changed since the last sync')
+  .option('--daemon', 'Keep running: sync sources on their syncSchedule and watch directories')
+  .action(async (options: { full?: boolean; daemon?: boolean }) => {
     console.log(chalk.blue('Syncing knowledge from configured sources...'));
     try {
       const retriever = createRetriever();
-      const { added, updated } = await retriever.sync();
-      console.log(chalk.green(`Sync complete: ${added} added, ${updated} updated`));
-      console.log(chalk.green(`Total documents: ${retriever.getDocumentCount()}`));
-      retriever.close();
+
+      if (!options.daemon) {
+        const { added, updated, errors } = await retriever.sync({ full: options.full });
+        for (const { source, error } of errors) {
+          console.error(chalk.red(`  ${source}: ${error}`));
+        }
+        console.log(chalk.green(`Sync complete: ${added} added, ${updated} updated`));
+        console.log(chalk.green(`Total documents: ${retriever.getDocumentCount()}`));
+        retriever.close();
+        if (errors.length > 0) {
+          process.exitCode = 1;
+        }
+        return;
+      }
+
+      const { KnowledgeSyncDaemon } = await import('./knowledge/retriever/sync-daemon');
+      const time = () => chalk.gray(new Date().toLocaleTimeString());
+      const daemon = new KnowledgeSyncDaemon(retriever, {
+        onEvent: (event) => {
+          switch (event.type) {
+            case 'synced': {
+              const { source, added, updated, removed, error } = event.result;
+              if (error) {
+                console.error(`${time()} ${chalk.red(`${source} sync failed: ${error}`)}`);
+              } else if (added + updated + removed > 0 || event.trigger === 'startup') {
+                console.log(
+                  `${time()} ${source} (${event.trigger}): ${added} added, ${updated} updated, ${removed} removed`
+                );
+              }
+              break;
+            }
+            case 'scheduled':
+              console.log(
+                `${time()} ${chalk.gray(`${event.source} next sync ${event.next.toLocaleString()}`)}`
+              );
+              break;
+            case 'watching':
+              console.log(`${time()} ${chalk.gray(`Watching ${event.source} for changes`)}`);
+              break;
+            case 'error':
+              console.error(`${time()} ${chalk.red(`${event.source}: ${event.error}`)}`);
+              break;
+          }
+        },
+      });
+
+      const { scheduled, watched } = await daemon.start();
+      if (scheduled + watched === 0) {
+        console.log(
+          chalk.yellow(
+            'No sources have a syncSchedule or watch enabled in knowledge.sources; nothing to do.'
+          )
+        );
+        await daemon.stop();
+        retriever.close();
+        return;
+      }
+      console.log(chalk.green(`Sync daemon running (${scheduled} scheduled, ${watched} watched)`));
+
+      const shutdown = async () => {
+        await daemon.stop();
+        retriever.close();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
     } catch (error) {
       console.error(chalk.red(`Sync failed: ${error instanceof Error ? error.message : error}`));
+      process.exitCode = 1;
     }
   });
 
@@ -1377,65 +1789,119 @@ knowledge
 
 knowledge
   .command('validate')
-  .description('Check for stale or outdated knowledge')
+  .description('Check runbooks for stale content and references to infrastructure that is gone')
   .option('--days <days>', 'Days before considering content stale', '90')
-  .action(async (options: { days: string }) => {
-    const staleDays = parseInt(options.days, 10);
-    const staleDate = new Date();
-    staleDate.setDate(staleDate.getDate() - staleDays);
-
-    console.log(chalk.blue(`Checking for content older than ${staleDays} days...`));
-
-    try {
-      const retriever = createRetriever();
-      await retriever.sync();
+  .option('--offline', 'Only check expiry and age, not live infrastructure')
+  .option('--region <region>', 'AWS region to check references against')
+  .option('--format <format>', 'Output format: text or json', 'text')
+  .option('--fail-on <severity>', 'Exit non-zero on issues of this severity: error or warning')
+  .action(
+    async (options: {
+      days: string;
+      offline?: boolean;
+      region?: string;
+      format: string;
+      failOn?: string;
+    }) => {
+      const maxAgeDays = parseInt(options.days, 10);
+      const json = options.format === 'json';
+      if (options.failOn && !['error', 'warning'].includes(options.failOn)) {
+        console.error(chalk.red(`Invalid --fail-on value: ${options.failOn}`));
+        process.exit(1);
+      }
 
-      // Get all documents directly from the store for accurate counts.
-      const allDocs = retriever.getAllDocuments();
+      try {
+        const config = await loadConfig();
+        const { validateDocuments, validateKnowledge } = await import('./knowledge/validation');
+        const retriever = createRetriever();
+        await retriever.sync();
 
-      const stale: Array<{ title: string; type: string; age: number }> = [];
-      const fresh: Array<{ title: string; type: string }> = [];
+        // Reference extraction needs each document's chunks
+        const documents = retriever
+          .getAllDocuments()
+          .map((doc) => retriever.getDocument(doc.id) ?? doc);
+        retriever.close();
 
-      for (const doc of allDocs) {
-        const referenceDate = doc.lastValidated || doc.updatedAt || doc.createdAt;
-        const parsedReference = referenceDate ? new Date(referenceDate) : null;
+        const graph = loadServiceGraph();
+        const services = graph.getAllServices().flatMap((service) => [service.id, service.name]);
 
-        if (
-          parsedReference &&
-          !Number.isNaN(parsedReference.getTime()) &&
-          parsedReference < staleDate
-        ) {
-          const age = Math.floor((Date.now() - parsedReference.getTime()) / (1000 * 60 * 60 * 24));
-          stale.push({ title: doc.title, type: doc.type, age });
-          continue;
+        if (!json) {
+          console.log(
+            chalk.blue(
+              `Validating ${documents.length} documents (stale after ${maxAgeDays} days)` +
+                (options.offline ? '...' : ' against live infrastructure...')
+            )
+          );
         }
 
-        fresh.push({ title: doc.title, type: doc.type });
-      }
+        const report = options.offline
+          ? validateDocuments(documents, { maxAgeDays, services })
+          : await validateKnowledge(documents, {
+              maxAgeDays,
+              services,
+              aws: config.providers.aws.enabled ? { region: options.region } : undefined,
+              kubernetes: config.providers.kubernetes.enabled
+                ? { context: config.providers.kubernetes.context }
+                : undefined,
+              prometheus: true,
+            });
+
+        if (json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          for (const doc of report.documents.filter((result) => result.issues.length > 0)) {
+            console.log(chalk.bold(`\n${doc.title}`) + chalk.gray(` ${doc.sourceUrl || ''}`));
+            for (const issue of doc.issues) {
+              const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+              const line = issue.line ? chalk.gray(`line ${issue.line}: `) : '';
+              console.log(
+                `  ${color(issue.severity === 'error' ? '✗' : '!')} ${line}${issue.message}`
+              );
+            }
+          }
 
-      console.log(chalk.green(`\nKnowledge Base Status:`));
-      console.log(chalk.gray(`  Total documents: ${allDocs.length}`));
+          const { summary } = report;
+          console.log(chalk.green('\nKnowledge Base Status:'));
+          console.log(chalk.gray(`  Documents: ${summary.documents}`));
+          console.log(
+            chalk.gray(
+              `  References: ${summary.references} (${summary.verified} verified, ${summary.unchecked} unchecked)`
+            )
+          );
+          console.log(
+            (summary.errors > 0 ? chalk.red : chalk.gray)(`  Errors: ${summary.errors}`) +
+              (summary.warnings > 0 ? chalk.yellow : chalk.gray)(`  Warnings: ${summary.warnings}`)
+          );
+          for (const warning of report.warnings) {
+            console.log(chalk.gray(`  Not checked: ${warning}`));
+          }
+          if (summary.errors + summary.warnings === 0) {
+            console.log(chalk.green('\nNo stale documents or dead references found.'));
+          }
+          console.log(
+            chalk.gray(
+              `\nTip: Add 'lastValidated' or 'expiresAt' to frontmatter to track review dates.`
+            )
+          );
+        }
 
-      if (stale.length > 0) {
-        console.log(chalk.yellow(`\nStale documents (>${staleDays} days):`));
-        for (const doc of stale) {
-          console.log(chalk.yellow(`  - [${doc.type}] ${doc.title} (${doc.age} days old)`));
+        const failing =
+          options.failOn === 'warning'
+            ? report.summary.errors + report.summary.warnings
+            : options.failOn === 'error'
+              ? report.summary.errors
+              : 0;
+        if (failing > 0) {
+          process.exitCode = 1;
         }
-      } else {
-        console.log(chalk.green(`\nNo stale documents found.`));
+      } catch (error) {
+        console.error(
+          chalk.red(`Validation failed: ${error instanceof Error ? error.message : error}`)
+        );
+        process.exitCode = 1;
       }
-
-      console.log(
-        chalk.gray(`\nTip: Add 'lastValidated' to frontmatter to track validation dates.`)
-      );
-
-      retriever.close();
-    } catch (error) {
-      console.error(
-        chalk.red(`Validation failed: ${error instanceof Error ? error.message : error}`)
-      );
     }
-  });
+  );
 
 knowledge
   .command('stats')
@@ -1455,6 +1921,57 @@ knowledge
       console.log(chalk.cyan(`  Known issues: ${counts.known_issue}`));
       console.log(chalk.green(`  Total: ${retriever.getDocumentCount()} documents`));
 
+      // Configured sources that have never synced show up too
+      const states = new Map(retriever.getSyncStates().map((state) => [state.source, state]));
+      const sourceKeys = new Set([
+        ...(await retriever.getSources()).map(sourceKey),
+        ...states.keys(),
+      ]);
+      console.log(chalk.blue('\nSources:'));
+      for (const key of sourceKeys) {
+        const state = states.get(key);
+        if (!state) {
+          console.log(chalk.gray(`  ${key}: never synced`));
+        } else if (state.lastError) {
+          const lastSuccess = state.lastSyncTime
+            ? `last success ${new Date(state.lastSyncTime).toLocaleString()}`
+            : 'never succeeded';
+          console.log(
+            chalk.red(
+              `  ${key}: failed ${new Date(state.lastAttemptTime).toLocaleString()} (${lastSuccess}): ${state.lastError}`
+            )
+          );
+        } else {
+          console.log(
+            chalk.cyan(
+              `  ${key}: synced ${new Date(state.lastSyncTime!).toLocaleString()} (${state.documentsSynced} documents)`
+            )
+          );
+        }
+      }
+
+      try {
+        const vectors = await openVectorStore();
+        const vectorCount = await vectors.getCount();
+        if (vectorCount > 0) {
+          const info = await vectors.getEmbeddingInfo();
+          console.log(
+            chalk.cyan(
+              `  Vectors: ${vectorCount}${info ? ` (${info.model}, ${info.dimensions} dimensions)` : ''}`
+            )
+          );
+          const problem = await vectors.checkEmbedder();
+          if (problem) {
+            console.log(chalk.yellow(`  ${problem}`));
+          }
+        }
+        vectors.close();
+      } catch (error) {
+        console.log(
+          chalk.yellow(`  Vectors: unavailable (${error instanceof Error ? error.message : error})`)
+        );
+      }
+
       retriever.close();
     } catch (error) {
       console.error(
@@ -1463,6 +1980,49 @@ knowledge
     }
   });
 
+knowledge
+  .command('reembed')
+  .description('Rebuild the vector index with the configured embedding model')
+  .action(async () => {
+    try {
+      const retriever = createRetriever();
+      await retriever.sync();
+      const vectors = await openVectorStore();
+      const previous = await vectors.getEmbeddingInfo();
+      const embedder = getEmbedder();
+
+      console.log(
+        chalk.blue(
+          `Embedding ${retriever.getDocumentCount()} documents with ${embedder.id}` +
+            (previous ? ` (was ${previous.model}, ${previous.dimensions} dimensions)` : '')
+        )
+      );
+
+      const documents = retriever
+        .getAllDocuments()
+        .map((doc) => retriever.getDocument(doc.id))
+        .filter((doc): doc is NonNullable<typeof doc> => doc !== null);
+      const count = await reembedVectorStore(vectors, documents, (done, total) => {
+        console.log(chalk.gray(`  ${done}/${total} chunks`));
+      });
+
+      const info = await vectors.getEmbeddingInfo();
+      console.log(
+        chalk.green(
+          `Re-embedded ${count} chunks` +
+            (info ? ` (${info.model}, ${info.dimensions} dimensions)` : '')
+        )
+      );
+      vectors.close();
+      retriever.close();
+    } catch (error) {
+      console.error(
+        chalk.red(`Re-embed failed: ${error instanceof Error ? error.message : error}`)
+      );
+      process.exitCode = 1;
+    }
+  });
+
 // Auth subcommand for knowledge sources
 const auth = knowledge.command('auth').description('Authenticate with knowledge sources');
 
@@ -1552,27 +2112,390 @@ auth
     }
   });
 
+// Service dependency graph commands
+const graphCommand = program.command('graph').description('Manage the service dependency graph');
+
+function requireGraphService(graph: ServiceGraph, ref: string) {
+  const service = resolveGraphService(graph, ref);
+  if (!service) {
+    console.error(chalk.red(`Service not found in graph: ${ref}`));
+    console.log(chalk.gray('Run `runbook graph show` to list known services.'));
+    process.exit(1);
+  }
+  return service;
+}
+
+graphCommand
+  .command('import [file]')
+  .description('Import services and dependencies from services.yaml, a JSON export, or docs')
+  .option('--from-knowledge', 'Extract dependencies from architecture knowledge documents')
+  .option('--replace', 'Replace the existing graph instead of merging into it')
+  .action(
+    async (file: string | undefined, options: { fromKnowledge?: boolean; replace?: boolean }) => {
+      const { existsSync } = await import('fs');
+      const { readFile } = await import('fs/promises');
+      const { extname } = await import('path');
+
+      const store = createServiceGraphStore();
+      try {
+        const graph = options.replace ? new ServiceGraph() : store.load();
+        const filePath = file || (options.fromKnowledge ? undefined : '.runbook/services.yaml');
+
+        if (filePath) {
+          if (!existsSync(filePath)) {
+            console.error(chalk.red(`File not found: ${filePath}`));
+            process.exit(1);
+          }
+          const content = await readFile(filePath, 'utf-8');
+
+          if (extname(filePath).toLowerCase() === '.json') {
+            const imported = ServiceGraph.fromJSON(content);
+            for (const service of imported.getAllServices()) {
+              graph.addService(service);
+            }
+            for (const edge of imported.getAllEdges()) {
+              graph.addDependency(edge);
+            }
+            console.log(
+              chalk.green(
+                `Imported ${imported.getAllServices().length} services and ${imported.getAllEdges().length} dependencies from ${filePath}`
+              )
+            );
+          } else {
+            const summary = importServicesYaml(graph, content);
+            console.log(
+              chalk.green(
+                `Imported ${summary.servicesAdded} new services and ${summary.dependenciesAdded} new dependencies from ${filePath}`
+              )
+            );
+          }
+        }
+
+        if (options.fromKnowledge) {
+          const retriever = createRetriever();
+          try {
+            await retriever.sync();
+            const summary = importArchitectureDocs(graph, retriever.getAllDocuments());
+            console.log(
+              chalk.green(
+                `Imported ${summary.servicesAdded} new services and ${summary.dependenciesAdded} new dependencies from architecture docs`
+              )
+            );
+          } finally {
+            retriever.close();
+          }
+        }
+
+        store.save(graph);
+        const stats = graph.getStats();
+        console.log(
+          chalk.gray(
+            `Graph now has ${stats.nodeCount} services and ${stats.edgeCount} dependencies.`
+          )
+        );
+      } catch (error) {
+        console.error(
+          chalk.red(`Import failed: ${error instanceof Error ? error.message : error}`)
+        );
+        process.exitCode = 1;
+      } finally {
+        store.close();
+      }
+    }
+  );
+
+graphCommand
+  .command('discover')
+  .description('Discover dependencies from AWS and Kubernetes and merge them into the graph')
+  .option('--no-aws', 'Skip AWS discovery')
+  .option('--no-kubernetes', 'Skip Kubernetes discovery')
+  .option('--region <regions>', 'Comma-separated AWS regions (defaults to configured regions)')
+  .option('--dry-run', 'Print discovered dependencies without saving them')
+  .action(
+    async (options: { aws: boolean; kubernetes: boolean; region?: string; dryRun?: boolean }) => {
+      const config = await loadConfig();
+      const awsEnabled = options.aws && config.providers.aws.enabled;
+      const kubernetesEnabled = options.kubernetes && config.providers.kubernetes.enabled;
+
+      if (!awsEnabled && !kubernetesEnabled) {
+        console.log(chalk.yellow('No discovery providers enabled.'));
+        console.log(
+          chalk.gray('Enable providers.aws or providers.kubernetes in .runbook/config.yaml.')
+        );
+        return;
+      }
+
+      const regions = options.region
+        ? options.region.split(',').map((region) => region.trim())
+        : config.providers.aws.regions;
+      const { context, namespace, kubeconfig } = config.providers.kubernetes;
+
+      console.log(
+        chalk.cyan(
+          `Discovering dependencies from ${[
+            awsEnabled && `AWS (${regions.join(', ')})`,
+            kubernetesEnabled && 'Kubernetes',
+          ]
+            .filter(Boolean)
+            .join(' and ')}...`
+        )
+      );
+
+      const result = await discoverServiceDependencies({
+        aws: awsEnabled ? { regions } : undefined,
+        kubernetes: kubernetesEnabled ? { context, namespace, kubeconfig } : undefined,
+      });
+
+      for (const warning of result.warnings) {
+        console.log(chalk.yellow(`  ⚠ ${warning}`));
+      }
+
+      if (options.dryRun) {
+        for (const dependency of result.dependencies) {
+          console.log(
+            `  ${dependency.source} → ${dependency.target} ${chalk.gray(`[${dependency.provider}] ${dependency.evidence}`)}`
+          );
+        }
+        console.log(chalk.gray(`\n${result.dependencies.length} dependencies found (not saved).`));
+        return;
+      }
+
+      const store = createServiceGraphStore();
+      try {
+        const graph = store.load();
+        const summary = mergeDiscoveredDependencies(graph, result);
+        store.save(graph);
+
+        const stats = graph.getStats();
+        console.log(
+          chalk.green(
+            `Discovered ${result.dependencies.length} dependencies: ${summary.servicesAdded} new services and ${summary.dependenciesAdded} new dependencies added`
+          )
+        );
+        if (summary.dependenciesRemoved > 0) {
+          console.log(
+            chalk.yellow(
+              `Removed ${summary.dependenciesRemoved} previously discovered dependencies that no longer exist`
+            )
+          );
+        }
+        console.log(
+          chalk.gray(
+            `Graph now has ${stats.nodeCount} services and ${stats.edgeCount} dependencies.`
+          )
+        );
+      } finally {
+        store.close();
+      }
+    }
+  );
+
+graphCommand
+  .command('export [file]')
+  .description('Export the service graph as JSON or services.yaml')
+  .option('--format <format>', 'Output format: json or yaml', 'json')
+  .action(async (file: string | undefined, options: { format: string }) => {
+    const graph = loadServiceGraph();
+    const output = options.format === 'yaml' ? exportServicesYaml(graph) : graph.toJSON();
+
+    if (!file) {
+      console.log(output);
+      return;
+    }
+
+    const { writeFile } = await import('fs/promises');
+    await writeFile(file, output.endsWith('\n') ? output : `${output}\n`, 'utf-8');
+    console.log(chalk.green(`Exported ${graph.getAllServices().length} services to ${file}`));
+  });
+
+graphCommand
+  .command('show [service]')
+  .description('Show the graph summary or a single service with its dependencies')
+  .action((serviceRef: string | undefined) => {
+    const graph = loadServiceGraph();
+
+    if (graph.getAllServices().length === 0) {
+      console.log(chalk.yellow('Service graph is empty.'));
+      console.log(chalk.gray('Run `runbook graph import` to load .runbook/services.yaml.'));
+      return;
+    }
+
+    if (!serviceRef) {
+      const stats = graph.getStats();
+      console.log(chalk.cyan('Service Graph:\n'));
+      console.log(chalk.gray(`  Services: ${stats.nodeCount}`));
+      console.log(chalk.gray(`  Dependencies: ${stats.edgeCount}`));
+      console.log(chalk.gray(`  Critical services: ${stats.criticalServices}\n`));
+      for (const service of graph.getAllServices().sort((a, b) => a.name.localeCompare(b.name))) {
+        const deps = graph.getDependencies(service.id).length;
+        const dependents = graph.getDependents(service.id).length;
+        console.log(
+          `  ${chalk.green(service.name)} ${chalk.gray(`(${service.type}${service.tier ? `, ${service.tier}` : ''}) → ${deps} deps, ← ${dependents} dependents`)}`
+        );
+      }
+      const cycles = graph.detectCycles();
+      if (cycles.length > 0) {
+        console.log(chalk.yellow(`\nDependency cycles detected: ${cycles.length}`));
+        for (const cycle of cycles.slice(0, 5)) {
+          console.log(chalk.yellow(`  ${cycle.join(' → ')}`));
+        }
+      }
+      return;
+    }
+
+    const service = requireGraphService(graph, serviceRef);
+    console.log(chalk.cyan(`${service.name}`) + chalk.gray(` [${service.id}]`));
+    console.log(chalk.gray(`  Type: ${service.type}`));
+    if (service.tier) console.log(chalk.gray(`  Tier: ${service.tier}`));
+    if (service.team) console.log(chalk.gray(`  Team: ${service.team}`));
+    if (service.owner) console.log(chalk.gray(`  Owner: ${service.owner}`));
+    if (service.repository) console.log(chalk.gray(`  Repository: ${service.repository}`));
+
+    console.log(chalk.cyan('\nDepends on:'));
+    const dependencies = graph.getDependencies(service.id);
+    if (dependencies.length === 0) console.log(chalk.gray('  (none)'));
+    for (const dep of dependencies) {
+      const edge = graph.getDependency(service.id, dep.id);
+      console.log(
+        `  → ${dep.name} ${chalk.gray(`(${edge?.type}${edge?.protocol ? `/${edge.protocol}` : ''}, ${edge?.criticality})`)}`
+      );
+    }
+
+    console.log(chalk.cyan('\nDepended on by:'));
+    const dependents = graph.getDependents(service.id);
+    if (dependents.length === 0) console.log(chalk.gray('  (none)'));
+    for (const dependent of dependents) {
+      const edge = graph.getDependency(dependent.id, service.id);
+      console.log(`  ← ${dependent.name} ${chalk.gray(`(${edge?.type}, ${edge?.criticality})`)}`);
+    }
+  });
+
+graphCommand
+  .command('impact <service>')
+  .description('Show the blast radius of a service failure (or what it depends on)')
+  .option('--depth <depth>', 'Maximum traversal depth', '5')
+  .option('--downstream', 'Show what the service depends on instead of what depends on it')
+  .action((serviceRef: string, options: { depth: string; downstream?: boolean }) => {
+    const graph = loadServiceGraph();
+    const service = requireGraphService(graph, serviceRef);
+    const depth = parseInt(options.depth, 10) || 5;
+    const paths = options.downstream
+      ? graph.getDownstreamImpact(service.id, depth)
+      : graph.getUpstreamImpact(service.id, depth);
+
+    if (paths.length === 0) {
+      console.log(
+        chalk.green(
+          options.downstream
+            ? `${service.name} has no recorded dependencies.`
+            : `No services depend on ${service.name}.`
+        )
+      );
+      return;
+    }
+
+    console.log(
+      chalk.cyan(
+        options.downstream
+          ? `${service.name} depends on ${paths.length} service(s):\n`
+          : `A failure in ${service.name} can affect ${paths.length} service(s):\n`
+      )
+    );
+    for (const path of paths) {
+      const affected = graph.getService(path.affected);
+      const color =
+        path.criticality === 'critical'
+          ? chalk.red
+          : path.criticality === 'degraded'
+            ? chalk.yellow
+            : chalk.gray;
+      const tier = affected?.tier === 'critical' ? chalk.red(' [critical tier]') : '';
+      console.log(
+        `  ${color(`[${path.criticality}]`)} ${affected?.name || path.affected}${tier} ${chalk.gray(`(${path.hops} hop${path.hops === 1 ? '' : 's'}: ${path.path.join(' → ')})`)}`
+      );
+    }
+  });
+
+graphCommand
+  .command('path <from> <to>')
+  .description('Find the dependency path between two services')
+  .action((fromRef: string, toRef: string) => {
+    const graph = loadServiceGraph();
+    const from = requireGraphService(graph, fromRef);
+    const to = requireGraphService(graph, toRef);
+    const path = graph.findPath(from.id, to.id);
+
+    if (!path) {
+      console.log(
+        chalk.yellow(`${from.name} does not depend on ${to.name} (directly or transitively).`)
+      );
+      return;
+    }
+
+    const names = path.map((id) => graph.getService(id)?.name || id);
+    console.log(chalk.green(names.join(' → ')));
+    console.log(chalk.gray(`  ${path.length - 1} hop(s)`));
+  });
+
 // Deploy command
 program
   .command('deploy <service>')
   .description('Deploy a service using the deploy-service skill')
   .option('-e, --environment <env>', 'Target environment', 'production')
   .option('--version <version>', 'Version to deploy')
-  .option('--dry-run', 'Show what would be deployed without executing')
+  .option('--cluster <cluster>', 'ECS cluster of the service')
+  .option('--image <image>', 'Container image to deploy (repo:tag)')
+  .option('--dry-run', 'Run the pre-deployment checks and write a plan without deploying')
+  .option('--plan-out <file>', 'Where to write the dry-run plan (default .runbook/plans/)')
+  .option('--plan <file>', 'Apply a plan written by --dry-run')
   .action(
     async (
       service: string,
-      options: { environment: string; version?: string; dryRun?: boolean }
+      options: {
+        environment: string;
+        version?: string;
+        cluster?: string;
+        image?: string;
+        dryRun?: boolean;
+        planOut?: string;
+        plan?: string;
+      }
     ) => {
       const { environment, version, dryRun } = options;
 
-      const query = dryRun
-        ? `Show me what would happen if I deploy ${service} to ${environment}${version ? ` version ${version}` : ''}. Do not execute, just explain the steps.`
-        : `Deploy ${service} to ${environment}${version ? ` version ${version}` : ''} using the deploy-service skill. Perform all pre-deployment checks first.`;
+      if (options.plan) {
+        await applyPlanFile(options.plan);
+        return;
+      }
+
+      const target = [
+        version && `version ${version}`,
+        options.cluster && `on ECS cluster ${options.cluster}`,
+        options.image && `with image ${options.image}`,
+      ]
+        .filter(Boolean)
+        .join(' ');
+      const query = `Deploy ${service} to ${environment}${target ? ` ${target}` : ''} using the deploy-service skill. Perform all pre-deployment checks first.`;
+
+      if (dryRun) {
+        // The same agent run as a real deploy, with every change recorded instead of made
+        console.log(chalk.cyan(`Planning deployment of ${service} to ${environment}...`));
+        console.log(chalk.yellow('(Dry run mode - no changes will be made)'));
+        console.log();
+
+        const recorder = new PlanRecorder();
+        await withPlanRecorder(recorder, () => runSimple(query));
+        await writeExecutionPlan(
+          `deploy ${service} (${environment})`,
+          recorder.actions,
+          `deploy ${service}`,
+          options.planOut
+        );
+        return;
+      }
 
       console.log(chalk.cyan(`Deploying ${service} to ${environment}...`));
       if (version) console.log(chalk.gray(`Version: ${version}`));
-      if (dryRun) console.log(chalk.yellow('(Dry run mode - no changes will be made)'));
       console.log();
 
       if (process.stdout.isTTY) {
@@ -1997,22 +2920,32 @@ claudeIntegration
 // Webhook server command
 program
   .command('webhook')
-  .description('Start the Slack webhook server for handling approval button clicks')
+  .description(
+    'Start the webhook server for Slack approval button clicks and alert webhooks (incident.alertWebhooks)'
+  )
   .option('-p, --port <port>', 'Port to listen on', '3000')
   .option('--pending-dir <dir>', 'Directory for pending approval files')
   .action(async (options: { port: string; pendingDir?: string }) => {
     const { startWebhookServer, getWebhookConfigFromEnv } =
       await import('./webhooks/slack-webhook');
 
+    const config = await loadConfig();
+    const alertConfig = config.incident.alertWebhooks;
     const envConfig = getWebhookConfigFromEnv();
-    const signingSecret = envConfig?.signingSecret || process.env.SLACK_SIGNING_SECRET;
+    const signingSecret =
+      envConfig?.signingSecret ||
+      config.incident.slack.signingSecret ||
+      process.env.SLACK_SIGNING_SECRET;
 
-    if (!signingSecret) {
+    if (!signingSecret && !alertConfig.enabled) {
       console.error(chalk.red('Error: SLACK_SIGNING_SECRET environment variable is required'));
       console.log(chalk.yellow('Set it in your environment or .env file'));
       console.log(
         chalk.gray('You can find this in your Slack app settings under "Signing Secret"')
       );
+      console.log(
+        chalk.gray('To only receive alert webhooks, enable incident.alertWebhooks instead')
+      );
       process.exit(1);
     }
 
@@ -2022,25 +2955,78 @@ program
       process.exit(1);
     }
 
-    console.log(chalk.cyan('Starting Slack webhook server...'));
+    let alerts: AlertWebhookOptions | undefined;
+    if (alertConfig.enabled) {
+      if (
+        !alertConfig.alertmanagerToken &&
+        !alertConfig.pagerdutySigningSecret &&
+        !alertConfig.opsgenieToken
+      ) {
+        console.error(
+          chalk.red(
+            'Error: incident.alertWebhooks needs at least one of alertmanagerToken, pagerdutySigningSecret or opsgenieToken'
+          )
+        );
+        process.exit(1);
+      }
+
+      const [{ configure: configureSlack }, { configure: configurePagerDuty }] = await Promise.all([
+        import('./tools/incident/slack'),
+        import('./tools/incident/pagerduty'),
+      ]);
+      const slackBotToken = config.incident.slack.botToken || process.env.SLACK_BOT_TOKEN;
+      if (slackBotToken) {
+        configureSlack(slackBotToken, config.incident.slack.defaultChannel);
+      }
+      if (config.incident.pagerduty.apiKey) {
+        configurePagerDuty(config.incident.pagerduty.apiKey);
+      }
+
+      const { runReadOnlyInvestigation } = await import('./mcp/operations');
+      alerts = {
+        ...alertConfig,
+        slackChannel: alertConfig.slackChannel || config.incident.slack.defaultChannel,
+        dedupeTtlMs: alertConfig.dedupeTtlMinutes * 60 * 1000,
+        runInvestigation: (input) =>
+          runReadOnlyInvestigation(
+            input.id,
+            `Investigate ${input.source} alert ${input.id}: ${input.title}`,
+            { triageInput: input, checkpoint: true }
+          ),
+      };
+    }
+
+    console.log(chalk.cyan('Starting webhook server...'));
     console.log(chalk.gray(`Port: ${port}`));
     console.log(chalk.gray(`Pending dir: ${options.pendingDir || '.runbook/pending'}`));
+    if (alerts) {
+      console.log(
+        chalk.gray(
+          `Alert filters: severity ${alerts.severities.join('/')}; services ${alerts.services.length > 0 ? alerts.services.join(', ') : 'all'}`
+        )
+      );
+    }
 
     try {
       await startWebhookServer({
         port,
         signingSecret,
         pendingDir: options.pendingDir,
+        alerts,
       });
 
       console.log('');
       console.log(chalk.green('Webhook server is running!'));
       console.log('');
-      console.log(chalk.cyan('Configure your Slack app:'));
-      console.log(chalk.gray('1. Go to your Slack app settings'));
-      console.log(chalk.gray('2. Navigate to "Interactivity & Shortcuts"'));
-      console.log(chalk.gray(`3. Set Request URL to: https://your-domain.com/slack/interactions`));
-      console.log('');
+      if (signingSecret) {
+        console.log(chalk.cyan('Configure your Slack app:'));
+        console.log(chalk.gray('1. Go to your Slack app settings'));
+        console.log(chalk.gray('2. Navigate to "Interactivity & Shortcuts"'));
+        console.log(
+          chalk.gray(`3. Set Request URL to: https://your-domain.com/slack/interactions`)
+        );
+        console.log('');
+      }
       console.log(chalk.yellow('Press Ctrl+C to stop'));
     } catch (error) {
       console.error(
@@ -2185,16 +3171,42 @@ mcp
   .command('serve')
   .description('Start MCP server for Claude Code integration')
   .option('--base-dir <dir>', 'Base directory for knowledge', '.runbook')
-  .action(async (options: { baseDir: string }) => {
+  .option('--transport <transport>', 'Transport: stdio or http', 'stdio')
+  .option('--port <port>', 'Port for the HTTP transport', '3100')
+  .option('--host <host>', 'Host for the HTTP transport', '127.0.0.1')
+  .action(async (options: { baseDir: string; transport: string; port: string; host: string }) => {
+    const config = await loadConfig();
+    const serverConfig = { baseDir: options.baseDir, exposeTools: config.mcp.exposeTools };
+
+    if (options.transport === 'http') {
+      try {
+        await runHttpServer(serverConfig, {
+          port: parseInt(options.port, 10),
+          host: options.host,
+          authToken: config.mcp.http.authToken || process.env.RUNBOOK_MCP_TOKEN,
+        });
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      return;
+    }
+    if (options.transport !== 'stdio') {
+      console.error(chalk.red(`Unknown transport: ${options.transport} (expected stdio or http)`));
+      process.exit(1);
+    }
+
     // Run in stdio mode for MCP
-    await runStdioServer({ baseDir: options.baseDir });
+    await runStdioServer(serverConfig);
   });
 
 mcp
   .command('tools')
   .description('List available MCP tools')
-  .action(() => {
-    const server = createMCPServer();
+  .action(async () => {
+    const config = await loadConfig();
+    const server = createMCPServer({ exposeTools: config.mcp.exposeTools });
+    await server.loadOperationalTools();
     const tools = server.getTools();
 
     console.log(chalk.cyan('Available MCP Tools:\n'));
@@ -2202,6 +3214,12 @@ mcp
       console.log(chalk.green(`  ${tool.name}`));
       console.log(chalk.gray(`    ${tool.description}\n`));
     }
+
+    console.log(chalk.cyan('Available MCP Prompts:\n'));
+    for (const prompt of server.handleListPrompts().prompts) {
+      console.log(chalk.green(`  ${prompt.name}`));
+      console.log(chalk.gray(`    ${prompt.description}\n`));
+    }
     server.close();
   });
 
@@ -2460,5 +3478,225 @@ checkpoint
     }
   );
 
+checkpoint
+  .command('diff <from> <to>')
+  .description(
+    'Show hypotheses added, pruned or confirmed, confidence changes and new evidence between two checkpoints'
+  )
+  .action(async (fromRef: string, toRef: string) => {
+    const store = createCheckpointStore();
+
+    try {
+      const from = await store.resolve(fromRef);
+      const to = await store.resolve(toRef);
+      for (const [ref, cp] of [
+        [fromRef, from],
+        [toRef, to],
+      ] as const) {
+        if (!cp) {
+          console.error(chalk.red(`Checkpoint not found: ${ref}`));
+          process.exit(1);
+        }
+      }
+      if (new Date(from!.createdAt).getTime() > new Date(to!.createdAt).getTime()) {
+        console.log(
+          chalk.yellow(`Note: ${fromRef} is newer than ${toRef}; showing changes in reverse.`)
+        );
+      }
+      printMarkdownToConsole(formatCheckpointDiff(diffCheckpoints(from!, to!)));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+checkpoint
+  .command('fork <checkpoint-id>')
+  .description(
+    'Start a new investigation from a checkpoint, optionally following a different hypothesis'
+  )
+  .option('--hypothesis <id>', 'Hypothesis to investigate next (e.g. h_2)')
+  .option('--run', 'Run the forked investigation immediately')
+  .option('-v, --verbose', 'Show detailed output when running')
+  .action(
+    async (
+      checkpointId: string,
+      options: { hypothesis?: string; run?: boolean; verbose?: boolean }
+    ) => {
+      const store = createCheckpointStore();
+      let fork: InvestigationCheckpoint;
+
+      try {
+        const source = await store.resolve(checkpointId);
+        if (!source) {
+          console.error(chalk.red(`Checkpoint not found: ${checkpointId}`));
+          process.exit(1);
+        }
+        fork = forkCheckpoint(source, { hypothesisId: options.hypothesis });
+        await store.save(fork);
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+
+      console.log(
+        chalk.green(`Forked ${fork.forkedFrom!.investigationId} → ${fork.investigationId}`)
+      );
+      console.log(chalk.gray(`  From checkpoint: ${fork.forkedFrom!.checkpointId}`));
+      console.log(chalk.gray(`  Phase: ${fork.phase}`));
+      if (options.hypothesis) {
+        console.log(chalk.gray(`  Next hypothesis: ${options.hypothesis}`));
+      }
+
+      if (!options.run) {
+        console.log(
+          chalk.cyan(`\nContinue with: runbook investigate --resume ${fork.investigationId}`)
+        );
+        return;
+      }
+
+      console.log();
+      try {
+        await runStructuredInvestigation(
+          fork.state?.triage?.incidentId || fork.investigationId,
+          options.verbose || false,
+          false,
+          false,
+          false,
+          fork
+        );
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `Forked investigation failed: ${error instanceof Error ? error.message : error}`
+          )
+        );
+        process.exit(1);
+      }
+    }
+  );
+
+const audit = program
+  .command('audit')
+  .description('Query and verify the audit log of tool calls, mutations and approvals');
+
+interface AuditFilterOptions {
+  type?: string;
+  investigation?: string;
+  user?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+}
+
+/**
+ * Parse a time filter: a relative age such as 30m, 24h or 7d, or a date
+ */
+function parseAuditTime(value: string): Date {
+  const relative = value.match(/^(\d+)([mhd])$/);
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 'm' | 'h' | 'd'];
+    return new Date(Date.now() - Number(relative[1]) * unitMs);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time: ${value} (use e.g. 24h, 7d or 2026-01-31T12:00:00Z)`);
+  }
+  return date;
+}
+
+function toAuditQuery(options: AuditFilterOptions): AuditQuery {
+  if (options.type && !AUDIT_EVENT_TYPES.includes(options.type as AuditEventType)) {
+    throw new Error(
+      `Unknown event type: ${options.type}. Use one of: ${AUDIT_EVENT_TYPES.join(', ')}`
+    );
+  }
+  return {
+    type: options.type as AuditEventType | undefined,
+    investigationId: options.investigation,
+    user: options.user,
+    since: options.since ? parseAuditTime(options.since) : undefined,
+    until: options.until ? parseAuditTime(options.until) : undefined,
+    limit: options.limit ? parseInt(options.limit, 10) : undefined,
+  };
+}
+
+function withAuditFilters(command: ReturnType<typeof program.command>) {
+  return command
+    .option('--type <type>', `Event type (${AUDIT_EVENT_TYPES.join(', ')})`)
+    .option('--investigation <id>', 'Filter by investigation ID')
+    .option('--user <user>', 'Filter by user')
+    .option('--since <time>', 'Only entries after this time (e.g. 24h, 7d or a date)')
+    .option('--until <time>', 'Only entries before this time');
+}
+
+withAuditFilters(audit.command('list').description('List audit entries'))
+  .option('--limit <n>', 'Show the most recent n entries', '50')
+  .action(async (options: AuditFilterOptions) => {
+    try {
+      const entries = await getAuditLog().query(toAuditQuery(options));
+      printMarkdownToConsole(formatAuditList(entries));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+audit
+  .command('show <entry>')
+  .description('Show an audit entry by sequence number or hash prefix')
+  .action(async (reference: string) => {
+    const entry = await getAuditLog().find(reference);
+    if (!entry) {
+      console.error(chalk.red(`Audit entry not found: ${reference}`));
+      process.exit(1);
+    }
+    printMarkdownToConsole(formatAuditEntry(entry));
+  });
+
+audit
+  .command('verify')
+  .description('Check the hash chain for edited, removed or reordered entries')
+  .action(async () => {
+    const log = getAuditLog();
+    const result = await log.verify();
+    if (!result.valid) {
+      const broken = result.brokenAt!;
+      console.error(chalk.red(`Audit log verification FAILED at line ${broken.line}`));
+      if (broken.seq !== undefined) {
+        console.error(chalk.red(`  Entry: ${broken.seq}`));
+      }
+      console.error(chalk.red(`  Reason: ${broken.reason}`));
+      console.error(chalk.gray(`  ${result.entries} entries before it are intact`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Audit log intact: ${result.entries} entries`));
+    console.log(chalk.gray(`  File: ${log.filePath}`));
+    console.log(chalk.gray(`  Head: ${result.headHash}`));
+  });
+
+withAuditFilters(audit.command('export').description('Export audit entries as CSV or JSON'))
+  .option('--format <format>', 'Output format: csv or json', 'json')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action(async (options: AuditFilterOptions & { format: string; output?: string }) => {
+    try {
+      if (options.format !== 'csv' && options.format !== 'json') {
+        throw new Error(`Unknown format: ${options.format}. Use csv or json`);
+      }
+      const entries = await getAuditLog().query(toAuditQuery(options));
+      const content = exportAuditEntries(entries, options.format);
+      if (options.output) {
+        const { writeFile } = await import('fs/promises');
+        await writeFile(options.output, content + '\n', 'utf-8');
+        console.log(chalk.green(`Exported ${entries.length} entries to ${options.output}`));
+      } else {
+        console.log(content);
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
 // Parse and run
 program.parse();
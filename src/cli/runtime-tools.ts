@@ -11,6 +11,8 @@ const AWS_TOOLS = new Set([
   'cloudwatch_logs',
 ]);
 
+const KUBERNETES_TOOLS = new Set(['kubernetes_query', 'kubernetes_mutate']);
+
 const CLOUDWATCH_TOOLS = new Set(['cloudwatch_alarms', 'cloudwatch_logs']);
 
 /**
@@ -27,7 +29,7 @@ export async function getRuntimeTools(config: Config, tools: Tool[]): Promise<To
   const prometheusEnabled = isPrometheusConfigured();
 
   return tools.filter((tool) => {
-    if (!config.providers.kubernetes.enabled && tool.name === 'kubernetes_query') {
+    if (!config.providers.kubernetes.enabled && KUBERNETES_TOOLS.has(tool.name)) {
       return false;
     }
     if (!config.providers.github.enabled && tool.name === 'github_query') {
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { inferKubernetesDependencies, type KubernetesInventory } from '../kubernetes';
+
+const inventory: KubernetesInventory = {
+  context: 'prod',
+  workloads: [
+    {
+      name: 'web',
+      namespace: 'shop',
+      kind: 'Deployment',
+      podLabels: { app: 'web' },
+      environment: {
+        CART_URL: 'http://cart:8080',
+        USERS_HOST: 'users.identity.svc.cluster.local',
+        ANALYTICS_URL: 'https://api.segment.io',
+      },
+    },
+    {
+      name: 'cart',
+      namespace: 'shop',
+      kind: 'Deployment',
+      podLabels: { app: 'cart', tier: 'backend' },
+      environment: {},
+    },
+    {
+      name: 'users',
+      namespace: 'identity',
+      kind: 'StatefulSet',
+      podLabels: { app: 'users' },
+      environment: {},
+    },
+  ],
+  services: [
+    { name: 'web', namespace: 'shop', selector: { app: 'web' } },
+    { name: 'cart', namespace: 'shop', selector: { app: 'cart' } },
+    { name: 'users', namespace: 'identity', selector: { app: 'users' } },
+    { name: 'external-db', namespace: 'shop', selector: {} },
+  ],
+  ingresses: [
+    {
+      name: 'storefront',
+      namespace: 'shop',
+      hosts: ['shop.example.com'],
+      backendServices: ['web'],
+    },
+  ],
+};
+
+describe('inferKubernetesDependencies', () => {
+  it('resolves env references to the workloads selected by services', () => {
+    const result = inferKubernetesDependencies(inventory);
+
+    const edges = result.dependencies.map((dep) => `${dep.source}->${dep.target}`);
+    expect(edges).toEqual(['web->cart', 'web->users', 'ingress/storefront->web']);
+    expect(result.dependencies[1]).toMatchObject({
+      provider: 'kubernetes:service-selector',
+      evidence: 'env USERS_HOST references service identity/users',
+      scope: 'kubernetes:prod',
+    });
+  });
+
+  it('adds ingresses as infrastructure nodes', () => {
+    const result = inferKubernetesDependencies(inventory);
+
+    expect(result.services.find((service) => service.name === 'ingress/storefront')).toEqual({
+      name: 'ingress/storefront',
+      type: 'infrastructure',
+      metadata: {
+        provider: 'kubernetes',
+        context: 'prod',
+        kind: 'Ingress',
+        namespace: 'shop',
+        hosts: ['shop.example.com'],
+      },
+    });
+    expect(result.dependencies[2]).toMatchObject({
+      provider: 'kubernetes:ingress',
+      protocol: 'http',
+    });
+  });
+});
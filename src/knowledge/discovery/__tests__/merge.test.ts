@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { mergeDiscoveredDependencies } from '..';
+import type { DiscoveryResult } from '../common';
+import { ServiceGraph } from '../../store/graph-store';
+
+function discovery(): DiscoveryResult {
+  return {
+    services: [
+      { name: 'checkout', type: 'service', metadata: { provider: 'aws', resource: 'ecs-service' } },
+      { name: 'orders-db', type: 'database', metadata: { provider: 'aws', resource: 'rds' } },
+    ],
+    dependencies: [
+      {
+        source: 'checkout',
+        target: 'orders-db',
+        type: 'database',
+        provider: 'aws:ecs-env',
+        evidence: 'task definition env DATABASE_URL references orders-db',
+        scope: 'aws:us-east-1',
+      },
+      {
+        source: 'checkout',
+        target: 'orders-db',
+        type: 'database',
+        provider: 'aws:security-group',
+        evidence: 'sg-db allows tcp/5432 from sg-app',
+        scope: 'aws:us-east-1',
+      },
+      {
+        source: 'checkout',
+        target: 'payments',
+        type: 'sync',
+        provider: 'aws:ecs-env',
+        evidence: 'task definition env PAYMENTS_URL references payments',
+        scope: 'aws:us-east-1',
+      },
+    ],
+    warnings: [],
+  };
+}
+
+describe('mergeDiscoveredDependencies', () => {
+  it('adds discovered services and edges with provenance', () => {
+    const graph = new ServiceGraph();
+    const discoveredAt = new Date('2026-05-01T00:00:00Z');
+
+    const summary = mergeDiscoveredDependencies(graph, discovery(), discoveredAt);
+
+    expect(summary).toEqual({ servicesAdded: 3, dependenciesAdded: 2, dependenciesRemoved: 0 });
+    expect(graph.getService('orders-db')).toMatchObject({
+      type: 'database',
+      metadata: { source: 'discovery', provider: 'aws:ecs-env', resource: 'rds' },
+    });
+    expect(graph.getDependency('checkout', 'orders-db')).toMatchObject({
+      type: 'database',
+      criticality: 'degraded',
+      metadata: {
+        source: 'discovery',
+        providers: ['aws:ecs-env', 'aws:security-group'],
+        evidence: [
+          'task definition env DATABASE_URL references orders-db',
+          'sg-db allows tcp/5432 from sg-app',
+        ],
+        scopes: ['aws:us-east-1'],
+        discoveredAt: '2026-05-01T00:00:00.000Z',
+        lastSeenAt: '2026-05-01T00:00:00.000Z',
+      },
+    });
+  });
+
+  it('keeps declared services and edges', () => {
+    const graph = new ServiceGraph();
+    graph.addService({
+      id: 'checkout',
+      name: 'checkout',
+      type: 'service',
+      team: 'payments',
+      tags: [],
+      metadata: { source: 'services.yaml' },
+    });
+    graph.addService({ id: 'payments', name: 'Payments', type: 'service', tags: [], metadata: {} });
+    graph.addDependency({
+      source: 'checkout',
+      target: 'payments',
+      type: 'sync',
+      protocol: 'grpc',
+      criticality: 'critical',
+      metadata: { source: 'services.yaml' },
+    });
+
+    mergeDiscoveredDependencies(graph, discovery());
+
+    expect(graph.getService('checkout')?.metadata).toEqual({ source: 'services.yaml' });
+    expect(graph.getDependency('checkout', 'payments')).toMatchObject({
+      protocol: 'grpc',
+      criticality: 'critical',
+      metadata: { source: 'services.yaml' },
+    });
+  });
+
+  it('refreshes evidence from earlier discovery runs', () => {
+    const graph = new ServiceGraph();
+    mergeDiscoveredDependencies(graph, discovery());
+
+    const rerun = discovery();
+    rerun.dependencies = rerun.dependencies.filter((dep) => dep.provider === 'aws:security-group');
+    const summary = mergeDiscoveredDependencies(graph, rerun);
+
+    expect(summary).toEqual({ servicesAdded: 0, dependenciesAdded: 0, dependenciesRemoved: 0 });
+    expect(graph.getDependency('checkout', 'orders-db')?.metadata.providers).toEqual([
+      'aws:security-group',
+    ]);
+  });
+
+  it('prunes edges a complete run no longer finds and keeps when they were first seen', () => {
+    const graph = new ServiceGraph();
+    mergeDiscoveredDependencies(graph, discovery(), new Date('2026-05-01T00:00:00Z'));
+
+    const rerun = discovery();
+    rerun.dependencies = rerun.dependencies.filter((dep) => dep.target === 'orders-db');
+
+    // us-east-1 reported warnings, so a missing edge may just not have been looked at
+    mergeDiscoveredDependencies(graph, { ...rerun, complete: ['kubernetes:prod'] });
+    expect(graph.getDependency('checkout', 'payments')).toBeDefined();
+
+    // A run over another region says nothing about edges found in us-east-1
+    mergeDiscoveredDependencies(graph, { ...rerun, complete: ['aws:us-west-2'] });
+    expect(graph.getDependency('checkout', 'payments')).toBeDefined();
+
+    const summary = mergeDiscoveredDependencies(
+      graph,
+      { ...rerun, complete: ['aws:us-east-1'] },
+      new Date('2026-06-01T00:00:00Z')
+    );
+    expect(summary).toMatchObject({ dependenciesRemoved: 1 });
+    expect(graph.getDependency('checkout', 'payments')).toBeUndefined();
+    expect(graph.getDependency('checkout', 'orders-db')?.metadata).toMatchObject({
+      discoveredAt: '2026-05-01T00:00:00.000Z',
+      lastSeenAt: '2026-06-01T00:00:00.000Z',
+    });
+  });
+
+  it('keeps edges whose scope was never recorded', () => {
+    const graph = new ServiceGraph();
+    const unscoped = discovery();
+    unscoped.dependencies = unscoped.dependencies.map(({ scope: _scope, ...dep }) => dep);
+    mergeDiscoveredDependencies(graph, unscoped);
+
+    const summary = mergeDiscoveredDependencies(graph, {
+      ...discovery(),
+      dependencies: [],
+      complete: ['aws:us-east-1'],
+    });
+    expect(summary).toMatchObject({ dependenciesRemoved: 0 });
+    expect(graph.getDependency('checkout', 'payments')).toBeDefined();
+  });
+});
@@ -0,0 +1,679 @@
+/**
+ * AWS Dependency Discovery
+ *
+ * Collects ECS services, Lambda functions, load balancers, data stores and
+ * security groups for a region, then infers dependencies from task definition
+ * environment variables, Lambda event source mappings, ALB target groups and
+ * security group references.
+ */
+
+import {
+  ECSClient,
+  ListClustersCommand,
+  ListServicesCommand,
+  DescribeServicesCommand,
+  DescribeTaskDefinitionCommand,
+} from '@aws-sdk/client-ecs';
+import {
+  LambdaClient,
+  ListFunctionsCommand,
+  ListEventSourceMappingsCommand,
+} from '@aws-sdk/client-lambda';
+import {
+  ElasticLoadBalancingV2Client,
+  DescribeLoadBalancersCommand,
+  DescribeTargetGroupsCommand,
+} from '@aws-sdk/client-elastic-load-balancing-v2';
+import { EC2Client, DescribeSecurityGroupsCommand } from '@aws-sdk/client-ec2';
+import {
+  RDSClient,
+  DescribeDBInstancesCommand,
+  DescribeDBClustersCommand,
+} from '@aws-sdk/client-rds';
+import { ElastiCacheClient, DescribeCacheClustersCommand } from '@aws-sdk/client-elasticache';
+import { DynamoDBClient, ListTablesCommand } from '@aws-sdk/client-dynamodb';
+import { getClient } from '../../providers/aws/client';
+import {
+  discoveryScope,
+  edgeTypeForNode,
+  emptyDiscoveryResult,
+  extractHostnames,
+  type DiscoveredService,
+  type DiscoveryResult,
+} from './common';
+
+export interface AwsComputeResource {
+  name: string;
+  arn: string;
+  securityGroups: string[];
+  environment: Record<string, string>;
+}
+
+export interface AwsEcsService extends AwsComputeResource {
+  cluster: string;
+  targetGroupArns: string[];
+}
+
+export interface AwsDataStore {
+  name: string;
+  type: 'database' | 'cache';
+  engine?: string;
+  endpoints: string[];
+  securityGroups: string[];
+}
+
+export interface AwsLoadBalancer {
+  name: string;
+  arn: string;
+  dnsName: string;
+  securityGroups: string[];
+}
+
+export interface AwsSecurityGroup {
+  id: string;
+  name?: string;
+  /** Ingress rules that reference another security group */
+  ingressFrom: Array<{ groupId: string; protocol?: string; fromPort?: number; toPort?: number }>;
+}
+
+/**
+ * Snapshot of the AWS resources relevant to dependency inference
+ */
+export interface AwsInventory {
+  region: string;
+  ecsServices: AwsEcsService[];
+  lambdaFunctions: AwsComputeResource[];
+  eventSourceMappings: Array<{ functionArn: string; eventSourceArn: string }>;
+  dataStores: AwsDataStore[];
+  dynamoTables: string[];
+  loadBalancers: AwsLoadBalancer[];
+  targetGroups: Array<{ arn: string; name: string; loadBalancerArns: string[] }>;
+  securityGroups: AwsSecurityGroup[];
+}
+
+/**
+ * Collect the AWS inventory for a region. Each resource family is collected
+ * independently so missing permissions only drop that part of the picture.
+ */
+export async function collectAwsInventory(
+  region: string,
+  options: { accountName?: string; warnings?: string[] } = {}
+): Promise<AwsInventory> {
+  const clientOptions = { region, accountName: options.accountName };
+  const warnings = options.warnings || [];
+
+  const attempt = async <T>(label: string, fn: () => Promise<T>, fallback: T): Promise<T> => {
+    try {
+      return await fn();
+    } catch (error) {
+      warnings.push(
+        `AWS ${label} (${region}): ${error instanceof Error ? error.message : String(error)}`
+      );
+      return fallback;
+    }
+  };
+
+  const [ecsServices, lambda, dataStores, dynamoTables, elb, securityGroups] = await Promise.all([
+    attempt('ECS', () => collectEcsServices(clientOptions), [] as AwsEcsService[]),
+    attempt('Lambda', () => collectLambda(clientOptions), {
+      functions: [] as AwsComputeResource[],
+      mappings: [] as AwsInventory['eventSourceMappings'],
+    }),
+    attempt('RDS/ElastiCache', () => collectDataStores(clientOptions), [] as AwsDataStore[]),
+    attempt('DynamoDB', () => collectDynamoTables(clientOptions), [] as string[]),
+    attempt('ELB', () => collectLoadBalancers(clientOptions), {
+      loadBalancers: [] as AwsLoadBalancer[],
+      targetGroups: [] as AwsInventory['targetGroups'],
+    }),
+    attempt(
+      'EC2 security groups',
+      () => collectSecurityGroups(clientOptions),
+      [] as AwsSecurityGroup[]
+    ),
+  ]);
+
+  return {
+    region,
+    ecsServices,
+    lambdaFunctions: lambda.functions,
+    eventSourceMappings: lambda.mappings,
+    dataStores,
+    dynamoTables,
+    loadBalancers: elb.loadBalancers,
+    targetGroups: elb.targetGroups,
+    securityGroups,
+  };
+}
+
+type ClientOptions = { region: string; accountName?: string };
+
+async function collectEcsServices(options: ClientOptions): Promise<AwsEcsService[]> {
+  const ecs = await getClient(ECSClient, options);
+  const services: AwsEcsService[] = [];
+  const taskDefinitions = new Map<string, Record<string, string>>();
+
+  const clusterArns: string[] = [];
+  let clusterToken: string | undefined;
+  do {
+    const response = await ecs.send(new ListClustersCommand({ nextToken: clusterToken }));
+    clusterArns.push(...(response.clusterArns || []));
+    clusterToken = response.nextToken;
+  } while (clusterToken);
+
+  for (const clusterArn of clusterArns) {
+    const serviceArns: string[] = [];
+    let serviceToken: string | undefined;
+    do {
+      const response = await ecs.send(
+        new ListServicesCommand({ cluster: clusterArn, nextToken: serviceToken })
+      );
+      serviceArns.push(...(response.serviceArns || []));
+      serviceToken = response.nextToken;
+    } while (serviceToken);
+
+    // DescribeServices accepts at most 10 services per call
+    for (let i = 0; i < serviceArns.length; i += 10) {
+      const response = await ecs.send(
+        new DescribeServicesCommand({ cluster: clusterArn, services: serviceArns.slice(i, i + 10) })
+      );
+
+      for (const service of response.services || []) {
+        const taskDefinitionArn = service.taskDefinition;
+        let environment: Record<string, string> = {};
+        if (taskDefinitionArn) {
+          if (!taskDefinitions.has(taskDefinitionArn)) {
+            const td = await ecs.send(
+              new DescribeTaskDefinitionCommand({ taskDefinition: taskDefinitionArn })
+            );
+            const env: Record<string, string> = {};
+            for (const container of td.taskDefinition?.containerDefinitions || []) {
+              for (const entry of container.environment || []) {
+                if (entry.name && entry.value) env[entry.name] = entry.value;
+              }
+            }
+            taskDefinitions.set(taskDefinitionArn, env);
+          }
+          environment = taskDefinitions.get(taskDefinitionArn) || {};
+        }
+
+        services.push({
+          name: service.serviceName || '',
+          arn: service.serviceArn || '',
+          cluster: clusterArn.split('/').pop() || clusterArn,
+          securityGroups: service.networkConfiguration?.awsvpcConfiguration?.securityGroups || [],
+          targetGroupArns: (service.loadBalancers || [])
+            .map((lb) => lb.targetGroupArn)
+            .filter((arn): arn is string => Boolean(arn)),
+          environment,
+        });
+      }
+    }
+  }
+
+  return services.filter((service) => service.name);
+}
+
+async function collectLambda(options: ClientOptions): Promise<{
+  functions: AwsComputeResource[];
+  mappings: AwsInventory['eventSourceMappings'];
+}> {
+  const lambda = await getClient(LambdaClient, options);
+  const functions: AwsComputeResource[] = [];
+  const mappings: AwsInventory['eventSourceMappings'] = [];
+
+  let marker: string | undefined;
+  do {
+    const response = await lambda.send(new ListFunctionsCommand({ Marker: marker }));
+    for (const fn of response.Functions || []) {
+      if (!fn.FunctionName) continue;
+      functions.push({
+        name: fn.FunctionName,
+        arn: fn.FunctionArn || '',
+        securityGroups: fn.VpcConfig?.SecurityGroupIds || [],
+        environment: fn.Environment?.Variables || {},
+      });
+    }
+    marker = response.NextMarker;
+  } while (marker);
+
+  let mappingMarker: string | undefined;
+  do {
+    const response = await lambda.send(
+      new ListEventSourceMappingsCommand({ Marker: mappingMarker })
+    );
+    for (const mapping of response.EventSourceMappings || []) {
+      if (mapping.FunctionArn && mapping.EventSourceArn) {
+        mappings.push({ functionArn: mapping.FunctionArn, eventSourceArn: mapping.EventSourceArn });
+      }
+    }
+    mappingMarker = response.NextMarker;
+  } while (mappingMarker);
+
+  return { functions, mappings };
+}
+
+async function collectDataStores(options: ClientOptions): Promise<AwsDataStore[]> {
+  const stores: AwsDataStore[] = [];
+  const rds = await getClient(RDSClient, options);
+
+  // Aurora clusters first so instances can be folded into their cluster
+  const clusterMembers = new Set<string>();
+  let marker: string | undefined;
+  do {
+    const response = await rds.send(new DescribeDBClustersCommand({ Marker: marker }));
+    for (const cluster of response.DBClusters || []) {
+      if (!cluster.DBClusterIdentifier) continue;
+      for (const member of cluster.DBClusterMembers || []) {
+        if (member.DBInstanceIdentifier) clusterMembers.add(member.DBInstanceIdentifier);
+      }
+      stores.push({
+        name: cluster.DBClusterIdentifier,
+        type: 'database',
+        engine: cluster.Engine,
+        endpoints: [cluster.Endpoint, cluster.ReaderEndpoint, ...(cluster.CustomEndpoints || [])]
+          .filter((endpoint): endpoint is string => Boolean(endpoint))
+          .map((endpoint) => endpoint.toLowerCase()),
+        securityGroups: (cluster.VpcSecurityGroups || [])
+          .map((sg) => sg.VpcSecurityGroupId)
+          .filter((id): id is string => Boolean(id)),
+      });
+    }
+    marker = response.Marker;
+  } while (marker);
+
+  let instanceMarker: string | undefined;
+  do {
+    const response = await rds.send(new DescribeDBInstancesCommand({ Marker: instanceMarker }));
+    for (const db of response.DBInstances || []) {
+      if (!db.DBInstanceIdentifier) continue;
+      const address = db.Endpoint?.Address?.toLowerCase();
+      const cluster = db.DBClusterIdentifier
+        ? stores.find((store) => store.name === db.DBClusterIdentifier)
+        : undefined;
+      if (cluster && clusterMembers.has(db.DBInstanceIdentifier)) {
+        if (address) cluster.endpoints.push(address);
+        continue;
+      }
+      stores.push({
+        name: db.DBInstanceIdentifier,
+        type: 'database',
+        engine: db.Engine,
+        endpoints: address ? [address] : [],
+        securityGroups: (db.VpcSecurityGroups || [])
+          .map((sg) => sg.VpcSecurityGroupId)
+          .filter((id): id is string => Boolean(id)),
+      });
+    }
+    instanceMarker = response.Marker;
+  } while (instanceMarker);
+
+  const elasticache = await getClient(ElastiCacheClient, options);
+  const caches = new Map<string, AwsDataStore>();
+  let cacheMarker: string | undefined;
+  do {
+    const response = await elasticache.send(
+      new DescribeCacheClustersCommand({ Marker: cacheMarker, ShowCacheNodeInfo: true })
+    );
+    for (const cluster of response.CacheClusters || []) {
+      const name = cluster.ReplicationGroupId || cluster.CacheClusterId;
+      if (!name) continue;
+      const store = caches.get(name) || {
+        name,
+        type: 'cache' as const,
+        engine: cluster.Engine,
+        endpoints: [],
+        securityGroups: [],
+      };
+      const endpoints = [
+        cluster.ConfigurationEndpoint?.Address,
+        ...(cluster.CacheNodes || []).map((node) => node.Endpoint?.Address),
+      ].filter((endpoint): endpoint is string => Boolean(endpoint));
+      store.endpoints.push(...endpoints.map((endpoint) => endpoint.toLowerCase()));
+      for (const sg of cluster.SecurityGroups || []) {
+        if (sg.SecurityGroupId && !store.securityGroups.includes(sg.SecurityGroupId)) {
+          store.securityGroups.push(sg.SecurityGroupId);
+        }
+      }
+      caches.set(name, store);
+    }
+    cacheMarker = response.Marker;
+  } while (cacheMarker);
+
+  return [...stores, ...caches.values()];
+}
+
+async function collectDynamoTables(options: ClientOptions): Promise<string[]> {
+  const dynamodb = await getClient(DynamoDBClient, options);
+  const tables: string[] = [];
+  let start: string | undefined;
+  do {
+    const response = await dynamodb.send(new ListTablesCommand({ ExclusiveStartTableName: start }));
+    tables.push(...(response.TableNames || []));
+    start = response.LastEvaluatedTableName;
+  } while (start);
+  return tables;
+}
+
+async function collectLoadBalancers(options: ClientOptions): Promise<{
+  loadBalancers: AwsLoadBalancer[];
+  targetGroups: AwsInventory['targetGroups'];
+}> {
+  const elb = await getClient(ElasticLoadBalancingV2Client, options);
+  const loadBalancers: AwsLoadBalancer[] = [];
+  const targetGroups: AwsInventory['targetGroups'] = [];
+
+  let marker: string | undefined;
+  do {
+    const response = await elb.send(new DescribeLoadBalancersCommand({ Marker: marker }));
+    for (const lb of response.LoadBalancers || []) {
+      if (!lb.LoadBalancerName || !lb.LoadBalancerArn) continue;
+      loadBalancers.push({
+        name: lb.LoadBalancerName,
+        arn: lb.LoadBalancerArn,
+        dnsName: (lb.DNSName || '').toLowerCase(),
+        securityGroups: lb.SecurityGroups || [],
+      });
+    }
+    marker = response.NextMarker;
+  } while (marker);
+
+  let targetGroupMarker: string | undefined;
+  do {
+    const response = await elb.send(new DescribeTargetGroupsCommand({ Marker: targetGroupMarker }));
+    for (const tg of response.TargetGroups || []) {
+      if (!tg.TargetGroupArn) continue;
+      targetGroups.push({
+        arn: tg.TargetGroupArn,
+        name: tg.TargetGroupName || tg.TargetGroupArn,
+        loadBalancerArns: tg.LoadBalancerArns || [],
+      });
+    }
+    targetGroupMarker = response.NextMarker;
+  } while (targetGroupMarker);
+
+  return { loadBalancers, targetGroups };
+}
+
+async function collectSecurityGroups(options: ClientOptions): Promise<AwsSecurityGroup[]> {
+  const ec2 = await getClient(EC2Client, options);
+  const groups: AwsSecurityGroup[] = [];
+
+  let nextToken: string | undefined;
+  do {
+    const response = await ec2.send(new DescribeSecurityGroupsCommand({ NextToken: nextToken }));
+    for (const group of response.SecurityGroups || []) {
+      if (!group.GroupId) continue;
+      const ingressFrom: AwsSecurityGroup['ingressFrom'] = [];
+      for (const permission of group.IpPermissions || []) {
+        for (const pair of permission.UserIdGroupPairs || []) {
+          if (!pair.GroupId) continue;
+          ingressFrom.push({
+            groupId: pair.GroupId,
+            protocol: permission.IpProtocol,
+            fromPort: permission.FromPort,
+            toPort: permission.ToPort,
+          });
+        }
+      }
+      groups.push({ id: group.GroupId, name: group.GroupName, ingressFrom });
+    }
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return groups;
+}
+
+/**
+ * Infer service dependencies from an AWS inventory snapshot
+ */
+export function inferAwsDependencies(inventory: AwsInventory): DiscoveryResult {
+  const result = emptyDiscoveryResult();
+  const services = new Map<string, DiscoveredService>();
+  const base = { provider: 'aws', region: inventory.region };
+  const scope = discoveryScope('aws', inventory.region);
+
+  const addService = (service: DiscoveredService): DiscoveredService => {
+    const existing = services.get(service.name);
+    if (existing) return existing;
+    services.set(service.name, service);
+    return service;
+  };
+
+  for (const service of inventory.ecsServices) {
+    addService({
+      name: service.name,
+      type: 'service',
+      metadata: { ...base, resource: 'ecs-service', arn: service.arn, cluster: service.cluster },
+    });
+  }
+  for (const fn of inventory.lambdaFunctions) {
+    addService({
+      name: fn.name,
+      type: 'service',
+      metadata: { ...base, resource: 'lambda', arn: fn.arn },
+    });
+  }
+  for (const store of inventory.dataStores) {
+    addService({
+      name: store.name,
+      type: store.type,
+      metadata: {
+        ...base,
+        resource: store.type === 'cache' ? 'elasticache' : 'rds',
+        engine: store.engine,
+      },
+    });
+  }
+  for (const table of inventory.dynamoTables) {
+    addService({ name: table, type: 'database', metadata: { ...base, resource: 'dynamodb' } });
+  }
+  for (const lb of inventory.loadBalancers) {
+    addService({
+      name: lb.name,
+      type: 'infrastructure',
+      metadata: { ...base, resource: 'load-balancer', arn: lb.arn },
+    });
+  }
+
+  // Hostname -> resource name for endpoint matching
+  const endpointOwners = new Map<string, string>();
+  for (const store of inventory.dataStores) {
+    for (const endpoint of store.endpoints) endpointOwners.set(endpoint, store.name);
+  }
+  for (const lb of inventory.loadBalancers) {
+    if (lb.dnsName) endpointOwners.set(lb.dnsName, lb.name);
+  }
+  const ecsNames = new Set(inventory.ecsServices.map((service) => service.name.toLowerCase()));
+  const dynamoTables = new Set(inventory.dynamoTables);
+
+  const resolveArn = (arn: string): DiscoveredService | undefined => {
+    const parts = arn.split(':');
+    const service = parts[2];
+    const resource = parts.slice(5).join(':');
+    switch (service) {
+      case 'sqs':
+        return addService({
+          name: resource,
+          type: 'queue',
+          metadata: { ...base, resource: 'sqs', arn },
+        });
+      case 'sns':
+        return addService({
+          name: resource,
+          type: 'queue',
+          metadata: { ...base, resource: 'sns', arn },
+        });
+      case 'kinesis': {
+        const name = resource.replace(/^stream\//, '');
+        return addService({ name, type: 'queue', metadata: { ...base, resource: 'kinesis', arn } });
+      }
+      case 'dynamodb': {
+        const name = resource.replace(/^table\//, '').split('/')[0];
+        return addService({ name, type: 'database', metadata: { ...base, resource: 'dynamodb' } });
+      }
+      case 'lambda': {
+        const name = resource.replace(/^function:/, '').split(':')[0];
+        return services.get(name);
+      }
+      default:
+        return undefined;
+    }
+  };
+
+  const resolveEnvReferences = (key: string, value: string): DiscoveredService[] => {
+    const targets: DiscoveredService[] = [];
+
+    for (const arn of value.match(/arn:aws[\w-]*:[a-z0-9-]+:[^\s,"']+/g) || []) {
+      const target = resolveArn(arn);
+      if (target) targets.push(target);
+    }
+
+    for (const match of value.matchAll(
+      /https:\/\/sqs\.[a-z0-9-]+\.amazonaws\.com\/\d+\/([\w-]+(?:\.fifo)?)/g
+    )) {
+      targets.push(
+        addService({ name: match[1], type: 'queue', metadata: { ...base, resource: 'sqs' } })
+      );
+    }
+
+    for (const host of extractHostnames(key, value)) {
+      const owner = endpointOwners.get(host);
+      if (owner) {
+        targets.push(services.get(owner)!);
+        continue;
+      }
+      // ECS Service Connect / Cloud Map names: `orders`, `orders.internal`
+      const label = host.split('.')[0];
+      if (!host.endsWith('amazonaws.com') && ecsNames.has(label)) {
+        const target = inventory.ecsServices.find(
+          (service) => service.name.toLowerCase() === label
+        );
+        if (target) targets.push(services.get(target.name)!);
+      }
+    }
+
+    if (dynamoTables.has(value) && /TABLE/i.test(key)) {
+      targets.push(services.get(value)!);
+    }
+
+    return targets;
+  };
+
+  const addEnvDependencies = (
+    source: AwsComputeResource,
+    provider: string,
+    location: string
+  ): void => {
+    for (const [key, value] of Object.entries(source.environment)) {
+      for (const target of resolveEnvReferences(key, value)) {
+        if (target.name === source.name) continue;
+        result.dependencies.push({
+          source: source.name,
+          target: target.name,
+          type: edgeTypeForNode(target.type),
+          provider,
+          scope,
+          evidence: `${location} env ${key} references ${target.name}`,
+        });
+      }
+    }
+  };
+
+  for (const service of inventory.ecsServices) {
+    addEnvDependencies(service, 'aws:ecs-env', 'task definition');
+  }
+  for (const fn of inventory.lambdaFunctions) {
+    addEnvDependencies(fn, 'aws:lambda-env', 'lambda');
+  }
+
+  // Lambda consumers depend on their event sources
+  for (const mapping of inventory.eventSourceMappings) {
+    const fnName = mapping.functionArn.split(':function:')[1]?.split(':')[0];
+    const consumer = fnName ? services.get(fnName) : undefined;
+    const source = resolveArn(mapping.eventSourceArn);
+    if (!consumer || !source) continue;
+    result.dependencies.push({
+      source: consumer.name,
+      target: source.name,
+      type: 'async',
+      protocol: source.metadata.resource as string | undefined,
+      provider: 'aws:lambda-event-source',
+      scope,
+      evidence: `event source mapping from ${source.name}`,
+    });
+  }
+
+  // Load balancers depend on the ECS services registered in their target groups
+  for (const tg of inventory.targetGroups) {
+    const backends = inventory.ecsServices.filter((service) =>
+      service.targetGroupArns.includes(tg.arn)
+    );
+    for (const lbArn of tg.loadBalancerArns) {
+      const lb = inventory.loadBalancers.find((candidate) => candidate.arn === lbArn);
+      if (!lb) continue;
+      for (const backend of backends) {
+        result.dependencies.push({
+          source: lb.name,
+          target: backend.name,
+          type: 'sync',
+          protocol: 'http',
+          provider: 'aws:alb-target-group',
+          scope,
+          evidence: `target group ${tg.name}`,
+        });
+      }
+    }
+  }
+
+  // Security group references: members of A depend on members of B when B allows ingress from A
+  const membersByGroup = new Map<string, DiscoveredService[]>();
+  const addMember = (groupId: string, name: string) => {
+    const service = services.get(name);
+    if (!service) return;
+    const members = membersByGroup.get(groupId) || [];
+    members.push(service);
+    membersByGroup.set(groupId, members);
+  };
+  for (const service of inventory.ecsServices) {
+    service.securityGroups.forEach((sg) => addMember(sg, service.name));
+  }
+  for (const fn of inventory.lambdaFunctions) {
+    fn.securityGroups.forEach((sg) => addMember(sg, fn.name));
+  }
+  for (const store of inventory.dataStores) {
+    store.securityGroups.forEach((sg) => addMember(sg, store.name));
+  }
+  for (const lb of inventory.loadBalancers) {
+    lb.securityGroups.forEach((sg) => addMember(sg, lb.name));
+  }
+
+  for (const group of inventory.securityGroups) {
+    const targets = membersByGroup.get(group.id) || [];
+    for (const rule of group.ingressFrom) {
+      if (rule.groupId === group.id) continue;
+      const sources = membersByGroup.get(rule.groupId) || [];
+      const ports =
+        rule.fromPort === undefined
+          ? 'all ports'
+          : rule.fromPort === rule.toPort
+            ? `${rule.protocol || 'tcp'}/${rule.fromPort}`
+            : `${rule.protocol || 'tcp'}/${rule.fromPort}-${rule.toPort}`;
+      for (const source of sources) {
+        for (const target of targets) {
+          if (source.name === target.name) continue;
+          result.dependencies.push({
+            source: source.name,
+            target: target.name,
+            type: edgeTypeForNode(target.type),
+            provider: 'aws:security-group',
+            scope,
+            evidence: `${group.id} allows ${ports} from ${rule.groupId}`,
+          });
+        }
+      }
+    }
+  }
+
+  result.services = Array.from(services.values());
+  return result;
+}
@@ -0,0 +1,101 @@
+/**
+ * Dependency Discovery - shared types and reference extraction
+ */
+
+import type { ServiceNode, DependencyEdge } from '../store/graph-store';
+
+/**
+ * A service or resource found during discovery
+ */
+export interface DiscoveredService {
+  name: string;
+  type: ServiceNode['type'];
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * A dependency inferred from infrastructure configuration.
+ * `source` depends on `target`; both are service names.
+ */
+export interface DiscoveredDependency {
+  source: string;
+  target: string;
+  type: DependencyEdge['type'];
+  protocol?: string;
+  /** Which discovery pass found this (e.g. aws:ecs-env, kubernetes:ingress) */
+  provider: string;
+  /** Human-readable reason, never containing configuration values */
+  evidence: string;
+  /** Region or cluster the pass scanned (e.g. aws:us-east-1, kubernetes:prod) */
+  scope?: string;
+}
+
+export interface DiscoveryResult {
+  services: DiscoveredService[];
+  dependencies: DiscoveredDependency[];
+  warnings: string[];
+  /**
+   * Scopes that were scanned without warnings, so edges found there before
+   * and no longer reported can be pruned
+   */
+  complete?: string[];
+}
+
+export function emptyDiscoveryResult(): DiscoveryResult {
+  return { services: [], dependencies: [], warnings: [] };
+}
+
+/**
+ * Scope of a discovery pass: the AWS region or Kubernetes context it scanned
+ */
+export function discoveryScope(provider: 'aws' | 'kubernetes', location?: string): string {
+  return location ? `${provider}:${location}` : provider;
+}
+
+/**
+ * Edge type implied by the target's node type
+ */
+export function edgeTypeForNode(type: ServiceNode['type']): DependencyEdge['type'] {
+  switch (type) {
+    case 'database':
+    case 'cache':
+    case 'queue':
+    case 'external':
+      return type;
+    default:
+      return 'sync';
+  }
+}
+
+const HOST_KEY_PATTERN = /(HOST|HOSTNAME|ADDR|ADDRESS|ENDPOINT|URL|URI|SERVER|DSN)S?$/i;
+const HOSTNAME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+
+/**
+ * Extract hostnames referenced by an environment variable.
+ *
+ * Handles URLs (`postgres://user:pw@db.internal:5432/app`), comma separated
+ * `host:port` lists, and bare hostnames in variables named like *_HOST.
+ */
+export function extractHostnames(key: string, value: string): string[] {
+  const hosts = new Set<string>();
+
+  for (const part of value.split(/[,\s]+/).filter(Boolean)) {
+    const url = part.match(/^[a-z][a-z0-9+.-]*:\/\/(?:[^@/]*@)?([^:/?#]+)/i);
+    if (url) {
+      hosts.add(url[1].toLowerCase());
+      continue;
+    }
+
+    const hostPort = part.match(/^([a-z0-9.-]+):\d+(?:\/.*)?$/i);
+    if (hostPort && HOSTNAME_PATTERN.test(hostPort[1])) {
+      hosts.add(hostPort[1].toLowerCase());
+      continue;
+    }
+
+    if (HOST_KEY_PATTERN.test(key) && HOSTNAME_PATTERN.test(part) && !/^\d+$/.test(part)) {
+      hosts.add(part.toLowerCase());
+    }
+  }
+
+  return Array.from(hosts);
+}
@@ -0,0 +1,196 @@
+/**
+ * Dependency Discovery
+ *
+ * Infers service dependencies from live infrastructure (AWS, Kubernetes) and
+ * merges them into the service graph with provenance metadata. Edges declared
+ * in services.yaml or architecture docs always take precedence. Discovered
+ * edges that a complete run no longer finds are removed.
+ */
+
+import type { ServiceGraph } from '../store/graph-store';
+import { resolveGraphService, toServiceId, type GraphImportSummary } from '../store/graph-import';
+import {
+  createKubernetesClient,
+  type KubernetesClientConfig,
+} from '../../providers/kubernetes/client';
+import { collectAwsInventory, inferAwsDependencies } from './aws';
+import { collectKubernetesInventory, inferKubernetesDependencies } from './kubernetes';
+import {
+  discoveryScope,
+  emptyDiscoveryResult,
+  type DiscoveredService,
+  type DiscoveryResult,
+} from './common';
+
+export * from './common';
+export { collectAwsInventory, inferAwsDependencies, type AwsInventory } from './aws';
+export {
+  collectKubernetesInventory,
+  inferKubernetesDependencies,
+  type KubernetesInventory,
+} from './kubernetes';
+
+export interface DiscoveryOptions {
+  aws?: { regions: string[]; accountName?: string };
+  kubernetes?: KubernetesClientConfig;
+}
+
+export interface DiscoveryMergeSummary extends GraphImportSummary {
+  /** Edges from earlier discovery runs that a complete run no longer found */
+  dependenciesRemoved: number;
+}
+
+/**
+ * Run every enabled discovery pass. Provider failures are reported as
+ * warnings so one unreachable provider doesn't block the others. Each AWS
+ * region and Kubernetes context scanned without warnings is marked complete.
+ */
+export async function discoverServiceDependencies(
+  options: DiscoveryOptions
+): Promise<DiscoveryResult> {
+  const results: DiscoveryResult[] = [];
+  const complete: string[] = [];
+
+  if (options.aws) {
+    for (const region of options.aws.regions) {
+      const warnings: string[] = [];
+      const inventory = await collectAwsInventory(region, {
+        accountName: options.aws.accountName,
+        warnings,
+      });
+      const result = inferAwsDependencies(inventory);
+      result.warnings.push(...warnings);
+      results.push(result);
+      if (result.warnings.length === 0) {
+        complete.push(discoveryScope('aws', region));
+      }
+    }
+  }
+
+  if (options.kubernetes) {
+    const client = createKubernetesClient(options.kubernetes);
+    try {
+      if (!(await client.isAvailable())) {
+        throw new Error('kubectl not found');
+      }
+      const inventory = await collectKubernetesInventory(client);
+      const result = inferKubernetesDependencies(inventory);
+      results.push(result);
+      if (result.warnings.length === 0) {
+        complete.push(discoveryScope('kubernetes', inventory.context));
+      }
+    } catch (error) {
+      results.push({
+        ...emptyDiscoveryResult(),
+        warnings: [`Kubernetes: ${error instanceof Error ? error.message : String(error)}`],
+      });
+    }
+  }
+
+  return results.reduce(
+    (combined, result) => {
+      combined.services.push(...result.services);
+      combined.dependencies.push(...result.dependencies);
+      combined.warnings.push(...result.warnings);
+      return combined;
+    },
+    { ...emptyDiscoveryResult(), complete }
+  );
+}
+
+/**
+ * Merge discovered services and dependencies into the graph.
+ *
+ * Existing services are never modified. Existing edges from other sources
+ * are left alone; edges from earlier discovery runs are refreshed, with
+ * providers and evidence accumulated when several passes find the same edge.
+ * Every edge found records when it was last seen and the scopes (AWS
+ * regions, Kubernetes contexts) it was found in. Edges from earlier runs
+ * that this run did not find are removed once every scope that found them
+ * has been scanned completely; edges with no recorded scope are kept.
+ */
+export function mergeDiscoveredDependencies(
+  graph: ServiceGraph,
+  result: DiscoveryResult,
+  seenAt: Date = new Date()
+): DiscoveryMergeSummary {
+  const before = graph.getStats();
+  const discovered = new Map<string, DiscoveredService>(
+    result.services.map((service) => [service.name, service])
+  );
+  const refreshed = new Set<string>();
+
+  const ensureNode = (name: string, provider: string) => {
+    const existing = resolveGraphService(graph, name);
+    if (existing) return existing;
+
+    const service = discovered.get(name);
+    return graph.addService({
+      id: toServiceId(name),
+      name,
+      type: service?.type || 'service',
+      tags: [],
+      metadata: { ...service?.metadata, provider, source: 'discovery' },
+    });
+  };
+
+  for (const dependency of result.dependencies) {
+    const source = ensureNode(dependency.source, dependency.provider);
+    const target = ensureNode(dependency.target, dependency.provider);
+    if (source.id === target.id) continue;
+
+    const existing = graph.getDependency(source.id, target.id);
+    if (existing && existing.metadata.source !== 'discovery') continue;
+
+    // Start fresh the first time this run touches an edge from a previous run
+    const key = `${source.id}->${target.id}`;
+    const previous = existing && refreshed.has(key) ? existing : undefined;
+    refreshed.add(key);
+
+    const providers = new Set<string>((previous?.metadata.providers as string[]) || []);
+    const evidence = new Set<string>((previous?.metadata.evidence as string[]) || []);
+    const scopes = new Set<string>((previous?.metadata.scopes as string[]) || []);
+    providers.add(dependency.provider);
+    evidence.add(dependency.evidence);
+    if (dependency.scope) {
+      scopes.add(dependency.scope);
+    }
+
+    graph.addDependency({
+      source: source.id,
+      target: target.id,
+      type: previous?.type || dependency.type,
+      protocol: previous?.protocol || dependency.protocol,
+      criticality: existing?.criticality || 'degraded',
+      metadata: {
+        source: 'discovery',
+        providers: Array.from(providers),
+        evidence: Array.from(evidence),
+        scopes: Array.from(scopes),
+        discoveredAt: (existing?.metadata.discoveredAt as string) || seenAt.toISOString(),
+        lastSeenAt: seenAt.toISOString(),
+      },
+    });
+  }
+
+  const after = graph.getStats();
+  const complete = new Set(result.complete ?? []);
+  let dependenciesRemoved = 0;
+  for (const edge of graph.getAllEdges()) {
+    const scopes = (edge.metadata.scopes as string[] | undefined) ?? [];
+    const stale =
+      edge.metadata.source === 'discovery' &&
+      !refreshed.has(`${edge.source}->${edge.target}`) &&
+      scopes.length > 0 &&
+      scopes.every((scope) => complete.has(scope));
+    if (stale && graph.removeDependency(edge.source, edge.target)) {
+      dependenciesRemoved++;
+    }
+  }
+
+  return {
+    servicesAdded: after.nodeCount - before.nodeCount,
+    dependenciesAdded: after.edgeCount - before.edgeCount,
+    dependenciesRemoved,
+  };
+}
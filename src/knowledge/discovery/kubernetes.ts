@@ -0,0 +1,251 @@
+/**
+ * Kubernetes Dependency Discovery
+ *
+ * Maps Services onto the Deployments/StatefulSets they select, Ingresses onto
+ * the workloads behind their backend Services, and container environment
+ * variables onto in-cluster Service DNS names.
+ */
+
+import type { KubernetesClient } from '../../providers/kubernetes/client';
+import {
+  discoveryScope,
+  emptyDiscoveryResult,
+  extractHostnames,
+  type DiscoveredService,
+  type DiscoveryResult,
+} from './common';
+
+export interface KubernetesWorkload {
+  name: string;
+  namespace: string;
+  kind: 'Deployment' | 'StatefulSet';
+  podLabels: Record<string, string>;
+  environment: Record<string, string>;
+}
+
+export interface KubernetesService {
+  name: string;
+  namespace: string;
+  selector: Record<string, string>;
+}
+
+export interface KubernetesIngress {
+  name: string;
+  namespace: string;
+  hosts: string[];
+  backendServices: string[];
+}
+
+/**
+ * Snapshot of the cluster resources relevant to dependency inference
+ */
+export interface KubernetesInventory {
+  context?: string;
+  workloads: KubernetesWorkload[];
+  services: KubernetesService[];
+  ingresses: KubernetesIngress[];
+}
+
+interface RawMetadata {
+  name: string;
+  namespace?: string;
+}
+
+interface RawWorkload {
+  kind?: string;
+  metadata: RawMetadata;
+  spec?: {
+    template?: {
+      metadata?: { labels?: Record<string, string> };
+      spec?: {
+        containers?: Array<{ env?: Array<{ name: string; value?: string }> }>;
+      };
+    };
+  };
+}
+
+interface RawService {
+  metadata: RawMetadata;
+  spec?: { selector?: Record<string, string> };
+}
+
+interface RawIngressBackend {
+  service?: { name?: string };
+  serviceName?: string;
+}
+
+interface RawIngress {
+  metadata: RawMetadata;
+  spec?: {
+    defaultBackend?: RawIngressBackend;
+    backend?: RawIngressBackend;
+    rules?: Array<{
+      host?: string;
+      http?: { paths?: Array<{ backend?: RawIngressBackend }> };
+    }>;
+  };
+}
+
+/**
+ * Collect workloads, services and ingresses from every namespace
+ */
+export async function collectKubernetesInventory(
+  client: KubernetesClient
+): Promise<KubernetesInventory> {
+  const [deployments, statefulSets, services, ingresses] = await Promise.all([
+    client.listAllNamespaces<RawWorkload>('deployments'),
+    client.listAllNamespaces<RawWorkload>('statefulsets'),
+    client.listAllNamespaces<RawService>('services'),
+    client.listAllNamespaces<RawIngress>('ingresses'),
+  ]);
+
+  const toWorkload = (raw: RawWorkload, kind: KubernetesWorkload['kind']): KubernetesWorkload => {
+    const environment: Record<string, string> = {};
+    for (const container of raw.spec?.template?.spec?.containers || []) {
+      for (const entry of container.env || []) {
+        // valueFrom references (secrets, config maps) carry no inline value
+        if (entry.value) environment[entry.name] = entry.value;
+      }
+    }
+    return {
+      name: raw.metadata.name,
+      namespace: raw.metadata.namespace || 'default',
+      kind,
+      podLabels: raw.spec?.template?.metadata?.labels || {},
+      environment,
+    };
+  };
+
+  return {
+    context: (await client.getCurrentContext()) || undefined,
+    workloads: [
+      ...deployments.map((raw) => toWorkload(raw, 'Deployment')),
+      ...statefulSets.map((raw) => toWorkload(raw, 'StatefulSet')),
+    ],
+    services: services.map((raw) => ({
+      name: raw.metadata.name,
+      namespace: raw.metadata.namespace || 'default',
+      selector: raw.spec?.selector || {},
+    })),
+    ingresses: ingresses.map((raw) => {
+      const backends = new Set<string>();
+      const addBackend = (backend?: RawIngressBackend) => {
+        const name = backend?.service?.name || backend?.serviceName;
+        if (name) backends.add(name);
+      };
+      addBackend(raw.spec?.defaultBackend);
+      addBackend(raw.spec?.backend);
+      for (const rule of raw.spec?.rules || []) {
+        for (const path of rule.http?.paths || []) addBackend(path.backend);
+      }
+      return {
+        name: raw.metadata.name,
+        namespace: raw.metadata.namespace || 'default',
+        hosts: (raw.spec?.rules || [])
+          .map((rule) => rule.host)
+          .filter((host): host is string => Boolean(host)),
+        backendServices: Array.from(backends),
+      };
+    }),
+  };
+}
+
+/**
+ * Infer service dependencies from a Kubernetes inventory snapshot
+ */
+export function inferKubernetesDependencies(inventory: KubernetesInventory): DiscoveryResult {
+  const result = emptyDiscoveryResult();
+  const services = new Map<string, DiscoveredService>();
+  const base = { provider: 'kubernetes', ...(inventory.context && { context: inventory.context }) };
+  const scope = discoveryScope('kubernetes', inventory.context);
+
+  for (const workload of inventory.workloads) {
+    if (services.has(workload.name)) continue;
+    services.set(workload.name, {
+      name: workload.name,
+      type: 'service',
+      metadata: { ...base, kind: workload.kind, namespace: workload.namespace },
+    });
+  }
+
+  // Kubernetes Service -> workloads whose pod labels match its selector
+  const selected = new Map<string, KubernetesWorkload[]>();
+  for (const service of inventory.services) {
+    const selector = Object.entries(service.selector);
+    if (selector.length === 0) continue;
+    const matches = inventory.workloads.filter(
+      (workload) =>
+        workload.namespace === service.namespace &&
+        selector.every(([key, value]) => workload.podLabels[key] === value)
+    );
+    if (matches.length > 0) {
+      selected.set(`${service.namespace}/${service.name}`, matches);
+    }
+  }
+
+  // DNS names a Service answers to, resolved relative to the caller's namespace
+  const resolveHost = (host: string, callerNamespace: string): KubernetesService | undefined => {
+    const parts = host.replace(/\.$/, '').split('.');
+    // svc, svc.ns, svc.ns.svc, svc.ns.svc.cluster.local
+    if (parts.length > 2 && parts[2] !== 'svc') {
+      return undefined;
+    }
+    const [name, namespace = callerNamespace] = parts;
+    return inventory.services.find(
+      (service) => service.name === name && service.namespace === namespace
+    );
+  };
+
+  for (const workload of inventory.workloads) {
+    for (const [key, value] of Object.entries(workload.environment)) {
+      for (const host of extractHostnames(key, value)) {
+        const service = resolveHost(host, workload.namespace);
+        if (!service) continue;
+        for (const target of selected.get(`${service.namespace}/${service.name}`) || []) {
+          if (target.name === workload.name) continue;
+          result.dependencies.push({
+            source: workload.name,
+            target: target.name,
+            type: 'sync',
+            provider: 'kubernetes:service-selector',
+            scope,
+            evidence: `env ${key} references service ${service.namespace}/${service.name}`,
+          });
+        }
+      }
+    }
+  }
+
+  // Ingress -> workloads behind its backend services
+  for (const ingress of inventory.ingresses) {
+    const targets = ingress.backendServices.flatMap((backend) =>
+      (selected.get(`${ingress.namespace}/${backend}`) || []).map((workload) => ({
+        backend,
+        workload,
+      }))
+    );
+    if (targets.length === 0) continue;
+
+    const ingressName = `ingress/${ingress.name}`;
+    services.set(ingressName, {
+      name: ingressName,
+      type: 'infrastructure',
+      metadata: { ...base, kind: 'Ingress', namespace: ingress.namespace, hosts: ingress.hosts },
+    });
+
+    for (const { backend, workload } of targets) {
+      result.dependencies.push({
+        source: ingressName,
+        target: workload.name,
+        type: 'sync',
+        protocol: 'http',
+        provider: 'kubernetes:ingress',
+        scope,
+        evidence: `ingress ${ingress.namespace}/${ingress.name} routes to service ${backend}`,
+      });
+    }
+  }
+
+  result.services = Array.from(services.values());
+  return result;
+}
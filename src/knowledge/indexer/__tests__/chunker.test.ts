@@ -0,0 +1,126 @@
+/**
+ * Tests for structure-aware chunking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bodyLineOffset, chunkMarkdown, confluenceStorageToMarkdown } from '../chunker';
+
+const runbook = `# Redis pool exhaustion
+
+Use this when checkout reports redis timeouts.
+
+## Diagnosis
+
+| Symptom | Action |
+| --- | --- |
+| Timeouts | Check the pool |
+
+## Remediation
+
+1. Check the pods:
+
+\`\`\`bash
+# a comment, not a heading
+kubectl -n checkout get pods -l app=redis
+\`\`\`
+
+1. Restart checkout with \`kubectl rollout restart deployment/checkout\`.
+   Wait until the pods are ready.
+1. Raise the pool size:
+   \`\`\`sh
+   aws elasticache modify-replication-group \\
+     --replication-group-id redis-prod --apply-immediately
+   \`\`\`
+
+Escalate to the data team if errors continue.
+`;
+
+describe('chunkMarkdown', () => {
+  it('emits a chunk per procedure step with its lines and heading path', () => {
+    const chunks = chunkMarkdown('redis', runbook);
+    const steps = chunks.filter((chunk) => chunk.stepNumber);
+
+    expect(steps.map((chunk) => [chunk.stepNumber, chunk.lineStart, chunk.lineEnd])).toEqual([
+      [1, 13, 18],
+      [2, 20, 21],
+      [3, 22, 26],
+    ]);
+    expect(steps[0]).toMatchObject({
+      sectionTitle: 'Remediation',
+      headingPath: ['Redis pool exhaustion', 'Remediation'],
+      chunkType: 'procedure',
+    });
+    expect(steps[0].content).toContain('# a comment, not a heading');
+    expect(chunks[chunks.length - 1]).toMatchObject({
+      content: 'Escalate to the data team if errors continue.',
+      stepNumber: undefined,
+      lineStart: 28,
+    });
+  });
+
+  it('keeps tables whole under their heading', () => {
+    const table = chunkMarkdown('redis', runbook).find(
+      (chunk) => chunk.sectionTitle === 'Diagnosis'
+    );
+
+    expect(table?.content).toBe(
+      '## Diagnosis\n\n| Symptom | Action |\n| --- | --- |\n| Timeouts | Check the pool |'
+    );
+    expect(table?.lineStart).toBe(5);
+  });
+
+  it('tags commands with the operations they run', () => {
+    const steps = chunkMarkdown('redis', runbook).filter((chunk) => chunk.stepNumber);
+
+    expect(steps.map((chunk) => chunk.commands?.map((c) => [c.operation, c.mutating]))).toEqual([
+      [['kubernetes:Get', false]],
+      [['kubernetes:RolloutRestart', true]],
+      [['elasticache:ModifyReplicationGroup', true]],
+    ]);
+  });
+
+  it('numbers lines from the top of the file when given an offset', () => {
+    const raw = `---\ntitle: Redis\n---\n${runbook}`;
+    const body = raw.slice(raw.indexOf('# Redis'));
+    const chunks = chunkMarkdown('redis', body, { lineOffset: bodyLineOffset(raw, body) });
+
+    expect(chunks[0].lineStart).toBe(4);
+  });
+});
+
+describe('confluenceStorageToMarkdown', () => {
+  it('converts procedures, code macros and tables', () => {
+    const markdown = confluenceStorageToMarkdown(
+      '<h2>Remediation</h2>' +
+        '<ol><li><p>Check the pods</p>' +
+        '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">bash</ac:parameter>' +
+        '<ac:plain-text-body><![CDATA[kubectl get pods | grep <name>]]></ac:plain-text-body>' +
+        '</ac:structured-macro></li>' +
+        '<li>Restart<ul><li>api</li><li>worker</li></ul></li></ol>' +
+        '<table><tbody><tr><th>Symptom</th><th>Action</th></tr>' +
+        '<tr><td><p>Timeouts &amp; errors</p></td><td>Restart</td></tr></tbody></table>'
+    );
+
+    expect(markdown).toBe(
+      [
+        '## Remediation',
+        '',
+        '1. Check the pods',
+        '   ```bash',
+        '   kubectl get pods | grep <name>',
+        '   ```',
+        '2. Restart',
+        '   - api',
+        '   - worker',
+        '',
+        '| Symptom | Action |',
+        '| --- | --- |',
+        '| Timeouts & errors | Restart |',
+      ].join('\n')
+    );
+
+    const steps = chunkMarkdown('page', markdown).filter((chunk) => chunk.stepNumber);
+    expect(steps.map((chunk) => chunk.stepNumber)).toEqual([1, 2]);
+    expect(steps[0].commands?.[0].operation).toBe('kubernetes:Get');
+  });
+});
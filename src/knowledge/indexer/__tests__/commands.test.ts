@@ -0,0 +1,86 @@
+/**
+ * Tests for finding AWS and kubectl commands in runbooks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractShellCommands, findRunbookCommands, parseRunbookCommand } from '../commands';
+
+describe('runbook commands', () => {
+  it('names the AWS operation a command invokes', () => {
+    expect(
+      parseRunbookCommand('aws --region us-east-1 ecs update-service --cluster prod --service api')
+    ).toEqual({
+      command: 'aws --region us-east-1 ecs update-service --cluster prod --service api',
+      tool: 'aws',
+      operation: 'ecs:UpdateService',
+      mutating: true,
+    });
+    expect(parseRunbookCommand('aws ecs describe-services --cluster prod')).toMatchObject({
+      operation: 'ecs:DescribeServices',
+      mutating: false,
+    });
+    expect(parseRunbookCommand('aws s3 rm s3://bucket/key')).toMatchObject({
+      operation: 's3:DeleteObject',
+      mutating: true,
+    });
+    expect(parseRunbookCommand('aws s3api get-object --bucket b --key k out')).toMatchObject({
+      operation: 's3:GetObject',
+      mutating: false,
+    });
+  });
+
+  it('names kubectl operations like the Kubernetes mutation tool', () => {
+    expect(parseRunbookCommand('kubectl -n checkout scale deploy/api --replicas=0')).toMatchObject({
+      operation: 'kubernetes:Scale',
+      mutating: true,
+    });
+    expect(parseRunbookCommand('kubectl rollout undo deployment/api')).toMatchObject({
+      operation: 'kubernetes:RolloutUndo',
+      mutating: true,
+    });
+    expect(parseRunbookCommand('kubectl rollout status deployment/api')).toMatchObject({
+      operation: 'kubernetes:RolloutStatus',
+      mutating: false,
+    });
+    expect(parseRunbookCommand('kubectl auth can-i delete pods -n checkout')).toMatchObject({
+      operation: 'kubernetes:AuthCanI',
+      mutating: false,
+    });
+    expect(parseRunbookCommand('kubectl auth reconcile -f rbac.yaml')).toMatchObject({
+      operation: 'kubernetes:AuthReconcile',
+      mutating: true,
+    });
+    expect(parseRunbookCommand('kubectl delete po api-7d9f -n checkout')).toMatchObject({
+      operation: 'kubernetes:DeletePod',
+      mutating: true,
+    });
+    expect(parseRunbookCommand('sudo KUBECONFIG=/tmp/k kubectl get pods')).toMatchObject({
+      tool: 'kubectl',
+      operation: 'kubernetes:Get',
+    });
+    expect(parseRunbookCommand('systemctl restart nginx')).toBeNull();
+  });
+
+  it('splits shell scripts into commands', () => {
+    const script = [
+      '# find the pod',
+      '$ kubectl get pods -l app=api | grep Crash',
+      'aws ecs update-service \\',
+      '  --cluster prod --service api --force-new-deployment && echo done',
+      "aws logs filter-log-events --filter-pattern 'ERROR | WARN'",
+    ].join('\n');
+
+    expect(extractShellCommands(script)).toEqual([
+      'kubectl get pods -l app=api',
+      'grep Crash',
+      'aws ecs update-service --cluster prod --service api --force-new-deployment',
+      'echo done',
+      "aws logs filter-log-events --filter-pattern 'ERROR | WARN'",
+    ]);
+    expect(findRunbookCommands(script).map((c) => c.operation)).toEqual([
+      'kubernetes:Get',
+      'ecs:UpdateService',
+      'logs:FilterLogEvents',
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for embedding backends
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  HashingEmbedder,
+  OpenAIEmbedder,
+  cosineSimilarity,
+  createEmbedder,
+  embedderConfigFromStore,
+  embedTexts,
+} from '../embedder';
+
+describe('embedder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('embeds locally without a network', async () => {
+    const embedder = new HashingEmbedder({ dimensions: 256 });
+    const [redis, redisAgain, disk, empty] = await embedder.embed([
+      'Redis connection pool exhausted on checkout',
+      'checkout redis connection pool exhausted',
+      'Disk full on the logging hosts',
+      '',
+    ]);
+
+    expect(redis).toHaveLength(256);
+    expect(cosineSimilarity(redis, redisAgain)).toBeGreaterThan(
+      cosineSimilarity(redis, disk) + 0.3
+    );
+    expect(cosineSimilarity(redis, empty)).toBe(0);
+    expect(await embedder.embed(['Redis connection pool exhausted on checkout'])).toEqual([redis]);
+  });
+
+  it('calls OpenAI-compatible endpoints without an API key', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('OPENAI_API_KEY', '');
+
+    const embedder = new OpenAIEmbedder({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'nomic-embed-text',
+    });
+    const embeddings = await embedTexts(['first', 'second'], 'document', embedder);
+
+    expect(embeddings).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    expect(embedder.id).toBe('openai:nomic-embed-text');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/embeddings');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'nomic-embed-text',
+      input: ['first', 'second'],
+    });
+
+    // Cached
+    await embedTexts(['first'], 'document', embedder);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('chooses the local embedder when no API is configured', () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    expect(createEmbedder().id).toBe('local:hashing-v1');
+    expect(createEmbedder({ provider: 'bedrock' }).id).toBe('bedrock:amazon.titan-embed-text-v2:0');
+
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    const config = embedderConfigFromStore({
+      embeddingModel: 'text-embedding-3-large',
+      embedding: { provider: 'auto' },
+    });
+    expect(createEmbedder(config).id).toBe('openai:text-embedding-3-large');
+  });
+});
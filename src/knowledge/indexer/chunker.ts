@@ -0,0 +1,391 @@
+/**
+ * Chunker
+ *
+ * Splits knowledge documents into chunks along their structure. Sections
+ * follow the heading hierarchy, each step of a numbered procedure becomes its
+ * own chunk, and tables are kept whole. Shell code blocks and inline code are
+ * scanned for AWS CLI and kubectl commands, so each chunk records the
+ * operations it runs. Confluence pages are converted from storage format to
+ * markdown first.
+ */
+
+import type { KnowledgeChunk, RunbookCommand } from '../types';
+import { findRunbookCommands, parseRunbookCommand } from './commands';
+
+export interface ChunkOptions {
+  /** Lines in the source file before `content`, e.g. frontmatter */
+  lineOffset?: number;
+}
+
+interface Section {
+  headingPath: string[];
+  /** Index of the heading line, or -1 before the first heading */
+  heading: number;
+  start: number;
+  end: number;
+}
+
+interface Block {
+  kind: 'prose' | 'step' | 'table';
+  start: number;
+  end: number;
+  stepNumber?: number;
+}
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+// Top-level items only; indented numbers are sub-steps of the step above
+const STEP = /^(\d{1,3})[.)]\s+/;
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const TABLE_ROW = /^\s*\|/;
+
+const SHELL_LANGUAGES = new Set(['', 'bash', 'sh', 'shell', 'zsh', 'console', 'shell-session']);
+
+/**
+ * The fence open after a line, given the fence open before it
+ */
+function trackFence(line: string, fence: string | null): string | null {
+  const match = line.match(FENCE);
+  if (fence) {
+    return match && match[1][0] === fence[0] && match[1].length >= fence.length && !match[2]
+      ? null
+      : fence;
+  }
+  return match ? match[1] : null;
+}
+
+/**
+ * Split lines into sections at headings outside code blocks
+ */
+function splitSections(lines: string[]): Section[] {
+  const sections: Section[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  let current: Section = { headingPath: [], heading: -1, start: 0, end: -1 };
+  let fence: string | null = null;
+
+  lines.forEach((line, i) => {
+    const heading = fence ? null : line.match(HEADING);
+    fence = trackFence(line, fence);
+
+    if (heading) {
+      sections.push(current);
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, title: heading[2].trim() });
+      current = { headingPath: headings.map((h) => h.title), heading: i, start: i, end: i };
+    } else {
+      current.end = i;
+    }
+  });
+  sections.push(current);
+
+  return sections.filter((section) => section.end >= section.start);
+}
+
+/**
+ * Split a section into procedure steps, tables and the prose around them
+ */
+function splitBlocks(lines: string[], section: Section): Block[] {
+  const blocks: Block[] = [];
+  let current: Block = { kind: 'prose', start: section.start, end: section.start - 1 };
+  let fence: string | null = null;
+  let step = 0;
+
+  const hasContent = (block: Block) =>
+    lines
+      .slice(block.start, block.end + 1)
+      .some((line, i) => line.trim() && block.start + i !== section.heading);
+
+  // A leading heading stays with the prose or table after it. Steps start
+  // at their own line so they cite exactly.
+  const begin = (kind: Block['kind'], at: number, stepNumber?: number) => {
+    const content = hasContent(current);
+    if (content) {
+      blocks.push(current);
+    }
+    current =
+      content || kind === 'step'
+        ? { kind, start: at, end: at - 1, stepNumber }
+        : { kind, start: current.start, end: current.end, stepNumber };
+  };
+
+  for (let i = section.start; i <= section.end; i++) {
+    const line = lines[i];
+    if (fence || i === section.heading) {
+      fence = fence ? trackFence(line, fence) : null;
+      current.end = i;
+      continue;
+    }
+
+    const blank = !line.trim();
+    const opensFence = FENCE.test(line);
+    const stepMatch = line.match(STEP);
+
+    if (stepMatch) {
+      // Numbering continues within a list, so `1.` for every item still counts up
+      step = current.kind === 'step' ? step + 1 : Number(stepMatch[1]);
+      begin('step', i, step);
+    } else if (current.kind === 'step') {
+      const continues = blank || opensFence || /^\s/.test(line) || !!lines[i - 1]?.trim();
+      if (!continues) {
+        begin(TABLE_ROW.test(line) ? 'table' : 'prose', i);
+      }
+    } else if (TABLE_ROW.test(line)) {
+      if (current.kind !== 'table') {
+        begin('table', i);
+      }
+    } else if (current.kind === 'table' && !blank) {
+      begin('prose', i);
+    }
+
+    fence = trackFence(line, null);
+    current.end = i;
+  }
+
+  if (hasContent(current)) {
+    blocks.push(current);
+  }
+  return blocks;
+}
+
+/**
+ * AWS and kubectl commands in shell code blocks and inline code
+ */
+function findChunkCommands(content: string): RunbookCommand[] {
+  const commands: RunbookCommand[] = [];
+  const outsideFences: string[] = [];
+  let fence: string | null = null;
+  let language = '';
+  let code: string[] = [];
+
+  for (const line of content.split('\n')) {
+    const opening = fence ? null : line.match(FENCE);
+    const next = trackFence(line, fence);
+    if (opening) {
+      language = opening[2].toLowerCase();
+      code = [];
+    } else if (fence && !next) {
+      if (SHELL_LANGUAGES.has(language)) {
+        commands.push(...findRunbookCommands(code.join('\n')));
+      }
+    } else if (fence) {
+      code.push(line);
+    } else {
+      outsideFences.push(line);
+    }
+    fence = next;
+  }
+
+  for (const match of outsideFences.join('\n').matchAll(/`([^`\n]+)`/g)) {
+    const command = parseRunbookCommand(match[1]);
+    if (command) {
+      commands.push(command);
+    }
+  }
+
+  const seen = new Set<string>();
+  return commands.filter((command) => !seen.has(command.command) && seen.add(command.command));
+}
+
+/**
+ * Lines in a file before its body, such as frontmatter
+ */
+export function bodyLineOffset(raw: string, body: string): number {
+  const start = body ? raw.indexOf(body) : -1;
+  return start > 0 ? raw.slice(0, start).split('\n').length - 1 : 0;
+}
+
+/**
+ * Chunk markdown along its headings, procedure steps and tables
+ */
+export function chunkMarkdown(
+  documentId: string,
+  content: string,
+  options: ChunkOptions = {}
+): KnowledgeChunk[] {
+  const lines = content.split('\n');
+  const lineOffset = (options.lineOffset ?? 0) + 1;
+  const chunks: KnowledgeChunk[] = [];
+
+  for (const section of splitSections(lines)) {
+    for (const block of splitBlocks(lines, section)) {
+      let { start, end } = block;
+      while (!lines[start].trim()) start++;
+      while (!lines[end].trim()) end--;
+
+      const text = lines.slice(start, end + 1).join('\n');
+      const commands = findChunkCommands(text);
+      chunks.push({
+        id: `${documentId}_${chunks.length}`,
+        documentId,
+        content: text.trim(),
+        sectionTitle: section.headingPath[section.headingPath.length - 1],
+        headingPath: section.headingPath.length > 0 ? section.headingPath : undefined,
+        chunkType: block.kind === 'step' ? 'procedure' : inferChunkType(text),
+        stepNumber: block.stepNumber,
+        commands: commands.length > 0 ? commands : undefined,
+        lineStart: start + lineOffset,
+        lineEnd: end + lineOffset,
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Infer chunk type from content
+ */
+export function inferChunkType(content: string): KnowledgeChunk['chunkType'] {
+  const lower = content.toLowerCase();
+
+  if (content.includes('```')) {
+    return 'command';
+  }
+  if (lower.includes('step') || lower.includes('[ ]') || lower.includes('[x]')) {
+    return 'procedure';
+  }
+  if (lower.includes('if ') || lower.includes('when ') || lower.includes('decision')) {
+    return 'decision';
+  }
+  if (lower.includes('symptom') || lower.includes('overview') || lower.includes('background')) {
+    return 'context';
+  }
+
+  return 'reference';
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Text of a table cell or list item on one line */
+function flattenBlocks(html: string): string {
+  return html
+    .replace(/<\/?p(?:\s[^>]*)?>/gi, '\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+/**
+ * Convert Confluence storage format (XHTML) to markdown. Code macros become
+ * fenced blocks with their language, ordered lists keep their numbers,
+ * nested lists are indented and tables get a header row.
+ */
+export function confluenceStorageToMarkdown(html: string): string {
+  // Code is set aside so later rules don't rewrite it
+  const code: string[] = [];
+  const keep = (block: string) => `\n\n\uE000${code.push(block) - 1}\uE000\n\n`;
+  let md = html;
+
+  md = md.replace(
+    /<ac:structured-macro[^>]*ac:name="code"[^>]*>([\s\S]*?)<\/ac:structured-macro>/gi,
+    (_, body: string) => {
+      const language =
+        body.match(/<ac:parameter[^>]*ac:name="language"[^>]*>([^<]*)<\/ac:parameter>/i)?.[1] ?? '';
+      const text =
+        body.match(/<ac:plain-text-body><!\[CDATA\[([\s\S]*?)\]\]><\/ac:plain-text-body>/i)?.[1] ??
+        '';
+      return keep(`\`\`\`${language.trim()}\n${text.replace(/^\n+|\s+$/g, '')}\n\`\`\``);
+    }
+  );
+  md = md.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, text: string) =>
+    keep(`\`\`\`\n${decodeEntities(text.replace(/<[^>]+>/g, '')).trim()}\n\`\`\``)
+  );
+
+  // Callouts become quotes; other macros are dropped
+  md = md.replace(
+    /<ac:structured-macro[^>]*ac:name="(?:info|warning|note|tip)"[^>]*>[\s\S]*?<ac:rich-text-body>([\s\S]*?)<\/ac:rich-text-body>[\s\S]*?<\/ac:structured-macro>/gi,
+    (_, body: string) =>
+      `\n\n${flattenBlocks(body)
+        .split('\n')
+        .map((line) => `> ${line}`)
+        .join('\n')}\n\n`
+  );
+  md = md.replace(/<ac:structured-macro[^>]*>[\s\S]*?<\/ac:structured-macro>/gi, '');
+
+  // Task lists become checkbox lists
+  md = md.replace(
+    /<ac:task>[\s\S]*?<ac:task-status>(\w+)<\/ac:task-status>[\s\S]*?<ac:task-body>([\s\S]*?)<\/ac:task-body>[\s\S]*?<\/ac:task>/gi,
+    (_, status: string, body: string) => `<li>[${status === 'complete' ? 'x' : ' '}] ${body}</li>`
+  );
+  md = md.replace(/<ac:task-list>/gi, '<ul>').replace(/<\/ac:task-list>/gi, '</ul>');
+
+  // Convert headings
+  md = md.replace(
+    /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+    (_, level: string, text: string) => `\n\n${'#'.repeat(Number(level))} ${text.trim()}\n\n`
+  );
+
+  // Convert links and formatting
+  md = md.replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)');
+  md = md.replace(/<strong[^>]*>([\s\S]*?)<\/strong>/gi, '**$1**');
+  md = md.replace(/<b(?:\s[^>]*)?>([\s\S]*?)<\/b>/gi, '**$1**');
+  md = md.replace(/<em[^>]*>([\s\S]*?)<\/em>/gi, '*$1*');
+  md = md.replace(/<i(?:\s[^>]*)?>([\s\S]*?)<\/i>/gi, '*$1*');
+  md = md.replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, '`$1`');
+
+  // Convert tables, using the first row as the header
+  md = md.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_, body: string) => {
+    const rows = [...body.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map((row) =>
+      [...row[1].matchAll(/<t[hd](?:\s[^>]*)?>([\s\S]*?)<\/t[hd]>/gi)].map((cell) =>
+        flattenBlocks(cell[1].replace(/<br\s*\/?>/gi, ' '))
+          .replace(/\s+/g, ' ')
+          .replace(/\|/g, '\\|')
+      )
+    );
+    if (rows.length === 0) {
+      return '';
+    }
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells: string[]) =>
+      `| ${[...cells, ...new Array<string>(width - cells.length).fill('')].join(' | ')} |`;
+    const [header, ...rest] = rows;
+    return `\n\n${[line(header), line(new Array<string>(width).fill('---')), ...rest.map(line)].join('\n')}\n\n`;
+  });
+
+  // Convert lists from the innermost out, indenting nested lists under their item
+  const list = /<(ol|ul)(?:\s[^>]*)?>((?:(?!<(?:ol|ul)[\s>])[\s\S])*?)<\/\1>/i;
+  while (list.test(md)) {
+    md = md.replace(list, (_, tag: string, body: string) => {
+      const items = [...body.matchAll(/<li(?:\s[^>]*)?>([\s\S]*?)<\/li>/gi)].map((item, i) => {
+        const marker = tag.toLowerCase() === 'ol' ? `${i + 1}.` : '-';
+        const [first, ...rest] = flattenBlocks(item[1]).split('\n');
+        return [`${marker} ${first}`, ...rest.map((l) => `${' '.repeat(marker.length + 1)}${l}`)]
+          .join('\n')
+          .trimEnd();
+      });
+      return `\n\n${items.join('\n')}\n\n`;
+    });
+  }
+
+  // Convert paragraphs and breaks
+  md = md.replace(/<p(?:\s[^>]*)?>([\s\S]*?)<\/p>/gi, '$1\n\n');
+  md = md.replace(/<br\s*\/?>/gi, '\n');
+  md = md.replace(/<hr\s*\/?>/gi, '\n\n---\n\n');
+
+  // Clean up remaining HTML
+  md = decodeEntities(md.replace(/<[^>]+>/g, ''));
+
+  // Clean up whitespace
+  md = md.replace(/[ \t]+$/gm, '');
+  md = md.replace(/\n{3,}/g, '\n\n');
+  md = md.trim();
+
+  // Restore code, indented to match the list item it sits in
+  return md
+    .replace(/^([ \t]*)\uE000(\d+)\uE000/gm, (_, indent: string, index: string) =>
+      code[Number(index)]
+        .split('\n')
+        .map((line) => `${indent}${line}`)
+        .join('\n')
+    )
+    .replace(/\uE000(\d+)\uE000/g, (_, index: string) => code[Number(index)]);
+}
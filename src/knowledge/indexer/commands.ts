@@ -0,0 +1,291 @@
+/**
+ * Runbook Commands
+ *
+ * Finds AWS CLI and kubectl commands in runbook text and names the operation
+ * each one invokes, e.g. `aws ecs update-service` is `ecs:UpdateService` and
+ * `kubectl rollout restart` is `kubernetes:RolloutRestart`. Operations use
+ * the same names as the mutation tools, so the safety layer can classify a
+ * runbook command the same way it classifies a tool call.
+ */
+
+import type { RunbookCommand } from '../types';
+
+const READ_ONLY_AWS_CLI_PREFIXES = [
+  'get',
+  'list',
+  'describe',
+  'batch-get',
+  'head',
+  'lookup',
+  'search',
+  'query',
+  'scan',
+  'select',
+  'tail',
+];
+
+const READ_ONLY_AWS_CLI_EXACT = new Set(['ls', 'help']);
+
+/** CLI service names whose IAM prefix differs */
+const AWS_SERVICE_PREFIXES: Record<string, string> = {
+  s3api: 's3',
+  elbv2: 'elasticloadbalancing',
+};
+
+/** Operations behind the high-level `aws s3` commands */
+const AWS_S3_OPERATIONS: Record<string, string> = {
+  ls: 'ListBucket',
+  cp: 'PutObject',
+  mv: 'PutObject',
+  sync: 'PutObject',
+  rm: 'DeleteObject',
+  mb: 'CreateBucket',
+  rb: 'DeleteBucket',
+  presign: 'GetObject',
+};
+
+const KUBECTL_READ_VERBS = new Set([
+  'get',
+  'describe',
+  'logs',
+  'top',
+  'explain',
+  'api-resources',
+  'api-versions',
+  'version',
+  'cluster-info',
+  'diff',
+  'events',
+  'wait',
+  'config',
+  'port-forward',
+]);
+
+const KUBECTL_READ_ROLLOUT = new Set(['status', 'history']);
+
+/** `kubectl auth reconcile` writes RBAC objects; the other auth commands only check access */
+const KUBECTL_READ_AUTH = new Set(['can-i', 'whoami']);
+
+/** kubectl flags that take a separate value */
+const KUBECTL_VALUE_FLAGS = new Set([
+  '-f',
+  '--filename',
+  '-l',
+  '--selector',
+  '-o',
+  '--output',
+  '-c',
+  '--container',
+  '-n',
+  '--namespace',
+  '--context',
+  '--kubeconfig',
+  '--cluster',
+  '--user',
+  '-s',
+  '--server',
+]);
+
+const KUBECTL_KIND_ALIASES: Record<string, string> = {
+  po: 'pod',
+  deploy: 'deployment',
+  svc: 'service',
+  ns: 'namespace',
+  cm: 'configmap',
+  sts: 'statefulset',
+  ds: 'daemonset',
+  rs: 'replicaset',
+};
+
+/**
+ * Split a command line into arguments, keeping quoted strings together
+ */
+export function tokenizeCliCommand(command: string): string[] {
+  const matches = command.match(/"[^"]*"|'[^']*'|\S+/g) || [];
+  return matches
+    .map((token) => token.trim())
+    .filter(Boolean)
+    .map((token) => token.replace(/^['"]|['"]$/g, ''));
+}
+
+/**
+ * The service and CLI operation of an `aws` command, skipping global flags
+ */
+export function parseAwsCliServiceAndOperation(command: string): {
+  service?: string;
+  operation?: string;
+} {
+  const tokens = tokenizeCliCommand(command);
+  if (tokens.length < 3 || tokens[0] !== 'aws') {
+    return {};
+  }
+
+  let index = 1;
+  while (index < tokens.length && tokens[index].startsWith('-')) {
+    const flag = tokens[index];
+    const next = tokens[index + 1];
+    if (!flag.startsWith('--no-') && next && !next.startsWith('-')) {
+      index += 2;
+      continue;
+    }
+    index += 1;
+  }
+
+  const service = tokens[index];
+  const operation = tokens[index + 1];
+  return { service, operation };
+}
+
+/**
+ * Whether an AWS CLI operation (e.g. `describe-services`) only reads
+ */
+export function isReadOnlyAwsCliOperation(operation: string): boolean {
+  const normalized = operation.toLowerCase().trim();
+  if (!normalized) {
+    return false;
+  }
+  if (READ_ONLY_AWS_CLI_EXACT.has(normalized)) {
+    return true;
+  }
+  return READ_ONLY_AWS_CLI_PREFIXES.some(
+    (prefix) => normalized === prefix || normalized.startsWith(`${prefix}-`)
+  );
+}
+
+function pascalCase(value: string): string {
+  return value
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1).toLowerCase())
+    .join('');
+}
+
+type ParsedOperation = Pick<RunbookCommand, 'operation' | 'mutating'>;
+
+function parseAwsCommand(command: string): ParsedOperation | null {
+  const { service, operation } = parseAwsCliServiceAndOperation(command);
+  if (!service || !operation || operation.startsWith('-')) {
+    return null;
+  }
+
+  const prefix = AWS_SERVICE_PREFIXES[service] ?? service;
+  const action =
+    service === 's3'
+      ? AWS_S3_OPERATIONS[operation] || pascalCase(operation)
+      : pascalCase(operation);
+  return {
+    operation: `${prefix}:${action}`,
+    mutating: !isReadOnlyAwsCliOperation(operation),
+  };
+}
+
+function parseKubectlCommand(command: string): ParsedOperation | null {
+  const tokens = tokenizeCliCommand(command);
+  const args: string[] = [];
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i].startsWith('-')) {
+      if (KUBECTL_VALUE_FLAGS.has(tokens[i])) {
+        i++;
+      }
+      continue;
+    }
+    args.push(tokens[i]);
+  }
+
+  const [verb, next] = args;
+  if (!verb) {
+    return null;
+  }
+
+  let operation: string;
+  let mutating = !KUBECTL_READ_VERBS.has(verb);
+  if (verb === 'rollout' && next) {
+    operation = `Rollout${pascalCase(next)}`;
+    mutating = !KUBECTL_READ_ROLLOUT.has(next);
+  } else if (verb === 'auth' && next) {
+    operation = `Auth${pascalCase(next)}`;
+    mutating = !KUBECTL_READ_AUTH.has(next);
+  } else if (verb === 'delete' && next) {
+    const kind = next.split('/')[0].toLowerCase();
+    operation = `Delete${pascalCase(KUBECTL_KIND_ALIASES[kind] ?? kind.replace(/s$/, ''))}`;
+  } else {
+    operation = pascalCase(verb);
+  }
+
+  return { operation: `kubernetes:${operation}`, mutating };
+}
+
+/**
+ * The AWS or Kubernetes operation a single command invokes, or null for
+ * anything else. Leading `sudo` and environment assignments are ignored.
+ */
+export function parseRunbookCommand(command: string): RunbookCommand | null {
+  const tokens = tokenizeCliCommand(command);
+  let start = 0;
+  while (start < tokens.length && (tokens[start] === 'sudo' || /^\w+=/.test(tokens[start]))) {
+    start++;
+  }
+
+  const tool = tokens[start];
+  if (tool !== 'aws' && tool !== 'kubectl') {
+    return null;
+  }
+  const normalized = tokens.slice(start).join(' ');
+  const parsed = tool === 'aws' ? parseAwsCommand(normalized) : parseKubectlCommand(normalized);
+  return parsed ? { command: command.trim(), tool, ...parsed } : null;
+}
+
+/**
+ * Split a shell line on `&&`, `||`, `;` and `|`, outside quotes
+ */
+function splitShellLine(line: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ';' || char === '|' || (char === '&' && line[i + 1] === '&')) {
+      parts.push(current);
+      current = '';
+      if (line[i + 1] === char) {
+        i++;
+      }
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Commands in a shell script or console transcript. Joins backslash
+ * continuations, drops comments and `$ ` prompts, and splits pipelines and
+ * command lists.
+ */
+export function extractShellCommands(script: string): string[] {
+  return script
+    .replace(/[ \t]*\\\r?\n\s*/g, ' ')
+    .split('\n')
+    .map((line) => line.trim().replace(/^\$\s+/, ''))
+    .filter((line) => line && !line.startsWith('#'))
+    .flatMap(splitShellLine);
+}
+
+/**
+ * AWS and kubectl commands in a shell script, with their operations
+ */
+export function findRunbookCommands(script: string): RunbookCommand[] {
+  return extractShellCommands(script)
+    .map((command) => parseRunbookCommand(command))
+    .filter((command): command is RunbookCommand => command !== null);
+}
@@ -1,117 +1,320 @@
 /**
  * Embedder
  *
- * Generate vector embeddings for knowledge chunks using OpenAI's embedding models.
+ * Generate vector embeddings for knowledge chunks. The backend is pluggable:
+ * OpenAI and OpenAI-compatible endpoints (Ollama, vLLM), Bedrock Titan and
+ * Cohere models, and a local hashing embedder that needs no network.
  * Supports batch processing and caching.
  */
 
 import { createHash } from 'crypto';
 
-interface EmbedderConfig {
-  apiKey: string;
+export type EmbeddingProvider = 'auto' | 'openai' | 'bedrock' | 'local';
+
+/** What a text is embedded for. Some models embed queries differently. */
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface EmbedderConfig {
+  provider?: EmbeddingProvider;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama */
+  baseUrl?: string;
   model?: string;
   batchSize?: number;
   dimensions?: number;
+  /** AWS region for Bedrock */
+  region?: string;
+}
+
+/**
+ * An embedding backend
+ */
+export interface Embedder {
+  /** Provider and model, e.g. `openai:text-embedding-3-small`. Vector stores record it. */
+  readonly id: string;
+  /** Vector size, when known before the first call */
+  readonly dimensions?: number;
+  embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>;
 }
 
 let config: EmbedderConfig | null = null;
+let activeEmbedder: Embedder | null = null;
 
 const OPENAI_API_BASE = 'https://api.openai.com/v1';
 const DEFAULT_MODEL = 'text-embedding-3-small';
+const DEFAULT_BEDROCK_MODEL = 'amazon.titan-embed-text-v2:0';
 const DEFAULT_BATCH_SIZE = 100;
-const DEFAULT_DIMENSIONS = 1536;
+const DEFAULT_LOCAL_DIMENSIONS = 384;
+const COHERE_BATCH_SIZE = 96;
 
 // Simple in-memory cache for embeddings
 const embeddingCache = new Map<string, number[]>();
 
+/**
+ * Use OpenAI with the given API key
+ */
 export function configure(apiKey: string, options?: Partial<EmbedderConfig>): void {
-  config = {
-    apiKey,
-    model: options?.model || DEFAULT_MODEL,
-    batchSize: options?.batchSize || DEFAULT_BATCH_SIZE,
-    dimensions: options?.dimensions || DEFAULT_DIMENSIONS,
-  };
+  configureEmbedder({ ...options, provider: 'openai', apiKey });
 }
 
-function getApiKey(): string {
-  if (config?.apiKey) return config.apiKey;
-  if (process.env.OPENAI_API_KEY) return process.env.OPENAI_API_KEY;
-  throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY environment variable.');
+/**
+ * Choose the embedding backend
+ */
+export function configureEmbedder(options: EmbedderConfig): void {
+  config = { ...options };
+  activeEmbedder = null;
 }
 
-export function isEmbedderConfigured(): boolean {
-  return !!(config?.apiKey || process.env.OPENAI_API_KEY);
+/**
+ * The embedding settings from `knowledge.store` in config
+ */
+export function embedderConfigFromStore(store: {
+  embeddingModel?: string;
+  embedding?: EmbedderConfig;
+}): EmbedderConfig {
+  const embedding = store.embedding || {};
+  const provider = embedding.provider || 'auto';
+  const usesOpenAI =
+    provider === 'openai' ||
+    (provider === 'auto' &&
+      !!(embedding.apiKey || embedding.baseUrl || process.env.OPENAI_API_KEY));
+  return {
+    ...embedding,
+    provider,
+    model: embedding.model || (usesOpenAI ? store.embeddingModel : undefined),
+  };
 }
 
 /**
- * Generate a cache key for a text
+ * OpenAI or any OpenAI-compatible embeddings endpoint
  */
-function getCacheKey(text: string, model: string): string {
-  const hash = createHash('md5').update(text).digest('hex');
-  return `${model}:${hash}`;
+export class OpenAIEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimensions?: number;
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly batchSize: number;
+
+  constructor(private readonly options: EmbedderConfig = {}) {
+    this.baseUrl = (options.baseUrl || OPENAI_API_BASE).replace(/\/+$/, '');
+    this.model = options.model || DEFAULT_MODEL;
+    this.batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    this.dimensions = options.dimensions;
+    this.id = `openai:${this.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const apiKey = this.options.apiKey || process.env.OPENAI_API_KEY;
+    if (!apiKey && this.baseUrl === OPENAI_API_BASE) {
+      throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY environment variable.');
+    }
+
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: texts.slice(i, i + this.batchSize),
+          ...(this.dimensions ? { dimensions: this.dimensions } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Embedding API error: ${response.status} ${error}`);
+      }
+
+      const data = (await response.json()) as {
+        data: Array<{ embedding: number[]; index: number }>;
+      };
+      const batch = [...data.data].sort((a, b) => a.index - b.index);
+      results.push(...batch.map((item) => item.embedding));
+    }
+    return results;
+  }
 }
 
 /**
- * Generate embedding for a single text
+ * Amazon Titan and Cohere embedding models on Bedrock
  */
-export async function embedText(text: string): Promise<number[]> {
-  const apiKey = getApiKey();
-  const model = config?.model || DEFAULT_MODEL;
-
-  // Check cache
-  const cacheKey = getCacheKey(text, model);
-  const cached = embeddingCache.get(cacheKey);
-  if (cached) {
-    return cached;
+export class BedrockEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimensions?: number;
+  private readonly model: string;
+
+  constructor(private readonly options: EmbedderConfig = {}) {
+    this.model = options.model || DEFAULT_BEDROCK_MODEL;
+    this.dimensions = options.dimensions;
+    this.id = `bedrock:${this.model}`;
+  }
+
+  async embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]> {
+    const { BedrockRuntimeClient, InvokeModelCommand } =
+      await import('@aws-sdk/client-bedrock-runtime');
+    const client = new BedrockRuntimeClient({
+      region: this.options.region || process.env.AWS_REGION || 'us-east-1',
+    });
+    const invoke = async (body: Record<string, unknown>) => {
+      const response = await client.send(
+        new InvokeModelCommand({
+          modelId: this.model,
+          contentType: 'application/json',
+          accept: 'application/json',
+          body: JSON.stringify(body),
+        })
+      );
+      return JSON.parse(new TextDecoder().decode(response.body)) as Record<string, unknown>;
+    };
+
+    const results: number[][] = [];
+    if (this.model.startsWith('cohere.')) {
+      for (let i = 0; i < texts.length; i += COHERE_BATCH_SIZE) {
+        const data = await invoke({
+          texts: texts.slice(i, i + COHERE_BATCH_SIZE),
+          input_type: purpose === 'query' ? 'search_query' : 'search_document',
+          truncate: 'END',
+        });
+        results.push(...(data.embeddings as number[][]));
+      }
+      return results;
+    }
+
+    // Titan embeds one text per request
+    for (const text of texts) {
+      const data = await invoke({
+        inputText: text,
+        ...(this.dimensions ? { dimensions: this.dimensions } : {}),
+        normalize: true,
+      });
+      results.push(data.embedding as number[]);
+    }
+    return results;
   }
+}
 
-  const response = await fetch(`${OPENAI_API_BASE}/embeddings`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      input: text,
-      dimensions: config?.dimensions || DEFAULT_DIMENSIONS,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${error}`);
+/**
+ * Local embedder that hashes words and word pairs into a fixed number of
+ * buckets. Needs no network or model download. Matches on shared vocabulary
+ * rather than meaning, so it is a fallback for environments without an
+ * embedding API.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly id = 'local:hashing-v1';
+  readonly dimensions: number;
+
+  constructor(options: EmbedderConfig = {}) {
+    this.dimensions = options.dimensions || DEFAULT_LOCAL_DIMENSIONS;
   }
 
-  const data = (await response.json()) as {
-    data: Array<{ embedding: number[]; index: number }>;
-    usage: { prompt_tokens: number; total_tokens: number };
-  };
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    const counts = new Map<string, number>();
+    words.forEach((word, i) => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+      if (i > 0) {
+        const pair = `${words[i - 1]} ${word}`;
+        counts.set(pair, (counts.get(pair) || 0) + 1);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      // The top bit picks a sign, so collisions tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    }
 
-  const embedding = data.data[0].embedding;
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
 
-  // Cache the result
-  embeddingCache.set(cacheKey, embedding);
+/**
+ * Create an embedder. `auto` uses OpenAI when OPENAI_API_KEY is set and the
+ * local embedder otherwise.
+ */
+export function createEmbedder(options: EmbedderConfig = {}): Embedder {
+  const provider =
+    options.provider && options.provider !== 'auto'
+      ? options.provider
+      : options.apiKey || options.baseUrl || process.env.OPENAI_API_KEY
+        ? 'openai'
+        : 'local';
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbedder(options);
+    case 'bedrock':
+      return new BedrockEmbedder(options);
+    default:
+      return new HashingEmbedder(options);
+  }
+}
+
+/**
+ * The configured embedder
+ */
+export function getEmbedder(): Embedder {
+  if (!activeEmbedder) {
+    activeEmbedder = createEmbedder(config || {});
+  }
+  return activeEmbedder;
+}
 
+/**
+ * Generate a cache key for a text
+ */
+function getCacheKey(text: string, embedder: Embedder, purpose: EmbeddingPurpose): string {
+  const hash = createHash('md5').update(text).digest('hex');
+  return `${embedder.id}:${embedder.dimensions ?? ''}:${purpose}:${hash}`;
+}
+
+/**
+ * Generate embedding for a single text
+ */
+export async function embedText(
+  text: string,
+  purpose: EmbeddingPurpose = 'document',
+  embedder: Embedder = getEmbedder()
+): Promise<number[]> {
+  const [embedding] = await embedTexts([text], purpose, embedder);
   return embedding;
 }
 
 /**
  * Generate embeddings for multiple texts in batches
  */
-export async function embedTexts(texts: string[]): Promise<number[][]> {
-  const apiKey = getApiKey();
-  const model = config?.model || DEFAULT_MODEL;
-  const batchSize = config?.batchSize || DEFAULT_BATCH_SIZE;
-
+export async function embedTexts(
+  texts: string[],
+  purpose: EmbeddingPurpose = 'document',
+  embedder: Embedder = getEmbedder()
+): Promise<number[][]> {
   const results: number[][] = new Array(texts.length);
   const uncachedIndices: number[] = [];
   const uncachedTexts: string[] = [];
 
   // Check cache first
   for (let i = 0; i < texts.length; i++) {
-    const cacheKey = getCacheKey(texts[i], model);
-    const cached = embeddingCache.get(cacheKey);
+    const cached = embeddingCache.get(getCacheKey(texts[i], embedder, purpose));
     if (cached) {
       results[i] = cached;
     } else {
@@ -120,43 +323,20 @@ export async function embedTexts(texts: string[]): Promise<number[][]> {
     }
   }
 
-  // Process uncached texts in batches
-  for (let i = 0; i < uncachedTexts.length; i += batchSize) {
-    const batch = uncachedTexts.slice(i, i + batchSize);
-    const batchIndices = uncachedIndices.slice(i, i + batchSize);
-
-    const response = await fetch(`${OPENAI_API_BASE}/embeddings`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
-        input: batch,
-        dimensions: config?.dimensions || DEFAULT_DIMENSIONS,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+  if (uncachedTexts.length > 0) {
+    const embeddings = await embedder.embed(uncachedTexts, purpose);
+    if (embeddings.length !== uncachedTexts.length) {
+      throw new Error(
+        `${embedder.id} returned ${embeddings.length} embeddings for ${uncachedTexts.length} texts`
+      );
     }
 
-    const data = (await response.json()) as {
-      data: Array<{ embedding: number[]; index: number }>;
-      usage: { prompt_tokens: number; total_tokens: number };
-    };
-
     // Map embeddings back to original indices
-    for (const item of data.data) {
-      const originalIndex = batchIndices[item.index];
-      results[originalIndex] = item.embedding;
-
-      // Cache the result
-      const cacheKey = getCacheKey(texts[originalIndex], model);
-      embeddingCache.set(cacheKey, item.embedding);
-    }
+    embeddings.forEach((embedding, i) => {
+      const originalIndex = uncachedIndices[i];
+      results[originalIndex] = embedding;
+      embeddingCache.set(getCacheKey(texts[originalIndex], embedder, purpose), embedding);
+    });
   }
 
   return results;
@@ -180,6 +360,9 @@ export function cosineSimilarity(a: number[], b: number[]): number {
     normB += b[i] * b[i];
   }
 
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
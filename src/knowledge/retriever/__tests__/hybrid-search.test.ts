@@ -0,0 +1,81 @@
+/**
+ * Tests for building the hybrid retriever from config
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG, loadConfig } from '../../../utils/config';
+import { getEmbedder } from '../../indexer/embedder';
+import { createHybridRetriever } from '../hybrid-search';
+
+vi.mock('../../../utils/config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../utils/config')>();
+  return {
+    ...actual,
+    loadConfig: vi.fn(async () => actual.DEFAULT_CONFIG),
+  };
+});
+
+describe('createHybridRetriever', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'runbook-hybrid-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps local vectors in the base directory', async () => {
+    const retriever = await createHybridRetriever(dir);
+    expect(await retriever.hasVectorSearch()).toBe(false);
+    expect(existsSync(join(dir, 'vectors.db'))).toBe(true);
+    retriever.close();
+  });
+
+  it('embeds with the embedder from config', async () => {
+    vi.mocked(loadConfig).mockResolvedValueOnce({
+      ...DEFAULT_CONFIG,
+      knowledge: {
+        ...DEFAULT_CONFIG.knowledge,
+        store: {
+          ...DEFAULT_CONFIG.knowledge.store,
+          embedding: { provider: 'local', dimensions: 64 },
+        },
+      },
+    });
+
+    const retriever = await createHybridRetriever(dir);
+    expect(getEmbedder()).toMatchObject({ id: 'local:hashing-v1', dimensions: 64 });
+    retriever.close();
+  });
+
+  it('searches the vector store selected in config', async () => {
+    vi.mocked(loadConfig).mockResolvedValueOnce({
+      ...DEFAULT_CONFIG,
+      knowledge: {
+        ...DEFAULT_CONFIG.knowledge,
+        store: {
+          ...DEFAULT_CONFIG.knowledge.store,
+          type: 'qdrant',
+          qdrant: { url: 'http://qdrant.internal:6333', collection: 'runbooks' },
+        },
+      },
+    });
+    const fetchMock = vi.fn(async () => new Response('{}', { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const retriever = await createHybridRetriever(dir);
+    expect(await retriever.hasVectorSearch()).toBe(false);
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('http://qdrant.internal:6333/collections/runbooks'),
+      expect.anything()
+    );
+    expect(existsSync(join(dir, 'vectors.db'))).toBe(false);
+    retriever.close();
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Tests for source sync state and the sync daemon
+ */
+
+import { mkdirSync, mkdtempSync, renameSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG, loadConfig, type Config } from '../../../utils/config';
+import { createRetriever, KnowledgeRetriever, type SourceSyncResult } from '..';
+import { KnowledgeSyncDaemon, type SyncDaemonEvent } from '../sync-daemon';
+import type { ApiSourceConfig, FilesystemSourceConfig, KnowledgeSourceConfig } from '../../types';
+
+vi.mock('../../../utils/config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../utils/config')>();
+  return {
+    ...actual,
+    loadConfig: vi.fn(async () => actual.DEFAULT_CONFIG),
+  };
+});
+
+const runbook = (title: string) => `---
+type: runbook
+services: [checkout]
+---
+
+# ${title}
+
+1. Restart the service.
+`;
+
+describe('KnowledgeRetriever sync', () => {
+  let dir: string;
+  let runbooks: string;
+  let filesystem: FilesystemSourceConfig;
+  const api: ApiSourceConfig = {
+    type: 'api',
+    endpoint: 'https://catalog.internal/docs',
+    sinceParam: 'since',
+  };
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'runbook-sync-'));
+    runbooks = join(dir, 'runbooks');
+    mkdirSync(runbooks);
+    writeFileSync(join(runbooks, 'checkout.md'), runbook('Checkout latency'));
+    filesystem = { type: 'filesystem', path: runbooks, filePatterns: ['**/*.md'] };
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records failures per source and clears them on the next successful sync', async () => {
+    const retriever = new KnowledgeRetriever({
+      storePath: join(dir, 'knowledge.db'),
+      sources: [filesystem, api],
+    });
+    fetchMock.mockResolvedValue(new Response('unavailable', { status: 503 }));
+
+    const first = await retriever.sync();
+    expect(first.added).toBe(1);
+    expect(first.errors).toEqual([
+      { source: 'api:https://catalog.internal/docs', error: expect.stringContaining('503') },
+    ]);
+    const failed = retriever.getSyncStates().find((state) => state.source.startsWith('api:'));
+    expect(failed).toMatchObject({ lastSyncTime: undefined, documentsSynced: 0 });
+    expect(failed?.lastError).toContain('503');
+
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify([{ id: 'faq', title: 'FAQ', content: 'Ask in #sre.' }]), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    const second = await retriever.sync();
+    expect(second.errors).toEqual([]);
+    const recovered = retriever.getSyncStates().find((state) => state.source.startsWith('api:'));
+    expect(recovered?.lastError).toBeUndefined();
+    expect(recovered?.lastSyncTime).toBe(recovered?.lastAttemptTime);
+    expect(recovered?.documentsSynced).toBe(1);
+    retriever.close();
+
+    // State survives a restart and sets `since` for the next sync
+    const reopened = new KnowledgeRetriever({
+      storePath: join(dir, 'knowledge.db'),
+      sources: [filesystem, api],
+    });
+    expect(reopened.getSyncStates()).toHaveLength(2);
+    await reopened.syncSource(api);
+    const url = new URL(String(fetchMock.mock.lastCall?.[0]));
+    expect(url.searchParams.get('since')).toBe(recovered?.lastSyncTime);
+    reopened.close();
+  });
+
+  it('keeps the previous cursor when some documents fail to load', async () => {
+    const retriever = new KnowledgeRetriever({
+      storePath: join(dir, 'knowledge.db'),
+      sources: [filesystem],
+    });
+    await retriever.sync();
+    const [synced] = retriever.getSyncStates();
+
+    writeFileSync(join(runbooks, 'broken.md'), '---\nservices: [checkout\n---\n\n# Broken\n');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const result = await retriever.syncSource(filesystem);
+    error.mockRestore();
+
+    expect(result.error).toContain('1 item(s) failed to load');
+    const [state] = retriever.getSyncStates();
+    expect(state.lastSyncTime).toBe(synced.lastSyncTime);
+    expect(state.lastError).toBe(result.error);
+    expect(retriever.getDocumentCount()).toBe(1);
+    retriever.close();
+  });
+
+  it('re-indexes changed files and removes deleted ones', async () => {
+    const retriever = new KnowledgeRetriever({
+      storePath: join(dir, 'knowledge.db'),
+      sources: [filesystem],
+    });
+    await retriever.sync();
+
+    const checkout = join(runbooks, 'checkout.md');
+    const orders = join(runbooks, 'orders.md');
+    writeFileSync(checkout, runbook('Checkout errors'));
+    writeFileSync(orders, runbook('Orders backlog'));
+    writeFileSync(join(runbooks, 'notes.txt'), 'ignored');
+
+    expect(
+      await retriever.syncFiles(filesystem, [checkout, orders, join(runbooks, 'notes.txt')])
+    ).toEqual({ source: `filesystem:${runbooks}`, added: 1, updated: 1, removed: 0 });
+    expect(
+      retriever
+        .getAllDocuments()
+        .map((doc) => doc.title)
+        .sort()
+    ).toEqual(['Checkout errors', 'Orders backlog']);
+
+    unlinkSync(orders);
+    expect(await retriever.syncFiles(filesystem, [orders])).toMatchObject({ removed: 1 });
+    expect(retriever.getDocumentCount()).toBe(1);
+    retriever.close();
+  });
+
+  it('removes documents missing from a full listing when reconciling', async () => {
+    const retriever = new KnowledgeRetriever({
+      storePath: join(dir, 'knowledge.db'),
+      sources: [filesystem, api],
+    });
+    const items = (ids: string[]) =>
+      new Response(JSON.stringify(ids.map((id) => ({ id, title: id, content: `About ${id}.` }))), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    fetchMock.mockResolvedValueOnce(items(['faq', 'oncall']));
+    await retriever.sync();
+    expect(retriever.getDocumentCount()).toBe(3);
+
+    // Changed while nobody was watching
+    unlinkSync(join(runbooks, 'checkout.md'));
+    writeFileSync(join(runbooks, 'orders.md'), runbook('Orders backlog'));
+    expect(await retriever.syncSource(filesystem, { reconcile: true })).toMatchObject({
+      added: 1,
+      removed: 1,
+    });
+
+    fetchMock.mockResolvedValueOnce(items(['faq']));
+    expect(await retriever.syncSource(api, { reconcile: true })).toMatchObject({
+      updated: 1,
+      removed: 1,
+    });
+    const url = new URL(String(fetchMock.mock.lastCall?.[0]));
+    expect(url.searchParams.has('since')).toBe(false);
+    expect(
+      retriever
+        .getAllDocuments()
+        .map((doc) => doc.title)
+        .sort()
+    ).toEqual(['Orders backlog', 'faq']);
+    retriever.close();
+  });
+
+  it('keeps documents when a reconciling listing is incomplete', async () => {
+    const paged: ApiSourceConfig = { ...api, pagination: { type: 'page', maxPages: 1 } };
+    const retriever = new KnowledgeRetriever({
+      storePath: join(dir, 'knowledge.db'),
+      sources: [paged],
+    });
+    fetchMock.mockResolvedValueOnce(Response.json([{ id: 'faq', title: 'FAQ', content: 'Ask.' }]));
+    await retriever.syncSource(paged);
+
+    // Paging stops at maxPages with more to fetch, so the listing may be missing documents
+    fetchMock.mockResolvedValueOnce(
+      Response.json([{ id: 'oncall', title: 'On-call', content: 'Page.' }])
+    );
+    expect(await retriever.syncSource(paged, { reconcile: true })).toMatchObject({
+      added: 1,
+      removed: 0,
+    });
+    expect(retriever.getDocumentCount()).toBe(2);
+    retriever.close();
+  });
+
+  it('syncs the sources of the config file from createRetriever', async () => {
+    const sources = [
+      { type: 'filesystem', path: runbooks, watch: true },
+      { type: 'api', endpoint: api.endpoint },
+    ] as Config['knowledge']['sources'];
+    vi.mocked(loadConfig).mockResolvedValueOnce({
+      ...DEFAULT_CONFIG,
+      knowledge: { ...DEFAULT_CONFIG.knowledge, sources },
+    });
+    fetchMock.mockResolvedValue(Response.json([{ id: 'faq', title: 'FAQ', content: 'Ask.' }]));
+
+    const retriever = createRetriever(dir);
+    const configured = await retriever.getSources();
+    // The configured directory replaces the default one for the same path
+    expect(
+      configured.filter((source) => source.type === 'filesystem' && source.path === runbooks)
+    ).toHaveLength(1);
+    expect(configured).toContainEqual(
+      expect.objectContaining({ type: 'api', endpoint: api.endpoint })
+    );
+
+    expect((await retriever.sync()).errors).toEqual([]);
+    const titles = retriever.getAllDocuments().map((doc) => doc.title);
+    expect(titles).toEqual(expect.arrayContaining(['Checkout latency', 'FAQ']));
+    retriever.close();
+  });
+
+  it('reads the config file again after it failed to load', async () => {
+    vi.mocked(loadConfig).mockRejectedValueOnce(new Error('EACCES: permission denied'));
+    vi.mocked(loadConfig).mockResolvedValueOnce({
+      ...DEFAULT_CONFIG,
+      knowledge: {
+        ...DEFAULT_CONFIG.knowledge,
+        sources: [{ type: 'api', endpoint: api.endpoint }],
+      },
+    });
+
+    const retriever = createRetriever(dir);
+    await expect(retriever.getSources()).rejects.toThrow('EACCES');
+    expect(await retriever.getSources()).toContainEqual(
+      expect.objectContaining({ type: 'api', endpoint: api.endpoint })
+    );
+    retriever.close();
+  });
+
+  it('re-indexes a renamed directory and removes its old documents', async () => {
+    const databases = join(runbooks, 'db');
+    mkdirSync(databases);
+    writeFileSync(join(databases, 'postgres.md'), runbook('Postgres failover'));
+    writeFileSync(join(databases, 'redis.md'), runbook('Redis eviction'));
+    const retriever = new KnowledgeRetriever({
+      storePath: join(dir, 'knowledge.db'),
+      sources: [filesystem],
+    });
+    await retriever.sync();
+    expect(retriever.getDocumentCount()).toBe(3);
+
+    const renamed = join(runbooks, 'datastores');
+    renameSync(databases, renamed);
+    expect(await retriever.syncFiles(filesystem, [databases, renamed])).toMatchObject({
+      added: 2,
+      removed: 2,
+    });
+    expect(retriever.getAllDocuments().map((doc) => doc.sourceUrl)).not.toContainEqual(
+      expect.stringContaining(`${databases}/`)
+    );
+
+    rmSync(renamed, { recursive: true });
+    expect(await retriever.syncFiles(filesystem, [renamed])).toMatchObject({ removed: 2 });
+    expect(retriever.getDocumentCount()).toBe(1);
+    retriever.close();
+  });
+});
+
+function fakeRetriever(sources: KnowledgeSourceConfig[]) {
+  const result = (source: string): SourceSyncResult => ({
+    source,
+    added: 0,
+    updated: 0,
+    removed: 0,
+  });
+  return {
+    getSources: async () => sources,
+    syncSource: vi.fn(async (source: KnowledgeSourceConfig) => result(source.type)),
+    syncFiles: vi.fn(async (source: FilesystemSourceConfig, paths: string[]) => ({
+      ...result(source.type),
+      updated: paths.length,
+    })),
+  };
+}
+
+describe('KnowledgeSyncDaemon', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('syncs every source at startup, then on its schedule', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T10:20:00Z'));
+    const api: ApiSourceConfig = {
+      type: 'api',
+      endpoint: 'https://catalog.internal/docs',
+      syncSchedule: '*/30 * * * *',
+    };
+    const retriever = fakeRetriever([
+      { type: 'filesystem', path: 'missing', filePatterns: ['**/*.md'] },
+      api,
+    ]);
+    const events: SyncDaemonEvent[] = [];
+    const daemon = new KnowledgeSyncDaemon(retriever, {
+      timeZone: 'UTC',
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(await daemon.start()).toEqual({ scheduled: 1, watched: 0 });
+    expect(retriever.syncSource).toHaveBeenCalledTimes(2);
+    expect(events.filter((event) => event.type === 'scheduled')).toEqual([
+      {
+        type: 'scheduled',
+        source: 'api:https://catalog.internal/docs',
+        next: new Date('2026-10-19T10:30:00Z'),
+      },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(retriever.syncSource).toHaveBeenCalledTimes(3);
+    expect(retriever.syncSource).toHaveBeenLastCalledWith(api, { reconcile: true });
+    expect(events.at(-1)).toMatchObject({
+      type: 'scheduled',
+      next: new Date('2026-10-19T11:00:00Z'),
+    });
+
+    await daemon.stop();
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(retriever.syncSource).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports schedules that cannot run', async () => {
+    const events: SyncDaemonEvent[] = [];
+    const daemon = new KnowledgeSyncDaemon(
+      fakeRetriever([
+        { type: 'api', endpoint: 'https://a.internal', syncSchedule: '0 0 31 2 *' },
+        { type: 'api', endpoint: 'https://b.internal', syncSchedule: 'hourly' },
+      ]),
+      { onEvent: (event) => events.push(event) }
+    );
+
+    expect(await daemon.start()).toEqual({ scheduled: 0, watched: 0 });
+    expect(events.filter((event) => event.type === 'error').map((event) => event.source)).toEqual([
+      'api:https://a.internal',
+      'api:https://b.internal',
+    ]);
+    await daemon.stop();
+  });
+
+  it('re-indexes watched files once changes settle', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'runbook-watch-'));
+    const source: FilesystemSourceConfig = {
+      type: 'filesystem',
+      path: dir,
+      filePatterns: ['**/*.md'],
+      watch: true,
+    };
+    const retriever = fakeRetriever([source]);
+    const daemon = new KnowledgeSyncDaemon(retriever, { debounceMs: 100 });
+
+    try {
+      expect(await daemon.start()).toEqual({ scheduled: 0, watched: 1 });
+      writeFileSync(join(dir, 'a.md'), runbook('A'));
+      writeFileSync(join(dir, 'b.md'), runbook('B'));
+
+      await vi.waitFor(() => expect(retriever.syncFiles).toHaveBeenCalled(), { timeout: 2000 });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(retriever.syncFiles).toHaveBeenCalledTimes(1);
+      expect(retriever.syncFiles.mock.calls[0][1].sort()).toEqual([
+        join(dir, 'a.md'),
+        join(dir, 'b.md'),
+      ]);
+    } finally {
+      await daemon.stop();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -7,13 +7,19 @@
  */
 
 import { KnowledgeStore } from '../store/sqlite';
-import { VectorStore, createVectorStore } from '../store/vector-store';
-import { isEmbedderConfigured } from '../indexer/embedder';
+import {
+  SqliteVectorStore,
+  createConfiguredVectorStore,
+  type VectorStore,
+} from '../store/vector-store';
+import { loadConfig } from '../../utils/config';
 import type { RetrievedChunk, KnowledgeType, RetrievedKnowledge } from '../types';
 
 export interface HybridSearchConfig {
   storePath: string;
   vectorStorePath?: string;
+  /** Vector store to use instead of the local one at vectorStorePath */
+  vectorStore?: VectorStore;
   ftsWeight?: number; // Weight for FTS results (default: 0.4)
   vectorWeight?: number; // Weight for vector results (default: 0.6)
   rrf_k?: number; // RRF parameter (default: 60)
@@ -34,18 +40,24 @@ export class HybridRetriever {
 
     this.ftsStore = new KnowledgeStore(config.storePath);
 
-    // Only initialize vector store if embedder is configured
-    if (isEmbedderConfigured()) {
-      const vectorPath = config.vectorStorePath || config.storePath.replace('.db', '_vectors.db');
-      this.vectorStore = createVectorStore(vectorPath.replace('/vectors.db', ''));
-    }
+    this.vectorStore =
+      config.vectorStore ??
+      new SqliteVectorStore(
+        config.vectorStorePath || config.storePath.replace('.db', '_vectors.db')
+      );
   }
 
   /**
-   * Check if vector search is available
+   * Check if vector search is available. Stores embedded with a different
+   * model than the configured one fall back to full-text search until they
+   * are re-embedded.
    */
-  hasVectorSearch(): boolean {
-    return this.vectorStore !== null && isEmbedderConfigured();
+  async hasVectorSearch(): Promise<boolean> {
+    return (
+      this.vectorStore !== null &&
+      (await this.vectorStore.getCount()) > 0 &&
+      (await this.vectorStore.checkEmbedder()) === null
+    );
   }
 
   /**
@@ -61,10 +73,11 @@ export class HybridRetriever {
     } = {}
   ): Promise<RetrievedChunk[]> {
     const topK = options.topK || 10;
-    const mode = options.mode || (this.hasVectorSearch() ? 'hybrid' : 'fts');
+    const vectorSearch = await this.hasVectorSearch();
+    const mode = options.mode || (vectorSearch ? 'hybrid' : 'fts');
 
     // FTS-only mode
-    if (mode === 'fts' || !this.hasVectorSearch()) {
+    if (mode === 'fts' || !vectorSearch) {
       return this.ftsStore.search(query, {
         typeFilter: options.typeFilter,
         serviceFilter: options.serviceFilter,
@@ -235,11 +248,16 @@ export class HybridRetriever {
 }
 
 /**
- * Create a hybrid retriever with default configuration
+ * Create a hybrid retriever over the vector store selected by
+ * `knowledge.store` in config. Local vectors are kept in baseDir.
  */
-export function createHybridRetriever(baseDir: string = '.runbook'): HybridRetriever {
+export async function createHybridRetriever(
+  baseDir: string = '.runbook'
+): Promise<HybridRetriever> {
+  const config = await loadConfig();
+  const storePath = `${baseDir}/knowledge.db`;
   return new HybridRetriever({
-    storePath: `${baseDir}/knowledge.db`,
-    vectorStorePath: `${baseDir}/vectors.db`,
+    storePath,
+    vectorStore: await createConfiguredVectorStore({ ...config.knowledge.store, path: storePath }),
   });
 }
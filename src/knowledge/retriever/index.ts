@@ -4,27 +4,57 @@
  * Coordinates knowledge retrieval from multiple sources and the store.
  */
 
-import { existsSync, mkdirSync } from 'fs';
-import { join } from 'path';
+import { existsSync, mkdirSync, statSync } from 'fs';
+import { join, resolve } from 'path';
 import { KnowledgeStore } from '../store/sqlite';
-import { loadFromSource } from '../sources';
+import {
+  filesystemDocumentId,
+  loadFilesystemFile,
+  loadFromFilesystem,
+  loadFromSource,
+  sourceKey,
+  type LoadOptions,
+} from '../sources';
+import { loadConfig, type Config } from '../../utils/config';
 import type {
   RetrievedKnowledge,
   KnowledgeType,
   KnowledgeSourceConfig,
   FilesystemSourceConfig,
   KnowledgeDocument,
+  SourceSyncState,
 } from '../types';
 
 export interface RetrieverConfig {
   storePath: string;
   sources: KnowledgeSourceConfig[];
+  /** Also sync the `knowledge.sources` of the config file, read on first use */
+  configuredSources?: boolean;
+}
+
+export interface SourceSyncResult {
+  source: string;
+  added: number;
+  updated: number;
+  removed: number;
+  error?: string;
+}
+
+export interface SyncOptions {
+  /** Reload everything instead of only what changed since the last sync */
+  full?: boolean;
+  /**
+   * List the whole source and remove stored documents it no longer has.
+   * GitHub syncs stay incremental, as the compare API reports removals.
+   */
+  reconcile?: boolean;
 }
 
 export class KnowledgeRetriever {
   private store: KnowledgeStore;
   private config: RetrieverConfig;
   private initialized = false;
+  private sources: Promise<KnowledgeSourceConfig[]> | null = null;
 
   constructor(config: RetrieverConfig) {
     this.config = config;
@@ -39,34 +69,211 @@ export class KnowledgeRetriever {
   }
 
   /**
-   * Sync knowledge from all configured sources
+   * Sync knowledge from all configured sources. A source that fails is
+   * recorded in its sync state and reported in `errors`; the others still sync.
    */
-  async sync(): Promise<{ added: number; updated: number }> {
+  async sync(options: SyncOptions = {}): Promise<{
+    added: number;
+    updated: number;
+    errors: Array<{ source: string; error: string }>;
+  }> {
     let added = 0;
     let updated = 0;
+    const errors: Array<{ source: string; error: string }> = [];
+
+    for (const source of await this.getSources()) {
+      const result = await this.syncSource(source, options);
+      added += result.added;
+      updated += result.updated;
+      if (result.error) {
+        errors.push({ source: result.source, error: result.error });
+      }
+    }
+
+    this.initialized = true;
+    return { added, updated, errors };
+  }
+
+  /**
+   * Sync one source, incrementally from its persisted state unless `full`.
+   * When the source reports a complete listing, stored documents missing
+   * from it are removed. When it reports items it could not load, the
+   * previous cursor is kept so the next sync retries them.
+   */
+  async syncSource(
+    source: KnowledgeSourceConfig,
+    options: SyncOptions = {}
+  ): Promise<SourceSyncResult> {
+    const key = sourceKey(source);
+    const state = this.store.getSyncState(key);
+    const startedAt = new Date().toISOString();
+    const since =
+      options.full || (options.reconcile && source.type !== 'github')
+        ? undefined
+        : (state?.lastSyncTime ?? ('lastSyncTime' in source ? source.lastSyncTime : undefined));
+    // GitHub syncs resume from a commit rather than a time
+    const config =
+      source.type === 'github'
+        ? {
+            ...source,
+            lastSyncCommit: options.full
+              ? undefined
+              : (state?.lastSyncCommit ?? source.lastSyncCommit),
+          }
+        : source;
 
-    for (const source of this.config.sources) {
-      const lastSync = 'lastSyncTime' in source ? source.lastSyncTime : undefined;
-      const documents = await loadFromSource(source, { since: lastSync });
+    try {
+      const loadOptions: LoadOptions = { since, removed: [] };
+      const documents = await loadFromSource(config, loadOptions);
+      const removedIds = new Set(loadOptions.removed);
+      if (loadOptions.complete) {
+        const loaded = new Set(documents.map((doc) => doc.id));
+        for (const id of this.storedDocumentIds(source)) {
+          if (!loaded.has(id)) {
+            removedIds.add(id);
+          }
+        }
+      }
 
+      let added = 0;
+      let updated = 0;
+      let removed = 0;
       for (const doc of documents) {
-        const existing = this.store.getDocument(doc.id);
-        if (existing) {
+        if (this.store.getDocument(doc.id)) {
           updated++;
         } else {
           added++;
         }
-        this.store.upsertDocument(doc);
+        this.store.upsertDocument(doc, key);
+      }
+      for (const id of removedIds) {
+        if (this.store.deleteDocument(id)) {
+          removed++;
+        }
       }
 
-      // Update lastSyncTime for incremental sync support
-      if ('lastSyncTime' in source) {
-        (source as { lastSyncTime?: string }).lastSyncTime = new Date().toISOString();
+      // Items that failed to load are retried from the previous cursor
+      const error = loadOptions.failed
+        ? `${loadOptions.failed} item(s) failed to load; they are retried on the next sync`
+        : undefined;
+      this.store.saveSyncState({
+        source: key,
+        lastSyncTime: error ? state?.lastSyncTime : startedAt,
+        lastSyncCommit: error
+          ? state?.lastSyncCommit
+          : config.type === 'github'
+            ? config.lastSyncCommit
+            : undefined,
+        lastAttemptTime: startedAt,
+        lastError: error,
+        documentsSynced: added + updated + removed,
+      });
+      return { source: key, added, updated, removed, error };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.store.saveSyncState({
+        source: key,
+        lastSyncTime: state?.lastSyncTime,
+        lastSyncCommit: state?.lastSyncCommit,
+        lastAttemptTime: startedAt,
+        lastError: message,
+        documentsSynced: state?.documentsSynced ?? 0,
+      });
+      return { source: key, added: 0, updated: 0, removed: 0, error: message };
+    }
+  }
+
+  /**
+   * Re-index changed files of a filesystem source. A changed directory is
+   * re-indexed as a whole, and files or directories that no longer exist are
+   * removed from the store.
+   */
+  async syncFiles(source: FilesystemSourceConfig, paths: string[]): Promise<SourceSyncResult> {
+    const key = sourceKey(source);
+    const state = this.store.getSyncState(key);
+    const startedAt = new Date().toISOString();
+    const result: SourceSyncResult = { source: key, added: 0, updated: 0, removed: 0 };
+
+    try {
+      for (const path of new Set(paths)) {
+        if (!existsSync(path)) {
+          // A removed or renamed directory is reported once, by its own name
+          const ids = [
+            filesystemDocumentId(path),
+            ...this.store.getDocumentIdsByUrlPrefix(`file://${join(path, '/')}`),
+          ];
+          for (const id of ids) {
+            if (this.store.deleteDocument(id)) {
+              result.removed++;
+            }
+          }
+          continue;
+        }
+
+        const documents = statSync(path).isDirectory()
+          ? await loadFromFilesystem({ ...source, path })
+          : [await loadFilesystemFile(source, path)];
+        for (const doc of documents) {
+          if (!doc) {
+            continue;
+          }
+          if (this.store.getDocument(doc.id)) {
+            result.updated++;
+          } else {
+            result.added++;
+          }
+          this.store.upsertDocument(doc, key);
+        }
       }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
     }
 
-    this.initialized = true;
-    return { added, updated };
+    this.store.saveSyncState({
+      source: key,
+      lastSyncTime: result.error ? state?.lastSyncTime : startedAt,
+      lastAttemptTime: startedAt,
+      lastError: result.error,
+      documentsSynced: result.error
+        ? (state?.documentsSynced ?? 0)
+        : result.added + result.updated + result.removed,
+    });
+    return result;
+  }
+
+  /**
+   * IDs of the stored documents that came from a source
+   */
+  private storedDocumentIds(source: KnowledgeSourceConfig): string[] {
+    return this.store.getDocumentIdsBySource(
+      sourceKey(source),
+      source.type === 'filesystem' ? `file://${join(source.path, '/')}` : undefined
+    );
+  }
+
+  /**
+   * Sources to sync, including those of the config file when enabled
+   */
+  getSources(): Promise<KnowledgeSourceConfig[]> {
+    if (!this.sources) {
+      this.sources = this.config.configuredSources
+        ? loadConfig().then((config) =>
+            mergeSources(this.config.sources, toKnowledgeSourceConfigs(config.knowledge.sources))
+          )
+        : Promise.resolve(this.config.sources);
+      // A config file that fails to load is read again on the next call
+      this.sources.catch(() => {
+        this.sources = null;
+      });
+    }
+    return this.sources;
+  }
+
+  /**
+   * Sync state of every source that has been synced
+   */
+  getSyncStates(): SourceSyncState[] {
+    return this.store.getAllSyncStates();
   }
 
   /**
@@ -149,6 +356,13 @@ export class KnowledgeRetriever {
     return this.store.getDocumentCountsByType();
   }
 
+  /**
+   * Get a document with its chunks
+   */
+  getDocument(id: string): KnowledgeDocument | null {
+    return this.store.getDocument(id);
+  }
+
   /**
    * Get all stored documents.
    */
@@ -164,17 +378,67 @@ export class KnowledgeRetriever {
   }
 }
 
+const DEFAULT_FILE_PATTERNS = ['**/*.md', '**/*.markdown', '**/*.yaml', '**/*.yml'];
+
+/**
+ * Source configs from the `knowledge.sources` section of the config file
+ */
+export function toKnowledgeSourceConfigs(
+  sources: Config['knowledge']['sources']
+): KnowledgeSourceConfig[] {
+  return sources.map((source) =>
+    source.type === 'filesystem'
+      ? {
+          type: 'filesystem',
+          path: source.path || '.runbook/runbooks',
+          filePatterns: DEFAULT_FILE_PATTERNS,
+          watch: source.watch,
+          syncSchedule: source.syncSchedule,
+        }
+      : source
+  );
+}
+
+/**
+ * Add sources to a list. A directory already in the list, or a source with
+ * the same key, is replaced rather than synced twice.
+ */
+function mergeSources(
+  sources: KnowledgeSourceConfig[],
+  additional: KnowledgeSourceConfig[]
+): KnowledgeSourceConfig[] {
+  const merged = [...sources];
+  for (const source of additional) {
+    const index = merged.findIndex((existing) =>
+      existing.type === 'filesystem' && source.type === 'filesystem'
+        ? resolve(existing.path) === resolve(source.path)
+        : sourceKey(existing) === sourceKey(source)
+    );
+    if (index >= 0) {
+      merged[index] = source;
+    } else {
+      merged.push(source);
+    }
+  }
+  return merged;
+}
+
 /**
- * Create a retriever with default configuration
+ * Create a retriever over the local runbook directories, the `knowledge.sources`
+ * of the config file and any additional sources
  */
-export function createRetriever(baseDir: string = '.runbook'): KnowledgeRetriever {
+export function createRetriever(
+  baseDir: string = '.runbook',
+  additionalSources: KnowledgeSourceConfig[] = []
+): KnowledgeRetriever {
   const storePath = join(baseDir, 'knowledge.db');
 
-  const sources: FilesystemSourceConfig[] = [
+  const sources: KnowledgeSourceConfig[] = [
     {
       type: 'filesystem',
       path: join(baseDir, 'runbooks'),
       filePatterns: ['**/*.md', '**/*.yaml'],
+      watch: true,
     },
   ];
 
@@ -187,5 +451,9 @@ export function createRetriever(baseDir: string = '.runbook'): KnowledgeRetrieve
     });
   }
 
-  return new KnowledgeRetriever({ storePath, sources });
+  return new KnowledgeRetriever({
+    storePath,
+    sources: mergeSources(sources, additionalSources),
+    configuredSources: true,
+  });
 }
@@ -0,0 +1,211 @@
+/**
+ * Knowledge Sync Daemon
+ *
+ * Keeps the knowledge store current while `runbook knowledge sync --daemon`
+ * runs. Sources with a `syncSchedule` are synced on their cron schedule, and
+ * filesystem sources with `watch` are re-indexed file by file once changes
+ * settle. Every source is synced at startup to catch up on whatever changed
+ * while the daemon was down. Startup and scheduled syncs reconcile the store
+ * against the source, so documents deleted in the meantime are removed too.
+ */
+
+import { existsSync, watch, type FSWatcher } from 'fs';
+import { join } from 'path';
+import { nextCronTime } from '../../utils/cron';
+import { sourceKey } from '../sources';
+import type { FilesystemSourceConfig, KnowledgeSourceConfig } from '../types';
+import type { KnowledgeRetriever, SourceSyncResult } from './index';
+
+export type SyncTrigger = 'startup' | 'schedule' | 'watch';
+
+export type SyncDaemonEvent =
+  | { type: 'synced'; trigger: SyncTrigger; result: SourceSyncResult }
+  | { type: 'scheduled'; source: string; next: Date }
+  | { type: 'watching'; source: string }
+  | { type: 'error'; source: string; error: string };
+
+export interface SyncDaemonOptions {
+  /** Quiet period after the last file change before re-indexing (default: 1000ms) */
+  debounceMs?: number;
+  /** IANA time zone for sync schedules (default: the local zone) */
+  timeZone?: string;
+  onEvent?: (event: SyncDaemonEvent) => void;
+}
+
+/** Longest delay setTimeout supports */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+type Retriever = Pick<KnowledgeRetriever, 'getSources' | 'syncSource' | 'syncFiles'>;
+
+export class KnowledgeSyncDaemon {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private watchers: FSWatcher[] = [];
+  /** Changed paths per watched source; null when the whole source needs a resync */
+  private changes = new Map<string, Set<string> | null>();
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    private readonly retriever: Retriever,
+    private readonly options: SyncDaemonOptions = {}
+  ) {}
+
+  /**
+   * Sync every source, then start schedules and watchers. Resolves once the
+   * startup sync is done; returns how many sources are scheduled and watched.
+   */
+  async start(): Promise<{ scheduled: number; watched: number }> {
+    const sources = await this.retriever.getSources();
+    for (const source of sources) {
+      this.enqueue(sourceKey(source), 'startup', () =>
+        this.retriever.syncSource(source, { reconcile: true })
+      );
+    }
+    await this.queue;
+
+    let scheduled = 0;
+    let watched = 0;
+    for (const source of sources) {
+      if (source.syncSchedule && this.schedule(source)) {
+        scheduled++;
+      }
+      if (source.type === 'filesystem' && source.watch && this.watch(source)) {
+        watched++;
+      }
+    }
+    return { scheduled, watched };
+  }
+
+  /**
+   * Stop schedules and watchers, and wait for a sync in progress
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    await this.queue;
+  }
+
+  private emit(event: SyncDaemonEvent): void {
+    this.options.onEvent?.(event);
+  }
+
+  /**
+   * Run syncs one at a time so schedules and file changes never overlap
+   */
+  private enqueue(
+    source: string,
+    trigger: SyncTrigger,
+    work: () => Promise<SourceSyncResult>
+  ): Promise<void> {
+    this.queue = this.queue
+      .then(async () => {
+        if (!this.stopped) {
+          this.emit({ type: 'synced', trigger, result: await work() });
+        }
+      })
+      .catch((error) =>
+        this.emit({
+          type: 'error',
+          source,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    return this.queue;
+  }
+
+  private setTimer(name: string, at: Date, callback: () => void): void {
+    const delay = at.getTime() - Date.now();
+    this.timers.set(
+      name,
+      delay > MAX_TIMER_MS
+        ? setTimeout(() => this.setTimer(name, at, callback), MAX_TIMER_MS)
+        : setTimeout(callback, Math.max(delay, 0))
+    );
+  }
+
+  private schedule(source: KnowledgeSourceConfig): boolean {
+    const key = sourceKey(source);
+    let next: Date | null;
+    try {
+      next = nextCronTime(
+        source.syncSchedule!,
+        new Date(),
+        this.options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+      );
+    } catch (error) {
+      this.emit({
+        type: 'error',
+        source: key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+    if (!next) {
+      this.emit({
+        type: 'error',
+        source: key,
+        error: `Sync schedule "${source.syncSchedule}" never runs`,
+      });
+      return false;
+    }
+
+    this.emit({ type: 'scheduled', source: key, next });
+    this.setTimer(`schedule:${key}`, next, () => {
+      void this.enqueue(key, 'schedule', () =>
+        this.retriever.syncSource(source, { reconcile: true })
+      ).then(() => {
+        if (!this.stopped) {
+          this.schedule(source);
+        }
+      });
+    });
+    return true;
+  }
+
+  private watch(source: FilesystemSourceConfig): boolean {
+    const key = sourceKey(source);
+    if (!existsSync(source.path)) {
+      this.emit({ type: 'error', source: key, error: `Cannot watch ${source.path}: not found` });
+      return false;
+    }
+
+    const watcher = watch(source.path, { recursive: true }, (_event, filename) => {
+      const changed = this.changes.get(key);
+      if (filename && changed !== null) {
+        const paths = changed ?? new Set<string>();
+        paths.add(join(source.path, filename.toString()));
+        this.changes.set(key, paths);
+      } else {
+        this.changes.set(key, null);
+      }
+      // Wait for changes to settle, e.g. an editor writing several files
+      clearTimeout(this.timers.get(`watch:${key}`));
+      this.setTimer(`watch:${key}`, new Date(Date.now() + (this.options.debounceMs ?? 1000)), () =>
+        this.flush(source)
+      );
+    });
+    watcher.on('error', (error) => this.emit({ type: 'error', source: key, error: error.message }));
+    this.watchers.push(watcher);
+    this.emit({ type: 'watching', source: key });
+    return true;
+  }
+
+  private flush(source: FilesystemSourceConfig): void {
+    const key = sourceKey(source);
+    const changed = this.changes.get(key);
+    this.changes.delete(key);
+    this.timers.delete(`watch:${key}`);
+    void this.enqueue(key, 'watch', () =>
+      changed
+        ? this.retriever.syncFiles(source, [...changed])
+        : this.retriever.syncSource(source, { reconcile: true })
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadFromApi } from '../api';
+import type { ApiSourceConfig } from '../../types';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+describe('loadFromApi', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('follows cursor pagination and applies the field mapping', async () => {
+    fetchMock.mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (!url.searchParams.get('cursor')) {
+        return jsonResponse({
+          data: [
+            {
+              slug: 'checkout-api',
+              name: 'Checkout API',
+              body: '# Checkout API\n\nOwned by payments.',
+              kind: 'ownership',
+              labels: ['payments', 'tier-1'],
+              owners: { services: 'checkout-api, payments-db' },
+              updated_at: '2026-03-01T00:00:00Z',
+              link: 'https://catalog.internal/services/checkout-api',
+            },
+          ],
+          meta: { next_cursor: 'page-2' },
+        });
+      }
+      return jsonResponse({
+        data: [{ slug: 'cart', name: 'Cart', body: 'Cart service', labels: 'cart' }],
+        meta: { next_cursor: null },
+      });
+    });
+
+    const config: ApiSourceConfig = {
+      type: 'api',
+      name: 'catalog',
+      endpoint: 'https://catalog.internal/api/services',
+      auth: { type: 'bearer', value: 'token-123' },
+      itemsPath: 'data',
+      mapping: {
+        id: 'slug',
+        title: 'name',
+        content: 'body',
+        type: 'kind',
+        services: 'owners.services',
+        tags: 'labels',
+        updatedAt: 'updated_at',
+        url: 'link',
+        defaultType: 'architecture',
+      },
+      pagination: { type: 'cursor', cursorPath: 'meta.next_cursor' },
+    };
+
+    const docs = await loadFromApi(config);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[1][0])).toContain('cursor=page-2');
+    const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers.Authorization).toBe('Bearer token-123');
+
+    expect(docs).toHaveLength(2);
+    expect(docs[0]).toMatchObject({
+      id: 'api_catalog_checkout_api',
+      title: 'Checkout API',
+      type: 'ownership',
+      services: ['checkout-api', 'payments-db'],
+      tags: ['payments', 'tier-1'],
+      updatedAt: '2026-03-01T00:00:00Z',
+      sourceUrl: 'https://catalog.internal/services/checkout-api',
+    });
+    expect(docs[1].type).toBe('architecture');
+    expect(docs[1].tags).toEqual(['cart']);
+  });
+
+  it('uses page pagination with a header API key and passes the since parameter', async () => {
+    fetchMock.mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      const page = Number(url.searchParams.get('p'));
+      if (page === 1) {
+        return jsonResponse([
+          { id: 1, title: 'Old', content: 'old', modified: '2026-01-01T00:00:00Z' },
+          { id: 2, title: 'New', content: 'new', modified: '2026-03-01T00:00:00Z' },
+        ]);
+      }
+      return jsonResponse([{ id: 3, title: 'Last', content: 'last', modified: '2026-03-02' }]);
+    });
+
+    const docs = await loadFromApi(
+      {
+        type: 'api',
+        endpoint: 'https://wiki.internal/api/pages',
+        auth: { type: 'header', header: 'X-Wiki-Token', value: 'abc' },
+        mapping: { updatedAt: 'modified' },
+        pagination: { type: 'page', param: 'p', pageSize: 2, pageSizeParam: 'per_page' },
+        sinceParam: 'updated_after',
+      },
+      { since: '2026-02-01T00:00:00Z' }
+    );
+
+    const firstUrl = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(firstUrl.searchParams.get('updated_after')).toBe('2026-02-01T00:00:00Z');
+    expect(firstUrl.searchParams.get('per_page')).toBe('2');
+    expect((fetchMock.mock.calls[0][1]?.headers as Record<string, string>)['X-Wiki-Token']).toBe(
+      'abc'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(docs.map((doc) => doc.title)).toEqual(['New', 'Last']);
+  });
+
+  it('refuses next-page URLs on another origin', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        data: [{ id: '1', title: 'One', content: 'First' }],
+        next: 'https://elsewhere.example/api/services?page=2',
+      })
+    );
+
+    await expect(
+      loadFromApi({
+        type: 'api',
+        endpoint: 'https://catalog.internal/api/services',
+        auth: { type: 'bearer', value: 'token-123' },
+        itemsPath: 'data',
+        pagination: { type: 'cursor', cursorPath: 'next' },
+      })
+    ).rejects.toThrow('not on the endpoint origin');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws when the response has no item array', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ results: {} }));
+
+    await expect(
+      loadFromApi({ type: 'api', endpoint: 'https://x.internal/api', itemsPath: 'results' })
+    ).rejects.toThrow('no item array at "results"');
+  });
+});
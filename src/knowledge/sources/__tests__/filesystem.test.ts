@@ -0,0 +1,73 @@
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadFromFilesystem } from '../filesystem';
+import type { FilesystemSourceConfig } from '../../types';
+
+describe('loadFromFilesystem', () => {
+  let dir: string;
+  let config: FilesystemSourceConfig;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'runbook-fs-'));
+    config = { type: 'filesystem', path: dir, filePatterns: ['**/*.md'] };
+    writeFileSync(join(dir, 'checkout.md'), '# Checkout latency\n\n1. Restart the service.\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function gitAt(date: string, ...args: string[]) {
+    execFileSync('git', args, {
+      cwd: dir,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Test',
+        GIT_AUTHOR_EMAIL: 'test@example.com',
+        GIT_COMMITTER_NAME: 'Test',
+        GIT_COMMITTER_EMAIL: 'test@example.com',
+        GIT_COMMITTER_DATE: date,
+        GIT_AUTHOR_DATE: date,
+      },
+    });
+  }
+
+  it('dates committed files by their last commit rather than the checkout time', async () => {
+    const git = (...args: string[]) => gitAt('2025-06-01T12:00:00Z', ...args);
+    git('init', '-q');
+    git('add', 'checkout.md');
+    git('commit', '-q', '-m', 'Add checkout runbook');
+
+    const [doc] = await loadFromFilesystem(config);
+    expect(doc).toMatchObject({
+      updatedAt: '2025-06-01T12:00:00.000Z',
+      createdAt: '2025-06-01T12:00:00.000Z',
+    });
+    expect(doc.undated).toBeUndefined();
+  });
+
+  it('dates each file by the last commit that touched it', async () => {
+    mkdirSync(join(dir, 'db'));
+    writeFileSync(join(dir, 'db', 'failover.md'), '# Failover\n');
+    gitAt('2025-01-01T00:00:00Z', 'init', '-q');
+    gitAt('2025-01-01T00:00:00Z', 'add', '.');
+    gitAt('2025-01-01T00:00:00Z', 'commit', '-q', '-m', 'Add runbooks');
+    writeFileSync(join(dir, 'db', 'failover.md'), '# Failover\n\n1. Promote the replica.\n');
+    gitAt('2025-03-01T00:00:00Z', 'commit', '-q', '-am', 'Update failover');
+    writeFileSync(join(dir, 'draft.md'), '# Draft\n');
+
+    const docs = await loadFromFilesystem(config);
+    const byTitle = Object.fromEntries(docs.map((doc) => [doc.title, doc]));
+    expect(byTitle['Checkout latency'].updatedAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(byTitle['Failover'].updatedAt).toBe('2025-03-01T00:00:00.000Z');
+    expect(byTitle['Draft'].undated).toBe(true);
+  });
+
+  it('marks files without commit history as undated', async () => {
+    const [doc] = await loadFromFilesystem(config);
+    expect(doc.undated).toBe(true);
+  });
+});
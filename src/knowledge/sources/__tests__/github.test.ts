@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadFromGitHub } from '../github';
+import type { LoadOptions } from '..';
+import type { GitHubSourceConfig } from '../../types';
+
+vi.mock('../../../utils/config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../utils/config')>();
+  return {
+    ...actual,
+    loadConfig: vi.fn(async () => actual.DEFAULT_CONFIG),
+  };
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+const RUNBOOK = `---
+title: Redis failover
+services: [cache]
+---
+# Redis failover
+
+## Steps
+1. Promote the replica
+`;
+
+describe('loadFromGitHub', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('loads markdown files under the path prefix at the branch head', async () => {
+    fetchMock.mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname.endsWith('/commits/main')) {
+        return jsonResponse({
+          sha: 'abc123',
+          commit: { committer: { date: '2026-03-01T00:00:00Z' } },
+        });
+      }
+      if (url.pathname.endsWith('/git/trees/abc123')) {
+        return jsonResponse({
+          sha: 'abc123',
+          tree: [
+            { path: 'docs/runbooks/redis.md', type: 'blob', sha: 'f1' },
+            { path: 'docs/runbooks/diagram.png', type: 'blob', sha: 'f2' },
+            { path: 'src/index.ts', type: 'blob', sha: 'f3' },
+          ],
+        });
+      }
+      if (url.pathname.endsWith('/contents/docs/runbooks/redis.md')) {
+        return new Response(RUNBOOK, { status: 200 });
+      }
+      return jsonResponse({ message: 'not found' }, 404);
+    });
+
+    const config: GitHubSourceConfig = {
+      type: 'github',
+      repo: 'acme/platform',
+      branch: 'main',
+      path: 'docs/runbooks',
+      token: 'ghp_test',
+    };
+    const docs = await loadFromGitHub(config);
+
+    expect(docs).toHaveLength(1);
+    expect(docs[0].title).toBe('Redis failover');
+    expect(docs[0].services).toEqual(['cache']);
+    expect(docs[0].updatedAt).toBe('2026-03-01T00:00:00Z');
+    expect(docs[0].sourceUrl).toBe(
+      'https://github.com/acme/platform/blob/abc123/docs/runbooks/redis.md'
+    );
+    expect(config.lastSyncCommit).toBe('abc123');
+  });
+
+  it('only fetches files changed since the last synced commit', async () => {
+    fetchMock.mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname.endsWith('/commits/main')) {
+        return jsonResponse({ sha: 'def456' });
+      }
+      if (url.pathname.endsWith('/compare/abc123...def456')) {
+        return jsonResponse({
+          status: 'ahead',
+          files: [
+            { filename: 'docs/runbooks/redis.md', status: 'modified' },
+            { filename: 'docs/runbooks/old.md', status: 'removed' },
+            {
+              filename: 'docs/runbooks/cache.md',
+              status: 'renamed',
+              previous_filename: 'docs/runbooks/redis-old.md',
+            },
+            { filename: 'README.md', status: 'modified' },
+          ],
+        });
+      }
+      if (/\/contents\/docs\/runbooks\/(redis|cache)\.md$/.test(url.pathname)) {
+        return new Response(RUNBOOK, { status: 200 });
+      }
+      return jsonResponse({ message: 'not found' }, 404);
+    });
+
+    const removed: string[] = [];
+    const docs = await loadFromGitHub(
+      {
+        type: 'github',
+        repo: 'acme/platform',
+        branch: 'main',
+        path: 'docs/runbooks/',
+        token: 'ghp_test',
+        lastSyncCommit: 'abc123',
+      },
+      { removed }
+    );
+
+    expect(docs.map((doc) => doc.id)).toEqual([
+      'github_acme_platform_docs_runbooks_redis_md',
+      'github_acme_platform_docs_runbooks_cache_md',
+    ]);
+    expect(removed).toEqual([
+      'github_acme_platform_docs_runbooks_old_md',
+      'github_acme_platform_docs_runbooks_redis_old_md',
+    ]);
+    expect(fetchMock.mock.calls.some(([input]) => String(input).includes('/git/trees/'))).toBe(
+      false
+    );
+  });
+
+  it('lists the whole tree when more files changed than the compare API returns', async () => {
+    fetchMock.mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname.endsWith('/commits/main')) {
+        return jsonResponse({ sha: 'def456' });
+      }
+      if (url.pathname.endsWith('/compare/abc123...def456')) {
+        return jsonResponse({
+          status: 'ahead',
+          files: Array.from({ length: 300 }, (_, i) => ({
+            filename: `src/file${i}.ts`,
+            status: 'modified',
+          })),
+        });
+      }
+      if (url.pathname.endsWith('/git/trees/def456')) {
+        return jsonResponse({
+          sha: 'def456',
+          tree: [{ path: 'docs/runbooks/redis.md', type: 'blob', sha: 'f1' }],
+        });
+      }
+      if (url.pathname.endsWith('/contents/docs/runbooks/redis.md')) {
+        return new Response(RUNBOOK, { status: 200 });
+      }
+      return jsonResponse({ message: 'not found' }, 404);
+    });
+
+    const options: LoadOptions = {};
+    const docs = await loadFromGitHub(
+      {
+        type: 'github',
+        repo: 'acme/platform',
+        branch: 'main',
+        path: 'docs/runbooks',
+        token: 'ghp_test',
+        lastSyncCommit: 'abc123',
+      },
+      options
+    );
+
+    expect(docs.map((doc) => doc.id)).toEqual(['github_acme_platform_docs_runbooks_redis_md']);
+    expect(options.complete).toBe(true);
+  });
+
+  it('keeps the last synced commit when a file fails to load', async () => {
+    fetchMock.mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname.endsWith('/commits/main')) {
+        return jsonResponse({ sha: 'def456' });
+      }
+      if (url.pathname.endsWith('/compare/abc123...def456')) {
+        return jsonResponse({
+          status: 'ahead',
+          files: [{ filename: 'docs/runbooks/redis.md', status: 'modified' }],
+        });
+      }
+      return jsonResponse({ message: 'Server Error' }, 502);
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const config: GitHubSourceConfig = {
+      type: 'github',
+      repo: 'acme/platform',
+      branch: 'main',
+      token: 'ghp_test',
+      lastSyncCommit: 'abc123',
+    };
+    expect(await loadFromGitHub(config)).toEqual([]);
+    expect(config.lastSyncCommit).toBe('abc123');
+  });
+
+  it('skips the sync when the branch head has not moved', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ sha: 'abc123' }));
+
+    const docs = await loadFromGitHub({
+      type: 'github',
+      repo: 'acme/platform',
+      branch: 'main',
+      token: 'ghp_test',
+      lastSyncCommit: 'abc123',
+    });
+
+    expect(docs).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadFromNotion } from '../notion';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+function text(content: string, annotations: Record<string, boolean> = {}) {
+  return { plain_text: content, annotations };
+}
+
+const page = {
+  id: 'aaaa-bbbb',
+  created_time: '2026-01-01T00:00:00.000Z',
+  last_edited_time: '2026-02-01T00:00:00.000Z',
+  url: 'https://www.notion.so/Redis-failover-aaaabbbb',
+  properties: {
+    Name: { type: 'title', title: [text('Redis failover')] },
+    Type: { type: 'select', select: { name: 'Runbook' } },
+    Services: { type: 'multi_select', multi_select: [{ name: 'cache' }, { name: 'checkout' }] },
+    Tags: { type: 'multi_select', multi_select: [{ name: 'redis' }] },
+    Severity: { type: 'select', select: { name: 'SEV1' } },
+  },
+};
+
+const blocks = [
+  { id: 'b1', type: 'heading_2', has_children: false, heading_2: { rich_text: [text('Steps')] } },
+  {
+    id: 'b2',
+    type: 'numbered_list_item',
+    has_children: false,
+    numbered_list_item: { rich_text: [text('Check replication lag')] },
+  },
+  {
+    id: 'b3',
+    type: 'numbered_list_item',
+    has_children: false,
+    numbered_list_item: { rich_text: [text('Promote replica')] },
+  },
+  {
+    id: 'b4',
+    type: 'code',
+    has_children: false,
+    code: { language: 'shell', rich_text: [text('redis-cli failover')] },
+  },
+];
+
+describe('loadFromNotion', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('converts database pages into knowledge documents', async () => {
+    fetchMock.mockImplementation(async (input) => {
+      const url = String(input);
+      if (url.endsWith('/databases/db-1/query')) {
+        return jsonResponse({ results: [page], has_more: false, next_cursor: null });
+      }
+      if (url.includes('/blocks/aaaa-bbbb/children')) {
+        return jsonResponse({ results: blocks, has_more: false, next_cursor: null });
+      }
+      return jsonResponse({ message: 'not found' }, 404);
+    });
+
+    const docs = await loadFromNotion({ type: 'notion', databaseId: 'db-1', apiKey: 'secret' });
+
+    expect(docs).toHaveLength(1);
+    const doc = docs[0];
+    expect(doc.id).toBe('notion_aaaabbbb');
+    expect(doc.title).toBe('Redis failover');
+    expect(doc.type).toBe('runbook');
+    expect(doc.services).toEqual(['cache', 'checkout']);
+    expect(doc.tags).toEqual(['redis']);
+    expect(doc.severityRelevance).toEqual(['sev1']);
+    expect(doc.sourceUrl).toBe(page.url);
+    expect(doc.content).toContain('## Steps');
+    expect(doc.content).toContain('1. Check replication lag\n2. Promote replica');
+    expect(doc.content).toContain('```shell\nredis-cli failover\n```');
+    expect(doc.chunks[0].sectionTitle).toBe('Steps');
+  });
+
+  it('adds a last-edited filter for incremental syncs', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ results: [], has_more: false, next_cursor: null }));
+
+    await loadFromNotion(
+      {
+        type: 'notion',
+        databaseId: 'db-1',
+        apiKey: 'secret',
+        filter: { property: 'Status', status: { equals: 'Published' } },
+      },
+      { since: '2026-02-01T00:00:00.000Z' }
+    );
+
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    const body = JSON.parse(String(init.body));
+    expect(body.filter).toEqual({
+      and: [
+        { property: 'Status', status: { equals: 'Published' } },
+        { timestamp: 'last_edited_time', last_edited_time: { after: '2026-02-01T00:00:00.000Z' } },
+      ],
+    });
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+  });
+
+  it('returns nothing without an API key', async () => {
+    const previous = process.env.NOTION_API_KEY;
+    delete process.env.NOTION_API_KEY;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const docs = await loadFromNotion({ type: 'notion', databaseId: 'db-1' });
+
+    expect(docs).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+    warn.mockRestore();
+    if (previous !== undefined) process.env.NOTION_API_KEY = previous;
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configure, pdFetch } from '../../../tools/incident/pagerduty';
+import { loadFromPagerDuty } from '../pagerduty';
+import type { LoadOptions } from '..';
+
+vi.mock('../../../utils/config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../utils/config')>();
+  return {
+    ...actual,
+    loadConfig: vi.fn(async () => actual.DEFAULT_CONFIG),
+  };
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+const incidents = [
+  {
+    id: 'P1ABC',
+    incident_number: 42,
+    title: 'Checkout API 5xx spike',
+    status: 'resolved',
+    urgency: 'high',
+    created_at: '2026-03-01T10:00:00Z',
+    resolved_at: '2026-03-01T11:00:00Z',
+    html_url: 'https://acme.pagerduty.com/incidents/P1ABC',
+    service: { id: 'PSVC1', summary: 'checkout-api' },
+    priority: { id: 'PRI1', summary: 'P1' },
+  },
+  {
+    id: 'P2DEF',
+    incident_number: 41,
+    title: 'Disk usage high on worker',
+    status: 'resolved',
+    urgency: 'low',
+    created_at: '2026-01-10T10:00:00Z',
+    resolved_at: '2026-01-10T10:30:00Z',
+    service: { id: 'PSVC2', summary: 'worker' },
+    priority: null,
+  },
+];
+
+describe('loadFromPagerDuty', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/incidents') {
+        return jsonResponse({ incidents, more: false });
+      }
+      if (url.pathname === '/incidents/P1ABC/notes') {
+        return jsonResponse({
+          notes: [
+            {
+              id: 'N1',
+              content: 'Error rate climbing after deploy',
+              created_at: '2026-03-01T10:10:00Z',
+              user: { summary: 'Alice' },
+            },
+            {
+              id: 'N2',
+              content: 'Root cause: bad connection pool config. Rolled back v2.3.1.',
+              created_at: '2026-03-01T10:55:00Z',
+              user: { summary: 'Bob' },
+            },
+          ],
+        });
+      }
+      if (url.pathname === '/incidents/P1ABC/log_entries') {
+        return jsonResponse({
+          log_entries: [
+            {
+              id: 'L2',
+              type: 'resolve_log_entry',
+              created_at: '2026-03-01T11:00:00Z',
+              summary: 'Resolved by Bob',
+              agent: { summary: 'Bob' },
+            },
+            {
+              id: 'L1',
+              type: 'trigger_log_entry',
+              created_at: '2026-03-01T10:00:00Z',
+              summary: 'Triggered through the API',
+            },
+          ],
+        });
+      }
+      if (url.pathname.endsWith('/notes')) {
+        return jsonResponse({ notes: [] });
+      }
+      if (url.pathname.endsWith('/log_entries')) {
+        return jsonResponse({ log_entries: [] });
+      }
+      return jsonResponse({ error: 'not found' }, 404);
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('imports resolved incidents with timeline and resolution notes', async () => {
+    const docs = await loadFromPagerDuty({
+      type: 'pagerduty',
+      apiKey: 'pd-key',
+      serviceIds: ['PSVC1'],
+    });
+
+    const listUrl = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(listUrl.searchParams.getAll('statuses[]')).toEqual(['resolved']);
+    expect(listUrl.searchParams.getAll('service_ids[]')).toEqual(['PSVC1']);
+    const headers = fetchMock.mock.calls[0][1]?.headers as Headers;
+    expect(headers.get('Authorization')).toBe('Token token=pd-key');
+
+    expect(docs).toHaveLength(2);
+    const [postmortem, knownIssue] = docs;
+    expect(postmortem).toMatchObject({
+      id: 'pagerduty_P1ABC',
+      type: 'postmortem',
+      title: '[#42] Checkout API 5xx spike',
+      services: ['checkout-api'],
+      severityRelevance: ['sev1'],
+      updatedAt: '2026-03-01T11:00:00Z',
+      author: 'Bob',
+      sourceUrl: 'https://acme.pagerduty.com/incidents/P1ABC',
+    });
+    expect(postmortem.content).toContain(
+      '## Timeline\n\n- 2026-03-01T10:00:00Z — Triggered through the API\n- 2026-03-01T10:10:00Z — Note by Alice: Error rate climbing after deploy'
+    );
+    expect(postmortem.content).toContain(
+      '## Resolution\n\nResolved by Bob\n\nRoot cause: bad connection pool config.'
+    );
+    expect(postmortem.chunks.map((chunk) => chunk.sectionTitle)).toContain('Resolution');
+
+    expect(knownIssue.type).toBe('known_issue');
+    expect(knownIssue.severityRelevance).toEqual(['sev3']);
+  });
+
+  it('sends the source key without replacing the incident tools key', async () => {
+    configure('incident-key');
+
+    await loadFromPagerDuty({ type: 'pagerduty', apiKey: 'pd-key' });
+    const sourceKeys = fetchMock.mock.calls.map(([, init]) =>
+      (init?.headers as Headers).get('Authorization')
+    );
+    expect(new Set(sourceKeys)).toEqual(new Set(['Token token=pd-key']));
+
+    fetchMock.mockClear();
+    await pdFetch('/incidents');
+    const headers = fetchMock.mock.calls[0][1]?.headers as Headers;
+    expect(headers.get('Authorization')).toBe('Token token=incident-key');
+  });
+
+  it('only imports incidents resolved since the last sync', async () => {
+    const docs = await loadFromPagerDuty(
+      { type: 'pagerduty', apiKey: 'pd-key' },
+      { since: '2026-02-01T00:00:00Z' }
+    );
+
+    expect(docs.map((doc) => doc.id)).toEqual(['pagerduty_P1ABC']);
+    expect(fetchMock.mock.calls.some(([input]) => String(input).includes('P2DEF'))).toBe(false);
+  });
+
+  it('counts incidents whose details fail to load', async () => {
+    const fetchIncidents = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (input, init) =>
+      String(input).includes('/incidents/P2DEF/')
+        ? jsonResponse({ error: 'unavailable' }, 503)
+        : fetchIncidents(input, init)
+    );
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const options: LoadOptions = {};
+    const docs = await loadFromPagerDuty({ type: 'pagerduty', apiKey: 'pd-key' }, options);
+
+    expect(docs.map((doc) => doc.id)).toEqual(['pagerduty_P1ABC']);
+    expect(options.failed).toBe(1);
+    error.mockRestore();
+  });
+
+  it('returns nothing without an API key', async () => {
+    const previous = process.env.PAGERDUTY_API_KEY;
+    delete process.env.PAGERDUTY_API_KEY;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const docs = await loadFromPagerDuty({ type: 'pagerduty' });
+
+    expect(docs).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+    warn.mockRestore();
+    if (previous !== undefined) process.env.PAGERDUTY_API_KEY = previous;
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * HTTP/JSON API Knowledge Source
+ *
+ * Loads knowledge documents from paginated JSON endpoints such as internal
+ * service catalogs or incident wikis. A declarative field mapping turns each
+ * response item into a KnowledgeDocument.
+ */
+
+import { chunkMarkdown } from '../indexer/chunker';
+import type { KnowledgeDocument, KnowledgeType, ApiSourceConfig, ApiFieldMapping } from '../types';
+import type { LoadOptions } from './index';
+
+const DEFAULT_MAX_PAGES = 100;
+
+const KNOWLEDGE_TYPES: KnowledgeType[] = [
+  'runbook',
+  'postmortem',
+  'architecture',
+  'ownership',
+  'known_issue',
+  'environment',
+  'playbook',
+  'faq',
+];
+
+const DEFAULT_MAPPING: Required<Pick<ApiFieldMapping, 'id' | 'title' | 'content'>> = {
+  id: 'id',
+  title: 'title',
+  content: 'content',
+};
+
+/**
+ * Load knowledge documents from a JSON API
+ */
+export async function loadFromApi(
+  config: ApiSourceConfig,
+  options: LoadOptions = {}
+): Promise<KnowledgeDocument[]> {
+  const documents: KnowledgeDocument[] = [];
+  const mapping = { ...DEFAULT_MAPPING, ...config.mapping };
+  const sourceName = config.name || new URL(config.endpoint).hostname;
+
+  const { items, complete } = await fetchAllItems(config, options.since);
+  let failed = 0;
+
+  for (let index = 0; index < items.length; index++) {
+    try {
+      const doc = mapItem(items[index], index, config, mapping, sourceName);
+      if (!doc) {
+        continue;
+      }
+
+      // Filter by last modified time for incremental sync
+      if (options.since && mapping.updatedAt) {
+        const modified = new Date(doc.updatedAt);
+        if (!Number.isNaN(modified.getTime()) && modified <= new Date(options.since)) {
+          continue;
+        }
+      }
+
+      documents.push(doc);
+    } catch (error) {
+      failed++;
+      console.error(`Error processing API item ${index} from ${sourceName}:`, error);
+    }
+  }
+
+  options.complete = complete && !options.since && !failed;
+  options.failed = failed;
+  return documents;
+}
+
+/**
+ * Build request headers, including auth
+ */
+function buildHeaders(config: ApiSourceConfig): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    ...config.headers,
+  };
+
+  if (config.auth) {
+    switch (config.auth.type) {
+      case 'bearer':
+        headers.Authorization = `Bearer ${config.auth.value}`;
+        break;
+      case 'basic':
+        headers.Authorization = `Basic ${Buffer.from(config.auth.value).toString('base64')}`;
+        break;
+      case 'header':
+        headers[config.auth.header || 'X-API-Key'] = config.auth.value;
+        break;
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Fetch every item across all pages. The result is incomplete when paging
+ * stopped at maxPages with more pages left.
+ */
+async function fetchAllItems(
+  config: ApiSourceConfig,
+  since?: string
+): Promise<{ items: unknown[]; complete: boolean }> {
+  const items: unknown[] = [];
+  const headers = buildHeaders(config);
+  const pagination = config.pagination;
+  const maxPages = pagination?.maxPages || DEFAULT_MAX_PAGES;
+
+  let page = pagination?.startPage ?? 1;
+  let cursor: string | undefined;
+  let nextUrl: string | undefined;
+
+  for (let pageCount = 0; pageCount < maxPages; pageCount++) {
+    const url = nextUrl ? new URL(nextUrl) : new URL(config.endpoint);
+
+    if (!nextUrl) {
+      for (const [key, value] of Object.entries(config.query || {})) {
+        url.searchParams.set(key, value);
+      }
+      if (since && config.sinceParam) {
+        url.searchParams.set(config.sinceParam, since);
+      }
+      if (pagination?.pageSize && pagination.pageSizeParam) {
+        url.searchParams.set(pagination.pageSizeParam, String(pagination.pageSize));
+      }
+      if (pagination?.type === 'page') {
+        url.searchParams.set(pagination.param || 'page', String(page));
+      }
+      if (pagination?.type === 'cursor' && cursor) {
+        url.searchParams.set(pagination.param || 'cursor', cursor);
+      }
+    }
+
+    const response = await fetch(url.toString(), { headers });
+    if (!response.ok) {
+      throw new Error(`API source error: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as unknown;
+    const pageItems = config.itemsPath ? getPath(body, config.itemsPath) : body;
+
+    if (!Array.isArray(pageItems)) {
+      throw new Error(
+        `API source response has no item array${config.itemsPath ? ` at "${config.itemsPath}"` : ''}`
+      );
+    }
+
+    items.push(...pageItems);
+
+    if (!pagination || pageItems.length === 0) {
+      return { items, complete: true };
+    }
+
+    if (pagination.type === 'page') {
+      if (pagination.pageSize && pageItems.length < pagination.pageSize) {
+        return { items, complete: true };
+      }
+      page++;
+      continue;
+    }
+
+    // Cursor pagination: the cursor may be an opaque token or a full next-page URL
+    const next = getPath(body, pagination.cursorPath || 'next_cursor');
+    if (next === undefined || next === null || next === '' || next === false) {
+      return { items, complete: true };
+    }
+    const nextValue = String(next);
+    if (/^https?:\/\//i.test(nextValue)) {
+      // Next-page URLs carry the source credentials, so they must stay on the endpoint's origin
+      if (new URL(nextValue).origin !== new URL(config.endpoint).origin) {
+        throw new Error(`API source next-page URL is not on the endpoint origin: ${nextValue}`);
+      }
+      nextUrl = nextValue;
+    } else {
+      nextUrl = undefined;
+      cursor = nextValue;
+    }
+  }
+
+  // Stopped at maxPages with more pages left
+  return { items, complete: false };
+}
+
+/**
+ * Read a value at a dot path (e.g. "data.items" or "owners.0.name")
+ */
+function getPath(obj: unknown, path: string): unknown {
+  let current: unknown = obj;
+  for (const part of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function asString(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value, null, 2);
+}
+
+function asStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value
+      .map((entry) =>
+        entry && typeof entry === 'object'
+          ? asString((entry as Record<string, unknown>).name)
+          : asString(entry)
+      )
+      .filter((entry): entry is string => Boolean(entry));
+  }
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Map an API item to a KnowledgeDocument using the configured field mapping
+ */
+function mapItem(
+  item: unknown,
+  index: number,
+  config: ApiSourceConfig,
+  mapping: ApiFieldMapping & typeof DEFAULT_MAPPING,
+  sourceName: string
+): KnowledgeDocument | null {
+  if (!item || typeof item !== 'object') {
+    return null;
+  }
+
+  const content = asString(getPath(item, mapping.content));
+  if (!content || content.trim().length === 0) {
+    return null;
+  }
+
+  const title = asString(getPath(item, mapping.title)) || `${sourceName} item ${index + 1}`;
+  const rawId = asString(getPath(item, mapping.id)) || title;
+  const id = `api_${sourceName}_${rawId}`.replace(/[^a-zA-Z0-9]/g, '_');
+
+  const tags = mapping.tags ? asStringList(getPath(item, mapping.tags)) : [];
+  const typeValue = mapping.type ? asString(getPath(item, mapping.type)) : undefined;
+  const now = new Date().toISOString();
+  const updatedAt = (mapping.updatedAt && asString(getPath(item, mapping.updatedAt))) || now;
+  const createdAt = (mapping.createdAt && asString(getPath(item, mapping.createdAt))) || updatedAt;
+
+  // Chunk the content
+  const chunks = chunkMarkdown(id, content);
+
+  return {
+    id,
+    source: {
+      type: 'api',
+      name: `api:${sourceName}`,
+      config,
+    },
+    type: resolveType(typeValue, tags, mapping.defaultType),
+    title,
+    content,
+    chunks,
+    services: mapping.services ? asStringList(getPath(item, mapping.services)) : [],
+    tags,
+    severityRelevance: [],
+    createdAt,
+    updatedAt,
+    sourceUrl: mapping.url ? asString(getPath(item, mapping.url)) : undefined,
+  };
+}
+
+/**
+ * Resolve document type from the mapped value, tags, or the configured default
+ */
+function resolveType(
+  value: string | undefined,
+  tags: string[],
+  defaultType: KnowledgeType | undefined
+): KnowledgeType {
+  const normalized = value?.toLowerCase().replace(/[\s-]+/g, '_');
+  if (normalized && KNOWLEDGE_TYPES.includes(normalized as KnowledgeType)) {
+    return normalized as KnowledgeType;
+  }
+  if (normalized === 'post_mortem' || normalized === 'incident_report') {
+    return 'postmortem';
+  }
+
+  const lowerTags = tags.map((tag) => tag.toLowerCase());
+  if (lowerTags.includes('postmortem') || lowerTags.includes('post-mortem')) return 'postmortem';
+  if (lowerTags.includes('architecture') || lowerTags.includes('adr')) return 'architecture';
+  if (lowerTags.includes('known-issue') || lowerTags.includes('known_issue')) return 'known_issue';
+
+  return defaultType || 'runbook';
+}
@@ -5,12 +5,8 @@
  * Uses REST API v2 for fetching pages and their content.
  */
 
-import type {
-  KnowledgeDocument,
-  KnowledgeChunk,
-  KnowledgeType,
-  ConfluenceSourceConfig,
-} from '../types';
+import { chunkMarkdown, confluenceStorageToMarkdown } from '../indexer/chunker';
+import type { KnowledgeDocument, KnowledgeType, ConfluenceSourceConfig } from '../types';
 import type { LoadOptions } from './index';
 
 interface ConfluencePage {
@@ -56,10 +52,13 @@ export async function loadFromConfluence(
   const authHeader = createBasicAuthHeader(config.auth.email, config.auth.apiToken);
 
   // Fetch pages from the space
+  const missing: string[] = [];
   const pages = await fetchPagesFromSpace(baseUrl, config.spaceKey, authHeader, {
     labels: config.labels,
     since: options.since,
+    missing,
   });
+  let failed = missing.length;
 
   for (const page of pages) {
     try {
@@ -68,10 +67,13 @@ export async function loadFromConfluence(
         documents.push(doc);
       }
     } catch (error) {
+      failed++;
       console.error(`Error processing Confluence page ${page.id}:`, error);
     }
   }
 
+  options.complete = !options.since && !failed;
+  options.failed = failed;
   return documents;
 }
 
@@ -90,7 +92,7 @@ async function fetchPagesFromSpace(
   baseUrl: string,
   spaceKey: string,
   authHeader: string,
-  options: { labels?: string[]; since?: string }
+  options: { labels?: string[]; since?: string; missing?: string[] }
 ): Promise<ConfluencePage[]> {
   const pages: ConfluencePage[] = [];
   let url = `${baseUrl}/wiki/api/v2/spaces/${spaceKey}/pages?body-format=storage&limit=50`;
@@ -133,6 +135,8 @@ async function fetchPagesFromSpace(
         const fullPage = await fetchPageContent(baseUrl, page.id, authHeader);
         if (fullPage) {
           pages.push(fullPage);
+        } else {
+          options.missing?.push(page.id);
         }
       } else {
         pages.push(page);
@@ -279,7 +283,7 @@ async function processPage(
   }
 
   // Convert Confluence storage format (HTML) to markdown
-  const markdown = convertConfluenceToMarkdown(htmlContent);
+  const markdown = confluenceStorageToMarkdown(htmlContent);
 
   // Extract metadata from labels
   const labels = page.labels?.results?.map((l) => l.name) || [];
@@ -318,91 +322,6 @@ async function processPage(
   };
 }
 
-/**
- * Convert Confluence storage format (HTML) to markdown
- */
-function convertConfluenceToMarkdown(html: string): string {
-  let md = html;
-
-  // Remove Confluence macros (keep content where possible)
-  md = md.replace(
-    /<ac:structured-macro[^>]*ac:name="code"[^>]*>[\s\S]*?<ac:plain-text-body><!\[CDATA\[([\s\S]*?)\]\]><\/ac:plain-text-body>[\s\S]*?<\/ac:structured-macro>/gi,
-    '```\n$1\n```'
-  );
-  md = md.replace(
-    /<ac:structured-macro[^>]*ac:name="info"[^>]*>[\s\S]*?<ac:rich-text-body>([\s\S]*?)<\/ac:rich-text-body>[\s\S]*?<\/ac:structured-macro>/gi,
-    '> $1'
-  );
-  md = md.replace(
-    /<ac:structured-macro[^>]*ac:name="warning"[^>]*>[\s\S]*?<ac:rich-text-body>([\s\S]*?)<\/ac:rich-text-body>[\s\S]*?<\/ac:structured-macro>/gi,
-    '> $1'
-  );
-  md = md.replace(
-    /<ac:structured-macro[^>]*ac:name="note"[^>]*>[\s\S]*?<ac:rich-text-body>([\s\S]*?)<\/ac:rich-text-body>[\s\S]*?<\/ac:structured-macro>/gi,
-    '> $1'
-  );
-  md = md.replace(/<ac:structured-macro[^>]*>[\s\S]*?<\/ac:structured-macro>/gi, '');
-
-  // Convert headings
-  md = md.replace(/<h1[^>]*>([\s\S]*?)<\/h1>/gi, '# $1\n');
-  md = md.replace(/<h2[^>]*>([\s\S]*?)<\/h2>/gi, '## $1\n');
-  md = md.replace(/<h3[^>]*>([\s\S]*?)<\/h3>/gi, '### $1\n');
-  md = md.replace(/<h4[^>]*>([\s\S]*?)<\/h4>/gi, '#### $1\n');
-  md = md.replace(/<h5[^>]*>([\s\S]*?)<\/h5>/gi, '##### $1\n');
-  md = md.replace(/<h6[^>]*>([\s\S]*?)<\/h6>/gi, '###### $1\n');
-
-  // Convert links
-  md = md.replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)');
-
-  // Convert lists
-  md = md.replace(/<ul[^>]*>/gi, '');
-  md = md.replace(/<\/ul>/gi, '\n');
-  md = md.replace(/<ol[^>]*>/gi, '');
-  md = md.replace(/<\/ol>/gi, '\n');
-  md = md.replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, '- $1\n');
-
-  // Convert formatting
-  md = md.replace(/<strong[^>]*>([\s\S]*?)<\/strong>/gi, '**$1**');
-  md = md.replace(/<b[^>]*>([\s\S]*?)<\/b>/gi, '**$1**');
-  md = md.replace(/<em[^>]*>([\s\S]*?)<\/em>/gi, '*$1*');
-  md = md.replace(/<i[^>]*>([\s\S]*?)<\/i>/gi, '*$1*');
-  md = md.replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, '`$1`');
-  md = md.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, '```\n$1\n```');
-
-  // Convert paragraphs and breaks
-  md = md.replace(/<p[^>]*>([\s\S]*?)<\/p>/gi, '$1\n\n');
-  md = md.replace(/<br\s*\/?>/gi, '\n');
-  md = md.replace(/<hr\s*\/?>/gi, '---\n');
-
-  // Convert tables
-  md = md.replace(/<table[^>]*>/gi, '\n');
-  md = md.replace(/<\/table>/gi, '\n');
-  md = md.replace(/<thead[^>]*>/gi, '');
-  md = md.replace(/<\/thead>/gi, '');
-  md = md.replace(/<tbody[^>]*>/gi, '');
-  md = md.replace(/<\/tbody>/gi, '');
-  md = md.replace(/<tr[^>]*>([\s\S]*?)<\/tr>/gi, '|$1\n');
-  md = md.replace(/<th[^>]*>([\s\S]*?)<\/th>/gi, ' $1 |');
-  md = md.replace(/<td[^>]*>([\s\S]*?)<\/td>/gi, ' $1 |');
-
-  // Clean up remaining HTML
-  md = md.replace(/<[^>]+>/g, '');
-
-  // Decode HTML entities
-  md = md.replace(/&nbsp;/g, ' ');
-  md = md.replace(/&amp;/g, '&');
-  md = md.replace(/&lt;/g, '<');
-  md = md.replace(/&gt;/g, '>');
-  md = md.replace(/&quot;/g, '"');
-  md = md.replace(/&#39;/g, "'");
-
-  // Clean up whitespace
-  md = md.replace(/\n{3,}/g, '\n\n');
-  md = md.trim();
-
-  return md;
-}
-
 /**
  * Infer document type from labels
  */
@@ -505,79 +424,3 @@ function extractSeverityFromLabels(labels: string[]): Array<'sev1' | 'sev2' | 's
 
   return severities;
 }
-
-/**
- * Chunk markdown content by sections
- */
-function chunkMarkdown(documentId: string, content: string): KnowledgeChunk[] {
-  const chunks: KnowledgeChunk[] = [];
-  const lines = content.split('\n');
-
-  let currentChunk: string[] = [];
-  let currentTitle: string | undefined;
-  let chunkIndex = 0;
-  let lineStart = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Check for section headers
-    if (line.match(/^#{1,3}\s+/)) {
-      // Save previous chunk if exists
-      if (currentChunk.length > 0) {
-        chunks.push({
-          id: `${documentId}_${chunkIndex++}`,
-          documentId,
-          content: currentChunk.join('\n').trim(),
-          sectionTitle: currentTitle,
-          chunkType: inferChunkType(currentChunk.join('\n')),
-          lineStart,
-          lineEnd: i - 1,
-        });
-      }
-
-      currentTitle = line.replace(/^#+\s+/, '').trim();
-      currentChunk = [line];
-      lineStart = i;
-    } else {
-      currentChunk.push(line);
-    }
-  }
-
-  // Save final chunk
-  if (currentChunk.length > 0) {
-    chunks.push({
-      id: `${documentId}_${chunkIndex}`,
-      documentId,
-      content: currentChunk.join('\n').trim(),
-      sectionTitle: currentTitle,
-      chunkType: inferChunkType(currentChunk.join('\n')),
-      lineStart,
-      lineEnd: lines.length - 1,
-    });
-  }
-
-  return chunks;
-}
-
-/**
- * Infer chunk type from content
- */
-function inferChunkType(content: string): KnowledgeChunk['chunkType'] {
-  const lower = content.toLowerCase();
-
-  if (content.includes('```')) {
-    return 'command';
-  }
-  if (lower.includes('step') || lower.includes('[ ]') || lower.includes('[x]')) {
-    return 'procedure';
-  }
-  if (lower.includes('if ') || lower.includes('when ') || lower.includes('decision')) {
-    return 'decision';
-  }
-  if (lower.includes('symptom') || lower.includes('overview') || lower.includes('background')) {
-    return 'context';
-  }
-
-  return 'reference';
-}
@@ -6,44 +6,79 @@
  */
 
 import { readFile, readdir, stat } from 'fs/promises';
-import { join, extname, basename } from 'path';
+import { join, extname, basename, dirname, resolve } from 'path';
 import { existsSync } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import matter from 'gray-matter';
-import type {
-  KnowledgeDocument,
-  KnowledgeChunk,
-  KnowledgeType,
-  FilesystemSourceConfig,
-} from '../types';
+import { bodyLineOffset, chunkMarkdown } from '../indexer/chunker';
+import type { KnowledgeDocument, KnowledgeType, FilesystemSourceConfig } from '../types';
+import type { LoadOptions } from './index';
+
+const execFileAsync = promisify(execFile);
 
 /**
  * Load all knowledge documents from a directory
  */
 export async function loadFromFilesystem(
-  config: FilesystemSourceConfig
+  config: FilesystemSourceConfig,
+  options: LoadOptions = {}
 ): Promise<KnowledgeDocument[]> {
   const documents: KnowledgeDocument[] = [];
 
   if (!existsSync(config.path)) {
+    options.complete = true;
     return documents;
   }
 
   const files = await findFiles(config.path, config.filePatterns);
+  const commitDates = await lastCommitDates(config.path);
+  let failed = 0;
 
   for (const filePath of files) {
     try {
-      const doc = await parseDocument(filePath);
+      const doc = await parseDocument(filePath, commitDates.get(filePath));
       if (doc) {
         documents.push(doc);
       }
     } catch (error) {
+      failed++;
       console.error(`Error parsing ${filePath}:`, error);
     }
   }
 
+  options.complete = !failed;
+  options.failed = failed;
   return documents;
 }
 
+/**
+ * Load one file of a filesystem source, e.g. after it changed on disk.
+ * Returns null when the file no longer exists or isn't a knowledge file.
+ */
+export async function loadFilesystemFile(
+  config: FilesystemSourceConfig,
+  filePath: string
+): Promise<KnowledgeDocument | null> {
+  if (!existsSync(filePath) || !matchesFilePatterns(filePath, config.filePatterns)) {
+    return null;
+  }
+  const stats = await stat(filePath);
+  return stats.isFile() ? parseDocument(filePath, await lastCommitDate(filePath)) : null;
+}
+
+/**
+ * ID of the document loaded from a file
+ */
+export function filesystemDocumentId(filePath: string): string {
+  return filePath.replace(/[^a-zA-Z0-9]/g, '_');
+}
+
+function matchesFilePatterns(filePath: string, patterns: string[]): boolean {
+  const ext = extname(filePath).toLowerCase();
+  return patterns.some((p) => p.includes(ext) || p === '**/*');
+}
+
 /**
  * Find all matching files in a directory
  */
@@ -59,11 +94,8 @@ async function findFiles(dir: string, patterns: string[]): Promise<string[]> {
 
       if (stats.isDirectory()) {
         await walk(fullPath);
-      } else if (stats.isFile()) {
-        const ext = extname(entry).toLowerCase();
-        if (patterns.some((p) => p.includes(ext) || p === '**/*')) {
-          files.push(fullPath);
-        }
+      } else if (stats.isFile() && matchesFilePatterns(entry, patterns)) {
+        files.push(fullPath);
       }
     }
   }
@@ -75,23 +107,124 @@ async function findFiles(dir: string, patterns: string[]): Promise<string[]> {
 /**
  * Parse a single document file
  */
-async function parseDocument(filePath: string): Promise<KnowledgeDocument | null> {
-  const content = await readFile(filePath, 'utf-8');
+async function parseDocument(
+  filePath: string,
+  committed: string | undefined
+): Promise<KnowledgeDocument | null> {
+  const [content, stats] = await Promise.all([readFile(filePath, 'utf-8'), stat(filePath)]);
   const ext = extname(filePath).toLowerCase();
 
+  // The last commit stands in for a review date when the frontmatter has none.
+  // File times can't, since a fresh checkout resets them, so documents
+  // without history are marked undated.
+  const modified = committed ?? stats.mtime.toISOString();
+  const undated = !committed;
+
   if (ext === '.md' || ext === '.markdown') {
-    return parseMarkdown(filePath, content);
+    return parseMarkdown(filePath, content, modified, undated);
   } else if (ext === '.yaml' || ext === '.yml') {
-    return parseYaml(filePath, content);
+    return parseYaml(filePath, content, modified, undated);
   }
 
   return null;
 }
 
+/**
+ * Date of the last commit touching each file under a source root, keyed by
+ * path under the root. Reads the history with one git log; empty outside a
+ * git checkout.
+ */
+async function lastCommitDates(root: string): Promise<Map<string, string>> {
+  const dates = new Map<string, string>();
+  if (!insideGitRepository(root)) {
+    return dates;
+  }
+
+  try {
+    // Each commit starts with a NUL-prefixed date line, followed by the files it touched
+    const { stdout } = await execFileAsync(
+      'git',
+      [
+        '-c',
+        'core.quotePath=false',
+        'log',
+        '--name-only',
+        '--relative',
+        '--format=%x00%cI',
+        '--',
+        '.',
+      ],
+      { cwd: root, maxBuffer: 64 * 1024 * 1024 }
+    );
+    let committed: string | undefined;
+    for (const line of stdout.split('\n')) {
+      if (line.startsWith('\0')) {
+        committed = toIsoDate(line.slice(1));
+      } else if (line && committed) {
+        const filePath = join(root, line);
+        // Newest commits come first
+        if (!dates.has(filePath)) {
+          dates.set(filePath, committed);
+        }
+      }
+    }
+  } catch {
+    // Not a usable checkout; the files stay undated
+  }
+  return dates;
+}
+
+/**
+ * Date of the last commit touching a file; undefined outside a git checkout
+ * or for a file that was never committed
+ */
+async function lastCommitDate(filePath: string): Promise<string | undefined> {
+  if (!insideGitRepository(dirname(filePath))) {
+    return undefined;
+  }
+  try {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['log', '-1', '--format=%cI', '--', basename(filePath)],
+      { cwd: dirname(filePath) }
+    );
+    return toIsoDate(stdout);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a directory or one of its parents holds a .git entry
+ */
+function insideGitRepository(dir: string): boolean {
+  let current = resolve(dir);
+  for (;;) {
+    if (existsSync(join(current, '.git'))) {
+      return true;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return false;
+    }
+    current = parent;
+  }
+}
+
+function toIsoDate(value: string): string | undefined {
+  const date = new Date(value.trim());
+  return value.trim() && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
+
 /**
  * Parse a markdown file with optional frontmatter
  */
-function parseMarkdown(filePath: string, content: string): KnowledgeDocument {
+function parseMarkdown(
+  filePath: string,
+  content: string,
+  modified: string,
+  undated: boolean
+): KnowledgeDocument {
   const { data: frontmatter, content: body } = matter(content);
 
   const docType = (frontmatter.type as KnowledgeType) || inferType(filePath, body);
@@ -101,10 +234,10 @@ function parseMarkdown(filePath: string, content: string): KnowledgeDocument {
   const symptoms = (frontmatter.symptoms as string[]) || [];
 
   // Generate document ID from path
-  const id = filePath.replace(/[^a-zA-Z0-9]/g, '_');
+  const id = filesystemDocumentId(filePath);
 
-  // Chunk the content
-  const chunks = chunkMarkdown(id, body);
+  // Chunk the content, numbering lines from the top of the file
+  const chunks = chunkMarkdown(id, body, { lineOffset: bodyLineOffset(content, body) });
 
   return {
     id,
@@ -121,8 +254,10 @@ function parseMarkdown(filePath: string, content: string): KnowledgeDocument {
     tags,
     severityRelevance: frontmatter.severity ? [frontmatter.severity] : [],
     symptoms,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
+    createdAt: modified,
+    updatedAt: modified,
+    undated: undated || undefined,
+    expiresAt: frontmatter.expiresAt as string | undefined,
     author: frontmatter.author as string | undefined,
     sourceUrl: `file://${filePath}`,
     lastValidated: frontmatter.lastValidated as string | undefined,
@@ -132,10 +267,15 @@ function parseMarkdown(filePath: string, content: string): KnowledgeDocument {
 /**
  * Parse a YAML file (for structured data like service ownership)
  */
-function parseYaml(filePath: string, content: string): KnowledgeDocument {
+function parseYaml(
+  filePath: string,
+  content: string,
+  modified: string,
+  undated: boolean
+): KnowledgeDocument {
   const { data } = matter(`---\n${content}\n---\n`);
 
-  const id = filePath.replace(/[^a-zA-Z0-9]/g, '_');
+  const id = filesystemDocumentId(filePath);
   const title = data.title || basename(filePath, extname(filePath));
 
   return {
@@ -159,8 +299,9 @@ function parseYaml(filePath: string, content: string): KnowledgeDocument {
     services: data.services || [],
     tags: data.tags || [],
     severityRelevance: [],
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
+    createdAt: modified,
+    updatedAt: modified,
+    undated: undated || undefined,
     sourceUrl: `file://${filePath}`,
   };
 }
@@ -199,79 +340,3 @@ function extractTitle(content: string): string | null {
   const match = content.match(/^#\s+(.+)$/m);
   return match ? match[1].trim() : null;
 }
-
-/**
- * Chunk markdown content by sections
- */
-function chunkMarkdown(documentId: string, content: string): KnowledgeChunk[] {
-  const chunks: KnowledgeChunk[] = [];
-  const lines = content.split('\n');
-
-  let currentChunk: string[] = [];
-  let currentTitle: string | undefined;
-  let chunkIndex = 0;
-  let lineStart = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Check for section headers
-    if (line.match(/^#{1,3}\s+/)) {
-      // Save previous chunk if exists
-      if (currentChunk.length > 0) {
-        chunks.push({
-          id: `${documentId}_${chunkIndex++}`,
-          documentId,
-          content: currentChunk.join('\n').trim(),
-          sectionTitle: currentTitle,
-          chunkType: inferChunkType(currentChunk.join('\n')),
-          lineStart,
-          lineEnd: i - 1,
-        });
-      }
-
-      currentTitle = line.replace(/^#+\s+/, '').trim();
-      currentChunk = [line];
-      lineStart = i;
-    } else {
-      currentChunk.push(line);
-    }
-  }
-
-  // Save final chunk
-  if (currentChunk.length > 0) {
-    chunks.push({
-      id: `${documentId}_${chunkIndex}`,
-      documentId,
-      content: currentChunk.join('\n').trim(),
-      sectionTitle: currentTitle,
-      chunkType: inferChunkType(currentChunk.join('\n')),
-      lineStart,
-      lineEnd: lines.length - 1,
-    });
-  }
-
-  return chunks;
-}
-
-/**
- * Infer chunk type from content
- */
-function inferChunkType(content: string): KnowledgeChunk['chunkType'] {
-  const lower = content.toLowerCase();
-
-  if (content.includes('```')) {
-    return 'command';
-  }
-  if (lower.includes('step') || lower.includes('[ ]') || lower.includes('[x]')) {
-    return 'procedure';
-  }
-  if (lower.includes('if ') || lower.includes('when ') || lower.includes('decision')) {
-    return 'decision';
-  }
-  if (lower.includes('symptom') || lower.includes('overview') || lower.includes('background')) {
-    return 'context';
-  }
-
-  return 'reference';
-}
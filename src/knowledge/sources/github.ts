@@ -0,0 +1,342 @@
+/**
+ * GitHub Knowledge Source
+ *
+ * Loads markdown runbooks, ADRs and other knowledge documents from a GitHub
+ * repository. Incremental syncs compare against the last synced commit SHA.
+ */
+
+import matter from 'gray-matter';
+import { loadConfig } from '../../utils/config';
+import { normalizeBaseUrl, parseRepository, resolveGitHubToken } from '../../tools/code/github';
+import { bodyLineOffset, chunkMarkdown } from '../indexer/chunker';
+import type { KnowledgeDocument, KnowledgeType, GitHubSourceConfig } from '../types';
+import type { LoadOptions } from './index';
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+// The compare API lists at most this many changed files
+const COMPARE_FILE_LIMIT = 300;
+
+interface GitHubCommitResponse {
+  sha: string;
+  commit?: {
+    committer?: { date?: string };
+    author?: { date?: string };
+  };
+}
+
+interface GitHubTreeResponse {
+  sha: string;
+  truncated?: boolean;
+  tree: Array<{
+    path: string;
+    type: 'blob' | 'tree' | 'commit';
+    sha: string;
+  }>;
+}
+
+interface GitHubCompareResponse {
+  status?: string;
+  files?: Array<{
+    filename: string;
+    status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+    previous_filename?: string;
+  }>;
+}
+
+interface RepoContext {
+  owner: string;
+  repo: string;
+  apiBase: string;
+  webBase: string;
+  token: string;
+}
+
+/**
+ * Load knowledge documents from a GitHub repository
+ */
+export async function loadFromGitHub(
+  config: GitHubSourceConfig,
+  options: LoadOptions = {}
+): Promise<KnowledgeDocument[]> {
+  const documents: KnowledgeDocument[] = [];
+  const runtimeConfig = await loadConfig();
+  const token = resolveGitHubToken(config.token || runtimeConfig.providers.github.token);
+
+  if (!token) {
+    console.warn(
+      'GitHub: No token configured. Set providers.github.token, RUNBOOK_GITHUB_TOKEN, or GITHUB_TOKEN.'
+    );
+    return documents;
+  }
+
+  const { owner, repo } = parseRepository(config.repo);
+  const apiBase = normalizeBaseUrl(config.baseUrl || runtimeConfig.providers.github.baseUrl);
+  const ctx: RepoContext = { owner, repo, apiBase, webBase: toWebBase(apiBase), token };
+
+  const branch = config.branch || (await fetchDefaultBranch(ctx));
+  const head = await githubGet<GitHubCommitResponse>(
+    ctx,
+    `/repos/${owner}/${repo}/commits/${encodeURIComponent(branch)}`
+  );
+
+  // Nothing changed since the last sync
+  if (config.lastSyncCommit && config.lastSyncCommit === head.sha) {
+    return documents;
+  }
+
+  const prefix = normalizePrefix(config.path);
+  const { paths, removed, complete } = config.lastSyncCommit
+    ? await listChangedFiles(ctx, config.lastSyncCommit, head.sha, prefix)
+    : await listAllFiles(ctx, head.sha, prefix);
+  options.removed?.push(...removed.map((path) => githubDocumentId(ctx, path)));
+  let failed = 0;
+
+  const updatedAt =
+    head.commit?.committer?.date || head.commit?.author?.date || new Date().toISOString();
+
+  for (const path of paths) {
+    try {
+      const content = await fetchFileContent(ctx, path, head.sha);
+      documents.push(parseDocument(ctx, config, path, content, head.sha, updatedAt));
+    } catch (error) {
+      failed++;
+      console.error(`Error processing GitHub file ${path}:`, error);
+    }
+  }
+  options.complete = complete && !failed;
+  options.failed = failed;
+
+  // Record the synced commit so the next run only fetches changed files.
+  // After a failure the next run compares from the old commit again.
+  if (!failed) {
+    config.lastSyncCommit = head.sha;
+  }
+
+  return documents;
+}
+
+/**
+ * Make an authenticated GET request to the GitHub API
+ */
+async function githubGet<T>(ctx: RepoContext, path: string, accept?: string): Promise<T> {
+  const response = await fetch(`${ctx.apiBase}${path}`, {
+    headers: {
+      Authorization: `Bearer ${ctx.token}`,
+      Accept: accept || 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      'User-Agent': 'RunbookAI',
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`GitHub API error ${response.status}: ${body}`);
+  }
+
+  return (accept ? await response.text() : await response.json()) as T;
+}
+
+/**
+ * Derive the web URL base from the API base (github.com or GitHub Enterprise)
+ */
+function toWebBase(apiBase: string): string {
+  if (/^https?:\/\/api\.github\.com$/i.test(apiBase)) {
+    return 'https://github.com';
+  }
+  return apiBase.replace(/\/api\/v3$/i, '');
+}
+
+function normalizePrefix(path?: string): string {
+  const trimmed = (path || '')
+    .trim()
+    .replace(/^\.?\/+/, '')
+    .replace(/\/+$/, '');
+  return trimmed ? `${trimmed}/` : '';
+}
+
+function isKnowledgeFile(path: string, prefix: string): boolean {
+  const lower = path.toLowerCase();
+  return path.startsWith(prefix) && MARKDOWN_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+async function fetchDefaultBranch(ctx: RepoContext): Promise<string> {
+  const data = await githubGet<{ default_branch?: string }>(ctx, `/repos/${ctx.owner}/${ctx.repo}`);
+  return data.default_branch || 'main';
+}
+
+/**
+ * List all markdown files under the prefix at a commit. The listing is
+ * complete unless GitHub truncated the tree.
+ */
+async function listAllFiles(
+  ctx: RepoContext,
+  sha: string,
+  prefix: string
+): Promise<{ paths: string[]; removed: string[]; complete: boolean }> {
+  const tree = await githubGet<GitHubTreeResponse>(
+    ctx,
+    `/repos/${ctx.owner}/${ctx.repo}/git/trees/${sha}?recursive=1`
+  );
+
+  if (tree.truncated) {
+    console.warn(
+      `GitHub: tree for ${ctx.owner}/${ctx.repo} was truncated; set a narrower path to index all files.`
+    );
+  }
+
+  const paths = tree.tree
+    .filter((entry) => entry.type === 'blob' && isKnowledgeFile(entry.path, prefix))
+    .map((entry) => entry.path);
+  return { paths, removed: [], complete: !tree.truncated };
+}
+
+/**
+ * List markdown files under the prefix that changed between two commits, and
+ * those deleted or renamed away. Falls back to a full listing if the base
+ * commit is no longer reachable, or if more files changed than the compare
+ * API lists.
+ */
+async function listChangedFiles(
+  ctx: RepoContext,
+  baseSha: string,
+  headSha: string,
+  prefix: string
+): Promise<{ paths: string[]; removed: string[]; complete: boolean }> {
+  let compare: GitHubCompareResponse;
+  try {
+    compare = await githubGet<GitHubCompareResponse>(
+      ctx,
+      `/repos/${ctx.owner}/${ctx.repo}/compare/${baseSha}...${headSha}`
+    );
+  } catch {
+    return listAllFiles(ctx, headSha, prefix);
+  }
+
+  if (
+    compare.status === 'diverged' ||
+    compare.status === 'behind' ||
+    (compare.files?.length ?? 0) >= COMPARE_FILE_LIMIT
+  ) {
+    return listAllFiles(ctx, headSha, prefix);
+  }
+
+  const paths: string[] = [];
+  const removed: string[] = [];
+  for (const file of compare.files || []) {
+    if (file.status === 'removed') {
+      if (isKnowledgeFile(file.filename, prefix)) {
+        removed.push(file.filename);
+      }
+      continue;
+    }
+    if (file.status === 'renamed' && file.previous_filename) {
+      if (isKnowledgeFile(file.previous_filename, prefix)) {
+        removed.push(file.previous_filename);
+      }
+    }
+    if (isKnowledgeFile(file.filename, prefix)) {
+      paths.push(file.filename);
+    }
+  }
+  return { paths, removed, complete: false };
+}
+
+async function fetchFileContent(ctx: RepoContext, path: string, sha: string): Promise<string> {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  return githubGet<string>(
+    ctx,
+    `/repos/${ctx.owner}/${ctx.repo}/contents/${encodedPath}?ref=${sha}`,
+    'application/vnd.github.raw'
+  );
+}
+
+/**
+ * Generate document ID from repo and path
+ */
+function githubDocumentId(ctx: RepoContext, path: string): string {
+  return `github_${ctx.owner}_${ctx.repo}_${path}`.replace(/[^a-zA-Z0-9]/g, '_');
+}
+
+/**
+ * Parse a markdown file with optional frontmatter into a KnowledgeDocument
+ */
+function parseDocument(
+  ctx: RepoContext,
+  config: GitHubSourceConfig,
+  path: string,
+  raw: string,
+  sha: string,
+  updatedAt: string
+): KnowledgeDocument {
+  const { data: frontmatter, content: body } = matter(raw);
+  const fileName = path.split('/').pop() || path;
+
+  const docType = (frontmatter.type as KnowledgeType) || inferType(path, body);
+  const title =
+    frontmatter.title || extractTitle(body) || fileName.replace(/\.(md|markdown)$/i, '');
+
+  const id = githubDocumentId(ctx, path);
+
+  // Chunk the content, numbering lines from the top of the file
+  const chunks = chunkMarkdown(id, body, { lineOffset: bodyLineOffset(raw, body) });
+
+  return {
+    id,
+    source: {
+      type: 'github',
+      name: `github:${ctx.owner}/${ctx.repo}`,
+      config,
+    },
+    type: docType,
+    title,
+    content: body,
+    chunks,
+    services: (frontmatter.services as string[]) || [],
+    tags: (frontmatter.tags as string[]) || [],
+    severityRelevance: frontmatter.severity ? [frontmatter.severity] : [],
+    symptoms: (frontmatter.symptoms as string[]) || [],
+    createdAt: updatedAt,
+    updatedAt,
+    expiresAt: frontmatter.expiresAt as string | undefined,
+    author: frontmatter.author as string | undefined,
+    sourceUrl: `${ctx.webBase}/${ctx.owner}/${ctx.repo}/blob/${sha}/${path}`,
+    lastValidated: frontmatter.lastValidated as string | undefined,
+  };
+}
+
+/**
+ * Infer document type from path or content
+ */
+function inferType(path: string, content: string): KnowledgeType {
+  const lowerPath = path.toLowerCase();
+  const lowerContent = content.toLowerCase();
+
+  if (/(^|\/)(adrs?|decisions)\//.test(lowerPath) || /(^|\/)adr[-_]?\d+/.test(lowerPath)) {
+    return 'architecture';
+  }
+  if (lowerPath.includes('runbook') || lowerPath.includes('playbook')) {
+    return 'runbook';
+  }
+  if (lowerPath.includes('postmortem') || lowerPath.includes('post-mortem')) {
+    return 'postmortem';
+  }
+  if (lowerPath.includes('architecture') || lowerContent.includes('## components')) {
+    return 'architecture';
+  }
+  if (lowerPath.includes('known-issue') || lowerPath.includes('known_issue')) {
+    return 'known_issue';
+  }
+  if (lowerContent.includes('root cause')) {
+    return 'postmortem';
+  }
+
+  return 'runbook';
+}
+
+/**
+ * Extract title from markdown content (first H1)
+ */
+function extractTitle(content: string): string | null {
+  const match = content.match(/^#\s+(.+)$/m);
+  return match ? match[1].trim() : null;
+}
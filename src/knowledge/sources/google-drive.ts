@@ -6,12 +6,8 @@
  */
 
 import { refreshAccessToken } from './google-auth';
-import type {
-  KnowledgeDocument,
-  KnowledgeChunk,
-  KnowledgeType,
-  GoogleDriveSourceConfig,
-} from '../types';
+import { chunkMarkdown } from '../indexer/chunker';
+import type { KnowledgeDocument, KnowledgeType, GoogleDriveSourceConfig } from '../types';
 import type { LoadOptions } from './index';
 
 const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
@@ -81,6 +77,7 @@ export async function loadFromGoogleDrive(
   }
 
   // Process each file
+  let failed = 0;
   for (const file of allFiles) {
     try {
       const doc = await processFile(file, accessToken, config);
@@ -88,10 +85,13 @@ export async function loadFromGoogleDrive(
         documents.push(doc);
       }
     } catch (error) {
+      failed++;
       console.error(`Error processing Google Drive file ${file.id} (${file.name}):`, error);
     }
   }
 
+  options.complete = !options.since && !failed;
+  options.failed = failed;
   return documents;
 }
 
@@ -450,79 +450,3 @@ function extractSeverityFromProperties(file: DriveFile): Array<'sev1' | 'sev2' |
   }
   return severities;
 }
-
-/**
- * Chunk markdown content by sections
- */
-function chunkMarkdown(documentId: string, content: string): KnowledgeChunk[] {
-  const chunks: KnowledgeChunk[] = [];
-  const lines = content.split('\n');
-
-  let currentChunk: string[] = [];
-  let currentTitle: string | undefined;
-  let chunkIndex = 0;
-  let lineStart = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Check for section headers
-    if (line.match(/^#{1,3}\s+/)) {
-      // Save previous chunk if exists
-      if (currentChunk.length > 0) {
-        chunks.push({
-          id: `${documentId}_${chunkIndex++}`,
-          documentId,
-          content: currentChunk.join('\n').trim(),
-          sectionTitle: currentTitle,
-          chunkType: inferChunkType(currentChunk.join('\n')),
-          lineStart,
-          lineEnd: i - 1,
-        });
-      }
-
-      currentTitle = line.replace(/^#+\s+/, '').trim();
-      currentChunk = [line];
-      lineStart = i;
-    } else {
-      currentChunk.push(line);
-    }
-  }
-
-  // Save final chunk
-  if (currentChunk.length > 0) {
-    chunks.push({
-      id: `${documentId}_${chunkIndex}`,
-      documentId,
-      content: currentChunk.join('\n').trim(),
-      sectionTitle: currentTitle,
-      chunkType: inferChunkType(currentChunk.join('\n')),
-      lineStart,
-      lineEnd: lines.length - 1,
-    });
-  }
-
-  return chunks;
-}
-
-/**
- * Infer chunk type from content
- */
-function inferChunkType(content: string): KnowledgeChunk['chunkType'] {
-  const lower = content.toLowerCase();
-
-  if (content.includes('```')) {
-    return 'command';
-  }
-  if (lower.includes('step') || lower.includes('[ ]') || lower.includes('[x]')) {
-    return 'procedure';
-  }
-  if (lower.includes('if ') || lower.includes('when ') || lower.includes('decision')) {
-    return 'decision';
-  }
-  if (lower.includes('symptom') || lower.includes('overview') || lower.includes('background')) {
-    return 'context';
-  }
-
-  return 'reference';
-}
@@ -7,10 +7,26 @@
 import { loadFromFilesystem } from './filesystem';
 import { loadFromConfluence } from './confluence';
 import { loadFromGoogleDrive } from './google-drive';
+import { loadFromNotion } from './notion';
+import { loadFromGitHub } from './github';
+import { loadFromPagerDuty } from './pagerduty';
+import { loadFromApi } from './api';
 import type { KnowledgeDocument, KnowledgeSourceConfig } from '../types';
 
 export interface LoadOptions {
   since?: string;
+  /** Filled with IDs of documents deleted or renamed away upstream, by sources that report them */
+  removed?: string[];
+  /**
+   * Set by sources when the documents returned are everything the source
+   * holds, so stored documents missing from them can be removed
+   */
+  complete?: boolean;
+  /**
+   * Set by sources to the number of items they could not load. A sync with
+   * failures keeps its previous cursor, so the next one retries them.
+   */
+  failed?: number;
 }
 
 /**
@@ -22,7 +38,7 @@ export async function loadFromSource(
 ): Promise<KnowledgeDocument[]> {
   switch (config.type) {
     case 'filesystem':
-      return loadFromFilesystem(config);
+      return loadFromFilesystem(config, options);
 
     case 'confluence':
       return loadFromConfluence(config, options);
@@ -31,10 +47,16 @@ export async function loadFromSource(
       return loadFromGoogleDrive(config, options);
 
     case 'notion':
+      return loadFromNotion(config, options);
+
     case 'github':
+      return loadFromGitHub(config, options);
+
+    case 'pagerduty':
+      return loadFromPagerDuty(config, options);
+
     case 'api':
-      console.warn(`Source type '${config.type}' is not yet implemented`);
-      return [];
+      return loadFromApi(config, options);
 
     default:
       console.warn(`Unknown source type: ${(config as { type: string }).type}`);
@@ -42,6 +64,34 @@ export async function loadFromSource(
   }
 }
 
-export { loadFromFilesystem } from './filesystem';
+/**
+ * Stable key identifying a source across runs, used to persist its sync state
+ */
+export function sourceKey(config: KnowledgeSourceConfig): string {
+  switch (config.type) {
+    case 'filesystem':
+      return `filesystem:${config.path}`;
+    case 'confluence':
+      return `confluence:${config.baseUrl}/${config.spaceKey}`;
+    case 'google_drive':
+      return `google_drive:${[...(config.folderIds || [])].sort().join(',')}`;
+    case 'notion':
+      return `notion:${config.databaseId}`;
+    case 'github':
+      return `github:${config.repo}@${config.branch || 'default'}/${config.path || ''}`;
+    case 'pagerduty':
+      return `pagerduty:${[...(config.serviceIds || []), ...(config.teamIds || [])].join(',') || 'all'}`;
+    case 'api':
+      return `api:${config.name || config.endpoint}`;
+    default:
+      return (config as { type: string }).type;
+  }
+}
+
+export { loadFromFilesystem, loadFilesystemFile, filesystemDocumentId } from './filesystem';
 export { loadFromConfluence } from './confluence';
 export { loadFromGoogleDrive } from './google-drive';
+export { loadFromNotion } from './notion';
+export { loadFromGitHub } from './github';
+export { loadFromPagerDuty } from './pagerduty';
+export { loadFromApi } from './api';
@@ -0,0 +1,503 @@
+/**
+ * Notion Knowledge Source
+ *
+ * Loads runbooks and knowledge documents from a Notion database.
+ * Uses the public REST API to query database pages and convert their blocks to markdown.
+ */
+
+import { chunkMarkdown } from '../indexer/chunker';
+import type { KnowledgeDocument, KnowledgeType, NotionSourceConfig } from '../types';
+import type { LoadOptions } from './index';
+
+const NOTION_API_BASE = 'https://api.notion.com/v1';
+const NOTION_VERSION = '2022-06-28';
+
+// Nested blocks (toggles, list children) are fetched up to this depth
+const MAX_BLOCK_DEPTH = 3;
+
+interface NotionRichText {
+  plain_text: string;
+  href?: string | null;
+  annotations?: {
+    bold?: boolean;
+    italic?: boolean;
+    code?: boolean;
+    strikethrough?: boolean;
+  };
+}
+
+interface NotionProperty {
+  type: string;
+  title?: NotionRichText[];
+  rich_text?: NotionRichText[];
+  select?: { name: string } | null;
+  multi_select?: Array<{ name: string }>;
+  status?: { name: string } | null;
+  date?: { start: string; end?: string | null } | null;
+  people?: Array<{ name?: string }>;
+}
+
+interface NotionPage {
+  id: string;
+  created_time: string;
+  last_edited_time: string;
+  archived?: boolean;
+  url?: string;
+  created_by?: { id: string };
+  properties: Record<string, NotionProperty>;
+}
+
+interface NotionQueryResponse {
+  results: NotionPage[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+interface NotionBlock {
+  id: string;
+  type: string;
+  has_children: boolean;
+  [key: string]: unknown;
+}
+
+interface NotionBlockResponse {
+  results: NotionBlock[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+/**
+ * Load knowledge documents from a Notion database
+ */
+export async function loadFromNotion(
+  config: NotionSourceConfig,
+  options: LoadOptions = {}
+): Promise<KnowledgeDocument[]> {
+  const documents: KnowledgeDocument[] = [];
+  const apiKey = config.apiKey || process.env.NOTION_API_KEY || process.env.NOTION_TOKEN;
+
+  if (!apiKey) {
+    console.warn('Notion: No API key configured. Set apiKey on the source or NOTION_API_KEY.');
+    return documents;
+  }
+
+  const pages = await queryDatabase(apiKey, config.databaseId, {
+    filter: config.filter,
+    since: options.since,
+  });
+
+  let failed = 0;
+
+  for (const page of pages) {
+    try {
+      const doc = await processPage(page, config, apiKey);
+      if (doc) {
+        documents.push(doc);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`Error processing Notion page ${page.id}:`, error);
+    }
+  }
+
+  options.complete = !options.since && !failed;
+  options.failed = failed;
+  return documents;
+}
+
+/**
+ * Make an authenticated request to the Notion API
+ */
+async function notionFetch<T>(
+  apiKey: string,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(`${NOTION_API_BASE}${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Notion-Version': NOTION_VERSION,
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Notion API error: ${response.status} - ${errorText}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Query all pages of a database, optionally only those edited after `since`
+ */
+async function queryDatabase(
+  apiKey: string,
+  databaseId: string,
+  options: { filter?: Record<string, unknown>; since?: string }
+): Promise<NotionPage[]> {
+  const pages: NotionPage[] = [];
+  const filter = buildQueryFilter(options.filter, options.since);
+  let cursor: string | null = null;
+
+  do {
+    const body: Record<string, unknown> = { page_size: 100 };
+    if (filter) {
+      body.filter = filter;
+    }
+    if (cursor) {
+      body.start_cursor = cursor;
+    }
+
+    const data: NotionQueryResponse = await notionFetch<NotionQueryResponse>(
+      apiKey,
+      `/databases/${databaseId}/query`,
+      { method: 'POST', body }
+    );
+
+    for (const page of data.results) {
+      if (!page.archived) {
+        pages.push(page);
+      }
+    }
+
+    cursor = data.has_more ? data.next_cursor : null;
+  } while (cursor);
+
+  return pages;
+}
+
+/**
+ * Combine the configured filter with a last-edited filter for incremental sync
+ */
+function buildQueryFilter(
+  filter: Record<string, unknown> | undefined,
+  since: string | undefined
+): Record<string, unknown> | undefined {
+  if (!since) {
+    return filter;
+  }
+
+  const sinceFilter = {
+    timestamp: 'last_edited_time',
+    last_edited_time: { after: since },
+  };
+
+  return filter ? { and: [filter, sinceFilter] } : sinceFilter;
+}
+
+/**
+ * Fetch all child blocks of a block or page
+ */
+async function fetchBlockChildren(apiKey: string, blockId: string): Promise<NotionBlock[]> {
+  const blocks: NotionBlock[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const query: string = cursor ? `&start_cursor=${encodeURIComponent(cursor)}` : '';
+    const data: NotionBlockResponse = await notionFetch<NotionBlockResponse>(
+      apiKey,
+      `/blocks/${blockId}/children?page_size=100${query}`
+    );
+    blocks.push(...data.results);
+    cursor = data.has_more ? data.next_cursor : null;
+  } while (cursor);
+
+  return blocks;
+}
+
+/**
+ * Fetch a page's block tree and render it as markdown
+ */
+async function fetchPageMarkdown(apiKey: string, pageId: string): Promise<string> {
+  const renderLevel = async (blockId: string, depth: number): Promise<string[]> => {
+    const blocks = await fetchBlockChildren(apiKey, blockId);
+    const lines: string[] = [];
+    let numbered = 0;
+
+    for (const block of blocks) {
+      numbered = block.type === 'numbered_list_item' ? numbered + 1 : 0;
+      const rendered = blockToMarkdown(block, numbered);
+      if (rendered !== null) {
+        lines.push(rendered);
+      }
+
+      if (block.has_children && block.type !== 'child_page' && depth < MAX_BLOCK_DEPTH) {
+        const children = await renderLevel(block.id, depth + 1);
+        if (block.type === 'table') {
+          lines.push(...tableRowsToMarkdown(children));
+        } else {
+          lines.push(...children.map((line) => (line ? `  ${line}` : line)));
+        }
+      }
+    }
+
+    return lines;
+  };
+
+  const lines = await renderLevel(pageId, 0);
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Convert Notion rich text to inline markdown
+ */
+function richTextToMarkdown(richText: NotionRichText[] | undefined): string {
+  if (!richText) return '';
+
+  return richText
+    .map((part) => {
+      let text = part.plain_text;
+      if (!text) return '';
+      if (part.annotations?.code) text = `\`${text}\``;
+      if (part.annotations?.bold) text = `**${text}**`;
+      if (part.annotations?.italic) text = `*${text}*`;
+      if (part.annotations?.strikethrough) text = `~~${text}~~`;
+      if (part.href) text = `[${text}](${part.href})`;
+      return text;
+    })
+    .join('');
+}
+
+/**
+ * Convert a single Notion block to a markdown line (or block of lines)
+ */
+function blockToMarkdown(block: NotionBlock, listIndex = 1): string | null {
+  const data = (block[block.type] || {}) as {
+    rich_text?: NotionRichText[];
+    language?: string;
+    checked?: boolean;
+    title?: string;
+    cells?: NotionRichText[][];
+    url?: string;
+    caption?: NotionRichText[];
+  };
+  const text = richTextToMarkdown(data.rich_text);
+
+  switch (block.type) {
+    case 'paragraph':
+      return `${text}\n`;
+    case 'heading_1':
+      return `# ${text}\n`;
+    case 'heading_2':
+      return `## ${text}\n`;
+    case 'heading_3':
+      return `### ${text}\n`;
+    case 'bulleted_list_item':
+      return `- ${text}`;
+    case 'numbered_list_item':
+      return `${listIndex}. ${text}`;
+    case 'to_do':
+      return `- [${data.checked ? 'x' : ' '}] ${text}`;
+    case 'toggle':
+      return `- ${text}`;
+    case 'quote':
+    case 'callout':
+      return `> ${text}\n`;
+    case 'code': {
+      const plain = (data.rich_text || []).map((part) => part.plain_text).join('');
+      return `\`\`\`${data.language && data.language !== 'plain text' ? data.language : ''}\n${plain}\n\`\`\`\n`;
+    }
+    case 'divider':
+      return '---\n';
+    case 'table_row':
+      return `| ${(data.cells || []).map((cell) => richTextToMarkdown(cell)).join(' | ')} |`;
+    case 'bookmark':
+    case 'embed':
+    case 'link_preview':
+      return data.url ? `[${richTextToMarkdown(data.caption) || data.url}](${data.url})` : null;
+    case 'child_page':
+      return data.title ? `- ${data.title}` : null;
+    case 'table':
+      return '';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Insert the header separator after the first row of a rendered table
+ */
+function tableRowsToMarkdown(rows: string[]): string[] {
+  const trimmed = rows.map((row) => row.trim()).filter(Boolean);
+  if (trimmed.length === 0) {
+    return [];
+  }
+
+  const columns = trimmed[0].split(' | ').length;
+  const separator = `| ${Array(columns).fill('---').join(' | ')} |`;
+  return [trimmed[0], separator, ...trimmed.slice(1), ''];
+}
+
+/**
+ * Process a Notion page into a KnowledgeDocument
+ */
+async function processPage(
+  page: NotionPage,
+  config: NotionSourceConfig,
+  apiKey: string
+): Promise<KnowledgeDocument | null> {
+  const markdown = await fetchPageMarkdown(apiKey, page.id);
+  if (!markdown) {
+    return null;
+  }
+
+  const metadata = extractPageMetadata(page);
+
+  // Generate document ID
+  const id = `notion_${page.id.replace(/-/g, '')}`;
+
+  // Chunk the content
+  const chunks = chunkMarkdown(id, markdown);
+
+  return {
+    id,
+    source: {
+      type: 'notion',
+      name: `notion:${config.databaseId}`,
+      config,
+    },
+    type: metadata.type,
+    title: metadata.title,
+    content: markdown,
+    chunks,
+    services: metadata.services,
+    tags: metadata.tags,
+    severityRelevance: metadata.severity,
+    createdAt: page.created_time,
+    updatedAt: page.last_edited_time,
+    expiresAt: metadata.expiresAt,
+    author: metadata.author,
+    sourceUrl: page.url || `https://www.notion.so/${page.id.replace(/-/g, '')}`,
+    lastValidated: metadata.lastValidated,
+  };
+}
+
+/**
+ * Find a property by any of the given names (case-insensitive)
+ */
+function findProperty(page: NotionPage, names: string[]): NotionProperty | undefined {
+  const wanted = names.map((name) => name.toLowerCase());
+  for (const [key, value] of Object.entries(page.properties || {})) {
+    if (wanted.includes(key.toLowerCase())) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a property as a list of strings regardless of its Notion type
+ */
+function propertyValues(property: NotionProperty | undefined): string[] {
+  if (!property) return [];
+
+  switch (property.type) {
+    case 'title':
+      return [richTextToPlain(property.title)].filter(Boolean);
+    case 'rich_text':
+      return richTextToPlain(property.rich_text)
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean);
+    case 'select':
+      return property.select ? [property.select.name] : [];
+    case 'status':
+      return property.status ? [property.status.name] : [];
+    case 'multi_select':
+      return (property.multi_select || []).map((option) => option.name);
+    case 'date':
+      return property.date ? [property.date.start] : [];
+    case 'people':
+      return (property.people || []).map((person) => person.name || '').filter(Boolean);
+    default:
+      return [];
+  }
+}
+
+function richTextToPlain(richText: NotionRichText[] | undefined): string {
+  return (richText || []).map((part) => part.plain_text).join('');
+}
+
+/**
+ * Extract title, type, services, tags and severity from page properties
+ */
+function extractPageMetadata(page: NotionPage): {
+  title: string;
+  type: KnowledgeType;
+  services: string[];
+  tags: string[];
+  severity: Array<'sev1' | 'sev2' | 'sev3'>;
+  author?: string;
+  lastValidated?: string;
+  expiresAt?: string;
+} {
+  const titleProperty = Object.values(page.properties || {}).find((p) => p.type === 'title');
+  const title = richTextToPlain(titleProperty?.title) || 'Untitled';
+
+  const typeValue = propertyValues(findProperty(page, ['type', 'doc type', 'category', 'kind']))[0];
+  const tags = propertyValues(findProperty(page, ['tags', 'labels']));
+
+  return {
+    title,
+    type: inferType(typeValue, tags, title),
+    services: propertyValues(findProperty(page, ['services', 'service', 'components'])),
+    tags,
+    severity: extractSeverity(propertyValues(findProperty(page, ['severity', 'sev', 'priority']))),
+    author: propertyValues(findProperty(page, ['owner', 'author']))[0],
+    lastValidated: propertyValues(findProperty(page, ['last validated', 'lastvalidated']))[0],
+    expiresAt: propertyValues(findProperty(page, ['expires', 'expires at', 'expiresat']))[0],
+  };
+}
+
+/**
+ * Infer document type from the type property, tags, or title
+ */
+function inferType(typeValue: string | undefined, tags: string[], title: string): KnowledgeType {
+  const candidates = [typeValue, ...tags, title]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => value.toLowerCase());
+
+  for (const value of candidates) {
+    if (value.includes('runbook') || value.includes('playbook')) return 'runbook';
+    if (value.includes('postmortem') || value.includes('post-mortem')) return 'postmortem';
+    if (value.includes('incident report')) return 'postmortem';
+    if (value.includes('architecture') || value.includes('design') || value === 'adr') {
+      return 'architecture';
+    }
+    if (value.includes('known issue') || value.includes('known-issue')) return 'known_issue';
+    if (value.includes('known_issue')) return 'known_issue';
+    if (value === 'faq') return 'faq';
+  }
+
+  return 'runbook';
+}
+
+/**
+ * Map severity property values to severity relevance
+ */
+function extractSeverity(values: string[]): Array<'sev1' | 'sev2' | 'sev3'> {
+  const severities = new Set<'sev1' | 'sev2' | 'sev3'>();
+
+  for (const raw of values) {
+    const value = raw.toLowerCase();
+    if (value.includes('sev1') || value.includes('critical') || value === 'p0') {
+      severities.add('sev1');
+    }
+    if (value.includes('sev2') || value.includes('high') || value === 'p1') {
+      severities.add('sev2');
+    }
+    if (value.includes('sev3') || value.includes('medium') || value === 'p2') {
+      severities.add('sev3');
+    }
+  }
+
+  return Array.from(severities);
+}
@@ -0,0 +1,287 @@
+/**
+ * PagerDuty Knowledge Source
+ *
+ * Imports resolved PagerDuty incidents as postmortem / known issue documents so
+ * similar-incident search can match against real incident history. Each
+ * document carries the incident timeline, responder notes and resolution.
+ */
+
+import { loadConfig } from '../../utils/config';
+import { pdFetch } from '../../tools/incident/pagerduty';
+import { chunkMarkdown } from '../indexer/chunker';
+import type { KnowledgeDocument, PagerDutySourceConfig } from '../types';
+import type { LoadOptions } from './index';
+
+const DEFAULT_LOOKBACK_DAYS = 90;
+const DEFAULT_MAX_INCIDENTS = 500;
+const PAGE_SIZE = 100;
+
+const RESOLUTION_PATTERN = /\b(resolution|resolved|root cause|fix(ed)?|mitigat(ed|ion))\b/i;
+
+interface PagerDutyRef {
+  id?: string;
+  summary?: string;
+}
+
+interface PagerDutyIncidentRecord {
+  id: string;
+  incident_number?: number;
+  title: string;
+  description?: string;
+  status: string;
+  urgency?: 'high' | 'low';
+  created_at: string;
+  resolved_at?: string;
+  last_status_change_at?: string;
+  html_url?: string;
+  service?: PagerDutyRef;
+  priority?: PagerDutyRef | null;
+  teams?: PagerDutyRef[];
+}
+
+interface PagerDutyNoteRecord {
+  id: string;
+  content: string;
+  created_at: string;
+  user?: PagerDutyRef;
+}
+
+interface PagerDutyLogEntryRecord {
+  id: string;
+  type: string;
+  created_at: string;
+  summary?: string;
+  agent?: PagerDutyRef;
+  channel?: { type?: string; summary?: string; details?: string };
+  note?: string;
+}
+
+/**
+ * Load resolved incidents from PagerDuty as knowledge documents
+ */
+export async function loadFromPagerDuty(
+  config: PagerDutySourceConfig,
+  options: LoadOptions = {}
+): Promise<KnowledgeDocument[]> {
+  const documents: KnowledgeDocument[] = [];
+  const runtimeConfig = await loadConfig();
+  const apiKey = config.apiKey || runtimeConfig.incident.pagerduty.apiKey;
+
+  if (!apiKey && !process.env.PAGERDUTY_API_KEY) {
+    console.warn(
+      'PagerDuty: No API key configured. Set incident.pagerduty.apiKey or PAGERDUTY_API_KEY.'
+    );
+    return documents;
+  }
+
+  // The key is passed with each request so the incident tools keep their own
+  const incidents = await listResolvedIncidents(config, apiKey);
+  let failed = 0;
+
+  for (const incident of incidents) {
+    // Incidents are listed by creation time, so filter on resolution time for
+    // incremental syncs to pick up older incidents that were resolved recently
+    if (options.since) {
+      const resolvedAt = new Date(resolvedTime(incident));
+      if (!Number.isNaN(resolvedAt.getTime()) && resolvedAt <= new Date(options.since)) {
+        continue;
+      }
+    }
+
+    try {
+      const [notes, logEntries] = await Promise.all([
+        fetchNotes(incident.id, apiKey),
+        fetchLogEntries(incident.id, apiKey),
+      ]);
+      documents.push(toDocument(config, incident, notes, logEntries));
+    } catch (error) {
+      failed++;
+      console.error(`Error processing PagerDuty incident ${incident.id}:`, error);
+    }
+  }
+
+  options.failed = failed;
+  return documents;
+}
+
+/**
+ * List resolved incidents created within the lookback window
+ */
+async function listResolvedIncidents(
+  config: PagerDutySourceConfig,
+  apiKey?: string
+): Promise<PagerDutyIncidentRecord[]> {
+  const incidents: PagerDutyIncidentRecord[] = [];
+  const maxIncidents = config.maxIncidents || DEFAULT_MAX_INCIDENTS;
+  const lookbackDays = config.lookbackDays || DEFAULT_LOOKBACK_DAYS;
+  const until = new Date();
+  const since = new Date(until.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+
+  let offset = 0;
+  while (incidents.length < maxIncidents) {
+    const params = new URLSearchParams();
+    params.append('statuses[]', 'resolved');
+    params.set('since', since.toISOString());
+    params.set('until', until.toISOString());
+    params.set('limit', String(PAGE_SIZE));
+    params.set('offset', String(offset));
+    params.set('sort_by', 'created_at:desc');
+    for (const id of config.serviceIds || []) params.append('service_ids[]', id);
+    for (const id of config.teamIds || []) params.append('team_ids[]', id);
+    for (const urgency of config.urgencies || []) params.append('urgencies[]', urgency);
+
+    const response = await pdFetch<{ incidents: PagerDutyIncidentRecord[]; more?: boolean }>(
+      `/incidents?${params.toString()}`,
+      {},
+      apiKey
+    );
+
+    incidents.push(...response.incidents);
+    if (!response.more || response.incidents.length === 0) {
+      break;
+    }
+    offset += response.incidents.length;
+  }
+
+  return incidents.slice(0, maxIncidents);
+}
+
+async function fetchNotes(incidentId: string, apiKey?: string): Promise<PagerDutyNoteRecord[]> {
+  const response = await pdFetch<{ notes: PagerDutyNoteRecord[] }>(
+    `/incidents/${encodeURIComponent(incidentId)}/notes`,
+    {},
+    apiKey
+  );
+  return response.notes || [];
+}
+
+async function fetchLogEntries(
+  incidentId: string,
+  apiKey?: string
+): Promise<PagerDutyLogEntryRecord[]> {
+  const response = await pdFetch<{ log_entries: PagerDutyLogEntryRecord[] }>(
+    `/incidents/${encodeURIComponent(incidentId)}/log_entries?is_overview=true&limit=100`,
+    {},
+    apiKey
+  );
+  return response.log_entries || [];
+}
+
+function resolvedTime(incident: PagerDutyIncidentRecord): string {
+  return incident.resolved_at || incident.last_status_change_at || incident.created_at;
+}
+
+/**
+ * Map priority (P1/SEV1...) or urgency onto severity relevance
+ */
+function toSeverity(incident: PagerDutyIncidentRecord): Array<'sev1' | 'sev2' | 'sev3'> {
+  const priority = incident.priority?.summary?.match(/(?:p|sev)\s*-?\s*(\d)/i);
+  if (priority) {
+    const level = Number(priority[1]);
+    if (level <= 1) return ['sev1'];
+    if (level === 2) return ['sev2'];
+    return ['sev3'];
+  }
+  if (incident.urgency === 'high') return ['sev2'];
+  if (incident.urgency === 'low') return ['sev3'];
+  return [];
+}
+
+/**
+ * Convert an incident with its notes and log entries to a KnowledgeDocument
+ */
+function toDocument(
+  config: PagerDutySourceConfig,
+  incident: PagerDutyIncidentRecord,
+  notes: PagerDutyNoteRecord[],
+  logEntries: PagerDutyLogEntryRecord[]
+): KnowledgeDocument {
+  const resolvedAt = resolvedTime(incident);
+  const resolveEntry = logEntries.find((entry) => entry.type === 'resolve_log_entry');
+
+  // Notes written at/after resolution or that talk about the fix are resolution notes
+  const resolutionNotes = notes.filter(
+    (note) =>
+      RESOLUTION_PATTERN.test(note.content) || new Date(note.created_at) >= new Date(resolvedAt)
+  );
+
+  const timeline = [
+    ...logEntries.map((entry) => ({
+      at: entry.created_at,
+      text: describeLogEntry(entry),
+    })),
+    ...notes.map((note) => ({
+      at: note.created_at,
+      text: `Note${note.user?.summary ? ` by ${note.user.summary}` : ''}: ${note.content}`,
+    })),
+  ].sort((a, b) => a.at.localeCompare(b.at));
+
+  const serviceName = incident.service?.summary;
+  const title = incident.incident_number
+    ? `[#${incident.incident_number}] ${incident.title}`
+    : incident.title;
+
+  const lines: string[] = [`# ${title}`, ''];
+  if (serviceName) lines.push(`**Service:** ${serviceName}`);
+  if (incident.urgency) lines.push(`**Urgency:** ${incident.urgency}`);
+  if (incident.priority?.summary) lines.push(`**Priority:** ${incident.priority.summary}`);
+  lines.push(`**Triggered:** ${incident.created_at}`);
+  lines.push(`**Resolved:** ${resolvedAt}`);
+
+  if (incident.description && incident.description !== incident.title) {
+    lines.push('', '## Summary', '', incident.description);
+  }
+
+  if (timeline.length > 0) {
+    lines.push('', '## Timeline', '');
+    for (const event of timeline) {
+      lines.push(`- ${event.at} — ${event.text}`);
+    }
+  }
+
+  const resolution = [
+    ...(resolveEntry ? [describeLogEntry(resolveEntry)] : []),
+    ...resolutionNotes.map((note) => note.content),
+  ];
+  if (resolution.length > 0) {
+    lines.push('', '## Resolution', '');
+    for (const text of resolution) {
+      lines.push(text, '');
+    }
+  }
+
+  const content = lines.join('\n').trim();
+  const id = `pagerduty_${incident.id}`;
+  const tags = ['pagerduty', 'incident'];
+  if (incident.urgency) tags.push(`urgency:${incident.urgency}`);
+  if (incident.priority?.summary) tags.push(incident.priority.summary.toLowerCase());
+
+  return {
+    id,
+    source: {
+      type: 'pagerduty',
+      name: 'pagerduty',
+      config,
+    },
+    // Incidents with a written resolution read like postmortems; the rest are
+    // still useful as known issues with a recorded symptom and timeline
+    type: resolutionNotes.length > 0 ? 'postmortem' : 'known_issue',
+    title,
+    content,
+    chunks: chunkMarkdown(id, content),
+    services: serviceName ? [serviceName] : [],
+    tags,
+    severityRelevance: toSeverity(incident),
+    symptoms: [incident.title],
+    createdAt: incident.created_at,
+    updatedAt: resolvedAt,
+    author: resolveEntry?.agent?.summary,
+    sourceUrl: incident.html_url,
+  };
+}
+
+function describeLogEntry(entry: PagerDutyLogEntryRecord): string {
+  const summary = entry.summary || entry.type.replace(/_log_entry$/, '').replace(/_/g, ' ');
+  const details = entry.note || entry.channel?.details;
+  return details ? `${summary} (${details})` : summary;
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests for Service Graph import/export
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ServiceGraph, createServiceGraph } from '../graph-store';
+import {
+  exportServicesYaml,
+  importArchitectureDocs,
+  importServicesYaml,
+  resolveGraphService,
+} from '../graph-import';
+import type { KnowledgeDocument } from '../../types';
+
+const SERVICES_YAML = `
+version: 1
+aws:
+  defaultRegion: us-east-1
+services:
+  - name: Checkout API
+    tier: critical
+    team: payments
+    dependsOn:
+      - orders-db
+      - service: fraud-service
+        type: sync
+        protocol: grpc
+        criticality: critical
+  - name: fraud-service
+    dependsOn: [redis-cache]
+`;
+
+function architectureDoc(overrides: Partial<KnowledgeDocument>): KnowledgeDocument {
+  return {
+    id: 'doc-1',
+    source: {
+      type: 'filesystem',
+      name: 'test',
+      config: { type: 'filesystem', path: '.', filePatterns: [] },
+    },
+    type: 'architecture',
+    title: 'Architecture',
+    content: '',
+    chunks: [],
+    services: [],
+    tags: [],
+    severityRelevance: [],
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('graph import', () => {
+  let graph: ServiceGraph;
+
+  beforeEach(() => {
+    graph = createServiceGraph();
+  });
+
+  it('should import services and dependencies from services.yaml', () => {
+    const summary = importServicesYaml(graph, SERVICES_YAML);
+
+    expect(summary).toEqual({ servicesAdded: 4, dependenciesAdded: 3 });
+    expect(graph.getService('checkout-api')).toMatchObject({
+      name: 'Checkout API',
+      tier: 'critical',
+      team: 'payments',
+    });
+    expect(graph.getService('orders-db')?.type).toBe('database');
+    expect(graph.getService('redis-cache')?.type).toBe('cache');
+    expect(graph.getDependency('checkout-api', 'orders-db')?.type).toBe('database');
+    expect(graph.getDependency('checkout-api', 'fraud-service')).toMatchObject({
+      protocol: 'grpc',
+      criticality: 'critical',
+    });
+    expect(
+      graph
+        .getUpstreamImpact('redis-cache')
+        .map((p) => p.affected)
+        .sort()
+    ).toEqual(['checkout-api', 'fraud-service']);
+  });
+
+  it('should reject malformed service definitions', () => {
+    expect(() => importServicesYaml(graph, 'services:\n  - tier: critical\n')).toThrow(
+      'Invalid services file'
+    );
+  });
+
+  it('should extract edges from architecture docs', () => {
+    importServicesYaml(graph, SERVICES_YAML);
+
+    const summary = importArchitectureDocs(graph, [
+      architectureDoc({
+        content: [
+          '# Platform',
+          '```mermaid',
+          'graph TD',
+          '  web[Web Frontend] -->|http| checkout-api',
+          '  checkout-api --> events[(events-db)]',
+          '```',
+          '- checkout-api -> payments-queue (queue)',
+        ].join('\n'),
+      }),
+      architectureDoc({
+        id: 'doc-2',
+        services: ['notifier'],
+        content:
+          '# Notifier\n\n## Dependencies\n\n- `payments-queue` (async)\n- smtp-relay (external)\n',
+      }),
+      architectureDoc({ id: 'doc-3', type: 'runbook', content: 'a -> b' }),
+    ]);
+
+    expect(summary.dependenciesAdded).toBe(5);
+    expect(graph.getServiceByName('Web Frontend')).toBeDefined();
+    expect(graph.getDependency('web-frontend', 'checkout-api')?.protocol).toBe('http');
+    expect(graph.getService('events-db')?.type).toBe('database');
+    expect(graph.getService('payments-queue')?.type).toBe('queue');
+    expect(graph.getDependency('notifier', 'payments-queue')?.type).toBe('async');
+    expect(graph.getService('smtp-relay')?.type).toBe('external');
+    expect(graph.getDependency('notifier', 'smtp-relay')?.metadata).toMatchObject({
+      source: 'architecture',
+      documentId: 'doc-2',
+    });
+    expect(graph.getService('a')).toBeUndefined();
+  });
+
+  it('should round-trip through services.yaml export', () => {
+    importServicesYaml(graph, SERVICES_YAML);
+
+    const reimported = createServiceGraph();
+    importServicesYaml(reimported, exportServicesYaml(graph));
+
+    expect(reimported.getStats()).toMatchObject({ nodeCount: 4, edgeCount: 3 });
+    expect(reimported.getDependency('checkout-api', 'fraud-service')?.protocol).toBe('grpc');
+  });
+
+  it('should resolve services by ID or name', () => {
+    importServicesYaml(graph, SERVICES_YAML);
+
+    expect(resolveGraphService(graph, 'checkout-api')?.name).toBe('Checkout API');
+    expect(resolveGraphService(graph, 'checkout api')?.id).toBe('checkout-api');
+    expect(resolveGraphService(graph, 'missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for Service Graph SQLite persistence
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createServiceGraph } from '../graph-store';
+import { createServiceGraphStore, loadServiceGraph } from '../graph-sqlite';
+
+describe('ServiceGraphStore', () => {
+  let baseDir: string;
+
+  beforeEach(() => {
+    baseDir = mkdtempSync(join(tmpdir(), 'runbook-graph-'));
+  });
+
+  afterEach(() => {
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty graph when nothing has been saved', () => {
+    const graph = loadServiceGraph(join(baseDir, 'missing'));
+    expect(graph.getAllServices()).toEqual([]);
+  });
+
+  it('should round-trip services and dependencies', () => {
+    const graph = createServiceGraph();
+    const createdAt = new Date('2026-01-01T00:00:00Z');
+    graph.addService({
+      id: 'checkout',
+      name: 'Checkout',
+      type: 'service',
+      tier: 'critical',
+      team: 'payments',
+      runbooks: ['checkout-5xx'],
+      tags: ['payments'],
+      metadata: { source: 'services.yaml' },
+      createdAt,
+    });
+    graph.addService({
+      id: 'orders-db',
+      name: 'orders-db',
+      type: 'database',
+      tags: [],
+      metadata: {},
+    });
+    graph.addDependency({
+      source: 'checkout',
+      target: 'orders-db',
+      type: 'database',
+      protocol: 'postgres',
+      criticality: 'critical',
+      metadata: {},
+    });
+
+    const store = createServiceGraphStore(baseDir);
+    store.save(graph);
+    expect(store.isEmpty()).toBe(false);
+    store.close();
+
+    const loaded = loadServiceGraph(baseDir);
+    const checkout = loaded.getService('checkout');
+    expect(checkout).toMatchObject({
+      name: 'Checkout',
+      tier: 'critical',
+      team: 'payments',
+      runbooks: ['checkout-5xx'],
+      tags: ['payments'],
+      metadata: { source: 'services.yaml' },
+    });
+    expect(checkout?.createdAt.toISOString()).toBe(createdAt.toISOString());
+    expect(loaded.getDependency('checkout', 'orders-db')).toMatchObject({
+      protocol: 'postgres',
+      criticality: 'critical',
+    });
+    expect(loaded.getUpstreamImpact('orders-db').map((p) => p.affected)).toEqual(['checkout']);
+  });
+
+  it('should replace the previous graph on save', () => {
+    const store = createServiceGraphStore(baseDir);
+    const first = createServiceGraph();
+    first.addService({ id: 'a', name: 'a', type: 'service', tags: [], metadata: {} });
+    store.save(first);
+
+    const second = createServiceGraph();
+    second.addService({ id: 'b', name: 'b', type: 'service', tags: [], metadata: {} });
+    store.save(second);
+
+    expect(
+      store
+        .load()
+        .getAllServices()
+        .map((s) => s.id)
+    ).toEqual(['b']);
+    store.close();
+  });
+});
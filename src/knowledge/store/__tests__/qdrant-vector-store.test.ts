@@ -0,0 +1,274 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HashingEmbedder, cosineSimilarity } from '../../indexer/embedder';
+import { QdrantVectorStore, toPointId } from '../qdrant-vector-store';
+import { reembedVectorStore, type VectorChunkInput } from '../vector-store';
+import type { KnowledgeDocument } from '../../types';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+interface Point {
+  id: string;
+  vector: number[];
+  payload: Record<string, unknown>;
+}
+
+type Condition = { key: string; match: { any?: unknown[]; value?: unknown } };
+
+function matches(point: Point, filter?: { must: Condition[] }): boolean {
+  return (filter?.must || []).every(({ key, match }) => {
+    const field = point.payload[key];
+    const values = Array.isArray(field) ? field : [field];
+    return match.any ? values.some((v) => match.any!.includes(v)) : values.includes(match.value);
+  });
+}
+
+/**
+ * Minimal in-memory Qdrant covering the endpoints the store calls
+ */
+function fakeQdrant() {
+  const collections = new Map<string, { size: number; points: Map<string, Point> }>();
+  const aliases = new Map<string, string>();
+  const requests: Array<{ method: string; collection: string; path: string; headers: Headers }> =
+    [];
+
+  const handler = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const method = init?.method || 'GET';
+    const body = init?.body ? JSON.parse(String(init.body)) : {};
+
+    if (url.pathname === '/aliases') {
+      return jsonResponse({
+        result: {
+          aliases: [...aliases].map(([alias_name, collection_name]) => ({
+            alias_name,
+            collection_name,
+          })),
+        },
+      });
+    }
+    if (url.pathname === '/collections/aliases') {
+      for (const action of body.actions) {
+        if (action.delete_alias) {
+          aliases.delete(action.delete_alias.alias_name);
+        } else if (collections.has(action.create_alias.alias_name)) {
+          return jsonResponse({ status: { error: 'Collection with this name exists' } }, 409);
+        } else {
+          aliases.set(action.create_alias.alias_name, action.create_alias.collection_name);
+        }
+      }
+      return jsonResponse({ result: true });
+    }
+
+    const [, , name, ...rest] = url.pathname.split('/');
+    const target = aliases.get(name) ?? name;
+    const path = rest.length > 0 ? `/${rest.join('/')}` : '';
+    requests.push({ method, collection: name, path, headers: new Headers(init?.headers) });
+
+    if (path === '' && method === 'PUT') {
+      collections.set(target, { size: body.vectors.size, points: new Map() });
+      return jsonResponse({ result: true });
+    }
+    const collection = collections.get(target);
+    if (!collection) {
+      return jsonResponse({ status: { error: 'Not found' } }, 404);
+    }
+    const points = collection.points;
+
+    switch (`${method} ${path}`) {
+      case 'GET ':
+        return jsonResponse({
+          result: { config: { params: { vectors: { size: collection.size } } } },
+        });
+      case 'DELETE ':
+        collections.delete(target);
+        return jsonResponse({ result: true });
+      case 'PUT /points':
+        for (const point of body.points as Point[]) {
+          if (point.vector.length !== collection.size) {
+            return jsonResponse({ status: { error: 'Wrong vector size' } }, 400);
+          }
+          points.set(point.id, point);
+        }
+        return jsonResponse({ result: { status: 'completed' } });
+      case 'POST /points/scroll':
+        return jsonResponse({ result: { points: [...points.values()].slice(0, body.limit) } });
+      case 'POST /points/count':
+        return jsonResponse({
+          result: { count: [...points.values()].filter((p) => matches(p, body.filter)).length },
+        });
+      case 'POST /points/delete':
+        for (const point of [...points.values()].filter((p) => matches(p, body.filter))) {
+          points.delete(point.id);
+        }
+        return jsonResponse({ result: { status: 'completed' } });
+      case 'POST /points/search':
+        return jsonResponse({
+          result: [...points.values()]
+            .filter((p) => matches(p, body.filter))
+            .map((p) => ({
+              id: p.id,
+              score: cosineSimilarity(body.vector, p.vector),
+              payload: p.payload,
+            }))
+            .filter((p) => p.score >= body.score_threshold)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, body.limit),
+        });
+      default:
+        return jsonResponse({ status: { error: `Unexpected ${method} ${path}` } }, 400);
+    }
+  };
+
+  return { handler, requests, collections, aliases };
+}
+
+function chunk(documentId: string, content: string, services: string[]): VectorChunkInput {
+  return {
+    chunk: { id: `${documentId}_0`, documentId, content, chunkType: 'procedure' },
+    documentTitle: documentId,
+    type: 'runbook',
+    services,
+  };
+}
+
+function document(id: string, content: string): KnowledgeDocument {
+  return {
+    id,
+    source: {
+      type: 'filesystem',
+      name: 'local',
+      config: { type: 'filesystem', path: '', filePatterns: [] },
+    },
+    type: 'runbook',
+    title: id,
+    content,
+    chunks: [{ id: `${id}_0`, documentId: id, content, chunkType: 'procedure' }],
+    services: [],
+    tags: [],
+    severityRelevance: [],
+    symptoms: [],
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  };
+}
+
+describe('QdrantVectorStore', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  let qdrant: ReturnType<typeof fakeQdrant>;
+
+  beforeEach(() => {
+    qdrant = fakeQdrant();
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(qdrant.handler);
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates the collection on first write and searches with filters', async () => {
+    const store = new QdrantVectorStore({
+      apiKey: 'secret',
+      embedder: new HashingEmbedder({ dimensions: 64 }),
+    });
+    expect(await store.getCount()).toBe(0);
+    expect(await store.search('redis')).toEqual([]);
+
+    await store.addChunks([
+      chunk('redis', 'Restart the redis connection pool', ['checkout']),
+      chunk('disk', 'Rotate logs when the disk is full', ['logging']),
+    ]);
+
+    expect(qdrant.requests.some((r) => r.method === 'PUT' && r.path === '')).toBe(true);
+    expect(qdrant.requests[0].headers.get('api-key')).toBe('secret');
+    expect(await store.getEmbeddingInfo()).toEqual({ model: 'local:hashing-v1', dimensions: 64 });
+    expect(await store.getCount()).toBe(2);
+    expect(await store.hasDocument('redis')).toBe(true);
+
+    const results = await store.search('redis connection pool', { minScore: 0.1 });
+    expect(results[0]).toMatchObject({
+      id: 'redis_0',
+      documentId: 'redis',
+      services: ['checkout'],
+    });
+
+    const filtered = await store.search('redis connection pool', {
+      minScore: 0,
+      serviceFilter: ['logging'],
+    });
+    expect(filtered.map((r) => r.documentId)).toEqual(['disk']);
+
+    await store.deleteDocument('redis');
+    expect(await store.hasDocument('redis')).toBe(false);
+  });
+
+  it('detects a collection embedded with another model', async () => {
+    const original = new QdrantVectorStore({ embedder: new HashingEmbedder({ dimensions: 64 }) });
+    await original.addChunks([chunk('redis', 'Restart the redis connection pool', [])]);
+
+    const store = new QdrantVectorStore({ embedder: new HashingEmbedder({ dimensions: 32 }) });
+    expect(await store.checkEmbedder()).toContain('embedded with local:hashing-v1 (64 dimensions)');
+    await expect(store.search('redis')).rejects.toThrow('runbook knowledge reembed');
+
+    await store.clear();
+    await store.addChunks([chunk('redis', 'Restart the redis connection pool', [])]);
+    expect(await store.checkEmbedder()).toBeNull();
+    expect(await store.getEmbeddingInfo()).toEqual({ model: 'local:hashing-v1', dimensions: 32 });
+  });
+
+  it('re-embeds into a new collection and aliases the configured name to it', async () => {
+    const original = new QdrantVectorStore({ embedder: new HashingEmbedder({ dimensions: 64 }) });
+    await original.addChunks([chunk('redis', 'Restart the redis connection pool', [])]);
+
+    const store = new QdrantVectorStore({ embedder: new HashingEmbedder({ dimensions: 32 }) });
+    const documents = [document('disk', 'Rotate logs when the disk is full')];
+    expect(await reembedVectorStore(store, documents)).toBe(1);
+
+    const live = qdrant.aliases.get('runbook_knowledge');
+    expect(live).toMatch(/^runbook_knowledge_\d+$/);
+    expect([...qdrant.collections.keys()]).toEqual([live]);
+    expect(await store.getEmbeddingInfo()).toEqual({ model: 'local:hashing-v1', dimensions: 32 });
+    expect(await store.hasDocument('disk')).toBe(true);
+
+    // A second re-embed moves the alias and drops the collection it replaced
+    await reembedVectorStore(store, documents);
+    expect(qdrant.aliases.get('runbook_knowledge')).not.toBe(live);
+    expect(qdrant.collections.size).toBe(1);
+  });
+
+  it('keeps the live collection when a re-embed fails', async () => {
+    const store = new QdrantVectorStore({ embedder: new HashingEmbedder({ dimensions: 64 }) });
+    await store.addChunks([chunk('redis', 'Restart the redis connection pool', [])]);
+
+    const failing = new QdrantVectorStore({
+      embedder: {
+        id: 'local:hashing-v1',
+        embed: async () => {
+          throw new Error('embedding service unavailable');
+        },
+      },
+    });
+    await expect(
+      reembedVectorStore(failing, [document('disk', 'Rotate logs when the disk is full')])
+    ).rejects.toThrow('embedding service unavailable');
+
+    expect([...qdrant.collections.keys()]).toEqual(['runbook_knowledge']);
+    expect(await store.hasDocument('redis')).toBe(true);
+  });
+
+  it('derives stable UUID point IDs from chunk IDs', () => {
+    expect(toPointId('redis_0')).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+    expect(toPointId('redis_0')).toBe(toPointId('redis_0'));
+    expect(toPointId('redis_0')).not.toBe(toPointId('redis_1'));
+  });
+});
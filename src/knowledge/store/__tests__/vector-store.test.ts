@@ -0,0 +1,148 @@
+/**
+ * Tests for the SQLite vector store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HashingEmbedder } from '../../indexer/embedder';
+import { SqliteVectorStore, reembedVectorStore } from '../vector-store';
+import type { KnowledgeDocument } from '../../types';
+
+function document(id: string, title: string, content: string): KnowledgeDocument {
+  return {
+    id,
+    source: {
+      type: 'filesystem',
+      name: 'local',
+      config: { type: 'filesystem', path: '', filePatterns: [] },
+    },
+    type: 'runbook',
+    title,
+    content,
+    chunks: [{ id: `${id}_0`, documentId: id, content, chunkType: 'procedure' }],
+    services: ['checkout'],
+    tags: [],
+    severityRelevance: [],
+    symptoms: [],
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  };
+}
+
+const documents = [
+  document('redis', 'Redis pool exhaustion', 'Restart the redis connection pool on checkout'),
+  document('disk', 'Disk full', 'Rotate logs when the disk is full on logging hosts'),
+];
+
+describe('SqliteVectorStore', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'runbook-vectors-'));
+    dbPath = join(dir, 'vectors.db');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records the embedding model and searches with it', async () => {
+    const store = new SqliteVectorStore(dbPath, {
+      embedder: new HashingEmbedder({ dimensions: 128 }),
+    });
+    expect(await store.getEmbeddingInfo()).toBeNull();
+
+    expect(await reembedVectorStore(store, documents)).toBe(2);
+    expect(await store.getEmbeddingInfo()).toEqual({ model: 'local:hashing-v1', dimensions: 128 });
+
+    const results = await store.search('redis connection pool', { minScore: 0.1 });
+    expect(results[0].documentId).toBe('redis');
+    store.close();
+  });
+
+  it('refuses to mix vectors from another model until re-embedded', async () => {
+    const original = new SqliteVectorStore(dbPath, {
+      embedder: new HashingEmbedder({ dimensions: 128 }),
+    });
+    await reembedVectorStore(original, documents);
+    original.close();
+
+    const store = new SqliteVectorStore(dbPath, {
+      embedder: new HashingEmbedder({ dimensions: 64 }),
+    });
+    expect(await store.checkEmbedder()).toContain(
+      'embedded with local:hashing-v1 (128 dimensions)'
+    );
+    await expect(store.search('redis')).rejects.toThrow('runbook knowledge reembed');
+    await expect(store.addChunks([])).rejects.toThrow('runbook knowledge reembed');
+
+    await reembedVectorStore(store, documents);
+    expect(await store.checkEmbedder()).toBeNull();
+    expect(await store.getEmbeddingInfo()).toEqual({ model: 'local:hashing-v1', dimensions: 64 });
+    expect(await store.getCount()).toBe(2);
+    store.close();
+  });
+
+  it('builds an approximate index past the threshold and still finds the best match', async () => {
+    const store = new SqliteVectorStore(dbPath, {
+      embedder: new HashingEmbedder({ dimensions: 128 }),
+      indexThreshold: 20,
+      probes: 2,
+    });
+    const topics = ['redis', 'disk', 'kafka', 'dns', 'certificate', 'memory'];
+    const many = Array.from({ length: 30 }, (_, i) => {
+      const topic = topics[i % topics.length];
+      return document(`${topic}-${i}`, `${topic} incident ${i}`, `Recover ${topic} on host ${i}`);
+    });
+    await reembedVectorStore(store, many);
+
+    const results = await store.search('kafka incident 8', { minScore: 0.1, topK: 1 });
+    expect(results[0].documentId).toBe('kafka-8');
+
+    // Adding chunks after indexing assigns them to a cluster
+    await store.addChunks([
+      {
+        chunk: {
+          id: 'late_0',
+          documentId: 'late',
+          content: 'Renew the expired certificate',
+          chunkType: 'procedure',
+        },
+        documentTitle: 'Late certificate',
+        type: 'runbook',
+        services: [],
+      },
+    ]);
+    const late = await store.search('renew expired certificate', { minScore: 0.1, topK: 1 });
+    expect(late[0].documentId).toBe('late');
+
+    store.rebuildIndex();
+    expect(await store.getCount()).toBe(31);
+    store.close();
+  });
+
+  it('keeps the existing vectors when a re-embed fails', async () => {
+    const original = new SqliteVectorStore(dbPath, {
+      embedder: new HashingEmbedder({ dimensions: 128 }),
+    });
+    await reembedVectorStore(original, documents);
+    original.close();
+
+    const store = new SqliteVectorStore(dbPath, {
+      embedder: {
+        id: 'openai:text-embedding-3-small',
+        embed: async () => {
+          throw new Error('OpenAI API error: 503');
+        },
+      },
+    });
+    await expect(reembedVectorStore(store, documents)).rejects.toThrow('503');
+    expect(await store.getEmbeddingInfo()).toEqual({ model: 'local:hashing-v1', dimensions: 128 });
+    expect(await store.getCount()).toBe(2);
+    expect(existsSync(`${dbPath}.reembed`)).toBe(false);
+    store.close();
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Service Graph Import/Export
+ *
+ * Builds the service dependency graph from a `services.yaml` definition or
+ * from architecture knowledge documents, and exports it back to YAML.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { z } from 'zod';
+import type { ServiceGraph, ServiceNode, DependencyEdge } from './graph-store';
+import type { KnowledgeDocument } from '../types';
+
+const SERVICE_TYPES = [
+  'service',
+  'database',
+  'cache',
+  'queue',
+  'external',
+  'infrastructure',
+] as const;
+const EDGE_TYPES = ['sync', 'async', 'database', 'cache', 'queue', 'external'] as const;
+const CRITICALITIES = ['critical', 'degraded', 'optional'] as const;
+
+const DependencySchema = z.union([
+  z.string(),
+  z.object({
+    service: z.string(),
+    type: z.enum(EDGE_TYPES).optional(),
+    protocol: z.string().optional(),
+    criticality: z.enum(CRITICALITIES).optional(),
+    description: z.string().optional(),
+  }),
+]);
+
+const ServiceDefinitionSchema = z.object({
+  name: z.string(),
+  id: z.string().optional(),
+  type: z.enum(SERVICE_TYPES).optional(),
+  team: z.string().optional(),
+  owner: z.string().optional(),
+  tier: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+  repository: z.string().optional(),
+  documentation: z.string().optional(),
+  runbooks: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  dependsOn: z.array(DependencySchema).optional(),
+});
+
+const ServiceGraphFileSchema = z.object({
+  services: z.array(ServiceDefinitionSchema).default([]),
+});
+
+export type ServiceDefinition = z.infer<typeof ServiceDefinitionSchema>;
+
+export interface GraphImportSummary {
+  servicesAdded: number;
+  dependenciesAdded: number;
+}
+
+/**
+ * Derive a stable service ID from a name
+ */
+export function toServiceId(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Find a service by ID or (case-insensitive) name
+ */
+export function resolveGraphService(graph: ServiceGraph, ref: string): ServiceNode | undefined {
+  return graph.getService(ref) || graph.getService(toServiceId(ref)) || graph.getServiceByName(ref);
+}
+
+/**
+ * Import services and dependencies from services.yaml content.
+ * Only the top-level `services` list is read, so the file can also hold
+ * the infrastructure settings written by `runbook init`.
+ */
+export function importServicesYaml(graph: ServiceGraph, content: string): GraphImportSummary {
+  const parsed = ServiceGraphFileSchema.safeParse(parseYaml(content) ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid services file: ${issues}`);
+  }
+
+  const before = graph.getStats();
+
+  // Add all declared services first so dependencies resolve to them
+  for (const definition of parsed.data.services) {
+    upsertDefinedService(graph, definition);
+  }
+
+  for (const definition of parsed.data.services) {
+    const sourceId = definition.id || toServiceId(definition.name);
+    for (const dependency of definition.dependsOn || []) {
+      const spec = typeof dependency === 'string' ? { service: dependency } : dependency;
+      const target = ensureService(graph, spec.service, 'services.yaml');
+      graph.addDependency({
+        source: sourceId,
+        target: target.id,
+        type: spec.type || edgeTypeFor(target),
+        protocol: spec.protocol,
+        criticality: spec.criticality || 'degraded',
+        description: spec.description,
+        metadata: { source: 'services.yaml' },
+      });
+    }
+  }
+
+  return diffStats(graph, before);
+}
+
+/**
+ * Import services and dependencies from architecture documents.
+ *
+ * Recognizes arrow notation (`checkout -> payments-db`, including mermaid
+ * flowcharts) and, for single-service documents, bullet lists under a
+ * "Dependencies" / "Depends on" heading.
+ */
+export function importArchitectureDocs(
+  graph: ServiceGraph,
+  documents: KnowledgeDocument[]
+): GraphImportSummary {
+  const before = graph.getStats();
+
+  for (const doc of documents) {
+    if (doc.type !== 'architecture') continue;
+
+    const provenance = { source: 'architecture', documentId: doc.id, documentTitle: doc.title };
+
+    for (const service of doc.services) {
+      ensureService(graph, service, 'architecture', doc.sourceUrl);
+    }
+
+    const edges = [
+      ...extractArrowEdges(doc.content),
+      ...(doc.services.length === 1
+        ? extractDependencySection(doc.content).map((dep) => ({
+            from: doc.services[0],
+            ...dep,
+          }))
+        : []),
+    ];
+
+    for (const edge of edges) {
+      if (toServiceId(edge.from) === toServiceId(edge.to)) continue;
+
+      const source = ensureService(graph, edge.from, 'architecture');
+      const target = ensureService(graph, edge.to, 'architecture', undefined, edge.targetType);
+
+      // Don't override explicitly declared dependencies
+      if (graph.getDependency(source.id, target.id)) continue;
+
+      graph.addDependency({
+        source: source.id,
+        target: target.id,
+        type: edge.type || edgeTypeFor(target),
+        protocol: edge.protocol,
+        criticality: 'degraded',
+        metadata: provenance,
+      });
+    }
+  }
+
+  return diffStats(graph, before);
+}
+
+/**
+ * Export the graph in services.yaml format
+ */
+export function exportServicesYaml(graph: ServiceGraph): string {
+  const services: ServiceDefinition[] = graph.getAllServices().map((service) => {
+    const dependsOn = graph
+      .getAllEdges()
+      .filter((edge) => edge.source === service.id)
+      .map((edge) => ({
+        service: edge.target,
+        type: edge.type,
+        protocol: edge.protocol,
+        criticality: edge.criticality,
+        description: edge.description,
+      }));
+
+    return {
+      id: service.id,
+      name: service.name,
+      type: service.type,
+      team: service.team,
+      owner: service.owner,
+      tier: service.tier,
+      repository: service.repository,
+      documentation: service.documentation,
+      runbooks: service.runbooks,
+      tags: service.tags.length > 0 ? service.tags : undefined,
+      metadata: Object.keys(service.metadata).length > 0 ? service.metadata : undefined,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+    };
+  });
+
+  // Drop undefined fields so the YAML stays readable
+  return stringifyYaml(JSON.parse(JSON.stringify({ services })), { indent: 2 });
+}
+
+function upsertDefinedService(graph: ServiceGraph, definition: ServiceDefinition): void {
+  const id = definition.id || toServiceId(definition.name);
+  const fields = {
+    name: definition.name,
+    type: definition.type || 'service',
+    team: definition.team,
+    owner: definition.owner,
+    tier: definition.tier,
+    repository: definition.repository,
+    documentation: definition.documentation,
+    runbooks: definition.runbooks,
+    tags: definition.tags || [],
+    metadata: { ...definition.metadata, source: 'services.yaml' },
+  };
+
+  if (graph.getService(id)) {
+    graph.updateService(id, fields);
+  } else {
+    graph.addService({ id, ...fields });
+  }
+}
+
+function ensureService(
+  graph: ServiceGraph,
+  name: string,
+  source: string,
+  documentation?: string,
+  type?: ServiceNode['type']
+): ServiceNode {
+  const existing = resolveGraphService(graph, name);
+  if (existing) {
+    return existing;
+  }
+
+  return graph.addService({
+    id: toServiceId(name),
+    name: name.trim(),
+    type: type || inferServiceType(name),
+    documentation,
+    tags: [],
+    metadata: { source },
+  });
+}
+
+function inferServiceType(name: string): ServiceNode['type'] {
+  const lower = name.toLowerCase();
+  if (/(^|[-_ ])(db|database|postgres|mysql|rds|dynamo|aurora)([-_ ]|$)/.test(lower)) {
+    return 'database';
+  }
+  if (/(redis|memcache|cache)/.test(lower)) return 'cache';
+  if (/(queue|sqs|kafka|rabbit|sns|topic|stream)/.test(lower)) return 'queue';
+  return 'service';
+}
+
+function edgeTypeFor(target: ServiceNode): DependencyEdge['type'] {
+  switch (target.type) {
+    case 'database':
+    case 'cache':
+    case 'queue':
+    case 'external':
+      return target.type;
+    default:
+      return 'sync';
+  }
+}
+
+interface ExtractedEdge {
+  from: string;
+  to: string;
+  type?: DependencyEdge['type'];
+  protocol?: string;
+  targetType?: ServiceNode['type'];
+}
+
+const NODE_PATTERN = String.raw`\`?([A-Za-z0-9][\w.-]*)\`?(?:\[\(?"?([^\]"()]+)"?\)?\]|\(\(?"?([^)"]+)"?\)?\))?`;
+const ARROW_PATTERN = String.raw`\s*(?:-{1,2}>|-\.->|==>|→)\s*(?:\|([^|]+)\|\s*)?`;
+const EDGE_LINE = new RegExp(`^\\s*(?:[-*]\\s+)?${NODE_PATTERN}${ARROW_PATTERN}${NODE_PATTERN}`);
+
+/**
+ * Extract `a -> b` style edges (plain text or mermaid flowcharts)
+ */
+function extractArrowEdges(content: string): ExtractedEdge[] {
+  const edges: ExtractedEdge[] = [];
+
+  for (const line of content.split('\n')) {
+    const match = line.match(EDGE_LINE);
+    if (!match) continue;
+
+    const [, fromId, fromLabel, fromRound, label, toId, toLabel, toRound] = match;
+    const edge: ExtractedEdge = {
+      from: (fromLabel || fromRound || fromId).trim(),
+      to: (toLabel || toRound || toId).trim(),
+    };
+
+    // Mermaid `[(name)]` is a database (cylinder) shape
+    if (line.includes(`${toId}[(`)) {
+      edge.targetType = 'database';
+    }
+
+    // Plain text edges may carry a trailing label: `a -> b (async)`
+    const trailing = line.slice((match.index ?? 0) + match[0].length).match(/^\s*\(([^)]+)\)/);
+    applyEdgeLabel(edge, label || trailing?.[1]);
+    edges.push(edge);
+  }
+
+  return edges;
+}
+
+/**
+ * Extract bullet items under a Dependencies heading
+ */
+function extractDependencySection(content: string): Array<Omit<ExtractedEdge, 'from'>> {
+  const deps: Array<Omit<ExtractedEdge, 'from'>> = [];
+  let inSection = false;
+
+  for (const line of content.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) {
+      inSection = /^(dependencies|depends on|upstream dependencies)$/i.test(heading[1].trim());
+      continue;
+    }
+    if (!inSection) continue;
+
+    const item = line.match(/^\s*[-*]\s+`?([A-Za-z0-9][\w.-]*)`?\s*(?:\(([^)]+)\))?/);
+    if (!item) continue;
+
+    const dep: Omit<ExtractedEdge, 'from'> = { to: item[1] };
+    applyEdgeLabel(dep, item[2]);
+    deps.push(dep);
+  }
+
+  return deps;
+}
+
+function applyEdgeLabel(edge: Omit<ExtractedEdge, 'from'>, label: string | undefined): void {
+  const normalized = label?.trim().toLowerCase();
+  if (!normalized) return;
+
+  if ((EDGE_TYPES as readonly string[]).includes(normalized)) {
+    edge.type = normalized as DependencyEdge['type'];
+    if (normalized !== 'sync' && normalized !== 'async') {
+      edge.targetType = normalized as ServiceNode['type'];
+    }
+  } else {
+    edge.protocol = normalized;
+  }
+}
+
+function diffStats(
+  graph: ServiceGraph,
+  before: { nodeCount: number; edgeCount: number }
+): GraphImportSummary {
+  const after = graph.getStats();
+  return {
+    servicesAdded: after.nodeCount - before.nodeCount,
+    dependenciesAdded: after.edgeCount - before.edgeCount,
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Service Graph SQLite Store
+ *
+ * Persists the service dependency graph to `.runbook/graph.db` so it can be
+ * built once (from services.yaml, architecture docs or discovery) and reused
+ * by the CLI and investigations.
+ */
+
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { ServiceGraph, type ServiceNode, type DependencyEdge } from './graph-store';
+
+export class ServiceGraphStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    // Ensure directory exists
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS graph_services (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        team TEXT,
+        owner TEXT,
+        tier TEXT,
+        repository TEXT,
+        documentation TEXT,
+        runbooks TEXT,
+        tags TEXT,
+        metadata TEXT,
+        created_at TEXT,
+        updated_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS graph_dependencies (
+        id TEXT PRIMARY KEY,
+        source TEXT NOT NULL,
+        target TEXT NOT NULL,
+        type TEXT NOT NULL,
+        protocol TEXT,
+        criticality TEXT NOT NULL,
+        description TEXT,
+        metadata TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_graph_dependencies_source ON graph_dependencies(source);
+      CREATE INDEX IF NOT EXISTS idx_graph_dependencies_target ON graph_dependencies(target);
+    `);
+  }
+
+  /**
+   * Load the persisted graph
+   */
+  load(): ServiceGraph {
+    const graph = new ServiceGraph();
+
+    const services = this.db.prepare('SELECT * FROM graph_services').all() as Array<
+      Record<string, unknown>
+    >;
+    for (const row of services) {
+      graph.addService(this.rowToService(row));
+    }
+
+    const edges = this.db.prepare('SELECT * FROM graph_dependencies').all() as Array<
+      Record<string, unknown>
+    >;
+    for (const row of edges) {
+      graph.addDependency(this.rowToEdge(row));
+    }
+
+    return graph;
+  }
+
+  /**
+   * Replace the persisted graph with the given graph
+   */
+  save(graph: ServiceGraph): void {
+    const insertService = this.db.prepare(`
+      INSERT INTO graph_services
+      (id, name, type, team, owner, tier, repository, documentation, runbooks, tags, metadata,
+       created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertEdge = this.db.prepare(`
+      INSERT INTO graph_dependencies
+      (id, source, target, type, protocol, criticality, description, metadata)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const transaction = this.db.transaction(() => {
+      this.db.exec('DELETE FROM graph_dependencies; DELETE FROM graph_services;');
+
+      for (const service of graph.getAllServices()) {
+        insertService.run(
+          service.id,
+          service.name,
+          service.type,
+          service.team ?? null,
+          service.owner ?? null,
+          service.tier ?? null,
+          service.repository ?? null,
+          service.documentation ?? null,
+          JSON.stringify(service.runbooks || []),
+          JSON.stringify(service.tags || []),
+          JSON.stringify(service.metadata || {}),
+          service.createdAt.toISOString(),
+          service.updatedAt.toISOString()
+        );
+      }
+
+      for (const edge of graph.getAllEdges()) {
+        insertEdge.run(
+          edge.id,
+          edge.source,
+          edge.target,
+          edge.type,
+          edge.protocol ?? null,
+          edge.criticality,
+          edge.description ?? null,
+          JSON.stringify(edge.metadata || {})
+        );
+      }
+    });
+
+    transaction();
+  }
+
+  /**
+   * Check whether anything has been stored yet
+   */
+  isEmpty(): boolean {
+    const row = this.db.prepare('SELECT COUNT(*) as count FROM graph_services').get() as {
+      count: number;
+    };
+    return row.count === 0;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private rowToService(row: Record<string, unknown>): ServiceNode {
+    const runbooks = this.parseJson<string[]>(row.runbooks, []);
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      type: row.type as ServiceNode['type'],
+      team: (row.team as string | null) ?? undefined,
+      owner: (row.owner as string | null) ?? undefined,
+      tier: (row.tier as ServiceNode['tier'] | null) ?? undefined,
+      repository: (row.repository as string | null) ?? undefined,
+      documentation: (row.documentation as string | null) ?? undefined,
+      runbooks: runbooks.length > 0 ? runbooks : undefined,
+      tags: this.parseJson<string[]>(row.tags, []),
+      metadata: this.parseJson<Record<string, unknown>>(row.metadata, {}),
+      createdAt: new Date((row.created_at as string) || Date.now()),
+      updatedAt: new Date((row.updated_at as string) || Date.now()),
+    };
+  }
+
+  private rowToEdge(row: Record<string, unknown>): Omit<DependencyEdge, 'id'> {
+    return {
+      source: row.source as string,
+      target: row.target as string,
+      type: row.type as DependencyEdge['type'],
+      protocol: (row.protocol as string | null) ?? undefined,
+      criticality: row.criticality as DependencyEdge['criticality'],
+      description: (row.description as string | null) ?? undefined,
+      metadata: this.parseJson<Record<string, unknown>>(row.metadata, {}),
+    };
+  }
+
+  private parseJson<T>(value: unknown, fallback: T): T {
+    if (typeof value !== 'string' || !value) {
+      return fallback;
+    }
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+}
+
+/**
+ * Create a service graph store with default configuration
+ */
+export function createServiceGraphStore(baseDir: string = '.runbook'): ServiceGraphStore {
+  return new ServiceGraphStore(join(baseDir, 'graph.db'));
+}
+
+/**
+ * Load the persisted service graph (empty if nothing has been imported yet)
+ */
+export function loadServiceGraph(baseDir: string = '.runbook'): ServiceGraph {
+  if (!existsSync(join(baseDir, 'graph.db'))) {
+    return new ServiceGraph();
+  }
+
+  const store = createServiceGraphStore(baseDir);
+  try {
+    return store.load();
+  } finally {
+    store.close();
+  }
+}
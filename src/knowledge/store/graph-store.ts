@@ -82,12 +82,16 @@ export class ServiceGraph {
   /**
    * Add a service node
    */
-  addService(service: Omit<ServiceNode, 'createdAt' | 'updatedAt'>): ServiceNode {
+  addService(
+    service: Omit<ServiceNode, 'createdAt' | 'updatedAt'> &
+      Partial<Pick<ServiceNode, 'createdAt' | 'updatedAt'>>
+  ): ServiceNode {
     const now = new Date();
     const node: ServiceNode = {
       ...service,
-      createdAt: now,
-      updatedAt: now,
+      // Keep timestamps when restoring a persisted or exported graph
+      createdAt: service.createdAt ?? now,
+      updatedAt: service.updatedAt ?? now,
     };
 
     this.nodes.set(service.id, node);
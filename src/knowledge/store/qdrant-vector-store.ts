@@ -0,0 +1,289 @@
+/**
+ * Qdrant Vector Store
+ *
+ * Stores chunk embeddings in a Qdrant collection through its REST API.
+ * The collection is created with cosine distance on the first write. Each
+ * point records the embedding model in its payload, so a store embedded with
+ * another model is detected before it is queried.
+ */
+
+import { createHash } from 'crypto';
+import { embedText, embedTexts, getEmbedder, type Embedder } from '../indexer/embedder';
+import type { KnowledgeType, RetrievedChunk } from '../types';
+import {
+  assertDimensions,
+  chunkEmbeddingText,
+  describeEmbeddingMismatch,
+  type VectorChunkInput,
+  type VectorSearchOptions,
+  type VectorStore,
+  type VectorStoreEmbedding,
+  type VectorStoreReplacement,
+} from './vector-store';
+
+export interface QdrantVectorStoreOptions {
+  url?: string;
+  apiKey?: string;
+  collection?: string;
+  embedder?: Embedder;
+}
+
+interface QdrantPayload {
+  chunk_id: string;
+  document_id: string;
+  content: string;
+  title: string;
+  type: KnowledgeType;
+  services: string[];
+  embedding_model: string;
+}
+
+const DEFAULT_URL = 'http://localhost:6333';
+const DEFAULT_COLLECTION = 'runbook_knowledge';
+
+/**
+ * Qdrant point IDs must be integers or UUIDs, so chunk IDs are hashed into a UUID
+ */
+export function toPointId(chunkId: string): string {
+  const hex = createHash('md5').update(chunkId).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export class QdrantVectorStore implements VectorStore {
+  private readonly url: string;
+  private readonly collection: string;
+  private readonly embedder: Embedder;
+
+  constructor(private readonly options: QdrantVectorStoreOptions = {}) {
+    this.url = (options.url || DEFAULT_URL).replace(/\/+$/, '');
+    this.collection = options.collection || DEFAULT_COLLECTION;
+    this.embedder = options.embedder ?? getEmbedder();
+  }
+
+  /**
+   * Call the collection's endpoints. Returns null for 404 when `allowMissing` is set.
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    allowMissing = false
+  ): Promise<T | null> {
+    return this.api<T>(method, `/collections/${this.collection}${path}`, body, allowMissing);
+  }
+
+  /**
+   * Call the Qdrant API. Returns null for 404 when `allowMissing` is set.
+   */
+  private async api<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    allowMissing = false
+  ): Promise<T | null> {
+    const response = await fetch(`${this.url}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { 'api-key': this.options.apiKey } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (response.status === 404 && allowMissing) {
+      return null;
+    }
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Qdrant API error: ${response.status} ${error}`);
+    }
+    const data = (await response.json()) as { result: T };
+    return data.result;
+  }
+
+  private async getVectorSize(): Promise<number | null> {
+    const info = await this.request<{
+      config: { params: { vectors: { size: number } } };
+    }>('GET', '', undefined, true);
+    return info ? info.config.params.vectors.size : null;
+  }
+
+  async getEmbeddingInfo(): Promise<VectorStoreEmbedding | null> {
+    const size = await this.getVectorSize();
+    if (size === null) {
+      return null;
+    }
+    const scroll = await this.request<{ points: Array<{ payload: Partial<QdrantPayload> }> }>(
+      'POST',
+      '/points/scroll',
+      { limit: 1, with_payload: ['embedding_model'], with_vector: false }
+    );
+    const point = scroll?.points[0];
+    return point ? { model: point.payload.embedding_model || 'unknown', dimensions: size } : null;
+  }
+
+  async checkEmbedder(): Promise<string | null> {
+    return describeEmbeddingMismatch(await this.getEmbeddingInfo(), this.embedder);
+  }
+
+  private async assertEmbedder(): Promise<void> {
+    const problem = await this.checkEmbedder();
+    if (problem) {
+      throw new Error(problem);
+    }
+  }
+
+  async addChunks(chunks: VectorChunkInput[]): Promise<void> {
+    await this.assertEmbedder();
+    if (chunks.length === 0) {
+      return;
+    }
+
+    const embeddings = await embedTexts(chunks.map(chunkEmbeddingText), 'document', this.embedder);
+    const size = await this.getVectorSize();
+    assertDimensions(embeddings, size ?? undefined, this.embedder);
+    if (size === null) {
+      await this.request('PUT', '', {
+        vectors: { size: embeddings[0].length, distance: 'Cosine' },
+      });
+    }
+
+    await this.request('PUT', '/points?wait=true', {
+      points: chunks.map(({ chunk, documentTitle, type, services }, i) => ({
+        id: toPointId(chunk.id),
+        vector: embeddings[i],
+        payload: {
+          chunk_id: chunk.id,
+          document_id: chunk.documentId,
+          content: chunk.content,
+          title: chunk.sectionTitle || documentTitle,
+          type,
+          services,
+          embedding_model: this.embedder.id,
+        } satisfies QdrantPayload,
+      })),
+    });
+  }
+
+  async search(query: string, options: VectorSearchOptions = {}): Promise<RetrievedChunk[]> {
+    await this.assertEmbedder();
+    if ((await this.getVectorSize()) === null) {
+      return [];
+    }
+
+    const must: Array<Record<string, unknown>> = [];
+    if (options.typeFilter && options.typeFilter.length > 0) {
+      must.push({ key: 'type', match: { any: options.typeFilter } });
+    }
+    if (options.serviceFilter && options.serviceFilter.length > 0) {
+      must.push({ key: 'services', match: { any: options.serviceFilter } });
+    }
+
+    const points = await this.request<Array<{ score: number; payload: QdrantPayload }>>(
+      'POST',
+      '/points/search',
+      {
+        vector: await embedText(query, 'query', this.embedder),
+        limit: options.topK || 10,
+        score_threshold: options.minScore ?? 0.5,
+        with_payload: true,
+        ...(must.length > 0 ? { filter: { must } } : {}),
+      }
+    );
+
+    return (points || []).map(({ score, payload }) => ({
+      id: payload.chunk_id,
+      documentId: payload.document_id,
+      title: payload.title || '',
+      content: payload.content,
+      type: payload.type,
+      services: payload.services || [],
+      score,
+    }));
+  }
+
+  private documentFilter(documentId: string) {
+    return { must: [{ key: 'document_id', match: { value: documentId } }] };
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    await this.request(
+      'POST',
+      '/points/delete?wait=true',
+      { filter: this.documentFilter(documentId) },
+      true
+    );
+  }
+
+  async hasDocument(documentId: string): Promise<boolean> {
+    const result = await this.request<{ count: number }>(
+      'POST',
+      '/points/count',
+      { filter: this.documentFilter(documentId), exact: true },
+      true
+    );
+    return (result?.count ?? 0) > 0;
+  }
+
+  async getCount(): Promise<number> {
+    const result = await this.request<{ count: number }>(
+      'POST',
+      '/points/count',
+      { exact: true },
+      true
+    );
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Build the new vectors in a collection of their own. On commit the
+   * configured name becomes an alias of it and the old collection is dropped.
+   */
+  async createReplacement(): Promise<VectorStoreReplacement> {
+    const collection = `${this.collection}_${Date.now()}`;
+    const next = new QdrantVectorStore({ ...this.options, collection, embedder: this.embedder });
+    return {
+      addChunks: (chunks) => next.addChunks(chunks),
+      commit: () => this.aliasTo(collection),
+      discard: () => next.clear(),
+    };
+  }
+
+  /**
+   * Point the configured collection name at another collection
+   */
+  private async aliasTo(collection: string): Promise<void> {
+    const result = await this.api<{
+      aliases: Array<{ alias_name: string; collection_name: string }>;
+    }>('GET', '/aliases');
+    const previous = result?.aliases.find(
+      (alias) => alias.alias_name === this.collection
+    )?.collection_name;
+
+    // A collection and an alias can't share a name, so a collection created
+    // before the first re-embed is dropped before its name becomes an alias
+    if (!previous) {
+      await this.clear();
+    }
+    await this.api('POST', '/collections/aliases', {
+      actions: [
+        ...(previous ? [{ delete_alias: { alias_name: this.collection } }] : []),
+        { create_alias: { collection_name: collection, alias_name: this.collection } },
+      ],
+    });
+    if (previous) {
+      await this.api('DELETE', `/collections/${previous}`, undefined, true);
+    }
+  }
+
+  /**
+   * Drop the collection. It is recreated with the embedder's dimensions on the next write.
+   */
+  async clear(): Promise<void> {
+    await this.request('DELETE', '', undefined, true);
+  }
+
+  close(): void {
+    // Nothing to release; each call is a separate HTTP request
+  }
+}
@@ -6,7 +6,13 @@
  */
 
 import Database from 'better-sqlite3';
-import type { KnowledgeDocument, KnowledgeChunk, RetrievedChunk, KnowledgeType } from '../types';
+import type {
+  KnowledgeDocument,
+  KnowledgeChunk,
+  RetrievedChunk,
+  KnowledgeType,
+  SourceSyncState,
+} from '../types';
 
 export class KnowledgeStore {
   private db: Database.Database;
@@ -31,7 +37,10 @@ export class KnowledgeStore {
         author TEXT,
         created_at TEXT,
         updated_at TEXT,
-        last_validated TEXT
+        expires_at TEXT,
+        last_validated TEXT,
+        source_key TEXT,
+        undated INTEGER NOT NULL DEFAULT 0
       );
 
       CREATE TABLE IF NOT EXISTS chunks (
@@ -42,9 +51,21 @@ export class KnowledgeStore {
         chunk_type TEXT,
         line_start INTEGER,
         line_end INTEGER,
+        heading_path TEXT,
+        step_number INTEGER,
+        commands TEXT,
         FOREIGN KEY (document_id) REFERENCES documents(id)
       );
 
+      CREATE TABLE IF NOT EXISTS sync_state (
+        source TEXT PRIMARY KEY,
+        last_sync_time TEXT,
+        last_sync_commit TEXT,
+        last_attempt_time TEXT NOT NULL,
+        last_error TEXT,
+        documents_synced INTEGER NOT NULL DEFAULT 0
+      );
+
       CREATE INDEX IF NOT EXISTS idx_documents_type ON documents(type);
       CREATE INDEX IF NOT EXISTS idx_documents_services ON documents(services);
       CREATE INDEX IF NOT EXISTS idx_chunks_document_id ON chunks(document_id);
@@ -68,17 +89,46 @@ export class KnowledgeStore {
         VALUES('delete', OLD.rowid, OLD.content, OLD.section_title);
       END;
     `);
+
+    // Stores created before runbook validation lack the expiry column
+    const documentColumns = this.db.prepare('PRAGMA table_info(documents)').all() as Array<{
+      name: string;
+    }>;
+    if (!documentColumns.some((c) => c.name === 'expires_at')) {
+      this.db.exec('ALTER TABLE documents ADD COLUMN expires_at TEXT');
+    }
+    // ...and, before sync reconciliation, the source each document came from
+    if (!documentColumns.some((c) => c.name === 'source_key')) {
+      this.db.exec('ALTER TABLE documents ADD COLUMN source_key TEXT');
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_documents_source_key ON documents(source_key)');
+    // ...and whether their dates are only file times
+    if (!documentColumns.some((c) => c.name === 'undated')) {
+      this.db.exec('ALTER TABLE documents ADD COLUMN undated INTEGER NOT NULL DEFAULT 0');
+    }
+
+    // Stores created before structure-aware chunking lack the step columns
+    const columns = this.db.prepare('PRAGMA table_info(chunks)').all() as Array<{ name: string }>;
+    for (const [column, type] of [
+      ['heading_path', 'TEXT'],
+      ['step_number', 'INTEGER'],
+      ['commands', 'TEXT'],
+    ]) {
+      if (!columns.some((c) => c.name === column)) {
+        this.db.exec(`ALTER TABLE chunks ADD COLUMN ${column} ${type}`);
+      }
+    }
   }
 
   /**
-   * Insert or update a document
+   * Insert or update a document, recording the key of the source it came from
    */
-  upsertDocument(doc: KnowledgeDocument): void {
+  upsertDocument(doc: KnowledgeDocument, sourceKey?: string): void {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO documents
       (id, type, title, content, services, tags, symptoms, severity_relevance,
-       source_url, author, created_at, updated_at, last_validated)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       source_url, author, created_at, updated_at, expires_at, last_validated, source_key, undated)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -94,7 +144,10 @@ export class KnowledgeStore {
       this.toNullableText(doc.author),
       this.toNullableText(doc.createdAt),
       this.toNullableText(doc.updatedAt),
-      this.toNullableText(doc.lastValidated)
+      this.toNullableText(doc.expiresAt),
+      this.toNullableText(doc.lastValidated),
+      this.toNullableText(sourceKey),
+      doc.undated ? 1 : 0
     );
 
     // Delete old chunks
@@ -102,8 +155,10 @@ export class KnowledgeStore {
 
     // Insert new chunks
     const chunkStmt = this.db.prepare(`
-      INSERT INTO chunks (id, document_id, content, section_title, chunk_type, line_start, line_end)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO chunks
+      (id, document_id, content, section_title, chunk_type, line_start, line_end,
+       heading_path, step_number, commands)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     for (const chunk of doc.chunks) {
@@ -114,7 +169,10 @@ export class KnowledgeStore {
         chunk.sectionTitle,
         chunk.chunkType,
         chunk.lineStart,
-        chunk.lineEnd
+        chunk.lineEnd,
+        chunk.headingPath ? JSON.stringify(chunk.headingPath) : null,
+        chunk.stepNumber ?? null,
+        chunk.commands ? JSON.stringify(chunk.commands) : null
       );
     }
   }
@@ -153,6 +211,10 @@ export class KnowledgeStore {
         c.content,
         c.section_title,
         c.chunk_type,
+        c.line_start,
+        c.line_end,
+        c.step_number,
+        c.commands,
         d.title,
         d.type,
         d.services,
@@ -189,6 +251,10 @@ export class KnowledgeStore {
       content: string;
       section_title: string | null;
       chunk_type: string;
+      line_start: number | null;
+      line_end: number | null;
+      step_number: number | null;
+      commands: string | null;
       title: string;
       type: string;
       services: string;
@@ -205,6 +271,12 @@ export class KnowledgeStore {
       services: JSON.parse(row.services || '[]'),
       score: Math.abs(row.score), // BM25 returns negative scores
       sourceUrl: row.source_url || undefined,
+      documentTitle: row.title,
+      sectionTitle: row.section_title || undefined,
+      stepNumber: row.step_number ?? undefined,
+      lineStart: row.line_start ?? undefined,
+      lineEnd: row.line_end ?? undefined,
+      commands: row.commands ? JSON.parse(row.commands) : undefined,
     }));
   }
 
@@ -276,8 +348,11 @@ export class KnowledgeStore {
       content: cr.content as string,
       sectionTitle: cr.section_title as string | undefined,
       chunkType: cr.chunk_type as KnowledgeChunk['chunkType'],
-      lineStart: cr.line_start as number | undefined,
-      lineEnd: cr.line_end as number | undefined,
+      lineStart: (cr.line_start as number | null) ?? undefined,
+      lineEnd: (cr.line_end as number | null) ?? undefined,
+      headingPath: cr.heading_path ? JSON.parse(cr.heading_path as string) : undefined,
+      stepNumber: (cr.step_number as number | null) ?? undefined,
+      commands: cr.commands ? JSON.parse(cr.commands as string) : undefined,
     }));
 
     return doc;
@@ -301,6 +376,8 @@ export class KnowledgeStore {
       symptoms: JSON.parse((row.symptoms as string) || '[]'),
       createdAt: row.created_at as string,
       updatedAt: row.updated_at as string,
+      expiresAt: (row.expires_at as string | null) ?? undefined,
+      undated: row.undated ? true : undefined,
       author: row.author as string | undefined,
       sourceUrl: row.source_url as string | undefined,
       lastValidated: row.last_validated as string | undefined,
@@ -317,11 +394,89 @@ export class KnowledgeStore {
   }
 
   /**
-   * Clear all documents
+   * Delete a document and its chunks
+   */
+  deleteDocument(id: string): boolean {
+    this.db.prepare('DELETE FROM chunks WHERE document_id = ?').run(id);
+    return this.db.prepare('DELETE FROM documents WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * IDs of the documents synced from a source. Documents stored before
+   * source keys were recorded are matched by `legacyUrlPrefix` instead.
+   */
+  getDocumentIdsBySource(sourceKey: string, legacyUrlPrefix?: string): string[] {
+    const rows = (
+      legacyUrlPrefix
+        ? this.db
+            .prepare(
+              `SELECT id FROM documents WHERE source_key = ?
+               OR (source_key IS NULL AND substr(source_url, 1, ?) = ?)`
+            )
+            .all(sourceKey, legacyUrlPrefix.length, legacyUrlPrefix)
+        : this.db.prepare('SELECT id FROM documents WHERE source_key = ?').all(sourceKey)
+    ) as Array<{ id: string }>;
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * IDs of the documents whose source URL starts with a prefix, e.g. every
+   * file under a directory
+   */
+  getDocumentIdsByUrlPrefix(prefix: string): string[] {
+    const rows = this.db
+      .prepare('SELECT id FROM documents WHERE substr(source_url, 1, ?) = ?')
+      .all(prefix.length, prefix) as Array<{ id: string }>;
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Sync state of one source
+   */
+  getSyncState(source: string): SourceSyncState | null {
+    const row = this.db.prepare('SELECT * FROM sync_state WHERE source = ?').get(source) as
+      | Record<string, unknown>
+      | undefined;
+    return row ? this.rowToSyncState(row) : null;
+  }
+
+  /**
+   * Sync state of every source that has been synced
+   */
+  getAllSyncStates(): SourceSyncState[] {
+    const rows = this.db.prepare('SELECT * FROM sync_state ORDER BY source').all() as Array<
+      Record<string, unknown>
+    >;
+    return rows.map((row) => this.rowToSyncState(row));
+  }
+
+  /**
+   * Record the outcome of a sync
+   */
+  saveSyncState(state: SourceSyncState): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO sync_state
+         (source, last_sync_time, last_sync_commit, last_attempt_time, last_error, documents_synced)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        state.source,
+        this.toNullableText(state.lastSyncTime),
+        this.toNullableText(state.lastSyncCommit),
+        state.lastAttemptTime,
+        this.toNullableText(state.lastError),
+        state.documentsSynced
+      );
+  }
+
+  /**
+   * Clear all documents, and the sync state so the next sync is a full one
    */
   clear(): void {
     this.db.exec('DELETE FROM chunks');
     this.db.exec('DELETE FROM documents');
+    this.db.exec('DELETE FROM sync_state');
   }
 
   /**
@@ -331,6 +486,17 @@ export class KnowledgeStore {
     this.db.close();
   }
 
+  private rowToSyncState(row: Record<string, unknown>): SourceSyncState {
+    return {
+      source: row.source as string,
+      lastSyncTime: (row.last_sync_time as string | null) ?? undefined,
+      lastSyncCommit: (row.last_sync_commit as string | null) ?? undefined,
+      lastAttemptTime: row.last_attempt_time as string,
+      lastError: (row.last_error as string | null) ?? undefined,
+      documentsSynced: row.documents_synced as number,
+    };
+  }
+
   private toNullableText(value: unknown): string | null {
     if (value === null || value === undefined) {
       return null;
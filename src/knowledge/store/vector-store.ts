@@ -1,14 +1,34 @@
 /**
  * Vector Store
  *
- * Stores and retrieves vector embeddings for semantic search.
- * Uses SQLite for persistence with in-memory similarity calculation.
- * (For production, consider sqlite-vss or a dedicated vector DB)
+ * Stores and retrieves vector embeddings for semantic search. `VectorStore`
+ * is implemented by a local SQLite store and by Qdrant
+ * (./qdrant-vector-store.ts).
+ *
+ * The SQLite store reads vectors from disk at query time instead of holding
+ * them all in memory. Once it holds `indexThreshold` vectors it builds an
+ * approximate index: vectors are clustered with k-means, and a query only
+ * scores the vectors in the clusters closest to it.
+ *
+ * Each store records the embedding model and dimensions its vectors were made
+ * with, and refuses to mix in vectors from another model. Changing models
+ * needs a re-embed.
  */
 
 import Database from 'better-sqlite3';
-import { embedText, embedTexts, cosineSimilarity, isEmbedderConfigured } from '../indexer/embedder';
-import type { KnowledgeChunk, RetrievedChunk, KnowledgeType } from '../types';
+import { renameSync, rmSync } from 'fs';
+import { dirname, join } from 'path';
+import {
+  configureEmbedder,
+  embedderConfigFromStore,
+  embedText,
+  embedTexts,
+  cosineSimilarity,
+  getEmbedder,
+  type Embedder,
+  type EmbedderConfig,
+} from '../indexer/embedder';
+import type { KnowledgeChunk, KnowledgeDocument, RetrievedChunk, KnowledgeType } from '../types';
 
 export interface VectorDocument {
   id: string;
@@ -21,14 +41,236 @@ export interface VectorDocument {
   services: string[];
 }
 
-export class VectorStore {
-  private db: Database.Database;
-  private embeddings: Map<string, number[]> = new Map();
+/**
+ * The embedding model a store's vectors were made with
+ */
+export interface VectorStoreEmbedding {
+  model: string;
+  dimensions: number;
+}
+
+/**
+ * A chunk to embed and store
+ */
+export interface VectorChunkInput {
+  chunk: KnowledgeChunk;
+  documentTitle: string;
+  type: KnowledgeType;
+  services: string[];
+}
+
+export interface VectorSearchOptions {
+  topK?: number;
+  typeFilter?: KnowledgeType[];
+  serviceFilter?: string[];
+  minScore?: number;
+}
+
+/**
+ * A store of chunk embeddings
+ */
+export interface VectorStore {
+  addChunks(chunks: VectorChunkInput[]): Promise<void>;
+  search(query: string, options?: VectorSearchOptions): Promise<RetrievedChunk[]>;
+  deleteDocument(documentId: string): Promise<void>;
+  hasDocument(documentId: string): Promise<boolean>;
+  getCount(): Promise<number>;
+  getEmbeddingInfo(): Promise<VectorStoreEmbedding | null>;
+  /** Why the configured embedder can't be used with this store, or null if it can */
+  checkEmbedder(): Promise<string | null>;
+  /** Start an empty set of vectors that replaces this store's contents on commit */
+  createReplacement(): Promise<VectorStoreReplacement>;
+  clear(): Promise<void>;
+  close(): void;
+}
+
+/**
+ * Vectors built beside a store's live ones. Searches keep using the live
+ * vectors until `commit` swaps the new ones in.
+ */
+export interface VectorStoreReplacement {
+  addChunks(chunks: VectorChunkInput[]): Promise<void>;
+  commit(): Promise<void>;
+  /** Drop the new vectors and keep the live ones */
+  discard(): Promise<void>;
+}
+
+export interface VectorStoreConfig {
+  type?: 'local' | 'pinecone' | 'weaviate' | 'qdrant';
+  /** Knowledge database path. Local vectors are stored next to it in vectors.db. */
+  path?: string;
+  qdrant?: { url?: string; apiKey?: string; collection?: string };
+  index?: { threshold?: number; probes?: number };
+  embeddingModel?: string;
+  embedding?: EmbedderConfig;
+}
+
+export interface SqliteVectorStoreOptions {
+  embedder?: Embedder;
+  /** Vector count at which the approximate index is built */
+  indexThreshold?: number;
+  /** Clusters scored per query once indexed */
+  probes?: number;
+}
+
+const REEMBED_BATCH_SIZE = 100;
+const DEFAULT_INDEX_THRESHOLD = 5000;
+const DEFAULT_PROBES = 8;
+const MAX_CLUSTERS = 256;
+const SAMPLE_PER_CLUSTER = 40;
+const KMEANS_ITERATIONS = 6;
+
+/**
+ * Text embedded for a chunk
+ */
+export function chunkEmbeddingText(input: VectorChunkInput): string {
+  return [input.documentTitle, input.chunk.sectionTitle, input.chunk.content]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Why an embedder can't be used with vectors made by another model, or null
+ */
+export function describeEmbeddingMismatch(
+  info: VectorStoreEmbedding | null,
+  embedder: Embedder
+): string | null {
+  if (
+    !info ||
+    (info.model === embedder.id &&
+      (embedder.dimensions === undefined || embedder.dimensions === info.dimensions))
+  ) {
+    return null;
+  }
+  const current = `${embedder.id}${embedder.dimensions ? ` (${embedder.dimensions} dimensions)` : ''}`;
+  return `Vector store was embedded with ${info.model} (${info.dimensions} dimensions) but the configured embedder is ${current}. Run \`runbook knowledge reembed\` to rebuild it.`;
+}
+
+/**
+ * Check that a batch of vectors all have the store's dimensions
+ */
+export function assertDimensions(
+  embeddings: number[][],
+  expected: number | undefined,
+  embedder: Embedder
+): void {
+  const size = expected ?? embeddings[0]?.length;
+  const wrong = embeddings.find((embedding) => embedding.length !== size);
+  if (wrong) {
+    throw new Error(
+      `${embedder.id} returned ${wrong.length}-dimension vectors; this store holds ${size}-dimension vectors`
+    );
+  }
+}
 
-  constructor(dbPath: string) {
+/**
+ * Replace every vector in a store with one from its current embedder, for
+ * example after changing models. The new vectors are built beside the old
+ * ones, which stay searchable until the rebuild finishes.
+ */
+export async function reembedVectorStore(
+  store: VectorStore,
+  documents: KnowledgeDocument[],
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  const chunks = documents.flatMap((doc) =>
+    doc.chunks.map((chunk) => ({
+      chunk,
+      documentTitle: doc.title,
+      type: doc.type,
+      services: doc.services,
+    }))
+  );
+
+  const replacement = await store.createReplacement();
+  try {
+    for (let i = 0; i < chunks.length; i += REEMBED_BATCH_SIZE) {
+      await replacement.addChunks(chunks.slice(i, i + REEMBED_BATCH_SIZE));
+      onProgress?.(Math.min(i + REEMBED_BATCH_SIZE, chunks.length), chunks.length);
+    }
+  } catch (error) {
+    await replacement.discard();
+    throw error;
+  }
+  await replacement.commit();
+  return chunks.length;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Index of the centroid most similar to a normalized vector
+ */
+function nearestCentroid(vector: number[], centroids: number[][]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  centroids.forEach((centroid, i) => {
+    const score = dot(vector, centroid);
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Cluster normalized vectors with k-means on an evenly spaced sample.
+ * Deterministic, so rebuilding the same vectors gives the same index.
+ */
+export function trainCentroids(vectors: number[][], clusters: number): number[][] {
+  const stride = Math.max(1, Math.floor(vectors.length / (clusters * SAMPLE_PER_CLUSTER)));
+  const sample = vectors.filter((_, i) => i % stride === 0);
+  const step = sample.length / clusters;
+  let centroids = Array.from({ length: clusters }, (_, i) => sample[Math.floor(i * step)]);
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map((centroid) => new Array<number>(centroid.length).fill(0));
+    const counts = new Array<number>(clusters).fill(0);
+    for (const vector of sample) {
+      const cluster = nearestCentroid(vector, centroids);
+      counts[cluster]++;
+      for (let d = 0; d < vector.length; d++) {
+        sums[cluster][d] += vector[d];
+      }
+    }
+    // Empty clusters keep their previous centroid
+    centroids = sums.map((sum, i) => (counts[i] > 0 ? normalize(sum) : centroids[i]));
+  }
+  return centroids;
+}
+
+/**
+ * Local vector store in SQLite
+ */
+export class SqliteVectorStore implements VectorStore {
+  private db: Database.Database;
+  private readonly embedder: Embedder;
+  private readonly indexThreshold: number;
+  private readonly probes: number;
+  private centroids: number[][] | null = null;
+
+  constructor(
+    private readonly dbPath: string,
+    options: SqliteVectorStoreOptions = {}
+  ) {
     this.db = new Database(dbPath);
+    this.embedder = options.embedder ?? getEmbedder();
+    this.indexThreshold = options.indexThreshold ?? DEFAULT_INDEX_THRESHOLD;
+    this.probes = options.probes ?? DEFAULT_PROBES;
     this.initSchema();
-    this.loadEmbeddings();
   }
 
   private initSchema(): void {
@@ -47,22 +289,26 @@ export class VectorStore {
 
       CREATE INDEX IF NOT EXISTS idx_vector_document_id ON vector_embeddings(document_id);
       CREATE INDEX IF NOT EXISTS idx_vector_type ON vector_embeddings(type);
+
+      CREATE TABLE IF NOT EXISTS vector_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS vector_centroids (
+        id INTEGER PRIMARY KEY,
+        centroid BLOB NOT NULL
+      );
     `);
-  }
 
-  /**
-   * Load all embeddings into memory for fast similarity search
-   */
-  private loadEmbeddings(): void {
-    const rows = this.db.prepare('SELECT id, embedding FROM vector_embeddings').all() as Array<{
-      id: string;
-      embedding: Buffer;
+    // Stores created before the approximate index have no cluster column
+    const columns = this.db.prepare('PRAGMA table_info(vector_embeddings)').all() as Array<{
+      name: string;
     }>;
-
-    for (const row of rows) {
-      const embedding = this.bufferToFloatArray(row.embedding);
-      this.embeddings.set(row.id, embedding);
+    if (!columns.some((column) => column.name === 'cluster')) {
+      this.db.exec('ALTER TABLE vector_embeddings ADD COLUMN cluster INTEGER');
     }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_vector_cluster ON vector_embeddings(cluster)');
   }
 
   /**
@@ -87,160 +333,217 @@ export class VectorStore {
     return arr;
   }
 
+  private getMeta(): Record<string, string> {
+    const rows = this.db.prepare('SELECT key, value FROM vector_meta').all() as Array<{
+      key: string;
+      value: string;
+    }>;
+    return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO vector_meta (key, value) VALUES (?, ?)')
+      .run(key, value);
+  }
+
   /**
-   * Add a chunk with its embedding
+   * The model and dimensions of the stored vectors. Stores written before
+   * models were tracked report `unknown` when they hold vectors.
    */
-  async addChunk(
-    chunk: KnowledgeChunk,
-    documentTitle: string,
-    type: KnowledgeType,
-    services: string[]
-  ): Promise<void> {
-    if (!isEmbedderConfigured()) {
-      throw new Error('Embedder not configured. Set OPENAI_API_KEY.');
+  async getEmbeddingInfo(): Promise<VectorStoreEmbedding | null> {
+    const meta = this.getMeta();
+    if (meta.model) {
+      return { model: meta.model, dimensions: Number(meta.dimensions) };
     }
 
-    // Generate embedding
-    const embedding = await embedText(
-      [documentTitle, chunk.sectionTitle, chunk.content].filter(Boolean).join('\n\n')
-    );
-
-    const id = `vec_${chunk.id}`;
+    const row = this.db.prepare('SELECT embedding FROM vector_embeddings LIMIT 1').get() as
+      | { embedding: Buffer }
+      | undefined;
+    return row ? { model: 'unknown', dimensions: row.embedding.length / 8 } : null;
+  }
 
-    // Store in database
-    const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO vector_embeddings
-      (id, chunk_id, document_id, embedding, content, title, type, services)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `);
+  async checkEmbedder(): Promise<string | null> {
+    return describeEmbeddingMismatch(await this.getEmbeddingInfo(), this.embedder);
+  }
 
-    stmt.run(
-      id,
-      chunk.id,
-      chunk.documentId,
-      this.floatArrayToBuffer(embedding),
-      chunk.content,
-      chunk.sectionTitle || documentTitle,
-      type,
-      JSON.stringify(services)
-    );
+  private async assertEmbedder(): Promise<void> {
+    const problem = await this.checkEmbedder();
+    if (problem) {
+      throw new Error(problem);
+    }
+  }
 
-    // Update in-memory cache
-    this.embeddings.set(id, embedding);
+  /**
+   * Centroids of the approximate index, or null when not built
+   */
+  private getCentroids(): number[][] | null {
+    if (!this.centroids) {
+      const rows = this.db
+        .prepare('SELECT centroid FROM vector_centroids ORDER BY id')
+        .all() as Array<{
+        centroid: Buffer;
+      }>;
+      this.centroids = rows.map((row) => this.bufferToFloatArray(row.centroid));
+    }
+    return this.centroids.length > 0 ? this.centroids : null;
   }
 
   /**
    * Add multiple chunks with embeddings (batch processing)
    */
-  async addChunks(
-    chunks: Array<{
-      chunk: KnowledgeChunk;
-      documentTitle: string;
-      type: KnowledgeType;
-      services: string[];
-    }>
-  ): Promise<void> {
-    if (!isEmbedderConfigured()) {
-      throw new Error('Embedder not configured. Set OPENAI_API_KEY.');
+  async addChunks(chunks: VectorChunkInput[]): Promise<void> {
+    await this.assertEmbedder();
+    if (chunks.length === 0) {
+      return;
     }
 
-    // Prepare texts for batch embedding
-    const texts = chunks.map((c) =>
-      [c.documentTitle, c.chunk.sectionTitle, c.chunk.content].filter(Boolean).join('\n\n')
-    );
-
     // Generate embeddings in batch
-    const embeddings = await embedTexts(texts);
+    const embeddings = await embedTexts(chunks.map(chunkEmbeddingText), 'document', this.embedder);
+    assertDimensions(embeddings, (await this.getEmbeddingInfo())?.dimensions, this.embedder);
+    const centroids = this.getCentroids();
 
-    // Store all
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO vector_embeddings
-      (id, chunk_id, document_id, embedding, content, title, type, services)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      (id, chunk_id, document_id, embedding, content, title, type, services, cluster)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const transaction = this.db.transaction(() => {
+      this.setMeta('model', this.embedder.id);
+      this.setMeta('dimensions', String(embeddings[0].length));
       for (let i = 0; i < chunks.length; i++) {
         const { chunk, documentTitle, type, services } = chunks[i];
-        const id = `vec_${chunk.id}`;
 
         stmt.run(
-          id,
+          `vec_${chunk.id}`,
           chunk.id,
           chunk.documentId,
           this.floatArrayToBuffer(embeddings[i]),
           chunk.content,
           chunk.sectionTitle || documentTitle,
           type,
-          JSON.stringify(services)
+          JSON.stringify(services),
+          centroids ? nearestCentroid(normalize(embeddings[i]), centroids) : null
         );
-
-        this.embeddings.set(id, embeddings[i]);
       }
     });
 
     transaction();
+
+    // Build the index at the threshold, and rebuild it each time the store doubles
+    const count = await this.getCount();
+    const indexed = Number(this.getMeta().indexed_count || 0);
+    if (count >= this.indexThreshold && count >= indexed * 2) {
+      this.rebuildIndex();
+    }
+  }
+
+  /**
+   * Cluster all vectors for approximate search. Below the index threshold the
+   * index is dropped and every query scores every vector.
+   */
+  rebuildIndex(): void {
+    const rows = this.db.prepare('SELECT id, embedding FROM vector_embeddings').all() as Array<{
+      id: string;
+      embedding: Buffer;
+    }>;
+
+    const transaction = this.db.transaction((centroids: number[][], clusters: number[]) => {
+      this.db.exec('DELETE FROM vector_centroids');
+      const insert = this.db.prepare('INSERT INTO vector_centroids (id, centroid) VALUES (?, ?)');
+      centroids.forEach((centroid, i) => insert.run(i, this.floatArrayToBuffer(centroid)));
+
+      if (centroids.length === 0) {
+        this.db.exec('UPDATE vector_embeddings SET cluster = NULL');
+      } else {
+        const update = this.db.prepare('UPDATE vector_embeddings SET cluster = ? WHERE id = ?');
+        rows.forEach((row, i) => update.run(clusters[i], row.id));
+      }
+      this.setMeta('indexed_count', String(centroids.length > 0 ? rows.length : 0));
+    });
+
+    if (rows.length < this.indexThreshold) {
+      transaction([], []);
+    } else {
+      const vectors = rows.map((row) => normalize(this.bufferToFloatArray(row.embedding)));
+      const clusters = Math.min(MAX_CLUSTERS, Math.round(Math.sqrt(vectors.length)));
+      const centroids = trainCentroids(vectors, clusters);
+      transaction(
+        centroids,
+        vectors.map((vector) => nearestCentroid(vector, centroids))
+      );
+    }
+    this.centroids = null;
   }
 
   /**
    * Search for similar chunks using vector similarity
    */
-  async search(
-    query: string,
-    options: {
-      topK?: number;
-      typeFilter?: KnowledgeType[];
-      serviceFilter?: string[];
-      minScore?: number;
-    } = {}
-  ): Promise<RetrievedChunk[]> {
-    if (!isEmbedderConfigured()) {
-      throw new Error('Embedder not configured. Set OPENAI_API_KEY.');
+  async search(query: string, options: VectorSearchOptions = {}): Promise<RetrievedChunk[]> {
+    await this.assertEmbedder();
+    if ((await this.getCount()) === 0) {
+      return [];
     }
 
     const topK = options.topK || 10;
-    const minScore = options.minScore || 0.5;
+    const minScore = options.minScore ?? 0.5;
 
     // Generate query embedding
-    const queryEmbedding = await embedText(query);
+    const queryEmbedding = await embedText(query, 'query', this.embedder);
+
+    // Narrow candidates to the closest clusters when indexed
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const centroids = this.getCentroids();
+    if (centroids) {
+      const normalized = normalize(queryEmbedding);
+      const probed = centroids
+        .map((centroid, i) => ({ i, score: dot(normalized, centroid) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, this.probes)
+        .map((cluster) => cluster.i);
+      conditions.push(`(cluster IN (${probed.map(() => '?').join(',')}) OR cluster IS NULL)`);
+      params.push(...probed);
+    }
+    if (options.typeFilter && options.typeFilter.length > 0) {
+      conditions.push(`type IN (${options.typeFilter.map(() => '?').join(',')})`);
+      params.push(...options.typeFilter);
+    }
+
+    const candidates = this.db
+      .prepare(
+        `SELECT id, embedding, services FROM vector_embeddings${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''}`
+      )
+      .all(...params) as Array<{ id: string; embedding: Buffer; services: string | null }>;
 
-    // Calculate similarities
     const scored: Array<{ id: string; score: number }> = [];
+    for (const candidate of candidates) {
+      // Apply service filter
+      if (options.serviceFilter && options.serviceFilter.length > 0) {
+        const services = JSON.parse(candidate.services || '[]') as string[];
+        if (!options.serviceFilter.some((s) => services.includes(s))) continue;
+      }
 
-    for (const [id, embedding] of this.embeddings) {
-      const score = cosineSimilarity(queryEmbedding, embedding);
+      const score = cosineSimilarity(queryEmbedding, this.bufferToFloatArray(candidate.embedding));
       if (score >= minScore) {
-        scored.push({ id, score });
+        scored.push({ id: candidate.id, score });
       }
     }
 
-    // Sort by score
     scored.sort((a, b) => b.score - a.score);
-
-    // Get top results
-    const topIds = scored.slice(0, topK * 2).map((s) => s.id); // Get extra for filtering
-
-    if (topIds.length === 0) {
+    const top = scored.slice(0, topK);
+    if (top.length === 0) {
       return [];
     }
 
-    // Fetch full data from database
-    const placeholders = topIds.map(() => '?').join(',');
-    let sql = `
-      SELECT id, chunk_id, document_id, content, title, type, services
-      FROM vector_embeddings
-      WHERE id IN (${placeholders})
-    `;
-
-    const params: (string | number)[] = [...topIds];
-
-    // Add type filter
-    if (options.typeFilter && options.typeFilter.length > 0) {
-      sql += ` AND type IN (${options.typeFilter.map(() => '?').join(',')})`;
-      params.push(...options.typeFilter);
-    }
-
-    const rows = this.db.prepare(sql).all(...params) as Array<{
+    // Fetch full data for the top results
+    const rows = this.db
+      .prepare(
+        `SELECT id, chunk_id, document_id, content, title, type, services
+         FROM vector_embeddings WHERE id IN (${top.map(() => '?').join(',')})`
+      )
+      .all(...top.map((s) => s.id)) as Array<{
       id: string;
       chunk_id: string;
       document_id: string;
@@ -249,57 +552,37 @@ export class VectorStore {
       type: string;
       services: string;
     }>;
-
-    // Build result with scores
-    const scoreMap = new Map(scored.map((s) => [s.id, s.score]));
-    const results: RetrievedChunk[] = [];
-
-    for (const row of rows) {
-      const services = JSON.parse(row.services || '[]') as string[];
-
-      // Apply service filter
-      if (options.serviceFilter && options.serviceFilter.length > 0) {
-        const hasMatch = options.serviceFilter.some((s) => services.includes(s));
-        if (!hasMatch) continue;
-      }
-
-      results.push({
-        id: row.chunk_id,
-        documentId: row.document_id,
-        title: row.title || '',
-        content: row.content,
-        type: row.type as KnowledgeType,
-        services,
-        score: scoreMap.get(row.id) || 0,
-      });
-    }
-
-    // Sort by score and limit
-    results.sort((a, b) => b.score - a.score);
-    return results.slice(0, topK);
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    return top.flatMap(({ id, score }) => {
+      const row = byId.get(id);
+      return row
+        ? [
+            {
+              id: row.chunk_id,
+              documentId: row.document_id,
+              title: row.title || '',
+              content: row.content,
+              type: row.type as KnowledgeType,
+              services: JSON.parse(row.services || '[]') as string[],
+              score,
+            },
+          ]
+        : [];
+    });
   }
 
   /**
    * Delete embeddings for a document
    */
-  deleteDocument(documentId: string): void {
-    // Remove from in-memory cache
-    const rows = this.db
-      .prepare('SELECT id FROM vector_embeddings WHERE document_id = ?')
-      .all(documentId) as Array<{ id: string }>;
-
-    for (const row of rows) {
-      this.embeddings.delete(row.id);
-    }
-
-    // Remove from database
+  async deleteDocument(documentId: string): Promise<void> {
     this.db.prepare('DELETE FROM vector_embeddings WHERE document_id = ?').run(documentId);
   }
 
   /**
    * Get embedding count
    */
-  getCount(): number {
+  async getCount(): Promise<number> {
     const result = this.db.prepare('SELECT COUNT(*) as count FROM vector_embeddings').get() as {
       count: number;
     };
@@ -309,7 +592,7 @@ export class VectorStore {
   /**
    * Check if a document has embeddings
    */
-  hasDocument(documentId: string): boolean {
+  async hasDocument(documentId: string): Promise<boolean> {
     const result = this.db
       .prepare('SELECT COUNT(*) as count FROM vector_embeddings WHERE document_id = ?')
       .get(documentId) as { count: number };
@@ -319,9 +602,39 @@ export class VectorStore {
   /**
    * Clear all embeddings
    */
-  clear(): void {
+  /**
+   * Build the new vectors in a database beside this one, then rename it over
+   * this one on commit
+   */
+  async createReplacement(): Promise<VectorStoreReplacement> {
+    const path = `${this.dbPath}.reembed`;
+    rmSync(path, { force: true });
+    const next = new SqliteVectorStore(path, {
+      embedder: this.embedder,
+      indexThreshold: this.indexThreshold,
+      probes: this.probes,
+    });
+    return {
+      addChunks: (chunks) => next.addChunks(chunks),
+      commit: async () => {
+        next.close();
+        this.db.close();
+        renameSync(path, this.dbPath);
+        this.db = new Database(this.dbPath);
+        this.centroids = null;
+      },
+      discard: async () => {
+        next.close();
+        rmSync(path, { force: true });
+      },
+    };
+  }
+
+  async clear(): Promise<void> {
     this.db.exec('DELETE FROM vector_embeddings');
-    this.embeddings.clear();
+    this.db.exec('DELETE FROM vector_meta');
+    this.db.exec('DELETE FROM vector_centroids');
+    this.centroids = null;
   }
 
   /**
@@ -333,9 +646,40 @@ export class VectorStore {
 }
 
 /**
- * Create a vector store with default path
+ * Create a local vector store with default path
+ */
+export function createVectorStore(
+  baseDir: string = '.runbook',
+  options: SqliteVectorStoreOptions = {}
+): SqliteVectorStore {
+  return new SqliteVectorStore(join(baseDir, 'vectors.db'), options);
+}
+
+/**
+ * Create the vector store selected by `knowledge.store` in config. Without
+ * an explicit embedder, the embedder is configured from the same settings.
  */
-export function createVectorStore(baseDir: string = '.runbook'): VectorStore {
-  const dbPath = `${baseDir}/vectors.db`;
-  return new VectorStore(dbPath);
+export async function createConfiguredVectorStore(
+  config: VectorStoreConfig = {},
+  embedder?: Embedder
+): Promise<VectorStore> {
+  if (!embedder) {
+    configureEmbedder(embedderConfigFromStore(config));
+  }
+  switch (config.type ?? 'local') {
+    case 'local':
+      return createVectorStore(dirname(config.path || '.runbook/knowledge.db'), {
+        embedder,
+        indexThreshold: config.index?.threshold,
+        probes: config.index?.probes,
+      });
+    case 'qdrant': {
+      const { QdrantVectorStore } = await import('./qdrant-vector-store');
+      return new QdrantVectorStore({ ...config.qdrant, embedder });
+    }
+    default:
+      throw new Error(
+        `Vector store type "${config.type}" is not supported yet. Use "local" or "qdrant".`
+      );
+  }
 }
@@ -47,6 +47,8 @@ export interface KnowledgeDocument {
   createdAt: string;
   updatedAt: string;
   expiresAt?: string;
+  /** Set when createdAt/updatedAt are only file times, not a commit or review date */
+  undated?: boolean;
 
   // Provenance
   author?: string;
@@ -65,11 +67,30 @@ export interface KnowledgeChunk {
 
   // Chunk-level metadata
   sectionTitle?: string;
+  /** Headings above the chunk, outermost first */
+  headingPath?: string[];
   chunkType: 'procedure' | 'context' | 'decision' | 'reference' | 'command';
+  /** Step number when the chunk is one step of a numbered procedure */
+  stepNumber?: number;
+  /** AWS CLI and kubectl commands the chunk runs */
+  commands?: RunbookCommand[];
+  /** First and last line of the chunk in the document (1-based) */
   lineStart?: number;
   lineEnd?: number;
 }
 
+/**
+ * An AWS CLI or kubectl command found in a knowledge chunk
+ */
+export interface RunbookCommand {
+  command: string;
+  tool: 'aws' | 'kubectl';
+  /** e.g. `ecs:UpdateService` or `kubernetes:RolloutRestart` */
+  operation: string;
+  /** Whether the command changes infrastructure */
+  mutating: boolean;
+}
+
 /**
  * Configuration for a knowledge source
  */
@@ -81,22 +102,48 @@ export interface KnowledgeSource {
   lastSyncedAt?: string;
 }
 
+/**
+ * Outcome of the most recent syncs of one source
+ */
+export interface SourceSyncState {
+  /** Stable key for the source, e.g. `confluence:https://acme.atlassian.net/SRE` */
+  source: string;
+  /** Start of the last successful sync, used as `since` for the next one */
+  lastSyncTime?: string;
+  /** GitHub commit the last successful sync read */
+  lastSyncCommit?: string;
+  lastAttemptTime: string;
+  /** Error from the last attempt, cleared by a successful sync */
+  lastError?: string;
+  /** Documents added, updated or removed by the last successful sync */
+  documentsSynced: number;
+}
+
+/**
+ * When `runbook knowledge sync --daemon` syncs a source
+ */
+export interface SourceSchedule {
+  /** Five-field cron expression, in the local time zone */
+  syncSchedule?: string;
+}
+
 export type KnowledgeSourceConfig =
   | FilesystemSourceConfig
   | ConfluenceSourceConfig
   | GoogleDriveSourceConfig
   | NotionSourceConfig
   | GitHubSourceConfig
+  | PagerDutySourceConfig
   | ApiSourceConfig;
 
-export interface FilesystemSourceConfig {
+export interface FilesystemSourceConfig extends SourceSchedule {
   type: 'filesystem';
   path: string;
   filePatterns: string[];
   watch?: boolean;
 }
 
-export interface ConfluenceSourceConfig {
+export interface ConfluenceSourceConfig extends SourceSchedule {
   type: 'confluence';
   baseUrl: string;
   spaceKey: string;
@@ -108,7 +155,7 @@ export interface ConfluenceSourceConfig {
   lastSyncTime?: string;
 }
 
-export interface GoogleDriveSourceConfig {
+export interface GoogleDriveSourceConfig extends SourceSchedule {
   type: 'google_drive';
   folderIds: string[];
   clientId: string;
@@ -119,28 +166,83 @@ export interface GoogleDriveSourceConfig {
   lastSyncTime?: string;
 }
 
-export interface NotionSourceConfig {
+export interface NotionSourceConfig extends SourceSchedule {
   type: 'notion';
   databaseId: string;
   filter?: Record<string, unknown>;
-  apiKey: string;
+  apiKey?: string;
+  lastSyncTime?: string;
 }
 
-export interface GitHubSourceConfig {
+export interface GitHubSourceConfig extends SourceSchedule {
   type: 'github';
   repo: string;
-  branch: string;
-  path: string;
+  branch?: string;
+  path?: string;
   token?: string;
+  baseUrl?: string;
+  lastSyncCommit?: string;
+}
+
+export interface PagerDutySourceConfig extends SourceSchedule {
+  type: 'pagerduty';
+  apiKey?: string;
+  serviceIds?: string[];
+  teamIds?: string[];
+  urgencies?: Array<'high' | 'low'>;
+  /** How far back to look for resolved incidents (default: 90, PagerDuty max: 180) */
+  lookbackDays?: number;
+  maxIncidents?: number;
+  lastSyncTime?: string;
 }
 
-export interface ApiSourceConfig {
+export interface ApiSourceConfig extends SourceSchedule {
   type: 'api';
   endpoint: string;
+  name?: string;
   auth?: {
     type: 'bearer' | 'basic' | 'header';
     value: string;
+    /** Header name for `header` auth (default: X-API-Key) */
+    header?: string;
   };
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  /** Dot path to the array of items in each response (default: response root) */
+  itemsPath?: string;
+  mapping?: ApiFieldMapping;
+  pagination?: ApiPaginationConfig;
+  /** Query parameter used to pass the last sync time for incremental syncs */
+  sinceParam?: string;
+  lastSyncTime?: string;
+}
+
+/**
+ * Maps fields of an API item (dot paths) onto knowledge document fields
+ */
+export interface ApiFieldMapping {
+  id?: string;
+  title?: string;
+  content?: string;
+  type?: string;
+  services?: string;
+  tags?: string;
+  updatedAt?: string;
+  createdAt?: string;
+  url?: string;
+  defaultType?: KnowledgeType;
+}
+
+export interface ApiPaginationConfig {
+  type: 'cursor' | 'page';
+  /** Query parameter carrying the cursor or page number (default: cursor / page) */
+  param?: string;
+  /** Dot path to the next cursor (or next URL) in the response */
+  cursorPath?: string;
+  startPage?: number;
+  pageSize?: number;
+  pageSizeParam?: string;
+  maxPages?: number;
 }
 
 /**
@@ -256,6 +358,13 @@ export interface RetrievedChunk {
   services: string[];
   score: number;
   sourceUrl?: string;
+  /** Title of the whole document; `title` is the section's when it has one */
+  documentTitle?: string;
+  sectionTitle?: string;
+  stepNumber?: number;
+  lineStart?: number;
+  lineEnd?: number;
+  commands?: RunbookCommand[];
 }
 
 /**
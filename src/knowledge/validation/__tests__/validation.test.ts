@@ -0,0 +1,208 @@
+/**
+ * Tests for runbook validation
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { KnowledgeDocument } from '../../types';
+
+const tools = vi.hoisted(() => ({
+  aws_query: vi.fn(),
+  kubernetes_query: vi.fn(),
+  getLabelValues: vi.fn(),
+}));
+
+vi.mock('../../../tools/registry', () => ({
+  awsQueryTool: { execute: tools.aws_query },
+  kubernetesQueryTool: { execute: tools.kubernetes_query },
+}));
+vi.mock('../../../tools/observability/prometheus', () => ({
+  isPrometheusConfigured: () => true,
+  getLabelValues: tools.getLabelValues,
+}));
+
+import { chunkMarkdown } from '../../indexer/chunker';
+import {
+  collectLiveInventory,
+  extractPromqlMetrics,
+  extractReferences,
+  findSimilarName,
+  validateDocuments,
+  validateKnowledge,
+} from '..';
+
+const runbook = `# Checkout latency
+
+Check \`histogram_quantile(0.99, sum(rate(http_request_duration_seconds_bucket{job="checkout"}[5m])) by (le))\`
+and the [dashboard](https://grafana.example.com/d/abc123/checkout).
+
+1. Look at the logs:
+   \`\`\`bash
+   aws logs tail /aws/ecs/checkout --since 30m
+   \`\`\`
+2. Restart the service:
+   \`\`\`bash
+   aws ecs update-service --cluster prod --service checkout --force-new-deployment
+   kubectl -n payments rollout restart deployment/checkout-worker
+   \`\`\`
+3. Check the queue \`arn:aws:sqs:us-east-1:123456789012:checkout-jobs\` and the
+   cache \`aws elasticache describe-replication-groups --replication-group-id <group>\`.
+`;
+
+function document(overrides: Partial<KnowledgeDocument> = {}): KnowledgeDocument {
+  return {
+    id: 'checkout',
+    source: {
+      type: 'filesystem',
+      name: 'local',
+      config: { type: 'filesystem', path: '', filePatterns: [] },
+    },
+    type: 'runbook',
+    title: 'Checkout latency',
+    content: runbook,
+    chunks: chunkMarkdown('checkout', runbook),
+    services: ['checkout'],
+    tags: [],
+    severityRelevance: [],
+    createdAt: '2026-09-01T00:00:00.000Z',
+    updatedAt: '2026-09-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const now = new Date('2026-10-01T00:00:00.000Z');
+
+describe('extractReferences', () => {
+  it('finds resources in commands, ARNs, PromQL and dashboard links', () => {
+    const references = extractReferences(document());
+
+    expect(references.map((r) => [r.kind, r.name, r.namespace])).toEqual([
+      ['grafana:dashboard', 'abc123', undefined],
+      ['prometheus:metric', 'http_request_duration_seconds_bucket', undefined],
+      ['logs:log-group', '/aws/ecs/checkout', undefined],
+      ['ecs:cluster', 'prod', undefined],
+      ['ecs:service', 'checkout', undefined],
+      ['kubernetes:namespace', 'payments', undefined],
+      ['kubernetes:deployment', 'checkout-worker', 'payments'],
+      ['sqs:queue', 'checkout-jobs', undefined],
+    ]);
+    expect(references.find((r) => r.kind === 'ecs:service')?.line).toBe(12);
+  });
+
+  it('keeps metric names and drops functions, labels and durations from PromQL', () => {
+    expect(
+      extractPromqlMetrics(
+        'sum by (service) (rate(errors_total{code=~"5.."}[5m])) / ignoring(code) requests_total offset 1h'
+      )
+    ).toEqual(['errors_total', 'requests_total']);
+  });
+});
+
+describe('validateDocuments', () => {
+  it('reports dead and renamed references only where the inventory is complete', () => {
+    const report = validateDocuments([document()], {
+      maxAgeDays: 90,
+      now,
+      inventory: {
+        'logs:log-group': { names: new Set(['/aws/ecs/checkout-v2']), complete: true },
+        'ecs:cluster': { names: new Set(['prod']), complete: true },
+        'sqs:queue': { names: new Set(['other-queue']), complete: false },
+        'prometheus:metric': { names: new Set(['up']), complete: true },
+        'kubernetes:namespace': { names: new Set(['default']), complete: true },
+        'kubernetes:deployment': { names: new Set(), complete: true, scopes: new Set() },
+      },
+    });
+
+    const [result] = report.documents;
+    expect(
+      result.issues.map((issue) => [issue.type, issue.reference?.name, issue.suggestion])
+    ).toEqual([
+      ['dead-reference', 'http_request_duration_seconds_bucket', undefined],
+      ['renamed', '/aws/ecs/checkout', '/aws/ecs/checkout-v2'],
+      ['dead-reference', 'payments', undefined],
+      ['dead-reference', 'checkout-worker', undefined],
+    ]);
+    expect(result.issues[1]).toMatchObject({ severity: 'error', line: 8 });
+    expect(report.summary).toMatchObject({ references: 8, verified: 1, unchecked: 3, errors: 4 });
+  });
+
+  it('flags expired and unreviewed runbooks and renamed services', () => {
+    const report = validateDocuments(
+      [
+        document({ id: 'expired', expiresAt: '2026-09-15T00:00:00.000Z' }),
+        document({ id: 'old', updatedAt: '2026-01-01T00:00:00.000Z', lastValidated: undefined }),
+        document({ id: 'reviewed', updatedAt: '2026-01-01', lastValidated: '2026-09-20' }),
+        document({ id: 'uncommitted', updatedAt: '2026-09-30T00:00:00.000Z', undated: true }),
+      ],
+      { maxAgeDays: 90, now, services: ['checkout-service', 'payments'] }
+    );
+
+    expect(report.documents.map((doc) => doc.issues.map((issue) => issue.type))).toEqual([
+      ['expired', 'renamed'],
+      ['stale', 'renamed'],
+      ['renamed'],
+      ['undated', 'renamed'],
+    ]);
+    expect(report.documents[1].issues[0].message).toBe('Not reviewed in 273 days (threshold 90)');
+    expect(report.documents[2].issues[0]).toMatchObject({
+      severity: 'warning',
+      suggestion: 'checkout-service',
+    });
+  });
+
+  it('suggests close names and affixed variants', () => {
+    expect(findSimilarName('checkout', ['checkout-v2', 'payments'])).toBe('checkout-v2');
+    expect(findSimilarName('orders-db', ['order-db', 'orders-cache'])).toBe('order-db');
+    expect(findSimilarName('orders', ['inventory'])).toBeUndefined();
+  });
+});
+
+describe('collectLiveInventory', () => {
+  beforeEach(() => {
+    tools.aws_query.mockReset();
+    tools.kubernetes_query.mockReset();
+    tools.getLabelValues.mockReset();
+  });
+
+  it('lists only the kinds referenced and reports providers that fail', async () => {
+    tools.aws_query.mockResolvedValue({
+      results: {
+        ecs: { count: 1, resources: [{ id: 'arn:aws:ecs:us-east-1:123456789012:cluster/prod' }] },
+        sqs: {
+          count: 1,
+          resources: [{ id: 'https://sqs.us-east-1.amazonaws.com/123456789012/checkout-jobs' }],
+        },
+      },
+      errors: ['logs: AccessDenied'],
+    });
+    tools.kubernetes_query.mockImplementation(async (args: Record<string, unknown>) => {
+      switch (args.action) {
+        case 'status':
+          return { available: true };
+        case 'namespaces':
+          return { namespaces: ['default', 'payments'] };
+        default:
+          return { deployments: [{ name: 'checkout-worker', namespace: 'payments' }] };
+      }
+    });
+    tools.getLabelValues.mockResolvedValue(['http_request_duration_seconds_bucket']);
+
+    const warnings: string[] = [];
+    const references = extractReferences(document());
+    const inventory = await collectLiveInventory(references, {
+      aws: {},
+      kubernetes: {},
+      prometheus: true,
+      warnings,
+    });
+
+    expect(tools.aws_query.mock.calls[0][0].services).toEqual(['logs', 'ecs', 'sqs']);
+    expect(inventory['ecs:cluster']).toEqual({ names: new Set(['prod']), complete: true });
+    expect(inventory['sqs:queue']?.names).toEqual(new Set(['checkout-jobs']));
+    expect(inventory['logs:log-group']).toBeUndefined();
+    expect(inventory['kubernetes:deployment']?.scopes).toEqual(new Set(['payments']));
+    expect(warnings).toEqual(['AWS logs: AccessDenied']);
+
+    const report = await validateKnowledge([document()], { maxAgeDays: 90, now, aws: {} });
+    expect(report.summary).toMatchObject({ verified: 2, errors: 0 });
+  });
+});
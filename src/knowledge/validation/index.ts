@@ -0,0 +1,304 @@
+/**
+ * Runbook Validation
+ *
+ * Checks runbooks against the infrastructure they describe. References to
+ * resources, log groups, metrics and dashboards are looked up in a live
+ * inventory; references that no longer resolve are reported as dead, with
+ * the closest live name when it looks like a rename. Runbooks past their
+ * `expiresAt`, or not reviewed within the age threshold, are reported as
+ * stale, and runbooks with neither a review date nor commit history as
+ * undated.
+ */
+
+import type { KnowledgeDocument } from '../types';
+import { collectLiveInventory, type InventoryOptions, type LiveInventory } from './inventory';
+import { extractReferences, type RunbookReference } from './references';
+
+export * from './references';
+export * from './inventory';
+
+export type ValidationIssueType = 'dead-reference' | 'renamed' | 'expired' | 'stale' | 'undated';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  severity: ValidationSeverity;
+  message: string;
+  reference?: RunbookReference;
+  /** Live name the reference probably became */
+  suggestion?: string;
+  line?: number;
+}
+
+export interface DocumentValidation {
+  documentId: string;
+  title: string;
+  sourceUrl?: string;
+  /** ISO timestamps */
+  lastReviewed: string;
+  expiresAt?: string;
+  references: number;
+  verified: number;
+  unchecked: number;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationReport {
+  generatedAt: string;
+  maxAgeDays: number;
+  documents: DocumentValidation[];
+  summary: {
+    documents: number;
+    references: number;
+    verified: number;
+    unchecked: number;
+    errors: number;
+    warnings: number;
+  };
+  /** Providers that could not be checked */
+  warnings: string[];
+}
+
+export interface ValidationOptions {
+  /** Days since the last review after which a runbook is stale */
+  maxAgeDays: number;
+  inventory?: LiveInventory;
+  /** Known service names, e.g. from the service graph, for spotting renamed services */
+  services?: string[];
+  warnings?: string[];
+  now?: Date;
+}
+
+type ReferenceStatus = 'ok' | 'dead' | 'unchecked';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The candidate a missing name was most likely renamed to: a small edit
+ * away, or the same name with a suffix added or dropped (`checkout` and
+ * `checkout-v2`).
+ */
+export function findSimilarName(name: string, candidates: Iterable<string>): string | undefined {
+  const target = name.toLowerCase();
+  let best: { name: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const value = candidate.toLowerCase();
+    if (value === target) {
+      continue;
+    }
+    const affixed = value.startsWith(`${target}-`) || target.startsWith(`${value}-`);
+    const distance = affixed ? 1 : levenshtein(target, value);
+    const allowed = Math.max(2, Math.floor(target.length * 0.3));
+    if (distance <= allowed && (!best || distance < best.distance)) {
+      best = { name: candidate, distance };
+    }
+  }
+
+  return best?.name;
+}
+
+function checkReference(reference: RunbookReference, inventory: LiveInventory): ReferenceStatus {
+  const entry = inventory[reference.kind];
+  if (!entry) {
+    return 'unchecked';
+  }
+
+  if (reference.kind === 'kubernetes:deployment') {
+    const scope = reference.namespace ?? '';
+    const found = scope
+      ? entry.names.has(`${scope}/${reference.name}`)
+      : [...entry.names].some((name) => name.endsWith(`/${reference.name}`));
+    if (found) {
+      return 'ok';
+    }
+    const namespaces = inventory['kubernetes:namespace'];
+    const namespaceGone = scope && namespaces?.complete && !namespaces.names.has(scope);
+    return namespaceGone || entry.scopes?.has(scope) ? 'dead' : 'unchecked';
+  }
+
+  if (entry.names.has(reference.name)) {
+    return 'ok';
+  }
+  return entry.complete ? 'dead' : 'unchecked';
+}
+
+function describeReference(reference: RunbookReference): string {
+  const name = reference.namespace ? `${reference.namespace}/${reference.name}` : reference.name;
+  return `${reference.kind} ${name}`;
+}
+
+function referenceIssue(reference: RunbookReference, inventory: LiveInventory): ValidationIssue {
+  const names = [...(inventory[reference.kind]?.names ?? [])].map((name) =>
+    reference.kind === 'kubernetes:deployment' ? name.slice(name.indexOf('/') + 1) : name
+  );
+  const suggestion = findSimilarName(reference.name, names);
+
+  return {
+    type: suggestion ? 'renamed' : 'dead-reference',
+    severity: 'error',
+    message: suggestion
+      ? `${describeReference(reference)} not found; did it become ${suggestion}?`
+      : `${describeReference(reference)} no longer exists`,
+    reference,
+    suggestion,
+    line: reference.line,
+  };
+}
+
+/**
+ * When a document was last reviewed. Frontmatter dates may arrive as Date
+ * objects rather than strings, so both are accepted.
+ */
+function lastReviewed(doc: KnowledgeDocument): Date {
+  return new Date(doc.lastValidated || doc.updatedAt || doc.createdAt);
+}
+
+function ageIssues(doc: KnowledgeDocument, maxAgeDays: number, now: Date): ValidationIssue[] {
+  const expiresAt = doc.expiresAt ? new Date(doc.expiresAt) : undefined;
+  if (expiresAt && expiresAt.getTime() <= now.getTime()) {
+    return [
+      {
+        type: 'expired',
+        severity: 'error',
+        message: `Expired on ${expiresAt.toISOString().slice(0, 10)}`,
+      },
+    ];
+  }
+
+  // File times say nothing about when a runbook was last reviewed
+  if (doc.undated && !doc.lastValidated) {
+    return [
+      {
+        type: 'undated',
+        severity: 'warning',
+        message: 'No review date: set lastValidated in the frontmatter or commit the file',
+      },
+    ];
+  }
+
+  const reviewed = lastReviewed(doc);
+  const age = Math.floor((now.getTime() - reviewed.getTime()) / DAY_MS);
+  if (age > maxAgeDays) {
+    return [
+      {
+        type: 'stale',
+        severity: 'warning',
+        message: `Not reviewed in ${age} days (threshold ${maxAgeDays})`,
+      },
+    ];
+  }
+  return [];
+}
+
+function serviceIssues(doc: KnowledgeDocument, services: string[]): ValidationIssue[] {
+  const known = new Set(services.map((service) => service.toLowerCase()));
+  if (known.size === 0) {
+    return [];
+  }
+
+  return doc.services
+    .filter((service) => !known.has(service.toLowerCase()))
+    .flatMap((service) => {
+      const suggestion = findSimilarName(service, services);
+      return suggestion
+        ? [
+            {
+              type: 'renamed' as const,
+              severity: 'warning' as const,
+              message: `Service ${service} is not known; did it become ${suggestion}?`,
+              suggestion,
+            },
+          ]
+        : [];
+    });
+}
+
+/**
+ * Validate documents against an inventory that has already been collected.
+ * Without an inventory only expiry and age are checked.
+ */
+export function validateDocuments(
+  documents: KnowledgeDocument[],
+  options: ValidationOptions
+): ValidationReport {
+  const now = options.now ?? new Date();
+  const inventory = options.inventory ?? {};
+
+  const results = documents.map((doc): DocumentValidation => {
+    const references = extractReferences(doc);
+    const issues = [...ageIssues(doc, options.maxAgeDays, now)];
+    let verified = 0;
+    let unchecked = 0;
+
+    for (const reference of references) {
+      const status = checkReference(reference, inventory);
+      if (status === 'ok') {
+        verified++;
+      } else if (status === 'unchecked') {
+        unchecked++;
+      } else {
+        issues.push(referenceIssue(reference, inventory));
+      }
+    }
+    issues.push(...serviceIssues(doc, options.services ?? []));
+
+    return {
+      documentId: doc.id,
+      title: doc.title,
+      sourceUrl: doc.sourceUrl,
+      lastReviewed: lastReviewed(doc).toISOString(),
+      expiresAt: doc.expiresAt ? new Date(doc.expiresAt).toISOString() : undefined,
+      references: references.length,
+      verified,
+      unchecked,
+      issues,
+    };
+  });
+
+  const issues = results.flatMap((result) => result.issues);
+  return {
+    generatedAt: now.toISOString(),
+    maxAgeDays: options.maxAgeDays,
+    documents: results,
+    summary: {
+      documents: results.length,
+      references: results.reduce((sum, result) => sum + result.references, 0),
+      verified: results.reduce((sum, result) => sum + result.verified, 0),
+      unchecked: results.reduce((sum, result) => sum + result.unchecked, 0),
+      errors: issues.filter((issue) => issue.severity === 'error').length,
+      warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    },
+    warnings: options.warnings ?? [],
+  };
+}
+
+/**
+ * Collect the live inventory the documents need, then validate them
+ */
+export async function validateKnowledge(
+  documents: KnowledgeDocument[],
+  options: Omit<ValidationOptions, 'inventory' | 'warnings'> & InventoryOptions
+): Promise<ValidationReport> {
+  const warnings: string[] = [];
+  const references = documents.flatMap((doc) => extractReferences(doc));
+  const inventory = await collectLiveInventory(references, { ...options, warnings });
+  return validateDocuments(documents, { ...options, inventory, warnings });
+}
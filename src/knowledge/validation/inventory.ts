@@ -0,0 +1,244 @@
+/**
+ * Live Inventory
+ *
+ * Lists the resources runbooks refer to from the same tools the agent uses:
+ * aws_query for AWS resources, kubernetes_query for namespaces, deployments
+ * and contexts, and the Prometheus label API for metric names. Only the
+ * resource kinds a set of references needs are listed. A kind that could not
+ * be listed, or was listed only partially, is marked incomplete so a missing
+ * name is not mistaken for a dead reference.
+ */
+
+import { parseArn, type ReferenceKind, type RunbookReference } from './references';
+
+export interface InventoryEntry {
+  names: Set<string>;
+  /** Whether `names` is every resource of this kind */
+  complete: boolean;
+  /** For deployments: namespaces whose listing is known (`''` for the current namespace) */
+  scopes?: Set<string>;
+}
+
+export type LiveInventory = Partial<Record<ReferenceKind, InventoryEntry>>;
+
+export interface InventoryOptions {
+  aws?: { region?: string; accountName?: string };
+  kubernetes?: { context?: string };
+  prometheus?: boolean;
+  /** Problems reaching a provider, reported rather than thrown */
+  warnings?: string[];
+}
+
+/** aws_query service listing each kind */
+const AWS_KIND_SERVICES: Partial<Record<ReferenceKind, string>> = {
+  'ecs:cluster': 'ecs',
+  'eks:cluster': 'eks',
+  'lambda:function': 'lambda',
+  'rds:db': 'rds',
+  'elasticache:cluster': 'elasticache',
+  'elasticache:replication-group': 'elasticache',
+  'dynamodb:table': 'dynamodb',
+  's3:bucket': 's3',
+  'sqs:queue': 'sqs',
+  'logs:log-group': 'logs',
+  'cloudwatch:alarm': 'cloudwatch',
+};
+
+const AWS_QUERY_LIMIT = 1000;
+
+/**
+ * The executor reads at most limit/100 pages and the smallest default page
+ * is 50 results, so a listing shorter than this was not cut off.
+ */
+const AWS_COMPLETE_BELOW = (AWS_QUERY_LIMIT / 100) * 50;
+
+interface AwsQueryResult {
+  results?: Record<string, { count: number; resources: Array<Record<string, unknown>> }>;
+  errors?: string[];
+  error?: string;
+}
+
+/**
+ * Name of a resource from aws_query, which may be an ARN or a queue URL
+ */
+function awsResourceName(resource: Record<string, unknown>): string {
+  const value = String(resource.name ?? resource.id ?? '');
+  if (value.startsWith('arn:')) {
+    return parseArn(value)?.name ?? value.split(/[:/]/).pop() ?? value;
+  }
+  if (/^https?:\/\//.test(value)) {
+    return value.split('/').pop() ?? value;
+  }
+  return value;
+}
+
+async function collectAws(
+  kinds: Set<ReferenceKind>,
+  inventory: LiveInventory,
+  options: NonNullable<InventoryOptions['aws']>,
+  warnings: string[]
+): Promise<void> {
+  const services = [
+    ...new Set([...kinds].map((kind) => AWS_KIND_SERVICES[kind]).filter(Boolean)),
+  ] as string[];
+
+  if (services.length > 0) {
+    const { awsQueryTool } = await import('../../tools/registry');
+    const result = (await awsQueryTool.execute({
+      query: 'List resources referenced by runbooks',
+      services,
+      region: options.region,
+      account: options.accountName,
+      limit: AWS_QUERY_LIMIT,
+    })) as AwsQueryResult;
+
+    if (result.error) {
+      warnings.push(`AWS: ${result.error}`);
+      return;
+    }
+    const failed = new Set<string>();
+    for (const error of result.errors || []) {
+      failed.add(error.split(':')[0]);
+      warnings.push(`AWS ${error}`);
+    }
+
+    for (const kind of kinds) {
+      const service = AWS_KIND_SERVICES[kind];
+      if (!service || failed.has(service)) {
+        continue;
+      }
+      // Services with no resources are left out of the results
+      const listed = result.results?.[service] ?? { count: 0, resources: [] };
+      let names = listed.resources.map(awsResourceName);
+      if (kind === 'elasticache:replication-group') {
+        // Redis replication group members are named <group>-001 or <group>-0001-001
+        names = names.map((name) => name.replace(/(-\d{4})?-\d{3}$/, ''));
+      }
+      inventory[kind] = {
+        names: new Set(names.filter(Boolean)),
+        complete: listed.count < AWS_COMPLETE_BELOW,
+      };
+    }
+  }
+
+  if (kinds.has('cloudwatch:dashboard')) {
+    try {
+      const { listDashboards } = await import('../../tools/aws/cloudwatch');
+      inventory['cloudwatch:dashboard'] = {
+        names: new Set(await listDashboards(options.region)),
+        complete: true,
+      };
+    } catch (error) {
+      warnings.push(
+        `AWS cloudwatch dashboards: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+async function collectKubernetes(
+  references: RunbookReference[],
+  inventory: LiveInventory,
+  options: NonNullable<InventoryOptions['kubernetes']>,
+  warnings: string[]
+): Promise<void> {
+  const { kubernetesQueryTool } = await import('../../tools/registry');
+  const query = (args: Record<string, unknown>) =>
+    kubernetesQueryTool.execute({ ...args, context: options.context, limit: 10000 }) as Promise<
+      Record<string, unknown>
+    >;
+
+  const status = await query({ action: 'status' });
+  if (status.error || !status.available) {
+    warnings.push(`Kubernetes: ${status.error ?? 'kubectl is not available'}`);
+    return;
+  }
+
+  const kinds = new Set(references.map((reference) => reference.kind));
+  if (kinds.has('kubernetes:context')) {
+    const result = await query({ action: 'contexts' });
+    const contexts = (result.contexts as string[] | undefined) ?? [];
+    inventory['kubernetes:context'] = { names: new Set(contexts), complete: contexts.length > 0 };
+  }
+
+  // Both namespace and deployment checks need to know which namespaces exist
+  const namespaces = ((await query({ action: 'namespaces' })).namespaces as string[]) ?? [];
+  if (namespaces.length === 0) {
+    warnings.push('Kubernetes: could not list namespaces');
+    return;
+  }
+  inventory['kubernetes:namespace'] = { names: new Set(namespaces), complete: true };
+
+  const deployments = references.filter((reference) => reference.kind === 'kubernetes:deployment');
+  if (deployments.length === 0) {
+    return;
+  }
+  const entry: InventoryEntry = { names: new Set(), complete: true, scopes: new Set() };
+  const scopes = new Set(deployments.map((reference) => reference.namespace ?? ''));
+  for (const scope of scopes) {
+    if (scope && !namespaces.includes(scope)) {
+      continue;
+    }
+    const result = await query({ action: 'deployments', namespace: scope || undefined });
+    const listed = (result.deployments as Array<{ name: string; namespace: string }>) ?? [];
+    // kubectl reports an empty list when it is not allowed to list, so only trust non-empty ones
+    if (listed.length > 0) {
+      entry.scopes!.add(scope);
+      listed.forEach((deployment) => entry.names.add(`${deployment.namespace}/${deployment.name}`));
+    }
+  }
+  inventory['kubernetes:deployment'] = entry;
+}
+
+async function collectPrometheus(inventory: LiveInventory, warnings: string[]): Promise<void> {
+  const { getLabelValues, isPrometheusConfigured } =
+    await import('../../tools/observability/prometheus');
+  if (!isPrometheusConfigured()) {
+    warnings.push('Prometheus: not configured (set PROMETHEUS_URL)');
+    return;
+  }
+  inventory['prometheus:metric'] = {
+    names: new Set(await getLabelValues('__name__')),
+    complete: true,
+  };
+}
+
+/**
+ * List the live resources needed to check a set of references. Each
+ * provider is optional; one that fails adds a warning and leaves its kinds
+ * out of the inventory.
+ */
+export async function collectLiveInventory(
+  references: RunbookReference[],
+  options: InventoryOptions
+): Promise<LiveInventory> {
+  const inventory: LiveInventory = {};
+  const warnings = options.warnings ?? [];
+  const kinds = new Set(references.map((reference) => reference.kind));
+  const has = (prefix: string) => [...kinds].some((kind) => kind.startsWith(prefix));
+
+  const attempt = async (provider: string, collect: () => Promise<void>) => {
+    try {
+      await collect();
+    } catch (error) {
+      warnings.push(`${provider}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  if (
+    options.aws &&
+    [...kinds].some((kind) => AWS_KIND_SERVICES[kind] || kind === 'cloudwatch:dashboard')
+  ) {
+    await attempt('AWS', () => collectAws(kinds, inventory, options.aws!, warnings));
+  }
+  if (options.kubernetes && has('kubernetes:')) {
+    await attempt('Kubernetes', () =>
+      collectKubernetes(references, inventory, options.kubernetes!, warnings)
+    );
+  }
+  if (options.prometheus && has('prometheus:')) {
+    await attempt('Prometheus', () => collectPrometheus(inventory, warnings));
+  }
+
+  return inventory;
+}
@@ -0,0 +1,344 @@
+/**
+ * Runbook References
+ *
+ * Pulls the infrastructure a runbook names out of its text: AWS resources
+ * given to CLI flags or written as ARNs, CloudWatch log groups, alarms and
+ * dashboards, Kubernetes namespaces and deployments, Prometheus metrics in
+ * PromQL, and Grafana dashboard links. Each reference keeps the line it was
+ * found on so a report can point at it.
+ */
+
+import { tokenizeCliCommand } from '../indexer/commands';
+import type { KnowledgeChunk, KnowledgeDocument, RunbookCommand } from '../types';
+
+/**
+ * What a reference names, as `<provider>:<type>`
+ */
+export type ReferenceKind =
+  | 'ecs:cluster'
+  | 'ecs:service'
+  | 'eks:cluster'
+  | 'lambda:function'
+  | 'rds:db'
+  | 'elasticache:cluster'
+  | 'elasticache:replication-group'
+  | 'dynamodb:table'
+  | 's3:bucket'
+  | 'sqs:queue'
+  | 'logs:log-group'
+  | 'cloudwatch:alarm'
+  | 'cloudwatch:metric'
+  | 'cloudwatch:dashboard'
+  | 'kubernetes:context'
+  | 'kubernetes:namespace'
+  | 'kubernetes:deployment'
+  | 'prometheus:metric'
+  | 'grafana:dashboard';
+
+export interface RunbookReference {
+  kind: ReferenceKind;
+  name: string;
+  /** Namespace of a Kubernetes deployment, when the runbook gives one */
+  namespace?: string;
+  /** 1-based line in the document, when known */
+  line?: number;
+  /** The command the reference came from */
+  command?: string;
+}
+
+/** AWS CLI flags whose value names a resource */
+const AWS_FLAG_KINDS: Record<string, ReferenceKind> = {
+  '--function-name': 'lambda:function',
+  '--db-instance-identifier': 'rds:db',
+  '--cache-cluster-id': 'elasticache:cluster',
+  '--replication-group-id': 'elasticache:replication-group',
+  '--log-group-name': 'logs:log-group',
+  '--table-name': 'dynamodb:table',
+  '--bucket': 's3:bucket',
+  '--queue-url': 'sqs:queue',
+  '--alarm-name': 'cloudwatch:alarm',
+  '--alarm-names': 'cloudwatch:alarm',
+  '--dashboard-name': 'cloudwatch:dashboard',
+  '--metric-name': 'cloudwatch:metric',
+};
+
+/** Flags that name a resource only for one AWS service */
+const AWS_SERVICE_FLAG_KINDS: Record<string, Record<string, ReferenceKind>> = {
+  ecs: { '--cluster': 'ecs:cluster', '--service': 'ecs:service' },
+  eks: { '--name': 'eks:cluster', '--cluster-name': 'eks:cluster' },
+};
+
+/** ARN service and resource type for each kind */
+const ARN_KINDS: Array<{ service: string; type: string; kind: ReferenceKind }> = [
+  { service: 'ecs', type: 'cluster', kind: 'ecs:cluster' },
+  { service: 'ecs', type: 'service', kind: 'ecs:service' },
+  { service: 'eks', type: 'cluster', kind: 'eks:cluster' },
+  { service: 'lambda', type: 'function', kind: 'lambda:function' },
+  { service: 'rds', type: 'db', kind: 'rds:db' },
+  { service: 'elasticache', type: 'cluster', kind: 'elasticache:cluster' },
+  { service: 'elasticache', type: 'replicationgroup', kind: 'elasticache:replication-group' },
+  { service: 'dynamodb', type: 'table', kind: 'dynamodb:table' },
+  { service: 'logs', type: 'log-group', kind: 'logs:log-group' },
+  { service: 'cloudwatch', type: 'alarm', kind: 'cloudwatch:alarm' },
+  { service: 'cloudwatch', type: 'dashboard', kind: 'cloudwatch:dashboard' },
+];
+
+const KUBECTL_DEPLOYMENT_KINDS = new Set(['deployment', 'deployments', 'deploy']);
+
+const PROMQL_WORDS = new Set([
+  'by',
+  'without',
+  'on',
+  'ignoring',
+  'group_left',
+  'group_right',
+  'offset',
+  'bool',
+  'and',
+  'or',
+  'unless',
+  'histogram_quantile',
+  'label_replace',
+  'label_join',
+  'clamp_min',
+  'clamp_max',
+  'predict_linear',
+  'count_values',
+  'sort_desc',
+  'absent_over_time',
+  'avg_over_time',
+  'min_over_time',
+  'max_over_time',
+  'sum_over_time',
+  'count_over_time',
+  'quantile_over_time',
+  'stddev_over_time',
+  'last_over_time',
+  'present_over_time',
+]);
+
+/** Values that are placeholders rather than names */
+function isPlaceholder(value: string): boolean {
+  return !value || /[$<>{}]|\.\.\./.test(value) || /^(my|your|example)[-_]/i.test(value);
+}
+
+/**
+ * Name a resource ARN refers to, and what kind of resource it is
+ */
+export function parseArn(arn: string): { kind: ReferenceKind; name: string } | null {
+  const match = arn.match(/^arn:aws[\w-]*:([\w-]+):[\w-]*:\d*:(.+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, service, resource] = match;
+  if (service === 's3') {
+    return { kind: 's3:bucket', name: resource.split('/')[0] };
+  }
+  if (service === 'sqs') {
+    return { kind: 'sqs:queue', name: resource };
+  }
+
+  // Resources are `type/name`, `type:name` or `type/cluster/name` (ECS services)
+  const [type, ...rest] = resource.split(/[:/]/);
+  const entry = ARN_KINDS.find((k) => k.service === service && k.type === type);
+  if (!entry || rest.length === 0) {
+    return null;
+  }
+  const name =
+    entry.kind === 'logs:log-group'
+      ? resource.slice(type.length + 1).replace(/:\*?$/, '')
+      : rest[rest.length - 1];
+  return name ? { kind: entry.kind, name } : null;
+}
+
+/**
+ * Resource names in an AWS CLI command's flags
+ */
+function awsCommandReferences(command: RunbookCommand): RunbookReference[] {
+  const tokens = tokenizeCliCommand(command.command);
+  const service = command.operation.split(':')[0];
+  const flags = { ...AWS_FLAG_KINDS, ...AWS_SERVICE_FLAG_KINDS[service] };
+  const references: RunbookReference[] = [];
+
+  const add = (kind: ReferenceKind, value: string) => {
+    const arn = value.startsWith('arn:') ? parseArn(value) : null;
+    const name = arn ? arn.name : kind === 'sqs:queue' ? value.split('/').pop() || '' : value;
+    if (!isPlaceholder(name)) {
+      references.push({ kind: arn?.kind ?? kind, name, command: command.command });
+    }
+  };
+
+  tokens.forEach((token, i) => {
+    const [flag, inline] = token.split(/=(.*)/s);
+    const kind = flags[flag];
+    if (kind) {
+      // Flags like --alarm-names take several values
+      const values = inline !== undefined ? [inline] : [];
+      for (let j = i + 1; inline === undefined && j < tokens.length; j++) {
+        if (tokens[j].startsWith('-')) break;
+        values.push(tokens[j]);
+        if (flag !== '--alarm-names') break;
+      }
+      values.forEach((value) => add(kind, value));
+    }
+
+    const bucket = token.match(/^s3:\/\/([^/]+)/);
+    if (bucket) {
+      add('s3:bucket', bucket[1]);
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Namespaces, deployments and contexts in a kubectl command
+ */
+function kubectlCommandReferences(command: RunbookCommand): RunbookReference[] {
+  const tokens = tokenizeCliCommand(command.command);
+  const references: RunbookReference[] = [];
+  let namespace: string | undefined;
+  const args: string[] = [];
+
+  for (let i = 1; i < tokens.length; i++) {
+    const [flag, inline] = tokens[i].split(/=(.*)/s);
+    if (flag === '-n' || flag === '--namespace' || flag === '--context') {
+      const value = inline ?? tokens[++i];
+      if (value && !isPlaceholder(value)) {
+        if (flag === '--context') {
+          references.push({ kind: 'kubernetes:context', name: value, command: command.command });
+        } else {
+          namespace = value;
+        }
+      }
+    } else if (!flag.startsWith('-')) {
+      args.push(tokens[i]);
+    }
+  }
+
+  if (namespace) {
+    references.push({ kind: 'kubernetes:namespace', name: namespace, command: command.command });
+  }
+
+  // `deployment/name` anywhere, or `deployment name` after the verb
+  args.forEach((arg, i) => {
+    const [type, name] = arg.split('/');
+    const deployment =
+      name !== undefined
+        ? KUBECTL_DEPLOYMENT_KINDS.has(type) && name
+        : i > 0 && KUBECTL_DEPLOYMENT_KINDS.has(args[i - 1]) && arg;
+    if (deployment && !isPlaceholder(deployment)) {
+      references.push({
+        kind: 'kubernetes:deployment',
+        name: deployment,
+        namespace,
+        command: command.command,
+      });
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Metric names in a PromQL expression
+ */
+export function extractPromqlMetrics(expression: string): string[] {
+  const stripped = expression
+    .replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, '""')
+    .replace(/\{[^}]*\}/g, ' ')
+    .replace(/\[[^\]]*\]/g, ' ')
+    // Label lists after by/without/on/ignoring
+    .replace(/\b(by|without|on|ignoring|group_left|group_right)\s*\([^)]*\)/g, ' ');
+
+  const metrics = new Set<string>();
+  for (const match of stripped.matchAll(/[a-zA-Z_:][a-zA-Z0-9_:]*(?=\s*(\(|\b))/g)) {
+    const name = match[0];
+    const followedByCall = /^\s*\(/.test(stripped.slice(match.index! + name.length));
+    // Metric names have an underscore or colon; functions are followed by a call
+    if (!followedByCall && !PROMQL_WORDS.has(name) && /[_:]/.test(name)) {
+      metrics.add(name);
+    }
+  }
+  return [...metrics];
+}
+
+/**
+ * References in a chunk's free text: ARNs, log groups, dashboards and PromQL
+ */
+function textReferences(content: string): RunbookReference[] {
+  const references: RunbookReference[] = [];
+
+  for (const match of content.matchAll(/arn:aws[\w-]*:[\w-]+:[\w-]*:\d*:[^\s`'",)]+/g)) {
+    const arn = parseArn(match[0]);
+    if (arn && !isPlaceholder(arn.name)) {
+      references.push(arn);
+    }
+  }
+
+  for (const match of content.matchAll(/(?<![\w/:.-])\/aws\/[\w.\-/]+[\w]/g)) {
+    if (!isPlaceholder(match[0])) {
+      references.push({ kind: 'logs:log-group', name: match[0] });
+    }
+  }
+
+  for (const match of content.matchAll(/#dashboards:name=([\w.-]+)/g)) {
+    references.push({ kind: 'cloudwatch:dashboard', name: match[1] });
+  }
+  for (const match of content.matchAll(/https?:\/\/[^\s)]+\/d\/([\w-]+)(?:\/[\w-]+)?/g)) {
+    references.push({ kind: 'grafana:dashboard', name: match[1] });
+  }
+
+  // PromQL in promql code blocks, or inline code that selects or aggregates series
+  const promql = [
+    ...[...content.matchAll(/```promql\n([\s\S]*?)```/g)].map((m) => m[1]),
+    ...[...content.matchAll(/`([^`\n]+)`/g)]
+      .map((m) => m[1])
+      .filter((code) => /^[\w:]+\{|^\w+\(.*[\w:]+(\{|\[)/.test(code)),
+  ];
+  for (const expression of promql) {
+    for (const metric of extractPromqlMetrics(expression)) {
+      references.push({ kind: 'prometheus:metric', name: metric });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Line of a chunk that mentions a value
+ */
+function lineOf(chunk: KnowledgeChunk, value: string): number | undefined {
+  if (chunk.lineStart === undefined) {
+    return undefined;
+  }
+  const index = chunk.content.split('\n').findIndex((line) => line.includes(value));
+  return chunk.lineStart + Math.max(index, 0);
+}
+
+/**
+ * Every infrastructure reference in a document, deduplicated by kind and name
+ */
+export function extractReferences(doc: KnowledgeDocument): RunbookReference[] {
+  const seen = new Set<string>();
+  const references: RunbookReference[] = [];
+
+  for (const chunk of doc.chunks) {
+    const found = [
+      ...(chunk.commands || []).flatMap((command) =>
+        command.tool === 'aws' ? awsCommandReferences(command) : kubectlCommandReferences(command)
+      ),
+      ...textReferences(chunk.content),
+    ];
+
+    for (const reference of found) {
+      const key = `${reference.kind}:${reference.namespace ?? ''}/${reference.name}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        references.push({ ...reference, line: lineOf(chunk, reference.command ?? reference.name) });
+      }
+    }
+  }
+
+  return references;
+}
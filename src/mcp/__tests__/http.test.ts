@@ -0,0 +1,156 @@
+/**
+ * Tests for the MCP Streamable HTTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdir, rm } from 'fs/promises';
+import { createMCPHttpHandler, runHttpServer, type MCPHttpServerOptions } from '../http';
+import { createMCPServer, type MCPServer } from '../server';
+
+const TEST_BASE_DIR = '.test-mcp-http';
+
+describe('MCP HTTP transport', () => {
+  let mcpServer: MCPServer;
+  let httpServer: Server;
+  let url: string;
+
+  async function listen(options: MCPHttpServerOptions = {}) {
+    httpServer = createServer(createMCPHttpHandler(mcpServer, options));
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  }
+
+  async function relisten(options: MCPHttpServerOptions) {
+    await new Promise((resolve) => httpServer.close(resolve));
+    await listen(options);
+  }
+
+  beforeEach(async () => {
+    await mkdir(TEST_BASE_DIR, { recursive: true });
+    mcpServer = createMCPServer({ baseDir: TEST_BASE_DIR });
+    await listen();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+    mcpServer.close();
+    await rm(TEST_BASE_DIR, { recursive: true, force: true });
+  });
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  const initializeMessage = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-06-18', capabilities: {} },
+  };
+
+  async function initialize(): Promise<string> {
+    const response = await post(initializeMessage);
+    return response.headers.get('mcp-session-id')!;
+  }
+
+  it('should issue a session on initialize and serve requests in it', async () => {
+    const sessionId = await initialize();
+    expect(sessionId).toBeTruthy();
+
+    const initialized = await post(
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    expect(initialized.status).toBe(202);
+    expect(await initialized.text()).toBe('');
+
+    const list = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    expect(list.status).toBe(200);
+    const body = (await list.json()) as { id: number; result: { tools: unknown[] } };
+    expect(body.id).toBe(2);
+    expect(body.result.tools.length).toBeGreaterThan(0);
+  });
+
+  it('should reject requests without a valid session', async () => {
+    const missing = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(missing.status).toBe(400);
+
+    const unknown = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'Mcp-Session-Id': 'nope' }
+    );
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should terminate sessions on DELETE', async () => {
+    const sessionId = await initialize();
+
+    const deleted = await fetch(url, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': sessionId },
+    });
+    expect(deleted.status).toBe(200);
+
+    const after = await post(
+      { jsonrpc: '2.0', id: 2, method: 'ping' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    expect(after.status).toBe(404);
+  });
+
+  it('should reject cross-origin browser requests', async () => {
+    const response = await post(
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+      { Origin: 'https://evil.example.com' }
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it('should not offer an SSE stream on GET', async () => {
+    const response = await fetch(url);
+    expect(response.status).toBe(405);
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    await relisten({ authToken: 's3cret' });
+
+    const anonymous = await post(initializeMessage);
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+    expect((await post(initializeMessage, { Authorization: 'Bearer wrong' })).status).toBe(401);
+
+    const authorized = await post(initializeMessage, { Authorization: 'Bearer s3cret' });
+    expect(authorized.status).toBe(200);
+    expect(authorized.headers.get('mcp-session-id')).toBeTruthy();
+  });
+
+  it('should refuse to serve a non-loopback host without a token', async () => {
+    await expect(
+      runHttpServer({ baseDir: TEST_BASE_DIR }, { host: '0.0.0.0', port: 0 })
+    ).rejects.toThrow('without an auth token');
+  });
+
+  it('should cap open sessions and expire idle ones', async () => {
+    await relisten({ maxSessions: 2, sessionIdleMs: 50 });
+
+    await initialize();
+    await initialize();
+    expect((await post(initializeMessage)).status).toBe(503);
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    expect((await post(initializeMessage)).status).toBe(200);
+  });
+});
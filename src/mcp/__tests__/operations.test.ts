@@ -0,0 +1,159 @@
+/**
+ * Tests for opt-in operational MCP tools
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { rm } from 'fs/promises';
+import { createOperationalTools } from '../operations';
+import { createMCPServer } from '../server';
+import { createCheckpoint, createCheckpointStore } from '../../session';
+import type { Tool } from '../../agent/types';
+
+const TEST_BASE_DIR = '.test-mcp-operations';
+
+const prometheusTool: Tool = {
+  name: 'prometheus',
+  description: `Query Prometheus for metrics.
+
+   Use for alerts.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', description: 'Action to perform', enum: ['query', 'alerts'] },
+      query: { type: 'string' },
+    },
+    required: ['action'],
+  },
+  execute: vi.fn(async () => ({ alerts: [{ name: 'HighErrorRate', state: 'firing' }] })),
+};
+
+const mutateTool: Tool = {
+  name: 'kubernetes_mutate',
+  description: 'Mutate the cluster',
+  parameters: { type: 'object', properties: {} },
+  execute: vi.fn(),
+};
+
+const registry = new Map([prometheusTool, mutateTool].map((tool) => [tool.name, tool]));
+
+describe('operational MCP tools', () => {
+  afterEach(async () => {
+    await rm(TEST_BASE_DIR, { recursive: true, force: true });
+  });
+
+  it('should expose nothing by default', async () => {
+    const server = createMCPServer({ baseDir: TEST_BASE_DIR });
+    await server.loadOperationalTools();
+
+    expect(server.getTools().map((tool) => tool.name)).not.toContain('investigate');
+    server.close();
+  });
+
+  it('should never expose tools outside the read-only allowlist', async () => {
+    const tools = await createOperationalTools({
+      baseDir: TEST_BASE_DIR,
+      exposeTools: ['kubernetes_mutate', 'aws_mutate', 'prometheus'],
+      getRegistryTool: async (name) => registry.get(name),
+    });
+
+    expect(Array.from(tools.keys())).toEqual(['prometheus']);
+  });
+
+  it('should wrap read-only registry tools', async () => {
+    const server = createMCPServer({
+      baseDir: TEST_BASE_DIR,
+      exposeTools: ['prometheus'],
+      operations: { getRegistryTool: async (name) => registry.get(name) },
+    });
+
+    const response = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const tools = (response?.result as { tools: Array<{ name: string; inputSchema: unknown }> })
+      .tools;
+    expect(tools.find((tool) => tool.name === 'prometheus')?.inputSchema).toEqual({
+      type: 'object',
+      properties: {
+        action: { type: 'string', description: 'Action to perform', enum: ['query', 'alerts'] },
+        query: { type: 'string', description: '' },
+      },
+      required: ['action'],
+    });
+
+    const result = await server.handleToolCall({
+      name: 'prometheus',
+      arguments: { action: 'alerts' },
+    });
+    expect(prometheusTool.execute).toHaveBeenCalledWith({ action: 'alerts' });
+    expect(result.content[0].text).toContain('HighErrorRate');
+    server.close();
+  });
+
+  it('should run investigations without executing remediation', async () => {
+    const runInvestigation = vi.fn(async () => ({
+      id: 'inv-1',
+      query: 'q',
+      rootCause: 'Connection pool exhausted after deploy',
+      confidence: 'high' as const,
+      affectedServices: ['checkout-api'],
+      summary: 'Errors began right after v2.3.1 rolled out.',
+      durationMs: 42000,
+      remediationPlan: {
+        steps: [
+          {
+            id: 's1',
+            action: 'Roll back checkout-api to v2.3.0',
+            description: 'Rollback',
+            command: 'kubectl rollout undo deployment/checkout-api',
+            riskLevel: 'high' as const,
+            requiresApproval: true,
+            status: 'pending' as const,
+          },
+        ],
+        monitoring: [],
+      },
+    }));
+    const server = createMCPServer({
+      baseDir: TEST_BASE_DIR,
+      exposeTools: ['investigate'],
+      operations: { runInvestigation },
+    });
+
+    const result = await server.handleToolCall({
+      name: 'investigate',
+      arguments: { incident_id: 'PD-123', query: 'checkout 5xx' },
+    });
+
+    expect(runInvestigation).toHaveBeenCalledWith(
+      'PD-123',
+      'Investigate incident PD-123: checkout 5xx',
+      { maxIterations: undefined }
+    );
+    const text = result.content[0].text;
+    expect(text).toContain('**Root cause:** Connection pool exhausted after deploy');
+    expect(text).toContain('Suggested Remediation (not executed)');
+    expect(text).toContain('1. Roll back checkout-api to v2.3.0 [risk: high, requires approval]');
+    server.close();
+  });
+
+  it('should list checkpoints', async () => {
+    const store = createCheckpointStore({ baseDir: TEST_BASE_DIR });
+    await store.save(
+      createCheckpoint('inv-42', {
+        query: 'Why is checkout failing?',
+        phase: 'hypothesize',
+        hypotheses: [],
+        confidence: 40,
+      })
+    );
+    const tools = await createOperationalTools({
+      baseDir: TEST_BASE_DIR,
+      exposeTools: ['list_checkpoints'],
+    });
+    const listCheckpoints = tools.get('list_checkpoints')!;
+
+    const all = await listCheckpoints.handle({});
+    expect(all.content[0].text).toContain('**inv-42**: 1 checkpoint(s)');
+
+    const single = await listCheckpoints.handle({ investigation_id: 'inv-42' });
+    expect(single.content[0].text).toContain('| hypothesize | 40% |');
+  });
+});
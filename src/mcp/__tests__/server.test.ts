@@ -281,6 +281,123 @@ Restart Redis pods during low traffic.
     });
   });
 
+  describe('resources', () => {
+    it('should list runbooks as resources', async () => {
+      const { resources } = await server.handleListResources();
+
+      const names = resources.map((r) => r.name);
+      expect(names).toContain('API Troubleshooting Guide');
+      expect(names).not.toContain('Redis Memory Spike Issue');
+
+      const api = resources.find((r) => r.name === 'API Troubleshooting Guide')!;
+      expect(api.uri).toMatch(/^runbook:\/\/runbook\//);
+      expect(api.mimeType).toBe('text/markdown');
+      expect(api.description).toBe('Runbook for api, gateway');
+    });
+
+    it('should read a resource by URI', async () => {
+      const resource = (await server.handleListResources()).resources.find(
+        (r) => r.name === 'API Troubleshooting Guide'
+      )!;
+
+      const result = await server.handleReadResource(resource.uri);
+
+      expect(result.contents[0].uri).toBe(resource.uri);
+      expect(result.contents[0].text).toContain('Verify database connections');
+    });
+
+    it('should reject unknown resource URIs', async () => {
+      const response = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'resources/read',
+        params: { uri: 'runbook://runbook/missing' },
+      });
+
+      expect(response?.error?.code).toBe(-32002);
+    });
+  });
+
+  describe('prompts', () => {
+    it('should list the investigate_incident prompt', () => {
+      const { prompts } = server.handleListPrompts();
+
+      expect(prompts.map((p) => p.name)).toContain('investigate_incident');
+    });
+
+    it('should build the prompt with matching runbooks attached', async () => {
+      const result = await server.handleGetPrompt('investigate_incident', {
+        incident: 'INC-42 API 500 errors',
+        service: 'api',
+      });
+
+      const [first, ...rest] = result.messages;
+      expect(first.content.type).toBe('text');
+      expect(first.content.type === 'text' && first.content.text).toContain(
+        'Affected service: api'
+      );
+      expect(rest.length).toBeGreaterThan(0);
+      expect(rest[0].content.type).toBe('resource');
+    });
+
+    it('should require the incident argument', async () => {
+      const response = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 8,
+        method: 'prompts/get',
+        params: { name: 'investigate_incident', arguments: {} },
+      });
+
+      expect(response?.error?.code).toBe(-32602);
+      expect(response?.error?.message).toContain('incident');
+    });
+  });
+
+  describe('handleMessage', () => {
+    it('should negotiate the protocol version and advertise capabilities', async () => {
+      const response = await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {} },
+      });
+
+      expect(response?.result).toMatchObject({
+        protocolVersion: '2025-03-26',
+        capabilities: { tools: {}, resources: {}, prompts: {} },
+      });
+    });
+
+    it('should not answer notifications', async () => {
+      expect(
+        await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      ).toBeNull();
+      expect(
+        await server.handleMessage({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: 3 },
+        })
+      ).toBeNull();
+    });
+
+    it('should return method not found for unknown requests', async () => {
+      const response = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'foo/bar' });
+
+      expect(response).toEqual({
+        jsonrpc: '2.0',
+        id: 2,
+        error: { code: -32601, message: 'Method not found: foo/bar' },
+      });
+    });
+
+    it('should reject malformed messages', async () => {
+      const response = await server.handleMessage({ id: 3, method: 'ping' });
+
+      expect(response?.error?.code).toBe(-32600);
+    });
+  });
+
   describe('handleListTools', () => {
     it('should return tools list in MCP format', () => {
       const result = server.handleListTools();
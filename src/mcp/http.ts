@@ -0,0 +1,236 @@
+/**
+ * MCP Streamable HTTP Transport
+ *
+ * Serves MCP over a single `/mcp` endpoint: clients POST JSON-RPC messages
+ * and receive JSON responses. The server never initiates requests, so no
+ * SSE stream is offered on GET. With an auth token every `/mcp` request must
+ * carry it as a bearer token; without one the server only binds to loopback.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import {
+  createMCPServer,
+  JSON_RPC_ERRORS,
+  type JsonRpcResponse,
+  type MCPServer,
+  type MCPServerConfig,
+} from './server';
+
+export interface MCPHttpServerOptions {
+  port?: number;
+  host?: string;
+  /** Additional allowed Origin values; localhost origins are always allowed */
+  allowedOrigins?: string[];
+  /** Bearer token clients must send; required to bind a non-loopback host */
+  authToken?: string;
+  /** Open sessions allowed at once (default: 100) */
+  maxSessions?: number;
+  /** Sessions unused this long are dropped (default: 30 minutes) */
+  sessionIdleMs?: number;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_MAX_SESSIONS = 100;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/**
+ * Whether a host only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  const normalized = host.replace(/^\[|\]$/g, '').toLowerCase();
+  return normalized === 'localhost' || normalized === '::1' || /^127\./.test(normalized);
+}
+
+function hasBearerToken(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  // Hash both sides so the comparison takes the same time whatever the length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+function isAllowedOrigin(origin: string | undefined, allowedOrigins: string[]): boolean {
+  // Non-browser clients don't send Origin; browsers always do
+  if (!origin) return true;
+  if (allowedOrigins.includes(origin)) return true;
+  try {
+    const { hostname } = new URL(origin);
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+  } catch {
+    return false;
+  }
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', id: null, error: { code, message } });
+}
+
+/**
+ * Create the HTTP request handler for an MCP server
+ */
+export function createMCPHttpHandler(server: MCPServer, options: MCPHttpServerOptions = {}) {
+  // Session ID to when it was last used
+  const sessions = new Map<string, number>();
+  const allowedOrigins = options.allowedOrigins || [];
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+
+  const expireIdleSessions = () => {
+    const cutoff = Date.now() - sessionIdleMs;
+    for (const [id, lastUsed] of sessions) {
+      if (lastUsed < cutoff) sessions.delete(id);
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const path = (req.url || '/').split('?')[0];
+
+    if (path === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+
+    if (path !== '/mcp') {
+      res.writeHead(404);
+      res.end('Not found');
+      return;
+    }
+
+    // Guard against DNS rebinding from browser pages
+    if (!isAllowedOrigin(req.headers.origin, allowedOrigins)) {
+      sendError(res, 403, JSON_RPC_ERRORS.INVALID_REQUEST, 'Origin not allowed');
+      return;
+    }
+
+    if (options.authToken && !hasBearerToken(req.headers.authorization, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, JSON_RPC_ERRORS.INVALID_REQUEST, 'Missing or invalid bearer token');
+      return;
+    }
+
+    expireIdleSessions();
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+
+    if (req.method === 'DELETE') {
+      if (!sessionId || !sessions.delete(sessionId)) {
+        sendError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found');
+        return;
+      }
+      res.writeHead(200);
+      res.end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST, DELETE' });
+      res.end('Method not allowed');
+      return;
+    }
+
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        sendError(res, 413, JSON_RPC_ERRORS.INVALID_REQUEST, 'Request body too large');
+        return;
+      }
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch (error) {
+      sendError(
+        res,
+        400,
+        JSON_RPC_ERRORS.PARSE_ERROR,
+        `Parse error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return;
+    }
+
+    const messages = Array.isArray(payload) ? payload : [payload];
+    const isInitialize = messages.some(
+      (message) => (message as { method?: string } | null)?.method === 'initialize'
+    );
+
+    if (!isInitialize) {
+      if (!sessionId) {
+        sendError(res, 400, JSON_RPC_ERRORS.INVALID_REQUEST, 'Missing Mcp-Session-Id header');
+        return;
+      }
+      if (!sessions.has(sessionId)) {
+        sendError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found');
+        return;
+      }
+      sessions.set(sessionId, Date.now());
+    } else if (sessions.size >= maxSessions) {
+      sendError(res, 503, JSON_RPC_ERRORS.INVALID_REQUEST, 'Too many open sessions');
+      return;
+    }
+
+    const responses: JsonRpcResponse[] = [];
+    for (const message of messages) {
+      const response = await server.handleMessage(message);
+      if (response) responses.push(response);
+    }
+
+    // Only notifications or client responses: acknowledge without a body
+    if (responses.length === 0) {
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    if (isInitialize && responses.some((response) => response.result)) {
+      const newSessionId = randomUUID();
+      sessions.set(newSessionId, Date.now());
+      headers['Mcp-Session-Id'] = newSessionId;
+    }
+
+    sendJson(res, 200, Array.isArray(payload) ? responses : responses[0], headers);
+  };
+}
+
+/**
+ * Run the MCP server over Streamable HTTP
+ */
+export async function runHttpServer(
+  config?: Partial<MCPServerConfig>,
+  options: MCPHttpServerOptions = {}
+): Promise<Server> {
+  const port = options.port ?? 3100;
+  const host = options.host || '127.0.0.1';
+  if (!options.authToken && !isLoopbackHost(host)) {
+    throw new Error(
+      `Refusing to serve MCP on ${host} without an auth token; set mcp.http.authToken or RUNBOOK_MCP_TOKEN`
+    );
+  }
+  const server = createMCPServer(config);
+  const httpServer = createServer(createMCPHttpHandler(server, options));
+
+  httpServer.on('close', () => server.close());
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.on('error', reject);
+    httpServer.listen(port, host, () => {
+      console.log(`MCP server listening on http://${host}:${port}/mcp`);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
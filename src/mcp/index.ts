@@ -6,11 +6,27 @@ export {
   MCPServer,
   createMCPServer,
   runStdioServer,
+  toResourceUri,
   MCP_TOOLS,
+  MCP_PROMPTS,
+  JSON_RPC_ERRORS,
+  SUPPORTED_PROTOCOL_VERSIONS,
   type MCPTool,
   type MCPToolCallRequest,
   type MCPToolCallResponse,
   type MCPResource,
   type MCPResourceReadResponse,
+  type MCPPrompt,
+  type MCPPromptGetResponse,
   type MCPServerConfig,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
 } from './server';
+export {
+  createOperationalTools,
+  runReadOnlyInvestigation,
+  OPERATIONAL_MCP_TOOLS,
+  type OperationalMCPToolName,
+  type OperationalToolsConfig,
+} from './operations';
+export { createMCPHttpHandler, runHttpServer, type MCPHttpServerOptions } from './http';
@@ -0,0 +1,396 @@
+/**
+ * Opt-in Operational MCP Tools
+ *
+ * Exposes structured investigations, read-only infrastructure queries and
+ * checkpoint listing over MCP. Nothing here is exposed unless listed in
+ * `mcp.exposeTools`, and only tools in the read-only allowlist can be
+ * exposed; mutation tools are never served.
+ */
+
+import type { Tool, ToolParameterProperty } from '../agent/types';
+import type { InvestigationResult } from '../agent/investigation-orchestrator';
+import type { TriageInput } from '../agent/alert-sources';
+import { createCheckpointStore, formatCheckpointList } from '../session';
+import { auditToolCall } from '../audit';
+import type { MCPPropertySchema, MCPTool, MCPToolCallResponse } from './server';
+
+/**
+ * Operational tools that may be exposed over MCP
+ */
+export const OPERATIONAL_MCP_TOOLS = [
+  'investigate',
+  'aws_query',
+  'kubernetes_query',
+  'cloudwatch_logs',
+  'prometheus',
+  'list_checkpoints',
+] as const;
+
+export type OperationalMCPToolName = (typeof OPERATIONAL_MCP_TOOLS)[number];
+
+/**
+ * Registry tools wrapped as-is
+ */
+const WRAPPED_REGISTRY_TOOLS = new Set<string>([
+  'aws_query',
+  'kubernetes_query',
+  'cloudwatch_logs',
+  'prometheus',
+]);
+
+/**
+ * Tools an MCP-started investigation may call. Remediation is planned but
+ * never executed, and no mutation tool is reachable.
+ */
+const INVESTIGATION_READ_ONLY_TOOLS = new Set<string>([
+  'aws_query',
+  'cloudwatch_alarms',
+  'cloudwatch_logs',
+  'kubernetes_query',
+  'prometheus',
+  'datadog',
+  'search_knowledge',
+  'pagerduty_get_incident',
+  'pagerduty_list_incidents',
+  'opsgenie_get_alert',
+  'opsgenie_list_alerts',
+  'opsgenie_get_incident',
+  'opsgenie_list_incidents',
+  'github_query',
+  'gitlab_query',
+]);
+
+const MAX_RESULT_CHARS = 50000;
+
+export type InvestigationRunner = (
+  incidentId: string,
+  query: string,
+  options: {
+    maxIterations?: number;
+    /** Normalized alert to seed triage with */
+    triageInput?: TriageInput;
+    /** Save checkpoints so the run can be resumed with `investigate --resume` */
+    checkpoint?: boolean;
+  }
+) => Promise<InvestigationResult>;
+
+export interface OperationalToolsConfig {
+  baseDir: string;
+  exposeTools: string[];
+  /** Override how registry tools are resolved (defaults to the tool registry) */
+  getRegistryTool?: (name: string) => Promise<Tool | undefined>;
+  /** Override how investigations run (defaults to the structured orchestrator) */
+  runInvestigation?: InvestigationRunner;
+}
+
+interface OperationalTool {
+  definition: MCPTool;
+  handle: (args: Record<string, unknown>) => Promise<MCPToolCallResponse>;
+}
+
+function textResponse(text: string, isError = false): MCPToolCallResponse {
+  return { content: [{ type: 'text', text }], ...(isError && { isError }) };
+}
+
+function toPropertySchema(property: ToolParameterProperty): MCPPropertySchema {
+  return {
+    type: property.type as MCPPropertySchema['type'],
+    description: property.description || '',
+    ...(property.enum && { enum: property.enum }),
+    ...(property.items && { items: toPropertySchema(property.items) }),
+  };
+}
+
+function formatToolResult(result: unknown): string {
+  const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+  if (text.length <= MAX_RESULT_CHARS) {
+    return text;
+  }
+  return `${text.slice(0, MAX_RESULT_CHARS)}\n\n_[Result truncated at ${MAX_RESULT_CHARS} characters]_`;
+}
+
+async function getRegistryTool(name: string): Promise<Tool | undefined> {
+  // Loaded lazily so knowledge-only servers don't pull in the provider SDKs
+  const { toolRegistry } = await import('../tools/registry');
+  return toolRegistry.get(name);
+}
+
+/**
+ * Run a structured investigation restricted to read-only tools
+ */
+export const runReadOnlyInvestigation: InvestigationRunner = async (incidentId, query, options) => {
+  const [
+    { loadConfig, validateConfig },
+    { createLLMClient },
+    { toolRegistry },
+    { getRuntimeTools },
+    { createOrchestrator },
+    { createRetriever },
+    { loadServiceGraph },
+    { ServiceContextManager },
+  ] = await Promise.all([
+    import('../utils/config'),
+    import('../model/llm'),
+    import('../tools/registry'),
+    import('../cli/runtime-tools'),
+    import('../agent/investigation-orchestrator'),
+    import('../knowledge/retriever'),
+    import('../knowledge/store/graph-sqlite'),
+    import('../agent/service-context'),
+  ]);
+
+  const config = await loadConfig();
+  const configErrors = validateConfig(config);
+  if (configErrors.length > 0) {
+    throw new Error(`Configuration errors: ${configErrors.join('; ')}`);
+  }
+
+  const llm = createLLMClient({
+    provider: config.llm.provider,
+    model: config.llm.model,
+    apiKey: config.llm.apiKey,
+  });
+  const runtimeTools = (await getRuntimeTools(config, toolRegistry.getAll())).filter((tool) =>
+    INVESTIGATION_READ_ONLY_TOOLS.has(tool.name)
+  );
+  const toolsByName = new Map(runtimeTools.map((tool) => [tool.name, tool]));
+
+  const orchestrator = createOrchestrator(
+    {
+      complete: async (prompt: string) => {
+        const response = await llm.chat(
+          'You are an SRE investigator. Return only valid JSON matching the requested schema.',
+          prompt
+        );
+        return response.content;
+      },
+    },
+    {
+      execute: async (toolName: string, parameters: Record<string, unknown>) => {
+        const tool = toolsByName.get(toolName);
+        if (!tool) {
+          throw new Error(`Tool not available to MCP investigations: ${toolName}`);
+        }
+        return tool.execute(parameters);
+      },
+    },
+    {
+      incidentId,
+      maxIterations: options.maxIterations ?? config.agent.maxIterations,
+      autoApproveRemediation: false,
+      availableTools: runtimeTools.map((tool) => tool.name),
+      fetchRelevantRunbooks: async (context) => {
+        const retriever = createRetriever();
+        try {
+          const results = await retriever.search(
+            [context.rootCause, ...context.affectedServices].join(' ').trim() || incidentId,
+            {
+              typeFilter: ['runbook'],
+              serviceFilter:
+                context.affectedServices.length > 0 ? context.affectedServices : undefined,
+              limit: 12,
+            }
+          );
+          return Array.from(new Set(results.runbooks.map((runbook) => runbook.title))).slice(0, 8);
+        } finally {
+          retriever.close();
+        }
+      },
+      fetchServiceContext: async (services: string[]) => {
+        const graph = loadServiceGraph();
+        if (graph.getAllServices().length === 0) {
+          return '';
+        }
+        const serviceContext = new ServiceContextManager(graph);
+        await serviceContext.getContextsForServices(services);
+        return serviceContext.buildServiceContextSection();
+      },
+      triageInput: options.triageInput,
+      checkpointStore: options.checkpoint ? createCheckpointStore() : undefined,
+    }
+  );
+
+  return orchestrator.investigate(query);
+};
+
+function formatInvestigationResult(incidentId: string, result: InvestigationResult): string {
+  const lines: string[] = [`## Investigation: ${incidentId}\n`];
+
+  lines.push(`**Root cause:** ${result.rootCause || 'Not determined'}`);
+  if (result.confidence) {
+    lines.push(`**Confidence:** ${result.confidence}`);
+  }
+  if (result.affectedServices && result.affectedServices.length > 0) {
+    lines.push(`**Affected services:** ${result.affectedServices.join(', ')}`);
+  }
+  lines.push(`**Duration:** ${Math.round(result.durationMs / 1000)}s\n`);
+  lines.push(result.summary);
+
+  const steps = result.remediationPlan?.steps || [];
+  if (steps.length > 0) {
+    lines.push('\n### Suggested Remediation (not executed)\n');
+    steps.forEach((step, index) => {
+      lines.push(
+        `${index + 1}. ${step.action} [risk: ${step.riskLevel}${step.requiresApproval ? ', requires approval' : ''}]`
+      );
+      if (step.command) {
+        lines.push(`   \`${step.command}\``);
+      }
+    });
+  }
+
+  return lines.join('\n');
+}
+
+function createInvestigateTool(runInvestigation: InvestigationRunner): OperationalTool {
+  return {
+    definition: {
+      name: 'investigate',
+      description:
+        'Run a structured RunbookAI investigation (triage, hypotheses, evidence, root cause) using read-only infrastructure queries. Remediation is suggested but never executed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          incident_id: {
+            type: 'string',
+            description: 'Incident ID (PagerDuty, OpsGenie) or a short incident label',
+          },
+          query: {
+            type: 'string',
+            description: 'Optional description of the problem to focus the investigation',
+          },
+          max_iterations: {
+            type: 'number',
+            description: 'Maximum investigation iterations (default: agent.maxIterations)',
+          },
+        },
+        required: ['incident_id'],
+      },
+    },
+    handle: async (args) => {
+      const incidentId = String(args.incident_id || '').trim();
+      if (!incidentId) {
+        return textResponse('incident_id is required', true);
+      }
+      const query =
+        typeof args.query === 'string' && args.query.trim()
+          ? `Investigate incident ${incidentId}: ${args.query.trim()}`
+          : `Investigate incident ${incidentId}. Identify the root cause with supporting evidence.`;
+
+      const result = await runInvestigation(incidentId, query, {
+        maxIterations: typeof args.max_iterations === 'number' ? args.max_iterations : undefined,
+      });
+      return textResponse(formatInvestigationResult(incidentId, result));
+    },
+  };
+}
+
+function createListCheckpointsTool(baseDir: string): OperationalTool {
+  return {
+    definition: {
+      name: 'list_checkpoints',
+      description:
+        'List saved investigation checkpoints, either for one investigation or across all investigations.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          investigation_id: {
+            type: 'string',
+            description: 'Investigation ID to list checkpoints for (omit to list investigations)',
+          },
+        },
+      },
+    },
+    handle: async (args) => {
+      const store = createCheckpointStore({ baseDir });
+
+      if (typeof args.investigation_id === 'string' && args.investigation_id) {
+        const checkpoints = await store.list(args.investigation_id);
+        return textResponse(
+          checkpoints.length === 0
+            ? `No checkpoints found for investigation: ${args.investigation_id}`
+            : `## Checkpoints for ${args.investigation_id}\n\n${formatCheckpointList(checkpoints)}`
+        );
+      }
+
+      const investigations = await store.listInvestigations();
+      if (investigations.length === 0) {
+        return textResponse('No investigations with checkpoints found.');
+      }
+
+      const lines = ['## Investigations with Checkpoints\n'];
+      for (const investigation of investigations) {
+        const latest = investigation.latestCheckpoint;
+        lines.push(
+          `- **${investigation.investigationId}**: ${investigation.checkpointCount} checkpoint(s)${
+            latest
+              ? `, latest ${latest.phase} (${latest.confidence}% confidence) at ${latest.createdAt}`
+              : ''
+          }`
+        );
+      }
+      return textResponse(lines.join('\n'));
+    },
+  };
+}
+
+async function createRegistryTool(
+  name: string,
+  resolveTool: (name: string) => Promise<Tool | undefined>
+): Promise<OperationalTool | null> {
+  const tool = await resolveTool(name);
+  if (!tool) {
+    return null;
+  }
+
+  return {
+    definition: {
+      name: tool.name,
+      description: tool.description.replace(/\n\s+/g, '\n').trim(),
+      inputSchema: {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(tool.parameters.properties).map(([key, property]) => [
+            key,
+            toPropertySchema(property),
+          ])
+        ),
+        ...(tool.parameters.required && { required: tool.parameters.required }),
+      },
+    },
+    handle: async (args) =>
+      textResponse(
+        formatToolResult(await auditToolCall(tool.name, args, () => tool.execute(args)))
+      ),
+  };
+}
+
+/**
+ * Build the operational tools enabled by configuration. Unknown names and
+ * anything outside the read-only allowlist are ignored.
+ */
+export async function createOperationalTools(
+  config: OperationalToolsConfig
+): Promise<Map<string, OperationalTool>> {
+  const tools = new Map<string, OperationalTool>();
+  const resolveTool = config.getRegistryTool || getRegistryTool;
+
+  for (const name of config.exposeTools) {
+    if (!(OPERATIONAL_MCP_TOOLS as readonly string[]).includes(name) || tools.has(name)) {
+      continue;
+    }
+
+    if (name === 'investigate') {
+      tools.set(name, createInvestigateTool(config.runInvestigation || runReadOnlyInvestigation));
+    } else if (name === 'list_checkpoints') {
+      tools.set(name, createListCheckpointsTool(config.baseDir));
+    } else if (WRAPPED_REGISTRY_TOOLS.has(name)) {
+      const tool = await createRegistryTool(name, resolveTool);
+      if (tool) {
+        tools.set(name, tool);
+      }
+    }
+  }
+
+  return tools;
+}
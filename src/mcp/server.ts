@@ -7,6 +7,7 @@
 
 import { createRetriever, KnowledgeRetriever } from '../knowledge/retriever/index';
 import type { RetrievedChunk, KnowledgeType } from '../knowledge/types';
+import { createOperationalTools, type OperationalToolsConfig } from './operations';
 
 /**
  * MCP Tool definition
@@ -69,6 +70,84 @@ export interface MCPResourceReadResponse {
   }>;
 }
 
+/**
+ * MCP Prompt definition
+ */
+export interface MCPPrompt {
+  name: string;
+  description: string;
+  arguments: Array<{
+    name: string;
+    description: string;
+    required?: boolean;
+  }>;
+}
+
+/**
+ * MCP Prompt get response
+ */
+export interface MCPPromptGetResponse {
+  description: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content:
+      | { type: 'text'; text: string }
+      | { type: 'resource'; resource: MCPResourceReadResponse['contents'][number] };
+  }>;
+}
+
+/**
+ * JSON-RPC 2.0 message as received by a transport
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC 2.0 response
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * JSON-RPC / MCP error codes
+ */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
+/**
+ * Protocol versions this server can speak, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * Knowledge types served as MCP resources
+ */
+const RESOURCE_TYPES: KnowledgeType[] = ['runbook', 'postmortem'];
+
+class MCPRequestError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MCPRequestError';
+  }
+}
+
 /**
  * Available MCP tools
  */
@@ -175,15 +254,68 @@ export const MCP_TOOLS: MCPTool[] = [
   },
 ];
 
+/**
+ * Available MCP prompts
+ */
+export const MCP_PROMPTS: MCPPrompt[] = [
+  {
+    name: 'investigate_incident',
+    description:
+      'Investigate a production incident using RunbookAI runbooks, known issues and past postmortems.',
+    arguments: [
+      {
+        name: 'incident',
+        description: 'Incident ID, alert title, or a short description of what is happening',
+        required: true,
+      },
+      {
+        name: 'service',
+        description: 'Affected service, if known',
+      },
+      {
+        name: 'symptoms',
+        description: 'Observed symptoms (e.g., "5xx spike, high latency")',
+      },
+    ],
+  },
+];
+
+/**
+ * Build the resource URI for a knowledge document
+ */
+export function toResourceUri(type: KnowledgeType, id: string): string {
+  return `runbook://${type}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Parse a resource URI into its knowledge type and document ID
+ */
+function parseResourceUri(uri: string): { type: KnowledgeType; id: string } | null {
+  const match = uri.match(/^runbook:\/\/([a-z_]+)\/(.+)$/);
+  if (!match || !RESOURCE_TYPES.includes(match[1] as KnowledgeType)) {
+    return null;
+  }
+  try {
+    return { type: match[1] as KnowledgeType, id: decodeURIComponent(match[2]) };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * MCP Server configuration
  */
 export interface MCPServerConfig {
   baseDir: string;
+  /** Opt-in operational tools (see OPERATIONAL_MCP_TOOLS) */
+  exposeTools: string[];
+  /** Dependency overrides for operational tools */
+  operations?: Pick<OperationalToolsConfig, 'getRegistryTool' | 'runInvestigation'>;
 }
 
 const DEFAULT_CONFIG: MCPServerConfig = {
   baseDir: '.runbook',
+  exposeTools: [],
 };
 
 /**
@@ -386,16 +518,37 @@ async function handleListServices(
 export class MCPServer {
   private config: MCPServerConfig;
   private retriever: KnowledgeRetriever | null = null;
+  private operationalTools: Awaited<ReturnType<typeof createOperationalTools>> = new Map();
+  private operationalToolsLoaded: Promise<void> | null = null;
 
   constructor(config: Partial<MCPServerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
   /**
-   * Get available tools
+   * Get available tools. Operational tools are included once loaded.
    */
   getTools(): MCPTool[] {
-    return MCP_TOOLS;
+    return [
+      ...MCP_TOOLS,
+      ...Array.from(this.operationalTools.values()).map((tool) => tool.definition),
+    ];
+  }
+
+  /**
+   * Load the operational tools enabled by `exposeTools`
+   */
+  async loadOperationalTools(): Promise<void> {
+    if (!this.operationalToolsLoaded) {
+      this.operationalToolsLoaded = createOperationalTools({
+        baseDir: this.config.baseDir,
+        exposeTools: this.config.exposeTools,
+        ...this.config.operations,
+      }).then((tools) => {
+        this.operationalTools = tools;
+      });
+    }
+    await this.operationalToolsLoaded;
   }
 
   /**
@@ -415,6 +568,12 @@ export class MCPServer {
     const retriever = this.getRetriever();
 
     try {
+      await this.loadOperationalTools();
+      const operationalTool = this.operationalTools.get(request.name);
+      if (operationalTool) {
+        return await operationalTool.handle(request.arguments);
+      }
+
       switch (request.name) {
         case 'search_runbooks':
           return await handleSearchRunbooks(request.arguments, retriever);
@@ -457,6 +616,236 @@ export class MCPServer {
     return { tools: this.getTools() };
   }
 
+  /**
+   * Handle resources/list request
+   */
+  async handleListResources(): Promise<{ resources: MCPResource[] }> {
+    const retriever = this.getRetriever();
+    await retriever.ensureInitialized();
+
+    const resources = retriever
+      .getAllDocuments()
+      .filter((doc) => RESOURCE_TYPES.includes(doc.type))
+      .sort((a, b) => a.type.localeCompare(b.type) || a.title.localeCompare(b.title))
+      .map((doc) => ({
+        uri: toResourceUri(doc.type, doc.id),
+        name: doc.title,
+        description: `${doc.type === 'runbook' ? 'Runbook' : 'Postmortem'}${
+          doc.services.length > 0 ? ` for ${doc.services.join(', ')}` : ''
+        }`,
+        mimeType: 'text/markdown',
+      }));
+
+    return { resources };
+  }
+
+  /**
+   * Handle resources/read request
+   */
+  async handleReadResource(uri: string): Promise<MCPResourceReadResponse> {
+    const retriever = this.getRetriever();
+    await retriever.ensureInitialized();
+
+    const parsed = parseResourceUri(uri);
+    const doc = parsed
+      ? retriever
+          .getAllDocuments()
+          .find((candidate) => candidate.id === parsed.id && candidate.type === parsed.type)
+      : undefined;
+
+    if (!doc) {
+      throw new MCPRequestError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+
+    return {
+      contents: [{ uri, mimeType: 'text/markdown', text: doc.content }],
+    };
+  }
+
+  /**
+   * Handle prompts/list request
+   */
+  handleListPrompts(): { prompts: MCPPrompt[] } {
+    return { prompts: MCP_PROMPTS };
+  }
+
+  /**
+   * Handle prompts/get request
+   */
+  async handleGetPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<MCPPromptGetResponse> {
+    const prompt = MCP_PROMPTS.find((candidate) => candidate.name === name);
+    if (!prompt) {
+      throw new MCPRequestError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown prompt: ${name}`);
+    }
+    for (const argument of prompt.arguments) {
+      if (argument.required && !args[argument.name]) {
+        throw new MCPRequestError(
+          JSON_RPC_ERRORS.INVALID_PARAMS,
+          `Missing required argument: ${argument.name}`
+        );
+      }
+    }
+
+    const { incident, service, symptoms } = args;
+    const lines = [`Investigate this incident: ${incident}`];
+    if (service) lines.push(`Affected service: ${service}`);
+    if (symptoms) lines.push(`Observed symptoms: ${symptoms}`);
+    lines.push(
+      '',
+      'Use the RunbookAI tools to ground the investigation:',
+      '1. Call `get_known_issues` for the affected services and symptoms.',
+      '2. Call `search_runbooks` for the symptoms and follow the most relevant runbook.',
+      '3. Call `search_postmortems` to find similar past incidents and their root causes.',
+      '',
+      'Then list the most likely hypotheses with the evidence for each, the next checks to run,',
+      'and any remediation steps the runbooks recommend. Call out anything that needs approval',
+      'before it is executed.'
+    );
+
+    const messages: MCPPromptGetResponse['messages'] = [
+      {
+        role: 'user',
+        content: { type: 'text', text: lines.join('\n') },
+      },
+    ];
+
+    // Attach the best matching runbooks so the client starts with context
+    const query = [incident, service, symptoms].filter(Boolean).join(' ');
+    const knowledge = await this.getRetriever().search(query, {
+      typeFilter: ['runbook'],
+      serviceFilter: service ? [service] : undefined,
+      limit: 2,
+    });
+    const seen = new Set<string>();
+    for (const chunk of knowledge.runbooks) {
+      if (seen.has(chunk.documentId)) continue;
+      seen.add(chunk.documentId);
+      messages.push({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: toResourceUri('runbook', chunk.documentId),
+            mimeType: 'text/markdown',
+            text: chunk.content,
+          },
+        },
+      });
+    }
+
+    return {
+      description: `Investigate incident: ${incident}`,
+      messages,
+    };
+  }
+
+  /**
+   * Handle a JSON-RPC message from any transport.
+   * Returns null for notifications, which must never be answered.
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    if (
+      !message ||
+      typeof message !== 'object' ||
+      (message as JsonRpcMessage).jsonrpc !== '2.0' ||
+      typeof (message as JsonRpcMessage).method !== 'string'
+    ) {
+      const id = (message as JsonRpcMessage | null)?.id ?? null;
+      // Responses from the client (e.g. to pings) carry no method; nothing to answer
+      if (message && typeof message === 'object' && ('result' in message || 'error' in message)) {
+        return null;
+      }
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Invalid request' },
+      };
+    }
+
+    const { id, method, params = {} } = message as JsonRpcMessage & { method: string };
+    const isNotification = id === undefined;
+
+    if (isNotification) {
+      // notifications/initialized, notifications/cancelled, etc. need no reply
+      return null;
+    }
+
+    try {
+      return { jsonrpc: '2.0', id, result: await this.dispatch(method, params) };
+    } catch (error) {
+      if (error instanceof MCPRequestError) {
+        return { jsonrpc: '2.0', id, error: { code: error.code, message: error.message } };
+      }
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: JSON_RPC_ERRORS.INTERNAL_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = String(params.protocolVersion || '');
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0],
+          serverInfo: {
+            name: 'runbook-ai',
+            version: '1.0.0',
+          },
+          capabilities: {
+            tools: {},
+            resources: {},
+            prompts: {},
+          },
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        await this.loadOperationalTools();
+        return this.handleListTools();
+      case 'tools/call':
+        if (typeof params.name !== 'string') {
+          throw new MCPRequestError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Missing tool name');
+        }
+        return this.handleToolCall({
+          name: params.name,
+          arguments: (params.arguments as Record<string, unknown>) || {},
+        });
+      case 'resources/list':
+        return this.handleListResources();
+      case 'resources/templates/list':
+        return { resourceTemplates: [] };
+      case 'resources/read':
+        if (typeof params.uri !== 'string') {
+          throw new MCPRequestError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Missing resource uri');
+        }
+        return this.handleReadResource(params.uri);
+      case 'prompts/list':
+        return this.handleListPrompts();
+      case 'prompts/get':
+        if (typeof params.name !== 'string') {
+          throw new MCPRequestError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Missing prompt name');
+        }
+        return this.handleGetPrompt(
+          params.name,
+          (params.arguments as Record<string, string>) || {}
+        );
+      default:
+        throw new MCPRequestError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
   /**
    * Close the server and clean up resources
    */
@@ -490,64 +879,28 @@ export async function runStdioServer(config?: Partial<MCPServerConfig>): Promise
 
   // Handle JSON-RPC messages
   rl.on('line', async (line) => {
-    try {
-      const message = JSON.parse(line);
-      let response: unknown;
-
-      if (message.method === 'tools/list') {
-        response = {
-          jsonrpc: '2.0',
-          id: message.id,
-          result: server.handleListTools(),
-        };
-      } else if (message.method === 'tools/call') {
-        const result = await server.handleToolCall({
-          name: message.params.name,
-          arguments: message.params.arguments || {},
-        });
-        response = {
-          jsonrpc: '2.0',
-          id: message.id,
-          result,
-        };
-      } else if (message.method === 'initialize') {
-        response = {
-          jsonrpc: '2.0',
-          id: message.id,
-          result: {
-            protocolVersion: '2024-11-05',
-            serverInfo: {
-              name: 'runbook-ai',
-              version: '1.0.0',
-            },
-            capabilities: {
-              tools: {},
-            },
-          },
-        };
-      } else {
-        response = {
-          jsonrpc: '2.0',
-          id: message.id,
-          error: {
-            code: -32601,
-            message: `Method not found: ${message.method}`,
-          },
-        };
-      }
+    if (!line.trim()) return;
 
-      console.log(JSON.stringify(response));
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
     } catch (error) {
       console.log(
         JSON.stringify({
           jsonrpc: '2.0',
           id: null,
           error: {
-            code: -32700,
+            code: JSON_RPC_ERRORS.PARSE_ERROR,
             message: `Parse error: ${error instanceof Error ? error.message : String(error)}`,
           },
         })
       );
+      return;
+    }
+
+    const response = await server.handleMessage(message);
+    if (response) {
+      console.log(JSON.stringify(response));
     }
   });
 
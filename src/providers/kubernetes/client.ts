@@ -491,6 +491,21 @@ export class KubernetesClient {
     return parseKubectlJson<T>(result.stdout);
   }
 
+  /**
+   * List resources of a type across all namespaces
+   */
+  async listAllNamespaces<T = unknown>(resourceType: KubernetesResourceType): Promise<T[]> {
+    const result = await kubectl(['get', resourceType, '--all-namespaces', '-o', 'json'], {
+      ...this.config,
+      namespace: undefined,
+    });
+
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.trim() || `kubectl get ${resourceType} failed`);
+    }
+    return parseKubectlJson<{ items: T[] }>(result.stdout)?.items || [];
+  }
+
   /**
    * Scale a deployment
    */
@@ -627,6 +642,12 @@ export class KubernetesClient {
         if (this.config.context) {
           cmdArgs.unshift('--context', this.config.context);
         }
+        if (this.config.namespace) {
+          cmdArgs.unshift('--namespace', this.config.namespace);
+        }
+        if (this.config.kubeconfig) {
+          cmdArgs.unshift('--kubeconfig', this.config.kubeconfig);
+        }
 
         const proc = spawn('kubectl', cmdArgs, {
           env: process.env,
@@ -10,12 +10,17 @@ import {
   CheckpointStore,
   createCheckpointStore,
   createCheckpoint,
+  createCheckpointFromSnapshot,
+  diffCheckpoints,
+  forkCheckpoint,
+  formatCheckpointDiff,
   generateCheckpointId,
   formatCheckpoint,
   formatCheckpointList,
   type InvestigationCheckpoint,
   type CheckpointListEntry,
 } from '../checkpoint';
+import { InvestigationStateMachine } from '../../agent/state-machine';
 
 const TEST_BASE_DIR = '.test-checkpoints';
 
@@ -123,6 +128,187 @@ describe('createCheckpoint', () => {
   });
 });
 
+describe('createCheckpointFromSnapshot', () => {
+  it('should summarize the snapshot and keep it for resuming', () => {
+    const machine = new InvestigationStateMachine('Why is checkout failing?');
+    machine.start();
+    machine.setTriageResult({
+      summary: 'Checkout errors',
+      affectedServices: ['checkout'],
+      symptoms: ['5xx spike'],
+      errorMessages: [],
+      severity: 'high',
+      timeWindow: { start: new Date(), end: new Date() },
+    });
+    machine.transitionTo('hypothesize', 'Triage complete');
+    const hypothesis = machine.addHypothesis({
+      statement: 'Payment provider timeouts',
+      category: 'dependency',
+      priority: 1,
+      confirmingEvidence: 'Timeouts in logs',
+      refutingEvidence: 'No timeouts',
+      queries: [],
+    });
+    machine.applyEvaluation({
+      hypothesisId: hypothesis.id,
+      evidenceStrength: 'strong',
+      confidence: 80,
+      reasoning: 'Timeouts match the error window',
+      action: 'confirm',
+      findings: ['Provider p99 at 30s'],
+    });
+
+    const snapshot = machine.toSnapshot();
+    const checkpoint = createCheckpointFromSnapshot(snapshot);
+
+    expect(checkpoint.investigationId).toBe(snapshot.id);
+    expect(checkpoint.phase).toBe('hypothesize');
+    expect(checkpoint.confidence).toBe(80);
+    expect(checkpoint.servicesDiscovered).toEqual(['checkout']);
+    expect(checkpoint.evidence).toEqual([
+      expect.objectContaining({
+        hypothesisId: hypothesis.id,
+        type: 'supporting',
+        summary: 'Provider p99 at 30s',
+      }),
+    ]);
+    expect(checkpoint.state).toEqual(snapshot);
+  });
+});
+
+function buildConcludedMachine(): InvestigationStateMachine {
+  const machine = new InvestigationStateMachine('Why is checkout failing?', { maxIterations: 5 });
+  machine.start();
+  machine.transitionTo('hypothesize', 'Triage complete');
+  for (const statement of ['Payment provider timeouts', 'Database lock contention']) {
+    machine.addHypothesis({
+      statement,
+      category: 'dependency',
+      priority: 1,
+      confirmingEvidence: '',
+      refutingEvidence: '',
+      queries: [],
+    });
+  }
+  machine.transitionTo('investigate', 'Investigating h_1');
+  machine.setCurrentHypothesis('h_1');
+  machine.transitionTo('evaluate', 'Evidence gathered');
+  machine.applyEvaluation({
+    hypothesisId: 'h_1',
+    evidenceStrength: 'strong',
+    confidence: 85,
+    reasoning: 'Timeouts match',
+    action: 'confirm',
+    findings: ['Provider p99 at 30s'],
+  });
+  machine.transitionTo('conclude', 'Root cause confirmed');
+  return machine;
+}
+
+describe('diffCheckpoints', () => {
+  it('should report hypothesis, confidence and evidence changes', () => {
+    const machine = new InvestigationStateMachine('Why is checkout failing?');
+    machine.start();
+    machine.transitionTo('hypothesize', 'Triage complete');
+    machine.addHypothesis({
+      statement: 'Payment provider timeouts',
+      category: 'dependency',
+      priority: 1,
+      confirmingEvidence: '',
+      refutingEvidence: '',
+      queries: [],
+    });
+    const before = createCheckpointFromSnapshot(machine.toSnapshot());
+
+    machine.addHypothesis({
+      statement: 'Database lock contention',
+      category: 'infrastructure',
+      priority: 2,
+      confirmingEvidence: '',
+      refutingEvidence: '',
+      queries: [],
+    });
+    machine.applyEvaluation({
+      hypothesisId: 'h_1',
+      evidenceStrength: 'none',
+      confidence: 10,
+      reasoning: 'Provider latency normal',
+      action: 'prune',
+      findings: ['Provider p99 at 120ms'],
+    });
+    const after = createCheckpointFromSnapshot(machine.toSnapshot());
+
+    const diff = diffCheckpoints(before, after);
+
+    expect(diff.hypothesesAdded.map((h) => h.id)).toEqual(['h_2']);
+    expect(diff.hypothesesPruned.map((h) => h.id)).toEqual(['h_1']);
+    expect(diff.hypothesesConfirmed).toEqual([]);
+    expect(diff.confidenceChanges).toEqual([
+      { id: 'h_1', statement: 'Payment provider timeouts', from: 0, to: 10 },
+    ]);
+    expect(diff.newEvidence).toEqual([
+      expect.objectContaining({ hypothesisId: 'h_1', type: 'refuting' }),
+    ]);
+
+    const output = formatCheckpointDiff(diff);
+    expect(output).toContain('## Hypotheses Added (1)');
+    expect(output).toContain('✗ [h_1] Payment provider timeouts — Provider latency normal');
+    expect(output).toContain('0% → 10% (+10)');
+  });
+
+  it('should report no changes between identical checkpoints', () => {
+    const checkpoint = createCheckpointFromSnapshot(buildConcludedMachine().toSnapshot());
+
+    expect(formatCheckpointDiff(diffCheckpoints(checkpoint, checkpoint))).toContain(
+      'No hypothesis or evidence changes.'
+    );
+  });
+});
+
+describe('forkCheckpoint', () => {
+  it('should reopen the chosen hypothesis in a new investigation', () => {
+    const source = createCheckpointFromSnapshot(buildConcludedMachine().toSnapshot());
+
+    const fork = forkCheckpoint(source, { hypothesisId: 'h_2' });
+
+    expect(fork.investigationId).not.toBe(source.investigationId);
+    expect(fork.investigationId.startsWith(source.investigationId)).toBe(true);
+    expect(fork.forkedFrom).toEqual({
+      investigationId: source.investigationId,
+      checkpointId: source.id,
+      hypothesisId: 'h_2',
+    });
+    expect(fork.phase).toBe('hypothesize');
+    expect(fork.state?.maxIterations).toBe(6);
+    expect(fork.state?.hypotheses.map((h) => [h.id, h.status, h.priority])).toEqual([
+      ['h_1', 'pending', 1],
+      ['h_2', 'pending', 0],
+    ]);
+    expect(fork.evidence.map((e) => e.summary)).toEqual(['Provider p99 at 30s']);
+
+    const restored = InvestigationStateMachine.fromSnapshot(fork.state!);
+    expect(restored.getNextHypothesis()?.id).toBe('h_2');
+    expect(source.state?.hypotheses[0].status).toBe('confirmed');
+  });
+
+  it('should keep the saved phase when no hypothesis is given', () => {
+    const source = createCheckpointFromSnapshot(buildConcludedMachine().toSnapshot());
+
+    expect(forkCheckpoint(source).phase).toBe('conclude');
+  });
+
+  it('should reject unknown hypotheses and checkpoints without state', () => {
+    const source = createCheckpointFromSnapshot(buildConcludedMachine().toSnapshot());
+
+    expect(() => forkCheckpoint(source, { hypothesisId: 'h_9' })).toThrow('available: h_1, h_2');
+    expect(() =>
+      forkCheckpoint(
+        createCheckpoint('inv-legacy', { query: 'Q', phase: 'triage', hypotheses: [] })
+      )
+    ).toThrow('no saved investigation state');
+  });
+});
+
 describe('CheckpointStore', () => {
   let store: CheckpointStore;
 
@@ -465,6 +651,40 @@ describe('CheckpointStore', () => {
       expect(list.length).toBeLessThanOrEqual(3);
     });
   });
+
+  describe('resolve', () => {
+    it('should resolve an investigation ID to its latest checkpoint', async () => {
+      const first = createCheckpoint('inv-resolve', {
+        query: 'Q',
+        phase: 'triage',
+        hypotheses: [],
+      });
+      await store.save(first);
+      const second = createCheckpoint('inv-resolve', {
+        query: 'Q',
+        phase: 'hypothesize',
+        hypotheses: [],
+      });
+      await store.save(second);
+
+      const resolved = await store.resolve('inv-resolve');
+
+      expect(resolved?.id).toBe(second.id);
+    });
+
+    it('should resolve full and abbreviated checkpoint IDs', async () => {
+      const checkpoint = createCheckpoint('inv-resolve-id', {
+        query: 'Q',
+        phase: 'evaluate',
+        hypotheses: [],
+      });
+      await store.save(checkpoint);
+
+      expect((await store.resolve(checkpoint.id))?.id).toBe(checkpoint.id);
+      expect((await store.resolve(`${checkpoint.id.slice(0, 8)}...`))?.id).toBe(checkpoint.id);
+      expect(await store.resolve('ffffffffffff')).toBeNull();
+    });
+  });
 });
 
 describe('formatCheckpoint', () => {
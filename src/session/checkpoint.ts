@@ -9,7 +9,7 @@ import { existsSync } from 'fs';
 import { mkdir, readFile, writeFile, readdir, unlink } from 'fs/promises';
 import { join } from 'path';
 import type { InvestigationPhase } from '../agent/state-machine';
-import type { InvestigationHypothesis } from '../agent/state-machine';
+import type { InvestigationHypothesis, InvestigationSnapshot } from '../agent/state-machine';
 
 /**
  * Unique checkpoint identifier (12 hex characters)
@@ -30,6 +30,8 @@ export interface CheckpointMetadata {
   promptCount: number;
   toolCallCount: number;
   summary?: string;
+  /** Set on the first checkpoint of an investigation forked from another */
+  forkedFrom?: { investigationId: string; checkpointId: CheckpointId; hypothesisId?: string };
 }
 
 /**
@@ -52,6 +54,8 @@ export interface InvestigationCheckpoint extends CheckpointMetadata {
   rootCause?: string;
   /** Affected services */
   affectedServices?: string[];
+  /** Full state machine snapshot, present when the checkpoint can be resumed */
+  state?: InvestigationSnapshot;
 }
 
 /**
@@ -215,6 +219,36 @@ export class CheckpointStore {
     }
   }
 
+  /**
+   * Resolve an investigation ID (latest checkpoint) or a checkpoint ID. Checkpoint
+   * IDs may be abbreviated to a unique prefix, as shown by `checkpoint list`.
+   */
+  async resolve(reference: string): Promise<InvestigationCheckpoint | null> {
+    const ref = reference.trim().replace(/\.+$/, '');
+    if (!ref || ref.includes('/') || ref.includes('\\')) {
+      return null;
+    }
+
+    const latest = await this.loadLatest(ref);
+    if (latest) {
+      return latest;
+    }
+
+    const matches: Array<{ investigationId: string; id: CheckpointId }> = [];
+    for (const investigation of await this.listInvestigations()) {
+      for (const entry of await this.list(investigation.investigationId)) {
+        if (entry.id.startsWith(ref)) {
+          matches.push({ investigationId: investigation.investigationId, id: entry.id });
+        }
+      }
+    }
+
+    if (matches.length > 1) {
+      throw new Error(`Checkpoint ID prefix "${ref}" is ambiguous (${matches.length} matches)`);
+    }
+    return matches.length === 1 ? this.load(matches[0].investigationId, matches[0].id) : null;
+  }
+
   /**
    * List checkpoints for an investigation
    */
@@ -454,6 +488,248 @@ export function createCheckpoint(
   };
 }
 
+/**
+ * Create a resumable checkpoint from a full state machine snapshot
+ */
+export function createCheckpointFromSnapshot(
+  snapshot: InvestigationSnapshot,
+  sessionId?: string
+): InvestigationCheckpoint {
+  const evidence: EvidenceRecord[] = snapshot.evaluations.map((evaluation, index) => ({
+    id: `e_${index + 1}`,
+    hypothesisId: evaluation.hypothesisId,
+    type:
+      evaluation.action === 'confirm' || evaluation.evidenceStrength === 'strong'
+        ? 'supporting'
+        : evaluation.action === 'prune'
+          ? 'refuting'
+          : 'inconclusive',
+    source: 'evaluation',
+    summary: evaluation.findings.join('; ') || evaluation.reasoning,
+    timestamp: snapshot.updatedAt,
+  }));
+
+  return {
+    id: generateCheckpointId(),
+    investigationId: snapshot.id,
+    sessionId,
+    createdAt: new Date().toISOString(),
+    phase: snapshot.phase,
+    query: snapshot.query,
+    confidence: Math.max(0, ...snapshot.hypotheses.map((h) => h.confidence)),
+    promptCount: 0,
+    toolCallCount: snapshot.toolCallCount,
+    summary: snapshot.triage?.summary || undefined,
+    hypotheses: snapshot.hypotheses.map((h) => ({
+      id: h.id,
+      statement: h.statement,
+      category: h.category,
+      status: h.status,
+      confidence: h.confidence,
+      reasoning: h.reasoning,
+      parentId: h.parentId,
+    })),
+    servicesDiscovered: snapshot.triage?.affectedServices || [],
+    symptomsIdentified: snapshot.triage?.symptoms || [],
+    toolResultIds: [],
+    evidence,
+    remediationSteps: snapshot.remediationPlan?.steps.map((step) => ({
+      id: step.id,
+      action: step.action,
+      description: step.description,
+      status: step.status,
+      riskLevel: step.riskLevel,
+    })),
+    rootCause: snapshot.conclusion?.rootCause,
+    affectedServices: snapshot.conclusion?.affectedServices,
+    state: snapshot,
+  };
+}
+
+/**
+ * Changes between two checkpoints
+ */
+export interface CheckpointDiff {
+  from: CheckpointListEntry;
+  to: CheckpointListEntry;
+  hypothesesAdded: HypothesisSnapshot[];
+  hypothesesPruned: HypothesisSnapshot[];
+  hypothesesConfirmed: HypothesisSnapshot[];
+  confidenceChanges: Array<{ id: string; statement: string; from: number; to: number }>;
+  newEvidence: EvidenceRecord[];
+  rootCauseChanged: boolean;
+}
+
+function toListEntry(checkpoint: InvestigationCheckpoint): CheckpointListEntry {
+  return {
+    id: checkpoint.id,
+    investigationId: checkpoint.investigationId,
+    createdAt: checkpoint.createdAt,
+    phase: checkpoint.phase,
+    query: checkpoint.query,
+    confidence: checkpoint.confidence,
+    hypothesisCount: checkpoint.hypotheses.length,
+  };
+}
+
+/**
+ * Compare two checkpoints, reporting what happened between `from` and `to`
+ */
+export function diffCheckpoints(
+  from: InvestigationCheckpoint,
+  to: InvestigationCheckpoint
+): CheckpointDiff {
+  const before = new Map(from.hypotheses.map((h) => [h.id, h]));
+  const changedTo = (status: HypothesisSnapshot['status']) =>
+    to.hypotheses.filter((h) => h.status === status && before.get(h.id)?.status !== status);
+  const evidenceKey = (e: EvidenceRecord) => `${e.hypothesisId}|${e.type}|${e.summary}`;
+  const knownEvidence = new Set(from.evidence.map(evidenceKey));
+
+  return {
+    from: toListEntry(from),
+    to: toListEntry(to),
+    hypothesesAdded: to.hypotheses.filter((h) => !before.has(h.id)),
+    hypothesesPruned: changedTo('pruned'),
+    hypothesesConfirmed: changedTo('confirmed'),
+    confidenceChanges: to.hypotheses
+      .filter((h) => before.has(h.id) && before.get(h.id)!.confidence !== h.confidence)
+      .map((h) => ({
+        id: h.id,
+        statement: h.statement,
+        from: before.get(h.id)!.confidence,
+        to: h.confidence,
+      })),
+    newEvidence: to.evidence.filter((e) => !knownEvidence.has(evidenceKey(e))),
+    rootCauseChanged: (from.rootCause || '') !== (to.rootCause || ''),
+  };
+}
+
+/**
+ * Format a checkpoint diff for display
+ */
+export function formatCheckpointDiff(diff: CheckpointDiff): string {
+  const describe = (entry: CheckpointListEntry) =>
+    `${entry.id} (${entry.investigationId}, ${entry.phase}, ${entry.confidence}%)`;
+  const lines: string[] = [
+    `# Checkpoint Diff`,
+    '',
+    `**From:** ${describe(diff.from)}`,
+    `**To:** ${describe(diff.to)}`,
+    `**Confidence:** ${diff.from.confidence}% → ${diff.to.confidence}%`,
+  ];
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push('', `## ${title} (${items.length})`, ...items);
+  };
+
+  section(
+    'Hypotheses Added',
+    diff.hypothesesAdded.map(
+      (h) => `- + [${h.id}] ${h.statement}${h.parentId ? ` (branch of ${h.parentId})` : ''}`
+    )
+  );
+  section(
+    'Hypotheses Confirmed',
+    diff.hypothesesConfirmed.map((h) => `- ✓ [${h.id}] ${h.statement} (${h.confidence}%)`)
+  );
+  section(
+    'Hypotheses Pruned',
+    diff.hypothesesPruned.map(
+      (h) => `- ✗ [${h.id}] ${h.statement}${h.reasoning ? ` — ${h.reasoning}` : ''}`
+    )
+  );
+  section(
+    'Confidence Changes',
+    diff.confidenceChanges.map(
+      (c) =>
+        `- [${c.id}] ${c.statement}: ${c.from}% → ${c.to}% (${c.to >= c.from ? '+' : ''}${c.to - c.from})`
+    )
+  );
+  section(
+    'New Evidence',
+    diff.newEvidence.map((e) => `- [${e.hypothesisId}] ${e.type}: ${e.summary}`)
+  );
+
+  if (
+    diff.hypothesesAdded.length +
+      diff.hypothesesConfirmed.length +
+      diff.hypothesesPruned.length +
+      diff.confidenceChanges.length +
+      diff.newEvidence.length ===
+    0
+  ) {
+    lines.push('', 'No hypothesis or evidence changes.');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Start a new investigation from a checkpoint's state. The fork inherits
+ * hypotheses, evidence and evaluations; with `hypothesisId` it returns to
+ * the hypothesis loop and investigates that hypothesis next, setting aside
+ * any conclusion reached so far. The fork gets a fresh iteration budget.
+ */
+export function forkCheckpoint(
+  checkpoint: InvestigationCheckpoint,
+  options: { hypothesisId?: string } = {}
+): InvestigationCheckpoint {
+  if (!checkpoint.state) {
+    throw new Error(`Checkpoint ${checkpoint.id} has no saved investigation state to fork`);
+  }
+
+  const state: InvestigationSnapshot = JSON.parse(JSON.stringify(checkpoint.state));
+  const now = new Date().toISOString();
+  state.id = `${state.id.replace(/_fork_[0-9a-f]+$/, '')}_fork_${generateCheckpointId().slice(0, 6)}`;
+  state.maxIterations = state.iterationCount + state.maxIterations;
+  state.updatedAt = now;
+
+  if (options.hypothesisId) {
+    const target = state.hypotheses.find((h) => h.id === options.hypothesisId);
+    if (!target) {
+      throw new Error(
+        `Hypothesis ${options.hypothesisId} not found in checkpoint ${checkpoint.id} (available: ${
+          state.hypotheses.map((h) => h.id).join(', ') || 'none'
+        })`
+      );
+    }
+
+    for (const hypothesis of state.hypotheses) {
+      if (hypothesis.status === 'confirmed' || hypothesis.status === 'investigating') {
+        hypothesis.status = 'pending';
+      }
+    }
+    target.status = 'pending';
+    target.priority = 0;
+    target.updatedAt = now;
+
+    if (state.phase !== 'hypothesize') {
+      state.phaseHistory.push({
+        from: state.phase,
+        to: 'hypothesize',
+        reason: `Forked from checkpoint ${checkpoint.id} to follow ${target.id}`,
+        timestamp: now,
+      });
+    }
+    state.phase = 'hypothesize';
+    state.awaitingEvaluation = false;
+    state.currentHypothesisId = undefined;
+    state.conclusion = undefined;
+    state.remediationPlan = undefined;
+    state.completedAt = undefined;
+  }
+
+  return {
+    ...createCheckpointFromSnapshot(state, checkpoint.sessionId),
+    forkedFrom: {
+      investigationId: checkpoint.investigationId,
+      checkpointId: checkpoint.id,
+      hypothesisId: options.hypothesisId,
+    },
+  };
+}
+
 /**
  * Create a checkpoint store instance
  */
@@ -472,6 +748,11 @@ export function formatCheckpoint(checkpoint: InvestigationCheckpoint): string {
     `**Created:** ${checkpoint.createdAt}`,
     `**Phase:** ${checkpoint.phase}`,
     `**Confidence:** ${checkpoint.confidence}%`,
+    ...(checkpoint.forkedFrom
+      ? [
+          `**Forked from:** ${checkpoint.forkedFrom.checkpointId} (${checkpoint.forkedFrom.investigationId})`,
+        ]
+      : []),
     '',
     `## Query`,
     checkpoint.query,
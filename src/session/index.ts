@@ -6,9 +6,13 @@ export {
   CheckpointStore,
   createCheckpointStore,
   createCheckpoint,
+  createCheckpointFromSnapshot,
+  diffCheckpoints,
+  forkCheckpoint,
   generateCheckpointId,
   formatCheckpoint,
   formatCheckpointList,
+  formatCheckpointDiff,
   type CheckpointId,
   type CheckpointMetadata,
   type InvestigationCheckpoint,
@@ -17,4 +21,5 @@ export {
   type RemediationStepSnapshot,
   type CheckpointListEntry,
   type CheckpointStoreConfig,
+  type CheckpointDiff,
 } from './checkpoint';
@@ -0,0 +1,232 @@
+/**
+ * Tests for the skill executor
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LLMClient } from '../../model/llm';
+import type { SkillDefinition, SkillStep } from '../types';
+
+const tools = vi.hoisted(() => ({
+  list_tasks: vi.fn(),
+  restart_task: vi.fn(),
+  notify: vi.fn(),
+  slack_message: vi.fn(),
+}));
+
+vi.mock('../../tools/registry', () => ({
+  toolRegistry: {
+    get: (name: string) =>
+      name in tools ? { execute: tools[name as keyof typeof tools] } : undefined,
+  },
+}));
+
+import { SkillExecutor } from '../executor';
+import { planUnapprovedWrite, recordPlannedAction } from '../../agent/execution-plan';
+
+function createSkill(steps: SkillStep[]): SkillDefinition {
+  return {
+    id: 'restart-unhealthy',
+    name: 'Restart unhealthy tasks',
+    description: 'Restart every unhealthy task of a service',
+    version: '1.0.0',
+    parameters: [{ name: 'service', description: 'Service', type: 'string', required: true }],
+    steps,
+  };
+}
+
+const listStep: SkillStep = {
+  id: 'list',
+  name: 'List tasks',
+  description: 'List service tasks',
+  action: 'list_tasks',
+  parameters: { service: '{{service}}' },
+};
+
+const restartStep: SkillStep = {
+  id: 'restart',
+  name: 'Restart task',
+  description: 'Restart one unhealthy task',
+  action: 'restart_task',
+  forEach: 'steps.list.result.tasks',
+  as: 'task',
+  condition: "task.health == 'UNHEALTHY'",
+  parameters: { taskId: '{{task.id}}', tags: ['{{service}}', 'restart-{{index}}'] },
+};
+
+describe('SkillExecutor', () => {
+  let executor: SkillExecutor;
+  let progress: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    progress = [];
+    executor = new SkillExecutor({
+      llm: {} as LLMClient,
+      onProgress: (message) => progress.push(message),
+    });
+    tools.list_tasks.mockResolvedValue({
+      tasks: [
+        { id: 't-1', health: 'UNHEALTHY' },
+        { id: 't-2', health: 'HEALTHY' },
+        { id: 't-3', health: 'UNHEALTHY' },
+      ],
+    });
+    tools.restart_task.mockImplementation(async ({ taskId }) => ({ restarted: taskId }));
+  });
+
+  it('skips steps whose condition cannot be evaluated', async () => {
+    const result = await executor.execute(
+      createSkill([
+        listStep,
+        {
+          id: 'notify',
+          name: 'Notify',
+          description: 'Notify when tasks are listed',
+          action: 'notify',
+          condition: "steps.list.result.tasks > 'none'",
+        },
+      ]),
+      { service: 'checkout' }
+    );
+
+    expect(result.status).toBe('completed');
+    expect(result.stepResults[1].status).toBe('skipped');
+    expect(tools.notify).not.toHaveBeenCalled();
+    expect(progress.some((message) => message.includes('could not be evaluated'))).toBe(true);
+  });
+
+  it('does not resolve templates to inherited properties', async () => {
+    await executor.execute(
+      createSkill([
+        { ...listStep, parameters: { service: '{{service}}', owner: '{{constructor.name}}' } },
+        { ...restartStep, parameters: { taskId: '{{task.id}}', hint: '{{toString}}' } },
+      ]),
+      { service: 'checkout' }
+    );
+
+    expect(tools.list_tasks).toHaveBeenCalledWith({
+      service: 'checkout',
+      owner: '{{constructor.name}}',
+    });
+    expect(tools.restart_task).toHaveBeenCalledWith({ taskId: 't-1', hint: '{{toString}}' });
+  });
+
+  it('runs forEach steps once per matching item', async () => {
+    const result = await executor.execute(createSkill([listStep, restartStep]), {
+      service: 'checkout',
+    });
+
+    expect(result.status).toBe('completed');
+    expect(tools.restart_task).toHaveBeenCalledTimes(2);
+    expect(tools.restart_task).toHaveBeenNthCalledWith(1, {
+      taskId: 't-1',
+      tags: ['checkout', 'restart-0'],
+    });
+    expect(tools.restart_task).toHaveBeenNthCalledWith(2, {
+      taskId: 't-3',
+      tags: ['checkout', 'restart-2'],
+    });
+
+    const restart = result.stepResults[1];
+    expect(restart.status).toBe('success');
+    expect(restart.iterations?.map((iteration) => iteration.status)).toEqual([
+      'success',
+      'skipped',
+      'success',
+    ]);
+    expect(restart.result).toEqual([{ restarted: 't-1' }, undefined, { restarted: 't-3' }]);
+  });
+
+  it('stops the loop and fails the skill when an item fails with onError abort', async () => {
+    tools.restart_task.mockRejectedValueOnce(new Error('throttled'));
+
+    const result = await executor.execute(
+      createSkill([listStep, { ...restartStep, onError: 'abort' }]),
+      { service: 'checkout' }
+    );
+
+    expect(result.status).toBe('failed');
+    expect(tools.restart_task).toHaveBeenCalledTimes(1);
+    expect(result.stepResults[1].error).toContain('throttled');
+  });
+
+  it('fails forEach steps whose source is not an array', async () => {
+    const result = await executor.execute(
+      createSkill([listStep, { ...restartStep, forEach: 'steps.list.result' }]),
+      { service: 'checkout' }
+    );
+
+    expect(result.stepResults[1].status).toBe('failed');
+    expect(result.stepResults[1].error).toContain('forEach expects an array');
+    expect(tools.restart_task).not.toHaveBeenCalled();
+  });
+
+  it('asks for approval once for the whole loop', async () => {
+    const onApprovalRequired = vi.fn().mockResolvedValue(false);
+    executor = new SkillExecutor({ llm: {} as LLMClient, onApprovalRequired });
+
+    const result = await executor.execute(
+      createSkill([listStep, { ...restartStep, requiresApproval: true }]),
+      { service: 'checkout' }
+    );
+
+    expect(onApprovalRequired).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe('cancelled');
+    expect(tools.restart_task).not.toHaveBeenCalled();
+  });
+
+  it('plans mutations in a dry run using real read-only data', async () => {
+    // Mutation tools record themselves in the plan when a dry run is active
+    tools.restart_task.mockImplementation(async (args) => {
+      const action = recordPlannedAction({
+        tool: 'restart_task',
+        args,
+        operation: 'ecs:StopTask',
+        resource: args.taskId,
+        description: `Restart ${args.taskId}`,
+        riskLevel: 'medium',
+        call: { task: args.taskId },
+      });
+      return action ? { status: 'planned' } : { restarted: args.taskId };
+    });
+    // Registry tools that write without approval plan themselves the same way
+    tools.slack_message.mockImplementation(
+      async (args) => planUnapprovedWrite('slack_message', args) ?? { ok: true }
+    );
+    const onApprovalRequired = vi.fn().mockResolvedValue(false);
+    executor = new SkillExecutor({ llm: {} as LLMClient, onApprovalRequired, dryRun: true });
+
+    const result = await executor.execute(
+      createSkill([
+        listStep,
+        { ...restartStep, requiresApproval: true },
+        {
+          id: 'announce',
+          name: 'Announce',
+          description: 'Tell the channel',
+          action: 'slack_message',
+          parameters: { channel: '#ops', text: 'Restarted {{service}} tasks' },
+        },
+      ]),
+      { service: 'checkout' }
+    );
+
+    expect(result.status).toBe('completed');
+    expect(onApprovalRequired).not.toHaveBeenCalled();
+    expect(tools.list_tasks).toHaveBeenCalledWith({ service: 'checkout' });
+    expect(
+      result.plannedActions?.map((action) => [action.tool, action.resource, action.skillStepId])
+    ).toEqual([
+      ['restart_task', 't-1', 'restart'],
+      ['restart_task', 't-3', 'restart'],
+      ['slack_message', '#ops', 'announce'],
+    ]);
+    expect(result.plannedActions?.[2].args).toEqual({
+      channel: '#ops',
+      text: 'Restarted checkout tasks',
+    });
+    expect(result.plannedActions?.every((action) => action.skillId === 'restart-unhealthy')).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for skill expressions
+ */
+
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression, ExpressionError, parseExpression } from '../expression';
+
+const values: Record<string, unknown> = {
+  'steps.check.status': 'success',
+  'steps.check.result.count': 3,
+  'steps.list.result.tasks': [
+    { id: 't-1', health: 'UNHEALTHY' },
+    { id: 't-2', health: 'HEALTHY' },
+  ],
+  'params.env': 'production',
+  'params.regions': ['us-east-1', 'eu-west-1'],
+  'params.tags': { team: 'sre' },
+  'params.missing': undefined,
+};
+
+const evaluate = (expression: string) => evaluateExpression(expression, (path) => values[path]);
+
+describe('evaluateExpression', () => {
+  it('compares values with typed operators', () => {
+    expect(evaluate("steps.check.status == 'success'")).toBe(true);
+    expect(evaluate("steps.check.status === 'success'")).toBe(true);
+    expect(evaluate('steps.check.result.count > 2')).toBe(true);
+    expect(evaluate('steps.check.result.count <= -1')).toBe(false);
+    expect(evaluate("'a' < 'b'")).toBe(true);
+    expect(evaluate("steps.check.result.count == '3'")).toBe(false);
+  });
+
+  it('supports boolean operators and parentheses', () => {
+    expect(
+      evaluate("(params.env == 'production' || params.env == 'staging') && !params.missing")
+    ).toBe(true);
+    expect(evaluate("not (params.env == 'production') or false")).toBe(false);
+    expect(evaluate('{{steps.check.result.count}} >= 3 and true')).toBe(true);
+  });
+
+  it('supports membership and helpers', () => {
+    expect(evaluate("'eu-west-1' in params.regions")).toBe(true);
+    expect(evaluate("params.env in ['production', 'staging']")).toBe(true);
+    expect(evaluate("'prod' in params.env")).toBe(true);
+    expect(evaluate("'team' in params.tags")).toBe(true);
+    expect(evaluate("'constructor' in params.tags")).toBe(false);
+    expect(evaluate('length(steps.list.result.tasks) == 2')).toBe(true);
+    expect(evaluate('exists(params.missing)')).toBe(false);
+    expect(evaluate('empty(params.regions)')).toBe(false);
+    expect(evaluate("contains(upper(params.env), 'PROD')")).toBe(true);
+  });
+
+  it('returns non-boolean values for forEach sources', () => {
+    expect(evaluate('steps.list.result.tasks')).toEqual(values['steps.list.result.tasks']);
+  });
+
+  it('rejects comparisons between mismatched types', () => {
+    expect(() => evaluate("steps.check.result.count > '2'")).toThrow(ExpressionError);
+    expect(() => evaluate('params.missing < 5')).toThrow(ExpressionError);
+    expect(() => evaluate("'x' in steps.check.result.count")).toThrow(ExpressionError);
+  });
+});
+
+describe('parseExpression', () => {
+  it.each([
+    'steps.check.status ==',
+    '(a == 1',
+    'a = 1',
+    'a < b < c',
+    'unknown_helper(a)',
+    'length(a, b)',
+    "'unterminated",
+    'a; b',
+  ])('rejects invalid syntax: %s', (expression) => {
+    expect(() => parseExpression(expression)).toThrow(ExpressionError);
+  });
+});
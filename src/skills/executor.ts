@@ -3,10 +3,11 @@
  *
  * Executes skill workflows step by step, handling:
  * - Parameter substitution
- * - Conditional steps
+ * - Conditional steps and forEach loops
  * - Approval flows
  * - Error handling
  * - Progress tracking
+ * - Dry runs that plan mutations instead of making them
  */
 
 import type {
@@ -15,8 +16,17 @@ import type {
   SkillExecutionContext,
   SkillStepResult,
   SkillExecutionResult,
+  SkillIterationResult,
 } from './types';
+import { evaluateExpression } from './expression';
 import { toolRegistry } from '../tools/registry';
+import { recordAuditEvent, withAuditContext } from '../audit';
+import {
+  PlanRecorder,
+  getPlanRecorder,
+  withPlanRecorder,
+  withPlanStep,
+} from '../agent/execution-plan';
 import type { LLMClient } from '../model/llm';
 
 export interface SkillExecutorOptions {
@@ -29,8 +39,18 @@ export interface SkillExecutorOptions {
   ) => void;
   onApprovalRequired?: (step: SkillStep, context: SkillExecutionContext) => Promise<boolean>;
   onProgress?: (message: string, context: SkillExecutionContext) => void;
+  /**
+   * Run read-only steps against real data but record mutations in a plan
+   * instead of executing them. Approval prompts are skipped.
+   */
+  dryRun?: boolean;
 }
 
+/** Upper bound on forEach iterations so a bad expression can't fan out unbounded */
+export const MAX_FOREACH_ITEMS = 100;
+
+type ForEachOutcome = 'continue' | 'aborted' | 'cancelled';
+
 export class SkillExecutor {
   private llm: LLMClient;
   private options: SkillExecutorOptions;
@@ -46,6 +66,21 @@ export class SkillExecutor {
   async execute(
     skill: SkillDefinition,
     parameters: Record<string, unknown>
+  ): Promise<SkillExecutionResult> {
+    if (!this.options.dryRun) {
+      return this.run(skill, parameters);
+    }
+
+    // Join an enclosing dry run, or start one for this skill
+    const recorder = getPlanRecorder() || new PlanRecorder();
+    const firstAction = recorder.actions.length;
+    const result = await withPlanRecorder(recorder, () => this.run(skill, parameters));
+    return { ...result, plannedActions: recorder.actions.slice(firstAction) };
+  }
+
+  private async run(
+    skill: SkillDefinition,
+    parameters: Record<string, unknown>
   ): Promise<SkillExecutionResult> {
     const startedAt = new Date();
 
@@ -78,6 +113,19 @@ export class SkillExecutor {
         const step = skill.steps[i];
         context.currentStepIndex = i;
 
+        if (step.forEach) {
+          const outcome = await this.executeForEach(step, context, stepResults);
+          if (outcome === 'cancelled') {
+            context.status = 'cancelled';
+            break;
+          }
+          if (outcome === 'aborted') {
+            context.status = 'failed';
+            break;
+          }
+          continue;
+        }
+
         // Check condition
         if (step.condition && !this.evaluateCondition(step.condition, context)) {
           const skippedResult: SkillStepResult = {
@@ -93,7 +141,7 @@ export class SkillExecutor {
         }
 
         // Check for approval
-        if (step.requiresApproval && this.options.onApprovalRequired) {
+        if (step.requiresApproval && this.options.onApprovalRequired && !this.options.dryRun) {
           const approved = await this.options.onApprovalRequired(step, context);
           if (!approved) {
             context.status = 'cancelled';
@@ -168,6 +216,154 @@ export class SkillExecutor {
     };
   }
 
+  /**
+   * Execute a forEach step: once per array element, with the element bound to
+   * `step.as` (default `item`) and its position to `index`. The condition is
+   * evaluated per element, approval is requested once for the whole loop.
+   */
+  private async executeForEach(
+    step: SkillStep,
+    context: SkillExecutionContext,
+    stepResults: SkillStepResult[]
+  ): Promise<ForEachOutcome> {
+    const startedAt = new Date();
+    const variableName = step.as || 'item';
+    const record = (result: SkillStepResult) => {
+      stepResults.push(result);
+      context.stepResults.set(step.id, result);
+    };
+    const finish = (
+      status: SkillStepResult['status'],
+      iterations: SkillIterationResult[],
+      error?: string
+    ): SkillStepResult => {
+      const completedAt = new Date();
+      return {
+        stepId: step.id,
+        status,
+        result: iterations.map((iteration) => iteration.result),
+        iterations,
+        error,
+        startedAt,
+        completedAt,
+        durationMs: completedAt.getTime() - startedAt.getTime(),
+      };
+    };
+
+    let items: unknown;
+    try {
+      items = evaluateExpression(step.forEach!, (path) => this.getValueByPath(path, context));
+    } catch (error) {
+      items = error;
+    }
+    if (!Array.isArray(items)) {
+      const message =
+        items instanceof Error
+          ? `forEach expression failed: ${items.message}`
+          : `forEach expects an array, got ${items === null ? 'null' : typeof items}`;
+      const result = finish('failed', [], message);
+      record(result);
+      this.options.onStepComplete?.(step, result, context);
+      return step.onError === 'abort' ? 'aborted' : 'continue';
+    }
+    if (items.length > MAX_FOREACH_ITEMS) {
+      const result = finish(
+        'failed',
+        [],
+        `forEach over ${items.length} items exceeds the limit of ${MAX_FOREACH_ITEMS}`
+      );
+      record(result);
+      this.options.onStepComplete?.(step, result, context);
+      return step.onError === 'abort' ? 'aborted' : 'continue';
+    }
+
+    const previousVariables = context.variables;
+    const bind = (item: unknown, index: number) => {
+      context.variables = { ...previousVariables, [variableName]: item, index };
+    };
+
+    try {
+      // Select the elements this step applies to
+      const selected: number[] = [];
+      const iterations: SkillIterationResult[] = items.map((item, index) => {
+        bind(item, index);
+        if (step.condition && !this.evaluateCondition(step.condition, context)) {
+          return { index, item, status: 'skipped' };
+        }
+        selected.push(index);
+        return { index, item, status: 'skipped' };
+      });
+
+      if (selected.length === 0) {
+        record(finish('skipped', iterations));
+        return 'continue';
+      }
+
+      if (step.requiresApproval && this.options.onApprovalRequired && !this.options.dryRun) {
+        this.options.onProgress?.(
+          `Step ${step.id} will run for ${selected.length} of ${items.length} items`,
+          context
+        );
+        const approved = await this.options.onApprovalRequired(step, context);
+        if (!approved) {
+          return 'cancelled';
+        }
+      }
+
+      this.options.onStepStart?.(step, context);
+
+      let failed = false;
+      for (const index of selected) {
+        bind(items[index], index);
+
+        let attemptResult = await this.executeStep(step, context);
+        let retries = 0;
+        while (
+          attemptResult.status === 'failed' &&
+          step.onError === 'retry' &&
+          retries < (step.maxRetries || 0)
+        ) {
+          retries++;
+          this.options.onProgress?.(
+            `Retrying step ${step.id} item ${index} (${retries}/${step.maxRetries})`,
+            context
+          );
+          attemptResult = await this.executeStep(step, context);
+        }
+
+        iterations[index] = {
+          index,
+          item: items[index],
+          status: attemptResult.status,
+          result: attemptResult.result,
+          error: attemptResult.error,
+        };
+
+        if (attemptResult.status === 'failed') {
+          failed = true;
+          if (step.onError === 'abort') {
+            break;
+          }
+        }
+      }
+
+      const failures = iterations.filter((iteration) => iteration.status === 'failed');
+      const result = finish(
+        failed ? 'failed' : 'success',
+        iterations,
+        failed
+          ? `${failures.length} of ${selected.length} iterations failed: ${failures[0].error}`
+          : undefined
+      );
+      record(result);
+      this.options.onStepComplete?.(step, result, context);
+
+      return failed && step.onError === 'abort' ? 'aborted' : 'continue';
+    } finally {
+      context.variables = previousVariables;
+    }
+  }
+
   /**
    * Execute a single step
    */
@@ -176,10 +372,11 @@ export class SkillExecutor {
     context: SkillExecutionContext
   ): Promise<SkillStepResult> {
     const startedAt = new Date();
+    let resolvedParams: Record<string, unknown> = {};
 
     try {
       // Substitute parameters in step
-      const resolvedParams = this.resolveParameters(step.parameters || {}, context);
+      resolvedParams = this.resolveParameters(step.parameters || {}, context);
 
       let result: unknown;
 
@@ -200,31 +397,62 @@ export class SkillExecutor {
         if (!tool) {
           throw new Error(`Unknown tool: ${step.action}`);
         }
-        result = await tool.execute(resolvedParams);
+        // The skill ID lets protection rules allow changes from named skills only
+        result = await withAuditContext({ skillId: context.skillId }, () =>
+          withPlanStep({ skillId: context.skillId, skillStepId: step.id }, () =>
+            tool.execute(resolvedParams)
+          )
+        );
       }
 
       const completedAt = new Date();
-      return {
+      return this.auditStep(step, context, resolvedParams, {
         stepId: step.id,
         status: 'success',
         result,
         startedAt,
         completedAt,
         durationMs: completedAt.getTime() - startedAt.getTime(),
-      };
+      });
     } catch (error) {
       const completedAt = new Date();
-      return {
+      return this.auditStep(step, context, resolvedParams, {
         stepId: step.id,
         status: 'failed',
         error: error instanceof Error ? error.message : String(error),
         startedAt,
         completedAt,
         durationMs: completedAt.getTime() - startedAt.getTime(),
-      };
+      });
     }
   }
 
+  /**
+   * Record a step in the audit log
+   */
+  private async auditStep(
+    step: SkillStep,
+    context: SkillExecutionContext,
+    params: Record<string, unknown>,
+    result: SkillStepResult
+  ): Promise<SkillStepResult> {
+    await recordAuditEvent({
+      type: 'skill_step',
+      action: step.action,
+      resource: `${context.skillId}/${step.id}`,
+      args: params,
+      outcome: result.status === 'success' ? 'success' : 'failure',
+      details: {
+        durationMs: result.durationMs,
+        ...(context.variables && 'index' in context.variables
+          ? { index: context.variables.index }
+          : {}),
+        ...(result.error ? { error: result.error } : {}),
+      },
+    });
+    return result;
+  }
+
   /**
    * Resolve template strings with context values
    */
@@ -250,6 +478,14 @@ export class SkillExecutor {
     for (const [key, value] of Object.entries(params)) {
       if (typeof value === 'string') {
         resolved[key] = this.resolveTemplate(value, context);
+      } else if (Array.isArray(value)) {
+        resolved[key] = value.map((entry) =>
+          typeof entry === 'string'
+            ? this.resolveTemplate(entry, context)
+            : typeof entry === 'object' && entry !== null
+              ? this.resolveParameters(entry as Record<string, unknown>, context)
+              : entry
+        );
       } else if (typeof value === 'object' && value !== null) {
         resolved[key] = this.resolveParameters(value as Record<string, unknown>, context);
       } else {
@@ -266,6 +502,16 @@ export class SkillExecutor {
   private getValueByPath(path: string, context: SkillExecutionContext): unknown {
     const parts = path.split('.');
 
+    // Loop variables shadow parameters
+    if (context.variables && Object.hasOwn(context.variables, parts[0])) {
+      let value: unknown = context.variables[parts[0]];
+      for (let i = 1; i < parts.length; i++) {
+        if (value === null || value === undefined) return undefined;
+        value = (value as Record<string, unknown>)[parts[i]];
+      }
+      return value;
+    }
+
     // Handle special prefixes
     if (parts[0] === 'steps') {
       const stepId = parts[1];
@@ -283,7 +529,7 @@ export class SkillExecutor {
     }
 
     // Handle parameters
-    if (parts[0] in context.parameters) {
+    if (Object.hasOwn(context.parameters, parts[0])) {
       let value: unknown = context.parameters[parts[0]];
       for (let i = 1; i < parts.length; i++) {
         if (value === null || value === undefined) return undefined;
@@ -293,37 +539,24 @@ export class SkillExecutor {
     }
 
     // Direct parameter lookup
-    return context.parameters[path];
+    return Object.hasOwn(context.parameters, path) ? context.parameters[path] : undefined;
   }
 
   /**
-   * Evaluate a condition expression
+   * Evaluate a condition expression. Fails closed: any error (unknown path
+   * type, invalid syntax, mismatched comparison) skips the step.
    */
   private evaluateCondition(condition: string, context: SkillExecutionContext): boolean {
-    // Simple condition evaluation
-    // Supports: steps.stepId.status === 'success', steps.stepId.result.count > 0
     try {
-      const resolved = this.resolveTemplate(condition, context);
-      // Basic evaluation (for safety, only support simple comparisons)
-      if (resolved.includes('===')) {
-        const [left, right] = resolved.split('===').map((s) => s.trim().replace(/['"]/g, ''));
-        return left === right;
-      }
-      if (resolved.includes('!==')) {
-        const [left, right] = resolved.split('!==').map((s) => s.trim().replace(/['"]/g, ''));
-        return left !== right;
-      }
-      if (resolved.includes('>')) {
-        const [left, right] = resolved.split('>').map((s) => parseFloat(s.trim()));
-        return left > right;
-      }
-      if (resolved.includes('<')) {
-        const [left, right] = resolved.split('<').map((s) => parseFloat(s.trim()));
-        return left < right;
-      }
-      return Boolean(resolved);
-    } catch {
-      return true; // Default to true if can't evaluate
+      return Boolean(evaluateExpression(condition, (path) => this.getValueByPath(path, context)));
+    } catch (error) {
+      this.options.onProgress?.(
+        `Condition "${condition}" could not be evaluated, skipping: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        context
+      );
+      return false;
     }
   }
 }
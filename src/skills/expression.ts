@@ -0,0 +1,433 @@
+/**
+ * Skill Expressions
+ *
+ * A small, side-effect free expression language for skill step conditions
+ * and `forEach` sources. Nothing is evaluated with `eval`; expressions are
+ * tokenized, parsed into an AST and interpreted against a path resolver.
+ *
+ * Supported syntax:
+ * - Literals: 'text', "text", 42, -1.5, true, false, null, ['a', 'b']
+ * - Paths: steps.check.status, steps.list.result.tasks.0.id, item.name
+ *   (`{{path}}` is accepted for compatibility with templates)
+ * - Comparison: == != (aliases === !==), < <= > >= (numbers or strings only)
+ * - Boolean: && || ! (aliases and, or, not) and parentheses
+ * - Membership: value in list | value in 'text' | key in object
+ * - Helpers: length(x), exists(x), empty(x), contains(haystack, needle),
+ *   lower(text), upper(text)
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export type PathResolver = (path: string) => unknown;
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'path'; value: string }
+  | { type: 'op'; value: string }
+  | { type: 'punct'; value: '(' | ')' | '[' | ']' | ',' };
+
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; path: string }
+  | { type: 'array'; items: ExpressionNode[] }
+  | { type: 'not'; operand: ExpressionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'compare'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  '===': '==',
+  '!==': '!=',
+  and: '&&',
+  or: '||',
+  not: '!',
+};
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'in']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>=', 'in']);
+
+const HELPERS: Record<string, { arity: number; fn: (...args: unknown[]) => unknown }> = {
+  length: {
+    arity: 1,
+    fn: (value) => {
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (value && typeof value === 'object') return Object.keys(value).length;
+      if (value === undefined || value === null) return 0;
+      throw new ExpressionError(`length() expects a string, array or object, got ${typeOf(value)}`);
+    },
+  },
+  exists: {
+    arity: 1,
+    fn: (value) => value !== undefined && value !== null,
+  },
+  empty: {
+    arity: 1,
+    fn: (value) => HELPERS.length.fn(value) === 0,
+  },
+  contains: {
+    arity: 2,
+    fn: (haystack, needle) => membership(needle, haystack),
+  },
+  lower: {
+    arity: 1,
+    fn: (value) => expectString(value, 'lower').toLowerCase(),
+  },
+  upper: {
+    arity: 1,
+    fn: (value) => expectString(value, 'upper').toUpperCase(),
+  },
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function expectString(value: unknown, helper: string): string {
+  if (typeof value !== 'string') {
+    throw new ExpressionError(`${helper}() expects a string, got ${typeOf(value)}`);
+  }
+  return value;
+}
+
+function tokenize(source: string): Token[] {
+  // Template braces are accepted around paths: {{steps.check.status}}
+  const input = source.replace(/\{\{\s*([^}]+?)\s*\}\}/g, '$1');
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          i++;
+        }
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw new ExpressionError(`Unterminated string in: ${source}`);
+      }
+      i++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    const number = input.slice(i).match(/^-?\d+(\.\d+)?/);
+    if (number && (char !== '-' || !isOperand(tokens[tokens.length - 1]))) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    const operator = input.slice(i).match(/^(===|!==|==|!=|<=|>=|&&|\|\||<|>|!)/);
+    if (operator) {
+      tokens.push({ type: 'op', value: OPERATOR_ALIASES[operator[0]] || operator[0] });
+      i += operator[0].length;
+      continue;
+    }
+
+    if ('()[],'.includes(char)) {
+      tokens.push({ type: 'punct', value: char as '(' | ')' | '[' | ']' | ',' });
+      i++;
+      continue;
+    }
+
+    const path = input.slice(i).match(/^[A-Za-z_$][\w$-]*(\.[\w$-]+)*/);
+    if (path) {
+      const word = path[0];
+      if (KEYWORDS.has(word)) {
+        tokens.push({ type: 'op', value: OPERATOR_ALIASES[word] || word });
+      } else {
+        tokens.push({ type: 'path', value: word });
+      }
+      i += word.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}' in: ${source}`);
+  }
+
+  return tokens;
+}
+
+function isOperand(token: Token | undefined): boolean {
+  return (
+    token !== undefined &&
+    (token.type === 'number' ||
+      token.type === 'string' ||
+      token.type === 'path' ||
+      (token.type === 'punct' && (token.value === ')' || token.value === ']')))
+  );
+}
+
+/**
+ * Recursive descent parser:
+ *   or      := and ('||' and)*
+ *   and     := unary ('&&' unary)*
+ *   unary   := '!' unary | compare
+ *   compare := primary (op primary)?
+ *   primary := literal | path | call | array | '(' or ')'
+ */
+class Parser {
+  private position = 0;
+
+  constructor(
+    private tokens: Token[],
+    private source: string
+  ) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError('Empty expression');
+    }
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw this.error(`Unexpected token '${this.tokens[this.position].value}'`);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'op' && token.value === value;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.isPunct(value)) {
+      throw this.error(`Expected '${value}'`);
+    }
+    this.position++;
+  }
+
+  private error(message: string): ExpressionError {
+    return new ExpressionError(`${message} in: ${this.source}`);
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isOp('||')) {
+      this.position++;
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOp('&&')) {
+      this.position++;
+      left = { type: 'logical', operator: '&&', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOp('!')) {
+      this.position++;
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+    if (token?.type === 'op' && COMPARISON_OPERATORS.has(token.value)) {
+      this.position++;
+      const right = this.parsePrimary();
+      const next = this.peek();
+      if (next?.type === 'op' && COMPARISON_OPERATORS.has(next.value)) {
+        throw this.error('Chained comparisons need parentheses');
+      }
+      return { type: 'compare', operator: token.value, left, right };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    if (!token) {
+      throw this.error('Unexpected end of expression');
+    }
+
+    if (token.type === 'number' || token.type === 'string') {
+      this.position++;
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'punct' && token.value === '(') {
+      this.position++;
+      const node = this.parseOr();
+      this.expectPunct(')');
+      return node;
+    }
+
+    if (token.type === 'punct' && token.value === '[') {
+      this.position++;
+      const items: ExpressionNode[] = [];
+      while (!this.isPunct(']')) {
+        items.push(this.parseOr());
+        if (!this.isPunct(']')) this.expectPunct(',');
+      }
+      this.position++;
+      return { type: 'array', items };
+    }
+
+    if (token.type === 'path') {
+      this.position++;
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { type: 'literal', value: null };
+      }
+
+      if (this.isPunct('(')) {
+        const helper = HELPERS[token.value];
+        if (!helper) {
+          throw this.error(`Unknown function '${token.value}'`);
+        }
+        this.position++;
+        const args: ExpressionNode[] = [];
+        while (!this.isPunct(')')) {
+          args.push(this.parseOr());
+          if (!this.isPunct(')')) this.expectPunct(',');
+        }
+        this.position++;
+        if (args.length !== helper.arity) {
+          throw this.error(
+            `${token.value}() expects ${helper.arity} argument(s), got ${args.length}`
+          );
+        }
+        return { type: 'call', name: token.value, args };
+      }
+
+      return { type: 'path', path: token.value };
+    }
+
+    throw this.error(`Unexpected token '${token.value}'`);
+  }
+}
+
+function membership(needle: unknown, haystack: unknown): boolean {
+  if (Array.isArray(haystack)) {
+    return haystack.some((item) => item === needle);
+  }
+  if (typeof haystack === 'string') {
+    return typeof needle === 'string' && haystack.includes(needle);
+  }
+  if (haystack && typeof haystack === 'object') {
+    // Own keys only, so `'constructor' in obj` is false
+    return typeof needle === 'string' && Object.hasOwn(haystack, needle);
+  }
+  if (haystack === undefined || haystack === null) {
+    return false;
+  }
+  throw new ExpressionError(`'in' expects an array, string or object, got ${typeOf(haystack)}`);
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case 'in':
+      return membership(left, right);
+  }
+
+  const bothNumbers = typeof left === 'number' && typeof right === 'number';
+  const bothStrings = typeof left === 'string' && typeof right === 'string';
+  if (!bothNumbers && !bothStrings) {
+    throw new ExpressionError(
+      `Cannot compare ${typeOf(left)} ${operator} ${typeOf(right)}; both sides must be numbers or strings`
+    );
+  }
+
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    default:
+      throw new ExpressionError(`Unknown operator '${operator}'`);
+  }
+}
+
+function evaluateNode(node: ExpressionNode, resolve: PathResolver): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return resolve(node.path);
+    case 'array':
+      return node.items.map((item) => evaluateNode(item, resolve));
+    case 'not':
+      return !evaluateNode(node.operand, resolve);
+    case 'logical': {
+      const left = Boolean(evaluateNode(node.left, resolve));
+      if (node.operator === '&&') {
+        return left && Boolean(evaluateNode(node.right, resolve));
+      }
+      return left || Boolean(evaluateNode(node.right, resolve));
+    }
+    case 'compare':
+      return compare(
+        node.operator,
+        evaluateNode(node.left, resolve),
+        evaluateNode(node.right, resolve)
+      );
+    case 'call':
+      return HELPERS[node.name].fn(...node.args.map((arg) => evaluateNode(arg, resolve)));
+  }
+}
+
+/**
+ * Parse an expression, throwing ExpressionError on invalid syntax
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source), source).parse();
+}
+
+/**
+ * Evaluate an expression to a value
+ */
+export function evaluateExpression(
+  expression: string | ExpressionNode,
+  resolve: PathResolver
+): unknown {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+  return evaluateNode(node, resolve);
+}
@@ -7,4 +7,5 @@
 export * from './types';
 export * from './registry';
 export * from './executor';
+export * from './expression';
 export * from './builtin';
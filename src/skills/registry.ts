@@ -12,6 +12,7 @@ import { existsSync } from 'fs';
 import { join, basename } from 'path';
 import { parse as parseYaml } from 'yaml';
 import type { SkillDefinition } from './types';
+import { parseExpression } from './expression';
 
 // Built-in skills
 import { investigateIncidentSkill } from './builtin/investigate-incident';
@@ -23,6 +24,25 @@ import { costAnalysisSkill } from './builtin/cost-analysis';
 import { investigateCostSpikeSkill } from './builtin/investigate-cost-spike';
 import { securityAuditSkill } from './builtin/security-audit';
 
+/**
+ * Reject skills whose conditions or forEach expressions don't parse, so
+ * mistakes surface at load time instead of silently skipping steps.
+ */
+function validateStepExpressions(skill: SkillDefinition): void {
+  for (const step of skill.steps) {
+    for (const expression of [step.condition, step.forEach]) {
+      if (!expression) continue;
+      try {
+        parseExpression(expression);
+      } catch (error) {
+        throw new Error(
+          `Step ${step.id}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+}
+
 class SkillRegistry {
   private skills: Map<string, SkillDefinition> = new Map();
   private loaded: boolean = false;
@@ -72,6 +92,7 @@ class SkillRegistry {
 
         // Validate skill has required fields
         if (skill.id && skill.name && skill.steps) {
+          validateStepExpressions(skill);
           this.skills.set(skill.id, skill);
           count++;
         }
@@ -4,6 +4,8 @@
  * Defines the structure of skills - reusable workflows for common SRE tasks.
  */
 
+import type { PlannedAction } from '../agent/execution-plan';
+
 export interface SkillParameter {
   name: string;
   description: string;
@@ -21,8 +23,12 @@ export interface SkillStep {
   action: string;
   // Parameters for the action
   parameters?: Record<string, unknown>;
-  // Condition to run this step (references previous step results)
+  // Condition to run this step (expression over parameters and previous step results)
   condition?: string;
+  // Run the step once per element of this array expression (e.g. steps.list.result.tasks)
+  forEach?: string;
+  // Loop variable name for forEach steps (default: item); the position is available as `index`
+  as?: string;
   // Whether to wait for approval before this step
   requiresApproval?: boolean;
   // Error handling
@@ -53,6 +59,8 @@ export interface SkillExecutionContext {
   startedAt: Date;
   stepResults: Map<string, SkillStepResult>;
   currentStepIndex: number;
+  // Loop variables bound while a forEach step runs
+  variables?: Record<string, unknown>;
   status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
 }
 
@@ -61,11 +69,21 @@ export interface SkillStepResult {
   status: 'success' | 'failed' | 'skipped';
   result?: unknown;
   error?: string;
+  // Per-item outcomes for forEach steps (result holds the item results in order)
+  iterations?: SkillIterationResult[];
   startedAt: Date;
   completedAt: Date;
   durationMs: number;
 }
 
+export interface SkillIterationResult {
+  index: number;
+  item: unknown;
+  status: 'success' | 'failed' | 'skipped';
+  result?: unknown;
+  error?: string;
+}
+
 export interface SkillExecutionResult {
   skillId: string;
   status: 'completed' | 'failed' | 'cancelled';
@@ -75,4 +93,6 @@ export interface SkillExecutionResult {
   completedAt: Date;
   durationMs: number;
   error?: string;
+  /** Mutations a dry run would have made */
+  plannedActions?: PlannedAction[];
 }
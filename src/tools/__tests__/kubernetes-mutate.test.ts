@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const approvalMock = vi.hoisted(() => vi.fn());
+const k8sClient = vi.hoisted(() => ({
+  getResource: vi.fn(),
+  scaleDeployment: vi.fn(),
+  restartDeployment: vi.fn(),
+  rollbackDeployment: vi.fn(),
+  deletePod: vi.fn(),
+  apply: vi.fn(),
+}));
+
+vi.mock('../../agent/approval', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../agent/approval')>();
+  return {
+    ...actual,
+    requestApprovalWithOptions: approvalMock,
+  };
+});
+
+vi.mock('../../utils/config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../utils/config')>();
+  return { ...actual, loadConfig: vi.fn(actual.loadConfig) };
+});
+
+vi.mock('../../providers/kubernetes/client', () => ({
+  createKubernetesClient: vi.fn(() => k8sClient),
+}));
+
+import { kubernetesMutateTool, toolRegistry } from '../registry';
+import { resetApprovalTracking } from '../../agent/approval';
+import { PlanRecorder, withPlanRecorder } from '../../agent/execution-plan';
+import { DEFAULT_CONFIG, loadConfig } from '../../utils/config';
+
+describe('kubernetes_mutate tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetApprovalTracking();
+    approvalMock.mockResolvedValue({ approved: true, approvedAt: new Date() });
+  });
+
+  it('is registered in the kubernetes category', () => {
+    const names = toolRegistry.getByCategory('kubernetes').map((tool) => tool.name);
+    expect(names).toContain('kubernetes_mutate');
+  });
+
+  it('classifies scale-downs as high risk and suggests a rollback to the current count', async () => {
+    k8sClient.getResource.mockResolvedValue({ spec: { replicas: 4 } });
+    k8sClient.scaleDeployment.mockResolvedValue({ success: true, message: 'scaled' });
+
+    const result = (await kubernetesMutateTool.execute({
+      action: 'scale',
+      name: 'checkout-api',
+      namespace: 'payments',
+      replicas: 2,
+      description: 'Reduce replicas',
+    })) as Record<string, unknown>;
+
+    const request = approvalMock.mock.calls[0][0];
+    expect(request.operation).toBe('kubernetes:Scale');
+    expect(request.riskLevel).toBe('high');
+    expect(request.riskReasons).toContain(
+      'Removes half or more of capacity (4 to 2): raised one level'
+    );
+    expect(request.rollbackCommand).toBe(
+      'kubectl scale deployment checkout-api --replicas=4 -n payments'
+    );
+    expect(k8sClient.scaleDeployment).toHaveBeenCalledWith('checkout-api', 2, 'payments');
+    expect(result.status).toBe('success');
+  });
+
+  it('does not execute the mutation when approval is rejected', async () => {
+    approvalMock.mockResolvedValue({ approved: false });
+
+    const result = (await kubernetesMutateTool.execute({
+      action: 'delete_pod',
+      name: 'checkout-api-7f9c',
+      namespace: 'payments',
+      description: 'Delete stuck pod',
+    })) as Record<string, unknown>;
+
+    expect(approvalMock.mock.calls[0][0].riskLevel).toBe('critical');
+    expect(k8sClient.deletePod).not.toHaveBeenCalled();
+    expect(result.status).toBe('rejected');
+  });
+
+  it('reports kubectl failures as errors', async () => {
+    k8sClient.restartDeployment.mockResolvedValue({
+      success: false,
+      message: 'deployments.apps "missing" not found',
+    });
+
+    const result = (await kubernetesMutateTool.execute({
+      action: 'restart',
+      name: 'missing',
+      description: 'Restart deployment',
+    })) as Record<string, unknown>;
+
+    expect(result.status).toBe('error');
+    expect(result.error).toContain('not found');
+  });
+
+  it('validates required arguments before requesting approval', async () => {
+    const result = (await kubernetesMutateTool.execute({
+      action: 'apply',
+      description: 'Apply manifest',
+    })) as Record<string, unknown>;
+
+    expect(result.error).toBe('manifest is required for apply');
+    expect(approvalMock).not.toHaveBeenCalled();
+  });
+
+  it('plans the kubectl command in a dry run without approval or execution', async () => {
+    k8sClient.getResource.mockResolvedValue({ spec: { replicas: 4 } });
+    const recorder = new PlanRecorder();
+
+    const result = (await withPlanRecorder(recorder, () =>
+      kubernetesMutateTool.execute({
+        action: 'scale',
+        name: 'checkout-api',
+        namespace: 'payments',
+        replicas: 2,
+        description: 'Reduce replicas',
+      })
+    )) as Record<string, unknown>;
+
+    expect(result.status).toBe('planned');
+    expect(approvalMock).not.toHaveBeenCalled();
+    expect(k8sClient.scaleDeployment).not.toHaveBeenCalled();
+    expect(recorder.actions).toHaveLength(1);
+    expect(recorder.actions[0]).toMatchObject({
+      tool: 'kubernetes_mutate',
+      riskLevel: 'high',
+      rollbackCommand: 'kubectl scale deployment checkout-api --replicas=4 -n payments',
+      args: { action: 'scale', name: 'checkout-api', replicas: 2 },
+    });
+    expect(recorder.actions[0].call).toContain(
+      '--namespace payments scale deployment checkout-api --replicas=2'
+    );
+  });
+
+  it('blocks mutations to labelled deployments during a freeze before asking for approval', async () => {
+    vi.mocked(loadConfig).mockResolvedValueOnce({
+      ...DEFAULT_CONFIG,
+      safety: {
+        ...DEFAULT_CONFIG.safety,
+        protection: {
+          timezone: 'UTC',
+          resourceTags: [],
+          rules: [
+            {
+              name: 'release-freeze',
+              effect: 'deny',
+              windows: [],
+              days: [],
+              riskLevels: [],
+              resources: [],
+              operations: [],
+              tags: { env: 'prod' },
+              skills: [],
+              breakGlass: true,
+            },
+          ],
+        },
+      },
+    });
+    k8sClient.getResource.mockResolvedValue({
+      spec: { replicas: 4 },
+      metadata: { labels: { env: 'prod' } },
+    });
+
+    const result = (await kubernetesMutateTool.execute({
+      action: 'scale',
+      name: 'checkout-api',
+      namespace: 'payments',
+      replicas: 2,
+      description: 'Reduce replicas',
+    })) as Record<string, unknown>;
+
+    expect(result.status).toBe('blocked');
+    expect(result.reason).toContain('Blocked by protection rule "release-freeze"');
+    expect(result.rules).toEqual(['release-freeze']);
+    expect(approvalMock).not.toHaveBeenCalled();
+    expect(k8sClient.scaleDeployment).not.toHaveBeenCalled();
+  });
+});
+
+describe('tool dispatch in a dry run', () => {
+  it('records writes that skip approval instead of making them', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const recorder = new PlanRecorder();
+
+    try {
+      const result = await withPlanRecorder(recorder, () =>
+        toolRegistry.get('slack_post_update')!.execute({
+          channel: '#incidents',
+          incident_id: 'PD-1',
+          message: 'Investigating',
+        })
+      );
+
+      expect(result).toEqual({ status: 'planned', planActionId: 'action_1' });
+      expect(recorder.actions.map((action) => [action.tool, action.resource])).toEqual([
+        ['slack_post_update', '#incidents'],
+      ]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -8,6 +8,7 @@ import {
   CloudWatchClient,
   GetMetricStatisticsCommand,
   DescribeAlarmsCommand,
+  ListDashboardsCommand,
   type Statistic,
 } from '@aws-sdk/client-cloudwatch';
 import {
@@ -140,6 +141,23 @@ export async function getActiveAlarms(region?: string): Promise<AlarmInfo[]> {
   return describeAlarms('ALARM', undefined, region);
 }
 
+/**
+ * List the names of all CloudWatch dashboards
+ */
+export async function listDashboards(region?: string): Promise<string[]> {
+  const cw = getCloudWatchClient(region);
+  const names: string[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await cw.send(new ListDashboardsCommand({ NextToken: nextToken }));
+    names.push(...(response.DashboardEntries || []).map((entry) => entry.DashboardName || ''));
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return names.filter(Boolean);
+}
+
 /**
  * List log groups
  */
@@ -57,12 +57,12 @@ interface GitHubIssueSearchResponse {
   }>;
 }
 
-function normalizeBaseUrl(baseUrl?: string): string {
+export function normalizeBaseUrl(baseUrl?: string): string {
   const value = (baseUrl || DEFAULT_GITHUB_API).trim();
   return value.replace(/\/+$/, '');
 }
 
-function parseRepository(repository: string): { owner: string; repo: string } {
+export function parseRepository(repository: string): { owner: string; repo: string } {
   const cleaned = repository
     .trim()
     .replace(/^https?:\/\/github\.com\//i, '')
@@ -80,6 +80,13 @@ function parseRepository(repository: string): { owner: string; repo: string } {
   };
 }
 
+/**
+ * Resolve the GitHub token from explicit config or the standard environment variables.
+ */
+export function resolveGitHubToken(configured?: string): string | undefined {
+  return configured || process.env.RUNBOOK_GITHUB_TOKEN || process.env.GITHUB_TOKEN || undefined;
+}
+
 function extractSearchTerms(input: string): string[] {
   return input
     .toLowerCase()
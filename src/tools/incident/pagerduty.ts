@@ -49,8 +49,8 @@ function sanitizeIdentifier(value: string, label: string): string {
   return sanitized;
 }
 
-function getApiKey(): string {
-  const raw = config?.apiKey || process.env.PAGERDUTY_API_KEY;
+function getApiKey(apiKey?: string): string {
+  const raw = apiKey || config?.apiKey || process.env.PAGERDUTY_API_KEY;
   if (!raw) {
     throw new Error(
       'PagerDuty API key not configured. Set PAGERDUTY_API_KEY environment variable.'
@@ -59,10 +59,16 @@ function getApiKey(): string {
   return sanitizeIdentifier(raw, 'API key');
 }
 
-async function pdFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
-  const apiKey = getApiKey();
+/**
+ * Call the PagerDuty REST API, with `apiKey` or else the configured key
+ */
+export async function pdFetch<T>(
+  path: string,
+  options: RequestInit = {},
+  apiKey?: string
+): Promise<T> {
   const headers = new Headers(options.headers);
-  headers.set('Authorization', `Token token=${apiKey}`);
+  headers.set('Authorization', `Token token=${getApiKey(apiKey)}`);
   headers.set('Accept', 'application/vnd.pagerduty+json;version=2');
   if (!headers.has('Content-Type')) {
     headers.set('Content-Type', 'application/json');
@@ -336,8 +336,12 @@ export async function requestSlackApproval(
     resource: string;
     description: string;
     riskLevel: 'low' | 'medium' | 'high' | 'critical';
+    /** Why the risk level was assigned */
+    riskReasons?: string[];
     estimatedImpact?: string;
     rollbackCommand?: string;
+    /** Shown when the approval policy needs more than one approver */
+    approvalPolicy?: string;
   }
 ): Promise<SlackMessage> {
   const riskColor: Record<string, string> = {
@@ -393,6 +397,16 @@ export async function requestSlackApproval(
     },
   ];
 
+  if (request.riskReasons?.length) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*Why ${request.riskLevel}:*\n${request.riskReasons.map((reason) => `• ${reason}`).join('\n')}`,
+      },
+    });
+  }
+
   if (request.estimatedImpact) {
     blocks.push({
       type: 'section',
@@ -413,6 +427,16 @@ export async function requestSlackApproval(
     });
   }
 
+  if (request.approvalPolicy) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*Approval Policy:*\n${request.approvalPolicy}`,
+      },
+    });
+  }
+
   blocks.push({
     type: 'actions',
     elements: [
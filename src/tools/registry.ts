@@ -6,6 +6,8 @@
  */
 
 import type { Tool } from '../agent/types';
+import type { UpdateServiceCommandInput } from '@aws-sdk/client-ecs';
+import type { UpdateFunctionConfigurationCommandInput } from '@aws-sdk/client-lambda';
 import { getActiveAlarms, filterLogEvents } from './aws/cloudwatch';
 import {
   getIncident,
@@ -50,6 +52,10 @@ import {
   COMMON_QUERIES,
 } from './observability/prometheus';
 import { createRetriever } from '../knowledge/retriever';
+import {
+  isReadOnlyAwsCliOperation,
+  parseAwsCliServiceAndOperation,
+} from '../knowledge/indexer/commands';
 import {
   AWS_SERVICES,
   getServiceById,
@@ -65,13 +71,29 @@ import {
   checkMutationLimit,
   recordApprovedMutation,
   normalizeApprovalRiskLevels,
+  type ApprovalOptions,
   type MutationRequest,
   type RiskLevel,
   type ApprovalPolicyRisk,
 } from '../agent/approval';
-import { loadConfig } from '../utils/config';
+import { recordAuditEvent } from '../audit';
+import {
+  UNAPPROVED_WRITE_TOOLS,
+  getPlanRecorder,
+  planUnapprovedWrite,
+  recordPlannedAction,
+} from '../agent/execution-plan';
+import { enforceProtectionRules } from '../agent/protection-rules';
+import {
+  assessRisk,
+  runbookCommandRisk,
+  type RiskAssessment,
+  type RiskTarget,
+} from '../agent/risk-classifier';
+import type { RetrievedChunk } from '../knowledge/types';
+import { loadConfig, type Config } from '../utils/config';
 import { createKubernetesClient } from '../providers/kubernetes/client';
-import { findGitHubFixCandidates } from './code/github';
+import { findGitHubFixCandidates, resolveGitHubToken } from './code/github';
 import { findGitLabFixCandidates } from './code/gitlab';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
@@ -106,6 +128,122 @@ async function getSafetySettings() {
   };
 }
 
+function getApprovalOptions(config: Config, autoApprove: RiskLevel[]): ApprovalOptions {
+  const approval = config.safety.approval;
+  return {
+    useSlack: config.incident.slack.enabled,
+    backend: approval.backend === 'auto' ? undefined : approval.backend,
+    policy: { groups: approval.groups, rules: approval.rules },
+    timeoutMs: approval.timeoutMs,
+    http: approval.http,
+    fileDir: approval.file.dir,
+    autoApprove,
+  };
+}
+
+/**
+ * Record an executed mutation in the audit log. Kubernetes rollbacks are
+ * recorded as rollback events.
+ */
+async function auditMutation(
+  request: MutationRequest,
+  outcome: 'success' | 'failure',
+  details: Record<string, unknown> = {},
+  type: 'mutation' | 'rollback' = 'mutation'
+): Promise<void> {
+  await recordAuditEvent({
+    type,
+    action: request.operation,
+    resource: request.resource,
+    args: request.parameters,
+    outcome,
+    details: {
+      mutationId: request.id,
+      riskLevel: request.riskLevel,
+      riskReasons: request.riskReasons,
+      ...details,
+    },
+  });
+}
+
+/**
+ * In a dry run, record the mutation in the plan instead of executing it.
+ * Returns null when not in a dry run.
+ */
+function planMutation(
+  tool: string,
+  args: Record<string, unknown>,
+  request: MutationRequest,
+  call: Record<string, unknown> | string
+): Record<string, unknown> | null {
+  const action = recordPlannedAction({
+    tool,
+    args,
+    operation: request.operation,
+    resource: request.resource,
+    description: request.description,
+    riskLevel: request.riskLevel,
+    rollbackCommand: request.rollbackCommand,
+    estimatedImpact: request.estimatedImpact,
+    call,
+  });
+  if (!action) {
+    return null;
+  }
+  return {
+    status: 'planned',
+    planActionId: action.id,
+    operation: request.operation,
+    resource: request.resource,
+    riskLevel: request.riskLevel,
+    call,
+    rollbackCommand: request.rollbackCommand,
+  };
+}
+
+/**
+ * Classify a mutation's risk from its target, using the service graph for
+ * service tiers when one has been built
+ */
+async function assessMutationRisk(config: Config, target: RiskTarget): Promise<RiskAssessment> {
+  let graph;
+  try {
+    const { loadServiceGraph } = await import('../knowledge/store/graph-sqlite');
+    graph = loadServiceGraph();
+  } catch {
+    // Classify without service tiers
+  }
+  return assessRisk(target, { config: config.safety.risk, graph });
+}
+
+/**
+ * Check protection rules (change freezes, weekend and incident rules) for a
+ * mutation. Without looked-up tags, rules fall back to the tags configured in
+ * safety.protection.resourceTags.
+ * Returns a blocked result, or null when the mutation may go on to approval.
+ */
+async function checkProtection(
+  config: Config,
+  request: MutationRequest,
+  tags?: Record<string, string>
+): Promise<Record<string, unknown> | null> {
+  const decision = await enforceProtectionRules(request, config.safety.protection, { tags });
+  if (!decision.allowed) {
+    return {
+      status: 'blocked',
+      reason: decision.reason,
+      rules: decision.denials.map((denial) => denial.rule),
+      mutationId: request.id,
+      riskLevel: request.riskLevel,
+    };
+  }
+  if (decision.overridden) {
+    // Make the override visible to approvers
+    request.description = `[BREAK-GLASS: ${decision.overridden.map((d) => d.rule).join(', ')}] ${request.description}`;
+  }
+  return null;
+}
+
 export interface ToolCategory {
   name: string;
   description: string;
@@ -206,7 +344,16 @@ export function defineTool(
   parameters: Tool['parameters'],
   execute: Tool['execute']
 ): Tool {
-  return { name, description, parameters, execute };
+  if (!UNAPPROVED_WRITE_TOOLS.has(name)) {
+    return { name, description, parameters, execute };
+  }
+  // Writes with no approval flow of their own are only recorded during a dry run
+  return {
+    name,
+    description,
+    parameters,
+    execute: async (args) => planUnapprovedWrite(name, args) ?? execute(args),
+  };
 }
 
 // Build dynamic service list for description
@@ -589,8 +736,22 @@ export const awsMutateTool = defineTool(
     const estimatedImpact = args.estimatedImpact as string | undefined;
     const { config, autoApproveRisks } = await getSafetySettings();
 
-    // Classify risk level
-    const riskLevel = classifyRisk(operation, resource);
+    let target: { tags?: Record<string, string>; currentCount?: number } = {};
+    try {
+      target = await lookupAwsTarget(operation, resource, parameters);
+    } catch {
+      // Classify from the operation and resource name alone
+    }
+
+    // Classify risk level from the target
+    const risk = await assessMutationRisk(config, {
+      operation,
+      resource,
+      tags: target.tags,
+      currentCount: target.currentCount,
+      desiredCount: parameters.desiredCount as number | undefined,
+    });
+    const riskLevel = risk.level;
 
     // Check mutation budget
     const limit = checkMutationLimit(config.safety.maxMutationsPerSession);
@@ -622,16 +783,37 @@ export const awsMutateTool = defineTool(
       resource,
       description,
       riskLevel,
+      riskReasons: risk.reasons,
       parameters,
       rollbackCommand,
       estimatedImpact,
     };
 
+    const blocked = await checkProtection(config, request, target.tags);
+    if (blocked) {
+      return blocked;
+    }
+
+    if (getPlanRecorder()) {
+      let call: ReturnType<typeof describeAwsMutation>;
+      try {
+        call = describeAwsMutation(operation, resource, parameters);
+      } catch (error) {
+        return {
+          status: 'error',
+          operation,
+          resource,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+      return planMutation('aws_mutate', args, request, call);
+    }
+
     // Request approval based on configured safety policy
-    const approval = await requestApprovalWithOptions(request, {
-      useSlack: config.incident.slack.enabled,
-      autoApprove: autoApproveRisks,
-    });
+    const approval = await requestApprovalWithOptions(
+      request,
+      getApprovalOptions(config, autoApproveRisks)
+    );
 
     if (!approval.approved) {
       return {
@@ -648,6 +830,7 @@ export const awsMutateTool = defineTool(
     // Execute the operation
     try {
       const result = await executeAwsMutation(operation, resource, parameters);
+      await auditMutation(request, 'success');
       return {
         status: 'success',
         mutationId: request.id,
@@ -658,12 +841,14 @@ export const awsMutateTool = defineTool(
         rollbackCommand,
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await auditMutation(request, 'failure', { error: message });
       return {
         status: 'error',
         mutationId: request.id,
         operation,
         resource,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: message,
         rollbackCommand,
       };
     }
@@ -671,56 +856,170 @@ export const awsMutateTool = defineTool(
 );
 
 /**
- * Execute an AWS mutation operation
+ * The exact AWS API request for a mutation, shared by execution and dry runs
  */
-async function executeAwsMutation(
+export type AwsMutationCall =
+  | { operation: 'ecs:UpdateService'; region: string; input: UpdateServiceCommandInput }
+  | {
+      operation: 'ec2:RebootInstances' | 'ec2:StopInstances' | 'ec2:StartInstances';
+      region: string;
+      input: { InstanceIds: string[] };
+    }
+  | {
+      operation: 'lambda:UpdateFunctionConfiguration';
+      region: string;
+      input: UpdateFunctionConfigurationCommandInput;
+    };
+
+export function describeAwsMutation(
   operation: string,
   resource: string,
   parameters: Record<string, unknown>
-): Promise<Record<string, unknown>> {
+): AwsMutationCall {
   const [service, action] = operation.split(':');
+  const region = (parameters.region as string) || 'us-east-1';
 
   switch (service.toLowerCase()) {
-    case 'ecs': {
-      const { ECSClient, UpdateServiceCommand } = await import('@aws-sdk/client-ecs');
-      const client = new ECSClient({ region: (parameters.region as string) || 'us-east-1' });
-
+    case 'ecs':
       if (action === 'UpdateService') {
-        const command = new UpdateServiceCommand({
-          cluster: parameters.cluster as string,
-          service: resource,
-          desiredCount: parameters.desiredCount as number | undefined,
-          forceNewDeployment: parameters.forceNewDeployment as boolean | undefined,
-        });
-        const response = await client.send(command);
         return {
-          serviceName: response.service?.serviceName,
-          desiredCount: response.service?.desiredCount,
-          runningCount: response.service?.runningCount,
-          status: response.service?.status,
+          operation: 'ecs:UpdateService',
+          region,
+          input: {
+            cluster: parameters.cluster as string,
+            service: resource,
+            desiredCount: parameters.desiredCount as number | undefined,
+            forceNewDeployment: parameters.forceNewDeployment as boolean | undefined,
+          },
         };
       }
       break;
-    }
 
+    case 'ec2':
+      if (
+        action === 'RebootInstances' ||
+        action === 'StopInstances' ||
+        action === 'StartInstances'
+      ) {
+        return { operation: `ec2:${action}`, region, input: { InstanceIds: [resource] } };
+      }
+      break;
+
+    case 'lambda':
+      if (action === 'UpdateFunctionConfiguration') {
+        return {
+          operation: 'lambda:UpdateFunctionConfiguration',
+          region,
+          input: {
+            FunctionName: resource,
+            MemorySize: parameters.memorySize as number | undefined,
+            Timeout: parameters.timeout as number | undefined,
+            Environment: parameters.environment as
+              | { Variables?: Record<string, string> }
+              | undefined,
+          },
+        };
+      }
+      break;
+
+    default:
+      throw new Error(
+        `Unsupported operation: ${operation}. Supported: ecs:UpdateService, ec2:RebootInstances, ec2:StopInstances, ec2:StartInstances, lambda:UpdateFunctionConfiguration`
+      );
+  }
+
+  throw new Error(`Unknown action ${action} for service ${service}`);
+}
+
+/**
+ * Tags and current desired count of the resource an AWS mutation targets
+ */
+async function lookupAwsTarget(
+  operation: string,
+  resource: string,
+  parameters: Record<string, unknown>
+): Promise<{ tags?: Record<string, string>; currentCount?: number }> {
+  const region = (parameters.region as string) || 'us-east-1';
+
+  switch (operation.split(':')[0].toLowerCase()) {
+    case 'ecs': {
+      const { ECSClient, DescribeServicesCommand } = await import('@aws-sdk/client-ecs');
+      const response = await new ECSClient({ region }).send(
+        new DescribeServicesCommand({
+          cluster: parameters.cluster as string | undefined,
+          services: [resource],
+          include: ['TAGS'],
+        })
+      );
+      const service = response.services?.[0];
+      return {
+        tags: Object.fromEntries(
+          (service?.tags || []).map((tag) => [tag.key || '', tag.value || ''])
+        ),
+        currentCount: service?.desiredCount,
+      };
+    }
     case 'ec2': {
+      const { EC2Client, DescribeTagsCommand } = await import('@aws-sdk/client-ec2');
+      const response = await new EC2Client({ region }).send(
+        new DescribeTagsCommand({ Filters: [{ Name: 'resource-id', Values: [resource] }] })
+      );
+      return {
+        tags: Object.fromEntries(
+          (response.Tags || []).map((tag) => [tag.Key || '', tag.Value || ''])
+        ),
+      };
+    }
+    case 'lambda': {
+      const { LambdaClient, GetFunctionCommand } = await import('@aws-sdk/client-lambda');
+      const response = await new LambdaClient({ region }).send(
+        new GetFunctionCommand({ FunctionName: resource })
+      );
+      return { tags: response.Tags || {} };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Execute an AWS mutation operation
+ */
+async function executeAwsMutation(
+  operation: string,
+  resource: string,
+  parameters: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const call = describeAwsMutation(operation, resource, parameters);
+  const { region } = call;
+
+  switch (call.operation) {
+    case 'ecs:UpdateService': {
+      const { ECSClient, UpdateServiceCommand } = await import('@aws-sdk/client-ecs');
+      const client = new ECSClient({ region });
+      const response = await client.send(new UpdateServiceCommand(call.input));
+      return {
+        serviceName: response.service?.serviceName,
+        desiredCount: response.service?.desiredCount,
+        runningCount: response.service?.runningCount,
+        status: response.service?.status,
+      };
+    }
+
+    case 'ec2:RebootInstances':
+    case 'ec2:StopInstances':
+    case 'ec2:StartInstances': {
       const { EC2Client, RebootInstancesCommand, StopInstancesCommand, StartInstancesCommand } =
         await import('@aws-sdk/client-ec2');
-      const client = new EC2Client({ region: (parameters.region as string) || 'us-east-1' });
+      const client = new EC2Client({ region });
 
-      if (action === 'RebootInstances') {
-        const command = new RebootInstancesCommand({
-          InstanceIds: [resource],
-        });
-        await client.send(command);
+      if (call.operation === 'ec2:RebootInstances') {
+        await client.send(new RebootInstancesCommand(call.input));
         return { instanceId: resource, action: 'rebooting' };
       }
 
-      if (action === 'StopInstances') {
-        const command = new StopInstancesCommand({
-          InstanceIds: [resource],
-        });
-        const response = await client.send(command);
+      if (call.operation === 'ec2:StopInstances') {
+        const response = await client.send(new StopInstancesCommand(call.input));
         return {
           instanceId: resource,
           previousState: response.StoppingInstances?.[0]?.PreviousState?.Name,
@@ -728,50 +1027,27 @@ async function executeAwsMutation(
         };
       }
 
-      if (action === 'StartInstances') {
-        const command = new StartInstancesCommand({
-          InstanceIds: [resource],
-        });
-        const response = await client.send(command);
-        return {
-          instanceId: resource,
-          previousState: response.StartingInstances?.[0]?.PreviousState?.Name,
-          currentState: response.StartingInstances?.[0]?.CurrentState?.Name,
-        };
-      }
-      break;
+      const response = await client.send(new StartInstancesCommand(call.input));
+      return {
+        instanceId: resource,
+        previousState: response.StartingInstances?.[0]?.PreviousState?.Name,
+        currentState: response.StartingInstances?.[0]?.CurrentState?.Name,
+      };
     }
 
-    case 'lambda': {
+    case 'lambda:UpdateFunctionConfiguration': {
       const { LambdaClient, UpdateFunctionConfigurationCommand } =
         await import('@aws-sdk/client-lambda');
-      const client = new LambdaClient({ region: (parameters.region as string) || 'us-east-1' });
-
-      if (action === 'UpdateFunctionConfiguration') {
-        const command = new UpdateFunctionConfigurationCommand({
-          FunctionName: resource,
-          MemorySize: parameters.memorySize as number | undefined,
-          Timeout: parameters.timeout as number | undefined,
-          Environment: parameters.environment as { Variables?: Record<string, string> } | undefined,
-        });
-        const response = await client.send(command);
-        return {
-          functionName: response.FunctionName,
-          memorySize: response.MemorySize,
-          timeout: response.Timeout,
-          lastModified: response.LastModified,
-        };
-      }
-      break;
+      const client = new LambdaClient({ region });
+      const response = await client.send(new UpdateFunctionConfigurationCommand(call.input));
+      return {
+        functionName: response.FunctionName,
+        memorySize: response.MemorySize,
+        timeout: response.Timeout,
+        lastModified: response.LastModified,
+      };
     }
-
-    default:
-      throw new Error(
-        `Unsupported operation: ${operation}. Supported: ecs:UpdateService, ec2:RebootInstances, ec2:StopInstances, ec2:StartInstances, lambda:UpdateFunctionConfiguration`
-      );
   }
-
-  throw new Error(`Unknown action ${action} for service ${service}`);
 }
 
 // Global retriever instance
@@ -784,6 +1060,32 @@ function getRetriever() {
   return retriever;
 }
 
+/**
+ * A retrieved chunk as the agent sees it: where it sits in its document, and
+ * which commands it runs with the risk of those that change things
+ */
+function describeKnowledgeChunk(chunk: RetrievedChunk) {
+  return {
+    title: chunk.title,
+    ...(chunk.documentTitle && chunk.documentTitle !== chunk.title
+      ? { document: chunk.documentTitle }
+      : {}),
+    ...(chunk.stepNumber ? { step: chunk.stepNumber } : {}),
+    ...(chunk.lineStart ? { lines: `${chunk.lineStart}-${chunk.lineEnd}` } : {}),
+    content: chunk.content,
+    ...(chunk.commands
+      ? {
+          commands: chunk.commands.map((command) => ({
+            command: command.command,
+            operation: command.operation,
+            mutating: command.mutating,
+            ...(command.mutating ? { risk: runbookCommandRisk(command) } : {}),
+          })),
+        }
+      : {}),
+  };
+}
+
 /**
  * Knowledge Search Tool
  */
@@ -796,7 +1098,11 @@ export const searchKnowledgeTool = defineTool(
    - You need a runbook for a specific procedure
    - Looking for past incidents similar to current issue
    - Need to understand service architecture
-   - Checking for known issues or workarounds`,
+   - Checking for known issues or workarounds
+
+   Runbook results are split into steps. Cite them by step number and document
+   (e.g. "step 4 of the Redis runbook"). Commands marked mutating change
+   infrastructure: run them only through aws_mutate or kubernetes_mutate.`,
   {
     type: 'object',
     properties: {
@@ -843,9 +1149,9 @@ export const searchKnowledgeTool = defineTool(
 
       return {
         documentCount: total,
-        runbooks: results.runbooks.map((r) => ({ title: r.title, content: r.content })),
-        postmortems: results.postmortems.map((r) => ({ title: r.title, content: r.content })),
-        knownIssues: results.knownIssues.map((r) => ({ title: r.title, content: r.content })),
+        runbooks: results.runbooks.map(describeKnowledgeChunk),
+        postmortems: results.postmortems.map(describeKnowledgeChunk),
+        knownIssues: results.knownIssues.map(describeKnowledgeChunk),
       };
     } catch (error) {
       return { error: error instanceof Error ? error.message : 'Unknown error' };
@@ -1065,7 +1371,8 @@ export const skillTool = defineTool(
    - troubleshoot-service: Diagnose and fix service issues
    - rollback-deployment: Quick and safe rollback
 
-   Use 'list' as the skill name to see all available skills.`,
+   Use 'list' as the skill name to see all available skills.
+   Set dry_run to see the exact changes a skill would make without making them.`,
   {
     type: 'object',
     properties: {
@@ -1077,6 +1384,10 @@ export const skillTool = defineTool(
         type: 'object',
         description: 'Arguments for the skill (varies by skill)',
       },
+      dry_run: {
+        type: 'boolean',
+        description: 'Plan mutations instead of executing them',
+      },
     },
     required: ['name'],
   },
@@ -1086,6 +1397,7 @@ export const skillTool = defineTool(
     const { createLLMClient } = await import('../model/llm');
     const skillName = args.name as string;
     const skillArgs = (args.args as Record<string, unknown>) || {};
+    const dryRun = args.dry_run === true || getPlanRecorder() !== undefined;
     const config = await loadConfig();
 
     // Load user skills so runtime reflects .runbook/skills.
@@ -1147,6 +1459,7 @@ export const skillTool = defineTool(
 
     const executor = new SkillExecutor({
       llm,
+      dryRun,
       onApprovalRequired: async (step) => {
         const riskLevel = skill.riskLevel || classifyRisk(step.action, skill.id);
         const limit = checkMutationLimit(config.safety.maxMutationsPerSession);
@@ -1169,10 +1482,10 @@ export const skillTool = defineTool(
           estimatedImpact: step.description,
         };
 
-        const approval = await requestApprovalWithOptions(request, {
-          useSlack: config.incident.slack.enabled,
-          autoApprove: safetyAutoApproveRisks,
-        });
+        const approval = await requestApprovalWithOptions(
+          request,
+          getApprovalOptions(config, safetyAutoApproveRisks)
+        );
         if (approval.approved) {
           recordApprovedMutation(riskLevel);
         }
@@ -1204,7 +1517,10 @@ export const skillTool = defineTool(
         })),
         error: execution.error,
       },
-      message: `Skill "${skill.name}" execution ${execution.status}.`,
+      ...(execution.plannedActions && { plannedActions: execution.plannedActions }),
+      message: dryRun
+        ? `Skill "${skill.name}" dry run ${execution.status}: ${execution.plannedActions?.length ?? 0} change(s) planned, nothing was modified.`
+        : `Skill "${skill.name}" execution ${execution.status}.`,
     };
   }
 );
@@ -1454,30 +1770,6 @@ function preprocessDateExpressions(command: string): string {
   return processedCommand;
 }
 
-const READ_ONLY_AWS_CLI_PREFIXES = [
-  'get',
-  'list',
-  'describe',
-  'batch-get',
-  'head',
-  'lookup',
-  'search',
-  'query',
-  'scan',
-  'select',
-  'tail',
-];
-
-const READ_ONLY_AWS_CLI_EXACT = new Set(['ls', 'help']);
-
-function tokenizeCliCommand(command: string): string[] {
-  const matches = command.match(/"[^"]*"|'[^']*'|\S+/g) || [];
-  return matches
-    .map((token) => token.trim())
-    .filter(Boolean)
-    .map((token) => token.replace(/^['"]|['"]$/g, ''));
-}
-
 function hasDangerousShellOperators(command: string): boolean {
   return (
     command.includes(';') ||
@@ -1490,41 +1782,6 @@ function hasDangerousShellOperators(command: string): boolean {
   );
 }
 
-function parseAwsCliServiceAndOperation(command: string): { service?: string; operation?: string } {
-  const tokens = tokenizeCliCommand(command);
-  if (tokens.length < 3 || tokens[0] !== 'aws') {
-    return {};
-  }
-
-  let index = 1;
-  while (index < tokens.length && tokens[index].startsWith('-')) {
-    const flag = tokens[index];
-    const next = tokens[index + 1];
-    if (!flag.startsWith('--no-') && next && !next.startsWith('-')) {
-      index += 2;
-      continue;
-    }
-    index += 1;
-  }
-
-  const service = tokens[index];
-  const operation = tokens[index + 1];
-  return { service, operation };
-}
-
-function isReadOnlyAwsCliOperation(operation: string): boolean {
-  const normalized = operation.toLowerCase().trim();
-  if (!normalized) {
-    return false;
-  }
-  if (READ_ONLY_AWS_CLI_EXACT.has(normalized)) {
-    return true;
-  }
-  return READ_ONLY_AWS_CLI_PREFIXES.some(
-    (prefix) => normalized === prefix || normalized.startsWith(`${prefix}-`)
-  );
-}
-
 /**
  * AWS CLI Fallback Tool
  *
@@ -1859,6 +2116,368 @@ export const kubernetesQueryTool = defineTool(
   }
 );
 
+const KUBERNETES_MUTATION_OPERATIONS: Record<string, string> = {
+  scale: 'kubernetes:Scale',
+  restart: 'kubernetes:RolloutRestart',
+  rollback: 'kubernetes:RolloutUndo',
+  delete_pod: 'kubernetes:DeletePod',
+  apply: 'kubernetes:Apply',
+};
+
+/**
+ * Build a kubectl-style resource identifier for approval display and risk classification
+ */
+function describeKubernetesTarget(
+  action: string,
+  name: string | undefined,
+  namespace: string | undefined,
+  context: string | undefined
+): string {
+  const kind = action === 'delete_pod' ? 'pod' : action === 'apply' ? 'manifest' : 'deployment';
+  const parts = [context, namespace || 'default', `${kind}/${name || 'inline'}`];
+  return parts.filter(Boolean).join('/');
+}
+
+/**
+ * Suggest a rollback command for a Kubernetes mutation when the caller didn't provide one
+ */
+function suggestKubernetesRollback(
+  action: string,
+  name: string | undefined,
+  namespace: string | undefined,
+  currentReplicas: number | undefined
+): string | undefined {
+  const ns = namespace ? ` -n ${namespace}` : '';
+  switch (action) {
+    case 'scale':
+      return currentReplicas !== undefined
+        ? `kubectl scale deployment ${name} --replicas=${currentReplicas}${ns}`
+        : undefined;
+    case 'restart':
+    case 'rollback':
+      return `kubectl rollout undo deployment ${name}${ns}`;
+    case 'delete_pod':
+      return 'Pod will be recreated by its controller (no rollback needed for managed pods)';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The kubectl command a Kubernetes mutation runs. `apply` reads the manifest
+ * from stdin.
+ */
+function describeKubernetesMutation(
+  parameters: Record<string, unknown>,
+  kubeconfig: string | undefined
+): string {
+  const { action, name, namespace, context, replicas, revision, gracePeriodSeconds } =
+    parameters as {
+      action: string;
+      name?: string;
+      namespace?: string;
+      context?: string;
+      replicas?: number;
+      revision?: number;
+      gracePeriodSeconds?: number;
+    };
+
+  const args = ['kubectl'];
+  if (kubeconfig) args.push('--kubeconfig', kubeconfig);
+  if (namespace) args.push('--namespace', namespace);
+  if (context) args.push('--context', context);
+
+  switch (action) {
+    case 'scale':
+      args.push('scale', 'deployment', name as string, `--replicas=${replicas}`);
+      break;
+    case 'restart':
+      args.push('rollout', 'restart', 'deployment', name as string);
+      break;
+    case 'rollback':
+      args.push('rollout', 'undo', 'deployment', name as string);
+      if (revision) args.push(`--to-revision=${revision}`);
+      break;
+    case 'delete_pod':
+      args.push('delete', 'pod', name as string);
+      if (gracePeriodSeconds !== undefined) args.push(`--grace-period=${gracePeriodSeconds}`);
+      break;
+    default:
+      args.push('apply', '-f', '-');
+      break;
+  }
+  return args.join(' ');
+}
+
+/**
+ * Kubernetes Mutate Tool - State-changing Kubernetes operations (requires approval)
+ */
+export const kubernetesMutateTool = defineTool(
+  'kubernetes_mutate',
+  `Execute state-changing Kubernetes operations. Requires explicit approval.
+
+   Use for:
+   - Scaling deployments (scale)
+   - Rolling restarts of deployments (restart)
+   - Rolling back a deployment to a previous revision (rollback)
+   - Deleting a stuck or crash-looping pod (delete_pod)
+   - Applying a manifest (apply)
+
+   Always provide rollback instructions.`,
+  {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        description: 'Kubernetes mutation to perform',
+        enum: ['scale', 'restart', 'rollback', 'delete_pod', 'apply'],
+      },
+      name: {
+        type: 'string',
+        description: 'Deployment name (scale/restart/rollback) or pod name (delete_pod)',
+      },
+      namespace: {
+        type: 'string',
+        description: 'Namespace of the target resource',
+      },
+      context: {
+        type: 'string',
+        description: 'Optional kube context to target',
+      },
+      replicas: {
+        type: 'number',
+        description: 'Desired replica count (required for scale)',
+      },
+      revision: {
+        type: 'number',
+        description: 'Revision to roll back to (rollback only, defaults to previous revision)',
+      },
+      grace_period_seconds: {
+        type: 'number',
+        description: 'Grace period for pod deletion (delete_pod only)',
+      },
+      manifest: {
+        type: 'string',
+        description: 'YAML or JSON manifest to apply (required for apply)',
+      },
+      description: {
+        type: 'string',
+        description: 'Human-readable description of what this change does',
+      },
+      rollbackCommand: {
+        type: 'string',
+        description: 'Command or instructions to rollback this change',
+      },
+      estimatedImpact: {
+        type: 'string',
+        description: 'Estimated impact of this operation (e.g., "pods restart over ~2 min")',
+      },
+    },
+    required: ['action', 'description'],
+  },
+  async (args) => {
+    const action = args.action as string;
+    const name = args.name as string | undefined;
+    const replicas = args.replicas as number | undefined;
+    const revision = args.revision as number | undefined;
+    const gracePeriod = args.grace_period_seconds as number | undefined;
+    const manifest = args.manifest as string | undefined;
+    const description = args.description as string;
+    const estimatedImpact = args.estimatedImpact as string | undefined;
+    const { config, autoApproveRisks } = await getSafetySettings();
+
+    const operation = KUBERNETES_MUTATION_OPERATIONS[action];
+    if (!operation) {
+      return {
+        error: `Unsupported kubernetes mutation: ${action}`,
+      };
+    }
+    if (action === 'apply' && !manifest) {
+      return { error: 'manifest is required for apply' };
+    }
+    if (action !== 'apply' && !name) {
+      return { error: `name is required for ${action}` };
+    }
+    if (action === 'scale' && (typeof replicas !== 'number' || replicas < 0)) {
+      return { error: 'replicas must be a non-negative number for scale' };
+    }
+
+    const k8sConfig = config.providers.kubernetes;
+    const namespace = (args.namespace as string | undefined) || k8sConfig.namespace;
+    const context = (args.context as string | undefined) || k8sConfig.context;
+    const client = createKubernetesClient({
+      context,
+      namespace,
+      kubeconfig: k8sConfig.kubeconfig,
+    });
+
+    // Read the target's labels, and its replica count so scale-downs are
+    // visible and reversible
+    let labels: Record<string, string> | undefined;
+    let currentReplicas: number | undefined;
+    if (name && action !== 'apply') {
+      const target = await client.getResource<{
+        spec?: { replicas?: number };
+        metadata?: { labels?: Record<string, string> };
+      }>(action === 'delete_pod' ? 'pods' : 'deployments', name, namespace);
+      labels = target?.metadata?.labels;
+      currentReplicas = action === 'scale' ? target?.spec?.replicas : undefined;
+    }
+
+    const resource = describeKubernetesTarget(action, name, namespace, context);
+
+    // Classify risk level from the target
+    const risk = await assessMutationRisk(config, {
+      operation,
+      resource,
+      tags: labels,
+      currentCount: currentReplicas,
+      desiredCount: action === 'scale' ? replicas : undefined,
+    });
+    const riskLevel = risk.level;
+
+    // Check mutation budget
+    const limit = checkMutationLimit(config.safety.maxMutationsPerSession);
+    if (!limit.allowed) {
+      return {
+        status: 'blocked',
+        reason: `Session mutation limit reached (${config.safety.maxMutationsPerSession}).`,
+        riskLevel,
+      };
+    }
+
+    // Check cooldown for critical operations
+    if (riskLevel === 'critical') {
+      const cooldown = checkCooldown(operation, config.safety.cooldownBetweenCriticalMs);
+      if (!cooldown.allowed) {
+        const remainingSecs = Math.ceil(cooldown.remainingMs / 1000);
+        return {
+          status: 'blocked',
+          reason: `Cooldown active. Please wait ${remainingSecs} seconds before another critical operation.`,
+          riskLevel,
+        };
+      }
+    }
+
+    const rollbackCommand =
+      (args.rollbackCommand as string | undefined) ||
+      suggestKubernetesRollback(action, name, namespace, currentReplicas);
+
+    const parameters: Record<string, unknown> = { action };
+    if (name) parameters.name = name;
+    if (namespace) parameters.namespace = namespace;
+    if (context) parameters.context = context;
+    if (replicas !== undefined) parameters.replicas = replicas;
+    if (currentReplicas !== undefined) parameters.currentReplicas = currentReplicas;
+    if (revision !== undefined) parameters.revision = revision;
+    if (gracePeriod !== undefined) parameters.gracePeriodSeconds = gracePeriod;
+    if (manifest) parameters.manifest = manifest;
+
+    // Create mutation request
+    const request: MutationRequest = {
+      id: generateMutationId(),
+      operation,
+      resource,
+      description,
+      riskLevel,
+      riskReasons: risk.reasons,
+      parameters,
+      rollbackCommand,
+      estimatedImpact,
+    };
+
+    const blocked = await checkProtection(config, request, labels);
+    if (blocked) {
+      return blocked;
+    }
+
+    const planned = planMutation(
+      'kubernetes_mutate',
+      args,
+      request,
+      describeKubernetesMutation(parameters, k8sConfig.kubeconfig)
+    );
+    if (planned) {
+      return planned;
+    }
+
+    // Request approval based on configured safety policy
+    const approval = await requestApprovalWithOptions(
+      request,
+      getApprovalOptions(config, autoApproveRisks)
+    );
+
+    if (!approval.approved) {
+      return {
+        status: 'rejected',
+        reason: 'Operation rejected by user',
+        mutationId: request.id,
+        riskLevel,
+      };
+    }
+
+    // Record mutation for policy tracking
+    recordApprovedMutation(riskLevel);
+    const auditType = action === 'rollback' ? 'rollback' : 'mutation';
+
+    try {
+      let result: { success: boolean; message: string };
+      switch (action) {
+        case 'scale':
+          result = await client.scaleDeployment(name as string, replicas as number, namespace);
+          break;
+        case 'restart':
+          result = await client.restartDeployment(name as string, namespace);
+          break;
+        case 'rollback':
+          result = await client.rollbackDeployment(name as string, revision, namespace);
+          break;
+        case 'delete_pod':
+          result = await client.deletePod(name as string, namespace, gracePeriod);
+          break;
+        default:
+          result = await client.apply(manifest as string);
+          break;
+      }
+
+      if (!result.success) {
+        const message = result.message || 'kubectl command failed';
+        await auditMutation(request, 'failure', { error: message }, auditType);
+        return {
+          status: 'error',
+          mutationId: request.id,
+          operation,
+          resource,
+          error: message,
+          rollbackCommand,
+        };
+      }
+
+      await auditMutation(request, 'success', { message: result.message }, auditType);
+      return {
+        status: 'success',
+        mutationId: request.id,
+        operation,
+        resource,
+        result: result.message,
+        approvedAt: approval.approvedAt?.toISOString(),
+        rollbackCommand,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await auditMutation(request, 'failure', { error: message }, auditType);
+      return {
+        status: 'error',
+        mutationId: request.id,
+        operation,
+        resource,
+        error: message,
+        rollbackCommand,
+      };
+    }
+  }
+);
+
 /**
  * GitHub Query Tool
  *
@@ -1915,8 +2534,7 @@ export const githubQueryTool = defineTool(
       return { error: 'query is required for github_query action=fix_candidates.' };
     }
 
-    const token =
-      config.providers.github.token || process.env.RUNBOOK_GITHUB_TOKEN || process.env.GITHUB_TOKEN;
+    const token = resolveGitHubToken(config.providers.github.token);
     const repository = config.providers.github.repository || process.env.RUNBOOK_GITHUB_REPOSITORY;
 
     if (!token) {
@@ -2072,7 +2690,10 @@ toolRegistry.registerCategory('aws', 'AWS Cloud Operations', [
   cloudwatchLogsTool,
 ]);
 
-toolRegistry.registerCategory('kubernetes', 'Kubernetes Cluster Operations', [kubernetesQueryTool]);
+toolRegistry.registerCategory('kubernetes', 'Kubernetes Cluster Operations', [
+  kubernetesQueryTool,
+  kubernetesMutateTool,
+]);
 toolRegistry.registerCategory('code', 'Code Fix Intelligence', [githubQueryTool, gitlabQueryTool]);
 
 /**
@@ -2927,10 +3548,22 @@ export const opsgenieAcknowledgeAlertTool = defineTool(
           note: args.note as string | undefined,
         },
       };
-      const approval = await requestApprovalWithOptions(request, {
-        useSlack: config.incident.slack.enabled,
-        autoApprove: autoApproveRisks,
+      const blocked = await checkProtection(config, request);
+      if (blocked) {
+        return blocked;
+      }
+      const planned = planMutation('opsgenie_acknowledge_alert', args, request, {
+        method: 'POST',
+        url: `https://api.opsgenie.com/v2/alerts/${request.resource}/acknowledge`,
+        body: { note: args.note as string | undefined },
       });
+      if (planned) {
+        return planned;
+      }
+      const approval = await requestApprovalWithOptions(
+        request,
+        getApprovalOptions(config, autoApproveRisks)
+      );
       if (!approval.approved) {
         return {
           status: 'rejected',
@@ -2940,16 +3573,24 @@ export const opsgenieAcknowledgeAlertTool = defineTool(
       }
 
       recordApprovedMutation(riskLevel);
-      const result = await acknowledgeOpsGenieAlert(
-        args.alert_id as string,
-        args.note as string | undefined
-      );
+      try {
+        const result = await acknowledgeOpsGenieAlert(
+          args.alert_id as string,
+          args.note as string | undefined
+        );
+        await auditMutation(request, 'success');
 
-      return {
-        success: true,
-        requestId: result.requestId,
-        message: 'Alert acknowledged',
-      };
+        return {
+          success: true,
+          requestId: result.requestId,
+          message: 'Alert acknowledged',
+        };
+      } catch (error) {
+        await auditMutation(request, 'failure', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw error;
+      }
     } catch (error) {
       return { error: error instanceof Error ? error.message : 'Unknown error' };
     }
@@ -3004,10 +3645,22 @@ export const opsgenieCloseAlertTool = defineTool(
           note: args.note as string | undefined,
         },
       };
-      const approval = await requestApprovalWithOptions(request, {
-        useSlack: config.incident.slack.enabled,
-        autoApprove: autoApproveRisks,
+      const blocked = await checkProtection(config, request);
+      if (blocked) {
+        return blocked;
+      }
+      const planned = planMutation('opsgenie_close_alert', args, request, {
+        method: 'POST',
+        url: `https://api.opsgenie.com/v2/alerts/${request.resource}/close`,
+        body: { note: args.note as string | undefined },
       });
+      if (planned) {
+        return planned;
+      }
+      const approval = await requestApprovalWithOptions(
+        request,
+        getApprovalOptions(config, autoApproveRisks)
+      );
       if (!approval.approved) {
         return {
           status: 'rejected',
@@ -3017,16 +3670,24 @@ export const opsgenieCloseAlertTool = defineTool(
       }
 
       recordApprovedMutation(riskLevel);
-      const result = await closeOpsGenieAlert(
-        args.alert_id as string,
-        args.note as string | undefined
-      );
+      try {
+        const result = await closeOpsGenieAlert(
+          args.alert_id as string,
+          args.note as string | undefined
+        );
+        await auditMutation(request, 'success');
 
-      return {
-        success: true,
-        requestId: result.requestId,
-        message: 'Alert closed',
-      };
+        return {
+          success: true,
+          requestId: result.requestId,
+          message: 'Alert closed',
+        };
+      } catch (error) {
+        await auditMutation(request, 'failure', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw error;
+      }
     } catch (error) {
       return { error: error instanceof Error ? error.message : 'Unknown error' };
     }
@@ -0,0 +1,69 @@
+/**
+ * Tests for loading the config file
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG, loadConfig } from '../config';
+
+describe('loadConfig', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'runbook-config-'));
+    configPath = join(dir, 'config.yaml');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the fields of each knowledge source type', async () => {
+    writeFileSync(
+      configPath,
+      `knowledge:
+  sources:
+    - type: github
+      repo: acme/platform
+      baseUrl: https://github.acme.internal/api/v3
+    - type: api
+      endpoint: https://catalog.internal/docs
+      pagination:
+        type: page
+`
+    );
+
+    const config = await loadConfig(configPath);
+    expect(config.knowledge.sources).toEqual([
+      {
+        type: 'github',
+        repo: 'acme/platform',
+        baseUrl: 'https://github.acme.internal/api/v3',
+      },
+      {
+        type: 'api',
+        endpoint: 'https://catalog.internal/docs',
+        pagination: { type: 'page' },
+      },
+    ]);
+  });
+
+  it('rejects a knowledge source missing fields its type requires', async () => {
+    writeFileSync(
+      configPath,
+      `knowledge:
+  sources:
+    - type: notion
+      apiKey: secret
+`
+    );
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await loadConfig(configPath)).toEqual(DEFAULT_CONFIG);
+    expect(String(error.mock.calls[0][1])).toContain('databaseId');
+  });
+});
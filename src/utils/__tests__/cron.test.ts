@@ -0,0 +1,27 @@
+/**
+ * Tests for cron schedules
+ */
+
+import { describe, expect, it } from 'vitest';
+import { nextCronTime } from '../cron';
+
+describe('nextCronTime', () => {
+  it('finds the next matching minute after the given time', () => {
+    const after = new Date('2026-10-19T10:07:30Z');
+    expect(nextCronTime('*/15 * * * *', after)?.toISOString()).toBe('2026-10-19T10:15:00.000Z');
+    expect(nextCronTime('0 2 * * *', after)?.toISOString()).toBe('2026-10-20T02:00:00.000Z');
+    // Never the given minute itself
+    expect(nextCronTime('7 10 * * *', after)?.toISOString()).toBe('2026-10-20T10:07:00.000Z');
+  });
+
+  it('evaluates weekdays and hours in the time zone', () => {
+    // Monday 09:00 in New York is 13:00 UTC during daylight saving time
+    expect(
+      nextCronTime('0 9 * * mon', new Date('2026-10-19T14:00:00Z'), 'America/New_York')
+    ).toEqual(new Date('2026-10-26T13:00:00.000Z'));
+  });
+
+  it('returns null for schedules that never run', () => {
+    expect(nextCronTime('0 0 31 2 *', new Date('2026-10-19T00:00:00Z'))).toBeNull();
+  });
+});
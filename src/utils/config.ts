@@ -100,46 +100,174 @@ const SlackConfigSchema = z.object({
     .default({}),
 });
 
+const AlertWebhooksConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // An endpoint is only served when its secret is configured
+  alertmanagerToken: z.string().optional(),
+  pagerdutySigningSecret: z.string().optional(),
+  opsgenieToken: z.string().optional(),
+  // Only alerts matching these filters start an investigation
+  severities: z.array(z.enum(['critical', 'high', 'medium', 'low'])).default(['critical', 'high']),
+  services: z.array(z.string()).default([]),
+  // Where results are posted
+  slackChannel: z.string().optional(),
+  pagerdutyNoteEmail: z.string().optional(),
+  maxConcurrent: z.number().int().min(1).max(10).default(2),
+  // Alerts waiting for an investigation beyond this are refused with 503
+  maxQueued: z.number().int().min(1).default(50),
+  dedupeTtlMinutes: z.number().int().min(1).default(60),
+});
+
 const IncidentConfigSchema = z.object({
   pagerduty: PagerDutyConfigSchema.default({}),
   opsgenie: OpsGenieConfigSchema.default({}),
   slack: SlackConfigSchema.default({}),
+  alertWebhooks: AlertWebhooksConfigSchema.default({}),
 });
 
-const KnowledgeSourceSchema = z.object({
-  type: z.enum(['filesystem', 'confluence', 'google_drive', 'notion', 'github', 'api']),
-  path: z.string().optional(),
-  watch: z.boolean().optional(),
+// Fields shared by every knowledge source; the rest depend on its type
+const SourceScheduleSchema = z.object({
   syncSchedule: z.string().optional(),
-  // Additional type-specific fields
-  repo: z.string().optional(),
-  branch: z.string().optional(),
-  spaceKey: z.string().optional(),
-  labels: z.array(z.string()).optional(),
-  databaseId: z.string().optional(),
-  endpoint: z.string().optional(),
-  // Confluence fields
-  baseUrl: z.string().optional(),
-  auth: z
-    .object({
+  lastSyncTime: z.string().optional(),
+});
+
+const KnowledgeSourceSchema = z.discriminatedUnion('type', [
+  SourceScheduleSchema.extend({
+    type: z.literal('filesystem'),
+    path: z.string().optional(),
+    watch: z.boolean().optional(),
+  }),
+  SourceScheduleSchema.extend({
+    type: z.literal('confluence'),
+    baseUrl: z.string(),
+    spaceKey: z.string(),
+    labels: z.array(z.string()).optional(),
+    auth: z.object({
       email: z.string(),
       apiToken: z.string(),
-    })
-    .optional(),
-  // Google Drive fields
-  folderIds: z.array(z.string()).optional(),
-  clientId: z.string().optional(),
-  clientSecret: z.string().optional(),
-  refreshToken: z.string().optional(),
-  mimeTypes: z.array(z.string()).optional(),
-  includeSubfolders: z.boolean().optional(),
-  lastSyncTime: z.string().optional(),
+    }),
+  }),
+  SourceScheduleSchema.extend({
+    type: z.literal('google_drive'),
+    folderIds: z.array(z.string()),
+    clientId: z.string(),
+    clientSecret: z.string(),
+    refreshToken: z.string().optional(),
+    mimeTypes: z.array(z.string()).optional(),
+    includeSubfolders: z.boolean().optional(),
+  }),
+  SourceScheduleSchema.extend({
+    type: z.literal('notion'),
+    databaseId: z.string(),
+    filter: z.record(z.unknown()).optional(),
+    apiKey: z.string().optional(),
+  }),
+  SourceScheduleSchema.extend({
+    type: z.literal('github'),
+    repo: z.string(),
+    branch: z.string().optional(),
+    path: z.string().optional(),
+    token: z.string().optional(),
+    // GitHub Enterprise API base
+    baseUrl: z.string().optional(),
+    lastSyncCommit: z.string().optional(),
+  }),
+  SourceScheduleSchema.extend({
+    type: z.literal('pagerduty'),
+    apiKey: z.string().optional(),
+    serviceIds: z.array(z.string()).optional(),
+    teamIds: z.array(z.string()).optional(),
+    urgencies: z.array(z.enum(['high', 'low'])).optional(),
+    lookbackDays: z.number().int().positive().max(180).optional(),
+    maxIncidents: z.number().int().positive().optional(),
+  }),
+  SourceScheduleSchema.extend({
+    type: z.literal('api'),
+    endpoint: z.string(),
+    name: z.string().optional(),
+    auth: z
+      .object({
+        type: z.enum(['bearer', 'basic', 'header']),
+        value: z.string(),
+        header: z.string().optional(),
+      })
+      .optional(),
+    headers: z.record(z.string()).optional(),
+    query: z.record(z.string()).optional(),
+    itemsPath: z.string().optional(),
+    mapping: z
+      .object({
+        id: z.string().optional(),
+        title: z.string().optional(),
+        content: z.string().optional(),
+        type: z.string().optional(),
+        services: z.string().optional(),
+        tags: z.string().optional(),
+        updatedAt: z.string().optional(),
+        createdAt: z.string().optional(),
+        url: z.string().optional(),
+        defaultType: z
+          .enum([
+            'runbook',
+            'postmortem',
+            'architecture',
+            'ownership',
+            'known_issue',
+            'environment',
+            'playbook',
+            'faq',
+          ])
+          .optional(),
+      })
+      .optional(),
+    pagination: z
+      .object({
+        type: z.enum(['cursor', 'page']),
+        param: z.string().optional(),
+        cursorPath: z.string().optional(),
+        startPage: z.number().int().optional(),
+        pageSize: z.number().int().positive().optional(),
+        pageSizeParam: z.string().optional(),
+        maxPages: z.number().int().positive().optional(),
+      })
+      .optional(),
+    sinceParam: z.string().optional(),
+  }),
+]);
+
+const KnowledgeEmbeddingSchema = z.object({
+  // auto: OpenAI when OPENAI_API_KEY is set, otherwise the local embedder
+  provider: z.enum(['auto', 'openai', 'bedrock', 'local']).default('auto'),
+  model: z.string().optional(),
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: z.string().optional(),
+  apiKey: z.string().optional(),
+  dimensions: z.number().int().positive().optional(),
+  region: z.string().optional(),
+  batchSize: z.number().int().positive().optional(),
 });
 
 const KnowledgeStoreSchema = z.object({
   type: z.enum(['local', 'pinecone', 'weaviate', 'qdrant']).default('local'),
   path: z.string().default('.runbook/knowledge.db'),
   embeddingModel: z.string().default('text-embedding-3-small'),
+  embedding: KnowledgeEmbeddingSchema.default({}),
+  qdrant: z
+    .object({
+      url: z.string().default('http://localhost:6333'),
+      apiKey: z.string().optional(),
+      collection: z.string().default('runbook_knowledge'),
+    })
+    .default({}),
+  // Approximate index for the local store
+  index: z
+    .object({
+      // Vector count at which the index is built
+      threshold: z.number().int().positive().default(5000),
+      // Clusters searched per query
+      probes: z.number().int().positive().default(8),
+    })
+    .default({}),
 });
 
 const KnowledgeRetrievalSchema = z.object({
@@ -153,12 +281,130 @@ const KnowledgeConfigSchema = z.object({
   retrieval: KnowledgeRetrievalSchema.default({}),
 });
 
+const ApprovalRuleSchema = z.object({
+  name: z.string().optional(),
+  // Empty lists match every mutation
+  riskLevels: z.array(z.enum(['low', 'medium', 'high', 'critical'])).default([]),
+  resources: z.array(z.string()).default([]),
+  operations: z.array(z.string()).default([]),
+  minApprovals: z.number().int().min(1).default(1),
+  approverGroups: z.array(z.string()).default([]),
+  excludeRequester: z.boolean().default(false),
+});
+
+const ApprovalConfigSchema = z.object({
+  // auto: Slack when incident.slack is enabled, otherwise CLI
+  backend: z.enum(['auto', 'cli', 'slack', 'http', 'file']).default('auto'),
+  timeoutMs: z.number().int().min(1000).default(300000),
+  groups: z.record(z.array(z.string())).default({}),
+  rules: z.array(ApprovalRuleSchema).default([]),
+  http: z
+    .object({
+      port: z.number().int().min(0).max(65535).default(3002),
+      host: z.string().default('127.0.0.1'),
+      baseUrl: z.string().optional(),
+    })
+    .default({}),
+  file: z
+    .object({
+      dir: z.string().default('.runbook/approvals'),
+    })
+    .default({}),
+});
+
+const VerificationConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  windowMs: z.number().int().min(0).default(300000),
+  intervalMs: z.number().int().min(1000).default(60000),
+  checks: z
+    .array(z.enum(['cloudwatch', 'prometheus', 'kubernetes']))
+    .default(['cloudwatch', 'prometheus', 'kubernetes']),
+  // prompt: offer the rollback; auto: run it (still subject to approval); off: report only
+  rollback: z.enum(['prompt', 'auto', 'off']).default('prompt'),
+});
+
+const ProtectionWindowSchema = z.union([
+  z.object({
+    start: z.string().refine((value) => !isNaN(Date.parse(value)), 'start must be an ISO date'),
+    end: z.string().refine((value) => !isNaN(Date.parse(value)), 'end must be an ISO date'),
+  }),
+  z.object({
+    // Five-field cron expression that opens the window
+    cron: z.string(),
+    durationMinutes: z
+      .number()
+      .int()
+      .min(1)
+      .max(31 * 24 * 60),
+  }),
+]);
+
+const ProtectionRuleSchema = z.object({
+  name: z.string(),
+  effect: z.enum(['deny', 'skills_only', 'require_incident']).default('deny'),
+  // Empty lists match always / every mutation
+  windows: z.array(ProtectionWindowSchema).default([]),
+  days: z.array(z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'])).default([]),
+  riskLevels: z.array(z.enum(['low', 'medium', 'high', 'critical'])).default([]),
+  resources: z.array(z.string()).default([]),
+  operations: z.array(z.string()).default([]),
+  tags: z.record(z.string()).default({}),
+  skills: z.array(z.string()).default([]),
+  message: z.string().optional(),
+  breakGlass: z.boolean().default(true),
+});
+
+const ProtectionConfigSchema = z.object({
+  timezone: z
+    .string()
+    .default('UTC')
+    .refine((value) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'timezone must be an IANA time zone'),
+  rules: z.array(ProtectionRuleSchema).default([]),
+  // Tags for resources whose tags cannot be looked up
+  resourceTags: z
+    .array(z.object({ resources: z.array(z.string()), tags: z.record(z.string()) }))
+    .default([]),
+});
+
+const RiskLevelSchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+const RiskConfigSchema = z.object({
+  // Tag keys that hold the environment name
+  environmentTags: z.array(z.string()).default(['env', 'environment', 'stage']),
+  // Environments by name; `adjust` raises or lowers risk by that many levels
+  environments: z
+    .record(
+      z.object({
+        resources: z.array(z.string()).default([]),
+        adjust: z.number().int().min(-3).max(3).default(0),
+        minimum: RiskLevelSchema.optional(),
+      })
+    )
+    .default({
+      production: { adjust: 1 },
+      prod: { adjust: 1 },
+      staging: { adjust: -1 },
+      dev: { adjust: -1 },
+    }),
+});
+
 const SafetyConfigSchema = z.object({
   requireApproval: z
     .array(z.enum(['low_risk', 'high_risk', 'low', 'medium', 'high', 'critical']))
     .default(['low_risk', 'high_risk', 'critical']),
   maxMutationsPerSession: z.number().default(10),
   cooldownBetweenCriticalMs: z.number().default(60000),
+  approval: ApprovalConfigSchema.default({}),
+  verification: VerificationConfigSchema.default({}),
+  protection: ProtectionConfigSchema.default({}),
+  risk: RiskConfigSchema.default({}),
 });
 
 const AgentConfigSchema = z.object({
@@ -190,6 +436,28 @@ const IntegrationsConfigSchema = z.object({
   claude: ClaudeIntegrationSchema.default({}),
 });
 
+const MCPConfigSchema = z.object({
+  // Opt-in operational tools; mutation tools cannot be exposed over MCP
+  exposeTools: z
+    .array(
+      z.enum([
+        'investigate',
+        'aws_query',
+        'kubernetes_query',
+        'cloudwatch_logs',
+        'prometheus',
+        'list_checkpoints',
+      ])
+    )
+    .default([]),
+  http: z
+    .object({
+      // Bearer token for the Streamable HTTP transport; required off loopback
+      authToken: z.string().optional(),
+    })
+    .default({}),
+});
+
 const ConfigSchema = z.object({
   llm: LLMConfigSchema.default({}),
   providers: z
@@ -206,6 +474,7 @@ const ConfigSchema = z.object({
   safety: SafetyConfigSchema.default({}),
   agent: AgentConfigSchema.default({}),
   integrations: IntegrationsConfigSchema.default({}),
+  mcp: MCPConfigSchema.default({}),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
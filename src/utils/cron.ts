@@ -0,0 +1,184 @@
+/**
+ * Cron Schedules
+ *
+ * Five-field cron expressions evaluated in an IANA time zone. Used for
+ * protection rule windows and knowledge source sync schedules.
+ */
+
+const DAY_NAMES: Record<string, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  wed: 3,
+  thu: 4,
+  fri: 5,
+  sat: 6,
+};
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+export interface ZonedTime {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar fields of `date` in a time zone
+ */
+export function zonedTime(date: Date, timeZone: string): ZonedTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: DAY_NAMES[parts.weekday.slice(0, 3).toLowerCase()],
+  };
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: Record<string, number> = {}
+): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (token: string): number => {
+    const value = names[token.toLowerCase()] ?? Number(token);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid cron value "${token}" (expected ${min}-${max})`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+    let [from, to] = [min, max];
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = toNumber(start);
+      to = end === undefined ? (stepText === undefined ? from : max) : toNumber(end);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day month weekday). Names
+ * like `mon` and `jan` are accepted; weekday 7 is Sunday.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+  const weekdays = parseCronField(fields[4], 0, 7, DAY_NAMES);
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes: parseCronField(fields[0], 0, 59),
+    hours: parseCronField(fields[1], 0, 23),
+    days: parseCronField(fields[2], 1, 31),
+    months: parseCronField(fields[3], 1, 12, MONTH_NAMES),
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+}
+
+/**
+ * Whether a schedule runs on the day of `time`
+ */
+export function matchesCronDay(schedule: CronSchedule, time: ZonedTime): boolean {
+  if (!schedule.months.has(time.month)) {
+    return false;
+  }
+  // Like cron: when both day fields are restricted, either may match
+  const day = schedule.days.has(time.day);
+  const weekday = schedule.weekdays.has(time.weekday);
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return day && weekday;
+  }
+  return day || weekday;
+}
+
+const MINUTE_MS = 60_000;
+
+/** How far ahead to look before giving up on a schedule that never runs */
+const MAX_LOOKAHEAD_MS = 366 * 24 * 60 * MINUTE_MS;
+
+/**
+ * The first time after `after` that a schedule runs, or null if it never
+ * does (e.g. `0 0 31 2 *`)
+ */
+export function nextCronTime(expression: string, after: Date, timeZone = 'UTC'): Date | null {
+  const schedule = parseCron(expression);
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+  let cursor = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  while (cursor <= limit) {
+    const time = zonedTime(new Date(cursor), timeZone);
+    if (!schedule.hours.has(time.hour) || !matchesCronDay(schedule, time)) {
+      // Skip to the start of the next hour
+      cursor += (60 - time.minute) * MINUTE_MS;
+      continue;
+    }
+    for (let minute = time.minute; minute < 60; minute++) {
+      if (schedule.minutes.has(minute)) {
+        return new Date(cursor + (minute - time.minute) * MINUTE_MS);
+      }
+    }
+    cursor += (60 - time.minute) * MINUTE_MS;
+  }
+  return null;
+}
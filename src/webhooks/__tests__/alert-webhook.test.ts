@@ -0,0 +1,368 @@
+/**
+ * Tests for the alert webhook receiver
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+
+vi.mock('../../tools/registry', () => ({
+  slackPostRootCauseTool: { execute: vi.fn(async () => ({ success: true })) },
+  pagerdutyAddNoteTool: { execute: vi.fn(async () => ({ success: true })) },
+}));
+
+import { slackPostRootCauseTool, pagerdutyAddNoteTool } from '../../tools/registry';
+import type { InvestigationResult } from '../../agent/investigation-orchestrator';
+import {
+  AlertWebhookReceiver,
+  matchesAlertFilters,
+  parseAlertWebhook,
+  publishInvestigationResult,
+  verifyPagerDutySignature,
+  type AlertWebhookOptions,
+} from '../alert-webhook';
+
+const alertmanagerPayload = {
+  status: 'firing',
+  groupKey: '{}:{alertname="HighErrorRate"}',
+  commonLabels: { severity: 'critical' },
+  alerts: [
+    {
+      status: 'firing',
+      labels: { alertname: 'HighErrorRate', service: 'checkout' },
+      annotations: { summary: 'Checkout 5xx above 5%' },
+      startsAt: '2026-10-01T10:00:00Z',
+    },
+  ],
+};
+
+const pagerdutyPayload = {
+  event: {
+    id: 'EV1',
+    event_type: 'incident.triggered',
+    resource_type: 'incident',
+    data: {
+      id: 'PD123',
+      type: 'incident',
+      title: 'Orders API down',
+      urgency: 'high',
+      status: 'triggered',
+      service: { id: 'S1', summary: 'orders-api' },
+      html_url: 'https://example.pagerduty.com/incidents/PD123',
+    },
+  },
+};
+
+const investigationResult: InvestigationResult = {
+  id: 'inv_1',
+  query: 'q',
+  rootCause: 'Bad deploy of checkout v2',
+  confidence: 'high',
+  summary: 'Errors started after the v2 rollout',
+  durationMs: 1000,
+};
+
+function createReceiver(overrides: Partial<AlertWebhookOptions> = {}) {
+  const runInvestigation = vi.fn(async () => investigationResult);
+  const publishResult = vi.fn(async () => {});
+  const receiver = new AlertWebhookReceiver({
+    alertmanagerToken: 'am-token',
+    pagerdutySigningSecret: 'pd-secret',
+    severities: ['critical', 'high'],
+    services: [],
+    runInvestigation,
+    publishResult,
+    ...overrides,
+  });
+  return { receiver, runInvestigation, publishResult };
+}
+
+function pagerdutySignature(body: string, secret = 'pd-secret'): string {
+  return 'v1=' + createHmac('sha256', secret).update(body).digest('hex');
+}
+
+describe('parseAlertWebhook', () => {
+  it('should normalize firing Alertmanager groups and ignore resolutions', () => {
+    const parsed = parseAlertWebhook('alertmanager', alertmanagerPayload);
+
+    expect(parsed?.dedupeKey).toMatch(/^alertmanager:\{\}:\{alertname="HighErrorRate"\}:\w+$/);
+    expect(parsed?.input).toMatchObject({
+      source: 'alertmanager',
+      id: 'HighErrorRate',
+      severity: 'critical',
+      services: ['checkout'],
+    });
+    expect(parseAlertWebhook('alertmanager', { ...alertmanagerPayload, status: 'resolved' })).toBe(
+      null
+    );
+  });
+
+  it('should tell Alertmanager notifications apart when alerts join the group', () => {
+    const key = (alerts: Array<Record<string, unknown>>) =>
+      parseAlertWebhook('alertmanager', { ...alertmanagerPayload, alerts })?.dedupeKey;
+    const first = { status: 'firing', fingerprint: 'a1', labels: { alertname: 'HighErrorRate' } };
+    const second = { status: 'firing', fingerprint: 'b2', labels: { alertname: 'HighErrorRate' } };
+
+    expect(key([first])).toBe(key([{ ...first, annotations: { summary: 'changed' } }]));
+    expect(key([first, second])).not.toBe(key([first]));
+    expect(key([second, first])).toBe(key([first, second]));
+    expect(key([first, { ...second, status: 'resolved' }])).toBe(key([first]));
+  });
+
+  it('should only start on triggered PagerDuty incidents and created OpsGenie alerts', () => {
+    expect(parseAlertWebhook('pagerduty', pagerdutyPayload)?.input).toMatchObject({
+      source: 'pagerduty',
+      id: 'PD123',
+      services: ['orders-api'],
+    });
+    expect(
+      parseAlertWebhook('pagerduty', {
+        event: { ...pagerdutyPayload.event, event_type: 'incident.acknowledged' },
+      })
+    ).toBe(null);
+
+    const opsgenie = {
+      action: 'Create',
+      alert: { alertId: 'og-1', message: 'Queue backlog', priority: 'P1', tags: ['service:jobs'] },
+    };
+    expect(parseAlertWebhook('opsgenie', opsgenie)?.input).toMatchObject({
+      source: 'opsgenie',
+      id: 'og-1',
+      severity: 'critical',
+      services: ['jobs'],
+    });
+    expect(parseAlertWebhook('opsgenie', { ...opsgenie, action: 'Close' })).toBe(null);
+  });
+});
+
+describe('verification and filters', () => {
+  it('should accept any matching PagerDuty v1 signature', () => {
+    const body = JSON.stringify(pagerdutyPayload);
+
+    expect(verifyPagerDutySignature('pd-secret', pagerdutySignature(body), body)).toBe(true);
+    expect(
+      verifyPagerDutySignature(
+        'pd-secret',
+        `${pagerdutySignature(body, 'old')},${pagerdutySignature(body)}`,
+        body
+      )
+    ).toBe(true);
+    expect(verifyPagerDutySignature('pd-secret', pagerdutySignature(body, 'other'), body)).toBe(
+      false
+    );
+    expect(verifyPagerDutySignature('pd-secret', undefined, body)).toBe(false);
+  });
+
+  it('should match severity and service filters', () => {
+    const input = parseAlertWebhook('alertmanager', alertmanagerPayload)!.input;
+
+    expect(matchesAlertFilters(input, { severities: ['critical'], services: [] })).toBe(true);
+    expect(matchesAlertFilters(input, { severities: ['high'], services: [] })).toBe(false);
+    expect(matchesAlertFilters(input, { severities: ['critical'], services: ['checkout'] })).toBe(
+      true
+    );
+    expect(matchesAlertFilters(input, { severities: ['critical'], services: ['billing'] })).toBe(
+      false
+    );
+  });
+});
+
+describe('AlertWebhookReceiver', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reject unsigned requests and sources without a secret', () => {
+    const { receiver, runInvestigation } = createReceiver();
+    const body = JSON.stringify(alertmanagerPayload);
+
+    expect(receiver.receive('alertmanager', {}, body).status).toBe(401);
+    expect(receiver.receive('alertmanager', { authorization: 'Bearer wrong' }, body).status).toBe(
+      401
+    );
+    expect(receiver.receive('opsgenie', { authorization: 'Bearer am-token' }, body).status).toBe(
+      404
+    );
+    expect(receiver.enabledSources).toEqual(['alertmanager', 'pagerduty']);
+    expect(runInvestigation).not.toHaveBeenCalled();
+  });
+
+  it('should investigate accepted alerts once and publish the result', async () => {
+    const { receiver, runInvestigation, publishResult } = createReceiver();
+    const body = JSON.stringify(pagerdutyPayload);
+    const headers = { 'x-pagerduty-signature': pagerdutySignature(body) };
+
+    expect(receiver.receive('pagerduty', headers, body)).toEqual({
+      status: 202,
+      body: { status: 'accepted', alertId: 'PD123' },
+    });
+    expect(receiver.receive('pagerduty', headers, body).body.status).toBe('duplicate');
+
+    await receiver.drain();
+
+    expect(runInvestigation).toHaveBeenCalledTimes(1);
+    expect(runInvestigation).toHaveBeenCalledWith(
+      expect.objectContaining({ source: 'pagerduty', id: 'PD123', title: 'Orders API down' })
+    );
+    expect(publishResult).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'PD123' }),
+      investigationResult
+    );
+  });
+
+  it('should filter alerts and reject malformed payloads', () => {
+    const { receiver, runInvestigation } = createReceiver({ services: ['billing'] });
+    const headers = { authorization: 'Bearer am-token' };
+
+    expect(receiver.receive('alertmanager', headers, JSON.stringify(alertmanagerPayload))).toEqual({
+      status: 202,
+      body: { status: 'filtered', alertId: 'HighErrorRate' },
+    });
+    expect(receiver.receive('alertmanager', headers, '{not json').status).toBe(400);
+    expect(
+      receiver.receive('alertmanager', headers, JSON.stringify({ status: 'resolved' })).body.status
+    ).toBe('ignored');
+    expect(runInvestigation).not.toHaveBeenCalled();
+  });
+
+  it('should refuse oversized request bodies', async () => {
+    const { receiver } = createReceiver();
+    const req = Object.assign(Readable.from(['x'.repeat(600 * 1024), 'x'.repeat(600 * 1024)]), {
+      method: 'POST',
+      url: '/alerts/alertmanager',
+      headers: { authorization: 'Bearer am-token' },
+    });
+    const res = { writeHead: vi.fn(), end: vi.fn() };
+
+    expect(
+      await receiver.handleRequest(
+        req as unknown as IncomingMessage,
+        res as unknown as ServerResponse
+      )
+    ).toBe(true);
+    expect(res.writeHead).toHaveBeenCalledWith(413, expect.anything());
+    expect(req.destroyed).toBe(true);
+  });
+
+  it('should count multi-byte characters against the body limit', async () => {
+    const { receiver } = createReceiver();
+    // 400K three-byte characters: under the limit in characters, over it in bytes
+    const req = Object.assign(Readable.from(['€'.repeat(400 * 1024)]), {
+      method: 'POST',
+      url: '/alerts/alertmanager',
+      headers: { authorization: 'Bearer am-token' },
+    });
+    const res = { writeHead: vi.fn(), end: vi.fn() };
+
+    await receiver.handleRequest(
+      req as unknown as IncomingMessage,
+      res as unknown as ServerResponse
+    );
+    expect(res.writeHead).toHaveBeenCalledWith(413, expect.anything());
+  });
+
+  it('should refuse alerts while the queue is full and accept their retries later', async () => {
+    let release = () => {};
+    const runInvestigation = vi.fn(
+      () =>
+        new Promise<typeof investigationResult>((resolve) => {
+          release = () => resolve(investigationResult);
+        })
+    );
+    const { receiver } = createReceiver({ maxConcurrent: 1, maxQueued: 1, runInvestigation });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const send = (name: string) =>
+      receiver.receive(
+        'alertmanager',
+        { authorization: 'Bearer am-token' },
+        JSON.stringify({ ...alertmanagerPayload, groupKey: name })
+      );
+
+    expect(send('A').status).toBe(202);
+    expect(send('B').status).toBe(202);
+    expect(send('C')).toMatchObject({
+      status: 503,
+      body: { status: 'error', message: 'Investigation queue is full' },
+    });
+
+    release();
+    await vi.waitFor(() => expect(runInvestigation).toHaveBeenCalledTimes(2));
+    expect(send('C').body.status).toBe('accepted');
+    release();
+    await vi.waitFor(() => expect(runInvestigation).toHaveBeenCalledTimes(3));
+    release();
+    await receiver.drain();
+  });
+
+  it('should bound concurrent investigations and keep going after failures', async () => {
+    let active = 0;
+    let peak = 0;
+    const runInvestigation = vi.fn(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      if (runInvestigation.mock.calls.length === 1) {
+        throw new Error('LLM unavailable');
+      }
+      return investigationResult;
+    });
+    const { receiver, publishResult } = createReceiver({ maxConcurrent: 1, runInvestigation });
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    for (const name of ['A', 'B', 'C']) {
+      const body = JSON.stringify({ ...alertmanagerPayload, groupKey: name });
+      receiver.receive('alertmanager', { authorization: 'Bearer am-token' }, body);
+    }
+    expect(receiver.pendingCount).toBe(3);
+
+    await receiver.drain();
+
+    expect(peak).toBe(1);
+    expect(runInvestigation).toHaveBeenCalledTimes(3);
+    expect(publishResult).toHaveBeenCalledTimes(2);
+    expect(errorSpy).toHaveBeenCalled();
+    expect(receiver.pendingCount).toBe(0);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('publishInvestigationResult', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should post to Slack and add a PagerDuty note', async () => {
+    const input = parseAlertWebhook('pagerduty', pagerdutyPayload)!.input;
+
+    await publishInvestigationResult(input, investigationResult, {
+      slackChannel: '#incidents',
+      pagerdutyNoteEmail: 'oncall@example.com',
+    });
+
+    expect(slackPostRootCauseTool.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: '#incidents',
+        incident_id: 'PD123',
+        root_cause: 'Bad deploy of checkout v2',
+        confidence: 'high',
+      })
+    );
+    expect(pagerdutyAddNoteTool.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ incident_id: 'PD123', email: 'oncall@example.com' })
+    );
+  });
+
+  it('should not add PagerDuty notes for other sources', async () => {
+    const input = parseAlertWebhook('alertmanager', alertmanagerPayload)!.input;
+
+    await publishInvestigationResult(input, investigationResult, {
+      pagerdutyNoteEmail: 'oncall@example.com',
+    });
+
+    expect(slackPostRootCauseTool.execute).not.toHaveBeenCalled();
+    expect(pagerdutyAddNoteTool.execute).not.toHaveBeenCalled();
+  });
+});
@@ -222,7 +222,7 @@ describe('SlackWebhook', () => {
       const mutationId = 'mut_test_123';
       const response = {
         approved: true,
-        approvedBy: 'slack:testuser',
+        approvedBy: 'slack:U123456',
         approvedByName: 'Test User',
         approvedAt: new Date().toISOString(),
         reason: 'Approved via Slack',
@@ -235,7 +235,7 @@ describe('SlackWebhook', () => {
       );
 
       expect(content.approved).toBe(true);
-      expect(content.approvedBy).toBe('slack:testuser');
+      expect(content.approvedBy).toBe('slack:U123456');
       expect(content.approvedByName).toBe('Test User');
       expect(content.reason).toBe('Approved via Slack');
       expect(content.approvedAt).toBeDefined();
@@ -245,7 +245,7 @@ describe('SlackWebhook', () => {
       const mutationId = 'mut_test_456';
       const response = {
         approved: false,
-        approvedBy: 'slack:testuser',
+        approvedBy: 'slack:U123456',
         approvedByName: 'Test User',
         approvedAt: new Date().toISOString(),
         reason: 'Rejected via Slack',
@@ -0,0 +1,405 @@
+/**
+ * Alert Webhook Receiver
+ *
+ * Accepts Alertmanager, PagerDuty v3 and OpsGenie webhook payloads, verifies
+ * them, and starts a read-only investigation in the background for alerts
+ * that match the configured severity and service filters. Results are posted
+ * to Slack and, for PagerDuty incidents, added as an incident note.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { fromAlertPayload, type TriageInput } from '../agent/alert-sources';
+import type { InvestigationResult } from '../agent/investigation-orchestrator';
+import { withAuditContext } from '../audit';
+import { EventDedupeCache } from '../slack/gateway';
+
+export const ALERT_WEBHOOK_SOURCES = ['alertmanager', 'pagerduty', 'opsgenie'] as const;
+
+export type AlertWebhookSource = (typeof ALERT_WEBHOOK_SOURCES)[number];
+
+export interface AlertWebhookConfig {
+  /** Bearer token Alertmanager sends (http_config.authorization) */
+  alertmanagerToken?: string;
+  /** PagerDuty v3 webhook subscription signing secret */
+  pagerdutySigningSecret?: string;
+  /** Bearer token configured as a custom header on the OpsGenie webhook */
+  opsgenieToken?: string;
+  severities: TriageInput['severity'][];
+  /** Only investigate alerts for these services; empty allows all */
+  services: string[];
+  slackChannel?: string;
+  /** PagerDuty user email notes are attributed to */
+  pagerdutyNoteEmail?: string;
+  maxConcurrent?: number;
+  /** Alerts waiting for an investigation slot before new ones are refused */
+  maxQueued?: number;
+  dedupeTtlMs?: number;
+}
+
+export interface AlertWebhookOptions extends AlertWebhookConfig {
+  runInvestigation: (input: TriageInput) => Promise<InvestigationResult>;
+  /** Override how results are reported (defaults to Slack and PagerDuty notes) */
+  publishResult?: (input: TriageInput, result: InvestigationResult) => Promise<void>;
+}
+
+export interface AlertWebhookResponse {
+  status: number;
+  body: {
+    status: 'accepted' | 'ignored' | 'duplicate' | 'filtered' | 'error';
+    message?: string;
+    alertId?: string;
+  };
+}
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/** Largest webhook payload accepted */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function header(headers: Headers, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Verify a PagerDuty v3 `X-PagerDuty-Signature` header. The header may list
+ * several `v1=` signatures while a signing secret is being rotated.
+ */
+export function verifyPagerDutySignature(
+  secret: string,
+  signature: string | undefined,
+  body: string
+): boolean {
+  if (!signature) {
+    return false;
+  }
+  const expected = 'v1=' + createHmac('sha256', secret).update(body).digest('hex');
+  return signature.split(',').some((candidate) => safeEqual(candidate.trim(), expected));
+}
+
+/**
+ * Verify an `Authorization: Bearer <token>` header
+ */
+export function verifyBearerToken(token: string, authorization: string | undefined): boolean {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return !!match && safeEqual(match[1].trim(), token);
+}
+
+/**
+ * Identify the set of alerts firing in an Alertmanager notification.
+ * Alertmanager re-sends a group when alerts join or resolve, so the group key
+ * alone would hide new alerts behind the first notification.
+ */
+function alertmanagerFiringKey(body: Record<string, unknown>): string {
+  const alerts = Array.isArray(body.alerts) ? (body.alerts as Array<Record<string, unknown>>) : [];
+  const firing = alerts
+    .filter((alert) => alert.status !== 'resolved')
+    .map((alert) =>
+      typeof alert.fingerprint === 'string'
+        ? alert.fingerprint
+        : JSON.stringify(Object.entries(alert.labels || {}).sort())
+    )
+    .sort();
+  return createHash('sha256').update(firing.join('\n')).digest('hex').slice(0, 16);
+}
+
+/**
+ * Normalize a webhook payload. Returns null for events that should not start
+ * an investigation (resolutions, acknowledgements, non-create actions).
+ */
+export function parseAlertWebhook(
+  source: AlertWebhookSource,
+  payload: unknown
+): { input: TriageInput; dedupeKey: string } | null {
+  const body = (payload && typeof payload === 'object' ? payload : {}) as Record<string, unknown>;
+
+  switch (source) {
+    case 'alertmanager': {
+      if (body.status !== 'firing') {
+        return null;
+      }
+      const input = { ...fromAlertPayload(body), source };
+      const groupKey = typeof body.groupKey === 'string' ? body.groupKey : input.id;
+      return { input, dedupeKey: `alertmanager:${groupKey}:${alertmanagerFiringKey(body)}` };
+    }
+    case 'pagerduty': {
+      const event = (body.event || {}) as Record<string, unknown>;
+      if (event.event_type !== 'incident.triggered') {
+        return null;
+      }
+      const input = { ...fromAlertPayload(body), source };
+      return { input, dedupeKey: `pagerduty:${input.id}` };
+    }
+    case 'opsgenie': {
+      if (body.action !== 'Create') {
+        return null;
+      }
+      const input = { ...fromAlertPayload(body), source };
+      return { input, dedupeKey: `opsgenie:${input.id}` };
+    }
+  }
+}
+
+/**
+ * Check an alert against the severity and service filters
+ */
+export function matchesAlertFilters(
+  input: TriageInput,
+  filters: Pick<AlertWebhookConfig, 'severities' | 'services'>
+): boolean {
+  if (!filters.severities.includes(input.severity)) {
+    return false;
+  }
+  if (filters.services.length === 0) {
+    return true;
+  }
+  return input.services.some((service) => filters.services.includes(service));
+}
+
+function formatPagerDutyNote(result: InvestigationResult): string {
+  const lines = [
+    'Runbook first-pass investigation',
+    `Root cause: ${result.rootCause || 'Not determined'}`,
+  ];
+  if (result.confidence) {
+    lines.push(`Confidence: ${result.confidence}`);
+  }
+  lines.push('', result.summary);
+  const steps = result.remediationPlan?.steps || [];
+  if (steps.length > 0) {
+    lines.push('', 'Suggested remediation (not executed):');
+    steps.forEach((step, index) => lines.push(`${index + 1}. ${step.action}`));
+  }
+  lines.push('', `Investigation ID: ${result.id}`);
+  return lines.join('\n');
+}
+
+/**
+ * Post an investigation result to Slack and, for PagerDuty incidents, as an
+ * incident note
+ */
+export async function publishInvestigationResult(
+  input: TriageInput,
+  result: InvestigationResult,
+  config: Pick<AlertWebhookConfig, 'slackChannel' | 'pagerdutyNoteEmail'>
+): Promise<void> {
+  const { slackPostRootCauseTool, pagerdutyAddNoteTool } = await import('../tools/registry');
+  const outcomes: Array<{ target: string; result: unknown }> = [];
+
+  if (config.slackChannel) {
+    const steps = result.remediationPlan?.steps || [];
+    outcomes.push({
+      target: 'Slack',
+      result: await slackPostRootCauseTool.execute({
+        channel: config.slackChannel,
+        incident_id: input.id,
+        root_cause: result.rootCause || `Not determined — ${input.title}`,
+        confidence: result.confidence || 'low',
+        evidence: [result.summary],
+        suggested_remediation:
+          steps.length > 0 ? steps.map((step) => step.action).join('\n') : undefined,
+      }),
+    });
+  }
+
+  if (input.source === 'pagerduty' && config.pagerdutyNoteEmail) {
+    outcomes.push({
+      target: 'PagerDuty',
+      result: await pagerdutyAddNoteTool.execute({
+        incident_id: input.id,
+        note: formatPagerDutyNote(result),
+        email: config.pagerdutyNoteEmail,
+      }),
+    });
+  }
+
+  for (const outcome of outcomes) {
+    const error = (outcome.result as { error?: string } | undefined)?.error;
+    if (error) {
+      console.error(`Failed to post investigation of ${input.id} to ${outcome.target}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Receives alert webhooks and runs investigations with bounded concurrency
+ */
+export class AlertWebhookReceiver {
+  private readonly dedupe: EventDedupeCache;
+  private readonly queue: TriageInput[] = [];
+  private readonly running = new Set<Promise<void>>();
+  private readonly maxConcurrent: number;
+  private readonly maxQueued: number;
+
+  constructor(private readonly options: AlertWebhookOptions) {
+    this.dedupe = new EventDedupeCache(options.dedupeTtlMs ?? 60 * 60 * 1000);
+    this.maxConcurrent = options.maxConcurrent ?? 2;
+    this.maxQueued = options.maxQueued ?? 50;
+  }
+
+  /**
+   * Sources with a configured secret
+   */
+  get enabledSources(): AlertWebhookSource[] {
+    return ALERT_WEBHOOK_SOURCES.filter((source) => !!this.secretFor(source));
+  }
+
+  /**
+   * Number of investigations queued or running
+   */
+  get pendingCount(): number {
+    return this.queue.length + this.running.size;
+  }
+
+  /**
+   * Verify, normalize and filter a webhook; accepted alerts are queued for
+   * investigation and the response is returned without waiting for it
+   */
+  receive(source: AlertWebhookSource, headers: Headers, rawBody: string): AlertWebhookResponse {
+    const secret = this.secretFor(source);
+    if (!secret) {
+      return {
+        status: 404,
+        body: { status: 'error', message: `${source} webhooks are not enabled` },
+      };
+    }
+
+    const verified =
+      source === 'pagerduty'
+        ? verifyPagerDutySignature(secret, header(headers, 'x-pagerduty-signature'), rawBody)
+        : verifyBearerToken(secret, header(headers, 'authorization'));
+    if (!verified) {
+      return { status: 401, body: { status: 'error', message: 'Invalid signature' } };
+    }
+
+    let parsed: ReturnType<typeof parseAlertWebhook>;
+    try {
+      parsed = parseAlertWebhook(source, JSON.parse(rawBody));
+    } catch (error) {
+      return {
+        status: 400,
+        body: {
+          status: 'error',
+          message: error instanceof Error ? error.message : 'Invalid payload',
+        },
+      };
+    }
+
+    if (!parsed) {
+      return { status: 202, body: { status: 'ignored' } };
+    }
+
+    const { input, dedupeKey } = parsed;
+    if (this.dedupe.has(dedupeKey)) {
+      return { status: 202, body: { status: 'duplicate', alertId: input.id } };
+    }
+
+    if (!matchesAlertFilters(input, this.options)) {
+      this.dedupe.add(dedupeKey);
+      return { status: 202, body: { status: 'filtered', alertId: input.id } };
+    }
+
+    // Refused alerts are not remembered, so the sender's retry is accepted once there is room
+    if (this.queue.length >= this.maxQueued) {
+      return {
+        status: 503,
+        body: { status: 'error', message: 'Investigation queue is full', alertId: input.id },
+      };
+    }
+    this.dedupe.add(dedupeKey);
+    this.queue.push(input);
+    this.startQueued();
+    return { status: 202, body: { status: 'accepted', alertId: input.id } };
+  }
+
+  /**
+   * Handle an HTTP request to `/alerts/<source>`. Returns false when the
+   * request is not for this receiver.
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const match = path.match(/^\/alerts\/([a-z]+)$/);
+    const source = match?.[1] as AlertWebhookSource | undefined;
+    if (req.method !== 'POST' || !source || !ALERT_WEBHOOK_SOURCES.includes(source)) {
+      return false;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += Buffer.byteLength(chunk);
+      if (size > MAX_BODY_BYTES) {
+        res.writeHead(413, { 'Content-Type': 'application/json', Connection: 'close' });
+        res.end(JSON.stringify({ status: 'error', message: 'Request body too large' }));
+        // Stop receiving the rest of the upload
+        req.destroy();
+        return true;
+      }
+      chunks.push(Buffer.from(chunk));
+    }
+
+    const response = this.receive(source, req.headers, Buffer.concat(chunks).toString('utf8'));
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+    return true;
+  }
+
+  /**
+   * Wait for all queued and running investigations to finish
+   */
+  async drain(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.all(this.running);
+    }
+  }
+
+  private secretFor(source: AlertWebhookSource): string | undefined {
+    switch (source) {
+      case 'alertmanager':
+        return this.options.alertmanagerToken;
+      case 'pagerduty':
+        return this.options.pagerdutySigningSecret;
+      case 'opsgenie':
+        return this.options.opsgenieToken;
+    }
+  }
+
+  private startQueued(): void {
+    while (this.running.size < this.maxConcurrent && this.queue.length > 0) {
+      const input = this.queue.shift() as TriageInput;
+      const run = this.investigate(input).finally(() => {
+        this.running.delete(run);
+        this.startQueued();
+      });
+      this.running.add(run);
+    }
+  }
+
+  private async investigate(input: TriageInput): Promise<void> {
+    console.log(`Investigating ${input.source} alert ${input.id}: ${input.title}`);
+    try {
+      // Attribute what the investigation does to the webhook that started it
+      const result = await withAuditContext({ user: `webhook:${input.source}` }, () =>
+        this.options.runInvestigation(input)
+      );
+      const publish =
+        this.options.publishResult ||
+        ((alert: TriageInput, investigation: InvestigationResult) =>
+          publishInvestigationResult(alert, investigation, this.options));
+      await publish(input, result);
+      console.log(`Investigation of ${input.id} complete: ${result.rootCause || 'no root cause'}`);
+    } catch (error) {
+      console.error(
+        `Investigation of ${input.source} alert ${input.id} failed:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
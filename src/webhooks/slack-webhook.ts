@@ -1,7 +1,8 @@
 /**
  * Slack Webhook Server
  *
- * Handles interactive message payloads from Slack (button clicks for approvals).
+ * Handles interactive message payloads from Slack (button clicks for approvals)
+ * and, when configured, alert webhooks that start investigations.
  * Runs as a standalone server or can be integrated into existing HTTP servers.
  */
 
@@ -18,6 +19,7 @@ import {
 } from 'fs';
 import { join } from 'path';
 import { updateMessage } from '../tools/incident/slack';
+import { AlertWebhookReceiver, type AlertWebhookOptions } from './alert-webhook';
 
 /**
  * Slack interaction payload types
@@ -53,8 +55,11 @@ interface SlackInteractionPayload {
  */
 export interface WebhookServerConfig {
   port: number;
-  signingSecret: string;
+  /** Slack signing secret; Slack interactions are rejected without it */
+  signingSecret?: string;
   pendingDir?: string;
+  /** Serve alert webhooks under /alerts/<source> */
+  alerts?: AlertWebhookOptions;
 }
 
 /**
@@ -130,9 +135,26 @@ async function handleApprovalAction(
     return { ok: false, message: 'This approval request has expired or was already handled' };
   }
 
+  // The requester consumes one decision at a time
+  if (existsSync(responseFile)) {
+    return {
+      ok: false,
+      message: 'Another decision is still being processed, try again in a few seconds',
+    };
+  }
+
+  let approvalsRemaining = 1;
+  try {
+    approvalsRemaining = JSON.parse(readFileSync(pendingFile, 'utf-8')).approvalsRemaining ?? 1;
+  } catch {
+    // Older pending files only need one approval
+  }
+  const moreApprovalsNeeded = isApprove && approvalsRemaining > 1;
+
   const response = {
     approved: isApprove,
-    approvedBy: `slack:${payload.user.username}`,
+    // Usernames can be changed by their owner; IDs cannot
+    approvedBy: `slack:${payload.user.id}`,
     approvedByName: payload.user.name,
     approvedAt: new Date().toISOString(),
     reason: isApprove ? 'Approved via Slack' : 'Rejected via Slack',
@@ -140,6 +162,14 @@ async function handleApprovalAction(
 
   writeFileSync(responseFile, JSON.stringify(response));
 
+  // Keep the buttons for the remaining approvers
+  if (moreApprovalsNeeded) {
+    return {
+      ok: true,
+      message: `Approval from ${payload.user.name} recorded; ${approvalsRemaining - 1} more needed`,
+    };
+  }
+
   // Clean up pending file
   try {
     unlinkSync(pendingFile);
@@ -202,7 +232,7 @@ async function handleApprovalAction(
 /**
  * Create the webhook request handler
  */
-function createRequestHandler(config: WebhookServerConfig) {
+function createRequestHandler(config: WebhookServerConfig, alerts?: AlertWebhookReceiver) {
   const pendingDir = config.pendingDir || join(process.cwd(), '.runbook', 'pending');
 
   return async (req: IncomingMessage, res: ServerResponse) => {
@@ -213,6 +243,10 @@ function createRequestHandler(config: WebhookServerConfig) {
       return;
     }
 
+    if (alerts && (await alerts.handleRequest(req, res))) {
+      return;
+    }
+
     // Only handle POST to /slack/interactions
     if (req.url !== '/slack/interactions' || req.method !== 'POST') {
       res.writeHead(404);
@@ -230,7 +264,10 @@ function createRequestHandler(config: WebhookServerConfig) {
     const signature = req.headers['x-slack-signature'] as string | undefined;
     const timestamp = req.headers['x-slack-request-timestamp'] as string | undefined;
 
-    if (!verifySlackSignature(config.signingSecret, signature, timestamp, body)) {
+    if (
+      !config.signingSecret ||
+      !verifySlackSignature(config.signingSecret, signature, timestamp, body)
+    ) {
       console.error('Invalid Slack signature');
       res.writeHead(401);
       res.end('Invalid signature');
@@ -277,7 +314,8 @@ function createRequestHandler(config: WebhookServerConfig) {
  */
 export function startWebhookServer(config: WebhookServerConfig): Promise<void> {
   return new Promise((resolve, reject) => {
-    const handler = createRequestHandler(config);
+    const alerts = config.alerts ? new AlertWebhookReceiver(config.alerts) : undefined;
+    const handler = createRequestHandler(config, alerts);
     const server = createServer(handler);
 
     // Ensure pending directory exists
@@ -293,7 +331,12 @@ export function startWebhookServer(config: WebhookServerConfig): Promise<void> {
 
     server.listen(config.port, () => {
       console.log(`Slack webhook server listening on port ${config.port}`);
-      console.log(`Endpoint: http://localhost:${config.port}/slack/interactions`);
+      if (config.signingSecret) {
+        console.log(`Endpoint: http://localhost:${config.port}/slack/interactions`);
+      }
+      for (const source of alerts?.enabledSources || []) {
+        console.log(`Alert webhook: http://localhost:${config.port}/alerts/${source}`);
+      }
       console.log(`Health check: http://localhost:${config.port}/health`);
       resolve();
     });